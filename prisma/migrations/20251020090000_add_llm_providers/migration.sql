@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "LlmProvider" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "baseUrl" TEXT,
+    "encryptedApiKey" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "LlmFeatureModel" (
+    "feature" TEXT NOT NULL PRIMARY KEY,
+    "model" TEXT NOT NULL,
+    "updatedAt" DATETIME NOT NULL,
+    "providerId" TEXT NOT NULL,
+    CONSTRAINT "LlmFeatureModel_providerId_fkey" FOREIGN KEY ("providerId") REFERENCES "LlmProvider" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "LlmFeatureModel_providerId_idx" ON "LlmFeatureModel"("providerId");
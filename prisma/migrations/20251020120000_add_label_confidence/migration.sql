@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "EmailLabel" ADD COLUMN "confidence" REAL;
+ALTER TABLE "EmailLabel" ADD COLUMN "modelVersion" TEXT;
+ALTER TABLE "EmailLabel" ADD COLUMN "source" TEXT;
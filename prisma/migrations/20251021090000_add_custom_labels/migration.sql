@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "CustomLabel" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "examples" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT NOT NULL,
+    CONSTRAINT "CustomLabel_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "CustomLabel_userId_idx" ON "CustomLabel"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomLabel_userId_name_key" ON "CustomLabel"("userId", "name");
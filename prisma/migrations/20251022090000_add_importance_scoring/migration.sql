@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "EmailThread" ADD COLUMN "importanceScore" REAL NOT NULL DEFAULT 0;
+ALTER TABLE "EmailThread" ADD COLUMN "importanceReasons" TEXT;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "importanceWeights" TEXT;
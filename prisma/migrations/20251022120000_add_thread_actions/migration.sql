@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "EmailThread" ADD COLUMN "isTrashed" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "EmailThread" ADD COLUMN "snoozedUntil" DATETIME;
+ALTER TABLE "EmailThread" ADD COLUMN "folderId" TEXT;
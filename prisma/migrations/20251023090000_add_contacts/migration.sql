@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "Contact" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "avatar" TEXT,
+    "phone" TEXT,
+    "emailCount" INTEGER NOT NULL DEFAULT 0,
+    "lastEmailAt" DATETIME,
+    "isManual" BOOLEAN NOT NULL DEFAULT false,
+    "source" TEXT NOT NULL DEFAULT 'mail',
+    "aliases" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT NOT NULL,
+    CONSTRAINT "Contact_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Contact_userId_email_key" ON "Contact"("userId", "email");
+
+-- CreateIndex
+CREATE INDEX "Contact_userId_lastEmailAt_idx" ON "Contact"("userId", "lastEmailAt");
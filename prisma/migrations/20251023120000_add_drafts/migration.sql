@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "Draft" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "externalId" TEXT,
+    "mode" TEXT NOT NULL DEFAULT 'new',
+    "threadId" TEXT,
+    "replyToMessageId" TEXT,
+    "to" TEXT NOT NULL DEFAULT '[]',
+    "cc" TEXT NOT NULL DEFAULT '[]',
+    "bcc" TEXT NOT NULL DEFAULT '[]',
+    "subject" TEXT NOT NULL DEFAULT '',
+    "body" TEXT NOT NULL DEFAULT '',
+    "isDirty" BOOLEAN NOT NULL DEFAULT true,
+    "syncedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT NOT NULL,
+    CONSTRAINT "Draft_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Draft_userId_externalId_key" ON "Draft"("userId", "externalId");
+
+-- CreateIndex
+CREATE INDEX "Draft_userId_updatedAt_idx" ON "Draft"("userId", "updatedAt");
+
+-- CreateIndex
+CREATE INDEX "Draft_userId_threadId_idx" ON "Draft"("userId", "threadId");
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "OutboxMessage" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "mode" TEXT NOT NULL DEFAULT 'new',
+    "to" TEXT NOT NULL,
+    "cc" TEXT NOT NULL DEFAULT '[]',
+    "bcc" TEXT NOT NULL DEFAULT '[]',
+    "subject" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "isHtml" BOOLEAN NOT NULL DEFAULT true,
+    "threadId" TEXT,
+    "replyToMessageId" TEXT,
+    "attachments" TEXT,
+    "followUpDuration" REAL,
+    "sendAt" DATETIME NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'scheduled',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT NOT NULL,
+    CONSTRAINT "OutboxMessage_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "OutboxMessage_status_sendAt_idx" ON "OutboxMessage"("status", "sendAt");
+
+-- CreateIndex
+CREATE INDEX "OutboxMessage_userId_sendAt_idx" ON "OutboxMessage"("userId", "sendAt");
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "FollowUp" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "threadId" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "recipients" TEXT NOT NULL,
+    "sentAt" DATETIME NOT NULL,
+    "dueAt" DATETIME NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "predraft" TEXT,
+    "firedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT NOT NULL,
+    CONSTRAINT "FollowUp_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "FollowUp_status_dueAt_idx" ON "FollowUp"("status", "dueAt");
+
+-- CreateIndex
+CREATE INDEX "FollowUp_userId_threadId_idx" ON "FollowUp"("userId", "threadId");
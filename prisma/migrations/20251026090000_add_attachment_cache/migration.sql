@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "EmailAttachment" ADD COLUMN "cachedSize" INTEGER;
+ALTER TABLE "EmailAttachment" ADD COLUMN "cachedAt" DATETIME;
+ALTER TABLE "EmailAttachment" ADD COLUMN "lastOpenedAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "EmailAttachment_cachedAt_idx" ON "EmailAttachment"("cachedAt");
+
+-- CreateIndex
+CREATE INDEX "EmailAttachment_mimeType_idx" ON "EmailAttachment"("mimeType");
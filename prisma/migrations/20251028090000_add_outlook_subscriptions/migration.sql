@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "outlookSubscriptionId" TEXT;
+ALTER TABLE "User" ADD COLUMN "outlookSubscriptionExpiry" DATETIME;
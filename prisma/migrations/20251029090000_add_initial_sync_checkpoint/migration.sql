@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "syncWindow" TEXT NOT NULL DEFAULT 'month';
+ALTER TABLE "User" ADD COLUMN "initialSyncPageToken" TEXT;
+ALTER TABLE "User" ADD COLUMN "initialSyncProcessed" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "User" ADD COLUMN "initialSyncPaused" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "User" ADD COLUMN "initialSyncCompletedAt" DATETIME;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Email" ADD COLUMN "isBodyLoaded" BOOLEAN NOT NULL DEFAULT true;
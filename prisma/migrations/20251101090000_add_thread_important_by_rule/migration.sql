@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "EmailThread" ADD COLUMN "isImportantByRule" BOOLEAN NOT NULL DEFAULT false;
@@ -3,10 +3,39 @@ import { WebSocketServer } from "ws";
 import { createServer } from "http";
 import cors from "cors";
 import dotenv from "dotenv";
+import path from "path";
+import { OidcTokenVerifier } from "./oidc-tokens";
+import { RelayAuth } from "./relay-auth";
 import { WebhookHandler } from "./webhook-handler.js";
 import { WebSocketManager } from "./websocket-manager";
 
+// Local mode runs the relay next to the app: only reachable from this
+// machine, and sharing the app's .env so both use the same settings
+const isLocal = process.argv.includes("--local");
+
 dotenv.config();
+if (isLocal) {
+  dotenv.config({ path: path.resolve(__dirname, "../../.env") });
+}
+
+const parseClientIds = (value: string | undefined) =>
+  (value || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+const googleClientIds = parseClientIds(process.env.GOOGLE_CLIENT_IDS);
+const microsoftClientIds = parseClientIds(process.env.MICROSOFT_CLIENT_IDS);
+if (isLocal && process.env.GOOGLE_CLIENT_ID) {
+  googleClientIds.push(process.env.GOOGLE_CLIENT_ID);
+}
+if (isLocal && process.env.AZURE_AD_CLIENT_ID) {
+  microsoftClientIds.push(process.env.AZURE_AD_CLIENT_ID);
+}
+if (process.env.RELAY_SECRET) {
+  console.warn(
+    "⚠️ RELAY_SECRET is set: accepting app-signed tokens. Only for a self-hosted relay with a single user.",
+  );
+}
 
 const app = express();
 const server = createServer(app);
@@ -17,8 +46,14 @@ app.use(cors());
 app.use(express.json());
 
 // Initialize managers
-const webSocketManager = new WebSocketManager(wss);
-const webhookHandler = new WebhookHandler(webSocketManager);
+const googleTokens = OidcTokenVerifier.google();
+const relayAuth = new RelayAuth(
+  { googleClientIds, microsoftClientIds, secret: process.env.RELAY_SECRET },
+  googleTokens,
+  OidcTokenVerifier.microsoft(),
+);
+const webSocketManager = new WebSocketManager(wss, relayAuth);
+const webhookHandler = new WebhookHandler(webSocketManager, googleTokens);
 
 // WebSocket connection handling
 wss.on("connection", (ws) => {
@@ -72,9 +107,12 @@ app.get("/health", (req, res) => {
 });
 
 // Start server
-const PORT = process.env.PORT || 3001;
-server.listen(PORT, () => {
-  console.log(`🚀 Email notification server running on port ${PORT}`);
+const PORT = Number(process.env.PORT) || 3001;
+const HOST = isLocal ? "127.0.0.1" : "0.0.0.0";
+server.listen(PORT, HOST, () => {
+  console.log(
+    `🚀 Email notification server running on ${HOST}:${PORT}${isLocal ? " (local mode)" : ""}`,
+  );
   console.log(`📡 WebSocket server ready for connections`);
   console.log(`🔗 Webhook endpoints:`);
   console.log(`   - Gmail: http://localhost:${PORT}/webhook/gmail`);
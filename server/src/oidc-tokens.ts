@@ -0,0 +1,140 @@
+import crypto from "crypto";
+
+// Providers rotate their keys over days; refetched sooner for an unknown key
+// id
+const CERTS_TTL_MS = 60 * 60 * 1000;
+
+interface Jwk {
+  kid: string;
+  kty: string;
+  alg?: string;
+  n: string;
+  e: string;
+}
+
+// Claims of the OIDC tokens the relay checks: Pub/Sub's push tokens and the
+// ID tokens users sign in to Google or Microsoft with
+export interface OidcTokenClaims {
+  iss: string;
+  aud: string;
+  exp: number;
+  email?: string;
+  email_verified?: boolean;
+  tid?: string; // Microsoft's tenant id
+  preferred_username?: string; // Microsoft's sign-in name
+}
+
+interface OidcProvider {
+  certsUrl: string;
+  isIssuer: (claims: OidcTokenClaims) => boolean;
+}
+
+const GOOGLE: OidcProvider = {
+  certsUrl: "https://www.googleapis.com/oauth2/v3/certs",
+  isIssuer: ({ iss }) =>
+    iss === "https://accounts.google.com" || iss === "accounts.google.com",
+};
+
+// The common endpoint's keys sign tokens for every tenant, each with its own
+// issuer
+const MICROSOFT: OidcProvider = {
+  certsUrl: "https://login.microsoftonline.com/common/discovery/v2.0/keys",
+  isIssuer: ({ iss, tid }) =>
+    !!tid && iss === `https://login.microsoftonline.com/${tid}/v2.0`,
+};
+
+/**
+ * Checks tokens an identity provider signed with its published keys
+ */
+export class OidcTokenVerifier {
+  private keys: Map<string, crypto.KeyObject> = new Map();
+  private keysFetchedAt = 0;
+
+  private constructor(private readonly provider: OidcProvider) {}
+
+  static google(): OidcTokenVerifier {
+    return new OidcTokenVerifier(GOOGLE);
+  }
+
+  static microsoft(): OidcTokenVerifier {
+    return new OidcTokenVerifier(MICROSOFT);
+  }
+
+  /**
+   * The claims of a token signed and issued by the provider, for one of
+   * `audiences` and not expired; null otherwise
+   */
+  async verify(
+    token: string,
+    audiences: string[],
+  ): Promise<OidcTokenClaims | null> {
+    try {
+      const [encodedHeader, encodedPayload, encodedSignature] =
+        token.split(".");
+      if (!encodedHeader || !encodedPayload || !encodedSignature) {
+        return null;
+      }
+
+      const header = JSON.parse(
+        Buffer.from(encodedHeader, "base64url").toString("utf8"),
+      ) as { alg?: string; kid?: string };
+      if (header.alg !== "RS256" || !header.kid) return null;
+
+      const key = await this.getKey(header.kid);
+      if (!key) return null;
+
+      const isValidSignature = crypto.verify(
+        "RSA-SHA256",
+        Buffer.from(`${encodedHeader}.${encodedPayload}`),
+        key,
+        Buffer.from(encodedSignature, "base64url"),
+      );
+      if (!isValidSignature) return null;
+
+      const claims = JSON.parse(
+        Buffer.from(encodedPayload, "base64url").toString("utf8"),
+      ) as OidcTokenClaims;
+
+      if (!this.provider.isIssuer(claims)) return null;
+      if (!audiences.includes(claims.aud)) return null;
+      if (typeof claims.exp !== "number" || claims.exp * 1000 < Date.now()) {
+        return null;
+      }
+      return claims;
+    } catch (error) {
+      console.error("Error verifying ID token:", error);
+      return null;
+    }
+  }
+
+  private async getKey(kid: string): Promise<crypto.KeyObject | null> {
+    const stale = Date.now() - this.keysFetchedAt > CERTS_TTL_MS;
+    if (stale || !this.keys.has(kid)) {
+      // Don't let unknown key ids make every request refetch
+      if (!stale && Date.now() - this.keysFetchedAt < 60 * 1000) {
+        return null;
+      }
+      await this.fetchKeys();
+    }
+    return this.keys.get(kid) ?? null;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    const response = await fetch(this.provider.certsUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch certs: ${response.status}`);
+    }
+    const { keys } = (await response.json()) as { keys: Jwk[] };
+
+    this.keys = new Map(
+      keys.map((jwk) => [
+        jwk.kid,
+        crypto.createPublicKey({
+          key: jwk as crypto.JsonWebKey,
+          format: "jwk",
+        }),
+      ]),
+    );
+    this.keysFetchedAt = Date.now();
+  }
+}
@@ -0,0 +1,147 @@
+import crypto from "crypto";
+import { OidcTokenVerifier } from "./oidc-tokens";
+
+// How a connection proves which account it's for. By default with an ID
+// token for one of the app's OAuth clients, signed by the account's
+// provider. ID tokens only say who the account is; they give no access to
+// its mail.
+// A self-hosted relay with a single user can instead share RELAY_SECRET with
+// their own build of the app, which then signs its own tokens:
+//   v1.<base64url JSON { sub, iat, exp }>.<base64url HMAC-SHA256>
+// The secret is in every copy of the app built with it, so a relay that
+// accepts these tokens must not be shared with anyone else.
+
+const TOKEN_VERSION = "v1";
+
+export type RelayProvider = "google" | "outlook";
+
+export interface RelayTokenClaims {
+  sub: string; // Account email, lowercased
+  iat: number; // Seconds since epoch
+  exp: number;
+}
+
+export interface RelayRegistration {
+  provider?: RelayProvider; // Unset for a shared-secret token
+  token?: unknown;
+}
+
+export interface RelayAuthOptions {
+  googleClientIds: string[]; // Audiences of the app's Google ID tokens
+  microsoftClientIds: string[]; // And of its Microsoft ones
+  secret?: string; // Shared-secret mode, self-hosted and single-user only
+}
+
+export class RelayAuth {
+  private readonly googleClientIds: string[];
+  private readonly microsoftClientIds: string[];
+  private readonly secret: string | undefined;
+
+  constructor(
+    options: RelayAuthOptions,
+    private readonly googleTokens: OidcTokenVerifier,
+    private readonly microsoftTokens: OidcTokenVerifier,
+  ) {
+    this.googleClientIds = options.googleClientIds;
+    this.microsoftClientIds = options.microsoftClientIds;
+    this.secret = options.secret || undefined;
+  }
+
+  get isSharedSecretMode(): boolean {
+    return !!this.secret;
+  }
+
+  /**
+   * The account a registration proves it's for, lowercased, or null when its
+   * token doesn't check out
+   */
+  async verifyRegistration(
+    registration: RelayRegistration,
+  ): Promise<string | null> {
+    const { provider, token } = registration;
+    if (typeof token !== "string" || !token) return null;
+
+    switch (provider) {
+      case "google":
+        return this.verifyGoogleIdToken(token);
+      case "outlook":
+        return this.verifyMicrosoftIdToken(token);
+      case undefined:
+        return this.verifyToken(token)?.sub ?? null;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * The claims of a shared-secret token, or null when this relay has no
+   * secret, or the token isn't signed with it or has expired
+   */
+  verifyToken(token: unknown): RelayTokenClaims | null {
+    if (!this.secret || typeof token !== "string") return null;
+
+    const [version, payload, signature] = token.split(".");
+    if (version !== TOKEN_VERSION || !payload || !signature) return null;
+
+    const expected = this.sign(`${version}.${payload}`);
+    const provided = Buffer.from(signature, "base64url");
+    if (
+      provided.length !== expected.length ||
+      !crypto.timingSafeEqual(provided, expected)
+    ) {
+      return null;
+    }
+
+    try {
+      const claims = JSON.parse(
+        Buffer.from(payload, "base64url").toString("utf8"),
+      ) as RelayTokenClaims;
+      if (typeof claims.sub !== "string" || typeof claims.exp !== "number") {
+        return null;
+      }
+      if (claims.exp * 1000 < Date.now()) return null;
+      return { ...claims, sub: claims.sub.toLowerCase() };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * The `clientState` a shared-secret app gives an account's Outlook
+   * subscription. Graph echoes it on every notification, so a matching one
+   * shows it came from a subscription the app made, and which account it's
+   * for. Without a secret, the app sends its own with the registration.
+   */
+  getOutlookClientState(userEmail: string): string | null {
+    if (!this.secret) return null;
+    return this.sign(`outlook:${userEmail.toLowerCase()}`).toString(
+      "base64url",
+    );
+  }
+
+  private async verifyGoogleIdToken(token: string): Promise<string | null> {
+    if (this.googleClientIds.length === 0) return null;
+    const claims = await this.googleTokens.verify(token, this.googleClientIds);
+    if (!claims?.email || !claims.email_verified) return null;
+    return claims.email.toLowerCase();
+  }
+
+  // Work and personal accounts; the sign-in name is the address for both
+  // unless an email claim says otherwise
+  private async verifyMicrosoftIdToken(token: string): Promise<string | null> {
+    if (this.microsoftClientIds.length === 0) return null;
+    const claims = await this.microsoftTokens.verify(
+      token,
+      this.microsoftClientIds,
+    );
+    const email = claims?.email || claims?.preferred_username;
+    return email ? email.toLowerCase() : null;
+  }
+
+  private sign(value: string): Buffer {
+    return crypto
+      .createHmac("sha256", this.secret as string)
+      .update(value)
+      .digest();
+  }
+}
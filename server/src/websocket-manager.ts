@@ -1,9 +1,10 @@
 import { WebSocket, WebSocketServer } from "ws";
+import { RelayAuth, RelayProvider } from "./relay-auth";
 
 interface ClientConnection {
   ws: WebSocket;
-  userId?: string;
-  userEmail?: string;
+  userEmail?: string; // Set once registered with a valid token
+  outlookClientState?: string; // Routes the account's Outlook notifications
   connectedAt: Date;
 }
 
@@ -14,8 +15,9 @@ interface WebSocketMessage {
 
 interface RegisterMessage extends WebSocketMessage {
   type: "register";
-  userId: string;
-  userEmail: string;
+  provider?: RelayProvider; // Unset in shared-secret mode
+  token: string; // Proves the account, see RelayAuth
+  outlookClientState?: string; // The app's, for its Outlook subscription
 }
 
 interface NotificationMessage {
@@ -31,7 +33,6 @@ interface NotificationMessage {
 
 interface ConnectionInfo {
   userEmail?: string;
-  userId?: string;
   connectedAt: Date;
   isAlive: boolean;
 }
@@ -39,8 +40,12 @@ interface ConnectionInfo {
 export class WebSocketManager {
   private connections: Map<WebSocket, ClientConnection> = new Map();
   private userConnections: Map<string, WebSocket> = new Map(); // userEmail -> WebSocket
+  private outlookClientStates: Map<string, string> = new Map(); // clientState -> userEmail
 
-  constructor(private wss: WebSocketServer) {}
+  constructor(
+    private wss: WebSocketServer,
+    private auth: RelayAuth,
+  ) {}
 
   addConnection(ws: WebSocket): void {
     const connection: ClientConnection = {
@@ -56,8 +61,13 @@ export class WebSocketManager {
   removeConnection(ws: WebSocket): void {
     const connection = this.connections.get(ws);
     if (connection) {
-      if (connection.userEmail) {
-        this.userConnections.delete(connection.userEmail);
+      const { userEmail, outlookClientState } = connection;
+      // A newer connection for the same account may have replaced this one
+      if (userEmail && this.userConnections.get(userEmail) === ws) {
+        this.userConnections.delete(userEmail);
+        if (outlookClientState) {
+          this.outlookClientStates.delete(outlookClientState);
+        }
       }
       this.connections.delete(ws);
       console.log(
@@ -80,7 +90,7 @@ export class WebSocketManager {
 
     switch (data.type) {
       case "register":
-        this.handleRegister(ws, data as RegisterMessage);
+        void this.handleRegister(ws, data as RegisterMessage);
         break;
       case "ping":
         ws.send(JSON.stringify({ type: "pong", timestamp: Date.now() }));
@@ -95,26 +105,39 @@ export class WebSocketManager {
     }
   }
 
-  private handleRegister(ws: WebSocket, data: RegisterMessage): void {
-    const { userId, userEmail } = data;
+  private async handleRegister(
+    ws: WebSocket,
+    data: RegisterMessage,
+  ): Promise<void> {
+    const userEmail = await this.auth.verifyRegistration(data);
 
-    if (!userId || !userEmail) {
+    if (!userEmail) {
       ws.send(
         JSON.stringify({
           type: "error",
-          message: "userId and userEmail are required for registration",
+          message: "Invalid or expired registration token",
         }),
       );
+      ws.close(4001, "Unauthorized");
       return;
     }
 
+    // Closed while the token was being checked
     const connection = this.connections.get(ws);
     if (connection) {
-      connection.userId = userId;
+      const outlookClientState =
+        this.auth.getOutlookClientState(userEmail) ??
+        (typeof data.outlookClientState === "string" && data.outlookClientState
+          ? data.outlookClientState
+          : undefined);
       connection.userEmail = userEmail;
+      connection.outlookClientState = outlookClientState;
       this.userConnections.set(userEmail, ws);
+      if (outlookClientState) {
+        this.outlookClientStates.set(outlookClientState, userEmail);
+      }
 
-      console.log(`User registered: ${userEmail} (${userId})`);
+      console.log(`User registered: ${userEmail}`);
 
       ws.send(
         JSON.stringify({
@@ -126,8 +149,16 @@ export class WebSocketManager {
     }
   }
 
+  /**
+   * The connected account an Outlook subscription's `clientState` belongs
+   * to, if any
+   */
+  getUserForOutlookClientState(clientState: string): string | null {
+    return this.outlookClientStates.get(clientState) ?? null;
+  }
+
   sendToUser(userEmail: string, message: NotificationMessage): boolean {
-    const ws = this.userConnections.get(userEmail);
+    const ws = this.userConnections.get(userEmail.toLowerCase());
     if (ws && ws.readyState === WebSocket.OPEN) {
       try {
         ws.send(JSON.stringify(message));
@@ -141,20 +172,6 @@ export class WebSocketManager {
     return false;
   }
 
-  broadcast(message: NotificationMessage): void {
-    const messageStr = JSON.stringify(message);
-    this.connections.forEach((connection, ws) => {
-      if (ws.readyState === WebSocket.OPEN) {
-        try {
-          ws.send(messageStr);
-        } catch (error) {
-          console.error("Error broadcasting message:", error);
-          this.removeConnection(ws);
-        }
-      }
-    });
-  }
-
   getConnectionCount(): number {
     return this.connections.size;
   }
@@ -166,7 +183,6 @@ export class WebSocketManager {
   getConnectionInfo(): ConnectionInfo[] {
     return Array.from(this.connections.values()).map((conn) => ({
       userEmail: conn.userEmail,
-      userId: conn.userId,
       connectedAt: conn.connectedAt,
       isAlive: conn.ws.readyState === WebSocket.OPEN,
     }));
@@ -0,0 +1,166 @@
+import React from "react";
+import {
+  Clock,
+  FileText,
+  Inbox,
+  Paperclip,
+  Plus,
+  Settings,
+  X,
+} from "lucide-react";
+import { useNavigate } from "@tanstack/react-router";
+import type { AuthUser } from "@/contexts/AuthContext";
+import type { MailboxView } from "./EmailInterface";
+
+interface AccountSidebarProps {
+  accounts: AuthUser[];
+  activeEmail: string | null;
+  isUnifiedInbox: boolean;
+  activeView: MailboxView;
+  onSelectUnifiedInbox: () => void;
+  onSelectView: (view: MailboxView) => void;
+  onSelectAccount: (email: string) => void;
+  onAddAccount: (provider: "GOOGLE" | "OUTLOOK") => void;
+  onRemoveAccount: (email: string) => void;
+}
+
+// Lists of the active account's unsent mail and received files
+const mailboxViews = [
+  { view: "drafts", label: "Drafts", icon: FileText },
+  { view: "outbox", label: "Outbox", icon: Clock },
+  { view: "attachments", label: "Attachments", icon: Paperclip },
+] as const;
+
+export default function AccountSidebar({
+  accounts,
+  activeEmail,
+  isUnifiedInbox,
+  activeView,
+  onSelectUnifiedInbox,
+  onSelectView,
+  onSelectAccount,
+  onAddAccount,
+  onRemoveAccount,
+}: AccountSidebarProps) {
+  const navigate = useNavigate();
+
+  const getInitials = (account: AuthUser) =>
+    (account.name || account.email)
+      .split(" ")
+      .map((part) => part.charAt(0))
+      .join("")
+      .toUpperCase()
+      .substring(0, 2);
+
+  return (
+    <div className="flex h-full w-56 flex-col border-r border-gray-200 bg-gray-50 p-3 dark:border-gray-700 dark:bg-gray-900">
+      <div className="mb-2 px-2 text-xs font-semibold tracking-wide text-gray-500 uppercase dark:text-gray-400">
+        Accounts
+      </div>
+
+      {accounts.length > 1 && (
+        <button
+          onClick={onSelectUnifiedInbox}
+          className={`mb-1 flex items-center space-x-2 rounded-lg px-2 py-2 text-left text-sm transition-colors ${
+            isUnifiedInbox
+              ? "bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200"
+              : "text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-800"
+          }`}
+        >
+          <Inbox className="h-4 w-4" />
+          <span className="font-medium">All inboxes</span>
+        </button>
+      )}
+
+      {mailboxViews.map(({ view, label, icon: Icon }) => (
+        <button
+          key={view}
+          onClick={() => onSelectView(view)}
+          className={`mb-1 flex items-center space-x-2 rounded-lg px-2 py-2 text-left text-sm transition-colors ${
+            activeView === view
+              ? "bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200"
+              : "text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-800"
+          }`}
+        >
+          <Icon className="h-4 w-4" />
+          <span className="font-medium">{label}</span>
+        </button>
+      ))}
+
+      <div className="flex-1 space-y-1 overflow-y-auto">
+        {accounts.map((account) => {
+          const isActive =
+            !isUnifiedInbox &&
+            activeView === "threads" &&
+            account.email === activeEmail;
+          return (
+            <div
+              key={account.email}
+              onClick={() => onSelectAccount(account.email)}
+              className={`group flex cursor-pointer items-center space-x-2 rounded-lg px-2 py-2 transition-colors ${
+                isActive
+                  ? "bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200"
+                  : "text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-800"
+              }`}
+            >
+              {account.picture ? (
+                <img
+                  src={account.picture}
+                  alt={account.name}
+                  className="h-7 w-7 flex-shrink-0 rounded-full"
+                />
+              ) : (
+                <div className="flex h-7 w-7 flex-shrink-0 items-center justify-center rounded-full bg-blue-100 text-xs font-medium text-blue-600 dark:bg-blue-900 dark:text-blue-200">
+                  {getInitials(account)}
+                </div>
+              )}
+              <div className="min-w-0 flex-1">
+                <div className="truncate text-sm font-medium">
+                  {account.name || account.email}
+                </div>
+                <div className="truncate text-xs text-gray-500 dark:text-gray-400">
+                  {account.provider === "GOOGLE" ? "Gmail" : "Outlook"} ·{" "}
+                  {account.email}
+                </div>
+              </div>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRemoveAccount(account.email);
+                }}
+                title={`Sign out of ${account.email}`}
+                className="hidden rounded p-1 text-gray-400 group-hover:block hover:text-red-500"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-2 space-y-1 border-t border-gray-200 pt-2 dark:border-gray-700">
+        <button
+          onClick={() => onAddAccount("GOOGLE")}
+          className="flex w-full items-center space-x-2 rounded-lg px-2 py-1.5 text-sm text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-800"
+        >
+          <Plus className="h-4 w-4" />
+          <span>Add Google account</span>
+        </button>
+        <button
+          onClick={() => onAddAccount("OUTLOOK")}
+          className="flex w-full items-center space-x-2 rounded-lg px-2 py-1.5 text-sm text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-800"
+        >
+          <Plus className="h-4 w-4" />
+          <span>Add Outlook account</span>
+        </button>
+        <button
+          onClick={() => navigate({ to: "/settings" })}
+          className="flex w-full items-center space-x-2 rounded-lg px-2 py-1.5 text-sm text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-800"
+        >
+          <Settings className="h-4 w-4" />
+          <span>Settings</span>
+        </button>
+      </div>
+    </div>
+  );
+}
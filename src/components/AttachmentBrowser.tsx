@@ -0,0 +1,227 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import AttachmentPreview, {
+  formatAttachmentSize,
+  saveAttachment,
+} from "./AttachmentPreview";
+import type {
+  AttachmentDetails,
+  AttachmentListFilter,
+} from "@/services/attachments";
+import type { AttachmentCategory } from "@/lib/attachments";
+
+interface AttachmentBrowserProps {
+  userEmail: string;
+  onOpenThread: (threadId: string) => void;
+}
+
+const PAGE_SIZE = 50;
+
+const CATEGORY_LABELS: Record<AttachmentCategory, string> = {
+  image: "Images",
+  pdf: "PDFs",
+  document: "Documents",
+  spreadsheet: "Spreadsheets",
+  calendar: "Invitations",
+  other: "Other",
+};
+
+const selectClassName =
+  "h-9 rounded-md border border-gray-300 bg-transparent px-2 text-sm dark:border-gray-600 dark:bg-gray-800";
+
+const formatDate = (date: Date) =>
+  new Date(date).toLocaleDateString([], {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+// Date inputs give yyyy-mm-dd; "to" includes the whole day
+const toFilter = (
+  sender: string,
+  category: AttachmentCategory | "",
+  from: string,
+  to: string,
+): AttachmentListFilter => ({
+  sender: sender.trim() || undefined,
+  category: category || undefined,
+  after: from ? new Date(`${from}T00:00:00`) : undefined,
+  before: to
+    ? new Date(new Date(`${to}T00:00:00`).getTime() + 24 * 60 * 60 * 1000)
+    : undefined,
+});
+
+export default function AttachmentBrowser({
+  userEmail,
+  onOpenThread,
+}: AttachmentBrowserProps) {
+  const [sender, setSender] = useState("");
+  const [category, setCategory] = useState<AttachmentCategory | "">("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [attachments, setAttachments] = useState<AttachmentDetails[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [preview, setPreview] = useState<AttachmentDetails | null>(null);
+
+  // Filters apply as they're typed, once typing pauses
+  useEffect(() => {
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      setIsLoading(true);
+      window.attachments
+        .listAttachments(
+          userEmail,
+          toFilter(sender, category, from, to),
+          PAGE_SIZE,
+        )
+        .then((result) => {
+          if (cancelled) return;
+          setAttachments(result.attachments);
+          setHasMore(result.hasMore);
+        })
+        .catch((error) => console.error("Error loading attachments:", error))
+        .finally(() => !cancelled && setIsLoading(false));
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [userEmail, sender, category, from, to]);
+
+  const handleLoadMore = async () => {
+    setIsLoading(true);
+    try {
+      const result = await window.attachments.listAttachments(
+        userEmail,
+        toFilter(sender, category, from, to),
+        PAGE_SIZE,
+        attachments.length,
+      );
+      setAttachments((prev) => [...prev, ...result.attachments]);
+      setHasMore(result.hasMore);
+    } catch (error) {
+      console.error("Error loading attachments:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex h-full flex-col bg-white dark:bg-gray-800">
+      <div className="space-y-2 border-b border-gray-200 p-4 dark:border-gray-700">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+          All attachments
+        </h2>
+        <div className="flex space-x-2">
+          <Input
+            value={sender}
+            onChange={(e) => setSender(e.target.value)}
+            placeholder="From"
+            className="h-9"
+          />
+          <select
+            value={category}
+            onChange={(e) =>
+              setCategory(e.target.value as AttachmentCategory | "")
+            }
+            className={selectClassName}
+          >
+            <option value="">All types</option>
+            {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center space-x-2 text-sm text-gray-500">
+          <Input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="h-9"
+            aria-label="From date"
+          />
+          <span>to</span>
+          <Input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="h-9"
+            aria-label="To date"
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {!isLoading && attachments.length === 0 && (
+          <p className="p-4 text-sm text-gray-500 dark:text-gray-400">
+            No attachments match.
+          </p>
+        )}
+        {attachments.map((attachment) => (
+          <div
+            key={attachment.id}
+            className="cursor-pointer border-b border-gray-100 px-4 py-3 hover:bg-gray-50 dark:border-gray-700 dark:hover:bg-gray-700"
+            onClick={() => setPreview(attachment)}
+          >
+            <div className="truncate text-sm font-medium text-gray-900 dark:text-white">
+              {attachment.filename}
+            </div>
+            <div className="truncate text-xs text-gray-500 dark:text-gray-400">
+              {attachment.sender || attachment.senderEmail} ·{" "}
+              {formatDate(attachment.timestamp)} ·{" "}
+              {formatAttachmentSize(attachment.size)}
+            </div>
+            <div className="truncate text-xs text-gray-400">
+              {attachment.subject}
+            </div>
+            <div className="mt-2 flex space-x-1">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onOpenThread(attachment.threadId);
+                }}
+              >
+                Open thread
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  saveAttachment(userEmail, attachment);
+                }}
+              >
+                Save...
+              </Button>
+            </div>
+          </div>
+        ))}
+        {hasMore && (
+          <div className="p-4">
+            <Button
+              variant="outline"
+              className="w-full"
+              disabled={isLoading}
+              onClick={handleLoadMore}
+            >
+              {isLoading ? "Loading..." : "Load more"}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <AttachmentPreview
+        userEmail={userEmail}
+        attachment={preview}
+        onClose={() => setPreview(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { AttachmentDetails } from "@/services/attachments";
+import { IcsEvent, parseCsv, parseIcsEvents } from "@/lib/attachments";
+
+interface AttachmentPreviewProps {
+  userEmail: string;
+  attachment: AttachmentDetails | null; // Open while set
+  onClose: () => void;
+}
+
+// Text previews stop here, the rest is one save away
+const MAX_TEXT_CHARS = 200_000;
+const MAX_CSV_ROWS = 200;
+
+export const formatAttachmentSize = (size: number) =>
+  size < 1024 * 1024
+    ? `${Math.max(1, Math.round(size / 1024))} KB`
+    : `${(size / 1024 / 1024).toFixed(1)} MB`;
+
+const formatEventTime = (event: IcsEvent) => {
+  if (!event.start) return "";
+  const date = event.start.toLocaleDateString([], {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+  if (event.allDay) return date;
+  const time = (value: Date) =>
+    value.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+  return `${date}, ${time(event.start)}${event.end ? ` – ${time(event.end)}` : ""}`;
+};
+
+export async function saveAttachment(
+  userEmail: string,
+  attachment: Pick<AttachmentDetails, "id" | "filename">,
+) {
+  try {
+    const { saved } = await window.attachments.saveAttachment(
+      userEmail,
+      attachment.id,
+    );
+    if (saved) toast.success(`Saved ${attachment.filename}`);
+  } catch (error) {
+    console.error("Error saving attachment:", error);
+    toast.error("Failed to save attachment");
+  }
+}
+
+function TextPreview({ attachment }: { attachment: AttachmentDetails }) {
+  const [text, setText] = useState<string | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setText(null);
+    setError(false);
+    fetch(attachment.url)
+      .then((response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.text();
+      })
+      .then((content) => !cancelled && setText(content))
+      .catch((err) => {
+        console.error("Error loading attachment preview:", err);
+        if (!cancelled) setError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment.url]);
+
+  if (error) {
+    return (
+      <p className="text-sm text-red-600">
+        Couldn&apos;t load this attachment.
+      </p>
+    );
+  }
+  if (text === null) {
+    return <p className="text-sm text-gray-500">Loading...</p>;
+  }
+
+  if (attachment.previewKind === "csv") {
+    const rows = parseCsv(text, MAX_CSV_ROWS + 1);
+    return (
+      <div className="overflow-auto">
+        <table className="min-w-full border-collapse text-xs">
+          <tbody>
+            {rows.slice(0, MAX_CSV_ROWS).map((row, rowIndex) => (
+              <tr
+                key={rowIndex}
+                className={rowIndex === 0 ? "bg-gray-100 font-medium" : ""}
+              >
+                {row.map((cell, cellIndex) => (
+                  <td
+                    key={cellIndex}
+                    className="border border-gray-200 px-2 py-1 whitespace-nowrap"
+                  >
+                    {cell}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {rows.length > MAX_CSV_ROWS && (
+          <p className="mt-2 text-xs text-gray-500">
+            Showing the first {MAX_CSV_ROWS} rows.
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  if (attachment.previewKind === "ics") {
+    const events = parseIcsEvents(text);
+    if (events.length === 0) {
+      return <p className="text-sm text-gray-500">No events in this file.</p>;
+    }
+    return (
+      <div className="space-y-3">
+        {events.map((event, index) => (
+          <div key={index} className="rounded-lg border border-gray-200 p-3">
+            <div className="font-medium text-gray-900">
+              {event.summary || "(No title)"}
+            </div>
+            <div className="text-sm text-gray-700">
+              {formatEventTime(event)}
+            </div>
+            {event.location && (
+              <div className="text-sm text-gray-500">{event.location}</div>
+            )}
+            {event.organizer && (
+              <div className="text-xs text-gray-500">
+                Organizer: {event.organizer}
+              </div>
+            )}
+            {event.description && (
+              <p className="mt-2 text-xs whitespace-pre-wrap text-gray-600">
+                {event.description}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <pre className="text-xs whitespace-pre-wrap text-gray-800">
+      {text.slice(0, MAX_TEXT_CHARS)}
+    </pre>
+  );
+}
+
+export default function AttachmentPreview({
+  userEmail,
+  attachment,
+  onClose,
+}: AttachmentPreviewProps) {
+  return (
+    <Dialog open={!!attachment} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="flex max-h-[90vh] max-w-4xl flex-col">
+        {attachment && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="truncate">
+                {attachment.filename}
+              </DialogTitle>
+              <p className="text-xs text-gray-500">
+                {formatAttachmentSize(attachment.size)} · {attachment.sender}
+              </p>
+            </DialogHeader>
+
+            <div className="min-h-0 flex-1 overflow-auto">
+              {attachment.previewKind === "image" && (
+                <img
+                  src={attachment.url}
+                  alt={attachment.filename}
+                  className="mx-auto max-h-[70vh] max-w-full object-contain"
+                />
+              )}
+              {attachment.previewKind === "pdf" && (
+                <iframe
+                  src={attachment.url}
+                  title={attachment.filename}
+                  className="h-[70vh] w-full rounded border-0"
+                />
+              )}
+              {(attachment.previewKind === "text" ||
+                attachment.previewKind === "csv" ||
+                attachment.previewKind === "ics") && (
+                <TextPreview attachment={attachment} />
+              )}
+              {!attachment.previewKind && (
+                <p className="text-sm text-gray-500">
+                  No preview for this type of file.
+                </p>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={onClose}>
+                Close
+              </Button>
+              <Button onClick={() => saveAttachment(userEmail, attachment)}>
+                Save...
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
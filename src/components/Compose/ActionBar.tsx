@@ -1,5 +1,5 @@
 import React from "react";
-import { Paperclip, Calendar, SendHorizonal } from "lucide-react";
+import { Paperclip, Calendar, SendHorizonal, ChevronDown } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -7,9 +7,11 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import ScheduleSendMenu from "./ScheduleSendMenu";
 
 interface ActionBarProps {
   onSend: () => void;
+  onScheduleSend?: (sendAt: Date) => void; // Shows the send-later menu
   isSending: boolean;
   emailBody: string;
 
@@ -37,6 +39,7 @@ interface ActionBarProps {
 
 export default function ActionBar({
   onSend,
+  onScheduleSend,
   isSending,
   emailBody,
   hasRecipients,
@@ -110,6 +113,20 @@ export default function ActionBar({
           )}
         </Button>
 
+        {onScheduleSend && (
+          <ScheduleSendMenu onSchedule={onScheduleSend}>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={!canSend}
+              className="px-2 text-gray-600 hover:text-gray-800"
+              title="Schedule send"
+            >
+              <ChevronDown className="h-4 w-4" />
+            </Button>
+          </ScheduleSendMenu>
+        )}
+
         {showCancel && onCancel && (
           <Button
             variant="ghost"
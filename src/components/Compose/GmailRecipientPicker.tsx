@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef, useCallback } from "react";
 import { X } from "lucide-react";
+import type { ContactSuggestion } from "@/lib/contacts";
 
 interface Recipient {
   name: string;
@@ -7,21 +8,10 @@ interface Recipient {
   avatar?: string;
 }
 
-interface ContactSuggestion {
-  id: string;
-  email: string;
-  name: string | null;
-  avatar: string | null;
-  emailCount: number;
-  lastEmailAt: Date | null;
-  isManual: boolean;
-  isFromGoogle?: boolean;
-  phone?: string | null;
-}
-
 interface GmailRecipientPickerProps {
   recipients: Recipient[];
   onRecipientsChange: (recipients: Recipient[]) => void;
+  userEmail?: string | null; // Account whose contacts are suggested
   placeholder?: string;
   className?: string;
   disabled?: boolean;
@@ -30,6 +20,7 @@ interface GmailRecipientPickerProps {
 export default function GmailRecipientPicker({
   recipients,
   onRecipientsChange,
+  userEmail,
   placeholder = "Recipients",
   className = "",
   disabled = false,
@@ -45,7 +36,7 @@ export default function GmailRecipientPicker({
 
   const fetchSuggestions = useCallback(
     async (query: string) => {
-      if (!query.trim() || query.length < 2) {
+      if (!userEmail || !query.trim() || query.length < 2) {
         setSuggestions([]);
         setShowSuggestions(false);
         return;
@@ -53,13 +44,12 @@ export default function GmailRecipientPicker({
 
       setIsLoading(true);
       try {
-        const response = await fetch(
-          `/api/contacts?q=${encodeURIComponent(query)}`,
-        );
-        const data = await response.json();
-        const filteredSuggestions = (data.contacts || []).filter(
-          (contact: ContactSuggestion) =>
-            !recipients.some((r) => r.email === contact.email),
+        const contacts = await window.contacts.search(userEmail, query);
+        const filteredSuggestions = contacts.filter(
+          (contact) =>
+            !recipients.some(
+              (r) => r.email.toLowerCase() === contact.email.toLowerCase(),
+            ),
         );
         setSuggestions(filteredSuggestions);
         setShowSuggestions(filteredSuggestions.length > 0);
@@ -72,7 +62,7 @@ export default function GmailRecipientPicker({
         setIsLoading(false);
       }
     },
-    [recipients],
+    [recipients, userEmail],
   );
 
   const handleInputChange = (value: string) => {
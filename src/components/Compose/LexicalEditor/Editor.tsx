@@ -29,6 +29,7 @@ export interface ContentEditorApi {
   insertBlocks: (blocks: ContentBlock[], insertAfterBlockId?: string) => void;
   insertLLMContent: (content: string, insertAfterBlockId?: string) => void;
   clearContent: () => void;
+  setHtml: (html: string) => void; // Replace the content, e.g. with a saved draft
   getBlocks: () => ContentBlock[];
   focusBlock: (blockId: string, position?: "start" | "end") => void;
   getLastTextBlockId: () => string | null;
@@ -2,6 +2,8 @@ import React from "react";
 import {
   NodeKey,
   DecoratorNode,
+  DOMConversionMap,
+  DOMConversionOutput,
   DOMExportOutput,
   LexicalNode,
   SerializedLexicalNode,
@@ -47,7 +49,7 @@ export class ImageNode extends DecoratorNode<JSX.Element> {
   }
 
   static clone(node: ImageNode): ImageNode {
-    return new ImageNode(
+    const clone = new ImageNode(
       node.__src,
       node.__alt,
       node.__width,
@@ -55,6 +57,12 @@ export class ImageNode extends DecoratorNode<JSX.Element> {
       node.__key,
       node.__isUploading,
     );
+    // UploadPlugin finds its placeholder again by this id
+    const uploadId = node.getUploadId();
+    if (uploadId) {
+      (clone as unknown as { __uploadId: string }).__uploadId = uploadId;
+    }
+    return clone;
   }
 
   constructor(
@@ -110,16 +118,29 @@ export class ImageNode extends DecoratorNode<JSX.Element> {
   }
 
   exportDOM(): DOMExportOutput {
+    // A placeholder has nothing to show yet
+    if (this.__isUploading) return { element: null };
+
     const img = document.createElement("img");
-    img.src = this.__src;
+    img.setAttribute("src", this.__src);
     img.alt = this.__alt;
     img.width = this.__width;
     img.height = this.__height;
-    img.style.cssText =
-      "max-width:100%;height:auto;display:block;margin:1em 0;";
+    // Sized as resized in the editor, since mail clients ignore most CSS
+    img.style.cssText = `width:${this.__width}px;height:${this.__height}px;max-width:100%;display:block;margin:1em 0;`;
     return { element: img };
   }
 
+  // Images in reopened drafts keep their size
+  static importDOM(): DOMConversionMap | null {
+    return {
+      img: () => ({
+        conversion: convertImageElement,
+        priority: 0,
+      }),
+    };
+  }
+
   static importJSON(serializedNode: SerializedImageNode): ImageNode {
     const { src, alt, width, height, isUploading } = serializedNode;
     return $createImageNode({ src, alt, width, height, isUploading });
@@ -145,11 +166,34 @@ export class ImageNode extends DecoratorNode<JSX.Element> {
         width={this.__width}
         height={this.__height}
         nodeKey={this.__key}
+        isUploading={this.__isUploading}
       />
     );
   }
 }
 
+function convertImageElement(domNode: Node): DOMConversionOutput | null {
+  const img = domNode as HTMLImageElement;
+  const src = img.getAttribute("src");
+  if (!src) return null;
+
+  const size = (attribute: "width" | "height") => {
+    const value = parseInt(
+      img.getAttribute(attribute) || img.style[attribute],
+      10,
+    );
+    return Number.isFinite(value) && value > 0 ? value : undefined;
+  };
+  return {
+    node: $createImageNode({
+      src,
+      alt: img.getAttribute("alt") || "",
+      width: size("width"),
+      height: size("height"),
+    }),
+  };
+}
+
 function ImageComponent({
   src,
   alt,
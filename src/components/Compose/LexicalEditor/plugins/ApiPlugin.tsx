@@ -6,7 +6,9 @@ import {
   UNDO_COMMAND,
   CAN_UNDO_COMMAND,
   $createTextNode,
+  $insertNodes,
 } from "lexical";
+import { $generateNodesFromDOM } from "@lexical/html";
 import { $createHeadingNode } from "@lexical/rich-text";
 import { $createListNode, $createListItemNode } from "@lexical/list";
 import { useEffect, useRef } from "react";
@@ -153,6 +155,23 @@ export default function ApiPlugin({ onEditorReady }: Props) {
         });
       },
 
+      setHtml: (html) => {
+        editor.update(() => {
+          const dom = new DOMParser().parseFromString(html, "text/html");
+          const nodes = $generateNodesFromDOM(editor, dom);
+          const root = $getRoot();
+          root.clear();
+          if (nodes.length === 0) {
+            root.append($createParagraphNode());
+            return;
+          }
+          // $insertNodes wraps loose text nodes in paragraphs, root.append
+          // would reject them
+          root.select();
+          $insertNodes(nodes);
+        });
+      },
+
       getBlocks: () => {
         const blocks: ContentBlock[] = [];
         editor.getEditorState().read(() => {
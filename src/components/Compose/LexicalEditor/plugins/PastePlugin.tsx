@@ -14,6 +14,8 @@ import { useEffect } from "react";
 import { $createImageNode } from "../nodes/ImageNode";
 import { $createDividerNode } from "../nodes/DividerNode";
 import { parseHtmlToBlocks } from "../utils/parser";
+import { isInlineImageFile } from "../utils/images";
+import { INSERT_IMAGE_FILES_COMMAND } from "./UploadPlugin";
 
 export default function PastePlugin() {
   const [editor] = useLexicalComposerContext();
@@ -27,45 +29,13 @@ export default function PastePlugin() {
         // Check for files (images)
         const files = Array.from(event.clipboardData.files);
         if (files.length > 0) {
-          const imageFiles = files.filter((file) =>
-            file.type.startsWith("image/"),
-          );
+          const imageFiles = files.filter(isInlineImageFile);
 
           if (imageFiles.length > 0) {
             event.preventDefault();
 
-            // Upload and insert images
-            imageFiles.forEach(async (file) => {
-              try {
-                const formData = new FormData();
-                formData.append("image", file);
-
-                const response = await fetch("/api/upload-embedded-image", {
-                  method: "POST",
-                  body: formData,
-                });
-
-                if (response.ok) {
-                  const result = await response.json();
-
-                  editor.update(() => {
-                    const image = $createImageNode({
-                      src: result.imageUrl,
-                      alt: "Pasted image",
-                      width: result.width,
-                      height: result.height,
-                    });
-
-                    const selection = $getSelection();
-                    if ($isRangeSelection(selection)) {
-                      selection.insertNodes([image]);
-                    }
-                  });
-                }
-              } catch (error) {
-                console.error("Error uploading pasted image:", error);
-              }
-            });
+            // Stored and inserted like images added through the upload input
+            editor.dispatchCommand(INSERT_IMAGE_FILES_COMMAND, imageFiles);
 
             return true;
           }
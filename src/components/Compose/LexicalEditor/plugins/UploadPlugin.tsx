@@ -6,13 +6,24 @@ import {
   $getNodeByKey,
   $createParagraphNode,
   $getRoot,
+  COMMAND_PRIORITY_EDITOR,
+  LexicalCommand,
   LexicalNode,
+  createCommand,
 } from "lexical";
 import { useEffect, useState, useRef } from "react";
 import { createPortal } from "react-dom";
 import { $createImageNode } from "../nodes/ImageNode";
 import { $createGifNode } from "../nodes/GifNode";
 import GiphySelector from "@/components/Compose/GiphySelector";
+import { isInlineImageFile, storeImageFile } from "../utils/images";
+import { INLINE_IMAGE_TYPES } from "@/lib/inline-images";
+
+// Insert image files at the selection, e.g. from the clipboard
+export const INSERT_IMAGE_FILES_COMMAND: LexicalCommand<File[]> = createCommand(
+  "INSERT_IMAGE_FILES_COMMAND",
+);
+
 interface Props {
   onFilesDropped?: (files: File[]) => void;
 }
@@ -26,22 +37,6 @@ export default function UploadPlugin({ onFilesDropped }: Props) {
   );
   const fileInputRef = useRef<HTMLInputElement | null>(null);
 
-  // Function to get image dimensions
-  const getImageDimensions = (
-    src: string,
-  ): Promise<{ width: number; height: number }> => {
-    return new Promise((resolve) => {
-      const img = new Image();
-      img.onload = () => {
-        resolve({ width: img.naturalWidth, height: img.naturalHeight });
-      };
-      img.onerror = () => {
-        resolve({ width: 400, height: 300 }); // Fallback dimensions
-      };
-      img.src = src;
-    });
-  };
-
   // Handle custom events for opening GIF selector
   // const handleOpenGifSelector = (nodeKey: string | null) => {
   //   setGiphyInsertNodeKey(nodeKey);
@@ -53,7 +48,7 @@ export default function UploadPlugin({ onFilesDropped }: Props) {
     // Create hidden file input
     const input = document.createElement("input");
     input.type = "file";
-    input.accept = "image/*";
+    input.accept = Object.keys(INLINE_IMAGE_TYPES).join(",");
     input.multiple = true;
     input.id = "lexical-image-upload-input";
     input.style.display = "none";
@@ -146,30 +141,9 @@ export default function UploadPlugin({ onFilesDropped }: Props) {
       // Add to uploading set
       // setUploadingImages((prev) => new Set(prev).add(uploadId));
 
-      const formData = new FormData();
-      formData.append("image", file);
-
-      const response = await fetch("/api/upload-embedded-image", {
-        method: "POST",
-        body: formData,
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("Upload failed:", errorText);
-        throw new Error("Failed to upload image");
-      }
-
-      const result = await response.json();
-      console.log("Upload result:", result);
-
-      if (!result.imageUrl) {
-        throw new Error("No image URL returned from upload");
-      }
-
-      // Get image dimensions
-      const dimensions = await getImageDimensions(result.imageUrl);
-      console.log("Image dimensions:", dimensions);
+      // Kept locally and sent as an inline part of the message
+      const stored = await storeImageFile(file);
+      console.log("Image stored:", stored);
 
       // Ensure editor is ready
       if (!editor.isEditable()) {
@@ -210,10 +184,10 @@ export default function UploadPlugin({ onFilesDropped }: Props) {
         if (placeholderNode) {
           // Replace the placeholder with the real image
           const image = $createImageNode({
-            src: result.imageUrl,
+            src: stored.src,
             alt: file.name,
-            width: dimensions.width || 400,
-            height: dimensions.height || 300,
+            width: stored.width || 400,
+            height: stored.height || 300,
             isUploading: false,
           });
 
@@ -226,10 +200,10 @@ export default function UploadPlugin({ onFilesDropped }: Props) {
         } else {
           // Fallback: insert new image if placeholder not found
           const image = $createImageNode({
-            src: result.imageUrl,
+            src: stored.src,
             alt: file.name,
-            width: dimensions.width || 400,
-            height: dimensions.height || 300,
+            width: stored.width || 400,
+            height: stored.height || 300,
             isUploading: false,
           });
 
@@ -275,7 +249,7 @@ export default function UploadPlugin({ onFilesDropped }: Props) {
             paragraph.select();
           }
 
-          console.log("Image inserted:", image.getKey(), result.imageUrl);
+          console.log("Image inserted:", image.getKey(), stored.src);
         }
       });
 
@@ -349,10 +323,30 @@ export default function UploadPlugin({ onFilesDropped }: Props) {
         }
       });
 
-      alert("Failed to upload image. Please try again.");
+      alert(
+        error instanceof Error
+          ? `Failed to add image: ${error.message}`
+          : "Failed to add image. Please try again.",
+      );
     }
   };
 
+  // Pasted images take the same path as inserted ones
+  useEffect(() => {
+    return editor.registerCommand(
+      INSERT_IMAGE_FILES_COMMAND,
+      (files) => {
+        void (async () => {
+          for (const file of files) {
+            await uploadImage(file);
+          }
+        })();
+        return true;
+      },
+      COMMAND_PRIORITY_EDITOR,
+    );
+  }, [editor]);
+
   // Handle GIF selection
   const handleGifSelect = (gifUrl: string) => {
     editor.update(() => {
@@ -439,10 +433,8 @@ export default function UploadPlugin({ onFilesDropped }: Props) {
       const files = Array.from(e.dataTransfer?.files || []);
       if (files.length === 0) return;
 
-      const imageFiles = files.filter((file) => file.type.startsWith("image/"));
-      const otherFiles = files.filter(
-        (file) => !file.type.startsWith("image/"),
-      );
+      const imageFiles = files.filter(isInlineImageFile);
+      const otherFiles = files.filter((file) => !isInlineImageFile(file));
 
       // Upload images
       for (const file of imageFiles) {
@@ -0,0 +1,43 @@
+import { INLINE_IMAGE_TYPES } from "@/lib/inline-images";
+
+export interface StoredImage {
+  src: string;
+  width: number;
+  height: number;
+}
+
+export function isInlineImageFile(file: File): boolean {
+  return file.type.toLowerCase() in INLINE_IMAGE_TYPES;
+}
+
+// Function to get image dimensions
+export const getImageDimensions = (
+  src: string,
+): Promise<{ width: number; height: number }> => {
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.onload = () => {
+      resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    };
+    img.onerror = () => {
+      resolve({ width: 400, height: 300 }); // Fallback dimensions
+    };
+    img.src = src;
+  });
+};
+
+/**
+ * Keep an image file in the local store and measure it. The returned src is
+ * an inline-image:// URL, sent as an inline part of the message.
+ */
+export async function storeImageFile(file: File): Promise<StoredImage> {
+  if (!isInlineImageFile(file)) {
+    throw new Error(`${file.type || "This file"} can't be shown inline`);
+  }
+  const stored = await window.inlineImages.saveImage(
+    await file.arrayBuffer(),
+    file.type,
+  );
+  const dimensions = await getImageDimensions(stored.url);
+  return { src: stored.url, ...dimensions };
+}
@@ -64,6 +64,7 @@ export default function RecipientSection({
         <div className="flex-1">
           <GmailRecipientPicker
             recipients={recipients}
+            userEmail={userInfo?.email}
             onRecipientsChange={(newRecipients) =>
               onRecipientsChange("to", newRecipients)
             }
@@ -80,6 +81,7 @@ export default function RecipientSection({
           <div className="flex-1">
             <GmailRecipientPicker
               recipients={ccRecipients}
+              userEmail={userInfo?.email}
               onRecipientsChange={(newRecipients) =>
                 onRecipientsChange("cc", newRecipients)
               }
@@ -97,6 +99,7 @@ export default function RecipientSection({
           <div className="flex-1">
             <GmailRecipientPicker
               recipients={bccRecipients}
+              userEmail={userInfo?.email}
               onRecipientsChange={(newRecipients) =>
                 onRecipientsChange("bcc", newRecipients)
               }
@@ -0,0 +1,115 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { getScheduleSendOptions, toDateTimeLocalValue } from "@/lib/outbox";
+
+interface ScheduleSendMenuProps {
+  onSchedule: (sendAt: Date) => void;
+  children: React.ReactNode; // Trigger
+  title?: string;
+}
+
+const formatSendAt = (date: Date) =>
+  date.toLocaleString([], {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+export default function ScheduleSendMenu({
+  onSchedule,
+  children,
+  title = "Schedule send",
+}: ScheduleSendMenuProps) {
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const [customValue, setCustomValue] = useState("");
+  const [options, setOptions] = useState(() => getScheduleSendOptions());
+
+  const customDate = customValue ? new Date(customValue) : null;
+  const isCustomValid =
+    !!customDate &&
+    !Number.isNaN(customDate.getTime()) &&
+    customDate.getTime() > Date.now();
+
+  const openPicker = () => {
+    const inAnHour = new Date(Date.now() + 60 * 60 * 1000);
+    setCustomValue(toDateTimeLocalValue(inAnHour));
+    setIsPickerOpen(true);
+  };
+
+  return (
+    <>
+      <DropdownMenu
+        // Presets are relative to now, refresh them each time
+        onOpenChange={(open) => open && setOptions(getScheduleSendOptions())}
+      >
+        <DropdownMenuTrigger asChild>{children}</DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuLabel>{title}</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {options.map((option) => (
+            <DropdownMenuItem
+              key={option.label}
+              onClick={() => onSchedule(option.sendAt)}
+            >
+              <span>{option.label}</span>
+              <span className="ml-auto pl-4 text-xs text-gray-500">
+                {formatSendAt(option.sendAt)}
+              </span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={openPicker}>
+            Pick date & time...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isPickerOpen} onOpenChange={setIsPickerOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+          </DialogHeader>
+          <Input
+            type="datetime-local"
+            value={customValue}
+            min={toDateTimeLocalValue(new Date())}
+            onChange={(e) => setCustomValue(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsPickerOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!isCustomValid}
+              onClick={() => {
+                if (!customDate) return;
+                setIsPickerOpen(false);
+                onSchedule(customDate);
+              }}
+            >
+              Schedule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
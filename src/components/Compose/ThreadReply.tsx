@@ -14,6 +14,7 @@ import { EditorWrapper, ContentEditorApi, SubjectField } from "./index";
 import RecipientSection from "./RecipientSection";
 import type { Recipient } from "./RecipientSection";
 import { useUndoSend } from "@/hooks/use-undo-send";
+import { useDraftAutosave } from "@/hooks/use-draft-autosave";
 import GiphySelector from "./GiphySelector";
 import ActionBar from "./ActionBar";
 import AIPromptInput from "./AIPromptInput";
@@ -25,25 +26,10 @@ import "./ThreadReply.css";
 import EnhancedScheduleMeetingPopup from "../ScheduleMeetingPopup";
 import calendarAPI from "@/helpers/ipc/calendar/calendar-api";
 import type { CreateEventData } from "@/types";
+import { cleanDraftText } from "@/lib/prompts/drafting";
+import type { QueueMessageInput } from "@/services/outbox";
 
 // ---------- Types ----------
-interface SendReplyData {
-  to: string[];
-  cc?: string[];
-  bcc?: string[];
-  subject: string;
-  body: string;
-  threadId: string;
-  replyToMessageId: string;
-  attachments?: Array<{
-    filename: string;
-    mimeType: string;
-    size: number;
-    data: string;
-  }>;
-  followUpDuration?: number;
-}
-
 interface FollowupPredraft {
   id: string;
   followupDraft: string;
@@ -90,12 +76,16 @@ const DEFAULT_ALLOWED_TYPES = [
   "application/x-7z-compressed",
 ];
 
+// How often a streaming AI draft is re-rendered into the editor
+const AI_STREAM_RENDER_MS = 120;
+
 // ---------- Component ----------
 interface ThreadReplyProps {
   messages: ExtendedEmailMessage[];
   threadId: string;
   replyToMessageId?: string | null;
   replyAllToMessageId?: string | null;
+  forwardMessageId?: string | null;
   onReplyCancel?: () => void;
   onThreadRefresh?: () => void;
   replyRef?: React.RefObject<HTMLDivElement>; // (unused external ref preserved)
@@ -103,6 +93,7 @@ interface ThreadReplyProps {
   predraftData?: FollowupPredraft | null;
   onPredraftUpdate?: (predraft: FollowupPredraft | null) => void;
   onCollapseAllMessages?: () => void;
+  accountEmail?: string; // Sending account, defaults to the active session
 }
 
 function getAllThreadParticipants(messages: ExtendedEmailMessage[]): string[] {
@@ -150,14 +141,21 @@ export default function ThreadReply({
   threadId,
   replyToMessageId,
   replyAllToMessageId,
+  forwardMessageId,
   onReplyCancel,
   onThreadRefresh,
   predraftData,
   onPredraftUpdate,
   onCollapseAllMessages,
+  accountEmail,
 }: ThreadReplyProps) {
   // Auth context
-  const { user: session } = useAuth();
+  const { user: session, accounts } = useAuth();
+  // Replies go out from the account that owns the thread
+  const senderEmail = accountEmail || session?.email;
+  const senderName =
+    accounts.find((account) => account.email === senderEmail)?.name ||
+    session?.name;
 
   // Core reply state
   const [isExpanded, setIsExpanded] = useState(false);
@@ -201,6 +199,30 @@ export default function ThreadReply({
   const [conversationHistory, setConversationHistory] = useState<
     Array<{ role: "user" | "assistant"; content: string }>
   >([]);
+  const aiRequestIdRef = useRef<string | null>(null);
+
+  // Drafts
+  const draftMode = forwardMessageId ? "forward" : "reply";
+  const { draftId, lastSavedAt, resumeDraft, discardDraft } = useDraftAutosave({
+    userEmail: senderEmail,
+    // Followup predrafts are suggestions until the user sends or edits them
+    enabled: !isPredraftMode,
+    draft: {
+      mode: draftMode,
+      threadId,
+      replyToMessageId:
+        forwardMessageId ||
+        replyToMessageId ||
+        replyAllToMessageId ||
+        messages[messages.length - 1]?.id ||
+        null,
+      to: recipients.map((r) => r.email),
+      cc: ccRecipients.map((r) => r.email),
+      bcc: bccRecipients.map((r) => r.email),
+      subject,
+      body: replyBody,
+    },
+  });
 
   // ---------- Utils ----------
   const arrayBufferToBase64 = (buffer: ArrayBuffer) => {
@@ -265,7 +287,7 @@ export default function ThreadReply({
 
     const replyRecipients: Recipient[] = [];
     const replyCcRecipients: Recipient[] = [];
-    const currentUserEmail = session?.email;
+    const currentUserEmail = senderEmail;
     const isSentByUs = currentUserEmail && m.fromAddress === currentUserEmail;
 
     if (isSentByUs) {
@@ -315,7 +337,7 @@ Content: ${m.snippet || "No content available"}`,
     replyToMessageId,
     replyAllToMessageId,
     messages,
-    session?.email,
+    senderEmail,
     scrollReplyIntoView,
   ]);
 
@@ -359,6 +381,67 @@ Content: ${m.snippet || "No content available"}`,
     popupEditorApiRef.current?.clearContent?.();
   }, [messages]);
 
+  // ---------- Forward initialization ----------
+  // Declared after the defaults above so its recipients and subject win
+  useEffect(() => {
+    if (!forwardMessageId) return;
+    const m = messages.find((msg) => msg.id === forwardMessageId);
+    if (!m) return;
+
+    setIsExpanded(true);
+    scrollReplyIntoView(150);
+
+    setRecipients([]);
+    setCcRecipients([]);
+    setBccRecipients([]);
+
+    const originalSubject = m.subject || "";
+    setSubject(
+      /^fwd?:/i.test(originalSubject)
+        ? originalSubject
+        : `Fwd: ${originalSubject}`,
+    );
+  }, [forwardMessageId, messages, scrollReplyIntoView]);
+
+  // ---------- Draft restore ----------
+  // Declared after the initializers above so a saved draft wins over their
+  // defaults, including after a thread refresh clears the editor
+  useEffect(() => {
+    if (!senderEmail) return;
+    let cancelled = false;
+
+    window.drafts
+      .getThreadDraft(senderEmail, threadId)
+      .then((draft) => {
+        if (cancelled || !draft || draft.mode !== draftMode) return;
+        const toRecipient = (email: string): Recipient => ({
+          name: email.split("@")[0],
+          email,
+        });
+
+        resumeDraft(draft.id);
+        setRecipients(draft.to.map(toRecipient));
+        setCcRecipients(draft.cc.map(toRecipient));
+        setBccRecipients(draft.bcc.map(toRecipient));
+        setSubject(draft.subject);
+        setReplyBody(draft.body);
+        setIsExpanded(true);
+
+        const inject = (attempt = 1) => {
+          const editor = editorApiRef.current;
+          if (editor?.setHtml) editor.setHtml(draft.body);
+          else if (attempt < 5)
+            setTimeout(() => inject(attempt + 1), attempt * 200);
+        };
+        inject();
+      })
+      .catch((error) => console.error("Error loading draft:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [senderEmail, threadId, draftMode, messages, resumeDraft]);
+
   // ---------- Predraft init ----------
   useEffect(() => {
     if (
@@ -503,33 +586,18 @@ Content: ${m.snippet || "No content available"}`,
   }, []);
   const getTotalSize = () => attachments.reduce((t, a) => t + a.size, 0);
 
-  // ---------- Send Reply Function ----------
-  const sendReply = async (replyData: SendReplyData) => {
-    try {
-      // Mock implementation - replace with actual API call
-      console.log("Sending reply:", replyData);
-
-      // Simulate API call delay
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
-      return { success: true };
-    } catch (error) {
-      console.error("Error sending reply:", error);
-      return { success: false, error: "Failed to send reply" };
-    }
-  };
-
   // ---------- Undo-send / send ----------
   const { sendWithUndo, isSending } = useUndoSend({
-    onSend: async (replyData) => {
-      const result = await sendReply(replyData as SendReplyData);
-      if (!result.success)
-        throw new Error(result.error || "Failed to send reply");
-    },
+    userEmail: senderEmail,
     onSuccess: async () => {
       if (isPredraftMode && predraftData?.id) {
         try {
-          // await markFollowupAsSent(predraftData.id);
+          if (senderEmail) {
+            await window.followUps.dismissFollowUp(
+              senderEmail,
+              predraftData.id,
+            );
+          }
           onPredraftUpdate?.(null);
           setIsPredraftMode(false);
         } catch (e) {
@@ -549,70 +617,80 @@ Content: ${m.snippet || "No content available"}`,
       setFollowUpDuration(undefined);
       setAttachments([]);
       setPredraftInitialized(false);
+      // Gone before the refresh, which would otherwise restore it
+      await discardDraft().catch((e) =>
+        console.error("Error discarding sent draft:", e),
+      );
       onThreadRefresh?.();
     },
-    successMessage: "Reply sent successfully!",
     errorMessage: "Failed to send reply",
   });
 
-  const handleSend = useCallback(async () => {
-    if (!replyBody.trim() || recipients.length === 0) return;
-    try {
-      const targetMessageId =
-        replyToMessageId ||
-        replyAllToMessageId ||
-        messages[messages.length - 1]?.id;
-      const attachmentData: Array<{
-        filename: string;
-        mimeType: string;
-        size: number;
-        data: string;
-      }> = [];
-      for (const att of attachments) {
-        try {
-          const buf = await att.file.arrayBuffer();
-          const base64Data = arrayBufferToBase64(buf);
-          attachmentData.push({
-            filename: att.name,
-            mimeType: att.type || "application/octet-stream",
-            size: att.size,
-            data: base64Data,
-          });
-        } catch (e) {
-          console.error("Error converting attachment:", att.name, e);
+  // Sends after the undo window, or at sendAt when scheduled for later
+  const handleSend = useCallback(
+    async (sendAt?: Date) => {
+      if (!replyBody.trim() || recipients.length === 0) return;
+      try {
+        const targetMessageId =
+          forwardMessageId ||
+          replyToMessageId ||
+          replyAllToMessageId ||
+          messages[messages.length - 1]?.id;
+        const attachmentData: Array<{
+          filename: string;
+          mimeType: string;
+          size: number;
+          data: string;
+        }> = [];
+        for (const att of attachments) {
+          try {
+            const buf = await att.file.arrayBuffer();
+            const base64Data = arrayBufferToBase64(buf);
+            attachmentData.push({
+              filename: att.name,
+              mimeType: att.type || "application/octet-stream",
+              size: att.size,
+              data: base64Data,
+            });
+          } catch (e) {
+            console.error("Error converting attachment:", att.name, e);
+          }
         }
+        const replyData: QueueMessageInput = {
+          to: recipients.map((r) => r.email),
+          cc: ccRecipients.map((r) => r.email),
+          bcc: bccRecipients.map((r) => r.email),
+          subject,
+          body: replyBody,
+          threadId,
+          replyToMessageId: targetMessageId,
+          attachments: attachmentData.length > 0 ? attachmentData : undefined,
+          followUpDuration: followUpScheduled ? followUpDuration : undefined,
+          mode: forwardMessageId ? "forward" : "reply",
+        };
+        await sendWithUndo(replyData, sendAt);
+      } catch (error) {
+        console.error("Error preparing reply:", error);
+        toast.error("Failed to prepare reply. Please try again.");
       }
-      const replyData = {
-        to: recipients.map((r) => r.email),
-        cc: ccRecipients.map((r) => r.email),
-        bcc: bccRecipients.map((r) => r.email),
-        subject,
-        body: replyBody,
-        threadId,
-        replyToMessageId: targetMessageId,
-        attachments: attachmentData.length > 0 ? attachmentData : undefined,
-        followUpDuration: followUpScheduled ? followUpDuration : undefined,
-      };
-      await sendWithUndo(replyData);
-    } catch (error) {
-      console.error("Error preparing reply:", error);
-      toast.error("Failed to prepare reply. Please try again.");
-    }
-  }, [
-    replyBody,
-    recipients,
-    ccRecipients,
-    bccRecipients,
-    subject,
-    threadId,
-    messages,
-    attachments,
-    followUpScheduled,
-    followUpDuration,
-    sendWithUndo,
-    replyToMessageId,
-    replyAllToMessageId,
-  ]);
+    },
+    [
+      replyBody,
+      recipients,
+      ccRecipients,
+      bccRecipients,
+      subject,
+      threadId,
+      messages,
+      attachments,
+      followUpScheduled,
+      followUpDuration,
+      sendWithUndo,
+      replyToMessageId,
+      replyAllToMessageId,
+      forwardMessageId,
+    ],
+  );
 
   // ---------- Shortcuts ----------
   useEffect(() => {
@@ -664,6 +742,9 @@ Content: ${m.snippet || "No content available"}`,
   const handleCancelPredraft = useCallback(async () => {
     if (!predraftData?.id) return;
     try {
+      if (senderEmail) {
+        await window.followUps.dismissFollowUp(senderEmail, predraftData.id);
+      }
       onPredraftUpdate?.(null);
       setIsPredraftMode(false);
       setReplyBody("");
@@ -674,7 +755,7 @@ Content: ${m.snippet || "No content available"}`,
       console.error("Error cancelling followup:", e);
       toast.error("Failed to cancel followup");
     }
-  }, [predraftData, onPredraftUpdate]);
+  }, [predraftData, onPredraftUpdate, senderEmail]);
 
   const handleScheduleMeeting = useCallback(() => {
     setIsScheduleMeetingOpen(true);
@@ -782,71 +863,86 @@ Content: ${m.snippet || "No content available"}`,
     if (isAIMode) setIsAIGenerating(false);
   }, [isAIMode]);
   const handleCancelAI = useCallback(() => {
+    if (aiRequestIdRef.current) {
+      window.ai.cancelDraft(aiRequestIdRef.current);
+      aiRequestIdRef.current = null;
+    }
     setIsAIMode(false);
     setIsAIGenerating(false);
   }, []);
   const handleAIGenerate = useCallback(
     async (prompt: string): Promise<string> => {
+      if (!senderEmail) throw new Error("No account to draft from");
+
+      const requestId = `draft-${Date.now()}`;
+      aiRequestIdRef.current = requestId;
+      setConversationHistory((prev) => [
+        ...prev,
+        { role: "user" as const, content: prompt },
+      ]);
+
+      // Show the editor so the draft streams into it
+      setIsAIMode(false);
+      setIsExpanded(true);
+      let streamed = "";
+      let lastRender = 0;
+      const renderStreamed = () => {
+        const api = showPopup
+          ? popupEditorApiRef.current
+          : editorApiRef.current;
+        if (!api?.insertLLMContent || !api?.clearContent) return;
+        api.clearContent();
+        api.insertLLMContent(cleanDraftText(streamed));
+      };
+
       try {
-        const updated = [
-          ...conversationHistory,
-          { role: "user" as const, content: prompt },
-        ];
-        setConversationHistory(updated);
-        const cleanNestedHTML = (html: string) =>
-          html
-            .replace(/<p><p>/g, "<p>")
-            .replace(/<\/p><\/p>/g, "</p>")
-            .replace(/<p><\/p>/g, "")
-            .replace(/<br><br>/g, "<br>");
-        const res = await fetch("/api/ai-email-draft", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
+        const { content } = await window.ai.generateDraft(
+          requestId,
+          senderEmail,
+          {
             prompt,
-            currentEmail: replyBody || "",
+            threadId,
+            replyToMessageId: replyToMessageId || replyAllToMessageId,
+            currentDraft: replyBody,
+            subject,
             recipients: recipients.map((r) => r.email),
-            subject: subject || "",
-            context: conversationHistory,
-            isReply: !!(replyToMessageId || replyAllToMessageId),
-            messageBeingRepliedTo:
-              replyToMessageId || replyAllToMessageId
-                ? messages.find(
-                    (m) => m.id === (replyToMessageId || replyAllToMessageId),
-                  )
-                : null,
-          }),
-        });
-        if (!res.ok) throw new Error("Failed to generate AI response");
-        const data = await res.json();
-        const jsonRegex = /```(?:json)?\s*(\{[\s\S]*?\})\s*```|(\{[\s\S]*?\})/;
-        const match = JSON.stringify(data).match(jsonRegex);
-        let content = "";
-        if (match) {
-          try {
-            const jsonString = match[1] || match[2];
-            const parsed = JSON.parse(jsonString);
-            content = parsed.emailContent || parsed.response || "";
-          } catch {
-            content = data.emailContent || data.response || "";
-          }
-        } else content = data.emailContent || data.response || "";
+            history: conversationHistory,
+          },
+          (delta) => {
+            streamed += delta;
+            if (Date.now() - lastRender < AI_STREAM_RENDER_MS) return;
+            lastRender = Date.now();
+            renderStreamed();
+          },
+        );
         setConversationHistory((prev) => [
           ...prev,
           { role: "assistant" as const, content },
         ]);
-        return cleanNestedHTML(content);
+        return content;
       } catch (e) {
         console.error("AI error:", e);
-        return "Sorry, I encountered an error. Please try again.";
+        // Stopped drafts end with an abort error, that's not worth a toast
+        if (aiRequestIdRef.current === requestId) {
+          toast.error(
+            e instanceof Error ? e.message : "Failed to generate a draft",
+          );
+        }
+        throw e;
+      } finally {
+        if (aiRequestIdRef.current === requestId) {
+          aiRequestIdRef.current = null;
+        }
       }
     },
     [
+      senderEmail,
+      showPopup,
+      threadId,
       conversationHistory,
       replyBody,
       recipients,
       subject,
-      messages,
       replyToMessageId,
       replyAllToMessageId,
     ],
@@ -907,8 +1003,19 @@ Content: ${m.snippet || "No content available"}`,
         >
           <div className="flex items-center gap-2">
             <span className="text-sm font-medium text-gray-700">
-              {isExpanded ? "Reply" : subject || "Reply"}
+              {isExpanded
+                ? forwardMessageId
+                  ? "Forward"
+                  : "Reply"
+                : subject || "Reply"}
             </span>
+            {draftId && (
+              <span className="text-xs text-gray-400">
+                {lastSavedAt
+                  ? `Draft saved ${lastSavedAt.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}`
+                  : "Draft"}
+              </span>
+            )}
             {isPredraftMode && predraftData && (
               <div className="flex items-center gap-1 rounded-full bg-purple-50 px-2 py-1 text-xs text-purple-600">
                 <div className="h-2 w-2 rounded-full bg-purple-400" />
@@ -950,8 +1057,8 @@ Content: ${m.snippet || "No content available"}`,
               bccRecipients={bccRecipients}
               onRecipientsChange={handleRecipientsChange}
               userInfo={{
-                name: session?.name,
-                email: session?.email,
+                name: senderName,
+                email: senderEmail,
               }}
             />
 
@@ -971,6 +1078,18 @@ Content: ${m.snippet || "No content available"}`,
                 onEditorReady={handleEditorReady}
               />
             )}
+            {!isAIMode && isAIGenerating && (
+              <div className="mb-2 flex items-center gap-2 text-sm text-gray-500">
+                <span>AI is writing your reply...</span>
+                <button
+                  type="button"
+                  onClick={handleCancelAI}
+                  className="text-[#3D8EFE] hover:underline"
+                >
+                  Stop
+                </button>
+              </div>
+            )}
 
             {/* AI Prompt */}
             {isAIMode && (
@@ -1081,7 +1200,8 @@ Content: ${m.snippet || "No content available"}`,
 
             {/* Action bar */}
             <ActionBar
-              onSend={handleSend}
+              onSend={() => handleSend()}
+              onScheduleSend={handleSend}
               isSending={isSending}
               emailBody={replyBody}
               recipients={recipients}
@@ -1094,8 +1214,11 @@ Content: ${m.snippet || "No content available"}`,
               onAskAI={handleAskAI}
               isAIEnabled={isAIMode}
               onCancel={
-                replyToMessageId
+                replyToMessageId || forwardMessageId || draftId
                   ? () => {
+                      discardDraft().catch(() =>
+                        toast.error("Failed to discard draft"),
+                      );
                       setIsExpanded(false);
                       setReplyBody("");
                       setRecipients([]);
@@ -1108,7 +1231,7 @@ Content: ${m.snippet || "No content available"}`,
                     }
                   : undefined
               }
-              showCancel={!!replyToMessageId}
+              showCancel={!!(replyToMessageId || forwardMessageId || draftId)}
               context="reply"
             />
           </div>
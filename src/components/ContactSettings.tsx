@@ -0,0 +1,260 @@
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { ContactDetails } from "@/services/contacts";
+
+interface ContactSettingsProps {
+  userEmail: string;
+}
+
+interface ContactForm {
+  id?: string;
+  email: string;
+  name: string;
+  phone: string;
+}
+
+const EMPTY_FORM: ContactForm = { email: "", name: "", phone: "" };
+
+// The list only renders this many contacts, filter to find the rest
+const VISIBLE_CONTACTS = 50;
+
+export default function ContactSettings({ userEmail }: ContactSettingsProps) {
+  const [contacts, setContacts] = useState<ContactDetails[]>([]);
+  const [filter, setFilter] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [form, setForm] = useState<ContactForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    setForm(EMPTY_FORM);
+    setSelectedIds([]);
+    loadContacts();
+  }, [userEmail]);
+
+  const loadContacts = async () => {
+    try {
+      setContacts(await window.contacts.getContacts(userEmail));
+    } catch (error) {
+      console.error("Error loading contacts:", error);
+      toast.error("Failed to load contacts");
+    }
+  };
+
+  const query = filter.trim().toLowerCase();
+  const visibleContacts = contacts
+    .filter(
+      (contact) =>
+        !query ||
+        contact.email.includes(query) ||
+        contact.name?.toLowerCase().includes(query) ||
+        contact.aliases.some((alias) => alias.includes(query)),
+    )
+    .slice(0, VISIBLE_CONTACTS);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id],
+    );
+  };
+
+  const handleSaveContact = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSaving(true);
+      await window.contacts.saveContact(userEmail, {
+        id: form.id,
+        email: form.email,
+        name: form.name || null,
+        phone: form.phone || null,
+      });
+      setForm(EMPTY_FORM);
+      await loadContacts();
+      toast.success("Contact saved");
+    } catch (error) {
+      console.error("Error saving contact:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save contact",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteContact = async (contact: ContactDetails) => {
+    try {
+      await window.contacts.deleteContact(userEmail, contact.id);
+      if (form.id === contact.id) setForm(EMPTY_FORM);
+      setSelectedIds((prev) => prev.filter((id) => id !== contact.id));
+      await loadContacts();
+    } catch (error) {
+      console.error("Error deleting contact:", error);
+      toast.error("Failed to delete contact");
+    }
+  };
+
+  // The first contact selected keeps its address, the others become aliases
+  const handleMergeSelected = async () => {
+    const [targetId, ...mergedIds] = selectedIds;
+    try {
+      const merged = await window.contacts.mergeContacts(
+        userEmail,
+        targetId,
+        mergedIds,
+      );
+      setSelectedIds([]);
+      await loadContacts();
+      toast.success(`Merged into ${merged.email}`);
+    } catch (error) {
+      console.error("Error merging contacts:", error);
+      toast.error("Failed to merge contacts");
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      setIsImporting(true);
+      const { added } = await window.contacts.importContacts(userEmail);
+      await loadContacts();
+      toast.success(
+        `Imported ${added} new contact${added !== 1 ? "s" : ""} from your account`,
+      );
+    } catch (error) {
+      console.error("Error importing contacts:", error);
+      toast.error("Failed to import contacts");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <section>
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+        Contacts
+      </h2>
+      <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+        People you exchange mail with are added as you sync, and suggested when
+        you write to someone. Select duplicates to merge them into one contact.
+      </p>
+
+      <div className="mt-4 flex space-x-2">
+        <Input
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter contacts"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={selectedIds.length < 2}
+          onClick={handleMergeSelected}
+        >
+          Merge selected
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isImporting}
+          onClick={handleImport}
+        >
+          {isImporting ? "Importing..." : "Import from account"}
+        </Button>
+      </div>
+
+      <div className="mt-4 space-y-2">
+        {visibleContacts.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No contacts found.
+          </p>
+        )}
+        {visibleContacts.map((contact) => (
+          <div
+            key={contact.id}
+            className="flex items-center justify-between rounded-lg border border-gray-200 px-4 py-3 dark:border-gray-700"
+          >
+            <label className="flex min-w-0 items-center space-x-3">
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(contact.id)}
+                onChange={() => toggleSelected(contact.id)}
+              />
+              <div className="min-w-0">
+                <div className="truncate text-sm font-medium text-gray-900 dark:text-white">
+                  {contact.name || contact.email}
+                </div>
+                <div className="truncate text-xs text-gray-500 dark:text-gray-400">
+                  {[contact.email, ...contact.aliases].join(", ")}
+                  {` · ${contact.emailCount} email${contact.emailCount !== 1 ? "s" : ""}`}
+                </div>
+              </div>
+            </label>
+            <div className="flex space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setForm({
+                    id: contact.id,
+                    email: contact.email,
+                    name: contact.name || "",
+                    phone: contact.phone || "",
+                  })
+                }
+              >
+                Edit
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleDeleteContact(contact)}
+              >
+                Delete
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <form
+        onSubmit={handleSaveContact}
+        className="mt-4 space-y-3 rounded-lg border border-gray-200 p-4 dark:border-gray-700"
+      >
+        <div className="text-sm font-medium text-gray-900 dark:text-white">
+          {form.id ? "Edit contact" : "Add contact"}
+        </div>
+        <Input
+          value={form.email}
+          onChange={(e) => setForm({ ...form, email: e.target.value })}
+          placeholder="Email address"
+        />
+        <Input
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          placeholder="Name"
+        />
+        <Input
+          value={form.phone}
+          onChange={(e) => setForm({ ...form, phone: e.target.value })}
+          placeholder="Phone (optional)"
+        />
+        <div className="flex space-x-2">
+          <Button type="submit" size="sm" disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save contact"}
+          </Button>
+          {form.id && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setForm(EMPTY_FORM)}
+            >
+              Cancel
+            </Button>
+          )}
+        </div>
+      </form>
+    </section>
+  );
+}
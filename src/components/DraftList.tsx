@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import type { DraftDetails } from "@/services/drafts";
+import { draftPreview } from "@/lib/drafts";
+
+interface DraftListProps {
+  userEmail: string;
+  onResume: (draft: DraftDetails) => void;
+}
+
+export default function DraftList({ userEmail, onResume }: DraftListProps) {
+  const [drafts, setDrafts] = useState<DraftDetails[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [busyIds, setBusyIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    // Show local drafts straight away, then pull in the provider's
+    window.drafts
+      .getDrafts(userEmail)
+      .then((local) => !cancelled && setDrafts(local))
+      .catch((error) => console.error("Error loading drafts:", error))
+      .finally(() => !cancelled && setIsLoading(false));
+    syncDrafts(() => cancelled);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userEmail]);
+
+  const syncDrafts = async (isCancelled: () => boolean = () => false) => {
+    try {
+      setIsSyncing(true);
+      const synced = await window.drafts.syncDrafts(userEmail);
+      if (!isCancelled()) setDrafts(synced);
+    } catch (error) {
+      console.error("Error syncing drafts:", error);
+      if (!isCancelled()) toast.error("Failed to sync drafts");
+    } finally {
+      if (!isCancelled()) setIsSyncing(false);
+    }
+  };
+
+  const withBusy = async (id: string, task: () => Promise<void>) => {
+    setBusyIds((prev) => [...prev, id]);
+    try {
+      await task();
+    } finally {
+      setBusyIds((prev) => prev.filter((busyId) => busyId !== id));
+    }
+  };
+
+  const handleDiscard = (draft: DraftDetails) =>
+    withBusy(draft.id, async () => {
+      try {
+        await window.drafts.deleteDraft(userEmail, draft.id);
+        setDrafts((prev) => prev.filter((d) => d.id !== draft.id));
+      } catch (error) {
+        console.error("Error discarding draft:", error);
+        toast.error("Failed to discard draft");
+      }
+    });
+
+  const handleSend = (draft: DraftDetails) =>
+    withBusy(draft.id, async () => {
+      try {
+        await window.drafts.sendDraft(userEmail, draft.id);
+        setDrafts((prev) => prev.filter((d) => d.id !== draft.id));
+        toast.success("Draft sent");
+      } catch (error) {
+        console.error("Error sending draft:", error);
+        toast.error(
+          error instanceof Error ? error.message : "Failed to send draft",
+        );
+      }
+    });
+
+  return (
+    <div className="flex h-full flex-col bg-white dark:bg-gray-800">
+      <div className="flex items-center justify-between border-b border-gray-200 p-4 dark:border-gray-700">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Drafts
+        </h2>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isSyncing}
+          onClick={() => syncDrafts()}
+        >
+          {isSyncing ? "Syncing..." : "Refresh"}
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {!isLoading && drafts.length === 0 && (
+          <p className="p-4 text-sm text-gray-500 dark:text-gray-400">
+            No drafts. Unsent replies and messages are saved here as you type.
+          </p>
+        )}
+        {drafts.map((draft) => {
+          const isBusy = busyIds.includes(draft.id);
+          return (
+            <div
+              key={draft.id}
+              onClick={() => onResume(draft)}
+              className="cursor-pointer border-b border-gray-100 px-4 py-3 hover:bg-gray-50 dark:border-gray-700 dark:hover:bg-gray-700/50"
+            >
+              <div className="flex items-center justify-between">
+                <div className="min-w-0 flex-1">
+                  <div className="truncate text-sm font-medium text-gray-900 dark:text-white">
+                    {draft.to.length > 0
+                      ? draft.to.join(", ")
+                      : "(No recipients)"}
+                  </div>
+                  <div className="truncate text-sm text-gray-700 dark:text-gray-300">
+                    {draft.mode !== "new" && (
+                      <span className="mr-1 text-xs text-gray-500 uppercase">
+                        {draft.mode}
+                      </span>
+                    )}
+                    {draft.subject || "(No subject)"}
+                  </div>
+                  <div className="truncate text-xs text-gray-500 dark:text-gray-400">
+                    {draftPreview(draft.body)}
+                  </div>
+                </div>
+                <div className="ml-3 flex flex-shrink-0 flex-col items-end space-y-1">
+                  <span className="text-xs text-gray-400">
+                    {new Date(draft.updatedAt).toLocaleString([], {
+                      month: "short",
+                      day: "numeric",
+                      hour: "numeric",
+                      minute: "2-digit",
+                    })}
+                  </span>
+                  <div
+                    className="flex space-x-1"
+                    onClick={(e) => e.stopPropagation()}
+                  >
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isBusy}
+                      onClick={() => handleDiscard(draft)}
+                    >
+                      Discard
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={isBusy || draft.to.length === 0}
+                      onClick={() => handleSend(draft)}
+                    >
+                      Send
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
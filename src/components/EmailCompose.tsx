@@ -1,30 +1,69 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
+import { ChevronDown } from "lucide-react";
+import type { DraftDetails } from "@/services/drafts";
+import { useDraftAutosave } from "@/hooks/use-draft-autosave";
+import { useUndoSend } from "@/hooks/use-undo-send";
+import { draftHtmlToPlainText, plainTextToDraftHtml } from "@/lib/drafts";
+import ScheduleSendMenu from "./Compose/ScheduleSendMenu";
 
 interface EmailComposeProps {
   userEmail: string;
-  onSend: (
-    to: string,
-    subject: string,
-    body: string,
-    isHtml: boolean,
-  ) => Promise<void>;
+  onSent: () => void; // Queued and past the undo window
   onCancel: () => void;
-  isSending?: boolean;
+  draft?: DraftDetails | null; // Saved draft to continue
 }
 
+const parseAddresses = (value: string) =>
+  value
+    .split(",")
+    .map((address) => address.trim())
+    .filter(Boolean);
+
 export default function EmailCompose({
   userEmail,
-  onSend,
+  onSent,
   onCancel,
-  isSending = false,
+  draft,
 }: EmailComposeProps) {
-  const [to, setTo] = useState("");
-  const [subject, setSubject] = useState("");
-  const [body, setBody] = useState("");
-  const [isHtml, setIsHtml] = useState(false);
+  // Drafts typed here as plain text come back as plain text, anything with
+  // markup is edited as HTML
+  const draftText = draft ? draftHtmlToPlainText(draft.body) : null;
+  const [to, setTo] = useState(draft?.to.join(", ") || "");
+  const [subject, setSubject] = useState(draft?.subject || "");
+  const [body, setBody] = useState(draftText ?? draft?.body ?? "");
+  const [isHtml, setIsHtml] = useState(!!draft && draftText === null);
   const [error, setError] = useState<string | null>(null);
 
-  const handleSend = async () => {
+  const { lastSavedAt, resumeDraft, discardDraft } = useDraftAutosave({
+    userEmail,
+    draft: {
+      mode: "new",
+      to: parseAddresses(to),
+      cc: draft?.cc,
+      bcc: draft?.bcc,
+      subject,
+      body: isHtml ? body : plainTextToDraftHtml(body),
+    },
+  });
+
+  useEffect(() => {
+    if (draft) resumeDraft(draft.id);
+  }, [draft, resumeDraft]);
+
+  const { sendWithUndo, isSending } = useUndoSend({
+    userEmail,
+    onSuccess: async () => {
+      await discardDraft().catch((err) =>
+        console.error("Error discarding sent draft:", err),
+      );
+      onSent();
+    },
+    onError: (err) => setError(err.message),
+    errorMessage: "Failed to send email",
+  });
+
+  // Sends after the undo window, or at sendAt when scheduled for later
+  const handleSend = async (sendAt?: Date) => {
     if (!to.trim()) {
       setError("Recipient email is required");
       return;
@@ -40,16 +79,32 @@ export default function EmailCompose({
       return;
     }
 
+    setError(null);
+    await sendWithUndo(
+      {
+        mode: "new",
+        to: parseAddresses(to),
+        cc: draft?.cc,
+        bcc: draft?.bcc,
+        subject: subject.trim(),
+        body: body.trim(),
+        isHtml,
+      },
+      sendAt,
+    );
+  };
+
+  const handleDiscard = async () => {
     try {
-      setError(null);
-      await onSend(to.trim(), subject.trim(), body.trim(), isHtml);
+      await discardDraft();
+      onCancel();
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to send email");
+      setError(err instanceof Error ? err.message : "Failed to discard draft");
     }
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+    if (e.key === "Enter" && (e.ctrlKey || e.metaKey) && !isSending) {
       handleSend();
     }
   };
@@ -59,23 +114,47 @@ export default function EmailCompose({
       {/* Header */}
       <div className="border-b border-gray-200 bg-white p-4 dark:border-gray-700 dark:bg-gray-800">
         <div className="flex items-center justify-between">
-          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
-            Compose Email
-          </h2>
+          <div className="flex items-baseline space-x-3">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Compose Email
+            </h2>
+            {lastSavedAt && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                Draft saved
+              </span>
+            )}
+          </div>
           <div className="flex items-center space-x-2">
             <button
-              onClick={onCancel}
+              onClick={handleDiscard}
               className="rounded-lg px-3 py-1.5 text-sm font-medium text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700"
             >
-              Cancel
+              Discard
             </button>
             <button
-              onClick={handleSend}
-              disabled={isSending}
-              className="rounded-lg bg-blue-600 px-4 py-1.5 text-sm font-medium text-white hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50 dark:focus:ring-offset-gray-800"
+              onClick={onCancel}
+              className="rounded-lg px-3 py-1.5 text-sm font-medium text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700"
             >
-              {isSending ? "Sending..." : "Send"}
+              Cancel
             </button>
+            <div className="flex items-center">
+              <button
+                onClick={() => handleSend()}
+                disabled={isSending}
+                className="rounded-l-lg bg-blue-600 px-4 py-1.5 text-sm font-medium text-white hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50 dark:focus:ring-offset-gray-800"
+              >
+                {isSending ? "Sending..." : "Send"}
+              </button>
+              <ScheduleSendMenu onSchedule={handleSend}>
+                <button
+                  disabled={isSending}
+                  title="Schedule send"
+                  className="rounded-r-lg border-l border-blue-500 bg-blue-600 px-2 py-1.5 text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  <ChevronDown className="h-4 w-4" />
+                </button>
+              </ScheduleSendMenu>
+            </div>
           </div>
         </div>
       </div>
@@ -1,6 +1,10 @@
 import React, { useState, useEffect } from "react";
+import { toast } from "sonner";
 import { EmailMessage } from "../services/email";
+import type { FollowUpDetails } from "../services/follow-ups";
 import ThreadReply from "./Compose/ThreadReply";
+import MessageAttachments from "./MessageAttachments";
+import EmailView from "./EmailView";
 
 interface EmailContentProps {
   email: EmailMessage | null;
@@ -19,6 +23,8 @@ export default function EmailContent({
   const [replyAllToMessageId, setReplyAllToMessageId] = useState<string | null>(
     null,
   );
+  const [forwardMessageId, setForwardMessageId] = useState<string | null>(null);
+  const [followUp, setFollowUp] = useState<FollowUpDetails | null>(null);
 
   // Load thread emails when email changes
   useEffect(() => {
@@ -29,6 +35,42 @@ export default function EmailContent({
     }
   }, [email, userEmail]);
 
+  // The thread's reminder, and its AI nudge once it's due
+  useEffect(() => {
+    if (!email || !userEmail) {
+      setFollowUp(null);
+      return;
+    }
+    let cancelled = false;
+    const load = () =>
+      window.followUps
+        .getThreadFollowUp(userEmail, email.threadId)
+        .then((result) => !cancelled && setFollowUp(result))
+        .catch((error) => console.error("Error loading follow-up:", error));
+
+    load();
+    const unsubscribe = window.followUps.onFollowUpDue((event) => {
+      if (event.userEmail === userEmail && event.threadId === email.threadId) {
+        load();
+      }
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [email, userEmail]);
+
+  const handleDismissFollowUp = async () => {
+    if (!followUp || !userEmail) return;
+    try {
+      await window.followUps.dismissFollowUp(userEmail, followUp.id);
+      setFollowUp(null);
+    } catch (error) {
+      console.error("Error dismissing follow-up:", error);
+      toast.error("Failed to cancel follow-up");
+    }
+  };
+
   const loadThreadEmails = async () => {
     if (!email || !userEmail) return;
 
@@ -269,34 +311,49 @@ export default function EmailContent({
                     )}
                     <div className="flex space-x-1">
                       <button
-                        onClick={() => setReplyToMessageId(threadEmail.id)}
+                        onClick={() => {
+                          setForwardMessageId(null);
+                          setReplyToMessageId(threadEmail.id);
+                        }}
                         className="rounded-lg px-3 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700"
                       >
                         Reply
                       </button>
                       <button
-                        onClick={() => setReplyAllToMessageId(threadEmail.id)}
+                        onClick={() => {
+                          setForwardMessageId(null);
+                          setReplyAllToMessageId(threadEmail.id);
+                        }}
                         className="rounded-lg px-3 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700"
                       >
                         Reply All
                       </button>
+                      <button
+                        onClick={() => {
+                          setReplyToMessageId(null);
+                          setReplyAllToMessageId(null);
+                          setForwardMessageId(threadEmail.id);
+                        }}
+                        className="rounded-lg px-3 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700"
+                      >
+                        Forward
+                      </button>
                     </div>
                   </div>
                 </div>
 
                 {/* Message Body */}
-                <div className="prose prose-sm dark:prose-invert max-w-none">
-                  {threadEmail.htmlBody ? (
-                    <div
-                      dangerouslySetInnerHTML={{ __html: threadEmail.htmlBody }}
-                      className="text-gray-900 dark:text-white"
-                    />
-                  ) : (
-                    <div className="whitespace-pre-wrap text-gray-900 dark:text-white">
-                      {threadEmail.body}
-                    </div>
-                  )}
-                </div>
+                {userEmail && (
+                  <EmailView userEmail={userEmail} messageId={threadEmail.id} />
+                )}
+
+                {userEmail && threadEmail.attachments && (
+                  <MessageAttachments
+                    userEmail={userEmail}
+                    messageId={threadEmail.id}
+                    attachments={threadEmail.attachments}
+                  />
+                )}
               </div>
             ))}
           </div>
@@ -306,6 +363,22 @@ export default function EmailContent({
       {/* Reply Section */}
       {email && (
         <div className="border-t border-gray-200 bg-gray-50 p-4 dark:border-gray-700 dark:bg-gray-900">
+          {followUp &&
+            (followUp.status === "pending" || !followUp.predraft) && (
+              <div className="mb-3 flex items-center justify-between rounded-lg border border-orange-200 bg-orange-50 px-3 py-2 text-sm text-orange-700 dark:border-orange-800 dark:bg-orange-900/20 dark:text-orange-200">
+                <span>
+                  {followUp.status === "pending"
+                    ? `Back in your inbox ${formatDate(new Date(followUp.dueAt))} if nobody replies`
+                    : "Nobody replied yet, time to follow up"}
+                </span>
+                <button
+                  onClick={handleDismissFollowUp}
+                  className="ml-3 font-medium hover:text-orange-900 dark:hover:text-orange-100"
+                >
+                  {followUp.status === "pending" ? "Cancel" : "Dismiss"}
+                </button>
+              </div>
+            )}
           <ThreadReply
             messages={threadEmails.map((msg) => ({
               ...msg,
@@ -321,15 +394,31 @@ export default function EmailContent({
             threadId={email.threadId}
             replyToMessageId={replyToMessageId}
             replyAllToMessageId={replyAllToMessageId}
+            forwardMessageId={forwardMessageId}
+            accountEmail={userEmail}
+            predraftData={
+              followUp?.status === "due" && followUp.predraft
+                ? {
+                    id: followUp.id,
+                    followupDraft: followUp.predraft,
+                    dueAt: new Date(followUp.dueAt).toISOString(),
+                  }
+                : null
+            }
+            onPredraftUpdate={(predraft) => {
+              if (!predraft) setFollowUp(null);
+            }}
             onReplyCancel={() => {
               setReplyToMessageId(null);
               setReplyAllToMessageId(null);
+              setForwardMessageId(null);
             }}
             onThreadRefresh={() => {
               // Refresh the thread when a reply is sent
               console.log("Thread refresh requested");
               setReplyToMessageId(null);
               setReplyAllToMessageId(null);
+              setForwardMessageId(null);
             }}
           />
         </div>
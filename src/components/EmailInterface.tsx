@@ -1,22 +1,49 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
+import { toast } from "sonner";
 import EmailList from "./EmailList";
 import EmailContent from "./EmailContent";
 import EmailCompose from "./EmailCompose";
+import DraftList from "./DraftList";
+import OutboxList from "./OutboxList";
+import AttachmentBrowser from "./AttachmentBrowser";
 import { EmailThread, EmailMessage } from "../services/email";
+import type { DraftDetails } from "../services/drafts";
+import {
+  GMAIL_FULL_ACCESS_REQUIRED,
+  MailFolder,
+  ThreadAction,
+  ThreadActionResult,
+  removesFromInbox,
+} from "../lib/thread-actions";
+import type { SyncStatusEvent } from "../lib/sync-scheduler";
 import { WebSocketClient } from "../services/websocket-client";
 
 export type EmailSection = "all" | "important" | "vip";
 
+// What the list pane shows: threads, or the account's unsent mail
+export type MailboxView = "threads" | "drafts" | "outbox" | "attachments";
+
+interface ConnectedAccount {
+  email: string;
+  provider?: string;
+}
+
 interface EmailInterfaceProps {
   userEmail: string;
   userProvider?: string;
   section?: EmailSection;
+  accounts?: ConnectedAccount[]; // Every connected account, for sync and push
+  unified?: boolean; // Show threads from all accounts in one list
+  view?: MailboxView;
 }
 
 export default function EmailInterface({
   userEmail,
   userProvider,
   section = "all",
+  accounts,
+  unified = false,
+  view = "threads",
 }: EmailInterfaceProps) {
   const [emails, setEmails] = useState<EmailThread[]>([]);
   const [selectedEmail, setSelectedEmail] = useState<EmailMessage | null>(null);
@@ -31,73 +58,323 @@ export default function EmailInterface({
   const [hasMoreEmails, setHasMoreEmails] = useState(true);
   const [dbOffset, setDbOffset] = useState(0);
   const [showCompose, setShowCompose] = useState(false);
-  const [isSendingEmail, setIsSendingEmail] = useState(false);
-  const [wsClient, setWsClient] = useState<WebSocketClient | null>(null);
-  const [wsConnected, setWsConnected] = useState(false);
+  const [composeDraft, setComposeDraft] = useState<DraftDetails | null>(null);
+  const [wsConnectedAccounts, setWsConnectedAccounts] = useState<
+    Record<string, boolean>
+  >({});
   const [wsConnectionError, setWsConnectionError] = useState<string | null>(
     null,
   );
+  const [syncStatuses, setSyncStatuses] = useState<
+    Record<string, SyncStatusEvent>
+  >({});
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  // Changes the provider doesn't have yet, by account
+  const [pendingCounts, setPendingCounts] = useState<Record<string, number>>(
+    {},
+  );
+  const [lastSyncedAccount, setLastSyncedAccount] = useState<{
+    email: string;
+    at: number;
+  } | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<EmailThread[] | null>(
+    null,
+  );
+  const [hasMoreSearchResults, setHasMoreSearchResults] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const [labelColors, setLabelColors] = useState<Record<string, string>>({});
+  const [foldersByAccount, setFoldersByAccount] = useState<
+    Record<string, MailFolder[]>
+  >({});
+  const latestSearchRef = useRef("");
+  // Threads taken out of the list by an action, so undo can put them back
+  const removedThreadsRef = useRef(new Map<string, EmailThread>());
+
+  const connectedAccounts: ConnectedAccount[] =
+    accounts && accounts.length > 0
+      ? accounts
+      : [{ email: userEmail, provider: userProvider }];
+  const accountsKey = connectedAccounts
+    .map((account) => `${account.email}:${account.provider}`)
+    .join(",");
+  const wsConnected = connectedAccounts.every(
+    (account) => wsConnectedAccounts[account.email],
+  );
+  // The most pressing sync status among the accounts shown
+  const shownSyncStatuses = connectedAccounts
+    .map((account) => syncStatuses[account.email])
+    .filter((event) => event && (unified || event.userEmail === userEmail));
+  const isOffline =
+    !isOnline || shownSyncStatuses.some((event) => event.status === "offline");
+  const syncProblem = shownSyncStatuses.find(
+    (event) => event.status === "error",
+  );
+  const isSyncing = shownSyncStatuses.some(
+    (event) => event.status === "syncing",
+  );
+  const pendingCount = connectedAccounts
+    .filter((account) => unified || account.email === userEmail)
+    .reduce((total, account) => total + (pendingCounts[account.email] ?? 0), 0);
+  const pendingText = `${pendingCount} ${pendingCount === 1 ? "change" : "changes"}`;
 
   useEffect(() => {
     console.log(
-      `[EMAIL_INTERFACE] Initializing email interface for user: ${userEmail}`,
+      `[EMAIL_INTERFACE] Loading ${unified ? "unified inbox" : `emails for user: ${userEmail}`}`,
     );
-    initializeEmailClient();
-  }, [userEmail]);
+    setSelectedEmailId(null);
+    loadEmails();
+  }, [userEmail, unified]);
 
-  const initializeEmailClient = async () => {
-    try {
-      console.log(
-        `[EMAIL_INTERFACE] Starting local-first email client initialization`,
-      );
+  // Report queued mail as the outbox delivers it, whichever composer sent it
+  useEffect(() => {
+    return window.outbox.onStatusChange((event) => {
+      const subject = event.subject || "(No subject)";
+      if (event.status === "sent") {
+        toast.success(`Sent "${subject}"`);
+      } else if (event.status === "failed") {
+        toast.error(`Couldn't send "${subject}"`, {
+          description: `${event.error ?? "Unknown error"}. It's kept in the Outbox.`,
+        });
+      }
+    });
+  }, []);
 
-      // Step 1: Load emails from database first (local-first approach)
-      await loadEmails();
+  // Threads without a reply come back to the inbox when their reminder is due
+  useEffect(() => {
+    return window.followUps.onFollowUpDue((event) => {
+      setLastSyncedAccount({ email: event.userEmail, at: Date.now() });
+      toast(`No reply to "${event.subject || "(No subject)"}"`, {
+        description: event.hasPredraft
+          ? "It's back in your inbox with a follow-up draft"
+          : "It's back in your inbox",
+        action: {
+          label: "Open",
+          onClick: () => setSelectedEmailId(event.threadId),
+        },
+      });
+    });
+  }, []);
 
-      // Step 2: Perform incremental sync to get any new emails
-      await performIncrementalSync();
+  // Mail read, moved or deleted elsewhere: show the account's list as it now is
+  useEffect(() => {
+    return window.email.onMailChanged((event) => {
+      setLastSyncedAccount({ email: event.userEmail, at: Date.now() });
+      setSelectedEmailId((selected) =>
+        selected && event.deletedThreadIds.includes(selected) ? null : selected,
+      );
+    });
+  }, []);
 
-      // Step 3: Setup real-time connections (WebSocket only)
-      setupWebSocketConnection();
+  // Mail synced in the background; the scheduler in the main process syncs
+  // every account, so this only shows what it found
+  useEffect(() => {
+    return window.email.onNewEmailNotification((event) => {
+      setLastSyncedAccount({ email: event.userEmail, at: Date.now() });
+    });
+  }, []);
 
-      console.log(`[EMAIL_INTERFACE] Email client initialization completed`);
-    } catch (error) {
-      console.error(
-        `[EMAIL_INTERFACE] Error during email client initialization:`,
-        error,
-      );
-    }
-  };
+  useEffect(() => {
+    let cancelled = false;
+    window.sync
+      .getStatuses()
+      .then((statuses) => {
+        if (cancelled) return;
+        setSyncStatuses((prev) => ({
+          ...Object.fromEntries(
+            statuses.map((event) => [event.userEmail, event]),
+          ),
+          ...prev,
+        }));
+      })
+      .catch((error) => {
+        console.error("[EMAIL_INTERFACE] Error loading sync status:", error);
+      });
+    const unsubscribe = window.sync.onStatusChange((event) => {
+      setSyncStatuses((prev) => ({ ...prev, [event.userEmail]: event }));
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
 
-  const performIncrementalSync = async () => {
-    try {
-      console.log(
-        `[EMAIL_INTERFACE] Starting incremental sync for user: ${userEmail}`,
-      );
+  // Changes made here wait for the provider while offline; ones it refused,
+  // or that new mail overtook, are put back
+  useEffect(() => {
+    let cancelled = false;
+    window.sync
+      .getPendingCounts()
+      .then((counts) => {
+        if (!cancelled) setPendingCounts((prev) => ({ ...counts, ...prev }));
+      })
+      .catch((error) => {
+        console.error(
+          "[EMAIL_INTERFACE] Error loading pending changes:",
+          error,
+        );
+      });
+    const unsubscribe = window.sync.onPendingChange((event) => {
+      setPendingCounts((prev) => ({
+        ...prev,
+        [event.userEmail]: event.pending,
+      }));
+      if (event.conflicts.length === 0) return;
+      setLastSyncedAccount({ email: event.userEmail, at: Date.now() });
+      for (const conflict of event.conflicts) toast.warning(conflict);
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
 
-      if (!window.email) {
-        console.log("[EMAIL_INTERFACE] Email service not available");
-        return;
+  // Sync as soon as the network is back rather than when the backoff ends
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      for (const account of connectedAccounts) {
+        window.sync.requestSync(account.email);
       }
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [accountsKey]);
 
-      const result = await window.email.performIncrementalSync(userEmail, 50);
-
-      console.log(
-        `[EMAIL_INTERFACE] Incremental sync completed - Found ${result.newEmailsCount} new emails out of ${result.totalEmailsCount} total`,
-      );
+  useEffect(() => {
+    const clients: WebSocketClient[] = [];
+    let cancelled = false;
 
-      // If we found new emails, reload the email list to show them
-      if (result.newEmailsCount > 0) {
+    const initializeEmailClient = async () => {
+      try {
         console.log(
-          `[EMAIL_INTERFACE] Reloading emails to show ${result.newEmailsCount} new emails`,
+          `[EMAIL_INTERFACE] Starting local-first email client initialization for ${connectedAccounts.length} account(s)`,
+        );
+
+        // Step 1: Ask the scheduler to sync every account for any new emails
+        for (const account of connectedAccounts) {
+          window.sync.requestSync(account.email);
+        }
+
+        // Step 2: Setup real-time connections (WebSocket only), one per account
+        for (const account of connectedAccounts) {
+          if (cancelled) return;
+          const client = await setupWebSocketConnection(account);
+          if (!client) continue;
+          if (cancelled) client.disconnect();
+          else clients.push(client);
+        }
+
+        console.log(`[EMAIL_INTERFACE] Email client initialization completed`);
+      } catch (error) {
+        console.error(
+          `[EMAIL_INTERFACE] Error during email client initialization:`,
+          error,
         );
-        await loadEmails();
       }
-    } catch (error) {
-      console.error(
-        `[EMAIL_INTERFACE] Error during incremental sync for user ${userEmail}:`,
-        error,
+    };
+
+    initializeEmailClient();
+
+    // Cleanup WebSocket connections when accounts change or on unmount
+    return () => {
+      cancelled = true;
+      clients.forEach((client) => client.disconnect());
+      setWsConnectedAccounts({});
+    };
+  }, [accountsKey]);
+
+  // Colours of the connected accounts' custom labels, for the list badges
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all(
+      connectedAccounts.map((account) =>
+        window.labels.getCustomLabels(account.email).catch((error) => {
+          console.error(
+            `[EMAIL_INTERFACE] Failed to load labels for ${account.email}:`,
+            error,
+          );
+          return [];
+        }),
+      ),
+    ).then((results) => {
+      if (cancelled) return;
+      const colors: Record<string, string> = {};
+      results.flat().forEach((label) => (colors[label.name] = label.color));
+      setLabelColors(colors);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [accountsKey]);
+
+  // Reload the list when a sync found new emails for an account being shown
+  useEffect(() => {
+    if (!lastSyncedAccount) return;
+    if (unified || lastSyncedAccount.email === userEmail) {
+      loadEmails();
+    }
+  }, [lastSyncedAccount]);
+
+  // The unified inbox only covers the "all" section
+  const fetchInboxFromDB = (limit: number, offset: number) =>
+    unified
+      ? window.email.getUnifiedInboxFromDB(
+          connectedAccounts.map((account) => account.email),
+          limit,
+          offset,
+        )
+      : window.email.getInboxEmailsFromDB(userEmail, limit, offset);
+
+  // Threads in the unified inbox belong to their own account
+  const getThreadAccountEmail = (threadId: string | null) =>
+    [...emails, ...(searchResults ?? [])].find((email) => email.id === threadId)
+      ?.accountEmail || userEmail;
+
+  // Debounce local search so every keystroke doesn't hit the index
+  useEffect(() => {
+    const query = searchQuery.trim();
+    latestSearchRef.current = query;
+    if (!query) {
+      setSearchResults(null);
+      setHasMoreSearchResults(false);
+      setIsSearching(false);
+      return;
+    }
+
+    const timeout = setTimeout(() => searchEmails(query, true), 250);
+    return () => clearTimeout(timeout);
+  }, [searchQuery, userEmail]);
+
+  const searchEmails = async (query: string, reset: boolean) => {
+    try {
+      setIsSearching(true);
+
+      const result = await window.email.searchEmails(
+        userEmail,
+        query,
+        25,
+        reset ? 0 : searchResults?.length || 0,
       );
+
+      // Ignore responses for a query the user has already changed
+      if (latestSearchRef.current !== query) return;
+
+      setSearchResults((prev) =>
+        reset || !prev ? result.emails : [...prev, ...result.emails],
+      );
+      setHasMoreSearchResults(result.hasMore);
+    } catch (err) {
+      console.error(`[EMAIL_INTERFACE] Error searching emails:`, err);
+    } finally {
+      if (latestSearchRef.current === query) setIsSearching(false);
     }
   };
 
@@ -109,14 +386,19 @@ export default function EmailInterface({
     }
   }, [selectedEmailId]);
 
+  // Move targets for the selected thread's account, fetched once per account
   useEffect(() => {
-    // Cleanup WebSocket connection on unmount
-    return () => {
-      if (wsClient) {
-        wsClient.disconnect();
-      }
-    };
-  }, [wsClient]);
+    if (!selectedEmailId) return;
+    const accountEmail = getThreadAccountEmail(selectedEmailId);
+    if (foldersByAccount[accountEmail]) return;
+
+    window.email
+      .getMailFolders(accountEmail)
+      .then((folders) =>
+        setFoldersByAccount((prev) => ({ ...prev, [accountEmail]: folders })),
+      )
+      .catch((err) => console.error("Error loading mail folders:", err));
+  }, [selectedEmailId]);
 
   const loadEmails = async (reset: boolean = true) => {
     try {
@@ -157,21 +439,20 @@ export default function EmailInterface({
         } else {
           // section === "all"
           console.log(`[EMAIL_INTERFACE] Fetching ALL emails from DB`);
-          dbResult = await window.email.getInboxEmailsFromDB(
-            userEmail,
-            25,
-            reset ? 0 : emails.length,
-          );
+          dbResult = await fetchInboxFromDB(25, reset ? 0 : emails.length);
         }
 
         console.log(
           `[EMAIL_INTERFACE] Database returned ${dbResult.emails.length} emails for section: ${section}`,
         );
 
-        // For Important section, ONLY use DB (no API fetching)
+        // For Important section and the unified inbox, ONLY use DB (no API fetching)
         // For VIP and All sections, fetch from API if DB is empty
         const shouldFetchFromAPI =
-          section !== "important" && dbResult.emails.length === 0 && reset;
+          section !== "important" &&
+          !unified &&
+          dbResult.emails.length === 0 &&
+          reset;
 
         if (shouldFetchFromAPI) {
           console.log(
@@ -263,8 +544,8 @@ export default function EmailInterface({
           dbError,
         );
 
-        // For Important section, don't fetch from API on error
-        if (section === "important") {
+        // For Important section and the unified inbox, don't fetch from API on error
+        if (section === "important" || unified) {
           console.log(
             "[EMAIL_INTERFACE] Important section - not fetching from API",
           );
@@ -345,11 +626,7 @@ export default function EmailInterface({
 
       while (shouldContinue && totalEmailsAdded < maxEmailsToFetch) {
         try {
-          const dbResult = await window.email.getInboxEmailsFromDB(
-            userEmail,
-            25,
-            currentOffset,
-          );
+          const dbResult = await fetchInboxFromDB(25, currentOffset);
 
           console.log(
             `[EMAIL_INTERFACE] Database returned ${dbResult.emails.length} emails, hasMore: ${dbResult.hasMore}, offset: ${currentOffset}`,
@@ -425,6 +702,9 @@ export default function EmailInterface({
         }
       }
 
+      // The unified inbox has no single provider to page through
+      if (unified) return;
+
       // If database is exhausted or we had an error, try API fallback
       if (!shouldContinue || totalEmailsAdded === 0) {
         console.log(
@@ -484,8 +764,9 @@ export default function EmailInterface({
         throw new Error("Email service not available");
       }
 
+      const accountEmail = getThreadAccountEmail(emailId);
       const emailContent = await window.email.getEmailContent(
-        userEmail,
+        accountEmail,
         emailId,
       );
       setSelectedEmail(emailContent);
@@ -494,7 +775,7 @@ export default function EmailInterface({
       const emailThread = emails.find((email) => email.id === emailId);
       if (emailThread && !emailThread.isRead) {
         try {
-          await window.email.markEmailAsRead(userEmail, emailId);
+          await window.email.markEmailAsRead(accountEmail, emailId);
 
           // Update local state to reflect the email is now read
           setEmails((prevEmails) =>
@@ -521,7 +802,112 @@ export default function EmailInterface({
     setSelectedEmailId(emailId);
   };
 
+  // Update the list straight away and roll back if the action fails
+  const handleThreadAction = async (
+    threadId: string,
+    action: ThreadAction,
+  ): Promise<ThreadActionResult | null> => {
+    const accountEmail = getThreadAccountEmail(threadId);
+    const thread =
+      [...emails, ...(searchResults ?? [])].find((e) => e.id === threadId) ??
+      removedThreadsRef.current.get(threadId);
+    const previousEmails = emails;
+    const previousSearchResults = searchResults;
+
+    const updateList = (list: EmailThread[]) => {
+      if (removesFromInbox(action)) {
+        return list.filter((email) => email.id !== threadId);
+      }
+      const restored =
+        list.some((email) => email.id === threadId) || !thread
+          ? list
+          : [...list, thread].sort(
+              (a, b) => b.timestamp.getTime() - a.timestamp.getTime(),
+            );
+      return restored.map((email) =>
+        email.id !== threadId
+          ? email
+          : {
+              ...email,
+              ...(action.type === "star" && { isStarred: true }),
+              ...(action.type === "unstar" && { isStarred: false }),
+              ...(action.type === "markRead" && { isRead: true }),
+              ...(action.type === "markUnread" && { isRead: false }),
+            },
+      );
+    };
+
+    if (thread && removesFromInbox(action)) {
+      removedThreadsRef.current.set(threadId, thread);
+    }
+    setEmails(updateList);
+    setSearchResults((prev) => prev && updateList(prev));
+    if (removesFromInbox(action) && selectedEmailId === threadId) {
+      setSelectedEmailId(null);
+    }
+
+    try {
+      const result = await window.email.applyThreadAction(
+        accountEmail,
+        threadId,
+        action,
+      );
+
+      // Outlook gives a message a new id when it moves
+      if (result.threadId !== threadId) {
+        const rename = (list: EmailThread[]) =>
+          list.map((email) =>
+            email.id === threadId ? { ...email, id: result.threadId } : email,
+          );
+        setEmails(rename);
+        setSearchResults((prev) => prev && rename(prev));
+        if (thread) {
+          removedThreadsRef.current.delete(threadId);
+          removedThreadsRef.current.set(result.threadId, {
+            ...thread,
+            id: result.threadId,
+          });
+        }
+      }
+      return result;
+    } catch (err) {
+      console.error(`Error applying ${action.type} to ${threadId}:`, err);
+      setEmails(previousEmails);
+      setSearchResults(previousSearchResults);
+      const message = err instanceof Error ? err.message : "Action failed";
+      if (message.includes(GMAIL_FULL_ACCESS_REQUIRED)) {
+        toast.error(GMAIL_FULL_ACCESS_REQUIRED, {
+          description: "Grant it to delete mail for good",
+          action: {
+            label: "Grant access",
+            onClick: () => {
+              window.oauth
+                .googleGrantFullAccess(accountEmail)
+                .then(() => handleThreadAction(threadId, action))
+                .catch((grantError) => {
+                  console.error(
+                    "Error granting full Gmail access:",
+                    grantError,
+                  );
+                  toast.error("Couldn't get full Gmail access");
+                });
+            },
+          },
+        });
+      } else {
+        toast.error(message);
+      }
+      return null;
+    }
+  };
+
   const handleLoadMore = () => {
+    if (searchResults) {
+      if (!isSearching && hasMoreSearchResults) {
+        searchEmails(searchQuery.trim(), false);
+      }
+      return;
+    }
     loadMoreEmails();
   };
 
@@ -529,21 +915,32 @@ export default function EmailInterface({
     loadEmails(true);
   };
 
-  const setupWebSocketConnection = async () => {
-    try {
-      // Create WebSocket client
-      const client = new WebSocketClient("wss://hooks.futurixai.com");
+  const setupWebSocketConnection = async (
+    account: ConnectedAccount,
+  ): Promise<WebSocketClient | null> => {
+    const accountEmail = account.email;
+    // Create WebSocket client, registering with a token for the account
+    const client = new WebSocketClient(() =>
+      window.relay.getConnection(accountEmail),
+    );
 
+    try {
       // Set up event listeners
       client.on("connected", () => {
-        console.log("🔌 Connected to notification server");
-        setWsConnected(true);
+        console.log(`🔌 Connected to notification server for ${accountEmail}`);
+        setWsConnectedAccounts((prev) => ({ ...prev, [accountEmail]: true }));
         setWsConnectionError(null);
+        // Catch up on anything pushed while the connection was down
+        window.sync.setRelayConnected(accountEmail, true);
+        window.sync.requestSync(accountEmail);
       });
 
       client.on("disconnected", () => {
-        console.log("🔌 Disconnected from notification server");
-        setWsConnected(false);
+        console.log(
+          `🔌 Disconnected from notification server for ${accountEmail}`,
+        );
+        setWsConnectedAccounts((prev) => ({ ...prev, [accountEmail]: false }));
+        window.sync.setRelayConnected(accountEmail, false);
       });
 
       client.on("registered", (data: unknown) => {
@@ -556,54 +953,64 @@ export default function EmailInterface({
 
       client.on("newEmail", (notification: unknown) => {
         console.log("📧 New email notification:", notification);
-        // Perform incremental sync to get new emails when we receive a notification
-        performIncrementalSync();
+        // Sync to get new emails when we receive a notification
+        window.sync.requestSync(accountEmail);
+      });
+
+      client.on("mailChanged", () => {
+        // Incremental sync picks up read state changes and removals too
+        window.sync.requestSync(accountEmail);
       });
 
       client.on("error", (error) => {
-        console.error("WebSocket error:", error);
-        setWsConnected(false);
+        console.error(`WebSocket error for ${accountEmail}:`, error);
+        setWsConnectedAccounts((prev) => ({ ...prev, [accountEmail]: false }));
+        window.sync.setRelayConnected(accountEmail, false);
         setWsConnectionError(
           error instanceof Error ? error.message : "Connection failed",
         );
       });
 
       // Connect to the WebSocket server
-      await client.connect(userEmail, userEmail); // Use email as both userId and userEmail
-      setWsClient(client);
+      await client.connect();
 
-      // Setup push notifications with the WebSocket server URL
-      await setupPushNotifications();
+      // Setup push notifications through the relay
+      await setupPushNotifications(account);
+      return client;
     } catch (error) {
-      console.error("Error setting up WebSocket connection:", error);
-      setWsConnected(false);
+      console.error(
+        `Error setting up WebSocket connection for ${accountEmail}:`,
+        error,
+      );
+      client.disconnect();
+      setWsConnectedAccounts((prev) => ({ ...prev, [accountEmail]: false }));
+      window.sync.setRelayConnected(accountEmail, false);
       setWsConnectionError(
         error instanceof Error ? error.message : "Failed to setup connection",
       );
+      return null;
     }
   };
 
-  const setupPushNotifications = async () => {
+  const setupPushNotifications = async (account: ConnectedAccount) => {
     try {
       if (!window.email) return;
 
-      const webhookUrl = "https://hooks.futurixai.com/webhook";
-
-      if (userProvider === "google") {
+      if (account.provider === "GOOGLE") {
         try {
-          await window.email.setupGmailPushNotifications(userEmail);
+          await window.email.setupGmailPushNotifications(account.email);
         } catch (gmailError) {
           console.log("Gmail push notifications not available:", gmailError);
         }
-      } else if (userProvider === "outlook") {
+      } else if (account.provider === "OUTLOOK") {
         try {
-          await window.email.setupOutlookWebhook(userEmail, webhookUrl);
+          await window.email.setupOutlookWebhook(account.email);
         } catch (outlookError) {
           console.log("Outlook webhook not available:", outlookError);
         }
       } else {
         console.log(
-          `Push notifications not supported for provider: ${userProvider}`,
+          `Push notifications not supported for provider: ${account.provider}`,
         );
       }
     } catch (error) {
@@ -611,28 +1018,24 @@ export default function EmailInterface({
     }
   };
 
-  const handleSendEmail = async (
-    to: string,
-    subject: string,
-    body: string,
-    isHtml: boolean,
-  ) => {
-    try {
-      setIsSendingEmail(true);
-      setError(null);
+  const handleComposeClose = () => {
+    setShowCompose(false);
+  };
 
-      await window.email.sendEmail(userEmail, to, subject, body, isHtml);
-      setShowCompose(false);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to send email");
-      throw err;
-    } finally {
-      setIsSendingEmail(false);
-    }
+  const handleCompose = () => {
+    setComposeDraft(null);
+    setShowCompose(true);
   };
 
-  const handleComposeCancel = () => {
-    setShowCompose(false);
+  // Replies and forwards reopen under their thread, where ThreadReply
+  // restores them
+  const handleResumeDraft = (draft: DraftDetails) => {
+    if (draft.mode !== "new" && draft.threadId) {
+      handleEmailSelect(draft.threadId);
+    } else {
+      setComposeDraft(draft);
+      setShowCompose(true);
+    }
   };
 
   if (error) {
@@ -672,10 +1075,11 @@ export default function EmailInterface({
   if (showCompose) {
     return (
       <EmailCompose
+        key={composeDraft?.id ?? "new"}
         userEmail={userEmail}
-        onSend={handleSendEmail}
-        onCancel={handleComposeCancel}
-        isSending={isSendingEmail}
+        draft={composeDraft}
+        onSent={handleComposeClose}
+        onCancel={handleComposeClose}
       />
     );
   }
@@ -704,20 +1108,69 @@ export default function EmailInterface({
             </div>
           </div>
         )}
+        {isOffline ? (
+          <div className="rounded-lg border border-gray-300 bg-gray-100 px-3 py-2 text-sm text-gray-800 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-200">
+            <div className="flex items-center space-x-2">
+              <div className="h-2 w-2 rounded-full bg-gray-500"></div>
+              <span>
+                {pendingCount > 0
+                  ? `Offline, ${pendingText} will sync when you're back online`
+                  : "Offline, showing saved mail"}
+              </span>
+            </div>
+          </div>
+        ) : syncProblem ? (
+          <div className="rounded-lg border border-red-300 bg-red-100 px-3 py-2 text-sm text-red-800 dark:border-red-700 dark:bg-red-900/20 dark:text-red-200">
+            <div className="flex items-center space-x-2">
+              <div className="h-2 w-2 rounded-full bg-red-500"></div>
+              <span>{`Sync failed: ${syncProblem.error ?? "Unknown error"}`}</span>
+            </div>
+          </div>
+        ) : (
+          (isSyncing || pendingCount > 0) && (
+            <div className="rounded-lg border border-blue-300 bg-blue-100 px-3 py-2 text-sm text-blue-800 dark:border-blue-700 dark:bg-blue-900/20 dark:text-blue-200">
+              <div className="flex items-center space-x-2">
+                <div className="h-2 w-2 animate-pulse rounded-full bg-blue-500"></div>
+                <span>
+                  {pendingCount > 0
+                    ? `Syncing ${pendingText}...`
+                    : "Syncing..."}
+                </span>
+              </div>
+            </div>
+          )
+        )}
       </div>
 
       {/* Email List - Left Side */}
       <div className="w-1/3 border-r border-gray-200 dark:border-gray-700">
-        <EmailList
-          emails={emails}
-          selectedEmailId={selectedEmailId}
-          onEmailSelect={handleEmailSelect}
-          isLoading={isLoadingEmails}
-          isLoadingMore={isLoadingMoreEmails}
-          hasMoreEmails={hasMoreEmails}
-          onLoadMore={handleLoadMore}
-          onCompose={() => setShowCompose(true)}
-        />
+        {view === "drafts" ? (
+          <DraftList userEmail={userEmail} onResume={handleResumeDraft} />
+        ) : view === "outbox" ? (
+          <OutboxList userEmail={userEmail} onEdit={handleResumeDraft} />
+        ) : view === "attachments" ? (
+          <AttachmentBrowser
+            userEmail={userEmail}
+            onOpenThread={handleEmailSelect}
+          />
+        ) : (
+          <EmailList
+            emails={searchResults ?? emails}
+            selectedEmailId={selectedEmailId}
+            onEmailSelect={handleEmailSelect}
+            isLoading={isLoadingEmails && !searchQuery}
+            isLoadingMore={searchResults ? isSearching : isLoadingMoreEmails}
+            hasMoreEmails={searchResults ? hasMoreSearchResults : hasMoreEmails}
+            onLoadMore={handleLoadMore}
+            onCompose={handleCompose}
+            searchQuery={searchQuery}
+            onSearchChange={setSearchQuery}
+            isSearching={isSearching}
+            labelColors={labelColors}
+            onThreadAction={handleThreadAction}
+            folders={foldersByAccount[getThreadAccountEmail(selectedEmailId)]}
+          />
+        )}
       </div>
 
       {/* Email Content - Right Side */}
@@ -725,7 +1178,7 @@ export default function EmailInterface({
         <EmailContent
           email={selectedEmail}
           isLoading={isLoadingContent}
-          userEmail={userEmail}
+          userEmail={getThreadAccountEmail(selectedEmailId)}
         />
       </div>
     </div>
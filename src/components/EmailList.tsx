@@ -1,5 +1,15 @@
 import React, { useEffect, useRef, useCallback } from "react";
+import { toast } from "sonner";
 import { EmailThread } from "../services/email";
+import { getLabelTextColor } from "../lib/label-colors";
+import {
+  INBOX_FOLDER_ID,
+  MailFolder,
+  ThreadAction,
+  ThreadActionResult,
+  ThreadActionType,
+  removesFromInbox,
+} from "../lib/thread-actions";
 
 interface EmailListProps {
   emails: EmailThread[];
@@ -10,8 +20,70 @@ interface EmailListProps {
   hasMoreEmails?: boolean;
   onLoadMore?: () => void;
   onCompose?: () => void;
+  searchQuery?: string;
+  onSearchChange?: (query: string) => void;
+  isSearching?: boolean;
+  labelColors?: Record<string, string>; // Custom label name -> hex colour
+  // Resolves to null when the action failed and was rolled back
+  onThreadAction?: (
+    threadId: string,
+    action: ThreadAction,
+  ) => Promise<ThreadActionResult | null>;
+  folders?: MailFolder[]; // Move targets for the selected thread's account
 }
 
+const ACTION_MESSAGES: Record<ThreadActionType, string> = {
+  archive: "Archived",
+  unarchive: "Moved to inbox",
+  trash: "Moved to trash",
+  untrash: "Restored from trash",
+  deleteForever: "Deleted forever",
+  star: "Starred",
+  unstar: "Unstarred",
+  markRead: "Marked as read",
+  markUnread: "Marked as unread",
+  snooze: "Snoozed",
+  unsnooze: "Unsnoozed",
+  move: "Moved",
+};
+
+const SHORTCUTS_HELP =
+  "Shortcuts: j/k next/previous, e archive, # trash, s star, Shift+U unread, Shift+I read, b snooze, v move, z undo";
+
+// Snooze presets, as the time the thread comes back
+const SNOOZE_OPTIONS: { label: string; until: () => Date }[] = [
+  {
+    label: "Later today",
+    until: () => new Date(Date.now() + 3 * 60 * 60 * 1000),
+  },
+  {
+    label: "Tomorrow",
+    until: () => {
+      const date = new Date();
+      date.setDate(date.getDate() + 1);
+      date.setHours(8, 0, 0, 0);
+      return date;
+    },
+  },
+  {
+    label: "Next week",
+    until: () => {
+      const date = new Date();
+      date.setDate(date.getDate() + ((8 - date.getDay()) % 7 || 7));
+      date.setHours(8, 0, 0, 0);
+      return date;
+    },
+  },
+];
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+const toolbarButtonClassName =
+  "rounded px-2 py-1 text-xs text-gray-600 hover:bg-gray-100 disabled:opacity-50 dark:text-gray-400 dark:hover:bg-gray-700";
+
 export default function EmailList({
   emails,
   selectedEmailId,
@@ -21,8 +93,18 @@ export default function EmailList({
   hasMoreEmails = false,
   onLoadMore,
   onCompose,
+  searchQuery = "",
+  onSearchChange,
+  isSearching = false,
+  labelColors = {},
+  onThreadAction,
+  folders = [],
 }: EmailListProps) {
   const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const moveSelectRef = useRef<HTMLSelectElement>(null);
+  const lastUndoRef = useRef<{ threadId: string; action: ThreadAction } | null>(
+    null,
+  );
   const loadMoreTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const autoLoadIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -132,6 +214,101 @@ export default function EmailList({
     };
   }, []);
 
+  const selectedEmail = emails.find((email) => email.id === selectedEmailId);
+
+  const undoLastAction = async () => {
+    const last = lastUndoRef.current;
+    lastUndoRef.current = null;
+    if (!last || !onThreadAction) return;
+    const result = await onThreadAction(last.threadId, last.action);
+    if (result) toast("Undone");
+  };
+
+  const runThreadAction = async (action: ThreadAction) => {
+    if (!selectedEmailId || !onThreadAction) return;
+
+    // Select the next thread before this one leaves the list
+    const index = emails.findIndex((email) => email.id === selectedEmailId);
+    const next = emails[index + 1] ?? emails[index - 1];
+    const result = await onThreadAction(selectedEmailId, action);
+    if (!result) return;
+    if (next && removesFromInbox(action)) onEmailSelect(next.id);
+
+    lastUndoRef.current = result.undo
+      ? { threadId: result.threadId, action: result.undo }
+      : null;
+    toast(
+      ACTION_MESSAGES[action.type],
+      result.undo
+        ? { action: { label: "Undo", onClick: () => undoLastAction() } }
+        : undefined,
+    );
+  };
+
+  const handleDeleteForever = () => {
+    if (
+      window.confirm("Delete this conversation forever? This can't be undone.")
+    ) {
+      runThreadAction({ type: "deleteForever" });
+    }
+  };
+
+  // Gmail-style keyboard shortcuts, ignored while typing
+  useEffect(() => {
+    if (!onThreadAction) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.metaKey || e.ctrlKey || e.altKey || isTypingTarget(e.target)) {
+        return;
+      }
+
+      const index = emails.findIndex((email) => email.id === selectedEmailId);
+      switch (e.key) {
+        case "j":
+          if (emails[index + 1]) onEmailSelect(emails[index + 1].id);
+          break;
+        case "k":
+          if (index > 0) onEmailSelect(emails[index - 1].id);
+          break;
+        case "z":
+          undoLastAction();
+          break;
+        case "e":
+          runThreadAction({ type: "archive" });
+          break;
+        case "#":
+          runThreadAction({ type: "trash" });
+          break;
+        case "s":
+          runThreadAction({
+            type: selectedEmail?.isStarred ? "unstar" : "star",
+          });
+          break;
+        case "U":
+          runThreadAction({ type: "markUnread" });
+          break;
+        case "I":
+          runThreadAction({ type: "markRead" });
+          break;
+        case "b":
+          runThreadAction({
+            type: "snooze",
+            snoozeUntil: SNOOZE_OPTIONS[1].until(),
+          });
+          break;
+        case "v":
+          moveSelectRef.current?.focus();
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
   const formatTime = (date: Date) => {
     const now = new Date();
     const diffInHours = (now.getTime() - date.getTime()) / (1000 * 60 * 60);
@@ -158,10 +335,17 @@ export default function EmailList({
       .substring(0, 2);
   };
 
-  const getSenderIcon = (sender: string, isImportant: boolean) => {
+  const getSenderIcon = (
+    sender: string,
+    isImportant: boolean,
+    importanceReasons: string[] = [],
+  ) => {
     if (isImportant) {
       return (
-        <div className="flex h-8 w-8 items-center justify-center rounded-full bg-red-100 text-xs font-medium text-red-600 dark:bg-red-900 dark:text-red-200">
+        <div
+          title={importanceReasons.join("\n") || undefined}
+          className="flex h-8 w-8 items-center justify-center rounded-full bg-red-100 text-xs font-medium text-red-600 dark:bg-red-900 dark:text-red-200"
+        >
           <svg className="h-4 w-4" fill="currentColor" viewBox="0 0 20 20">
             <path
               fillRule="evenodd"
@@ -235,7 +419,13 @@ export default function EmailList({
           <div className="flex-1">
             <input
               type="text"
-              placeholder="Search in important..."
+              value={searchQuery}
+              onChange={(e) => onSearchChange?.(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Escape") onSearchChange?.("");
+              }}
+              placeholder="Search mail..."
+              title="Supports from:, to:, subject:, label:, has:attachment, is:unread, before:YYYY/MM/DD and after:YYYY/MM/DD"
               className="w-full rounded-lg border border-gray-300 bg-gray-50 px-3 py-2 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500 focus:outline-none dark:border-gray-600 dark:bg-gray-700 dark:text-white dark:placeholder-gray-400"
             />
           </div>
@@ -260,6 +450,25 @@ export default function EmailList({
           </button>
         </div>
 
+        {/* Search status */}
+        {searchQuery.trim() && (
+          <div className="mt-3 flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+            <span>
+              {isSearching
+                ? "Searching..."
+                : `${emails.length}${hasMoreEmails ? "+" : ""} ${
+                    emails.length === 1 ? "result" : "results"
+                  }`}
+            </span>
+            <button
+              onClick={() => onSearchChange?.("")}
+              className="rounded px-2 py-0.5 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              Clear search
+            </button>
+          </div>
+        )}
+
         {/* Tabs */}
         <div className="mt-3 flex space-x-1">
           {["All", "Important", "VIP", "Follow-Up"].map((tab) => (
@@ -275,6 +484,91 @@ export default function EmailList({
             </button>
           ))}
         </div>
+
+        {/* Thread actions */}
+        {onThreadAction && selectedEmail && (
+          <div
+            className="mt-3 flex flex-wrap items-center gap-1"
+            title={SHORTCUTS_HELP}
+          >
+            <button
+              onClick={() => runThreadAction({ type: "archive" })}
+              className={toolbarButtonClassName}
+            >
+              Archive
+            </button>
+            <button
+              onClick={() => runThreadAction({ type: "trash" })}
+              className={toolbarButtonClassName}
+            >
+              Trash
+            </button>
+            <button
+              onClick={handleDeleteForever}
+              className={toolbarButtonClassName}
+            >
+              Delete forever
+            </button>
+            <button
+              onClick={() =>
+                runThreadAction({
+                  type: selectedEmail.isStarred ? "unstar" : "star",
+                })
+              }
+              className={toolbarButtonClassName}
+            >
+              {selectedEmail.isStarred ? "Unstar" : "Star"}
+            </button>
+            <button
+              onClick={() =>
+                runThreadAction({
+                  type: selectedEmail.isRead ? "markUnread" : "markRead",
+                })
+              }
+              className={toolbarButtonClassName}
+            >
+              {selectedEmail.isRead ? "Mark unread" : "Mark read"}
+            </button>
+            <select
+              value=""
+              onChange={(e) => {
+                const option = SNOOZE_OPTIONS[Number(e.target.value)];
+                if (option) {
+                  runThreadAction({
+                    type: "snooze",
+                    snoozeUntil: option.until(),
+                  });
+                }
+              }}
+              className="rounded bg-transparent px-1 py-1 text-xs text-gray-600 dark:text-gray-400"
+            >
+              <option value="">Snooze...</option>
+              {SNOOZE_OPTIONS.map((option, index) => (
+                <option key={option.label} value={index}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <select
+              ref={moveSelectRef}
+              value=""
+              onChange={(e) => {
+                if (e.target.value) {
+                  runThreadAction({ type: "move", folderId: e.target.value });
+                }
+              }}
+              className="rounded bg-transparent px-1 py-1 text-xs text-gray-600 dark:text-gray-400"
+            >
+              <option value="">Move to...</option>
+              <option value={INBOX_FOLDER_ID}>Inbox</option>
+              {folders.map((folder) => (
+                <option key={folder.id} value={folder.id}>
+                  {folder.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
       </div>
 
       {/* Email List */}
@@ -295,7 +589,11 @@ export default function EmailList({
                   d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2.586a1 1 0 00-.707.293l-2.414 2.414a1 1 0 01-.707.293h-3.172a1 1 0 01-.707-.293l-2.414-2.414A1 1 0 006.586 13H4"
                 />
               </svg>
-              <p className="mt-2">No emails found</p>
+              <p className="mt-2">
+                {searchQuery.trim()
+                  ? `No results for "${searchQuery.trim()}"`
+                  : "No emails found"}
+              </p>
             </div>
           </div>
         ) : (
@@ -311,7 +609,11 @@ export default function EmailList({
                 } ${!email.isRead ? "font-semibold" : ""}`}
               >
                 <div className="flex items-start space-x-3">
-                  {getSenderIcon(email.sender, email.isImportant)}
+                  {getSenderIcon(
+                    email.sender,
+                    email.isImportant,
+                    email.importanceReasons,
+                  )}
 
                   {/* Unread marker */}
                   {!email.isRead && (
@@ -326,6 +628,15 @@ export default function EmailList({
                         >
                           {email.sender}
                         </span>
+                        {email.isStarred && (
+                          <svg
+                            className="h-4 w-4 text-yellow-400"
+                            fill="currentColor"
+                            viewBox="0 0 20 20"
+                          >
+                            <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+                          </svg>
+                        )}
                         {email.hasAttachments && (
                           <svg
                             className="h-4 w-4 text-gray-400"
@@ -357,12 +668,29 @@ export default function EmailList({
                         {email.preview}
                       </p>
 
+                      {/* Owning account, shown in the unified inbox */}
+                      {email.accountEmail && (
+                        <p className="mt-1 truncate text-xs text-blue-600 dark:text-blue-400">
+                          {email.accountEmail}
+                        </p>
+                      )}
+
                       {/* Labels */}
                       {email.labels && email.labels.length > 0 && (
                         <div className="mt-2 flex flex-wrap gap-1">
                           {email.labels.map((label, index) => (
                             <span
                               key={index}
+                              style={
+                                labelColors[label]
+                                  ? {
+                                      backgroundColor: labelColors[label],
+                                      color: getLabelTextColor(
+                                        labelColors[label],
+                                      ),
+                                    }
+                                  : undefined
+                              }
                               className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${
                                 label === "important"
                                   ? "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200"
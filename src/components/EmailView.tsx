@@ -0,0 +1,185 @@
+import React, { useEffect, useRef, useState } from "react";
+import { ImageOff, ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import type { MessageView } from "@/services/email-view";
+import type { EmailViewMessage, TrackerReason } from "@/lib/email-view";
+
+interface EmailViewProps {
+  userEmail: string;
+  messageId: string;
+}
+
+const TRACKER_LABELS: Record<TrackerReason, string> = {
+  "known-tracker": "Tracking service",
+  "tracking-pixel": "Tracking pixel",
+  "tracking-url": "Tracking link",
+};
+
+// Until the frame reports its content height
+const INITIAL_HEIGHT = 80;
+
+/**
+ * A message in its sandboxed frame, with remote content blocked unless the
+ * sender is allowed, and a report of what was blocked
+ */
+export default function EmailView({ userEmail, messageId }: EmailViewProps) {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [view, setView] = useState<MessageView | null>(null);
+  const [loadRemote, setLoadRemote] = useState(false);
+  const [height, setHeight] = useState(INITIAL_HEIGHT);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    setLoadRemote(false);
+  }, [userEmail, messageId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    window.emailView
+      .getMessageView(userEmail, messageId, loadRemote)
+      .then((result) => !cancelled && setView(result))
+      .catch((error) => console.error("Error loading message view:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [userEmail, messageId, loadRemote, reloadKey]);
+
+  // Only this frame's messages count; its origin is opaque, so check the
+  // window they come from
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent<EmailViewMessage>) => {
+      if (event.source !== iframeRef.current?.contentWindow) return;
+      const data = event.data;
+      if (data?.type === "email-view:height") {
+        setHeight(Math.max(Number(data.height) || 0, 24));
+      } else if (data?.type === "email-view:link") {
+        if (/^(https?|mailto):/i.test(data.href)) {
+          window.electronWindow.openExternal(data.href);
+        }
+      }
+    };
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, []);
+
+  const handleSenderRemoteContent = async (allowed: boolean) => {
+    if (!view) return;
+    try {
+      await window.emailView.setSenderRemoteContent(
+        userEmail,
+        view.senderEmail,
+        allowed,
+      );
+      setLoadRemote(false);
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      console.error("Error updating remote content setting:", error);
+      toast.error("Failed to update image settings");
+    }
+  };
+
+  if (!view) {
+    return <div style={{ height: INITIAL_HEIGHT }} />;
+  }
+
+  const blocked = view.report.resources.filter((r) => r.blocked);
+  const trackers = view.report.resources.filter((r) => r.tracker);
+
+  return (
+    <div>
+      {(blocked.length > 0 || view.senderAllowed) && (
+        <div className="mb-3 flex flex-wrap items-center gap-2 rounded-lg border border-gray-200 bg-gray-50 px-3 py-2 text-xs text-gray-600 dark:border-gray-700 dark:bg-gray-900 dark:text-gray-300">
+          {!view.report.remoteLoaded ? (
+            <>
+              <ImageOff className="h-4 w-4 shrink-0" />
+              <span className="mr-auto">
+                Remote images are hidden to protect your privacy.
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setLoadRemote(true)}
+              >
+                Load images
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleSenderRemoteContent(true)}
+              >
+                Always from {view.senderEmail}
+              </Button>
+            </>
+          ) : (
+            <>
+              <span className="mr-auto">
+                {view.senderAllowed
+                  ? `Images from ${view.senderEmail} are always shown.`
+                  : "Images are shown for this message."}
+              </span>
+              {view.senderAllowed && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleSenderRemoteContent(false)}
+                >
+                  Stop showing
+                </Button>
+              )}
+            </>
+          )}
+
+          {blocked.length > 0 && (
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="ghost" size="sm" className="gap-1">
+                  <ShieldCheck className="h-4 w-4 text-green-600" />
+                  {trackers.length > 0
+                    ? `${trackers.length} tracker${trackers.length === 1 ? "" : "s"} blocked`
+                    : `${blocked.length} blocked`}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-96" align="end">
+                <div className="mb-2 text-sm font-medium">
+                  Blocked in this message
+                </div>
+                <ul className="max-h-64 space-y-2 overflow-y-auto text-xs">
+                  {blocked.map((resource) => (
+                    <li key={resource.url}>
+                      <div className="flex justify-between gap-2">
+                        <span className="truncate font-medium">
+                          {resource.host}
+                        </span>
+                        <span className="shrink-0 text-gray-500">
+                          {resource.tracker
+                            ? TRACKER_LABELS[resource.tracker]
+                            : `Remote ${resource.kind}`}
+                        </span>
+                      </div>
+                      <div className="truncate text-gray-400">
+                        {resource.url}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </PopoverContent>
+            </Popover>
+          )}
+        </div>
+      )}
+
+      {/* No allow-same-origin: the frame can't reach the app, and its
+          scripts are limited to the view's own by its content policy */}
+      <iframe
+        ref={iframeRef}
+        src={view.url}
+        title="Message"
+        sandbox="allow-scripts"
+        className="w-full rounded-md border-0 bg-white"
+        style={{ height }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DEFAULT_IMPORTANCE_WEIGHTS,
+  type ImportanceWeights,
+} from "@/lib/importance";
+
+interface ImportanceSettingsProps {
+  userEmail: string;
+}
+
+const WEIGHT_LABELS: Record<
+  Exclude<keyof ImportanceWeights, "threshold">,
+  string
+> = {
+  participated: "You replied in the thread",
+  repliedToSender: "You've emailed the sender before",
+  vipContact: "Sender is a VIP contact",
+  vipDomain: "Sender is from a VIP domain",
+  smartGroup: "Sender is in your group",
+  importantLabel: "Thread has one of your important labels",
+  frequentSender: "You hear from the sender regularly",
+  bulkSender: "Sender sends a lot of mail",
+};
+
+export default function ImportanceSettings({
+  userEmail,
+}: ImportanceSettingsProps) {
+  const [weights, setWeights] = useState<ImportanceWeights>(
+    DEFAULT_IMPORTANCE_WEIGHTS,
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadWeights();
+  }, [userEmail]);
+
+  const loadWeights = async () => {
+    try {
+      setWeights(await window.importance.getWeights(userEmail));
+    } catch (error) {
+      console.error("Error loading importance weights:", error);
+      toast.error("Failed to load importance settings");
+    }
+  };
+
+  const updateWeight = (key: keyof ImportanceWeights, value: string) => {
+    setWeights((prev) => ({ ...prev, [key]: Number(value) }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSaving(true);
+      setWeights(await window.importance.setWeights(userEmail, weights));
+      toast.success("Importance settings saved, rescoring your inbox");
+    } catch (error) {
+      console.error("Error saving importance weights:", error);
+      toast.error("Failed to save importance settings");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <section>
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+        Importance
+      </h2>
+      <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+        Each signal a thread has adds its weight to the thread&apos;s score.
+        Threads that reach the threshold are marked important. Weights range
+        from -10 to 10.
+      </p>
+
+      <form
+        onSubmit={handleSave}
+        className="mt-4 space-y-3 rounded-lg border border-gray-200 p-4 dark:border-gray-700"
+      >
+        {(Object.keys(WEIGHT_LABELS) as (keyof typeof WEIGHT_LABELS)[]).map(
+          (key) => (
+            <div key={key} className="flex items-center justify-between">
+              <label
+                htmlFor={`importance-${key}`}
+                className="text-sm text-gray-700 dark:text-gray-300"
+              >
+                {WEIGHT_LABELS[key]}
+              </label>
+              <Input
+                id={`importance-${key}`}
+                type="number"
+                min={-10}
+                max={10}
+                step={0.5}
+                value={weights[key]}
+                onChange={(e) => updateWeight(key, e.target.value)}
+                className="w-24"
+              />
+            </div>
+          ),
+        )}
+        <div className="flex items-center justify-between border-t border-gray-200 pt-3 dark:border-gray-700">
+          <label
+            htmlFor="importance-threshold"
+            className="text-sm font-medium text-gray-900 dark:text-white"
+          >
+            Important at a score of
+          </label>
+          <Input
+            id="importance-threshold"
+            type="number"
+            min={0}
+            max={10}
+            step={0.5}
+            value={weights.threshold}
+            onChange={(e) => updateWeight("threshold", e.target.value)}
+            className="w-24"
+          />
+        </div>
+
+        <div className="flex space-x-2 pt-2">
+          <Button type="submit" size="sm" disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setWeights(DEFAULT_IMPORTANCE_WEIGHTS)}
+          >
+            Reset to defaults
+          </Button>
+        </div>
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,219 @@
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import type { CustomLabelSettings } from "@/services/labels";
+import { LABEL_COLORS, getLabelTextColor } from "@/lib/label-colors";
+
+interface LabelSettingsProps {
+  userEmail: string;
+}
+
+interface LabelForm {
+  id?: string;
+  name: string;
+  color: string;
+  description: string;
+  examples: string; // One example per blank-line separated block
+}
+
+const EMPTY_FORM: LabelForm = {
+  name: "",
+  color: LABEL_COLORS[0].hex,
+  description: "",
+  examples: "",
+};
+
+const splitExamples = (examples: string) =>
+  examples
+    .split(/\n\s*\n/)
+    .map((e) => e.trim())
+    .filter(Boolean);
+
+export default function LabelSettings({ userEmail }: LabelSettingsProps) {
+  const [labels, setLabels] = useState<CustomLabelSettings[]>([]);
+  const [form, setForm] = useState<LabelForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setForm(EMPTY_FORM);
+    loadLabels();
+  }, [userEmail]);
+
+  const loadLabels = async () => {
+    try {
+      setLabels(await window.labels.getCustomLabels(userEmail));
+    } catch (error) {
+      console.error("Error loading custom labels:", error);
+      toast.error("Failed to load labels");
+    }
+  };
+
+  const handleEditLabel = (label: CustomLabelSettings) => {
+    setForm({
+      id: label.id,
+      name: label.name,
+      color: label.color,
+      description: label.description,
+      examples: label.examples.join("\n\n"),
+    });
+  };
+
+  const handleSaveLabel = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSaving(true);
+      const input = {
+        color: form.color,
+        description: form.description,
+        examples: splitExamples(form.examples),
+      };
+      if (form.id) {
+        await window.labels.updateCustomLabel(userEmail, form.id, input);
+      } else {
+        await window.labels.createCustomLabel(userEmail, {
+          ...input,
+          name: form.name,
+        });
+      }
+      setForm(EMPTY_FORM);
+      await loadLabels();
+      toast.success("Label saved");
+    } catch (error) {
+      console.error("Error saving label:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save label",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteLabel = async (label: CustomLabelSettings) => {
+    try {
+      await window.labels.deleteCustomLabel(userEmail, label.id);
+      if (form.id === label.id) setForm(EMPTY_FORM);
+      await loadLabels();
+    } catch (error) {
+      console.error("Error deleting label:", error);
+      toast.error("Failed to delete label");
+    }
+  };
+
+  return (
+    <section>
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+        Labels
+      </h2>
+      <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+        Your own labels are applied by the labelling model alongside the
+        built-in ones, and added to {userEmail} as labels or categories.
+      </p>
+
+      <div className="mt-4 space-y-2">
+        {labels.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No custom labels yet.
+          </p>
+        )}
+        {labels.map((label) => (
+          <div
+            key={label.id}
+            className="flex items-center justify-between rounded-lg border border-gray-200 px-4 py-3 dark:border-gray-700"
+          >
+            <div className="min-w-0">
+              <span
+                className="inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium"
+                style={{
+                  backgroundColor: label.color,
+                  color: getLabelTextColor(label.color),
+                }}
+              >
+                {label.name}
+              </span>
+              <div className="mt-1 truncate text-xs text-gray-500 dark:text-gray-400">
+                {label.description}
+                {label.examples.length > 0 &&
+                  ` · ${label.examples.length} example${label.examples.length !== 1 ? "s" : ""}`}
+              </div>
+            </div>
+            <div className="flex space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleEditLabel(label)}
+              >
+                Edit
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleDeleteLabel(label)}
+              >
+                Delete
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <form
+        onSubmit={handleSaveLabel}
+        className="mt-4 space-y-3 rounded-lg border border-gray-200 p-4 dark:border-gray-700"
+      >
+        <div className="text-sm font-medium text-gray-900 dark:text-white">
+          {form.id ? "Edit label" : "Add label"}
+        </div>
+        <Input
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          placeholder="Name, e.g. travel"
+          disabled={!!form.id}
+        />
+        <div className="flex flex-wrap gap-2">
+          {LABEL_COLORS.map((color) => (
+            <button
+              key={color.hex}
+              type="button"
+              title={color.name}
+              onClick={() => setForm({ ...form, color: color.hex })}
+              className={`h-6 w-6 rounded-full border-2 ${
+                form.color === color.hex
+                  ? "border-gray-900 dark:border-white"
+                  : "border-transparent"
+              }`}
+              style={{ backgroundColor: color.hex }}
+            />
+          ))}
+        </div>
+        <Input
+          value={form.description}
+          onChange={(e) => setForm({ ...form, description: e.target.value })}
+          placeholder="What belongs here, e.g. flight and hotel bookings"
+        />
+        <Textarea
+          value={form.examples}
+          onChange={(e) => setForm({ ...form, examples: e.target.value })}
+          placeholder="Optional example emails, separated by a blank line"
+          rows={4}
+        />
+        <div className="flex space-x-2">
+          <Button type="submit" size="sm" disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save label"}
+          </Button>
+          {form.id && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setForm(EMPTY_FORM)}
+            >
+              Cancel
+            </Button>
+          )}
+        </div>
+      </form>
+    </section>
+  );
+}
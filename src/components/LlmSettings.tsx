@@ -0,0 +1,313 @@
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type {
+  LlmFeatureModelSettings,
+  LlmProviderSettings,
+  SaveLlmProviderInput,
+} from "@/services/llm-settings";
+import type { LlmFeature, LlmProviderKind } from "@/lib/models";
+
+const FEATURE_LABELS: Record<LlmFeature, string> = {
+  labelling: "Labelling",
+  drafting: "Drafting",
+  summarising: "Summarising",
+};
+
+const KIND_LABELS: Record<LlmProviderKind, string> = {
+  "openai-compatible": "OpenAI-compatible API",
+  local: "Local server (Ollama / llama.cpp)",
+  offline: "Offline stub",
+};
+
+const EMPTY_FORM: SaveLlmProviderInput = {
+  name: "",
+  kind: "openai-compatible",
+  baseUrl: "",
+  apiKey: "",
+};
+
+const selectClassName =
+  "h-9 w-full rounded-md border border-gray-300 bg-transparent px-3 text-sm dark:border-gray-600 dark:bg-gray-800";
+
+export default function LlmSettings() {
+  const [providers, setProviders] = useState<LlmProviderSettings[]>([]);
+  const [featureModels, setFeatureModels] = useState<LlmFeatureModelSettings[]>(
+    [],
+  );
+  const [form, setForm] = useState<SaveLlmProviderInput>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const [loadedProviders, loadedFeatureModels] = await Promise.all([
+        window.llm.getProviders(),
+        window.llm.getFeatureModels(),
+      ]);
+      setProviders(loadedProviders);
+      setFeatureModels(loadedFeatureModels);
+    } catch (error) {
+      console.error("Error loading LLM settings:", error);
+      toast.error("Failed to load AI provider settings");
+    }
+  };
+
+  const handleEditProvider = (provider: LlmProviderSettings) => {
+    // The stored key is never sent back; leaving the field empty keeps it
+    setForm({
+      id: provider.id,
+      name: provider.name,
+      kind: provider.kind,
+      baseUrl: provider.baseUrl || "",
+      apiKey: undefined,
+    });
+  };
+
+  const handleSaveProvider = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSaving(true);
+      await window.llm.saveProvider({
+        ...form,
+        apiKey: form.id && !form.apiKey ? undefined : form.apiKey,
+      });
+      setForm(EMPTY_FORM);
+      await loadSettings();
+      toast.success("Provider saved");
+    } catch (error) {
+      console.error("Error saving provider:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save provider",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteProvider = async (provider: LlmProviderSettings) => {
+    try {
+      await window.llm.deleteProvider(provider.id);
+      if (form.id === provider.id) setForm(EMPTY_FORM);
+      await loadSettings();
+    } catch (error) {
+      console.error("Error deleting provider:", error);
+      toast.error("Failed to delete provider");
+    }
+  };
+
+  const handleFeatureModelChange = (
+    feature: LlmFeature,
+    providerId: string | null,
+    model: string,
+  ) => {
+    setFeatureModels((prev) =>
+      prev.map((fm) =>
+        fm.feature === feature ? { ...fm, providerId, model } : fm,
+      ),
+    );
+  };
+
+  const handleSaveFeatureModel = async (
+    featureModel: LlmFeatureModelSettings,
+  ) => {
+    try {
+      await window.llm.setFeatureModel(
+        featureModel.feature,
+        featureModel.providerId,
+        featureModel.model,
+      );
+      toast.success(`${FEATURE_LABELS[featureModel.feature]} model saved`);
+    } catch (error) {
+      console.error("Error saving feature model:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save model",
+      );
+      await loadSettings();
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Providers */}
+      <section>
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+          AI providers
+        </h2>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          Email content is only sent to the providers configured here. Features
+          without a provider use an offline stub.
+        </p>
+
+        <div className="mt-4 space-y-2">
+          {providers.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No providers configured yet.
+            </p>
+          )}
+          {providers.map((provider) => (
+            <div
+              key={provider.id}
+              className="flex items-center justify-between rounded-lg border border-gray-200 px-4 py-3 dark:border-gray-700"
+            >
+              <div className="min-w-0">
+                <div className="text-sm font-medium text-gray-900 dark:text-white">
+                  {provider.name}
+                </div>
+                <div className="truncate text-xs text-gray-500 dark:text-gray-400">
+                  {KIND_LABELS[provider.kind]}
+                  {provider.baseUrl && ` · ${provider.baseUrl}`}
+                  {provider.hasApiKey && " · API key stored"}
+                </div>
+              </div>
+              <div className="flex space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleEditProvider(provider)}
+                >
+                  Edit
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleDeleteProvider(provider)}
+                >
+                  Delete
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <form
+          onSubmit={handleSaveProvider}
+          className="mt-4 space-y-3 rounded-lg border border-gray-200 p-4 dark:border-gray-700"
+        >
+          <div className="text-sm font-medium text-gray-900 dark:text-white">
+            {form.id ? "Edit provider" : "Add provider"}
+          </div>
+          <Input
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="Name"
+          />
+          <select
+            value={form.kind}
+            onChange={(e) =>
+              setForm({ ...form, kind: e.target.value as LlmProviderKind })
+            }
+            className={selectClassName}
+          >
+            {Object.entries(KIND_LABELS).map(([kind, label]) => (
+              <option key={kind} value={kind}>
+                {label}
+              </option>
+            ))}
+          </select>
+          {form.kind !== "offline" && (
+            <Input
+              value={form.baseUrl || ""}
+              onChange={(e) => setForm({ ...form, baseUrl: e.target.value })}
+              placeholder={
+                form.kind === "local"
+                  ? "http://localhost:11434/v1"
+                  : "https://api.example.com/v1"
+              }
+            />
+          )}
+          {form.kind === "openai-compatible" && (
+            <Input
+              type="password"
+              value={form.apiKey || ""}
+              onChange={(e) => setForm({ ...form, apiKey: e.target.value })}
+              placeholder={
+                form.id ? "Leave empty to keep the stored key" : "API key"
+              }
+            />
+          )}
+          <div className="flex space-x-2">
+            <Button type="submit" size="sm" disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save provider"}
+            </Button>
+            {form.id && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setForm(EMPTY_FORM)}
+              >
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+      </section>
+
+      {/* Per-feature models */}
+      <section>
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Models
+        </h2>
+        <div className="mt-4 space-y-3">
+          {featureModels.map((featureModel) => {
+            const provider = providers.find(
+              (p) => p.id === featureModel.providerId,
+            );
+            return (
+              <div
+                key={featureModel.feature}
+                className="grid grid-cols-[8rem_1fr_1fr_auto] items-center gap-2"
+              >
+                <span className="text-sm font-medium text-gray-900 dark:text-white">
+                  {FEATURE_LABELS[featureModel.feature]}
+                </span>
+                <select
+                  value={featureModel.providerId || ""}
+                  onChange={(e) =>
+                    handleFeatureModelChange(
+                      featureModel.feature,
+                      e.target.value || null,
+                      featureModel.model,
+                    )
+                  }
+                  className={selectClassName}
+                >
+                  <option value="">Offline stub</option>
+                  {providers.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name}
+                    </option>
+                  ))}
+                </select>
+                <Input
+                  value={featureModel.model}
+                  onChange={(e) =>
+                    handleFeatureModelChange(
+                      featureModel.feature,
+                      featureModel.providerId,
+                      e.target.value,
+                    )
+                  }
+                  placeholder="Model name"
+                  disabled={!provider || provider.kind === "offline"}
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleSaveFeatureModel(featureModel)}
+                >
+                  Save
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import AttachmentPreview, {
+  formatAttachmentSize,
+  saveAttachment,
+} from "./AttachmentPreview";
+import type { EmailAttachment } from "../services/email";
+import type { AttachmentDetails } from "@/services/attachments";
+import { getAttachmentPreviewKind } from "@/lib/attachments";
+
+interface MessageAttachmentsProps {
+  userEmail: string;
+  messageId: string;
+  attachments: EmailAttachment[];
+}
+
+export default function MessageAttachments({
+  userEmail,
+  messageId,
+  attachments,
+}: MessageAttachmentsProps) {
+  const [previewAttachment, setPreviewAttachment] =
+    useState<AttachmentDetails | null>(null);
+
+  // Attachments are kept in a local cache once opened, so these only
+  // download them the first time
+  const getAttachmentDetails = async (attachmentId: string) => {
+    try {
+      return await window.attachments.getAttachment(
+        userEmail,
+        messageId,
+        attachmentId,
+      );
+    } catch (error) {
+      console.error("[MessageAttachments] Error finding attachment:", error);
+      toast.error("This attachment isn't available yet, try again shortly");
+      return null;
+    }
+  };
+
+  const handlePreviewAttachment = async (attachmentId: string) => {
+    const details = await getAttachmentDetails(attachmentId);
+    if (details) setPreviewAttachment(details);
+  };
+
+  const handleDownloadAttachment = async (attachmentId: string) => {
+    const details = await getAttachmentDetails(attachmentId);
+    if (details) await saveAttachment(userEmail, details);
+  };
+
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="mt-4 border-t border-gray-100 pt-4 dark:border-gray-700">
+      <h4 className="mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+        Attachments ({attachments.length})
+      </h4>
+      <div className="space-y-2">
+        {attachments.map((attachment) => (
+          <div
+            key={attachment.id}
+            className="flex items-center gap-3 rounded-lg bg-gray-50 p-2 dark:bg-gray-900"
+          >
+            <div className="min-w-0 flex-1">
+              <div className="truncate text-sm font-medium text-gray-900 dark:text-white">
+                {attachment.filename}
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                {formatAttachmentSize(attachment.size || 0)}
+              </div>
+            </div>
+            {getAttachmentPreviewKind(
+              attachment.mimeType || "",
+              attachment.filename || "",
+            ) && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handlePreviewAttachment(attachment.id);
+                }}
+              >
+                Preview
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={(e) => {
+                e.stopPropagation();
+                handleDownloadAttachment(attachment.id);
+              }}
+            >
+              Download
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <AttachmentPreview
+        userEmail={userEmail}
+        attachment={previewAttachment}
+        onClose={() => setPreviewAttachment(null)}
+      />
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from "react";
 import { motion } from "framer-motion";
 import "./style.css";
-import { AVAILABLE_LABELS, AvailableLabel } from "./types";
+import { useLabelOptions } from "./useLabelOptions";
 
 interface OnboardingData {
   fullName: string;
@@ -18,6 +18,7 @@ interface OnboardingData {
   importantLabels: string[];
   securityLabels: string[];
   spamLabels: string[];
+  userEmail?: string;
 }
 
 interface Step6Props {
@@ -33,6 +34,7 @@ export default function Step6ImportantLabels({
   onContinue,
   onBack,
 }: Step6Props) {
+  const labelOptions = useLabelOptions(data.userEmail);
   const [selectedLabels, setSelectedLabels] = useState<Set<string>>(
     new Set(
       data.importantLabels?.length > 0
@@ -41,7 +43,7 @@ export default function Step6ImportantLabels({
     ),
   );
 
-  const handleLabelToggle = (label: AvailableLabel) => {
+  const handleLabelToggle = (label: string) => {
     const newSelected = new Set(selectedLabels);
     if (newSelected.has(label)) {
       newSelected.delete(label);
@@ -75,18 +77,6 @@ export default function Step6ImportantLabels({
     return () => clearTimeout(timer);
   }, [selectedLabels, updateData]);
 
-  const labelDescriptions: Record<AvailableLabel, string> = {
-    marketing: "Promotional content, sales, newsletters",
-    credentials: "Password resets, 2FA codes, login alerts",
-    social: "Social media notifications, friend requests",
-    news: "Press releases, industry updates, announcements",
-    meeting: "Calendar invites, meeting requests",
-    pitch: "Business proposals, partnership offers",
-    github: "GitHub notifications, PRs, commits",
-    invoice: "Bills, payments, receipts",
-    important: "High-priority emails (default catch-all)",
-  };
-
   return (
     <motion.div
       className="space-y-8"
@@ -142,9 +132,9 @@ export default function Step6ImportantLabels({
         animate={{ opacity: 1, y: 0 }}
         transition={{ duration: 0.5, delay: 0.3 }}
       >
-        {AVAILABLE_LABELS.map((label, index) => (
+        {labelOptions.map((label, index) => (
           <motion.div
-            key={label}
+            key={label.name}
             initial={{ opacity: 0, y: 15 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.4, delay: 0.4 + index * 0.1 }}
@@ -153,18 +143,16 @@ export default function Step6ImportantLabels({
             <label className="flex cursor-pointer items-center space-x-3 rounded-lg border border-gray-200 p-4 transition-colors hover:bg-gray-50">
               <input
                 type="checkbox"
-                checked={selectedLabels.has(label)}
-                onChange={() => handleLabelToggle(label)}
+                checked={selectedLabels.has(label.name)}
+                onChange={() => handleLabelToggle(label.name)}
                 className="h-5 w-5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                 tabIndex={index + 2}
               />
               <div className="flex-1">
                 <div className="font-medium text-gray-900 capitalize">
-                  {label}
-                </div>
-                <div className="text-sm text-gray-500">
-                  {labelDescriptions[label]}
+                  {label.name}
                 </div>
+                <div className="text-sm text-gray-500">{label.description}</div>
               </div>
             </label>
           </motion.div>
@@ -180,7 +168,7 @@ export default function Step6ImportantLabels({
         <motion.button
           onClick={handleContinue}
           className="continue-button"
-          tabIndex={AVAILABLE_LABELS.length + 2}
+          tabIndex={labelOptions.length + 2}
           whileHover={{ scale: 1.05 }}
           whileTap={{ scale: 0.95 }}
           transition={{ duration: 0.2 }}
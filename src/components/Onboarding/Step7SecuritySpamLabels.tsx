@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from "react";
 import { motion } from "framer-motion";
 import "./style.css";
-import { AVAILABLE_LABELS, AvailableLabel } from "./types";
+import { useLabelOptions } from "./useLabelOptions";
 
 interface OnboardingData {
   fullName: string;
@@ -18,6 +18,7 @@ interface OnboardingData {
   importantLabels: string[];
   securityLabels: string[];
   spamLabels: string[];
+  userEmail?: string;
 }
 
 interface Step7Props {
@@ -33,6 +34,7 @@ export default function Step7SecuritySpamLabels({
   onContinue,
   onBack,
 }: Step7Props) {
+  const labelOptions = useLabelOptions(data.userEmail);
   const [securityLabels, setSecurityLabels] = useState<Set<string>>(
     new Set(
       data.securityLabels?.length > 0 ? data.securityLabels : ["credentials"],
@@ -44,7 +46,7 @@ export default function Step7SecuritySpamLabels({
     ),
   );
 
-  const handleSecurityLabelToggle = (label: AvailableLabel) => {
+  const handleSecurityLabelToggle = (label: string) => {
     const newSelected = new Set(securityLabels);
     if (newSelected.has(label)) {
       newSelected.delete(label);
@@ -54,7 +56,7 @@ export default function Step7SecuritySpamLabels({
     setSecurityLabels(newSelected);
   };
 
-  const handleSpamLabelToggle = (label: AvailableLabel) => {
+  const handleSpamLabelToggle = (label: string) => {
     const newSelected = new Set(spamLabels);
     if (newSelected.has(label)) {
       newSelected.delete(label);
@@ -94,18 +96,6 @@ export default function Step7SecuritySpamLabels({
     return () => clearTimeout(timer);
   }, [securityLabels, spamLabels, updateData]);
 
-  const labelDescriptions: Record<AvailableLabel, string> = {
-    marketing: "Promotional content, sales, newsletters",
-    credentials: "Password resets, 2FA codes, login alerts",
-    social: "Social media notifications, friend requests",
-    news: "Press releases, industry updates, announcements",
-    meeting: "Calendar invites, meeting requests",
-    pitch: "Business proposals, partnership offers",
-    github: "GitHub notifications, PRs, commits",
-    invoice: "Bills, payments, receipts",
-    important: "High-priority emails (default catch-all)",
-  };
-
   return (
     <motion.div
       className="space-y-8"
@@ -167,9 +157,9 @@ export default function Step7SecuritySpamLabels({
         <p className="mb-4 text-sm text-gray-600">
           Emails that should be monitored for security purposes:
         </p>
-        {AVAILABLE_LABELS.map((label, index) => (
+        {labelOptions.map((label, index) => (
           <motion.div
-            key={`security-${label}`}
+            key={`security-${label.name}`}
             initial={{ opacity: 0, y: 15 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.4, delay: 0.4 + index * 0.05 }}
@@ -178,18 +168,16 @@ export default function Step7SecuritySpamLabels({
             <label className="flex cursor-pointer items-center space-x-3 rounded-lg border border-gray-200 p-3 transition-colors hover:bg-gray-50">
               <input
                 type="checkbox"
-                checked={securityLabels.has(label)}
-                onChange={() => handleSecurityLabelToggle(label)}
+                checked={securityLabels.has(label.name)}
+                onChange={() => handleSecurityLabelToggle(label.name)}
                 className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                 tabIndex={index + 2}
               />
               <div className="flex-1">
                 <div className="font-medium text-gray-900 capitalize">
-                  {label}
-                </div>
-                <div className="text-sm text-gray-500">
-                  {labelDescriptions[label]}
+                  {label.name}
                 </div>
+                <div className="text-sm text-gray-500">{label.description}</div>
               </div>
             </label>
           </motion.div>
@@ -209,9 +197,9 @@ export default function Step7SecuritySpamLabels({
         <p className="mb-4 text-sm text-gray-600">
           Emails that should be filtered out as spam:
         </p>
-        {AVAILABLE_LABELS.map((label, index) => (
+        {labelOptions.map((label, index) => (
           <motion.div
-            key={`spam-${label}`}
+            key={`spam-${label.name}`}
             initial={{ opacity: 0, y: 15 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.4, delay: 0.6 + index * 0.05 }}
@@ -220,18 +208,16 @@ export default function Step7SecuritySpamLabels({
             <label className="flex cursor-pointer items-center space-x-3 rounded-lg border border-gray-200 p-3 transition-colors hover:bg-gray-50">
               <input
                 type="checkbox"
-                checked={spamLabels.has(label)}
-                onChange={() => handleSpamLabelToggle(label)}
+                checked={spamLabels.has(label.name)}
+                onChange={() => handleSpamLabelToggle(label.name)}
                 className="h-4 w-4 rounded border-gray-300 text-red-600 focus:ring-red-500"
-                tabIndex={AVAILABLE_LABELS.length + index + 2}
+                tabIndex={labelOptions.length + index + 2}
               />
               <div className="flex-1">
                 <div className="font-medium text-gray-900 capitalize">
-                  {label}
-                </div>
-                <div className="text-sm text-gray-500">
-                  {labelDescriptions[label]}
+                  {label.name}
                 </div>
+                <div className="text-sm text-gray-500">{label.description}</div>
               </div>
             </label>
           </motion.div>
@@ -247,7 +233,7 @@ export default function Step7SecuritySpamLabels({
         <motion.button
           onClick={handleContinue}
           className="continue-button"
-          tabIndex={AVAILABLE_LABELS.length * 2 + 2}
+          tabIndex={labelOptions.length * 2 + 2}
           whileHover={{ scale: 1.05 }}
           whileTap={{ scale: 0.95 }}
           transition={{ duration: 0.2 }}
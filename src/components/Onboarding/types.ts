@@ -36,7 +36,7 @@ export interface OnboardingFormData {
   userEmail: string;
 }
 
-// Available labels from the LLM system
+// Built-in labels from the LLM system
 export const AVAILABLE_LABELS = [
   "marketing",
   "credentials",
@@ -50,3 +50,20 @@ export const AVAILABLE_LABELS = [
 ] as const;
 
 export type AvailableLabel = (typeof AVAILABLE_LABELS)[number];
+
+export interface LabelOption {
+  name: string;
+  description: string;
+}
+
+export const AVAILABLE_LABEL_DESCRIPTIONS: Record<AvailableLabel, string> = {
+  marketing: "Promotional content, sales, newsletters",
+  credentials: "Password resets, 2FA codes, login alerts",
+  social: "Social media notifications, friend requests",
+  news: "Press releases, industry updates, announcements",
+  meeting: "Calendar invites, meeting requests",
+  pitch: "Business proposals, partnership offers",
+  github: "GitHub notifications, PRs, commits",
+  invoice: "Bills, payments, receipts",
+  important: "High-priority emails (default catch-all)",
+};
@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+import {
+  AVAILABLE_LABELS,
+  AVAILABLE_LABEL_DESCRIPTIONS,
+  LabelOption,
+} from "./types";
+
+const BUILT_IN_OPTIONS: LabelOption[] = AVAILABLE_LABELS.map((name) => ({
+  name,
+  description: AVAILABLE_LABEL_DESCRIPTIONS[name],
+}));
+
+/**
+ * Built-in labels followed by the ones the user created in settings
+ */
+export function useLabelOptions(userEmail?: string): LabelOption[] {
+  const [options, setOptions] = useState<LabelOption[]>(BUILT_IN_OPTIONS);
+
+  useEffect(() => {
+    if (!userEmail) return;
+    let cancelled = false;
+
+    window.labels
+      .getCustomLabels(userEmail)
+      .then((labels) => {
+        if (cancelled) return;
+        setOptions([
+          ...BUILT_IN_OPTIONS,
+          ...labels.map(({ name, description }) => ({ name, description })),
+        ]);
+      })
+      .catch((error) => {
+        console.error("[ONBOARDING] Failed to load custom labels:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userEmail]);
+
+  return options;
+}
@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import ScheduleSendMenu from "./Compose/ScheduleSendMenu";
+import type { DraftDetails } from "@/services/drafts";
+import type { OutboxItem } from "@/services/outbox";
+import { draftPreview } from "@/lib/drafts";
+
+interface OutboxListProps {
+  userEmail: string;
+  onEdit: (draft: DraftDetails) => void; // Opens the message taken back to drafts
+}
+
+const formatTime = (date: Date) =>
+  new Date(date).toLocaleString([], {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+function getStatusLabel(item: OutboxItem): string {
+  if (item.status === "sending") return "Sending...";
+  if (item.status === "failed") return `Failed: ${item.lastError}`;
+  if (item.attempts > 0) {
+    return `Retrying ${formatTime(item.sendAt)}: ${item.lastError}`;
+  }
+  return `Sends ${formatTime(item.sendAt)}`;
+}
+
+export default function OutboxList({ userEmail, onEdit }: OutboxListProps) {
+  const [items, setItems] = useState<OutboxItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyIds, setBusyIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () =>
+      window.outbox
+        .getOutbox(userEmail)
+        .then((outbox) => !cancelled && setItems(outbox))
+        .catch((error) => console.error("Error loading outbox:", error))
+        .finally(() => !cancelled && setIsLoading(false));
+
+    setIsLoading(true);
+    load();
+    // Sent, retried and failed messages change the list
+    const unsubscribe = window.outbox.onStatusChange((event) => {
+      if (event.userEmail === userEmail) load();
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [userEmail]);
+
+  const withBusy = async (id: string, task: () => Promise<void>) => {
+    setBusyIds((prev) => [...prev, id]);
+    try {
+      await task();
+    } catch (error) {
+      console.error("Error updating outbox:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update outbox",
+      );
+    } finally {
+      setBusyIds((prev) => prev.filter((busyId) => busyId !== id));
+    }
+  };
+
+  const replaceItem = (updated: OutboxItem) =>
+    setItems((prev) =>
+      prev
+        .map((item) => (item.id === updated.id ? updated : item))
+        .sort(
+          (a, b) => new Date(a.sendAt).getTime() - new Date(b.sendAt).getTime(),
+        ),
+    );
+  const removeItem = (id: string) =>
+    setItems((prev) => prev.filter((item) => item.id !== id));
+
+  const handleSendNow = (item: OutboxItem) =>
+    withBusy(item.id, async () => {
+      replaceItem(await window.outbox.sendNow(userEmail, item.id));
+    });
+
+  const handleReschedule = (item: OutboxItem, sendAt: Date) =>
+    withBusy(item.id, async () => {
+      replaceItem(
+        await window.outbox.rescheduleMessage(userEmail, item.id, sendAt),
+      );
+      toast.success(`Rescheduled for ${formatTime(sendAt)}`);
+    });
+
+  const handleEdit = (item: OutboxItem) =>
+    withBusy(item.id, async () => {
+      const draft = await window.outbox.moveToDrafts(userEmail, item.id);
+      removeItem(item.id);
+      onEdit(draft);
+    });
+
+  const handleCancel = (item: OutboxItem) =>
+    withBusy(item.id, async () => {
+      await window.outbox.cancelMessage(userEmail, item.id);
+      removeItem(item.id);
+    });
+
+  return (
+    <div className="flex h-full flex-col bg-white dark:bg-gray-800">
+      <div className="border-b border-gray-200 p-4 dark:border-gray-700">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Outbox
+        </h2>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {!isLoading && items.length === 0 && (
+          <p className="p-4 text-sm text-gray-500 dark:text-gray-400">
+            Nothing waiting to be sent. Scheduled mail, and mail that
+            couldn&apos;t be sent yet, shows up here.
+          </p>
+        )}
+        {items.map((item) => {
+          const isBusy = busyIds.includes(item.id) || item.status === "sending";
+          return (
+            <div
+              key={item.id}
+              className="border-b border-gray-100 px-4 py-3 dark:border-gray-700"
+            >
+              <div className="truncate text-sm font-medium text-gray-900 dark:text-white">
+                {item.to.join(", ")}
+              </div>
+              <div className="truncate text-sm text-gray-700 dark:text-gray-300">
+                {item.mode !== "new" && (
+                  <span className="mr-1 text-xs text-gray-500 uppercase">
+                    {item.mode}
+                  </span>
+                )}
+                {item.subject || "(No subject)"}
+              </div>
+              <div className="truncate text-xs text-gray-500 dark:text-gray-400">
+                {item.isHtml ? draftPreview(item.body) : item.body}
+              </div>
+              <div
+                className={`mt-1 truncate text-xs ${
+                  item.status === "failed" || item.attempts > 0
+                    ? "text-red-600 dark:text-red-400"
+                    : "text-blue-600 dark:text-blue-400"
+                }`}
+                title={item.lastError ?? undefined}
+              >
+                {getStatusLabel(item)}
+              </div>
+              <div className="mt-2 flex space-x-1">
+                <Button
+                  size="sm"
+                  disabled={isBusy}
+                  onClick={() => handleSendNow(item)}
+                >
+                  Send now
+                </Button>
+                <ScheduleSendMenu
+                  title="Reschedule"
+                  onSchedule={(sendAt) => handleReschedule(item, sendAt)}
+                >
+                  <Button variant="outline" size="sm" disabled={isBusy}>
+                    Reschedule
+                  </Button>
+                </ScheduleSendMenu>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={isBusy || item.attachmentCount > 0}
+                  title={
+                    item.attachmentCount > 0
+                      ? "Messages with attachments can't be edited"
+                      : undefined
+                  }
+                  onClick={() => handleEdit(item)}
+                >
+                  Edit
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={isBusy}
+                  onClick={() => handleCancel(item)}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
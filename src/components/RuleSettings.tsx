@@ -0,0 +1,455 @@
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type {
+  MailRuleSettings,
+  RuleDryRunMatch,
+  SaveMailRuleInput,
+} from "@/services/mail-rules";
+import type {
+  RuleAction,
+  RuleActionType,
+  RuleCondition,
+  RuleConditionField,
+} from "@/lib/mail-rules";
+
+interface RuleSettingsProps {
+  userEmail: string;
+}
+
+const CONDITION_LABELS: Record<RuleConditionField, string> = {
+  sender: "Sender contains",
+  domain: "Sender domain is",
+  subject: "Subject matches",
+  label: "Has label",
+  hasAttachment: "Has attachment",
+  recipient: "Recipient contains",
+};
+
+const CONDITION_PLACEHOLDERS: Record<RuleConditionField, string> = {
+  sender: "e.g. billing@",
+  domain: "e.g. github.com",
+  subject: "Regular expression, e.g. ^\\[CI\\]",
+  label: "e.g. marketing",
+  hasAttachment: "",
+  recipient: "e.g. team@example.com",
+};
+
+const ACTION_LABELS: Record<RuleActionType, string> = {
+  applyLabel: "Apply label",
+  removeLabel: "Remove label",
+  markRead: "Mark as read",
+  archive: "Archive",
+  star: "Star",
+  markImportant: "Mark important",
+  forward: "Forward to",
+};
+
+const actionNeedsValue = (type: RuleActionType) =>
+  type === "applyLabel" || type === "removeLabel" || type === "forward";
+
+const EMPTY_RULE: SaveMailRuleInput = {
+  name: "",
+  enabled: true,
+  matchAll: true,
+  conditions: [{ field: "sender", value: "" }],
+  actions: [{ type: "applyLabel", value: "" }],
+};
+
+const selectClassName =
+  "h-9 rounded-md border border-gray-300 bg-transparent px-3 text-sm dark:border-gray-600 dark:bg-gray-800";
+
+function describeRule(rule: MailRuleSettings): string {
+  const conditions = rule.conditions
+    .map((c) =>
+      c.field === "hasAttachment"
+        ? c.value === "false"
+          ? "no attachment"
+          : "has attachment"
+        : `${c.field} ${c.value}`,
+    )
+    .join(rule.matchAll ? " and " : " or ");
+  const actions = rule.actions
+    .map((a) =>
+      a.value
+        ? `${ACTION_LABELS[a.type].toLowerCase()} ${a.value}`
+        : ACTION_LABELS[a.type].toLowerCase(),
+    )
+    .join(", ");
+  return `If ${conditions}, then ${actions}`;
+}
+
+export default function RuleSettings({ userEmail }: RuleSettingsProps) {
+  const [rules, setRules] = useState<MailRuleSettings[]>([]);
+  const [form, setForm] = useState<SaveMailRuleInput>(EMPTY_RULE);
+  const [dryRunMatches, setDryRunMatches] = useState<RuleDryRunMatch[] | null>(
+    null,
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+
+  useEffect(() => {
+    resetForm();
+    loadRules();
+  }, [userEmail]);
+
+  const loadRules = async () => {
+    try {
+      setRules(await window.rules.getRules(userEmail));
+    } catch (error) {
+      console.error("Error loading mail rules:", error);
+      toast.error("Failed to load rules");
+    }
+  };
+
+  const resetForm = () => {
+    setForm(EMPTY_RULE);
+    setDryRunMatches(null);
+  };
+
+  const updateCondition = (index: number, update: Partial<RuleCondition>) => {
+    setForm((prev) => ({
+      ...prev,
+      conditions: prev.conditions.map((c, i) =>
+        i === index ? { ...c, ...update } : c,
+      ),
+    }));
+    setDryRunMatches(null);
+  };
+
+  const updateAction = (index: number, update: Partial<RuleAction>) => {
+    setForm((prev) => ({
+      ...prev,
+      actions: prev.actions.map((a, i) =>
+        i === index ? { ...a, ...update } : a,
+      ),
+    }));
+    setDryRunMatches(null);
+  };
+
+  const handleDryRun = async () => {
+    try {
+      setIsTesting(true);
+      setDryRunMatches(await window.rules.dryRun(userEmail, form));
+    } catch (error) {
+      console.error("Error running rule dry run:", error);
+      toast.error(error instanceof Error ? error.message : "Dry run failed");
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleSaveRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSaving(true);
+      await window.rules.saveRule(userEmail, form);
+      resetForm();
+      await loadRules();
+      toast.success("Rule saved");
+    } catch (error) {
+      console.error("Error saving rule:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save rule",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleRule = async (rule: MailRuleSettings) => {
+    try {
+      await window.rules.saveRule(userEmail, {
+        ...rule,
+        enabled: !rule.enabled,
+      });
+      await loadRules();
+    } catch (error) {
+      console.error("Error toggling rule:", error);
+      toast.error("Failed to update rule");
+    }
+  };
+
+  const handleDeleteRule = async (rule: MailRuleSettings) => {
+    try {
+      await window.rules.deleteRule(userEmail, rule.id);
+      if (form.id === rule.id) resetForm();
+      await loadRules();
+    } catch (error) {
+      console.error("Error deleting rule:", error);
+      toast.error("Failed to delete rule");
+    }
+  };
+
+  return (
+    <section>
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+        Rules
+      </h2>
+      <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+        Rules run in order on new mail as it syncs, after labelling. Forwarding
+        only applies to mail received after the rule is created.
+      </p>
+
+      <div className="mt-4 space-y-2">
+        {rules.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No rules yet.
+          </p>
+        )}
+        {rules.map((rule) => (
+          <div
+            key={rule.id}
+            className="flex items-center justify-between rounded-lg border border-gray-200 px-4 py-3 dark:border-gray-700"
+          >
+            <div className="min-w-0">
+              <div
+                className={`text-sm font-medium ${
+                  rule.enabled
+                    ? "text-gray-900 dark:text-white"
+                    : "text-gray-400 line-through"
+                }`}
+              >
+                {rule.name}
+              </div>
+              <div className="truncate text-xs text-gray-500 dark:text-gray-400">
+                {describeRule(rule)}
+              </div>
+            </div>
+            <div className="flex space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleToggleRule(rule)}
+              >
+                {rule.enabled ? "Disable" : "Enable"}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setForm(rule);
+                  setDryRunMatches(null);
+                }}
+              >
+                Edit
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleDeleteRule(rule)}
+              >
+                Delete
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <form
+        onSubmit={handleSaveRule}
+        className="mt-4 space-y-3 rounded-lg border border-gray-200 p-4 dark:border-gray-700"
+      >
+        <div className="text-sm font-medium text-gray-900 dark:text-white">
+          {form.id ? "Edit rule" : "Add rule"}
+        </div>
+        <Input
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          placeholder="Name"
+        />
+
+        {/* Conditions */}
+        <div className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+          <span>If</span>
+          <select
+            value={form.matchAll ? "all" : "any"}
+            onChange={(e) =>
+              setForm({ ...form, matchAll: e.target.value === "all" })
+            }
+            className={selectClassName}
+          >
+            <option value="all">all</option>
+            <option value="any">any</option>
+          </select>
+          <span>of these match</span>
+        </div>
+        {form.conditions.map((condition, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            <select
+              value={condition.field}
+              onChange={(e) =>
+                updateCondition(index, {
+                  field: e.target.value as RuleConditionField,
+                  value: e.target.value === "hasAttachment" ? "true" : "",
+                })
+              }
+              className={selectClassName}
+            >
+              {Object.entries(CONDITION_LABELS).map(([field, label]) => (
+                <option key={field} value={field}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            {condition.field === "hasAttachment" ? (
+              <select
+                value={condition.value}
+                onChange={(e) =>
+                  updateCondition(index, { value: e.target.value })
+                }
+                className={selectClassName}
+              >
+                <option value="true">Yes</option>
+                <option value="false">No</option>
+              </select>
+            ) : (
+              <Input
+                value={condition.value}
+                onChange={(e) =>
+                  updateCondition(index, { value: e.target.value })
+                }
+                placeholder={CONDITION_PLACEHOLDERS[condition.field]}
+              />
+            )}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={form.conditions.length === 1}
+              onClick={() =>
+                setForm({
+                  ...form,
+                  conditions: form.conditions.filter((_, i) => i !== index),
+                })
+              }
+            >
+              Remove
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            setForm({
+              ...form,
+              conditions: [...form.conditions, { field: "sender", value: "" }],
+            })
+          }
+        >
+          Add condition
+        </Button>
+
+        {/* Actions */}
+        <div className="text-sm text-gray-700 dark:text-gray-300">Then</div>
+        {form.actions.map((action, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            <select
+              value={action.type}
+              onChange={(e) =>
+                updateAction(index, {
+                  type: e.target.value as RuleActionType,
+                  value: "",
+                })
+              }
+              className={selectClassName}
+            >
+              {Object.entries(ACTION_LABELS).map(([type, label]) => (
+                <option key={type} value={type}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            {actionNeedsValue(action.type) && (
+              <Input
+                value={action.value || ""}
+                onChange={(e) => updateAction(index, { value: e.target.value })}
+                placeholder={
+                  action.type === "forward" ? "Email address" : "Label name"
+                }
+              />
+            )}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={form.actions.length === 1}
+              onClick={() =>
+                setForm({
+                  ...form,
+                  actions: form.actions.filter((_, i) => i !== index),
+                })
+              }
+            >
+              Remove
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            setForm({
+              ...form,
+              actions: [...form.actions, { type: "markRead" }],
+            })
+          }
+        >
+          Add action
+        </Button>
+
+        <div className="flex space-x-2 pt-2">
+          <Button type="submit" size="sm" disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save rule"}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={isTesting}
+            onClick={handleDryRun}
+          >
+            {isTesting ? "Testing..." : "Dry run"}
+          </Button>
+          {form.id && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={resetForm}
+            >
+              Cancel
+            </Button>
+          )}
+        </div>
+
+        {/* Dry run results */}
+        {dryRunMatches && (
+          <div className="rounded-md bg-gray-50 p-3 dark:bg-gray-800">
+            <div className="text-sm font-medium text-gray-900 dark:text-white">
+              Would match {dryRunMatches.length} existing thread
+              {dryRunMatches.length !== 1 ? "s" : ""}
+            </div>
+            <ul className="mt-2 max-h-64 space-y-1 overflow-y-auto">
+              {dryRunMatches.map((match) => (
+                <li
+                  key={match.threadId}
+                  className="truncate text-xs text-gray-600 dark:text-gray-400"
+                >
+                  <span className="font-medium">
+                    {match.sender || match.senderEmail}
+                  </span>{" "}
+                  · {match.subject}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  SYNC_WINDOWS,
+  type InitialSyncProgress,
+  type InitialSyncState,
+  type SyncWindow,
+} from "@/lib/initial-sync";
+
+interface SyncSettingsProps {
+  userEmail: string;
+}
+
+const WINDOW_LABELS: Record<SyncWindow, string> = {
+  week: "The last week",
+  month: "The last month",
+  year: "The last year",
+  all: "All mail",
+};
+
+const selectClassName =
+  "h-9 rounded-md border border-gray-300 bg-transparent px-3 text-sm dark:border-gray-600 dark:bg-gray-800";
+
+function describeSync(
+  state: InitialSyncState,
+  progress: InitialSyncProgress | null,
+): string {
+  const total =
+    progress && progress.total > state.processed
+      ? ` of about ${progress.total}`
+      : "";
+  switch (state.status) {
+    case "complete":
+      return `All ${state.processed} threads synced`;
+    case "paused":
+      return `Paused after ${state.processed}${total} threads`;
+    case "syncing":
+      return `Fetching older mail in the background, ${state.processed}${total} threads so far`;
+  }
+}
+
+export default function SyncSettings({ userEmail }: SyncSettingsProps) {
+  const [state, setState] = useState<InitialSyncState | null>(null);
+  const [progress, setProgress] = useState<InitialSyncProgress | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setProgress(null);
+    loadState();
+    return window.email.onInitialSyncProgress((event) => {
+      if (event.userEmail !== userEmail) return;
+      setProgress(event.progress);
+      setState(
+        (prev) =>
+          prev && {
+            ...prev,
+            status: event.progress.status,
+            processed: event.progress.processed,
+          },
+      );
+    });
+  }, [userEmail]);
+
+  const loadState = async () => {
+    try {
+      setState(await window.email.getInitialSyncState(userEmail));
+    } catch (error) {
+      console.error("Error loading sync state:", error);
+      toast.error("Failed to load sync settings");
+    }
+  };
+
+  const run = async (update: () => Promise<InitialSyncState>) => {
+    try {
+      setIsSaving(true);
+      setState(await update());
+    } catch (error) {
+      console.error("Error updating sync settings:", error);
+      toast.error("Failed to update sync settings");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleWindowChange = (syncWindow: SyncWindow) => {
+    setProgress(null);
+    run(() => window.email.setSyncWindow(userEmail, syncWindow));
+  };
+
+  return (
+    <section>
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+        Sync
+      </h2>
+      <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+        How far back mail is kept on this computer. The newest mail comes first;
+        older mail is fetched in the background. Mail already fetched stays when
+        you choose a shorter period.
+      </p>
+
+      {state && (
+        <div className="mt-4 space-y-3 rounded-lg border border-gray-200 p-4 dark:border-gray-700">
+          <div className="flex items-center justify-between">
+            <label
+              htmlFor="sync-window"
+              className="text-sm text-gray-700 dark:text-gray-300"
+            >
+              Sync
+            </label>
+            <select
+              id="sync-window"
+              value={state.window}
+              disabled={isSaving}
+              onChange={(e) => handleWindowChange(e.target.value as SyncWindow)}
+              className={selectClassName}
+            >
+              {SYNC_WINDOWS.map((syncWindow) => (
+                <option key={syncWindow} value={syncWindow}>
+                  {WINDOW_LABELS[syncWindow]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center justify-between border-t border-gray-200 pt-3 dark:border-gray-700">
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              {describeSync(state, progress)}
+            </span>
+            {state.status === "syncing" && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isSaving}
+                onClick={() =>
+                  run(() => window.email.pauseInitialSync(userEmail))
+                }
+              >
+                Pause
+              </Button>
+            )}
+            {state.status === "paused" && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isSaving}
+                onClick={() =>
+                  run(() => window.email.resumeInitialSync(userEmail))
+                }
+              >
+                Resume
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -5,8 +5,6 @@ import { Avatar, AvatarFallback, AvatarImage } from "./ui/avatar";
 import { Card, CardContent } from "./ui/card";
 import AttachmentIndicator from "./ui/attachment-indicator";
 import { EmailMessage } from "../services/email";
-import { splitQuotedContent } from "../lib/email-sanitization";
-import { processLinksInContent } from "../lib/text-utils";
 import {
   Tooltip,
   TooltipTrigger,
@@ -15,6 +13,8 @@ import {
 } from "./ui/tooltip";
 import { Button } from "./ui/button";
 import ScheduleMeetingPopup, { MeetingDataAPI } from "./ScheduleMeetingPopup";
+import MessageAttachments from "./MessageAttachments";
+import EmailView from "./EmailView";
 import { toast } from "sonner";
 import "./ThreadMessage.css";
 
@@ -37,7 +37,6 @@ export default function ThreadMessage({
   isExpanded,
   onToggleExpand,
 }: ThreadMessageProps) {
-  const [showQuoted, setShowQuoted] = useState(false);
   const isCollapsed = !isExpanded;
   const [showAllTos, setShowAllTos] = useState(false);
   const [isScheduleMeetingOpen, setIsScheduleMeetingOpen] = useState(false);
@@ -93,27 +92,6 @@ export default function ThreadMessage({
     return unique.join(", ");
   };
 
-  const { mainContent, quotedContent } = useMemo(() => {
-    if (!message.body && !message.htmlBody) {
-      return { mainContent: "", quotedContent: "" };
-    }
-
-    const content = message.htmlBody || message.body || "";
-    return splitQuotedContent(content);
-  }, [message.body, message.htmlBody]);
-
-  const hasQuotedContent = Boolean(
-    quotedContent && quotedContent.trim().length > 0,
-  );
-
-  const processedMainContent = useMemo(() => {
-    return processLinksInContent(mainContent);
-  }, [mainContent]);
-
-  const processedQuotedContent = useMemo(() => {
-    return processLinksInContent(quotedContent);
-  }, [quotedContent]);
-
   const formatDate = (date: Date) => {
     return date.toLocaleString(undefined, {
       year: "numeric",
@@ -125,48 +103,6 @@ export default function ThreadMessage({
     });
   };
 
-  const handleDownloadAttachment = async (
-    attachmentId: string,
-    filename: string,
-  ) => {
-    try {
-      console.log(`[ThreadMessage] Downloading attachment: ${filename}`);
-
-      // Download attachment via IPC
-      const result = await window.email.downloadAttachment(
-        userEmail,
-        message.id,
-        attachmentId,
-      );
-
-      // Create a blob from the base64 data
-      const byteCharacters = atob(result.data);
-      const byteNumbers = new Array(byteCharacters.length);
-      for (let i = 0; i < byteCharacters.length; i++) {
-        byteNumbers[i] = byteCharacters.charCodeAt(i);
-      }
-      const byteArray = new Uint8Array(byteNumbers);
-      const blob = new Blob([byteArray], { type: result.mimeType });
-
-      // Create download link and trigger download
-      const url = window.URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = result.filename;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(url);
-
-      console.log(
-        `[ThreadMessage] Successfully downloaded: ${result.filename}`,
-      );
-    } catch (error) {
-      console.error("[ThreadMessage] Error downloading attachment:", error);
-      toast.error("Failed to download attachment");
-    }
-  };
-
   // Helper to get all participants from this message
   const getAllParticipants = (): string[] => {
     const participants: string[] = [];
@@ -401,91 +337,17 @@ export default function ThreadMessage({
               className="overflow-hidden"
             >
               <div className="p-4 pt-0">
-                {/* Main content */}
-                <div className="mb-4">
-                  <div
-                    className="prose prose-sm max-w-none py-8 pl-16"
-                    dangerouslySetInnerHTML={{ __html: processedMainContent }}
-                  />
+                <div className="py-8 pl-16">
+                  <EmailView userEmail={userEmail} messageId={message.id} />
                 </div>
 
-                {/* Quoted content toggle */}
-                {hasQuotedContent && (
-                  <div className="border-t border-gray-100 pt-4">
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        setShowQuoted(!showQuoted);
-                      }}
-                      className="flex items-center gap-2 text-sm text-gray-500 transition-colors hover:text-gray-700"
-                    >
-                      <motion.div
-                        animate={{ rotate: showQuoted ? 180 : 0 }}
-                        transition={{ duration: 0.2 }}
-                      >
-                        <ChevronDown className="h-4 w-4" />
-                      </motion.div>
-                      {showQuoted ? "Hide" : "Show"} quoted text
-                    </button>
-
-                    <AnimatePresence>
-                      {showQuoted && (
-                        <motion.div
-                          initial={{ height: 0, opacity: 0 }}
-                          animate={{ height: "auto", opacity: 1 }}
-                          exit={{ height: 0, opacity: 0 }}
-                          transition={{ duration: 0.2 }}
-                          className="mt-2 overflow-hidden"
-                        >
-                          <div
-                            className="prose prose-sm max-w-none border-l-2 border-gray-200 pl-4 text-gray-600"
-                            dangerouslySetInnerHTML={{
-                              __html: processedQuotedContent,
-                            }}
-                          />
-                        </motion.div>
-                      )}
-                    </AnimatePresence>
-                  </div>
-                )}
-
                 {/* Attachments */}
-                {message.attachments && message.attachments.length > 0 && (
-                  <div className="mt-4 border-t border-gray-100 pt-4">
-                    <h4 className="mb-2 text-sm font-medium text-gray-700">
-                      Attachments ({message.attachments.length})
-                    </h4>
-                    <div className="space-y-2">
-                      {message.attachments.map((attachment) => (
-                        <div
-                          key={attachment.id}
-                          className="flex items-center gap-3 rounded-lg bg-gray-50 p-2"
-                        >
-                          <div className="min-w-0 flex-1">
-                            <div className="truncate text-sm font-medium text-gray-900">
-                              {attachment.filename}
-                            </div>
-                            <div className="text-xs text-gray-500">
-                              {Math.round((attachment.size || 0) / 1024)} KB
-                            </div>
-                          </div>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              handleDownloadAttachment(
-                                attachment.id,
-                                attachment.filename || "attachment",
-                              );
-                            }}
-                          >
-                            Download
-                          </Button>
-                        </div>
-                      ))}
-                    </div>
-                  </div>
+                {message.attachments && (
+                  <MessageAttachments
+                    userEmail={userEmail}
+                    messageId={message.id}
+                    attachments={message.attachments}
+                  />
                 )}
               </div>
             </motion.div>
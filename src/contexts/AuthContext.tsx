@@ -2,10 +2,12 @@ import React, {
   createContext,
   useContext,
   useEffect,
+  useRef,
   useState,
   ReactNode,
 } from "react";
 import { useNavigate } from "@tanstack/react-router";
+import { toast } from "sonner";
 import type { OAuthTokens, GoogleUserInfo } from "@/services/oauth";
 
 export interface AuthUser {
@@ -17,14 +19,27 @@ export interface AuthUser {
 }
 
 interface AuthContextType {
-  user: AuthUser | null;
+  user: AuthUser | null; // The active account
+  accounts: AuthUser[];
   isLoading: boolean;
   isAuthenticated: boolean;
   signIn: (userData: AuthUser) => void;
   signOut: () => void;
+  switchAccount: (email: string) => void;
+  removeAccount: (email: string) => void;
   checkAuthState: () => Promise<void>;
 }
 
+const ACCOUNTS_STORAGE_KEY = "authenticatedAccounts";
+const ACTIVE_ACCOUNT_STORAGE_KEY = "activeAccountEmail";
+// Single-account builds stored the signed in user under this key
+const LEGACY_USER_STORAGE_KEY = "authenticatedUser";
+
+function isValidStoredUser(value: unknown): value is AuthUser {
+  const user = value as AuthUser | null;
+  return !!(user && user.email && user.provider);
+}
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 interface AuthProviderProps {
@@ -33,49 +48,131 @@ interface AuthProviderProps {
 
 export function AuthProvider({ children }: AuthProviderProps) {
   const [user, setUser] = useState<AuthUser | null>(null);
+  const [accounts, setAccounts] = useState<AuthUser[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const navigate = useNavigate();
 
+  // OAuth and re-auth listeners are registered once, so they read the
+  // latest accounts from refs instead of stale closure state
+  const accountsRef = useRef<AuthUser[]>([]);
+  const activeAccountRef = useRef<AuthUser | null>(null);
+
   const isAuthenticated = !!user;
 
+  const saveAccounts = (nextAccounts: AuthUser[], active: AuthUser | null) => {
+    accountsRef.current = nextAccounts;
+    activeAccountRef.current = active;
+    setAccounts(nextAccounts);
+    setUser(active);
+
+    if (nextAccounts.length > 0) {
+      localStorage.setItem(ACCOUNTS_STORAGE_KEY, JSON.stringify(nextAccounts));
+    } else {
+      localStorage.removeItem(ACCOUNTS_STORAGE_KEY);
+    }
+    if (active) {
+      localStorage.setItem(ACTIVE_ACCOUNT_STORAGE_KEY, active.email);
+    } else {
+      localStorage.removeItem(ACTIVE_ACCOUNT_STORAGE_KEY);
+    }
+  };
+
+  // Adds the account (or refreshes its details) and makes it active
   const signIn = (userData: AuthUser) => {
-    setUser(userData);
-    localStorage.setItem("authenticatedUser", JSON.stringify(userData));
+    const nextAccounts = [
+      ...accountsRef.current.filter(
+        (account) => account.email !== userData.email,
+      ),
+      userData,
+    ];
+    saveAccounts(nextAccounts, userData);
     console.log("User signed in:", userData);
   };
 
+  // Stops push for accounts being signed out of. Best effort: a
+  // subscription that can't be deleted expires by itself.
+  const removePushSubscriptions = (removed: AuthUser[]) => {
+    for (const account of removed) {
+      if (account.provider !== "OUTLOOK") continue;
+      window.email
+        ?.removeOutlookWebhook(account.email)
+        .catch((error) =>
+          console.error("Error removing Outlook subscription:", error),
+        );
+    }
+  };
+
+  // Signs out of every connected account
   const signOut = () => {
-    setUser(null);
-    localStorage.removeItem("authenticatedUser");
+    removePushSubscriptions(accountsRef.current);
+    saveAccounts([], null);
+    localStorage.removeItem(LEGACY_USER_STORAGE_KEY);
     console.log("User signed out");
     navigate({ to: "/" });
   };
 
+  const switchAccount = (email: string) => {
+    const account = accountsRef.current.find((a) => a.email === email);
+    if (!account) return;
+    saveAccounts(accountsRef.current, account);
+    console.log("Switched active account:", email);
+  };
+
+  const removeAccount = (email: string) => {
+    const nextAccounts = accountsRef.current.filter((a) => a.email !== email);
+    if (nextAccounts.length === 0) {
+      signOut();
+      return;
+    }
+
+    removePushSubscriptions(
+      accountsRef.current.filter((a) => a.email === email),
+    );
+    const active =
+      activeAccountRef.current?.email === email
+        ? nextAccounts[0]
+        : activeAccountRef.current;
+    saveAccounts(nextAccounts, active);
+    console.log("Removed account:", email);
+  };
+
   const checkAuthState = async () => {
     try {
       setIsLoading(true);
 
       // Check localStorage for existing auth state
-      const storedUser = localStorage.getItem("authenticatedUser");
-      if (storedUser) {
-        const userData = JSON.parse(storedUser);
-
-        // Validate the stored user data
-        if (userData && userData.email && userData.provider) {
-          // Optionally validate user exists in database
-          // This could be done by making a simple API call
-          // For now, we'll trust the localStorage data and let the email service handle validation
-          setUser(userData);
-          console.log("Restored authentication state:", userData);
-        } else {
-          // Invalid stored data, remove it
-          localStorage.removeItem("authenticatedUser");
-          console.log("Invalid stored auth data, cleared");
-        }
+      let storedAccounts: unknown[] = [];
+      const storedAccountsJson = localStorage.getItem(ACCOUNTS_STORAGE_KEY);
+      const legacyUserJson = localStorage.getItem(LEGACY_USER_STORAGE_KEY);
+      if (storedAccountsJson) {
+        storedAccounts = JSON.parse(storedAccountsJson);
+      } else if (legacyUserJson) {
+        storedAccounts = [JSON.parse(legacyUserJson)];
+      }
+      localStorage.removeItem(LEGACY_USER_STORAGE_KEY);
+
+      // Validate the stored user data and drop anything malformed.
+      // We trust the stored data and let the email service handle validation
+      const validAccounts = Array.isArray(storedAccounts)
+        ? storedAccounts.filter(isValidStoredUser)
+        : [];
+      const activeEmail = localStorage.getItem(ACTIVE_ACCOUNT_STORAGE_KEY);
+      const active =
+        validAccounts.find((account) => account.email === activeEmail) ||
+        validAccounts[0] ||
+        null;
+
+      saveAccounts(validAccounts, active);
+      if (active) {
+        console.log(
+          `Restored authentication state for ${validAccounts.length} account(s), active:`,
+          active,
+        );
       }
     } catch (error) {
       console.error("Error checking auth state:", error);
-      localStorage.removeItem("authenticatedUser");
+      saveAccounts([], null);
+      localStorage.removeItem(LEGACY_USER_STORAGE_KEY);
     } finally {
       setIsLoading(false);
     }
@@ -181,12 +278,40 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   }, [signOut]);
 
+  // Listen for accounts whose refresh token was revoked or expired. The
+  // listener is added once and reads the current removeAccount from a ref.
+  const removeAccountRef = useRef(removeAccount);
+  removeAccountRef.current = removeAccount;
+  useEffect(() => {
+    if (!window.oauth) return;
+
+    const handleReauthRequired = (event: {
+      userEmail: string;
+      provider: "GOOGLE" | "OUTLOOK";
+      reason: string;
+    }) => {
+      console.error("Re-authentication required:", event);
+
+      if (accountsRef.current.some((a) => a.email === event.userEmail)) {
+        toast.error(
+          `Your session for ${event.userEmail} has expired. Please sign in again.`,
+        );
+        removeAccountRef.current(event.userEmail);
+      }
+    };
+
+    return window.oauth.onReauthRequired(handleReauthRequired);
+  }, []);
+
   const value: AuthContextType = {
     user,
+    accounts,
     isLoading,
     isAuthenticated,
     signIn,
     signOut,
+    switchAccount,
+    removeAccount,
     checkAuthState,
   };
 
@@ -10,6 +10,20 @@ declare global {
     calendar: CalendarContext;
     places: PlacesContext;
     onboarding: OnboardingContext;
+    llm: LlmContext;
+    labels: LabelsContext;
+    rules: RulesContext;
+    importance: ImportanceContext;
+    contacts: ContactsContext;
+    ai: AiContext;
+    drafts: DraftsContext;
+    outbox: OutboxContext;
+    followUps: FollowUpsContext;
+    inlineImages: InlineImagesContext;
+    attachments: AttachmentsContext;
+    emailView: EmailViewContext;
+    relay: RelayContext;
+    sync: SyncContext;
   }
 }
 
@@ -54,8 +68,12 @@ interface EmailThread {
   timestamp: Date;
   isRead: boolean;
   isImportant: boolean;
+  importanceScore?: number;
+  importanceReasons?: string[];
+  isStarred?: boolean;
   hasAttachments: boolean;
   labels?: string[];
+  accountEmail?: string;
 }
 
 interface EmailMessage {
@@ -69,6 +87,7 @@ interface EmailMessage {
   timestamp: Date;
   body: string;
   htmlBody?: string;
+  isBodyLoaded?: boolean; // False while body is Gmail's snippet, until opened
   attachments?: EmailAttachment[];
   isRead: boolean;
 }
@@ -81,6 +100,23 @@ interface EmailAttachment {
   downloadUrl?: string;
 }
 
+interface SendReplyData {
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  body: string;
+  threadId: string;
+  replyToMessageId: string;
+  attachments?: Array<{
+    filename: string;
+    mimeType: string;
+    size: number;
+    data: string; // base64 encoded data
+  }>;
+  mode?: "reply" | "forward";
+}
+
 interface OAuthContext {
   googleAuthenticate: () => Promise<{
     tokens: OAuthTokens;
@@ -88,6 +124,7 @@ interface OAuthContext {
   }>;
   googleRefreshToken: (refreshToken: string) => Promise<OAuthTokens>;
   googleRevokeToken: (token: string) => Promise<void>;
+  googleGrantFullAccess: (userEmail: string) => Promise<void>;
   outlookAuthenticate: () => Promise<{
     tokens: OAuthTokens;
     userInfo: GoogleUserInfo;
@@ -103,6 +140,69 @@ interface OAuthContext {
     }) => void,
   ) => void;
   onOAuthError: (callback: (error: string) => void) => void;
+  onReauthRequired: (
+    callback: (event: ReauthRequiredEvent) => void,
+  ) => () => void;
+}
+
+interface ReauthRequiredEvent {
+  userEmail: string;
+  provider: "GOOGLE" | "OUTLOOK";
+  reason: string;
+}
+
+type ThreadActionType =
+  | "archive"
+  | "unarchive"
+  | "trash"
+  | "untrash"
+  | "deleteForever"
+  | "star"
+  | "unstar"
+  | "markRead"
+  | "markUnread"
+  | "snooze"
+  | "unsnooze"
+  | "move";
+
+interface ThreadAction {
+  type: ThreadActionType;
+  folderId?: string;
+  snoozeUntil?: Date;
+}
+
+interface ThreadActionResult {
+  threadId: string;
+  undo: ThreadAction | null;
+}
+
+interface MailFolder {
+  id: string;
+  name: string;
+}
+
+type SyncWindow = "week" | "month" | "year" | "all";
+
+type InitialSyncStatus = "syncing" | "paused" | "complete";
+
+interface InitialSyncState {
+  window: SyncWindow;
+  status: InitialSyncStatus;
+  processed: number;
+}
+
+interface InitialSyncProgress {
+  processed: number;
+  total: number;
+  currentEmail: string;
+  phase: "recent" | "backfill";
+  status: InitialSyncStatus;
+}
+
+interface MailChangedEvent {
+  userEmail: string;
+  updatedThreadIds: string[];
+  deletedThreadIds: string[];
 }
 
 interface EmailContext {
@@ -127,13 +227,20 @@ interface EmailContext {
     body: string,
     isHtml?: boolean,
   ) => Promise<void>;
+  sendReply: (userEmail: string, data: SendReplyData) => Promise<void>;
   setupGmailPushNotifications: (userEmail: string) => Promise<void>;
-  setupOutlookWebhook: (userEmail: string, webhookUrl: string) => Promise<void>;
+  setupOutlookWebhook: (userEmail: string) => Promise<void>;
+  removeOutlookWebhook: (userEmail: string) => Promise<void>;
   getInboxEmailsFromDB: (
     userEmail: string,
     limit?: number,
     offset?: number,
   ) => Promise<{ emails: EmailThread[]; hasMore: boolean }>;
+  getUnifiedInboxFromDB: (
+    userEmails: string[],
+    limit?: number,
+    offset?: number,
+  ) => Promise<{ emails: EmailThread[]; hasMore: boolean }>;
   getImportantEmailsFromDB: (
     userEmail: string,
     limit?: number,
@@ -171,16 +278,36 @@ interface EmailContext {
     filename: string;
     mimeType: string;
   }>;
+  searchEmails: (
+    userEmail: string,
+    query: string,
+    limit?: number,
+    offset?: number,
+  ) => Promise<{ emails: EmailThread[]; hasMore: boolean }>;
+  applyThreadAction: (
+    userEmail: string,
+    threadId: string,
+    action: ThreadAction,
+  ) => Promise<ThreadActionResult>;
+  getMailFolders: (userEmail: string) => Promise<MailFolder[]>;
+  getInitialSyncState: (userEmail: string) => Promise<InitialSyncState>;
+  setSyncWindow: (
+    userEmail: string,
+    syncWindow: SyncWindow,
+  ) => Promise<InitialSyncState>;
+  pauseInitialSync: (userEmail: string) => Promise<InitialSyncState>;
+  resumeInitialSync: (userEmail: string) => Promise<InitialSyncState>;
   onEmailError: (callback: (error: string) => void) => void;
   onNewEmailNotification: (
     callback: (data: { userEmail: string; newEmails: EmailThread[] }) => void,
-  ) => void;
+  ) => () => void;
+  onMailChanged: (callback: (event: MailChangedEvent) => void) => () => void;
   onInitialSyncProgress: (
     callback: (data: {
       userEmail: string;
-      progress: { processed: number; total: number; currentEmail: string };
+      progress: InitialSyncProgress;
     }) => void,
-  ) => void;
+  ) => () => void;
 }
 
 interface PlacePrediction {
@@ -355,4 +482,489 @@ interface OnboardingContext {
   ) => Promise<{ success: boolean }>;
 }
 
+export type LlmFeature = "labelling" | "drafting" | "summarising";
+export type LlmProviderKind = "openai-compatible" | "local" | "offline";
+
+export interface LlmProviderSettings {
+  id: string;
+  name: string;
+  kind: LlmProviderKind;
+  baseUrl: string | null;
+  hasApiKey: boolean;
+}
+
+export interface SaveLlmProviderInput {
+  id?: string;
+  name: string;
+  kind: LlmProviderKind;
+  baseUrl?: string | null;
+  apiKey?: string | null; // undefined keeps the stored key, null or "" clears it
+}
+
+export interface LlmFeatureModelSettings {
+  feature: LlmFeature;
+  providerId: string | null; // null uses the offline stub
+  model: string;
+}
+
+interface LlmContext {
+  getProviders: () => Promise<LlmProviderSettings[]>;
+  saveProvider: (input: SaveLlmProviderInput) => Promise<LlmProviderSettings>;
+  deleteProvider: (id: string) => Promise<{ success: boolean }>;
+  getFeatureModels: () => Promise<LlmFeatureModelSettings[]>;
+  setFeatureModel: (
+    feature: LlmFeature,
+    providerId: string | null,
+    model: string,
+  ) => Promise<{ success: boolean }>;
+}
+
+export interface CustomLabelSettings {
+  id: string;
+  name: string;
+  color: string;
+  description: string;
+  examples: string[];
+}
+
+export interface CreateCustomLabelInput {
+  name: string;
+  color: string;
+  description: string;
+  examples?: string[];
+}
+
+export type UpdateCustomLabelInput = Partial<
+  Omit<CreateCustomLabelInput, "name">
+>;
+
+interface LabelsContext {
+  getCustomLabels: (userEmail: string) => Promise<CustomLabelSettings[]>;
+  createCustomLabel: (
+    userEmail: string,
+    input: CreateCustomLabelInput,
+  ) => Promise<CustomLabelSettings>;
+  updateCustomLabel: (
+    userEmail: string,
+    id: string,
+    input: UpdateCustomLabelInput,
+  ) => Promise<CustomLabelSettings>;
+  deleteCustomLabel: (
+    userEmail: string,
+    id: string,
+  ) => Promise<{ success: boolean }>;
+}
+
+export type RuleConditionField =
+  "sender" | "domain" | "subject" | "label" | "hasAttachment" | "recipient";
+export type RuleActionType =
+  | "applyLabel"
+  | "removeLabel"
+  | "markRead"
+  | "archive"
+  | "star"
+  | "markImportant"
+  | "forward";
+
+export interface MailRuleDefinition {
+  name: string;
+  enabled: boolean;
+  matchAll: boolean;
+  conditions: { field: RuleConditionField; value: string }[];
+  actions: { type: RuleActionType; value?: string }[];
+}
+
+export interface MailRuleSettings extends MailRuleDefinition {
+  id: string;
+  createdAt: Date;
+}
+
+export interface SaveMailRuleInput extends MailRuleDefinition {
+  id?: string;
+}
+
+export interface RuleDryRunMatch {
+  threadId: string;
+  subject: string;
+  sender: string;
+  senderEmail: string;
+  timestamp: Date;
+  plan: {
+    addLabels: string[];
+    removeLabels: string[];
+    markRead: boolean;
+    archive: boolean;
+    star: boolean;
+    markImportant: boolean;
+    forwardTo: string[];
+  };
+}
+
+interface RulesContext {
+  getRules: (userEmail: string) => Promise<MailRuleSettings[]>;
+  saveRule: (
+    userEmail: string,
+    input: SaveMailRuleInput,
+  ) => Promise<MailRuleSettings>;
+  deleteRule: (userEmail: string, id: string) => Promise<{ success: boolean }>;
+  dryRun: (
+    userEmail: string,
+    rule: MailRuleDefinition,
+  ) => Promise<RuleDryRunMatch[]>;
+}
+
+export interface ImportanceWeights {
+  participated: number;
+  repliedToSender: number;
+  vipContact: number;
+  vipDomain: number;
+  smartGroup: number;
+  importantLabel: number;
+  frequentSender: number;
+  bulkSender: number;
+  threshold: number;
+}
+
+interface ImportanceContext {
+  getWeights: (userEmail: string) => Promise<ImportanceWeights>;
+  setWeights: (
+    userEmail: string,
+    weights: Partial<ImportanceWeights>,
+  ) => Promise<ImportanceWeights>;
+}
+
+export interface ContactSuggestion {
+  id: string;
+  email: string;
+  name: string | null;
+  avatar: string | null;
+  emailCount: number;
+  lastEmailAt: Date | null;
+  isManual: boolean;
+  isFromGoogle?: boolean;
+  phone?: string | null;
+}
+
+export interface ContactDetails extends ContactSuggestion {
+  source: string; // mail, google, outlook or manual
+  aliases: string[];
+}
+
+export interface SaveContactInput {
+  id?: string;
+  email: string;
+  name?: string | null;
+  phone?: string | null;
+}
+
+interface ContactsContext {
+  search: (
+    userEmail: string,
+    query: string,
+    limit?: number,
+  ) => Promise<ContactSuggestion[]>;
+  getContacts: (userEmail: string) => Promise<ContactDetails[]>;
+  saveContact: (
+    userEmail: string,
+    input: SaveContactInput,
+  ) => Promise<ContactDetails>;
+  deleteContact: (
+    userEmail: string,
+    id: string,
+  ) => Promise<{ success: boolean }>;
+  mergeContacts: (
+    userEmail: string,
+    targetId: string,
+    mergedIds: string[],
+  ) => Promise<ContactDetails>;
+  importContacts: (userEmail: string) => Promise<{ added: number }>;
+}
+
+export interface DraftRequest {
+  prompt: string;
+  threadId?: string | null;
+  replyToMessageId?: string | null;
+  currentDraft?: string;
+  subject?: string;
+  recipients?: string[];
+  history?: { role: "user" | "assistant"; content: string }[];
+}
+
+interface AiContext {
+  generateDraft: (
+    requestId: string,
+    userEmail: string,
+    request: DraftRequest,
+    onDelta?: (delta: string) => void,
+  ) => Promise<{ content: string }>;
+  cancelDraft: (requestId: string) => Promise<{ success: boolean }>;
+}
+
+export interface DraftDetails {
+  id: string;
+  mode: "new" | "reply" | "forward";
+  threadId: string | null;
+  replyToMessageId: string | null;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  subject: string;
+  body: string; // HTML
+  isSynced: boolean;
+  updatedAt: Date;
+}
+
+export interface SaveDraftInput {
+  id?: string | null;
+  mode: "new" | "reply" | "forward";
+  threadId?: string | null;
+  replyToMessageId?: string | null;
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  body: string;
+}
+
+interface DraftsContext {
+  getDrafts: (userEmail: string) => Promise<DraftDetails[]>;
+  getThreadDraft: (
+    userEmail: string,
+    threadId: string,
+  ) => Promise<DraftDetails | null>;
+  saveDraft: (
+    userEmail: string,
+    input: SaveDraftInput,
+  ) => Promise<DraftDetails | null>;
+  deleteDraft: (userEmail: string, id: string) => Promise<{ success: boolean }>;
+  sendDraft: (userEmail: string, id: string) => Promise<{ success: boolean }>;
+  syncDrafts: (userEmail: string) => Promise<DraftDetails[]>;
+}
+
+export interface OutboxItem {
+  id: string;
+  mode: "new" | "reply" | "forward";
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  subject: string;
+  body: string;
+  isHtml: boolean;
+  threadId: string | null;
+  replyToMessageId: string | null;
+  attachmentCount: number;
+  sendAt: Date;
+  status: "scheduled" | "sending" | "failed";
+  attempts: number;
+  lastError: string | null;
+}
+
+export interface QueueMessageInput {
+  mode: "new" | "reply" | "forward";
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  body: string;
+  isHtml?: boolean;
+  threadId?: string | null;
+  replyToMessageId?: string | null;
+  attachments?: SendReplyData["attachments"];
+  followUpDuration?: number;
+  sendAt?: Date | string;
+}
+
+export interface OutboxStatusEvent {
+  id: string;
+  userEmail: string;
+  subject: string;
+  status: "sent" | "retrying" | "failed";
+  error?: string;
+  retryAt?: Date;
+}
+
+interface OutboxContext {
+  queueMessage: (
+    userEmail: string,
+    input: QueueMessageInput,
+  ) => Promise<OutboxItem>;
+  getOutbox: (userEmail: string) => Promise<OutboxItem[]>;
+  rescheduleMessage: (
+    userEmail: string,
+    id: string,
+    sendAt: Date,
+  ) => Promise<OutboxItem>;
+  cancelMessage: (
+    userEmail: string,
+    id: string,
+  ) => Promise<{ success: boolean }>;
+  sendNow: (userEmail: string, id: string) => Promise<OutboxItem>;
+  moveToDrafts: (userEmail: string, id: string) => Promise<DraftDetails>;
+  onStatusChange: (callback: (event: OutboxStatusEvent) => void) => () => void;
+}
+
+export interface FollowUpDetails {
+  id: string;
+  threadId: string;
+  subject: string;
+  recipients: string[];
+  sentAt: Date;
+  dueAt: Date;
+  status: "pending" | "due" | "replied" | "done";
+  predraft: string | null;
+  firedAt: Date | null;
+}
+
+export interface FollowUpDueEvent {
+  id: string;
+  userEmail: string;
+  threadId: string;
+  subject: string;
+  hasPredraft: boolean;
+}
+
+interface FollowUpsContext {
+  getThreadFollowUp: (
+    userEmail: string,
+    threadId: string,
+  ) => Promise<FollowUpDetails | null>;
+  dismissFollowUp: (
+    userEmail: string,
+    id: string,
+  ) => Promise<{ success: boolean }>;
+  onFollowUpDue: (callback: (event: FollowUpDueEvent) => void) => () => void;
+}
+
+export interface StoredInlineImage {
+  name: string;
+  url: string;
+  size: number;
+}
+
+interface InlineImagesContext {
+  saveImage: (
+    data: ArrayBuffer,
+    mimeType: string,
+  ) => Promise<StoredInlineImage>;
+}
+
+export type AttachmentCategory =
+  "image" | "pdf" | "document" | "spreadsheet" | "calendar" | "other";
+
+export interface AttachmentDetails {
+  id: string;
+  externalId: string;
+  messageId: string;
+  threadId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  category: AttachmentCategory;
+  previewKind: "image" | "pdf" | "text" | "csv" | "ics" | null;
+  url: string;
+  isCached: boolean;
+  sender: string;
+  senderEmail: string;
+  subject: string;
+  timestamp: Date;
+}
+
+export interface AttachmentListFilter {
+  sender?: string;
+  category?: AttachmentCategory;
+  after?: Date | string;
+  before?: Date | string;
+}
+
+interface AttachmentsContext {
+  getAttachment: (
+    userEmail: string,
+    messageId: string,
+    attachmentId: string,
+  ) => Promise<AttachmentDetails>;
+  listAttachments: (
+    userEmail: string,
+    filter?: AttachmentListFilter,
+    limit?: number,
+    offset?: number,
+  ) => Promise<{ attachments: AttachmentDetails[]; hasMore: boolean }>;
+  saveAttachment: (
+    userEmail: string,
+    id: string,
+  ) => Promise<{ saved: boolean }>;
+}
+
+export interface RemoteContentReport {
+  remoteLoaded: boolean;
+  resources: Array<{
+    url: string;
+    host: string;
+    kind: "image" | "stylesheet" | "font" | "media";
+    tracker: "known-tracker" | "tracking-pixel" | "tracking-url" | null;
+    blocked: boolean;
+  }>;
+}
+
+export interface MessageView {
+  url: string;
+  senderEmail: string;
+  senderAllowed: boolean;
+  report: RemoteContentReport;
+}
+
+interface EmailViewContext {
+  getMessageView: (
+    userEmail: string,
+    messageId: string,
+    loadRemote?: boolean,
+  ) => Promise<MessageView>;
+  setSenderRemoteContent: (
+    userEmail: string,
+    senderEmail: string,
+    allowed: boolean,
+  ) => Promise<void>;
+}
+
+export interface RelayRegistration {
+  provider?: "google" | "outlook";
+  token: string;
+  outlookClientState?: string;
+}
+
+export interface RelayConnection {
+  url: string;
+  registration: RelayRegistration;
+}
+
+interface RelayContext {
+  getConnection: (userEmail: string) => Promise<RelayConnection>;
+}
+
+type SyncStatus = "idle" | "syncing" | "error" | "offline";
+
+interface SyncStatusEvent {
+  userEmail: string;
+  status: SyncStatus;
+  lastSyncedAt: Date | null;
+  error: string | null;
+  retryAt: Date | null;
+}
+
+interface PendingOperationsEvent {
+  userEmail: string;
+  pending: number;
+  conflicts: string[];
+}
+
+interface SyncContext {
+  requestSync: (userEmail: string) => Promise<void>;
+  setRelayConnected: (userEmail: string, connected: boolean) => Promise<void>;
+  getStatuses: () => Promise<SyncStatusEvent[]>;
+  onStatusChange: (callback: (event: SyncStatusEvent) => void) => () => void;
+  getPendingCounts: () => Promise<Record<string, number>>;
+  onPendingChange: (
+    callback: (event: PendingOperationsEvent) => void,
+  ) => () => void;
+}
+
 export {};
@@ -0,0 +1,5 @@
+export const AI_CHANNELS = {
+  GENERATE_DRAFT: "ai:generate-draft",
+  CANCEL_DRAFT: "ai:cancel-draft",
+  DRAFT_DELTA: "ai:draft-delta", // Main -> renderer, streamed text
+} as const;
@@ -0,0 +1,49 @@
+import { contextBridge, ipcRenderer } from "electron";
+import { AI_CHANNELS } from "./ai-channels";
+import type { DraftRequest, DraftResult } from "@/services/drafting";
+
+export interface AiContext {
+  generateDraft: (
+    requestId: string,
+    userEmail: string,
+    request: DraftRequest,
+    onDelta?: (delta: string) => void,
+  ) => Promise<DraftResult>;
+  cancelDraft: (requestId: string) => Promise<{ success: boolean }>;
+}
+
+const aiContext: AiContext = {
+  generateDraft: (
+    requestId: string,
+    userEmail: string,
+    request: DraftRequest,
+    onDelta?: (delta: string) => void,
+  ) => {
+    if (!onDelta) {
+      return ipcRenderer.invoke(
+        AI_CHANNELS.GENERATE_DRAFT,
+        requestId,
+        userEmail,
+        request,
+      );
+    }
+
+    const listener = (
+      _: unknown,
+      data: { requestId: string; delta: string },
+    ) => {
+      if (data.requestId === requestId) onDelta(data.delta);
+    };
+    ipcRenderer.on(AI_CHANNELS.DRAFT_DELTA, listener);
+
+    return ipcRenderer
+      .invoke(AI_CHANNELS.GENERATE_DRAFT, requestId, userEmail, request)
+      .finally(() => {
+        ipcRenderer.removeListener(AI_CHANNELS.DRAFT_DELTA, listener);
+      });
+  },
+  cancelDraft: (requestId: string) =>
+    ipcRenderer.invoke(AI_CHANNELS.CANCEL_DRAFT, requestId),
+};
+
+contextBridge.exposeInMainWorld("ai", aiContext);
@@ -0,0 +1,49 @@
+import { BrowserWindow, ipcMain } from "electron";
+import { DraftingService, DraftRequest } from "@/services/drafting";
+import { AI_CHANNELS } from "./ai-channels";
+
+let draftingService: DraftingService;
+
+// Drafts being generated, by the renderer's request id
+const activeDrafts = new Map<string, AbortController>();
+
+export function registerAiListeners(mainWindow: BrowserWindow) {
+  draftingService = new DraftingService();
+
+  ipcMain.handle(
+    AI_CHANNELS.GENERATE_DRAFT,
+    async (_, requestId: string, userEmail: string, request: DraftRequest) => {
+      const controller = new AbortController();
+      activeDrafts.set(requestId, controller);
+      try {
+        console.log(`[IPC_AI] Generating draft ${requestId} for ${userEmail}`);
+        return await draftingService.generateDraft(
+          userEmail,
+          request,
+          (delta) => {
+            if (mainWindow.isDestroyed()) return;
+            mainWindow.webContents.send(AI_CHANNELS.DRAFT_DELTA, {
+              requestId,
+              delta,
+            });
+          },
+          controller.signal,
+        );
+      } catch (error) {
+        console.error(`[IPC_AI] Error generating draft ${requestId}:`, error);
+        throw error;
+      } finally {
+        activeDrafts.delete(requestId);
+      }
+    },
+  );
+
+  ipcMain.handle(AI_CHANNELS.CANCEL_DRAFT, async (_, requestId: string) => {
+    const controller = activeDrafts.get(requestId);
+    if (!controller) return { success: false };
+
+    console.log(`[IPC_AI] Cancelling draft ${requestId}`);
+    controller.abort();
+    return { success: true };
+  });
+}
@@ -0,0 +1,5 @@
+export const ATTACHMENTS_CHANNELS = {
+  GET_ATTACHMENT: "attachments:get",
+  LIST_ATTACHMENTS: "attachments:list",
+  SAVE_ATTACHMENT: "attachments:save",
+} as const;
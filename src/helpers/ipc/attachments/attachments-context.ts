@@ -0,0 +1,52 @@
+import { contextBridge, ipcRenderer } from "electron";
+import { ATTACHMENTS_CHANNELS } from "./attachments-channels";
+import type {
+  AttachmentDetails,
+  AttachmentListFilter,
+} from "@/services/attachments";
+
+export interface AttachmentsContext {
+  getAttachment: (
+    userEmail: string,
+    messageId: string,
+    attachmentId: string,
+  ) => Promise<AttachmentDetails>;
+  listAttachments: (
+    userEmail: string,
+    filter?: AttachmentListFilter,
+    limit?: number,
+    offset?: number,
+  ) => Promise<{ attachments: AttachmentDetails[]; hasMore: boolean }>;
+  // Asks where to save; false when the user cancels
+  saveAttachment: (
+    userEmail: string,
+    id: string,
+  ) => Promise<{ saved: boolean }>;
+}
+
+const attachmentsContext: AttachmentsContext = {
+  getAttachment: (userEmail: string, messageId: string, attachmentId: string) =>
+    ipcRenderer.invoke(
+      ATTACHMENTS_CHANNELS.GET_ATTACHMENT,
+      userEmail,
+      messageId,
+      attachmentId,
+    ),
+  listAttachments: (
+    userEmail: string,
+    filter?: AttachmentListFilter,
+    limit?: number,
+    offset?: number,
+  ) =>
+    ipcRenderer.invoke(
+      ATTACHMENTS_CHANNELS.LIST_ATTACHMENTS,
+      userEmail,
+      filter,
+      limit,
+      offset,
+    ),
+  saveAttachment: (userEmail: string, id: string) =>
+    ipcRenderer.invoke(ATTACHMENTS_CHANNELS.SAVE_ATTACHMENT, userEmail, id),
+};
+
+contextBridge.exposeInMainWorld("attachments", attachmentsContext);
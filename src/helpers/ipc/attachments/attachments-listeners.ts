@@ -0,0 +1,99 @@
+import { BrowserWindow, dialog, ipcMain, protocol } from "electron";
+import {
+  AttachmentListFilter,
+  AttachmentService,
+} from "@/services/attachments";
+import { ATTACHMENT_SCHEME } from "@/lib/attachments";
+import { ATTACHMENTS_CHANNELS } from "./attachments-channels";
+
+let attachmentService: AttachmentService;
+
+export function registerAttachmentsListeners(mainWindow: BrowserWindow) {
+  attachmentService = new AttachmentService();
+
+  attachmentService.pruneCache().catch((error) => {
+    console.error(`[IPC_ATTACHMENTS] Error pruning the cache:`, error);
+  });
+
+  // Previews load attachments from the cache, downloading on first use
+  protocol.handle(ATTACHMENT_SCHEME, async (request) => {
+    const id = new URL(request.url).hostname;
+    try {
+      const { data, mimeType } = await attachmentService.readAttachment(id);
+      return new Response(new Uint8Array(data), {
+        headers: { "Content-Type": mimeType },
+      });
+    } catch (error) {
+      console.error(`[IPC_ATTACHMENTS] Error loading attachment ${id}:`, error);
+      return new Response("Not found", { status: 404 });
+    }
+  });
+
+  ipcMain.handle(
+    ATTACHMENTS_CHANNELS.GET_ATTACHMENT,
+    async (_, userEmail: string, messageId: string, attachmentId: string) => {
+      try {
+        return await attachmentService.getAttachment(
+          userEmail,
+          messageId,
+          attachmentId,
+        );
+      } catch (error) {
+        console.error(
+          `[IPC_ATTACHMENTS] Error getting attachment ${attachmentId}:`,
+          error,
+        );
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(
+    ATTACHMENTS_CHANNELS.LIST_ATTACHMENTS,
+    async (
+      _,
+      userEmail: string,
+      filter?: AttachmentListFilter,
+      limit?: number,
+      offset?: number,
+    ) => {
+      try {
+        return await attachmentService.listAttachments(
+          userEmail,
+          filter,
+          limit,
+          offset,
+        );
+      } catch (error) {
+        console.error(`[IPC_ATTACHMENTS] Error listing attachments:`, error);
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(
+    ATTACHMENTS_CHANNELS.SAVE_ATTACHMENT,
+    async (_, userEmail: string, id: string) => {
+      try {
+        const attachment = await attachmentService.getAttachmentById(
+          userEmail,
+          id,
+        );
+
+        const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
+          defaultPath: attachment.filename,
+        });
+        if (canceled || !filePath) return { saved: false };
+
+        await attachmentService.saveAttachmentTo(attachment.id, filePath);
+        return { saved: true };
+      } catch (error) {
+        console.error(
+          `[IPC_ATTACHMENTS] Error saving attachment ${id}:`,
+          error,
+        );
+        throw error;
+      }
+    },
+  );
+}
@@ -0,0 +1,8 @@
+export const CONTACTS_CHANNELS = {
+  SEARCH: "contacts:search",
+  GET_CONTACTS: "contacts:get",
+  SAVE_CONTACT: "contacts:save",
+  DELETE_CONTACT: "contacts:delete",
+  MERGE_CONTACTS: "contacts:merge",
+  IMPORT_CONTACTS: "contacts:import",
+} as const;
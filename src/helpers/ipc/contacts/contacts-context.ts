@@ -0,0 +1,49 @@
+import { contextBridge, ipcRenderer } from "electron";
+import { CONTACTS_CHANNELS } from "./contacts-channels";
+import type { ContactDetails, SaveContactInput } from "@/services/contacts";
+import type { ContactSuggestion } from "@/lib/contacts";
+
+export interface ContactsContext {
+  search: (
+    userEmail: string,
+    query: string,
+    limit?: number,
+  ) => Promise<ContactSuggestion[]>;
+  getContacts: (userEmail: string) => Promise<ContactDetails[]>;
+  saveContact: (
+    userEmail: string,
+    input: SaveContactInput,
+  ) => Promise<ContactDetails>;
+  deleteContact: (
+    userEmail: string,
+    id: string,
+  ) => Promise<{ success: boolean }>;
+  mergeContacts: (
+    userEmail: string,
+    targetId: string,
+    mergedIds: string[],
+  ) => Promise<ContactDetails>;
+  importContacts: (userEmail: string) => Promise<{ added: number }>;
+}
+
+const contactsContext: ContactsContext = {
+  search: (userEmail: string, query: string, limit?: number) =>
+    ipcRenderer.invoke(CONTACTS_CHANNELS.SEARCH, userEmail, query, limit),
+  getContacts: (userEmail: string) =>
+    ipcRenderer.invoke(CONTACTS_CHANNELS.GET_CONTACTS, userEmail),
+  saveContact: (userEmail: string, input: SaveContactInput) =>
+    ipcRenderer.invoke(CONTACTS_CHANNELS.SAVE_CONTACT, userEmail, input),
+  deleteContact: (userEmail: string, id: string) =>
+    ipcRenderer.invoke(CONTACTS_CHANNELS.DELETE_CONTACT, userEmail, id),
+  mergeContacts: (userEmail: string, targetId: string, mergedIds: string[]) =>
+    ipcRenderer.invoke(
+      CONTACTS_CHANNELS.MERGE_CONTACTS,
+      userEmail,
+      targetId,
+      mergedIds,
+    ),
+  importContacts: (userEmail: string) =>
+    ipcRenderer.invoke(CONTACTS_CHANNELS.IMPORT_CONTACTS, userEmail),
+};
+
+contextBridge.exposeInMainWorld("contacts", contactsContext);
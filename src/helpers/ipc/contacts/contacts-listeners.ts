@@ -0,0 +1,93 @@
+import { ipcMain } from "electron";
+import { ContactService, SaveContactInput } from "@/services/contacts";
+import { CONTACTS_CHANNELS } from "./contacts-channels";
+
+let contactService: ContactService;
+
+export function registerContactsListeners() {
+  contactService = new ContactService();
+
+  ipcMain.handle(
+    CONTACTS_CHANNELS.SEARCH,
+    async (_, userEmail: string, query: string, limit?: number) => {
+      try {
+        return await contactService.search(userEmail, query, limit);
+      } catch (error) {
+        console.error(`[IPC_CONTACTS] Error searching contacts:`, error);
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(
+    CONTACTS_CHANNELS.GET_CONTACTS,
+    async (_, userEmail: string) => {
+      try {
+        return await contactService.getContacts(userEmail);
+      } catch (error) {
+        console.error(`[IPC_CONTACTS] Error getting contacts:`, error);
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(
+    CONTACTS_CHANNELS.SAVE_CONTACT,
+    async (_, userEmail: string, input: SaveContactInput) => {
+      try {
+        console.log(`[IPC_CONTACTS] Saving contact: ${input.email}`);
+        return await contactService.saveContact(userEmail, input);
+      } catch (error) {
+        console.error(`[IPC_CONTACTS] Error saving contact:`, error);
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(
+    CONTACTS_CHANNELS.DELETE_CONTACT,
+    async (_, userEmail: string, id: string) => {
+      try {
+        console.log(`[IPC_CONTACTS] Deleting contact: ${id}`);
+        await contactService.deleteContact(userEmail, id);
+        return { success: true };
+      } catch (error) {
+        console.error(`[IPC_CONTACTS] Error deleting contact ${id}:`, error);
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(
+    CONTACTS_CHANNELS.MERGE_CONTACTS,
+    async (_, userEmail: string, targetId: string, mergedIds: string[]) => {
+      try {
+        console.log(
+          `[IPC_CONTACTS] Merging ${mergedIds.length} contacts into ${targetId}`,
+        );
+        return await contactService.mergeContacts(
+          userEmail,
+          targetId,
+          mergedIds,
+        );
+      } catch (error) {
+        console.error(`[IPC_CONTACTS] Error merging contacts:`, error);
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(
+    CONTACTS_CHANNELS.IMPORT_CONTACTS,
+    async (_, userEmail: string) => {
+      try {
+        console.log(`[IPC_CONTACTS] Importing contacts for ${userEmail}`);
+        const added = await contactService.importProviderContacts(userEmail);
+        return { added };
+      } catch (error) {
+        console.error(`[IPC_CONTACTS] Error importing contacts:`, error);
+        throw error;
+      }
+    },
+  );
+}
@@ -4,6 +4,20 @@ import "./oauth/oauth-context";
 import "./email/email-context";
 import "./calendar/calendar-context";
 import "./places/places-context";
+import "./llm/llm-context";
+import "./labels/labels-context";
+import "./rules/rules-context";
+import "./importance/importance-context";
+import "./contacts/contacts-context";
+import "./ai/ai-context";
+import "./drafts/drafts-context";
+import "./outbox/outbox-context";
+import "./follow-ups/follow-ups-context";
+import "./inline-images/inline-images-context";
+import "./attachments/attachments-context";
+import "./email-view/email-view-context";
+import "./relay/relay-context";
+import "./sync/sync-context";
 import { exposeOnboardingContext } from "./onboarding/onboarding-context";
 
 export default function exposeContexts() {
@@ -0,0 +1,8 @@
+export const DRAFTS_CHANNELS = {
+  GET_DRAFTS: "drafts:get",
+  GET_THREAD_DRAFT: "drafts:get-thread",
+  SAVE_DRAFT: "drafts:save",
+  DELETE_DRAFT: "drafts:delete",
+  SEND_DRAFT: "drafts:send",
+  SYNC_DRAFTS: "drafts:sync",
+} as const;
@@ -0,0 +1,35 @@
+import { contextBridge, ipcRenderer } from "electron";
+import { DRAFTS_CHANNELS } from "./drafts-channels";
+import type { DraftDetails, SaveDraftInput } from "@/services/drafts";
+
+export interface DraftsContext {
+  getDrafts: (userEmail: string) => Promise<DraftDetails[]>;
+  getThreadDraft: (
+    userEmail: string,
+    threadId: string,
+  ) => Promise<DraftDetails | null>;
+  saveDraft: (
+    userEmail: string,
+    input: SaveDraftInput,
+  ) => Promise<DraftDetails | null>;
+  deleteDraft: (userEmail: string, id: string) => Promise<{ success: boolean }>;
+  sendDraft: (userEmail: string, id: string) => Promise<{ success: boolean }>;
+  syncDrafts: (userEmail: string) => Promise<DraftDetails[]>;
+}
+
+const draftsContext: DraftsContext = {
+  getDrafts: (userEmail: string) =>
+    ipcRenderer.invoke(DRAFTS_CHANNELS.GET_DRAFTS, userEmail),
+  getThreadDraft: (userEmail: string, threadId: string) =>
+    ipcRenderer.invoke(DRAFTS_CHANNELS.GET_THREAD_DRAFT, userEmail, threadId),
+  saveDraft: (userEmail: string, input: SaveDraftInput) =>
+    ipcRenderer.invoke(DRAFTS_CHANNELS.SAVE_DRAFT, userEmail, input),
+  deleteDraft: (userEmail: string, id: string) =>
+    ipcRenderer.invoke(DRAFTS_CHANNELS.DELETE_DRAFT, userEmail, id),
+  sendDraft: (userEmail: string, id: string) =>
+    ipcRenderer.invoke(DRAFTS_CHANNELS.SEND_DRAFT, userEmail, id),
+  syncDrafts: (userEmail: string) =>
+    ipcRenderer.invoke(DRAFTS_CHANNELS.SYNC_DRAFTS, userEmail),
+};
+
+contextBridge.exposeInMainWorld("drafts", draftsContext);
@@ -0,0 +1,83 @@
+import { ipcMain } from "electron";
+import { DraftService, SaveDraftInput } from "@/services/drafts";
+import { DRAFTS_CHANNELS } from "./drafts-channels";
+
+let draftService: DraftService;
+
+export function registerDraftsListeners() {
+  draftService = new DraftService();
+
+  ipcMain.handle(DRAFTS_CHANNELS.GET_DRAFTS, async (_, userEmail: string) => {
+    try {
+      return await draftService.getDrafts(userEmail);
+    } catch (error) {
+      console.error(`[IPC_DRAFTS] Error getting drafts:`, error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle(
+    DRAFTS_CHANNELS.GET_THREAD_DRAFT,
+    async (_, userEmail: string, threadId: string) => {
+      try {
+        return await draftService.getThreadDraft(userEmail, threadId);
+      } catch (error) {
+        console.error(
+          `[IPC_DRAFTS] Error getting draft for thread ${threadId}:`,
+          error,
+        );
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(
+    DRAFTS_CHANNELS.SAVE_DRAFT,
+    async (_, userEmail: string, input: SaveDraftInput) => {
+      try {
+        return await draftService.saveDraft(userEmail, input);
+      } catch (error) {
+        console.error(`[IPC_DRAFTS] Error saving draft:`, error);
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(
+    DRAFTS_CHANNELS.DELETE_DRAFT,
+    async (_, userEmail: string, id: string) => {
+      try {
+        console.log(`[IPC_DRAFTS] Deleting draft: ${id}`);
+        await draftService.deleteDraft(userEmail, id);
+        return { success: true };
+      } catch (error) {
+        console.error(`[IPC_DRAFTS] Error deleting draft ${id}:`, error);
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(
+    DRAFTS_CHANNELS.SEND_DRAFT,
+    async (_, userEmail: string, id: string) => {
+      try {
+        console.log(`[IPC_DRAFTS] Sending draft: ${id}`);
+        await draftService.sendDraft(userEmail, id);
+        return { success: true };
+      } catch (error) {
+        console.error(`[IPC_DRAFTS] Error sending draft ${id}:`, error);
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(DRAFTS_CHANNELS.SYNC_DRAFTS, async (_, userEmail: string) => {
+    try {
+      console.log(`[IPC_DRAFTS] Syncing drafts for ${userEmail}`);
+      return await draftService.syncProviderDrafts(userEmail);
+    } catch (error) {
+      console.error(`[IPC_DRAFTS] Error syncing drafts:`, error);
+      throw error;
+    }
+  });
+}
@@ -0,0 +1,4 @@
+export const EMAIL_VIEW_CHANNELS = {
+  GET_MESSAGE_VIEW: "email-view:get-message-view",
+  SET_SENDER_REMOTE_CONTENT: "email-view:set-sender-remote-content",
+} as const;
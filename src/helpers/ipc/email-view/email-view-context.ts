@@ -0,0 +1,44 @@
+import { contextBridge, ipcRenderer } from "electron";
+import { EMAIL_VIEW_CHANNELS } from "./email-view-channels";
+import type { MessageView } from "@/services/email-view";
+
+export interface EmailViewContext {
+  getMessageView: (
+    userEmail: string,
+    messageId: string,
+    loadRemote?: boolean,
+  ) => Promise<MessageView>;
+  // Adds the sender to, or removes them from, the remote content allow-list
+  setSenderRemoteContent: (
+    userEmail: string,
+    senderEmail: string,
+    allowed: boolean,
+  ) => Promise<void>;
+}
+
+const emailViewContext: EmailViewContext = {
+  getMessageView: (
+    userEmail: string,
+    messageId: string,
+    loadRemote?: boolean,
+  ) =>
+    ipcRenderer.invoke(
+      EMAIL_VIEW_CHANNELS.GET_MESSAGE_VIEW,
+      userEmail,
+      messageId,
+      loadRemote,
+    ),
+  setSenderRemoteContent: (
+    userEmail: string,
+    senderEmail: string,
+    allowed: boolean,
+  ) =>
+    ipcRenderer.invoke(
+      EMAIL_VIEW_CHANNELS.SET_SENDER_REMOTE_CONTENT,
+      userEmail,
+      senderEmail,
+      allowed,
+    ),
+};
+
+contextBridge.exposeInMainWorld("emailView", emailViewContext);
@@ -0,0 +1,86 @@
+import { BrowserWindow, ipcMain, protocol } from "electron";
+import { EmailViewService } from "@/services/email-view";
+import { EMAIL_VIEW_SCHEME, parseEmailViewUrl } from "@/lib/email-view";
+import { EMAIL_VIEW_CHANNELS } from "./email-view-channels";
+
+let emailViewService: EmailViewService;
+
+export function registerEmailViewListeners(mainWindow: BrowserWindow) {
+  emailViewService = new EmailViewService();
+
+  // Message frames load their documents from here, policy and all
+  protocol.handle(EMAIL_VIEW_SCHEME, async (request) => {
+    const view = parseEmailViewUrl(request.url);
+    if (!view) return new Response("Not found", { status: 404 });
+    try {
+      const { html, policy } = await emailViewService.renderMessage(
+        view.emailId,
+        view.loadRemote,
+      );
+      return new Response(html, {
+        headers: {
+          "Content-Type": "text/html; charset=utf-8",
+          "Content-Security-Policy": policy,
+          "Cache-Control": "no-store",
+        },
+      });
+    } catch (error) {
+      console.error(
+        `[IPC_EMAIL_VIEW] Error rendering message ${view.emailId}:`,
+        error,
+      );
+      return new Response("Not found", { status: 404 });
+    }
+  });
+
+  // Links are handed to the app by the frame script. Anything else that
+  // would take a message frame elsewhere, like a meta refresh, is stopped.
+  mainWindow.webContents.on("will-frame-navigate", (event) => {
+    const { frame, url } = event;
+    if (
+      !event.isMainFrame &&
+      frame?.url.startsWith(`${EMAIL_VIEW_SCHEME}:`) &&
+      !url.startsWith(`${EMAIL_VIEW_SCHEME}:`)
+    ) {
+      event.preventDefault();
+    }
+  });
+
+  ipcMain.handle(
+    EMAIL_VIEW_CHANNELS.GET_MESSAGE_VIEW,
+    async (_, userEmail: string, messageId: string, loadRemote?: boolean) => {
+      try {
+        return await emailViewService.getMessageView(
+          userEmail,
+          messageId,
+          loadRemote,
+        );
+      } catch (error) {
+        console.error(
+          `[IPC_EMAIL_VIEW] Error getting view of message ${messageId}:`,
+          error,
+        );
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(
+    EMAIL_VIEW_CHANNELS.SET_SENDER_REMOTE_CONTENT,
+    async (_, userEmail: string, senderEmail: string, allowed: boolean) => {
+      try {
+        await emailViewService.setSenderRemoteContent(
+          userEmail,
+          senderEmail,
+          allowed,
+        );
+      } catch (error) {
+        console.error(
+          `[IPC_EMAIL_VIEW] Error updating remote content for ${senderEmail}:`,
+          error,
+        );
+        throw error;
+      }
+    },
+  );
+}
@@ -4,11 +4,15 @@ export const EMAIL_CHANNELS = {
   GET_THREAD_EMAILS: "email:get-thread-emails",
   MARK_EMAIL_AS_READ: "email:mark-as-read",
   SEND_EMAIL: "email:send-email",
+  SEND_REPLY: "email:send-reply",
   SETUP_GMAIL_PUSH_NOTIFICATIONS: "email:setup-gmail-push",
   SETUP_OUTLOOK_WEBHOOK: "email:setup-outlook-webhook",
+  REMOVE_OUTLOOK_WEBHOOK: "email:remove-outlook-webhook",
   EMAIL_ERROR: "email:error",
   NEW_EMAIL_NOTIFICATION: "email:new-email",
+  MAIL_CHANGED: "email:mail-changed",
   GET_INBOX_EMAILS_FROM_DB: "email:get-inbox-emails-from-db",
+  GET_UNIFIED_INBOX_FROM_DB: "email:get-unified-inbox-from-db",
   GET_IMPORTANT_EMAILS_FROM_DB: "email:get-important-emails-from-db",
   GET_VIP_EMAILS_FROM_DB: "email:get-vip-emails-from-db",
   PROCESS_AND_LABEL_EMAILS: "email:process-and-label-emails",
@@ -16,7 +20,14 @@ export const EMAIL_CHANNELS = {
   PERFORM_INITIAL_SYNC: "email:perform-initial-sync",
   UPDATE_MESSAGE_LABELS: "email:update-message-labels",
   INITIAL_SYNC_PROGRESS: "email:initial-sync-progress",
+  GET_INITIAL_SYNC_STATE: "email:get-initial-sync-state",
+  SET_SYNC_WINDOW: "email:set-sync-window",
+  PAUSE_INITIAL_SYNC: "email:pause-initial-sync",
+  RESUME_INITIAL_SYNC: "email:resume-initial-sync",
   DOWNLOAD_ATTACHMENT: "email:download-attachment",
+  SEARCH_EMAILS: "email:search",
+  APPLY_THREAD_ACTION: "email:apply-thread-action",
+  GET_MAIL_FOLDERS: "email:get-mail-folders",
 } as const;
 
 export type EmailChannels = typeof EMAIL_CHANNELS;
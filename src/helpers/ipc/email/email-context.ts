@@ -1,6 +1,21 @@
 import { contextBridge, ipcRenderer } from "electron";
 import { EMAIL_CHANNELS } from "./email-channels";
-import type { EmailThread, EmailMessage } from "../../../services/email";
+import type {
+  EmailThread,
+  EmailMessage,
+  SendReplyData,
+} from "../../../services/email";
+import type {
+  MailFolder,
+  ThreadAction,
+  ThreadActionResult,
+} from "../../../lib/thread-actions";
+import type { MailChangedEvent } from "../../../lib/sync-changes";
+import type {
+  InitialSyncProgress,
+  InitialSyncState,
+  SyncWindow,
+} from "../../../lib/initial-sync";
 
 export interface EmailContext {
   getInboxEmails: (
@@ -24,13 +39,21 @@ export interface EmailContext {
     body: string,
     isHtml?: boolean,
   ) => Promise<void>;
+  sendReply: (userEmail: string, data: SendReplyData) => Promise<void>;
   setupGmailPushNotifications: (userEmail: string) => Promise<void>;
-  setupOutlookWebhook: (userEmail: string, webhookUrl: string) => Promise<void>;
+  setupOutlookWebhook: (userEmail: string) => Promise<void>;
+  // Deletes the account's subscription, on sign-out
+  removeOutlookWebhook: (userEmail: string) => Promise<void>;
   getInboxEmailsFromDB: (
     userEmail: string,
     limit?: number,
     offset?: number,
   ) => Promise<{ emails: EmailThread[]; hasMore: boolean }>;
+  getUnifiedInboxFromDB: (
+    userEmails: string[],
+    limit?: number,
+    offset?: number,
+  ) => Promise<{ emails: EmailThread[]; hasMore: boolean }>;
   getImportantEmailsFromDB: (
     userEmail: string,
     limit?: number,
@@ -68,16 +91,36 @@ export interface EmailContext {
     filename: string;
     mimeType: string;
   }>;
+  searchEmails: (
+    userEmail: string,
+    query: string,
+    limit?: number,
+    offset?: number,
+  ) => Promise<{ emails: EmailThread[]; hasMore: boolean }>;
+  applyThreadAction: (
+    userEmail: string,
+    threadId: string,
+    action: ThreadAction,
+  ) => Promise<ThreadActionResult>;
+  getMailFolders: (userEmail: string) => Promise<MailFolder[]>;
+  getInitialSyncState: (userEmail: string) => Promise<InitialSyncState>;
+  setSyncWindow: (
+    userEmail: string,
+    syncWindow: SyncWindow,
+  ) => Promise<InitialSyncState>;
+  pauseInitialSync: (userEmail: string) => Promise<InitialSyncState>;
+  resumeInitialSync: (userEmail: string) => Promise<InitialSyncState>;
   onEmailError: (callback: (error: string) => void) => void;
   onNewEmailNotification: (
     callback: (data: { userEmail: string; newEmails: EmailThread[] }) => void,
-  ) => void;
+  ) => () => void;
+  onMailChanged: (callback: (event: MailChangedEvent) => void) => () => void;
   onInitialSyncProgress: (
     callback: (data: {
       userEmail: string;
-      progress: { processed: number; total: number; currentEmail: string };
+      progress: InitialSyncProgress;
     }) => void,
-  ) => void;
+  ) => () => void;
 }
 
 const emailContext: EmailContext = {
@@ -113,17 +156,17 @@ const emailContext: EmailContext = {
       body,
       isHtml,
     ),
+  sendReply: (userEmail: string, data: SendReplyData) =>
+    ipcRenderer.invoke(EMAIL_CHANNELS.SEND_REPLY, userEmail, data),
   setupGmailPushNotifications: (userEmail: string) =>
     ipcRenderer.invoke(
       EMAIL_CHANNELS.SETUP_GMAIL_PUSH_NOTIFICATIONS,
       userEmail,
     ),
-  setupOutlookWebhook: (userEmail: string, webhookUrl: string) =>
-    ipcRenderer.invoke(
-      EMAIL_CHANNELS.SETUP_OUTLOOK_WEBHOOK,
-      userEmail,
-      webhookUrl,
-    ),
+  setupOutlookWebhook: (userEmail: string) =>
+    ipcRenderer.invoke(EMAIL_CHANNELS.SETUP_OUTLOOK_WEBHOOK, userEmail),
+  removeOutlookWebhook: (userEmail: string) =>
+    ipcRenderer.invoke(EMAIL_CHANNELS.REMOVE_OUTLOOK_WEBHOOK, userEmail),
   getInboxEmailsFromDB: (userEmail: string, limit?: number, offset?: number) =>
     ipcRenderer.invoke(
       EMAIL_CHANNELS.GET_INBOX_EMAILS_FROM_DB,
@@ -131,6 +174,17 @@ const emailContext: EmailContext = {
       limit,
       offset,
     ),
+  getUnifiedInboxFromDB: (
+    userEmails: string[],
+    limit?: number,
+    offset?: number,
+  ) =>
+    ipcRenderer.invoke(
+      EMAIL_CHANNELS.GET_UNIFIED_INBOX_FROM_DB,
+      userEmails,
+      limit,
+      offset,
+    ),
   getImportantEmailsFromDB: (
     userEmail: string,
     limit?: number,
@@ -225,18 +279,75 @@ const emailContext: EmailContext = {
       messageId,
       attachmentId,
     ),
+  searchEmails: (
+    userEmail: string,
+    query: string,
+    limit?: number,
+    offset?: number,
+  ) =>
+    ipcRenderer.invoke(
+      EMAIL_CHANNELS.SEARCH_EMAILS,
+      userEmail,
+      query,
+      limit,
+      offset,
+    ),
+  applyThreadAction: (
+    userEmail: string,
+    threadId: string,
+    action: ThreadAction,
+  ) =>
+    ipcRenderer.invoke(
+      EMAIL_CHANNELS.APPLY_THREAD_ACTION,
+      userEmail,
+      threadId,
+      action,
+    ),
+  getMailFolders: (userEmail: string) =>
+    ipcRenderer.invoke(EMAIL_CHANNELS.GET_MAIL_FOLDERS, userEmail),
+  getInitialSyncState: (userEmail: string) =>
+    ipcRenderer.invoke(EMAIL_CHANNELS.GET_INITIAL_SYNC_STATE, userEmail),
+  setSyncWindow: (userEmail: string, syncWindow: SyncWindow) =>
+    ipcRenderer.invoke(EMAIL_CHANNELS.SET_SYNC_WINDOW, userEmail, syncWindow),
+  pauseInitialSync: (userEmail: string) =>
+    ipcRenderer.invoke(EMAIL_CHANNELS.PAUSE_INITIAL_SYNC, userEmail),
+  resumeInitialSync: (userEmail: string) =>
+    ipcRenderer.invoke(EMAIL_CHANNELS.RESUME_INITIAL_SYNC, userEmail),
   onEmailError: (callback) => {
     ipcRenderer.on(EMAIL_CHANNELS.EMAIL_ERROR, (_, error) => callback(error));
   },
   onNewEmailNotification: (callback) => {
-    ipcRenderer.on(EMAIL_CHANNELS.NEW_EMAIL_NOTIFICATION, (_, data) =>
-      callback(data),
-    );
+    const listener = (
+      _: unknown,
+      data: { userEmail: string; newEmails: EmailThread[] },
+    ) => callback(data);
+    ipcRenderer.on(EMAIL_CHANNELS.NEW_EMAIL_NOTIFICATION, listener);
+    return () => {
+      ipcRenderer.removeListener(
+        EMAIL_CHANNELS.NEW_EMAIL_NOTIFICATION,
+        listener,
+      );
+    };
+  },
+  onMailChanged: (callback) => {
+    const listener = (_: unknown, event: MailChangedEvent) => callback(event);
+    ipcRenderer.on(EMAIL_CHANNELS.MAIL_CHANGED, listener);
+    return () => {
+      ipcRenderer.removeListener(EMAIL_CHANNELS.MAIL_CHANGED, listener);
+    };
   },
   onInitialSyncProgress: (callback) => {
-    ipcRenderer.on(EMAIL_CHANNELS.INITIAL_SYNC_PROGRESS, (_, data) =>
-      callback(data),
-    );
+    const listener = (
+      _: unknown,
+      data: { userEmail: string; progress: InitialSyncProgress },
+    ) => callback(data);
+    ipcRenderer.on(EMAIL_CHANNELS.INITIAL_SYNC_PROGRESS, listener);
+    return () => {
+      ipcRenderer.removeListener(
+        EMAIL_CHANNELS.INITIAL_SYNC_PROGRESS,
+        listener,
+      );
+    };
   },
 };
 
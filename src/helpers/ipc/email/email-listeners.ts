@@ -1,11 +1,50 @@
 import { ipcMain, BrowserWindow } from "electron";
-import { EmailService, EmailThread } from "../../../services/email";
+import {
+  EmailService,
+  EmailThread,
+  SendReplyData,
+  onMailChanged,
+} from "../../../services/email";
+import { AttachmentService } from "../../../services/attachments";
+import { OutlookSubscriptionService } from "../../../services/outlook-subscriptions";
+import { InitialSyncService } from "../../../services/initial-sync";
+import { BodyBackfillService } from "../../../services/body-backfill";
+import type { ThreadAction } from "../../../lib/thread-actions";
+import type { SyncWindow } from "../../../lib/initial-sync";
 import { EMAIL_CHANNELS } from "./email-channels";
 
 let emailService: EmailService;
+let attachmentService: AttachmentService;
+let outlookSubscriptionService: OutlookSubscriptionService;
+let initialSyncService: InitialSyncService;
+let bodyBackfillService: BodyBackfillService;
 
 export function registerEmailListeners(mainWindow: BrowserWindow) {
   emailService = new EmailService();
+  attachmentService = new AttachmentService();
+  outlookSubscriptionService = new OutlookSubscriptionService();
+  initialSyncService = new InitialSyncService();
+  bodyBackfillService = new BodyBackfillService();
+
+  // Subscriptions are renewed in the background
+  outlookSubscriptionService.start();
+
+  // Older mail in each account's sync window comes in the background,
+  // resuming where it stopped when the app was last closed
+  initialSyncService.start((event) => {
+    if (mainWindow.isDestroyed()) return;
+    mainWindow.webContents.send(EMAIL_CHANNELS.INITIAL_SYNC_PROGRESS, event);
+  });
+
+  // Gmail mail is synced without bodies; they're loaded in the background
+  // for offline search and classification
+  bodyBackfillService.start();
+
+  // Mail read, moved or deleted in the provider, picked up by any sync
+  onMailChanged((event) => {
+    if (mainWindow.isDestroyed()) return;
+    mainWindow.webContents.send(EMAIL_CHANNELS.MAIL_CHANGED, event);
+  });
 
   ipcMain.handle(
     EMAIL_CHANNELS.GET_INBOX_EMAILS,
@@ -115,6 +154,8 @@ export function registerEmailListeners(mainWindow: BrowserWindow) {
         console.log(
           `[IPC_EMAIL] Successfully completed PERFORM_INITIAL_SYNC for user: ${userEmail}, processed ${result.newEmailsCount} emails`,
         );
+        // The rest of the window is backfilled
+        initialSyncService.wake();
 
         return result;
       } catch (error) {
@@ -253,6 +294,20 @@ export function registerEmailListeners(mainWindow: BrowserWindow) {
     },
   );
 
+  ipcMain.handle(
+    EMAIL_CHANNELS.SEND_REPLY,
+    async (_, userEmail: string, data: SendReplyData) => {
+      try {
+        await emailService.sendReply(userEmail, data);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to send reply";
+        mainWindow.webContents.send(EMAIL_CHANNELS.EMAIL_ERROR, errorMessage);
+        throw error;
+      }
+    },
+  );
+
   ipcMain.handle(
     EMAIL_CHANNELS.SETUP_GMAIL_PUSH_NOTIFICATIONS,
     async (_, userEmail: string) => {
@@ -271,9 +326,9 @@ export function registerEmailListeners(mainWindow: BrowserWindow) {
 
   ipcMain.handle(
     EMAIL_CHANNELS.SETUP_OUTLOOK_WEBHOOK,
-    async (_, userEmail: string, webhookUrl: string) => {
+    async (_, userEmail: string) => {
       try {
-        await emailService.setupOutlookWebhook(userEmail, webhookUrl);
+        await outlookSubscriptionService.subscribe(userEmail);
       } catch (error) {
         const errorMessage =
           error instanceof Error
@@ -285,6 +340,21 @@ export function registerEmailListeners(mainWindow: BrowserWindow) {
     },
   );
 
+  ipcMain.handle(
+    EMAIL_CHANNELS.REMOVE_OUTLOOK_WEBHOOK,
+    async (_, userEmail: string) => {
+      try {
+        await outlookSubscriptionService.unsubscribe(userEmail);
+      } catch (error) {
+        console.error(
+          `[IPC_EMAIL] Error removing Outlook webhook for ${userEmail}:`,
+          error,
+        );
+        throw error;
+      }
+    },
+  );
+
   ipcMain.handle(
     EMAIL_CHANNELS.GET_INBOX_EMAILS_FROM_DB,
     async (_, userEmail: string, limit?: number, offset?: number) => {
@@ -305,6 +375,29 @@ export function registerEmailListeners(mainWindow: BrowserWindow) {
     },
   );
 
+  ipcMain.handle(
+    EMAIL_CHANNELS.GET_UNIFIED_INBOX_FROM_DB,
+    async (_, userEmails: string[], limit?: number, offset?: number) => {
+      try {
+        console.log(
+          `[IPC_EMAIL] Fetching unified inbox from DB for ${userEmails.length} accounts, limit: ${limit}, offset: ${offset}`,
+        );
+        return await emailService.getUnifiedInboxFromDB(
+          userEmails,
+          limit,
+          offset,
+        );
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to fetch unified inbox from database";
+        mainWindow.webContents.send(EMAIL_CHANNELS.EMAIL_ERROR, errorMessage);
+        throw error;
+      }
+    },
+  );
+
   ipcMain.handle(
     EMAIL_CHANNELS.GET_IMPORTANT_EMAILS_FROM_DB,
     async (_, userEmail: string, limit?: number, offset?: number) => {
@@ -350,17 +443,13 @@ export function registerEmailListeners(mainWindow: BrowserWindow) {
   // Download attachment
   ipcMain.handle(
     EMAIL_CHANNELS.DOWNLOAD_ATTACHMENT,
-    async (
-      _,
-      userEmail: string,
-      messageId: string,
-      attachmentId: string,
-    ) => {
+    async (_, userEmail: string, messageId: string, attachmentId: string) => {
       try {
         console.log(
           `[IPC_EMAIL] Downloading attachment ${attachmentId} from message ${messageId}`,
         );
-        return await emailService.downloadAttachment(
+        // Served from the attachment cache after the first download
+        return await attachmentService.getAttachmentData(
           userEmail,
           messageId,
           attachmentId,
@@ -375,4 +464,121 @@ export function registerEmailListeners(mainWindow: BrowserWindow) {
       }
     },
   );
+
+  ipcMain.handle(
+    EMAIL_CHANNELS.SEARCH_EMAILS,
+    async (
+      _,
+      userEmail: string,
+      query: string,
+      limit?: number,
+      offset?: number,
+    ) => {
+      try {
+        return await emailService.searchEmails(userEmail, query, limit, offset);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to search emails";
+        mainWindow.webContents.send(EMAIL_CHANNELS.EMAIL_ERROR, errorMessage);
+        throw error;
+      }
+    },
+  );
+  // Failures are shown next to the action, so they don't go to EMAIL_ERROR
+  ipcMain.handle(
+    EMAIL_CHANNELS.APPLY_THREAD_ACTION,
+    async (_, userEmail: string, threadId: string, action: ThreadAction) => {
+      try {
+        console.log(
+          `[IPC_EMAIL] Received APPLY_THREAD_ACTION request for user: ${userEmail}, threadId: ${threadId}, action: ${action.type}`,
+        );
+        return await emailService.applyThreadAction(
+          userEmail,
+          threadId,
+          action,
+        );
+      } catch (error) {
+        console.error(
+          `[IPC_EMAIL] Error in APPLY_THREAD_ACTION for user ${userEmail}, thread ${threadId}:`,
+          error,
+        );
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(
+    EMAIL_CHANNELS.GET_MAIL_FOLDERS,
+    async (_, userEmail: string) => {
+      try {
+        return await emailService.getMailFolders(userEmail);
+      } catch (error) {
+        console.error(
+          `[IPC_EMAIL] Error in GET_MAIL_FOLDERS for user ${userEmail}:`,
+          error,
+        );
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(
+    EMAIL_CHANNELS.GET_INITIAL_SYNC_STATE,
+    async (_, userEmail: string) => {
+      try {
+        return await initialSyncService.getState(userEmail);
+      } catch (error) {
+        console.error(
+          `[IPC_EMAIL] Error in GET_INITIAL_SYNC_STATE for user ${userEmail}:`,
+          error,
+        );
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(
+    EMAIL_CHANNELS.SET_SYNC_WINDOW,
+    async (_, userEmail: string, syncWindow: SyncWindow) => {
+      try {
+        return await initialSyncService.setWindow(userEmail, syncWindow);
+      } catch (error) {
+        console.error(
+          `[IPC_EMAIL] Error in SET_SYNC_WINDOW for user ${userEmail}:`,
+          error,
+        );
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(
+    EMAIL_CHANNELS.PAUSE_INITIAL_SYNC,
+    async (_, userEmail: string) => {
+      try {
+        return await initialSyncService.pause(userEmail);
+      } catch (error) {
+        console.error(
+          `[IPC_EMAIL] Error in PAUSE_INITIAL_SYNC for user ${userEmail}:`,
+          error,
+        );
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(
+    EMAIL_CHANNELS.RESUME_INITIAL_SYNC,
+    async (_, userEmail: string) => {
+      try {
+        return await initialSyncService.resume(userEmail);
+      } catch (error) {
+        console.error(
+          `[IPC_EMAIL] Error in RESUME_INITIAL_SYNC for user ${userEmail}:`,
+          error,
+        );
+        throw error;
+      }
+    },
+  );
 }
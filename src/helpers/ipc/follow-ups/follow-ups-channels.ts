@@ -0,0 +1,5 @@
+export const FOLLOW_UPS_CHANNELS = {
+  GET_THREAD_FOLLOW_UP: "follow-ups:get-thread",
+  DISMISS_FOLLOW_UP: "follow-ups:dismiss",
+  FOLLOW_UP_DUE: "follow-ups:due",
+} as const;
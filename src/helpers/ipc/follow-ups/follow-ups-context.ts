@@ -0,0 +1,36 @@
+import { contextBridge, ipcRenderer } from "electron";
+import { FOLLOW_UPS_CHANNELS } from "./follow-ups-channels";
+import type { FollowUpDetails, FollowUpDueEvent } from "@/services/follow-ups";
+
+export interface FollowUpsContext {
+  getThreadFollowUp: (
+    userEmail: string,
+    threadId: string,
+  ) => Promise<FollowUpDetails | null>;
+  dismissFollowUp: (
+    userEmail: string,
+    id: string,
+  ) => Promise<{ success: boolean }>;
+  // Returns a function that stops listening
+  onFollowUpDue: (callback: (event: FollowUpDueEvent) => void) => () => void;
+}
+
+const followUpsContext: FollowUpsContext = {
+  getThreadFollowUp: (userEmail: string, threadId: string) =>
+    ipcRenderer.invoke(
+      FOLLOW_UPS_CHANNELS.GET_THREAD_FOLLOW_UP,
+      userEmail,
+      threadId,
+    ),
+  dismissFollowUp: (userEmail: string, id: string) =>
+    ipcRenderer.invoke(FOLLOW_UPS_CHANNELS.DISMISS_FOLLOW_UP, userEmail, id),
+  onFollowUpDue: (callback) => {
+    const listener = (_: unknown, event: FollowUpDueEvent) => callback(event);
+    ipcRenderer.on(FOLLOW_UPS_CHANNELS.FOLLOW_UP_DUE, listener);
+    return () => {
+      ipcRenderer.removeListener(FOLLOW_UPS_CHANNELS.FOLLOW_UP_DUE, listener);
+    };
+  },
+};
+
+contextBridge.exposeInMainWorld("followUps", followUpsContext);
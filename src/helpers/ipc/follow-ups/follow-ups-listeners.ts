@@ -0,0 +1,47 @@
+import { BrowserWindow, ipcMain } from "electron";
+import { FollowUpService } from "@/services/follow-ups";
+import { FOLLOW_UPS_CHANNELS } from "./follow-ups-channels";
+
+let followUpService: FollowUpService;
+
+export function registerFollowUpsListeners(mainWindow: BrowserWindow) {
+  followUpService = new FollowUpService();
+
+  // Reminders that came due while the app was closed fire right away
+  followUpService.start((event) => {
+    if (mainWindow.isDestroyed()) return;
+    mainWindow.webContents.send(FOLLOW_UPS_CHANNELS.FOLLOW_UP_DUE, event);
+  });
+
+  ipcMain.handle(
+    FOLLOW_UPS_CHANNELS.GET_THREAD_FOLLOW_UP,
+    async (_, userEmail: string, threadId: string) => {
+      try {
+        return await followUpService.getThreadFollowUp(userEmail, threadId);
+      } catch (error) {
+        console.error(
+          `[IPC_FOLLOW_UPS] Error getting follow-up for thread ${threadId}:`,
+          error,
+        );
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(
+    FOLLOW_UPS_CHANNELS.DISMISS_FOLLOW_UP,
+    async (_, userEmail: string, id: string) => {
+      try {
+        console.log(`[IPC_FOLLOW_UPS] Dismissing follow-up: ${id}`);
+        await followUpService.dismissFollowUp(userEmail, id);
+        return { success: true };
+      } catch (error) {
+        console.error(
+          `[IPC_FOLLOW_UPS] Error dismissing follow-up ${id}:`,
+          error,
+        );
+        throw error;
+      }
+    },
+  );
+}
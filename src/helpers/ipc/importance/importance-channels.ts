@@ -0,0 +1,4 @@
+export const IMPORTANCE_CHANNELS = {
+  GET_WEIGHTS: "importance:get-weights",
+  SET_WEIGHTS: "importance:set-weights",
+} as const;
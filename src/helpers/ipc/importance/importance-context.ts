@@ -0,0 +1,20 @@
+import { contextBridge, ipcRenderer } from "electron";
+import { IMPORTANCE_CHANNELS } from "./importance-channels";
+import type { ImportanceWeights } from "@/lib/importance";
+
+export interface ImportanceContext {
+  getWeights: (userEmail: string) => Promise<ImportanceWeights>;
+  setWeights: (
+    userEmail: string,
+    weights: Partial<ImportanceWeights>,
+  ) => Promise<ImportanceWeights>;
+}
+
+const importanceContext: ImportanceContext = {
+  getWeights: (userEmail: string) =>
+    ipcRenderer.invoke(IMPORTANCE_CHANNELS.GET_WEIGHTS, userEmail),
+  setWeights: (userEmail: string, weights: Partial<ImportanceWeights>) =>
+    ipcRenderer.invoke(IMPORTANCE_CHANNELS.SET_WEIGHTS, userEmail, weights),
+};
+
+contextBridge.exposeInMainWorld("importance", importanceContext);
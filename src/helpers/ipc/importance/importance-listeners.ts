@@ -0,0 +1,47 @@
+import { ipcMain } from "electron";
+import { EmailService } from "@/services/email";
+import type { ImportanceWeights } from "@/lib/importance";
+import { IMPORTANCE_CHANNELS } from "./importance-channels";
+
+let emailService: EmailService;
+
+export function registerImportanceListeners() {
+  emailService = new EmailService();
+
+  ipcMain.handle(
+    IMPORTANCE_CHANNELS.GET_WEIGHTS,
+    async (_, userEmail: string) => {
+      try {
+        return await emailService.getImportanceWeights(userEmail);
+      } catch (error) {
+        console.error(`[IPC_IMPORTANCE] Error getting weights:`, error);
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(
+    IMPORTANCE_CHANNELS.SET_WEIGHTS,
+    async (_, userEmail: string, weights: Partial<ImportanceWeights>) => {
+      try {
+        console.log(`[IPC_IMPORTANCE] Saving weights for ${userEmail}`);
+        const saved = await emailService.setImportanceWeights(
+          userEmail,
+          weights,
+        );
+
+        // Rescoring touches every recent thread, so don't hold up the reply
+        emailService.rescoreImportance(userEmail).catch((error) => {
+          console.error(
+            `[IPC_IMPORTANCE] Error rescoring threads for ${userEmail}:`,
+            error,
+          );
+        });
+        return saved;
+      } catch (error) {
+        console.error(`[IPC_IMPORTANCE] Error saving weights:`, error);
+        throw error;
+      }
+    },
+  );
+}
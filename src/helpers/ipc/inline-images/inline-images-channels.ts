@@ -0,0 +1,3 @@
+export const INLINE_IMAGES_CHANNELS = {
+  SAVE_IMAGE: "inline-images:save",
+} as const;
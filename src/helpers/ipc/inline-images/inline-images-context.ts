@@ -0,0 +1,17 @@
+import { contextBridge, ipcRenderer } from "electron";
+import { INLINE_IMAGES_CHANNELS } from "./inline-images-channels";
+import type { StoredInlineImage } from "@/services/inline-images";
+
+export interface InlineImagesContext {
+  saveImage: (
+    data: ArrayBuffer,
+    mimeType: string,
+  ) => Promise<StoredInlineImage>;
+}
+
+const inlineImagesContext: InlineImagesContext = {
+  saveImage: (data: ArrayBuffer, mimeType: string) =>
+    ipcRenderer.invoke(INLINE_IMAGES_CHANNELS.SAVE_IMAGE, data, mimeType),
+};
+
+contextBridge.exposeInMainWorld("inlineImages", inlineImagesContext);
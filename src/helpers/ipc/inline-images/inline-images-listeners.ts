@@ -0,0 +1,39 @@
+import { ipcMain, protocol } from "electron";
+import { InlineImageService } from "@/services/inline-images";
+import { INLINE_IMAGE_SCHEME, parseInlineImageUrl } from "@/lib/inline-images";
+import { INLINE_IMAGES_CHANNELS } from "./inline-images-channels";
+
+let inlineImageService: InlineImageService;
+
+export function registerInlineImagesListeners() {
+  inlineImageService = new InlineImageService();
+
+  // The composer shows stored images straight from disk
+  protocol.handle(INLINE_IMAGE_SCHEME, async (request) => {
+    const name = parseInlineImageUrl(request.url);
+    if (!name) return new Response("Not found", { status: 404 });
+    try {
+      const { data, mimeType } = await inlineImageService.readImage(name);
+      return new Response(new Uint8Array(data), {
+        headers: { "Content-Type": mimeType },
+      });
+    } catch {
+      return new Response("Not found", { status: 404 });
+    }
+  });
+
+  ipcMain.handle(
+    INLINE_IMAGES_CHANNELS.SAVE_IMAGE,
+    async (_, data: ArrayBuffer, mimeType: string) => {
+      try {
+        return await inlineImageService.saveImage(
+          new Uint8Array(data),
+          mimeType,
+        );
+      } catch (error) {
+        console.error(`[IPC_INLINE_IMAGES] Error saving image:`, error);
+        throw error;
+      }
+    },
+  );
+}
@@ -0,0 +1,6 @@
+export const LABELS_CHANNELS = {
+  GET_CUSTOM_LABELS: "labels:get-custom",
+  CREATE_CUSTOM_LABEL: "labels:create-custom",
+  UPDATE_CUSTOM_LABEL: "labels:update-custom",
+  DELETE_CUSTOM_LABEL: "labels:delete-custom",
+} as const;
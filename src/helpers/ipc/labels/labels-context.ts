@@ -0,0 +1,46 @@
+import { contextBridge, ipcRenderer } from "electron";
+import { LABELS_CHANNELS } from "./labels-channels";
+import type {
+  CreateCustomLabelInput,
+  CustomLabelSettings,
+  UpdateCustomLabelInput,
+} from "@/services/labels";
+
+export interface LabelsContext {
+  getCustomLabels: (userEmail: string) => Promise<CustomLabelSettings[]>;
+  createCustomLabel: (
+    userEmail: string,
+    input: CreateCustomLabelInput,
+  ) => Promise<CustomLabelSettings>;
+  updateCustomLabel: (
+    userEmail: string,
+    id: string,
+    input: UpdateCustomLabelInput,
+  ) => Promise<CustomLabelSettings>;
+  deleteCustomLabel: (
+    userEmail: string,
+    id: string,
+  ) => Promise<{ success: boolean }>;
+}
+
+const labelsContext: LabelsContext = {
+  getCustomLabels: (userEmail: string) =>
+    ipcRenderer.invoke(LABELS_CHANNELS.GET_CUSTOM_LABELS, userEmail),
+  createCustomLabel: (userEmail: string, input: CreateCustomLabelInput) =>
+    ipcRenderer.invoke(LABELS_CHANNELS.CREATE_CUSTOM_LABEL, userEmail, input),
+  updateCustomLabel: (
+    userEmail: string,
+    id: string,
+    input: UpdateCustomLabelInput,
+  ) =>
+    ipcRenderer.invoke(
+      LABELS_CHANNELS.UPDATE_CUSTOM_LABEL,
+      userEmail,
+      id,
+      input,
+    ),
+  deleteCustomLabel: (userEmail: string, id: string) =>
+    ipcRenderer.invoke(LABELS_CHANNELS.DELETE_CUSTOM_LABEL, userEmail, id),
+};
+
+contextBridge.exposeInMainWorld("labels", labelsContext);
@@ -0,0 +1,89 @@
+import { ipcMain } from "electron";
+import {
+  CreateCustomLabelInput,
+  CustomLabelSettings,
+  LabelService,
+  UpdateCustomLabelInput,
+} from "@/services/labels";
+import { EmailService } from "@/services/email";
+import { LABELS_CHANNELS } from "./labels-channels";
+
+let labelService: LabelService;
+let emailService: EmailService;
+
+// Provider labels are a mirror, so a failed sync doesn't undo the local change
+async function syncToProvider(userEmail: string, label: CustomLabelSettings) {
+  try {
+    await emailService.syncCustomLabel(userEmail, label.name, label.color);
+  } catch (error) {
+    console.error(
+      `[IPC_LABELS] Error syncing label ${label.name} to provider:`,
+      error,
+    );
+  }
+}
+
+export function registerLabelsListeners() {
+  labelService = new LabelService();
+  emailService = new EmailService();
+
+  ipcMain.handle(
+    LABELS_CHANNELS.GET_CUSTOM_LABELS,
+    async (_, userEmail: string) => {
+      try {
+        return await labelService.getCustomLabels(userEmail);
+      } catch (error) {
+        console.error(`[IPC_LABELS] Error getting custom labels:`, error);
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(
+    LABELS_CHANNELS.CREATE_CUSTOM_LABEL,
+    async (_, userEmail: string, input: CreateCustomLabelInput) => {
+      try {
+        console.log(`[IPC_LABELS] Creating label ${input.name}`);
+        const label = await labelService.createCustomLabel(userEmail, input);
+        await syncToProvider(userEmail, label);
+        return label;
+      } catch (error) {
+        console.error(`[IPC_LABELS] Error creating label:`, error);
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(
+    LABELS_CHANNELS.UPDATE_CUSTOM_LABEL,
+    async (_, userEmail: string, id: string, input: UpdateCustomLabelInput) => {
+      try {
+        console.log(`[IPC_LABELS] Updating label ${id}`);
+        const label = await labelService.updateCustomLabel(
+          userEmail,
+          id,
+          input,
+        );
+        await syncToProvider(userEmail, label);
+        return label;
+      } catch (error) {
+        console.error(`[IPC_LABELS] Error updating label ${id}:`, error);
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(
+    LABELS_CHANNELS.DELETE_CUSTOM_LABEL,
+    async (_, userEmail: string, id: string) => {
+      try {
+        console.log(`[IPC_LABELS] Deleting label ${id}`);
+        await labelService.deleteCustomLabel(userEmail, id);
+        return { success: true };
+      } catch (error) {
+        console.error(`[IPC_LABELS] Error deleting label ${id}:`, error);
+        throw error;
+      }
+    },
+  );
+}
@@ -6,6 +6,20 @@ import { registerEmailListeners } from "./email/email-listeners";
 import { registerCalendarListeners } from "./calendar/calendar-listeners";
 import { registerPlacesListeners } from "./places/places-listeners";
 import { registerOnboardingListeners } from "./onboarding/onboarding-listeners";
+import { registerLlmListeners } from "./llm/llm-listeners";
+import { registerLabelsListeners } from "./labels/labels-listeners";
+import { registerRulesListeners } from "./rules/rules-listeners";
+import { registerImportanceListeners } from "./importance/importance-listeners";
+import { registerContactsListeners } from "./contacts/contacts-listeners";
+import { registerAiListeners } from "./ai/ai-listeners";
+import { registerDraftsListeners } from "./drafts/drafts-listeners";
+import { registerOutboxListeners } from "./outbox/outbox-listeners";
+import { registerFollowUpsListeners } from "./follow-ups/follow-ups-listeners";
+import { registerInlineImagesListeners } from "./inline-images/inline-images-listeners";
+import { registerAttachmentsListeners } from "./attachments/attachments-listeners";
+import { registerEmailViewListeners } from "./email-view/email-view-listeners";
+import { registerRelayListeners } from "./relay/relay-listeners";
+import { registerSyncListeners } from "./sync/sync-listeners";
 
 export default function registerListeners(mainWindow: BrowserWindow) {
   addWindowEventListeners(mainWindow);
@@ -15,4 +29,18 @@ export default function registerListeners(mainWindow: BrowserWindow) {
   registerCalendarListeners(mainWindow);
   registerPlacesListeners(mainWindow);
   registerOnboardingListeners();
+  registerLlmListeners();
+  registerLabelsListeners();
+  registerRulesListeners();
+  registerImportanceListeners();
+  registerContactsListeners();
+  registerAiListeners(mainWindow);
+  registerDraftsListeners();
+  registerOutboxListeners(mainWindow);
+  registerFollowUpsListeners(mainWindow);
+  registerInlineImagesListeners();
+  registerAttachmentsListeners(mainWindow);
+  registerEmailViewListeners(mainWindow);
+  registerRelayListeners();
+  registerSyncListeners(mainWindow);
 }
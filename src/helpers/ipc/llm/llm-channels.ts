@@ -0,0 +1,10 @@
+export const LLM_CHANNELS = {
+  // Providers
+  GET_PROVIDERS: "llm:get-providers",
+  SAVE_PROVIDER: "llm:save-provider",
+  DELETE_PROVIDER: "llm:delete-provider",
+
+  // Per-feature model selection
+  GET_FEATURE_MODELS: "llm:get-feature-models",
+  SET_FEATURE_MODEL: "llm:set-feature-model",
+} as const;
@@ -0,0 +1,46 @@
+import { contextBridge, ipcRenderer } from "electron";
+import { LLM_CHANNELS } from "./llm-channels";
+import type {
+  LlmFeatureModelSettings,
+  LlmProviderSettings,
+  SaveLlmProviderInput,
+} from "@/services/llm-settings";
+import type { LlmFeature } from "@/lib/models";
+
+export interface LlmContext {
+  // Providers
+  getProviders: () => Promise<LlmProviderSettings[]>;
+  saveProvider: (input: SaveLlmProviderInput) => Promise<LlmProviderSettings>;
+  deleteProvider: (id: string) => Promise<{ success: boolean }>;
+
+  // Per-feature model selection
+  getFeatureModels: () => Promise<LlmFeatureModelSettings[]>;
+  setFeatureModel: (
+    feature: LlmFeature,
+    providerId: string | null,
+    model: string,
+  ) => Promise<{ success: boolean }>;
+}
+
+const llmContext: LlmContext = {
+  getProviders: () => ipcRenderer.invoke(LLM_CHANNELS.GET_PROVIDERS),
+  saveProvider: (input: SaveLlmProviderInput) =>
+    ipcRenderer.invoke(LLM_CHANNELS.SAVE_PROVIDER, input),
+  deleteProvider: (id: string) =>
+    ipcRenderer.invoke(LLM_CHANNELS.DELETE_PROVIDER, id),
+
+  getFeatureModels: () => ipcRenderer.invoke(LLM_CHANNELS.GET_FEATURE_MODELS),
+  setFeatureModel: (
+    feature: LlmFeature,
+    providerId: string | null,
+    model: string,
+  ) =>
+    ipcRenderer.invoke(
+      LLM_CHANNELS.SET_FEATURE_MODEL,
+      feature,
+      providerId,
+      model,
+    ),
+};
+
+contextBridge.exposeInMainWorld("llm", llmContext);
@@ -0,0 +1,76 @@
+import { ipcMain } from "electron";
+import {
+  LlmSettingsService,
+  SaveLlmProviderInput,
+} from "@/services/llm-settings";
+import type { LlmFeature } from "@/lib/models";
+import { LLM_CHANNELS } from "./llm-channels";
+
+let llmSettingsService: LlmSettingsService;
+
+export function registerLlmListeners() {
+  llmSettingsService = new LlmSettingsService();
+
+  ipcMain.handle(LLM_CHANNELS.GET_PROVIDERS, async () => {
+    try {
+      return await llmSettingsService.getProviders();
+    } catch (error) {
+      console.error(`[IPC_LLM] Error getting providers:`, error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle(
+    LLM_CHANNELS.SAVE_PROVIDER,
+    async (_, input: SaveLlmProviderInput) => {
+      try {
+        console.log(`[IPC_LLM] Saving provider: ${input.name}`);
+        return await llmSettingsService.saveProvider(input);
+      } catch (error) {
+        console.error(`[IPC_LLM] Error saving provider:`, error);
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(LLM_CHANNELS.DELETE_PROVIDER, async (_, id: string) => {
+    try {
+      console.log(`[IPC_LLM] Deleting provider: ${id}`);
+      await llmSettingsService.deleteProvider(id);
+      return { success: true };
+    } catch (error) {
+      console.error(`[IPC_LLM] Error deleting provider ${id}:`, error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle(LLM_CHANNELS.GET_FEATURE_MODELS, async () => {
+    try {
+      return await llmSettingsService.getFeatureModels();
+    } catch (error) {
+      console.error(`[IPC_LLM] Error getting feature models:`, error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle(
+    LLM_CHANNELS.SET_FEATURE_MODEL,
+    async (
+      _,
+      feature: LlmFeature,
+      providerId: string | null,
+      model: string,
+    ) => {
+      try {
+        console.log(
+          `[IPC_LLM] Setting model for ${feature}: ${model} (provider ${providerId})`,
+        );
+        await llmSettingsService.setFeatureModel(feature, providerId, model);
+        return { success: true };
+      } catch (error) {
+        console.error(`[IPC_LLM] Error setting model for ${feature}:`, error);
+        throw error;
+      }
+    },
+  );
+}
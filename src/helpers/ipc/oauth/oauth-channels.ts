@@ -2,11 +2,13 @@ export const OAUTH_CHANNELS = {
   GOOGLE_AUTHENTICATE: "oauth:google:authenticate",
   GOOGLE_REFRESH_TOKEN: "oauth:google:refresh-token",
   GOOGLE_REVOKE_TOKEN: "oauth:google:revoke-token",
+  GOOGLE_GRANT_FULL_ACCESS: "oauth:google:grant-full-access",
   OUTLOOK_AUTHENTICATE: "oauth:outlook:authenticate",
   OUTLOOK_REFRESH_TOKEN: "oauth:outlook:refresh-token",
   OUTLOOK_REVOKE_TOKEN: "oauth:outlook:revoke-token",
   OAUTH_AUTHENTICATED: "oauth:authenticated",
   OAUTH_ERROR: "oauth:error",
+  REAUTH_REQUIRED: "oauth:reauth-required",
 } as const;
 
 export type OAuthChannels = typeof OAUTH_CHANNELS;
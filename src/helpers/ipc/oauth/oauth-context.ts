@@ -2,6 +2,7 @@ import { contextBridge, ipcRenderer } from "electron";
 import { OAUTH_CHANNELS } from "./oauth-channels";
 import type { OAuthTokens, GoogleUserInfo } from "../../../services/oauth";
 import type { OutlookUserInfo } from "../../../services/outlook-oauth";
+import type { ReauthRequiredEvent } from "../../../services/authenticated-client";
 
 export interface OAuthContext {
   googleAuthenticate: () => Promise<{
@@ -10,6 +11,8 @@ export interface OAuthContext {
   }>;
   googleRefreshToken: (refreshToken: string) => Promise<OAuthTokens>;
   googleRevokeToken: (token: string) => Promise<void>;
+  // Adds full Gmail access to a signed-in account, for deleting forever
+  googleGrantFullAccess: (userEmail: string) => Promise<void>;
   outlookAuthenticate: () => Promise<{
     tokens: OAuthTokens;
     userInfo: OutlookUserInfo;
@@ -23,6 +26,9 @@ export interface OAuthContext {
     }) => void,
   ) => void;
   onOAuthError: (callback: (error: string) => void) => void;
+  onReauthRequired: (
+    callback: (event: ReauthRequiredEvent) => void,
+  ) => () => void;
 }
 
 const oauthContext: OAuthContext = {
@@ -32,6 +38,8 @@ const oauthContext: OAuthContext = {
     ipcRenderer.invoke(OAUTH_CHANNELS.GOOGLE_REFRESH_TOKEN, refreshToken),
   googleRevokeToken: (token: string) =>
     ipcRenderer.invoke(OAUTH_CHANNELS.GOOGLE_REVOKE_TOKEN, token),
+  googleGrantFullAccess: (userEmail: string) =>
+    ipcRenderer.invoke(OAUTH_CHANNELS.GOOGLE_GRANT_FULL_ACCESS, userEmail),
   outlookAuthenticate: () =>
     ipcRenderer.invoke(OAUTH_CHANNELS.OUTLOOK_AUTHENTICATE),
   outlookRefreshToken: (refreshToken: string) =>
@@ -46,6 +54,14 @@ const oauthContext: OAuthContext = {
   onOAuthError: (callback) => {
     ipcRenderer.on(OAUTH_CHANNELS.OAUTH_ERROR, (_, error) => callback(error));
   },
+  onReauthRequired: (callback) => {
+    const listener = (_: unknown, event: ReauthRequiredEvent) =>
+      callback(event);
+    ipcRenderer.on(OAUTH_CHANNELS.REAUTH_REQUIRED, listener);
+    return () => {
+      ipcRenderer.removeListener(OAUTH_CHANNELS.REAUTH_REQUIRED, listener);
+    };
+  },
 };
 
 contextBridge.exposeInMainWorld("oauth", oauthContext);
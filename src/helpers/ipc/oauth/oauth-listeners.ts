@@ -2,8 +2,10 @@ import { ipcMain, BrowserWindow } from "electron";
 import { GoogleOAuthService } from "../../../services/oauth";
 import { OutlookOAuthService } from "../../../services/outlook-oauth";
 import { DatabaseService } from "../../../services/database";
+import { onReauthRequired } from "../../../services/authenticated-client";
 import { OAUTH_CHANNELS } from "./oauth-channels";
 import { AuthProvider } from "@prisma/client";
+import { GMAIL_FULL_ACCESS_SCOPE } from "../../../lib/thread-actions";
 
 let googleOAuthService: GoogleOAuthService;
 let outlookOAuthService: OutlookOAuthService;
@@ -14,6 +16,11 @@ export function registerOAuthListeners(mainWindow: BrowserWindow) {
   outlookOAuthService = new OutlookOAuthService();
   databaseService = new DatabaseService();
 
+  // Forward revoked/expired refresh tokens so the renderer can prompt sign-in
+  onReauthRequired((event) => {
+    mainWindow.webContents.send(OAUTH_CHANNELS.REAUTH_REQUIRED, event);
+  });
+
   ipcMain.handle(OAUTH_CHANNELS.GOOGLE_AUTHENTICATE, async () => {
     try {
       const result = await googleOAuthService.authenticate();
@@ -84,6 +91,45 @@ export function registerOAuthListeners(mainWindow: BrowserWindow) {
     },
   );
 
+  // Consent for the account that's already signed in; the user stays where
+  // they are, so this doesn't announce a sign-in
+  ipcMain.handle(
+    OAUTH_CHANNELS.GOOGLE_GRANT_FULL_ACCESS,
+    async (_, userEmail: string) => {
+      try {
+        const user = await databaseService.findUserByEmail(userEmail);
+        if (!user || user.provider !== AuthProvider.GOOGLE) {
+          throw new Error(`No Gmail account signed in as ${userEmail}`);
+        }
+
+        const result = await googleOAuthService.authenticate({
+          scopes: [GMAIL_FULL_ACCESS_SCOPE],
+          loginHint: userEmail,
+        });
+        if (result.userInfo.email !== userEmail) {
+          throw new Error(
+            `Signed in as ${result.userInfo.email} instead of ${userEmail}`,
+          );
+        }
+        if (!result.tokens.scope.includes(GMAIL_FULL_ACCESS_SCOPE)) {
+          throw new Error("Full Gmail access wasn't granted");
+        }
+
+        await databaseService.updateUser(user.id, {
+          accessToken: result.tokens.access_token,
+          refreshToken: result.tokens.refresh_token ?? undefined,
+          tokenExpiry: result.tokens.expiry_date
+            ? new Date(result.tokens.expiry_date)
+            : undefined,
+          scope: result.tokens.scope,
+        });
+      } catch (error) {
+        console.error("[IPC_OAUTH] Error granting full Gmail access:", error);
+        throw error;
+      }
+    },
+  );
+
   ipcMain.handle(OAUTH_CHANNELS.OUTLOOK_AUTHENTICATE, async () => {
     try {
       const result = await outlookOAuthService.authenticate();
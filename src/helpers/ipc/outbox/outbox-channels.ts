@@ -0,0 +1,9 @@
+export const OUTBOX_CHANNELS = {
+  QUEUE_MESSAGE: "outbox:queue",
+  GET_OUTBOX: "outbox:get",
+  RESCHEDULE_MESSAGE: "outbox:reschedule",
+  CANCEL_MESSAGE: "outbox:cancel",
+  SEND_NOW: "outbox:send-now",
+  MOVE_TO_DRAFTS: "outbox:move-to-drafts",
+  STATUS_CHANGED: "outbox:status-changed",
+} as const;
@@ -0,0 +1,58 @@
+import { contextBridge, ipcRenderer } from "electron";
+import { OUTBOX_CHANNELS } from "./outbox-channels";
+import type { DraftDetails } from "@/services/drafts";
+import type {
+  OutboxItem,
+  OutboxStatusEvent,
+  QueueMessageInput,
+} from "@/services/outbox";
+
+export interface OutboxContext {
+  queueMessage: (
+    userEmail: string,
+    input: QueueMessageInput,
+  ) => Promise<OutboxItem>;
+  getOutbox: (userEmail: string) => Promise<OutboxItem[]>;
+  rescheduleMessage: (
+    userEmail: string,
+    id: string,
+    sendAt: Date,
+  ) => Promise<OutboxItem>;
+  cancelMessage: (
+    userEmail: string,
+    id: string,
+  ) => Promise<{ success: boolean }>;
+  sendNow: (userEmail: string, id: string) => Promise<OutboxItem>;
+  moveToDrafts: (userEmail: string, id: string) => Promise<DraftDetails>;
+  // Returns a function that stops listening
+  onStatusChange: (callback: (event: OutboxStatusEvent) => void) => () => void;
+}
+
+const outboxContext: OutboxContext = {
+  queueMessage: (userEmail: string, input: QueueMessageInput) =>
+    ipcRenderer.invoke(OUTBOX_CHANNELS.QUEUE_MESSAGE, userEmail, input),
+  getOutbox: (userEmail: string) =>
+    ipcRenderer.invoke(OUTBOX_CHANNELS.GET_OUTBOX, userEmail),
+  rescheduleMessage: (userEmail: string, id: string, sendAt: Date) =>
+    ipcRenderer.invoke(
+      OUTBOX_CHANNELS.RESCHEDULE_MESSAGE,
+      userEmail,
+      id,
+      sendAt,
+    ),
+  cancelMessage: (userEmail: string, id: string) =>
+    ipcRenderer.invoke(OUTBOX_CHANNELS.CANCEL_MESSAGE, userEmail, id),
+  sendNow: (userEmail: string, id: string) =>
+    ipcRenderer.invoke(OUTBOX_CHANNELS.SEND_NOW, userEmail, id),
+  moveToDrafts: (userEmail: string, id: string) =>
+    ipcRenderer.invoke(OUTBOX_CHANNELS.MOVE_TO_DRAFTS, userEmail, id),
+  onStatusChange: (callback) => {
+    const listener = (_: unknown, event: OutboxStatusEvent) => callback(event);
+    ipcRenderer.on(OUTBOX_CHANNELS.STATUS_CHANGED, listener);
+    return () => {
+      ipcRenderer.removeListener(OUTBOX_CHANNELS.STATUS_CHANGED, listener);
+    };
+  },
+};
+
+contextBridge.exposeInMainWorld("outbox", outboxContext);
@@ -0,0 +1,95 @@
+import { BrowserWindow, ipcMain } from "electron";
+import { OutboxService, QueueMessageInput } from "@/services/outbox";
+import { OUTBOX_CHANNELS } from "./outbox-channels";
+
+let outboxService: OutboxService;
+
+export function registerOutboxListeners(mainWindow: BrowserWindow) {
+  outboxService = new OutboxService();
+
+  // Mail queued in an earlier session goes out as soon as the app is up
+  outboxService
+    .start((event) => {
+      if (mainWindow.isDestroyed()) return;
+      mainWindow.webContents.send(OUTBOX_CHANNELS.STATUS_CHANGED, event);
+    })
+    .catch((error) => {
+      console.error(`[IPC_OUTBOX] Error starting the outbox:`, error);
+    });
+
+  ipcMain.handle(
+    OUTBOX_CHANNELS.QUEUE_MESSAGE,
+    async (_, userEmail: string, input: QueueMessageInput) => {
+      try {
+        return await outboxService.queueMessage(userEmail, input);
+      } catch (error) {
+        console.error(`[IPC_OUTBOX] Error queueing message:`, error);
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(OUTBOX_CHANNELS.GET_OUTBOX, async (_, userEmail: string) => {
+    try {
+      return await outboxService.getOutbox(userEmail);
+    } catch (error) {
+      console.error(`[IPC_OUTBOX] Error getting outbox:`, error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle(
+    OUTBOX_CHANNELS.RESCHEDULE_MESSAGE,
+    async (_, userEmail: string, id: string, sendAt: Date) => {
+      try {
+        console.log(`[IPC_OUTBOX] Rescheduling message: ${id}`);
+        return await outboxService.rescheduleMessage(userEmail, id, sendAt);
+      } catch (error) {
+        console.error(`[IPC_OUTBOX] Error rescheduling message ${id}:`, error);
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(
+    OUTBOX_CHANNELS.CANCEL_MESSAGE,
+    async (_, userEmail: string, id: string) => {
+      try {
+        await outboxService.cancelMessage(userEmail, id);
+        return { success: true };
+      } catch (error) {
+        console.error(`[IPC_OUTBOX] Error cancelling message ${id}:`, error);
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(
+    OUTBOX_CHANNELS.SEND_NOW,
+    async (_, userEmail: string, id: string) => {
+      try {
+        console.log(`[IPC_OUTBOX] Sending message now: ${id}`);
+        return await outboxService.rescheduleMessage(userEmail, id, new Date());
+      } catch (error) {
+        console.error(`[IPC_OUTBOX] Error sending message ${id}:`, error);
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(
+    OUTBOX_CHANNELS.MOVE_TO_DRAFTS,
+    async (_, userEmail: string, id: string) => {
+      try {
+        console.log(`[IPC_OUTBOX] Moving message to drafts: ${id}`);
+        return await outboxService.moveToDrafts(userEmail, id);
+      } catch (error) {
+        console.error(
+          `[IPC_OUTBOX] Error moving message ${id} to drafts:`,
+          error,
+        );
+        throw error;
+      }
+    },
+  );
+}
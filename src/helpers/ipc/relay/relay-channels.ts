@@ -0,0 +1,3 @@
+export const RELAY_CHANNELS = {
+  GET_CONNECTION: "relay:get-connection",
+} as const;
@@ -0,0 +1,15 @@
+import { contextBridge, ipcRenderer } from "electron";
+import { RELAY_CHANNELS } from "./relay-channels";
+import type { RelayConnection } from "@/lib/relay";
+
+export interface RelayContext {
+  // The relay's URL and a fresh registration token for the account
+  getConnection: (userEmail: string) => Promise<RelayConnection>;
+}
+
+const relayContext: RelayContext = {
+  getConnection: (userEmail: string) =>
+    ipcRenderer.invoke(RELAY_CHANNELS.GET_CONNECTION, userEmail),
+};
+
+contextBridge.exposeInMainWorld("relay", relayContext);
@@ -0,0 +1,24 @@
+import { ipcMain } from "electron";
+import { RelayService } from "@/services/relay";
+import { RELAY_CHANNELS } from "./relay-channels";
+
+let relayService: RelayService;
+
+export function registerRelayListeners() {
+  relayService = new RelayService();
+
+  ipcMain.handle(
+    RELAY_CHANNELS.GET_CONNECTION,
+    async (_, userEmail: string) => {
+      try {
+        return await relayService.getConnection(userEmail);
+      } catch (error) {
+        console.error(
+          `[IPC_RELAY] Error getting relay connection for ${userEmail}:`,
+          error,
+        );
+        throw error;
+      }
+    },
+  );
+}
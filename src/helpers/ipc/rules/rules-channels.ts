@@ -0,0 +1,6 @@
+export const RULES_CHANNELS = {
+  GET_RULES: "rules:get",
+  SAVE_RULE: "rules:save",
+  DELETE_RULE: "rules:delete",
+  DRY_RUN: "rules:dry-run",
+} as const;
@@ -0,0 +1,34 @@
+import { contextBridge, ipcRenderer } from "electron";
+import { RULES_CHANNELS } from "./rules-channels";
+import type {
+  MailRuleSettings,
+  RuleDryRunMatch,
+  SaveMailRuleInput,
+} from "@/services/mail-rules";
+import type { MailRuleDefinition } from "@/lib/mail-rules";
+
+export interface RulesContext {
+  getRules: (userEmail: string) => Promise<MailRuleSettings[]>;
+  saveRule: (
+    userEmail: string,
+    input: SaveMailRuleInput,
+  ) => Promise<MailRuleSettings>;
+  deleteRule: (userEmail: string, id: string) => Promise<{ success: boolean }>;
+  dryRun: (
+    userEmail: string,
+    rule: MailRuleDefinition,
+  ) => Promise<RuleDryRunMatch[]>;
+}
+
+const rulesContext: RulesContext = {
+  getRules: (userEmail: string) =>
+    ipcRenderer.invoke(RULES_CHANNELS.GET_RULES, userEmail),
+  saveRule: (userEmail: string, input: SaveMailRuleInput) =>
+    ipcRenderer.invoke(RULES_CHANNELS.SAVE_RULE, userEmail, input),
+  deleteRule: (userEmail: string, id: string) =>
+    ipcRenderer.invoke(RULES_CHANNELS.DELETE_RULE, userEmail, id),
+  dryRun: (userEmail: string, rule: MailRuleDefinition) =>
+    ipcRenderer.invoke(RULES_CHANNELS.DRY_RUN, userEmail, rule),
+};
+
+contextBridge.exposeInMainWorld("rules", rulesContext);
@@ -0,0 +1,59 @@
+import { ipcMain } from "electron";
+import { MailRuleService, SaveMailRuleInput } from "@/services/mail-rules";
+import type { MailRuleDefinition } from "@/lib/mail-rules";
+import { RULES_CHANNELS } from "./rules-channels";
+
+let mailRuleService: MailRuleService;
+
+export function registerRulesListeners() {
+  mailRuleService = new MailRuleService();
+
+  ipcMain.handle(RULES_CHANNELS.GET_RULES, async (_, userEmail: string) => {
+    try {
+      return await mailRuleService.getRules(userEmail);
+    } catch (error) {
+      console.error(`[IPC_RULES] Error getting rules:`, error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle(
+    RULES_CHANNELS.SAVE_RULE,
+    async (_, userEmail: string, input: SaveMailRuleInput) => {
+      try {
+        console.log(`[IPC_RULES] Saving rule: ${input.name}`);
+        return await mailRuleService.saveRule(userEmail, input);
+      } catch (error) {
+        console.error(`[IPC_RULES] Error saving rule:`, error);
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(
+    RULES_CHANNELS.DELETE_RULE,
+    async (_, userEmail: string, id: string) => {
+      try {
+        console.log(`[IPC_RULES] Deleting rule: ${id}`);
+        await mailRuleService.deleteRule(userEmail, id);
+        return { success: true };
+      } catch (error) {
+        console.error(`[IPC_RULES] Error deleting rule ${id}:`, error);
+        throw error;
+      }
+    },
+  );
+
+  ipcMain.handle(
+    RULES_CHANNELS.DRY_RUN,
+    async (_, userEmail: string, rule: MailRuleDefinition) => {
+      try {
+        console.log(`[IPC_RULES] Dry run: ${rule.name}`);
+        return await mailRuleService.dryRun(userEmail, rule);
+      } catch (error) {
+        console.error(`[IPC_RULES] Error running rule dry run:`, error);
+        throw error;
+      }
+    },
+  );
+}
@@ -0,0 +1,8 @@
+export const SYNC_CHANNELS = {
+  REQUEST_SYNC: "sync:request",
+  SET_RELAY_CONNECTED: "sync:set-relay-connected",
+  GET_STATUSES: "sync:get-statuses",
+  STATUS_CHANGED: "sync:status-changed",
+  GET_PENDING_COUNTS: "sync:get-pending-counts",
+  PENDING_CHANGED: "sync:pending-changed",
+} as const;
@@ -0,0 +1,44 @@
+import { contextBridge, ipcRenderer } from "electron";
+import { SYNC_CHANNELS } from "./sync-channels";
+import type { SyncStatusEvent } from "@/lib/sync-scheduler";
+import type { PendingOperationsEvent } from "@/lib/pending-operations";
+
+export interface SyncContext {
+  // Coalesced with other triggers for the account, so call it freely
+  requestSync: (userEmail: string) => Promise<void>;
+  setRelayConnected: (userEmail: string, connected: boolean) => Promise<void>;
+  getStatuses: () => Promise<SyncStatusEvent[]>;
+  // Returns a function that stops listening
+  onStatusChange: (callback: (event: SyncStatusEvent) => void) => () => void;
+  // Changes made in the app that the provider doesn't have yet, by account
+  getPendingCounts: () => Promise<Record<string, number>>;
+  onPendingChange: (
+    callback: (event: PendingOperationsEvent) => void,
+  ) => () => void;
+}
+
+const syncContext: SyncContext = {
+  requestSync: (userEmail: string) =>
+    ipcRenderer.invoke(SYNC_CHANNELS.REQUEST_SYNC, userEmail),
+  setRelayConnected: (userEmail: string, connected: boolean) =>
+    ipcRenderer.invoke(SYNC_CHANNELS.SET_RELAY_CONNECTED, userEmail, connected),
+  getStatuses: () => ipcRenderer.invoke(SYNC_CHANNELS.GET_STATUSES),
+  onStatusChange: (callback) => {
+    const listener = (_: unknown, event: SyncStatusEvent) => callback(event);
+    ipcRenderer.on(SYNC_CHANNELS.STATUS_CHANGED, listener);
+    return () => {
+      ipcRenderer.removeListener(SYNC_CHANNELS.STATUS_CHANGED, listener);
+    };
+  },
+  getPendingCounts: () => ipcRenderer.invoke(SYNC_CHANNELS.GET_PENDING_COUNTS),
+  onPendingChange: (callback) => {
+    const listener = (_: unknown, event: PendingOperationsEvent) =>
+      callback(event);
+    ipcRenderer.on(SYNC_CHANNELS.PENDING_CHANGED, listener);
+    return () => {
+      ipcRenderer.removeListener(SYNC_CHANNELS.PENDING_CHANGED, listener);
+    };
+  },
+};
+
+contextBridge.exposeInMainWorld("sync", syncContext);
@@ -0,0 +1,56 @@
+import { BrowserWindow, ipcMain } from "electron";
+import { SyncSchedulerService } from "@/services/sync-scheduler";
+import { PendingOperationService } from "@/services/pending-operations";
+import { EMAIL_CHANNELS } from "../email/email-channels";
+import { SYNC_CHANNELS } from "./sync-channels";
+
+let syncScheduler: SyncSchedulerService;
+let pendingOperations: PendingOperationService;
+
+export function registerSyncListeners(mainWindow: BrowserWindow) {
+  syncScheduler = new SyncSchedulerService();
+
+  // Every account syncs on startup; new mail found by any sync after that
+  // arrives like pushed mail
+  syncScheduler.start(
+    (event) => {
+      if (mainWindow.isDestroyed()) return;
+      mainWindow.webContents.send(SYNC_CHANNELS.STATUS_CHANGED, event);
+    },
+    (event) => {
+      if (mainWindow.isDestroyed()) return;
+      mainWindow.webContents.send(EMAIL_CHANNELS.NEW_EMAIL_NOTIFICATION, event);
+    },
+  );
+
+  // Changes made offline go to the provider once it can be reached again
+  pendingOperations = new PendingOperationService();
+  pendingOperations.start((event) => {
+    if (mainWindow.isDestroyed()) return;
+    mainWindow.webContents.send(SYNC_CHANNELS.PENDING_CHANGED, event);
+  });
+
+  ipcMain.handle(SYNC_CHANNELS.REQUEST_SYNC, async (_, userEmail: string) => {
+    syncScheduler.requestSync(userEmail);
+  });
+
+  ipcMain.handle(
+    SYNC_CHANNELS.SET_RELAY_CONNECTED,
+    async (_, userEmail: string, connected: boolean) => {
+      syncScheduler.setRelayConnected(userEmail, connected);
+    },
+  );
+
+  ipcMain.handle(SYNC_CHANNELS.GET_STATUSES, async () =>
+    syncScheduler.getStatuses(),
+  );
+
+  ipcMain.handle(SYNC_CHANNELS.GET_PENDING_COUNTS, async () => {
+    try {
+      return await pendingOperations.getPendingCounts();
+    } catch (error) {
+      console.error("[IPC_SYNC] Error getting pending changes:", error);
+      throw error;
+    }
+  });
+}
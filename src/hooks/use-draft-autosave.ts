@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { SaveDraftInput } from "@/services/drafts";
+import { isDraftEmpty } from "@/lib/drafts";
+
+interface DraftAutosaveOptions {
+  userEmail?: string | null;
+  draft: Omit<SaveDraftInput, "id">;
+  enabled?: boolean; // Off while the composer holds content that isn't the user's
+}
+
+// Wait for a pause in typing before saving
+const AUTOSAVE_DELAY_MS = 1500;
+
+/**
+ * Save the composer's content as a draft shortly after each change, and once
+ * more when the composer unmounts or the window closes. Empty content is never
+ * saved, discardDraft removes the draft.
+ */
+export function useDraftAutosave({
+  userEmail,
+  draft,
+  enabled = true,
+}: DraftAutosaveOptions) {
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const draftIdRef = useRef<string | null>(null);
+  const latestRef = useRef(draft);
+  const pendingRef = useRef(false);
+  const timeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Saves and discards run one after another, so a discard can't be undone
+  // by a save that was still in flight
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+
+  latestRef.current = draft;
+  const draftKey = JSON.stringify(draft);
+
+  const setCurrentDraftId = useCallback((id: string | null) => {
+    draftIdRef.current = id;
+    setDraftId(id);
+  }, []);
+
+  const enqueue = useCallback((task: () => Promise<void>) => {
+    const run = queueRef.current.then(task);
+    queueRef.current = run.catch(() => undefined);
+    return run;
+  }, []);
+
+  const flush = useCallback(() => {
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+      timeoutRef.current = null;
+    }
+    if (!pendingRef.current || !userEmail) return queueRef.current;
+    pendingRef.current = false;
+
+    const content = latestRef.current;
+    if (isDraftEmpty(content)) return queueRef.current;
+
+    return enqueue(async () => {
+      try {
+        const saved = await window.drafts.saveDraft(userEmail, {
+          ...content,
+          id: draftIdRef.current,
+        });
+        setCurrentDraftId(saved?.id ?? null);
+        setLastSavedAt(saved ? new Date() : null);
+      } catch (error) {
+        // Kept in the composer, the next change saves it again
+        console.error("Error saving draft:", error);
+      }
+    });
+  }, [userEmail, enqueue, setCurrentDraftId]);
+
+  // Debounced save on every change
+  useEffect(() => {
+    if (!enabled) return;
+    pendingRef.current = true;
+    if (timeoutRef.current) clearTimeout(timeoutRef.current);
+    timeoutRef.current = setTimeout(flush, AUTOSAVE_DELAY_MS);
+  }, [draftKey, enabled, flush]);
+
+  // Save what's left when the composer goes away or the window closes
+  const flushRef = useRef(flush);
+  flushRef.current = flush;
+  useEffect(() => {
+    const onBeforeUnload = () => void flushRef.current();
+    window.addEventListener("beforeunload", onBeforeUnload);
+    return () => {
+      window.removeEventListener("beforeunload", onBeforeUnload);
+      void flushRef.current();
+    };
+  }, []);
+
+  /**
+   * Continue editing a saved draft, later saves update it
+   */
+  const resumeDraft = useCallback(
+    (id: string) => {
+      setCurrentDraftId(id);
+      setLastSavedAt(null);
+    },
+    [setCurrentDraftId],
+  );
+
+  /**
+   * Drop the draft, after sending or when the user discards it
+   */
+  const discardDraft = useCallback(() => {
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+      timeoutRef.current = null;
+    }
+    pendingRef.current = false;
+
+    return enqueue(async () => {
+      const id = draftIdRef.current;
+      setCurrentDraftId(null);
+      setLastSavedAt(null);
+      if (id && userEmail) await window.drafts.deleteDraft(userEmail, id);
+    });
+  }, [userEmail, enqueue, setCurrentDraftId]);
+
+  return { draftId, lastSavedAt, resumeDraft, discardDraft };
+}
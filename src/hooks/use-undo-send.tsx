@@ -1,28 +1,33 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
-import { useCustomToast } from '@/components/ui/custom-toast/CustomToastProvider';
+import { useState, useCallback, useRef, useEffect } from "react";
+import { useCustomToast } from "@/components/ui/custom-toast/CustomToastProvider";
+import type { QueueMessageInput } from "@/services/outbox";
 
-interface UndoSendOptions<T = unknown> {
-  onSend: (data: T) => Promise<void>;
-  onSuccess?: () => void;
+interface UndoSendOptions {
+  userEmail?: string | null;
+  onSuccess?: () => void; // Once the undo window has passed
   onError?: (error: Error) => void;
-  successMessage?: string;
   errorMessage?: string;
 }
 const undoDuration = 5;
 
-export function useUndoSend<T = unknown>({
-  onSend,
+/**
+ * Queue mail in the outbox, which sends it in the main process and keeps it
+ * across restarts. Until the undo window passes the message can still be
+ * taken back; whether it went out is reported by the outbox's status events.
+ */
+export function useUndoSend({
+  userEmail,
   onSuccess,
   onError,
-  successMessage = 'Email sent successfully!',
-  errorMessage = 'Failed to send email',
-}: UndoSendOptions<T>) {
+  errorMessage = "Failed to send email",
+}: UndoSendOptions) {
   const [isSending, setIsSending] = useState(false);
-  const [pendingData, setPendingData] = useState<T | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const pendingIdRef = useRef<string | null>(null);
   const undoTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const toastIdRef = useRef<string | null>(null);
-  const { show, dismiss, success, error: errorToast } = useCustomToast();
-  // Cleanup timeout on unmount
+  const { show, dismiss, error: errorToast } = useCustomToast();
+  // Cleanup timeout on unmount, the queued message still goes out
   useEffect(() => {
     return () => {
       if (undoTimeoutRef.current) {
@@ -34,7 +39,7 @@ export function useUndoSend<T = unknown>({
     };
   }, [dismiss]);
 
-  const cancelSend = useCallback(() => {
+  const clearPending = useCallback(() => {
     if (undoTimeoutRef.current) {
       clearTimeout(undoTimeoutRef.current);
       undoTimeoutRef.current = null;
@@ -43,64 +48,103 @@ export function useUndoSend<T = unknown>({
       dismiss(toastIdRef.current);
       toastIdRef.current = null;
     }
-    setPendingData(null);
+    pendingIdRef.current = null;
+    setPendingId(null);
     setIsSending(false);
-    // Do not show a follow-up toast on cancel to avoid reappearing UI
   }, [dismiss]);
 
-  const executeSend = useCallback(
-    async (data: T) => {
+  const cancelSend = useCallback(async () => {
+    const id = pendingIdRef.current;
+    clearPending();
+    if (!id || !userEmail) return;
+    try {
+      await window.outbox.cancelMessage(userEmail, id);
+    } catch (error) {
+      console.error("Error cancelling send:", error);
+      errorToast("Too late to undo, the message is already being sent");
+    }
+    // Do not show a follow-up toast on cancel to avoid reappearing UI
+  }, [userEmail, clearPending, errorToast]);
+
+  /**
+   * Queue a message to go out after the undo window, or at `sendAt` when
+   * it's scheduled for later
+   */
+  const sendWithUndo = useCallback(
+    async (input: QueueMessageInput, sendAt?: Date) => {
+      if (!userEmail) {
+        errorToast("No authenticated user");
+        return;
+      }
+      setIsSending(true);
+
+      const undoUntil = new Date(Date.now() + undoDuration * 1000);
+      const isScheduled = !!sendAt && sendAt > undoUntil;
+      let id: string;
       try {
-        await onSend(data);
-        success(successMessage, { durationMs: 3000 });
-        onSuccess?.();
+        ({ id } = await window.outbox.queueMessage(userEmail, {
+          ...input,
+          sendAt: isScheduled ? sendAt : undoUntil,
+        }));
       } catch (error) {
-        console.error('Error sending:', error);
+        console.error("Error queueing message:", error);
         errorToast(error instanceof Error ? error.message : errorMessage);
         onError?.(error instanceof Error ? error : new Error(errorMessage));
-      } finally {
         setIsSending(false);
-        setPendingData(null);
-        undoTimeoutRef.current = null;
-        toastIdRef.current = null;
+        return;
       }
-    },
-    [onSend, onSuccess, onError, successMessage, errorMessage, errorToast, success]
-  );
-
-  const sendWithUndo = useCallback(
-    async (data: T) => {
-      setIsSending(true);
-      setPendingData(data);
+      pendingIdRef.current = id;
+      setPendingId(id);
 
       // Show undo toast with cross-as-action = Undo
       const toastId = `undo-send-${Date.now()}`;
       toastIdRef.current = show({
         id: toastId,
-        title: 'Sending...',
-        description: `Your message will be sent in ${undoDuration} seconds`,
-        variant: 'info',
-        label: 'Undo',
+        title: isScheduled ? "Scheduled" : "Sending...",
+        description:
+          isScheduled && sendAt
+            ? `Your message will be sent ${sendAt.toLocaleString([], {
+                weekday: "short",
+                hour: "numeric",
+                minute: "2-digit",
+              })}`
+            : `Your message will be sent in ${undoDuration} seconds`,
+        variant: "info",
+        label: "Undo",
         closeAsAction: true,
-        onAction: () => cancelSend(),
+        onAction: () => void cancelSend(),
         durationMs: undoDuration * 1000,
       });
 
-      // Set timeout to actually send
-      undoTimeoutRef.current = setTimeout(async () => {
+      // Past the undo window the message is the outbox's to deliver
+      undoTimeoutRef.current = setTimeout(() => {
         if (toastIdRef.current) {
           dismiss(toastIdRef.current);
         }
-        await executeSend(data);
+        undoTimeoutRef.current = null;
+        toastIdRef.current = null;
+        pendingIdRef.current = null;
+        setPendingId(null);
+        setIsSending(false);
+        onSuccess?.();
       }, undoDuration * 1000);
     },
-    [executeSend, cancelSend, dismiss, show]
+    [
+      userEmail,
+      onSuccess,
+      onError,
+      errorMessage,
+      errorToast,
+      cancelSend,
+      dismiss,
+      show,
+    ],
   );
 
   return {
     sendWithUndo,
     cancelSend,
     isSending,
-    hasPendingSend: !!pendingData,
+    hasPendingSend: !!pendingId,
   };
 }
@@ -1,5 +1,6 @@
 import React from "react";
 import DragWindowRegion from "@/components/DragWindowRegion";
+import { Toaster } from "@/components/ui/sonner";
 export default function BaseLayout({
   children,
 }: {
@@ -9,6 +10,7 @@ export default function BaseLayout({
     <>
       <DragWindowRegion title="electron-shadcn" />
       <main className="h-screen p-2 pb-20">{children}</main>
+      <Toaster />
     </>
   );
 }
@@ -0,0 +1,275 @@
+// Attachment previews, the categories the attachment browser filters by, and
+// which cached attachments to evict. Shared by the main process and the
+// renderer, so nothing here touches Node or the DOM.
+
+export const ATTACHMENT_SCHEME = "attachment-cache";
+
+// Larger attachments are downloaded each time instead of filling the cache
+export const MAX_CACHED_ATTACHMENT_BYTES = 50 * 1024 * 1024;
+export const MAX_ATTACHMENT_CACHE_BYTES = 1024 * 1024 * 1024;
+
+export type AttachmentPreviewKind = "image" | "pdf" | "text" | "csv" | "ics";
+
+export type AttachmentCategory =
+  "image" | "pdf" | "document" | "spreadsheet" | "calendar" | "other";
+
+export interface AttachmentCategoryMatch {
+  prefixes: string[]; // MIME type prefixes
+  types: string[]; // Exact MIME types
+}
+
+// "other" is whatever none of the rest match
+export const ATTACHMENT_CATEGORIES: Record<
+  Exclude<AttachmentCategory, "other">,
+  AttachmentCategoryMatch
+> = {
+  image: { prefixes: ["image/"], types: [] },
+  pdf: { prefixes: [], types: ["application/pdf"] },
+  document: {
+    prefixes: ["text/plain", "application/vnd.oasis.opendocument.text"],
+    types: [
+      "application/msword",
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      "application/rtf",
+    ],
+  },
+  spreadsheet: {
+    prefixes: ["text/csv", "application/vnd.oasis.opendocument.spreadsheet"],
+    types: [
+      "application/vnd.ms-excel",
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    ],
+  },
+  calendar: { prefixes: ["text/calendar"], types: ["application/ics"] },
+};
+
+// Images Chromium shows by itself
+const PREVIEW_IMAGE_TYPES = new Set([
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "image/bmp",
+]);
+
+// Senders often label everything application/octet-stream, so the file
+// extension decides when the type doesn't
+const PREVIEW_EXTENSIONS: Record<string, AttachmentPreviewKind> = {
+  png: "image",
+  jpg: "image",
+  jpeg: "image",
+  gif: "image",
+  webp: "image",
+  bmp: "image",
+  pdf: "pdf",
+  txt: "text",
+  log: "text",
+  md: "text",
+  csv: "csv",
+  ics: "ics",
+};
+
+function getExtension(filename: string): string {
+  const dot = filename.lastIndexOf(".");
+  return dot === -1 ? "" : filename.slice(dot + 1).toLowerCase();
+}
+
+export function getAttachmentPreviewKind(
+  mimeType: string,
+  filename: string,
+): AttachmentPreviewKind | null {
+  const type = mimeType.toLowerCase().split(";")[0].trim();
+  if (PREVIEW_IMAGE_TYPES.has(type)) return "image";
+  if (type === "application/pdf") return "pdf";
+  if (type === "text/csv") return "csv";
+  if (type === "text/calendar" || type === "application/ics") return "ics";
+  if (type === "text/plain") return "text";
+  return PREVIEW_EXTENSIONS[getExtension(filename)] ?? null;
+}
+
+export function getAttachmentCategory(mimeType: string): AttachmentCategory {
+  const type = mimeType.toLowerCase();
+  for (const [category, match] of Object.entries(ATTACHMENT_CATEGORIES)) {
+    if (
+      match.types.includes(type) ||
+      match.prefixes.some((prefix) => type.startsWith(prefix))
+    ) {
+      return category as AttachmentCategory;
+    }
+  }
+  return "other";
+}
+
+export interface CachedAttachmentEntry {
+  id: string;
+  cachedSize: number;
+  lastOpenedAt: Date;
+}
+
+/**
+ * Least recently opened attachments to evict so `incomingBytes` more fit in
+ * the cache
+ */
+export function planCacheEviction(
+  entries: CachedAttachmentEntry[],
+  incomingBytes: number,
+  maxBytes: number = MAX_ATTACHMENT_CACHE_BYTES,
+): string[] {
+  let total =
+    entries.reduce((sum, entry) => sum + entry.cachedSize, 0) + incomingBytes;
+  if (total <= maxBytes) return [];
+
+  const evict: string[] = [];
+  const oldestFirst = [...entries].sort(
+    (a, b) =>
+      new Date(a.lastOpenedAt).getTime() - new Date(b.lastOpenedAt).getTime(),
+  );
+  for (const entry of oldestFirst) {
+    if (total <= maxBytes) break;
+    evict.push(entry.id);
+    total -= entry.cachedSize;
+  }
+  return evict;
+}
+
+/**
+ * Rows of a CSV file, with quoted fields, escaped quotes and line breaks
+ * inside quotes. Stops after `maxRows`.
+ */
+export function parseCsv(text: string, maxRows = 500): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    // Skip blank lines, but keep rows of empty fields
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length && rows.length < maxRows; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (rows.length < maxRows && (field !== "" || row.length > 0)) endRow();
+
+  return rows;
+}
+
+export interface IcsEvent {
+  summary: string;
+  start: Date | null;
+  end: Date | null;
+  allDay: boolean;
+  location: string | null;
+  organizer: string | null;
+  description: string | null;
+}
+
+// 20251024T153000Z, 20251024T153000 (floating, read as local) or 20251024
+function parseIcsDate(value: string): { date: Date | null; allDay: boolean } {
+  const match = value.match(
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/,
+  );
+  if (!match) return { date: null, allDay: false };
+  const [, y, mo, d, h, mi, s, utc] = match;
+  if (h === undefined) {
+    return { date: new Date(+y, +mo - 1, +d), allDay: true };
+  }
+  const date = utc
+    ? new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s))
+    : new Date(+y, +mo - 1, +d, +h, +mi, +s);
+  return { date, allDay: false };
+}
+
+function unescapeIcsText(value: string): string {
+  return value
+    .replace(/\\n/gi, "\n")
+    .replace(/\\([,;\\])/g, "$1")
+    .trim();
+}
+
+/**
+ * Events of an iCalendar file, enough to show an invitation. Time zones
+ * other than UTC are read as local time.
+ */
+export function parseIcsEvents(text: string): IcsEvent[] {
+  // Long lines are folded onto continuation lines starting with whitespace
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  let current: IcsEvent | null = null;
+
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      current = {
+        summary: "",
+        start: null,
+        end: null,
+        allDay: false,
+        location: null,
+        organizer: null,
+        description: null,
+      };
+      continue;
+    }
+    if (line === "END:VEVENT") {
+      if (current) events.push(current);
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+
+    const colon = line.indexOf(":");
+    if (colon === -1) continue;
+    const name = line.slice(0, colon).split(";")[0].toUpperCase();
+    const value = line.slice(colon + 1);
+
+    switch (name) {
+      case "SUMMARY":
+        current.summary = unescapeIcsText(value);
+        break;
+      case "DTSTART": {
+        const { date, allDay } = parseIcsDate(value.trim());
+        current.start = date;
+        current.allDay = allDay;
+        break;
+      }
+      case "DTEND":
+        current.end = parseIcsDate(value.trim()).date;
+        break;
+      case "LOCATION":
+        current.location = unescapeIcsText(value) || null;
+        break;
+      case "ORGANIZER":
+        current.organizer = value.replace(/^mailto:/i, "").trim() || null;
+        break;
+      case "DESCRIPTION":
+        current.description = unescapeIcsText(value) || null;
+        break;
+    }
+  }
+
+  return events;
+}
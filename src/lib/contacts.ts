@@ -0,0 +1,132 @@
+// Contact suggestions for recipient autocomplete, ranked by how often and
+// how recently the user has exchanged mail with each address.
+
+export interface ContactSuggestion {
+  id: string;
+  email: string;
+  name: string | null;
+  avatar: string | null;
+  emailCount: number;
+  lastEmailAt: Date | null;
+  isManual: boolean;
+  isFromGoogle?: boolean;
+  phone?: string | null;
+}
+
+export interface ParsedAddress {
+  name: string | null;
+  email: string;
+}
+
+// Recency halves a contact's score every RECENCY_HALF_LIFE_DAYS
+const RECENCY_HALF_LIFE_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Contacts the user added by hand rank as if they'd had this many emails
+const MANUAL_CONTACT_BONUS = 5;
+
+const EMAIL_PATTERN = /^[^\s@<>",]+@[^\s@<>",]+\.[^\s@<>",]+$/;
+
+// Automated senders that shouldn't be suggested as recipients
+const NO_REPLY_PATTERN = /^(no-?reply|do-?not-?reply|mailer-daemon|bounce)/i;
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function isValidContactEmail(email: string): boolean {
+  return EMAIL_PATTERN.test(email) && !NO_REPLY_PATTERN.test(email);
+}
+
+/**
+ * Parse an address header such as `Ana <ana@example.com>, bob@example.com`.
+ * Invalid entries are dropped.
+ */
+export function parseAddressList(value: string): ParsedAddress[] {
+  // Split on commas that aren't inside quotes or angle brackets
+  const parts: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  let inAngle = false;
+  for (const char of value) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === "<" && !inQuotes) inAngle = true;
+    else if (char === ">" && !inQuotes) inAngle = false;
+
+    if (char === "," && !inQuotes && !inAngle) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  const addresses: ParsedAddress[] = [];
+  for (const part of parts) {
+    const match = part.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+    const email = normalizeEmail(match ? match[2] : part);
+    if (!EMAIL_PATTERN.test(email)) continue;
+
+    const name = match ? match[1].replace(/^"|"$/g, "").trim() : "";
+    addresses.push({ name: name && name !== email ? name : null, email });
+  }
+  return addresses;
+}
+
+export function scoreContact(
+  contact: Pick<ContactSuggestion, "emailCount" | "lastEmailAt" | "isManual">,
+  now: Date = new Date(),
+): number {
+  const count =
+    contact.emailCount + (contact.isManual ? MANUAL_CONTACT_BONUS : 0);
+  const frequency = Math.log2(1 + count);
+  if (!contact.lastEmailAt) return frequency * 0.5;
+
+  const ageDays = Math.max(
+    0,
+    (now.getTime() - new Date(contact.lastEmailAt).getTime()) / DAY_MS,
+  );
+  return (
+    frequency * (0.5 + 0.5 * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS))
+  );
+}
+
+// 0 = no match, higher is a better match
+function matchQuality(contact: ContactSuggestion, query: string): number {
+  const email = contact.email.toLowerCase();
+  const name = (contact.name || "").toLowerCase();
+  if (email.startsWith(query)) return 3;
+  if (
+    name.startsWith(query) ||
+    name.split(/\s+/).some((w) => w.startsWith(query))
+  ) {
+    return 2;
+  }
+  if (email.includes(query) || name.includes(query)) return 1;
+  return 0;
+}
+
+/**
+ * Contacts matching a query, best first: prefix matches on the address,
+ * then on a name, then anywhere; ties go to frequency and recency.
+ */
+export function rankContacts<T extends ContactSuggestion>(
+  contacts: T[],
+  query: string,
+  limit: number = 10,
+  now: Date = new Date(),
+): T[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return [];
+
+  return contacts
+    .map((contact) => ({
+      contact,
+      quality: matchQuality(contact, q),
+      score: scoreContact(contact, now),
+    }))
+    .filter((entry) => entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality || b.score - a.score)
+    .slice(0, limit)
+    .map((entry) => entry.contact);
+}
@@ -0,0 +1,94 @@
+// Helpers shared by the draft service and the composers. Recipients are stored
+// as JSON string arrays and bodies as the editor's HTML.
+
+export type DraftMode = "new" | "reply" | "forward";
+
+export interface DraftContent {
+  mode: DraftMode;
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  body: string; // HTML
+}
+
+const ENTITIES: Record<string, string> = {
+  "&nbsp;": " ",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#39;": "'",
+  "&amp;": "&",
+};
+
+export function parseDraftAddresses(
+  value: string | null | undefined,
+): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed)
+      ? parsed.filter((address) => typeof address === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Visible text of a draft body, whitespace collapsed
+ */
+export function draftBodyText(html: string): string {
+  return html
+    .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>|<\/(p|div|li|h[1-6]|blockquote)>/gi, " ")
+    .replace(/<[^>]+>/g, "")
+    .replace(
+      /&(nbsp|lt|gt|quot|#39|amp);/gi,
+      (entity) => ENTITIES[entity.toLowerCase()] ?? entity,
+    )
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Whether a draft is worth keeping. Replies and forwards start with their
+ * recipients and subject filled in, so only the body counts for them.
+ */
+export function isDraftEmpty(draft: DraftContent): boolean {
+  if (draftBodyText(draft.body)) return false;
+  if (draft.mode !== "new") return true;
+  return (
+    !draft.subject.trim() &&
+    draft.to.length + (draft.cc?.length ?? 0) + (draft.bcc?.length ?? 0) === 0
+  );
+}
+
+export function draftPreview(html: string, max: number = 120): string {
+  const text = draftBodyText(html);
+  return text.length > max ? `${text.slice(0, max).trimEnd()}…` : text;
+}
+
+/**
+ * HTML body for a draft typed as plain text
+ */
+export function plainTextToDraftHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\r?\n/g, "<br>");
+}
+
+/**
+ * The plain text a body was made from by plainTextToDraftHtml, or null when
+ * it has real markup and has to be edited as HTML
+ */
+export function draftHtmlToPlainText(html: string): string | null {
+  if (/<(?!br\s*\/?>)[a-z!/][^>]*>/i.test(html)) return null;
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/&(nbsp|lt|gt|quot|#39|amp);/gi, (entity) =>
+      entity.toLowerCase() === "&nbsp;" ? " " : ENTITIES[entity.toLowerCase()],
+    );
+}
@@ -0,0 +1,336 @@
+// Messages are shown in a sandboxed iframe, served by the main process under
+// their own scheme with a content policy that blocks scripts, forms and, by
+// default, anything remote. Shared by the main process, which builds the
+// document, and the renderer, which shows the report of what was blocked.
+
+import { splitQuotedContent } from "./email-sanitization";
+import {
+  enhanceLinksInHtml,
+  makeLinksClickable,
+  sanitizeText,
+} from "./text-utils";
+
+export const EMAIL_VIEW_SCHEME = "email-view";
+
+export type RemoteResourceKind = "image" | "stylesheet" | "font" | "media";
+
+export type TrackerReason = "known-tracker" | "tracking-pixel" | "tracking-url";
+
+export interface RemoteResource {
+  url: string;
+  host: string;
+  kind: RemoteResourceKind;
+  tracker: TrackerReason | null;
+}
+
+export interface RemoteContentReport {
+  remoteLoaded: boolean; // Remote content was let through for this view
+  resources: (RemoteResource & { blocked: boolean })[];
+}
+
+// What the view's frame script posts to the app
+export type EmailViewMessage =
+  | { type: "email-view:height"; height: number }
+  | { type: "email-view:link"; href: string };
+
+// Open and click tracking services. Subdomains count too.
+const TRACKER_DOMAINS = [
+  "google-analytics.com",
+  "googletagmanager.com",
+  "doubleclick.net",
+  "facebook.com",
+  "linkedin.com",
+  "mailchimp.com",
+  "list-manage.com",
+  "constantcontact.com",
+  "hubspot.com",
+  "salesforce.com",
+  "pardot.com",
+  "marketo.com",
+  "mailgun.com",
+  "sendgrid.com",
+  "sendgrid.net",
+  "mandrillapp.com",
+  "mixpanel.com",
+  "segment.com",
+  "amplitude.com",
+];
+
+// Open pixels are usually served from paths like /track/open.php or /wf/open
+const TRACKING_PATH = /\/(track|tracking|open|opens|pixel|beacon)(\/|\.|$)/i;
+
+const FONT_EXTENSION = /\.(woff2?|ttf|otf|eot)$/i;
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&amp;/gi, "&")
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;/g, "'");
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s"'=<>/]+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    const name = match[1].toLowerCase();
+    if (!(name in attributes)) {
+      attributes[name] = decodeEntities(match[3] ?? match[4] ?? match[5]);
+    }
+  }
+  return attributes;
+}
+
+const isPixelSize = (value: string | undefined) =>
+  value !== undefined && /^\s*[01](px)?\s*$/i.test(value);
+
+// 1x1 or hidden images are there to report the open, not to be seen
+function isTrackingPixel(attributes: Record<string, string>): boolean {
+  if (isPixelSize(attributes.width) && isPixelSize(attributes.height)) {
+    return true;
+  }
+  const style = (attributes.style ?? "").toLowerCase();
+  return (
+    /display\s*:\s*none/.test(style) ||
+    (/(^|;)\s*width\s*:\s*[01]px/.test(style) &&
+      /(^|;)\s*height\s*:\s*[01]px/.test(style))
+  );
+}
+
+function getTrackerReason(url: URL, pixel: boolean): TrackerReason | null {
+  const host = url.hostname.toLowerCase();
+  if (TRACKER_DOMAINS.some((d) => host === d || host.endsWith(`.${d}`))) {
+    return "known-tracker";
+  }
+  if (pixel) return "tracking-pixel";
+  if (TRACKING_PATH.test(url.pathname)) return "tracking-url";
+  return null;
+}
+
+/**
+ * Remote images, stylesheets, fonts and media a message would load, each
+ * flagged when it looks like a tracker. Only reports them: blocking is the
+ * view's content policy, so anything missed here still doesn't load.
+ */
+export function findRemoteResources(html: string): RemoteResource[] {
+  const resources = new Map<string, RemoteResource>();
+
+  const add = (value: string, kind: RemoteResourceKind, pixel = false) => {
+    let url: URL;
+    try {
+      url = new URL(value.trim());
+    } catch {
+      return; // Relative or malformed, nothing remote to load
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") return;
+    if (resources.has(url.href)) return;
+    resources.set(url.href, {
+      url: url.href,
+      host: url.host.toLowerCase(),
+      kind:
+        kind === "image" && FONT_EXTENSION.test(url.pathname) ? "font" : kind,
+      tracker: getTrackerReason(url, pixel),
+    });
+  };
+
+  const addFromCss = (css: string) => {
+    for (const [, , value] of css.matchAll(/url\(\s*(['"]?)(.*?)\1\s*\)/gi)) {
+      add(decodeEntities(value), "image");
+    }
+    for (const [, , value] of css.matchAll(/@import\s+(['"])(.*?)\1/gi)) {
+      add(value, "stylesheet");
+    }
+  };
+
+  for (const [, css] of html.matchAll(/<style[^>]*>([\s\S]*?)<\/style>/gi)) {
+    addFromCss(css);
+  }
+
+  for (const [, tag, source] of html.matchAll(
+    /<([a-z][a-z0-9-]*)\b([^>]*)>/gi,
+  )) {
+    const name = tag.toLowerCase();
+    const attributes = parseAttributes(source);
+
+    if (attributes.style) addFromCss(attributes.style);
+    if (attributes.background) add(attributes.background, "image");
+
+    if (name === "img" || name === "image" || name === "input") {
+      if (attributes.src) {
+        add(attributes.src, "image", isTrackingPixel(attributes));
+      }
+      for (const candidate of (attributes.srcset ?? "").split(",")) {
+        const [value] = candidate.trim().split(/\s+/);
+        if (value) add(value, "image");
+      }
+    } else if (name === "link") {
+      const rel = (attributes.rel ?? "").toLowerCase();
+      if (attributes.href && /stylesheet|icon|preload/.test(rel)) {
+        add(
+          attributes.href,
+          rel.includes("stylesheet") ? "stylesheet" : "image",
+        );
+      }
+    } else if (["video", "audio", "source", "track"].includes(name)) {
+      if (attributes.src) add(attributes.src, "media");
+      if (attributes.poster) add(attributes.poster, "image");
+    }
+  }
+
+  return [...resources.values()];
+}
+
+/**
+ * Hosts a message may load from once its remote content is allowed. Hosts
+ * serving anything that looks like a tracker stay blocked, since the policy
+ * can only tell hosts apart, not single URLs.
+ */
+export function getAllowedRemoteHosts(resources: RemoteResource[]): string[] {
+  const trackerHosts = new Set(
+    resources.filter((r) => r.tracker).map((r) => r.host),
+  );
+  return [
+    ...new Set(
+      resources.map((r) => r.host).filter((host) => !trackerHosts.has(host)),
+    ),
+  ];
+}
+
+export function getRemoteContentReport(
+  resources: RemoteResource[],
+  remoteLoaded: boolean,
+): RemoteContentReport {
+  const allowed = new Set(remoteLoaded ? getAllowedRemoteHosts(resources) : []);
+  return {
+    remoteLoaded,
+    resources: resources.map((resource) => ({
+      ...resource,
+      blocked: !allowed.has(resource.host),
+    })),
+  };
+}
+
+/**
+ * The view's content policy: only the frame script runs, no forms, frames
+ * or connections, and remote content only from `remoteHosts`
+ */
+export function getEmailViewPolicy(remoteHosts: string[], nonce: string) {
+  const remote = remoteHosts
+    .map((host) => ` https://${host} http://${host}`)
+    .join("");
+  return [
+    "default-src 'none'",
+    `script-src 'nonce-${nonce}'`,
+    `style-src 'unsafe-inline'${remote}`,
+    `img-src data:${remote}`,
+    `font-src data:${remote}`,
+    `media-src${remote || " 'none'"}`,
+    "form-action 'none'",
+    "base-uri 'none'",
+  ].join("; ");
+}
+
+export function getEmailViewUrl(emailId: string, loadRemote: boolean) {
+  return `${EMAIL_VIEW_SCHEME}://${emailId}/${loadRemote ? "?remote=1" : ""}`;
+}
+
+export function parseEmailViewUrl(
+  value: string,
+): { emailId: string; loadRemote: boolean } | null {
+  try {
+    const url = new URL(value);
+    // Ids are cuids
+    if (!/^[a-z0-9]+$/i.test(url.hostname)) return null;
+    return {
+      emailId: url.hostname,
+      loadRemote: url.searchParams.get("remote") === "1",
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Runs inside the frame: reports the content height, so the frame can be
+// sized to it (the body's, as the document's is never below the frame's), and hands link clicks to the app instead of navigating
+const FRAME_SCRIPT = `(function () {
+  function reportHeight() {
+    parent.postMessage({ type: "email-view:height", height: document.body.scrollHeight }, "*");
+  }
+  document.addEventListener("DOMContentLoaded", function () {
+    new ResizeObserver(reportHeight).observe(document.body);
+  });
+  addEventListener("load", reportHeight);
+  document.addEventListener("click", function (event) {
+    var link = event.target instanceof Element && event.target.closest("a[href]");
+    if (!link || link.getAttribute("href").charAt(0) === "#") return;
+    event.preventDefault();
+    parent.postMessage({ type: "email-view:link", href: link.href }, "*");
+  });
+})();`;
+
+const BASE_STYLES = `
+html { overflow-x: auto; overflow-y: hidden; }
+html, body { height: auto !important; min-height: 0 !important; }
+body {
+  display: flow-root;
+  margin: 0;
+  color: #111827;
+  font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+  overflow-wrap: break-word;
+}
+img { max-width: 100%; height: auto; }
+a { color: #2563eb; }
+.email-view-plain { white-space: pre-wrap; }
+.email-view-quoted { margin-top: 16px; color: #4b5563; }
+.email-view-quoted > summary {
+  width: max-content;
+  color: #6b7280;
+  font-size: 12px;
+  cursor: pointer;
+  list-style: none;
+}
+.email-view-quoted[open] > summary { margin-bottom: 8px; }
+.email-view-quoted[open] .email-view-show,
+.email-view-quoted:not([open]) .email-view-hide { display: none; }
+`;
+
+/**
+ * The full document for a message: its content with quoted replies folded
+ * into a <details>, under the given policy
+ */
+export function buildEmailViewDocument(
+  message: { body: string; htmlBody?: string | null },
+  policy: string,
+  nonce: string,
+): string {
+  const isHtml = !!message.htmlBody;
+  // Plain text is escaped first, so the quote markers are the escaped ones
+  const { mainContent, quotedContent } = splitQuotedContent(
+    message.htmlBody || sanitizeText(message.body),
+  );
+  const render = (part: string) =>
+    isHtml
+      ? enhanceLinksInHtml(part)
+      : `<div class="email-view-plain">${makeLinksClickable(part)}</div>`;
+
+  const quoted = quotedContent
+    ? `<details class="email-view-quoted"><summary><span class="email-view-show">Show</span><span class="email-view-hide">Hide</span> quoted text</summary>${render(quotedContent)}</details>`
+    : "";
+
+  // The policy is also sent as a header; the meta tag covers the document
+  // however it's loaded
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta http-equiv="Content-Security-Policy" content="${policy}">
+<meta name="referrer" content="no-referrer">
+<base target="_blank">
+<style>${BASE_STYLES}</style>
+<script nonce="${nonce}">${FRAME_SCRIPT}</script>
+</head>
+<body>
+${render(mainContent)}
+${quoted}
+</body>
+</html>`;
+}
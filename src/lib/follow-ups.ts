@@ -0,0 +1,60 @@
+// Follow-up reminders: when one comes due, and whether the thread it watches
+// has been answered since.
+
+export type FollowUpStatus = "pending" | "due" | "replied" | "done";
+
+export interface FollowUpWatch {
+  threadId: string;
+  subject: string;
+  recipients: string[];
+  sentAt: Date;
+}
+
+export interface FollowUpCandidate {
+  threadId: string;
+  subject: string;
+  senderEmail: string;
+  timestamp: Date;
+}
+
+// Reply and forward prefixes, in the languages clients commonly use
+const SUBJECT_PREFIX =
+  /^\s*((re|fw|fwd|aw|wg|sv|vs|tr|rv)\s*(\[\d+\])?\s*:\s*)+/i;
+
+export function getFollowUpDueAt(sentAt: Date, hours: number): Date {
+  return new Date(sentAt.getTime() + hours * 60 * 60 * 1000);
+}
+
+/**
+ * Subject without reply and forward prefixes, for matching messages of one
+ * conversation
+ */
+export function normalizeSubject(subject: string): string {
+  return subject.replace(SUBJECT_PREFIX, "").trim().toLowerCase();
+}
+
+/**
+ * Whether someone other than the user wrote since the follow-up's message
+ * went out. Messages in the same thread count; so do messages from one of
+ * the recipients on the same subject, since Outlook threads are single
+ * messages here.
+ */
+export function hasFollowUpReply(
+  followUp: FollowUpWatch,
+  messages: FollowUpCandidate[],
+  userEmail: string,
+): boolean {
+  const user = userEmail.toLowerCase();
+  const recipients = new Set(followUp.recipients.map((r) => r.toLowerCase()));
+  const subject = normalizeSubject(followUp.subject);
+
+  return messages.some((message) => {
+    const sender = message.senderEmail.toLowerCase();
+    if (sender === user) return false;
+    if (new Date(message.timestamp) <= new Date(followUp.sentAt)) return false;
+    if (message.threadId === followUp.threadId) return true;
+    return (
+      recipients.has(sender) && normalizeSubject(message.subject) === subject
+    );
+  });
+}
@@ -0,0 +1,218 @@
+// Gmail's batch endpoint: many API calls in one multipart HTTP request, each
+// answered in its own part. Thread fetches go through it with a `fields`
+// partial response, so sync only downloads what the list needs.
+
+import { isRetryableSyncError, withRequestRetry } from "./sync-scheduler";
+
+export const GMAIL_BATCH_URL = "https://gmail.googleapis.com/batch/gmail/v1";
+
+// Gmail allows 100 calls a batch, but rate limits batches over 50
+export const GMAIL_BATCH_LIMIT = 50;
+
+// A message part's structure without its data: attachments stay known, and
+// bodies are fetched when the thread is opened
+function getPartFields(depth: number): string {
+  const fields = "partId,mimeType,filename,body(attachmentId,size)";
+  return depth > 0 ? `${fields},parts(${getPartFields(depth - 1)})` : fields;
+}
+
+// What sync needs of a thread: headers, labels and snippets, no bodies
+export const GMAIL_THREAD_METADATA_FIELDS = `id,snippet,messages(id,threadId,labelIds,snippet,payload(headers,${getPartFields(3)}))`;
+
+// The bodies left out above, for opening a thread
+export const GMAIL_THREAD_BODY_FIELDS = "messages(id,payload)";
+
+export interface GmailBatchPart {
+  status: number;
+  headers: Record<string, string>; // Lower-cased names
+  body: unknown; // Parsed JSON, or null when empty
+}
+
+export interface GmailBatchOptions {
+  url?: string; // The batch endpoint, a local server's in tests
+  fetch?: typeof fetch;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * A failed call in a batch, or the batch itself. Shaped like a gaxios error
+ * so token refresh and sync backoff treat it like any other request's.
+ */
+export class GmailBatchError extends Error {
+  readonly response: { status: number; headers: Record<string, string> };
+
+  constructor(status: number, headers: Record<string, string> = {}) {
+    super(`Gmail batch request failed with ${status}`);
+    this.name = "GmailBatchError";
+    this.response = { status, headers };
+  }
+}
+
+export function getGmailThreadPath(threadId: string, fields: string): string {
+  const query = new URLSearchParams({ format: "full", fields });
+  return `/gmail/v1/users/me/threads/${encodeURIComponent(threadId)}?${query}`;
+}
+
+/**
+ * The multipart body for GET requests to these paths. Each part's
+ * Content-ID is its index, which the response echoes back.
+ */
+export function buildGmailBatchBody(paths: string[], boundary: string): string {
+  const parts = paths.map(
+    (path, index) =>
+      `--${boundary}\r\n` +
+      "Content-Type: application/http\r\n" +
+      `Content-ID: <item-${index}>\r\n\r\n` +
+      `GET ${path}\r\n\r\n`,
+  );
+  return `${parts.join("")}--${boundary}--\r\n`;
+}
+
+function parseHeaders(lines: string[]): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of lines) {
+    const separator = line.indexOf(":");
+    if (separator > 0) {
+      headers[line.slice(0, separator).trim().toLowerCase()] = line
+        .slice(separator + 1)
+        .trim();
+    }
+  }
+  return headers;
+}
+
+// Headers and the rest, split at the first blank line
+function splitHead(text: string): [string[], string] {
+  const match = /\r?\n\r?\n/.exec(text);
+  if (!match) return [text.split(/\r?\n/), ""];
+  return [
+    text.slice(0, match.index).split(/\r?\n/),
+    text.slice(match.index + match[0].length),
+  ];
+}
+
+function parseResponsePart(text: string): {
+  index: number | null;
+  part: GmailBatchPart;
+} {
+  const [outerHeaders, response] = splitHead(text.replace(/^\r?\n/, ""));
+  const contentId = parseHeaders(outerHeaders)["content-id"] ?? "";
+  const indexMatch = /item-(\d+)>?$/.exec(contentId);
+
+  const [head, body] = splitHead(response);
+  const status = Number(/^HTTP\/[\d.]+ (\d{3})/.exec(head[0] ?? "")?.[1] ?? 0);
+  const trimmed = body.trim();
+  let parsed: unknown = null;
+  if (trimmed) {
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      parsed = trimmed;
+    }
+  }
+
+  return {
+    index: indexMatch ? Number(indexMatch[1]) : null,
+    part: { status, headers: parseHeaders(head.slice(1)), body: parsed },
+  };
+}
+
+/**
+ * The parts of a batch response, in the order of the requests. A call
+ * missing from the response gets a 500, so it's asked for again.
+ */
+export function parseGmailBatchResponse(
+  body: string,
+  contentType: string,
+  count: number,
+): GmailBatchPart[] {
+  const boundary = /boundary="?([^";]+)"?/i.exec(contentType)?.[1];
+  if (!boundary) throw new Error("Gmail batch response has no boundary");
+
+  const parts: GmailBatchPart[] = Array.from({ length: count }, () => ({
+    status: 500,
+    headers: {},
+    body: null,
+  }));
+  const sections = body.split(`--${boundary}`).slice(1);
+  for (const section of sections) {
+    if (section.startsWith("--")) break;
+    const { index, part } = parseResponsePart(section);
+    if (index !== null && index < count) parts[index] = part;
+  }
+  return parts;
+}
+
+/**
+ * One batch request. Throws if the batch as a whole failed; the parts have
+ * their own statuses.
+ */
+export async function fetchGmailBatch(
+  accessToken: string,
+  paths: string[],
+  options: GmailBatchOptions = {},
+): Promise<GmailBatchPart[]> {
+  const boundary = `batch_${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`;
+  const res = await (options.fetch ?? fetch)(options.url ?? GMAIL_BATCH_URL, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": `multipart/mixed; boundary=${boundary}`,
+    },
+    body: buildGmailBatchBody(paths, boundary),
+  });
+  if (!res.ok) {
+    const headers: Record<string, string> = {};
+    res.headers.forEach((value, name) => (headers[name] = value));
+    throw new GmailBatchError(res.status, headers);
+  }
+  return parseGmailBatchResponse(
+    await res.text(),
+    res.headers.get("content-type") ?? "",
+    paths.length,
+  );
+}
+
+/**
+ * GETs every path through the batch endpoint, as many batches as it takes.
+ * Calls the provider rate limited are asked for again, like single requests
+ * are, and throw once out of retries; other failures are returned in their
+ * call's place.
+ */
+export async function getGmailBatch<T>(
+  accessToken: string,
+  paths: string[],
+  options: GmailBatchOptions = {},
+): Promise<Array<T | GmailBatchError>> {
+  const results: Array<T | GmailBatchError> = new Array(paths.length);
+
+  for (let start = 0; start < paths.length; start += GMAIL_BATCH_LIMIT) {
+    let pending = paths
+      .slice(start, start + GMAIL_BATCH_LIMIT)
+      .map((_, offset) => start + offset);
+
+    await withRequestRetry(async () => {
+      const parts = await fetchGmailBatch(
+        accessToken,
+        pending.map((index) => paths[index]),
+        options,
+      );
+      const retry: number[] = [];
+      parts.forEach((part, i) => {
+        const index = pending[i];
+        if (part.status >= 200 && part.status < 300) {
+          results[index] = part.body as T;
+          return;
+        }
+        const error = new GmailBatchError(part.status, part.headers);
+        results[index] = error;
+        if (isRetryableSyncError(error)) retry.push(index);
+      });
+
+      pending = retry;
+      if (retry.length) throw results[retry[0]];
+    }, options.sleep);
+  }
+
+  return results;
+}
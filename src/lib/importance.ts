@@ -0,0 +1,212 @@
+// Weighted importance scoring. Each signal a thread has adds its weight to
+// the score, and threads at or above the threshold are marked important.
+
+export interface ImportanceWeights {
+  participated: number; // The user has written in the thread
+  repliedToSender: number; // The user has emailed the sender before
+  vipContact: number;
+  vipDomain: number;
+  smartGroup: number;
+  importantLabel: number; // Thread has a label chosen as important
+  frequentSender: number; // Regular correspondent
+  bulkSender: number; // High-volume sender, usually negative
+  threshold: number;
+}
+
+export const DEFAULT_IMPORTANCE_WEIGHTS: ImportanceWeights = {
+  participated: 3,
+  repliedToSender: 2,
+  vipContact: 4,
+  vipDomain: 2,
+  smartGroup: 2,
+  importantLabel: 3,
+  frequentSender: 1,
+  bulkSender: -2,
+  threshold: 3,
+};
+
+// Labels treated as important when the user hasn't picked any in onboarding
+export const DEFAULT_IMPORTANT_LABELS = [
+  "credentials",
+  "invoice",
+  "meeting",
+  "important",
+];
+
+// Messages from one sender in the last SENDER_WINDOW_DAYS
+export const SENDER_WINDOW_DAYS = 30;
+export const FREQUENT_SENDER_MIN = 3;
+export const BULK_SENDER_MIN = 20;
+
+const MAX_WEIGHT = 10;
+
+export interface ImportancePreferences {
+  vipContacts: string[];
+  vipDomains: string[];
+  smartGroupEmails: string[];
+  importantLabels: string[];
+}
+
+export interface ImportanceSignals {
+  lastMessageFromUser: boolean;
+  markedByRule: boolean; // A mail rule marked the thread important
+  isDraft: boolean;
+  participated: boolean;
+  repliedToSender: boolean;
+  vipContact: boolean;
+  vipDomain: boolean;
+  smartGroup: boolean;
+  importantLabels: string[]; // Thread labels the user treats as important
+  senderMessageCount: number; // From this sender within SENDER_WINDOW_DAYS
+}
+
+export interface ImportanceResult {
+  score: number;
+  isImportant: boolean;
+  reasons: string[]; // Why, in the order the signals were scored
+}
+
+export interface ImportanceSignalInput {
+  messages: { senderEmail: string }[]; // Oldest first
+  labels: string[];
+  userEmail: string;
+  isDraft?: boolean;
+  markedByRule?: boolean;
+  preferences?: ImportancePreferences;
+  repliedToSender?: boolean;
+  senderMessageCount?: number;
+}
+
+const lower = (value: string) => value.trim().toLowerCase();
+
+/**
+ * A thread's messages oldest first, the order signals are built from.
+ * Stored messages are often loaded newest first.
+ */
+export function sortMessagesOldestFirst<T extends { timestamp: Date }>(
+  messages: T[],
+): T[] {
+  return [...messages].sort(
+    (a, b) => a.timestamp.getTime() - b.timestamp.getTime(),
+  );
+}
+
+/**
+ * Signals for a thread. Preferences and history are optional so the parsers
+ * can score a thread before it's stored.
+ */
+export function buildImportanceSignals(
+  input: ImportanceSignalInput,
+): ImportanceSignals {
+  const userEmail = lower(input.userEmail);
+  const last = input.messages[input.messages.length - 1];
+  const senderEmail = last ? lower(last.senderEmail) : "";
+  const senderDomain = senderEmail.split("@")[1] || "";
+  const preferences = input.preferences;
+
+  const importantLabels = (
+    preferences?.importantLabels.length
+      ? preferences.importantLabels
+      : DEFAULT_IMPORTANT_LABELS
+  ).map(lower);
+
+  return {
+    lastMessageFromUser: senderEmail === userEmail,
+    markedByRule: !!input.markedByRule,
+    isDraft: !!input.isDraft,
+    participated: input.messages.some(
+      (m) => lower(m.senderEmail) === userEmail,
+    ),
+    repliedToSender: !!input.repliedToSender,
+    vipContact: !!preferences?.vipContacts.some(
+      (c) => lower(c) === senderEmail,
+    ),
+    vipDomain: !!preferences?.vipDomains.some(
+      (d) => lower(d).replace(/^@/, "") === senderDomain,
+    ),
+    smartGroup: !!preferences?.smartGroupEmails.some(
+      (e) => lower(e) === senderEmail,
+    ),
+    importantLabels: input.labels.filter((l) =>
+      importantLabels.includes(lower(l)),
+    ),
+    senderMessageCount: input.senderMessageCount ?? 0,
+  };
+}
+
+export function scoreImportance(
+  signals: ImportanceSignals,
+  weights: ImportanceWeights = DEFAULT_IMPORTANCE_WEIGHTS,
+): ImportanceResult {
+  // Hard negatives: nothing to act on
+  if (signals.lastMessageFromUser) {
+    return {
+      score: 0,
+      isImportant: false,
+      reasons: ["You sent the last message"],
+    };
+  }
+  if (signals.isDraft) {
+    return {
+      score: 0,
+      isImportant: false,
+      reasons: ["Last message is a draft"],
+    };
+  }
+
+  let score = 0;
+  const reasons: string[] = [];
+  const add = (weight: number, reason: string) => {
+    if (weight === 0) return;
+    score += weight;
+    reasons.push(`${reason} (${weight > 0 ? "+" : ""}${weight})`);
+  };
+
+  if (signals.participated)
+    add(weights.participated, "You replied in this thread");
+  if (signals.repliedToSender) {
+    add(weights.repliedToSender, "You've emailed this sender before");
+  }
+  if (signals.vipContact) add(weights.vipContact, "Sender is a VIP contact");
+  if (signals.vipDomain) add(weights.vipDomain, "Sender is from a VIP domain");
+  if (signals.smartGroup) add(weights.smartGroup, "Sender is in your group");
+  if (signals.importantLabels.length) {
+    add(
+      weights.importantLabel,
+      `Labelled ${signals.importantLabels.join(", ")}`,
+    );
+  }
+  if (signals.senderMessageCount >= BULK_SENDER_MIN) {
+    add(
+      weights.bulkSender,
+      `${signals.senderMessageCount} emails from this sender in ${SENDER_WINDOW_DAYS} days`,
+    );
+  } else if (signals.senderMessageCount >= FREQUENT_SENDER_MIN) {
+    add(weights.frequentSender, "You hear from this sender regularly");
+  }
+
+  // Hard positive: the user asked for it with a rule
+  if (signals.markedByRule) {
+    reasons.push("A mail rule marked this important");
+    return { score, isImportant: true, reasons };
+  }
+
+  return { score, isImportant: score >= weights.threshold, reasons };
+}
+
+/**
+ * Fill in missing weights from the defaults and clamp the rest, so stored or
+ * user-entered values can't break scoring
+ */
+export function normalizeImportanceWeights(
+  weights: Partial<ImportanceWeights> | null | undefined,
+): ImportanceWeights {
+  const normalized = { ...DEFAULT_IMPORTANCE_WEIGHTS };
+  for (const key of Object.keys(normalized) as (keyof ImportanceWeights)[]) {
+    const value = Number(weights?.[key]);
+    if (weights?.[key] === undefined || !Number.isFinite(value)) continue;
+    const min = key === "threshold" ? 0 : -MAX_WEIGHT;
+    normalized[key] = Math.min(MAX_WEIGHT, Math.max(min, value));
+  }
+  return normalized;
+}
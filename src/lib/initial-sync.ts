@@ -0,0 +1,92 @@
+// Initial sync: how far back an account's mail is fetched, newest first. The
+// first page is fetched while the user waits; the rest of the window is
+// backfilled in the background from a checkpoint kept with the account.
+
+export type SyncWindow = "week" | "month" | "year" | "all";
+
+export const SYNC_WINDOWS: SyncWindow[] = ["week", "month", "year", "all"];
+
+export const DEFAULT_SYNC_WINDOW: SyncWindow = "month";
+
+// Threads (Outlook messages) per page, for the first page and the backfill
+export const INITIAL_SYNC_PAGE_SIZE = 50;
+
+// The backfill fetches one page per account at a time, this far apart, so
+// it stays out of the way of what the user is doing
+export const BACKFILL_PAGE_DELAY_MS = 5 * 1000;
+
+export type InitialSyncStatus = "syncing" | "paused" | "complete";
+
+export interface InitialSyncState {
+  window: SyncWindow;
+  status: InitialSyncStatus;
+  processed: number; // Threads fetched so far
+}
+
+// Sent over INITIAL_SYNC_PROGRESS after every page
+export interface InitialSyncProgress {
+  processed: number;
+  total: number; // The provider's estimate for the whole window
+  currentEmail: string;
+  phase: "recent" | "backfill";
+  status: InitialSyncStatus;
+}
+
+export function isSyncWindow(value: unknown): value is SyncWindow {
+  return SYNC_WINDOWS.includes(value as SyncWindow);
+}
+
+/**
+ * The oldest date a window covers, or null for all mail
+ */
+export function getSyncWindowStart(
+  window: SyncWindow,
+  now: Date = new Date(),
+): Date | null {
+  const start = new Date(now);
+  switch (window) {
+    case "week":
+      start.setDate(start.getDate() - 7);
+      return start;
+    case "month":
+      start.setMonth(start.getMonth() - 1);
+      return start;
+    case "year":
+      start.setFullYear(start.getFullYear() - 1);
+      return start;
+    case "all":
+      return null;
+  }
+}
+
+/**
+ * Gmail search restricting a listing to the window, if it needs one
+ */
+export function getGmailSyncWindowQuery(
+  window: SyncWindow,
+  now?: Date,
+): string | undefined {
+  const start = getSyncWindowStart(window, now);
+  if (!start) return undefined;
+  return `after:${start.toISOString().split("T")[0].replace(/-/g, "/")}`;
+}
+
+/**
+ * Graph filter restricting a listing to the window, if it needs one
+ */
+export function getOutlookSyncWindowFilter(
+  window: SyncWindow,
+  now?: Date,
+): string | undefined {
+  const start = getSyncWindowStart(window, now);
+  if (!start) return undefined;
+  return `receivedDateTime ge ${start.toISOString().split("T")[0]}T00:00:00Z`;
+}
+
+export function getInitialSyncStatus(checkpoint: {
+  initialSyncPaused: boolean;
+  initialSyncCompletedAt: Date | null;
+}): InitialSyncStatus {
+  if (checkpoint.initialSyncCompletedAt) return "complete";
+  return checkpoint.initialSyncPaused ? "paused" : "syncing";
+}
@@ -0,0 +1,91 @@
+// Images pasted or inserted into the composer are stored locally under the
+// hash of their content and shown through the inline-image:// protocol.
+// When the message goes out they become cid: parts of the MIME message.
+
+export const INLINE_IMAGE_SCHEME = "inline-image";
+
+// Mail clients can't be relied on to show anything else inline
+export const INLINE_IMAGE_TYPES: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/bmp": "bmp",
+};
+
+export const MAX_INLINE_IMAGE_BYTES = 10 * 1024 * 1024;
+
+const NAME_PATTERN = /^[a-f0-9]{64}\.(png|jpg|gif|webp|bmp)$/;
+const SRC_PATTERN =
+  /(\bsrc\s*=\s*)(["'])inline-image:\/\/([a-f0-9]{64}\.[a-z]+)\/?\2/gi;
+
+/**
+ * File name for an image in the store: its SHA-256 hash and an extension for
+ * its type. Throws for types that can't be sent inline.
+ */
+export function getInlineImageName(hash: string, mimeType: string): string {
+  const extension = INLINE_IMAGE_TYPES[mimeType.toLowerCase()];
+  if (!extension) throw new Error(`Unsupported image type: ${mimeType}`);
+  const name = `${hash.toLowerCase()}.${extension}`;
+  if (!NAME_PATTERN.test(name)) throw new Error("Invalid image hash");
+  return name;
+}
+
+export function getInlineImageUrl(name: string): string {
+  return `${INLINE_IMAGE_SCHEME}://${name}`;
+}
+
+/**
+ * Stored image name for an inline-image:// URL, or null for anything else.
+ * Names are validated so a URL can never point outside the store.
+ */
+export function parseInlineImageUrl(url: string): string | null {
+  const prefix = `${INLINE_IMAGE_SCHEME}://`;
+  if (!url.toLowerCase().startsWith(prefix)) return null;
+  const name = url
+    .slice(prefix.length)
+    .replace(/[/?#].*$/, "")
+    .toLowerCase();
+  return NAME_PATTERN.test(name) ? name : null;
+}
+
+export function getInlineImageMimeType(name: string): string {
+  const extension = name.slice(name.lastIndexOf(".") + 1);
+  const entry = Object.entries(INLINE_IMAGE_TYPES).find(
+    ([, ext]) => ext === extension,
+  );
+  return entry ? entry[0] : "application/octet-stream";
+}
+
+// Content-ID of the MIME part carrying the image, without angle brackets
+export function getInlineImageContentId(name: string): string {
+  return `${name.replace(/\.[a-z]+$/, "")}@inline`;
+}
+
+/**
+ * Stored images an HTML body refers to, each once, in order of appearance
+ */
+export function findInlineImages(html: string): string[] {
+  const names = new Set<string>();
+  for (const match of html.matchAll(SRC_PATTERN)) {
+    const name = match[3].toLowerCase();
+    if (NAME_PATTERN.test(name)) names.add(name);
+  }
+  return [...names];
+}
+
+/**
+ * Point the body's inline-image:// sources at their cid: parts. Images
+ * missing from `names` are left untouched.
+ */
+export function replaceInlineImageSources(
+  html: string,
+  names: string[],
+): string {
+  const embedded = new Set(names);
+  return html.replace(SRC_PATTERN, (match, prefix, quote, rawName) => {
+    const name = String(rawName).toLowerCase();
+    if (!embedded.has(name)) return match;
+    return `${prefix}${quote}cid:${getInlineImageContentId(name)}${quote}`;
+  });
+}
@@ -0,0 +1,257 @@
+import { generateText, LanguageModel } from "ai";
+import { z } from "zod";
+import {
+  DEFAULT_LABEL_DEFINITIONS,
+  EmailLabelName,
+  LabelDefinition,
+  buildLabelsSystemPrompt,
+} from "./prompts/labels";
+
+export interface ClassifierInput {
+  id: string;
+  subject: string;
+  sender?: string;
+  senderEmail?: string;
+  body: string;
+  listUnsubscribe?: boolean; // Message carries a List-Unsubscribe header
+}
+
+export interface ClassifiedLabel {
+  label: string; // A built-in label or one of the user's own
+  confidence: number; // 0..1
+  source: "model" | "rules";
+  modelVersion: string;
+}
+
+// Emails sent per LLM request and how much of each body is included
+export const CLASSIFIER_BATCH_SIZE = 10;
+const MAX_BODY_CHARS = 2000;
+
+export const RULES_VERSION = "rules-v1";
+
+const classificationResponseSchema = z.object({
+  results: z.array(
+    z.object({
+      id: z.string(),
+      labels: z.array(z.unknown()),
+    }),
+  ),
+});
+
+function classifiedLabelSchema(allowedLabels: string[]) {
+  return z.object({
+    label: z.enum(allowedLabels as [string, ...string[]]),
+    confidence: z.number().min(0).max(1),
+  });
+}
+
+// ---------------- Rules ----------------
+
+interface LabelRule {
+  label: EmailLabelName;
+  confidence: number;
+  matches: (input: ClassifierInput, text: string) => boolean;
+}
+
+const senderDomain = (input: ClassifierInput) =>
+  (input.senderEmail || "").toLowerCase().split("@")[1] || "";
+
+const SOCIAL_DOMAINS =
+  /(^|\.)(facebookmail\.com|linkedin\.com|twitter\.com|x\.com|instagram\.com|pinterest\.com|reddit\.com)$/;
+
+const LABEL_RULES: LabelRule[] = [
+  {
+    label: "marketing",
+    confidence: 0.7,
+    matches: (input) => !!input.listUnsubscribe,
+  },
+  {
+    label: "credentials",
+    confidence: 0.8,
+    matches: (_, text) =>
+      /\b(one[- ]time (pass(word|code)|code)|verification code|security code|otp|2fa|two[- ](factor|step)|reset your password|password reset|(login|sign[- ]in) (alert|attempt))\b/i.test(
+        text,
+      ) || /\bcode\b[^\n]{0,40}\b\d{4,8}\b/i.test(text),
+  },
+  {
+    label: "github",
+    confidence: 0.9,
+    matches: (input) => /(^|\.)github\.com$/.test(senderDomain(input)),
+  },
+  {
+    label: "social",
+    confidence: 0.7,
+    matches: (input) => SOCIAL_DOMAINS.test(senderDomain(input)),
+  },
+  {
+    label: "invoice",
+    confidence: 0.6,
+    matches: (_, text) =>
+      /\b(invoice|receipt|payment (received|confirmation)|credit note|amount due)\b/i.test(
+        text,
+      ),
+  },
+  {
+    label: "meeting",
+    confidence: 0.6,
+    matches: (input, text) =>
+      /^(invitation|updated invitation|accepted|declined):/i.test(
+        input.subject,
+      ) ||
+      /(meet\.google\.com|zoom\.us\/j\/|teams\.microsoft\.com\/l\/meetup-join)/i.test(
+        text,
+      ),
+  },
+  {
+    label: "important",
+    confidence: 0.6,
+    matches: (input) =>
+      /\b(correction|update|alert|critical|important|priority|deadline)\b/i.test(
+        input.subject,
+      ),
+  },
+];
+
+/**
+ * Deterministic header and keyword rules, used when the model is unavailable
+ * or leaves an email out of its answer
+ */
+export function classifyWithRules(input: ClassifierInput): ClassifiedLabel[] {
+  const text = `${input.subject}\n${input.body.slice(0, MAX_BODY_CHARS)}`;
+  return LABEL_RULES.filter((rule) => rule.matches(input, text)).map(
+    (rule) => ({
+      label: rule.label,
+      confidence: rule.confidence,
+      source: "rules",
+      modelVersion: RULES_VERSION,
+    }),
+  );
+}
+
+// ---------------- Model ----------------
+
+export function getModelVersion(model: LanguageModel): string {
+  return typeof model === "string"
+    ? model
+    : `${model.provider}/${model.modelId}`;
+}
+
+/**
+ * Parse a model answer, keeping only known labels with a valid confidence.
+ * Returns null when the answer isn't the expected shape at all.
+ */
+export function parseClassificationResponse(
+  text: string,
+  modelVersion: string,
+  allowedLabels: string[] = DEFAULT_LABEL_DEFINITIONS.map((l) => l.name),
+): Map<string, ClassifiedLabel[]> | null {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = (fenced ? fenced[1] : text).trim();
+  const start = candidate.indexOf("{");
+  const end = candidate.lastIndexOf("}");
+  if (start === -1 || end < start) return null;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(candidate.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+
+  const parsed = classificationResponseSchema.safeParse(json);
+  if (!parsed.success) return null;
+
+  const labelSchema = classifiedLabelSchema(allowedLabels);
+  const results = new Map<string, ClassifiedLabel[]>();
+  for (const result of parsed.data.results) {
+    const labels = new Map<string, ClassifiedLabel>();
+    for (const raw of result.labels) {
+      const label = labelSchema.safeParse(raw);
+      if (!label.success) {
+        console.warn(
+          `[LABEL_CLASSIFIER] Dropping invalid label for ${result.id}:`,
+          raw,
+        );
+        continue;
+      }
+      const existing = labels.get(label.data.label);
+      if (!existing || existing.confidence < label.data.confidence) {
+        labels.set(label.data.label, {
+          ...label.data,
+          source: "model",
+          modelVersion,
+        });
+      }
+    }
+    results.set(result.id, Array.from(labels.values()));
+  }
+  return results;
+}
+
+async function classifyBatch(
+  model: LanguageModel,
+  batch: ClassifierInput[],
+  labels: LabelDefinition[],
+): Promise<Map<string, ClassifiedLabel[]> | null> {
+  const modelVersion = getModelVersion(model);
+  const prompt = JSON.stringify(
+    batch.map((input) => ({
+      id: input.id,
+      subject: input.subject,
+      from: input.senderEmail || input.sender || "",
+      body: input.body.slice(0, MAX_BODY_CHARS) || "[non‑text]",
+    })),
+  );
+
+  try {
+    const response = await generateText({
+      model,
+      system: buildLabelsSystemPrompt(labels),
+      prompt,
+      temperature: 0,
+    });
+    const results = parseClassificationResponse(
+      response.text,
+      modelVersion,
+      labels.map((l) => l.name),
+    );
+    if (!results) {
+      console.warn(
+        `[LABEL_CLASSIFIER] ${modelVersion} returned an invalid response for ${batch.length} emails`,
+      );
+    }
+    return results;
+  } catch (error) {
+    console.error(
+      `[LABEL_CLASSIFIER] ${modelVersion} failed for ${batch.length} emails:`,
+      error,
+    );
+    return null;
+  }
+}
+
+/**
+ * Label emails in batches of CLASSIFIER_BATCH_SIZE per request. Emails the
+ * model fails on or leaves out are labelled by the rules instead, so every
+ * input gets an entry. Custom labels are only assigned by the model.
+ */
+export async function classifyEmails(
+  model: LanguageModel,
+  inputs: ClassifierInput[],
+  labels: LabelDefinition[] = DEFAULT_LABEL_DEFINITIONS,
+  batchSize: number = CLASSIFIER_BATCH_SIZE,
+): Promise<Map<string, ClassifiedLabel[]>> {
+  const classifications = new Map<string, ClassifiedLabel[]>();
+
+  for (let i = 0; i < inputs.length; i += batchSize) {
+    const batch = inputs.slice(i, i + batchSize);
+    const results = await classifyBatch(model, batch, labels);
+
+    for (const input of batch) {
+      const labels = results?.get(input.id);
+      classifications.set(input.id, labels ?? classifyWithRules(input));
+    }
+  }
+
+  return classifications;
+}
@@ -0,0 +1,29 @@
+// Colours a custom label can use. Gmail only accepts background colours from
+// its own palette, and Outlook categories only take presets, so every entry
+// maps to a value both providers understand.
+export const LABEL_COLORS = [
+  { name: "red", hex: "#fb4c2f", outlookPreset: "preset0" },
+  { name: "orange", hex: "#ffad47", outlookPreset: "preset1" },
+  { name: "yellow", hex: "#fad165", outlookPreset: "preset3" },
+  { name: "green", hex: "#16a766", outlookPreset: "preset4" },
+  { name: "teal", hex: "#43d692", outlookPreset: "preset5" },
+  { name: "blue", hex: "#4a86e8", outlookPreset: "preset7" },
+  { name: "purple", hex: "#a479e2", outlookPreset: "preset8" },
+  { name: "pink", hex: "#f691b3", outlookPreset: "preset9" },
+  { name: "gray", hex: "#999999", outlookPreset: "preset12" },
+] as const;
+
+export type LabelColor = (typeof LABEL_COLORS)[number];
+
+export const DEFAULT_LABEL_COLOR = "#999999";
+
+export function findLabelColor(hex: string): LabelColor | undefined {
+  return LABEL_COLORS.find((color) => color.hex === hex.toLowerCase());
+}
+
+/**
+ * Text colour that stays readable on a label background
+ */
+export function getLabelTextColor(hex: string): string {
+  return findLabelColor(hex)?.name === "yellow" ? "#000000" : "#ffffff";
+}
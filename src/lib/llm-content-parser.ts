@@ -183,6 +183,7 @@ export function parseLLMContentToBlocks(content: string): ContentBlock[] {
       isPhoneLine ||
       isAddressLine
     ) {
+      flushCurrentList();
       flushCurrentParagraph();
       blocks.push({
         id: generateBlockId(),
@@ -194,6 +195,7 @@ export function parseLLMContentToBlocks(content: string): ContentBlock[] {
 
     // Regular text content - accumulate into paragraphs
     if (trimmedLine) {
+      flushCurrentList();
       currentParagraph.push(trimmedLine);
     } else {
       // Empty line indicates paragraph break
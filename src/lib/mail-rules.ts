@@ -0,0 +1,267 @@
+// Deterministic filter rules ("if this then that") run on incoming mail
+// during sync, before anything is shown in the inbox.
+
+export const RULE_CONDITION_FIELDS = [
+  "sender",
+  "domain",
+  "subject",
+  "label",
+  "hasAttachment",
+  "recipient",
+] as const;
+
+export const RULE_ACTION_TYPES = [
+  "applyLabel",
+  "removeLabel",
+  "markRead",
+  "archive",
+  "star",
+  "markImportant",
+  "forward",
+] as const;
+
+export type RuleConditionField = (typeof RULE_CONDITION_FIELDS)[number];
+export type RuleActionType = (typeof RULE_ACTION_TYPES)[number];
+
+export interface RuleCondition {
+  field: RuleConditionField;
+  // sender/recipient: part of the address or name, domain: e.g. "github.com",
+  // subject: a regular expression, label: label name, hasAttachment: "true"/"false"
+  value: string;
+}
+
+export interface RuleAction {
+  type: RuleActionType;
+  value?: string; // Label name for label actions, address for forward
+}
+
+export interface MailRuleDefinition {
+  name: string;
+  enabled: boolean;
+  matchAll: boolean; // true: every condition must match, false: any
+  conditions: RuleCondition[];
+  actions: RuleAction[];
+}
+
+// What a rule is matched against: a message plus its thread's state
+export interface RuleTarget {
+  sender: string;
+  senderEmail: string;
+  recipients: string[]; // Addresses and names
+  subject: string;
+  labels: string[];
+  hasAttachments: boolean;
+}
+
+export interface RuleActionPlan {
+  addLabels: string[];
+  removeLabels: string[];
+  markRead: boolean;
+  archive: boolean;
+  star: boolean;
+  markImportant: boolean;
+  forwardTo: string[];
+}
+
+// A plan with the rules it came from, e.g. to check when each was created
+export interface MatchedRulePlan<T extends MailRuleDefinition>
+  extends RuleActionPlan {
+  matchedRules: T[];
+}
+
+// ---------------- Validation ----------------
+
+const LABEL_ACTIONS: RuleActionType[] = ["applyLabel", "removeLabel"];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function isRuleConditionField(
+  value: unknown,
+): value is RuleConditionField {
+  return RULE_CONDITION_FIELDS.includes(value as RuleConditionField);
+}
+
+export function isRuleActionType(value: unknown): value is RuleActionType {
+  return RULE_ACTION_TYPES.includes(value as RuleActionType);
+}
+
+/**
+ * Check a rule before it's stored. Throws with a message fit for the editor.
+ */
+export function validateMailRule(rule: MailRuleDefinition): MailRuleDefinition {
+  const name = (rule.name || "").trim();
+  if (!name) throw new Error("Rule name is required");
+  if (!rule.conditions?.length) {
+    throw new Error("A rule needs at least one condition");
+  }
+  if (!rule.actions?.length) {
+    throw new Error("A rule needs at least one action");
+  }
+
+  const conditions = rule.conditions.map((condition) => {
+    if (!isRuleConditionField(condition.field)) {
+      throw new Error(`Unknown condition: ${condition.field}`);
+    }
+    const value = (condition.value || "").trim();
+    if (condition.field === "hasAttachment") {
+      return {
+        field: condition.field,
+        value: value === "false" ? "false" : "true",
+      };
+    }
+    if (!value) {
+      throw new Error(`The ${condition.field} condition needs a value`);
+    }
+    if (condition.field === "subject") {
+      try {
+        new RegExp(value, "i");
+      } catch {
+        throw new Error(`Invalid subject pattern: ${value}`);
+      }
+    }
+    return { field: condition.field, value };
+  });
+
+  const actions = rule.actions.map((action) => {
+    if (!isRuleActionType(action.type)) {
+      throw new Error(`Unknown action: ${action.type}`);
+    }
+    const value = (action.value || "").trim().toLowerCase();
+    if (LABEL_ACTIONS.includes(action.type)) {
+      if (!value) throw new Error("Label actions need a label");
+      return { type: action.type, value };
+    }
+    if (action.type === "forward") {
+      if (!EMAIL_PATTERN.test(value)) {
+        throw new Error(`Invalid forwarding address: ${action.value}`);
+      }
+      return { type: action.type, value };
+    }
+    return { type: action.type };
+  });
+
+  return {
+    name,
+    enabled: rule.enabled !== false,
+    matchAll: rule.matchAll !== false,
+    conditions,
+    actions,
+  };
+}
+
+// ---------------- Matching ----------------
+
+const domainOf = (address: string) => address.toLowerCase().split("@")[1] || "";
+
+function matchesCondition(
+  condition: RuleCondition,
+  target: RuleTarget,
+): boolean {
+  const value = condition.value.toLowerCase();
+  switch (condition.field) {
+    case "sender":
+      return (
+        target.senderEmail.toLowerCase().includes(value) ||
+        target.sender.toLowerCase().includes(value)
+      );
+    case "domain": {
+      const domain = domainOf(target.senderEmail);
+      const wanted = value.replace(/^@/, "");
+      return domain === wanted || domain.endsWith(`.${wanted}`);
+    }
+    case "subject":
+      try {
+        return new RegExp(condition.value, "i").test(target.subject);
+      } catch {
+        return false;
+      }
+    case "label":
+      return target.labels.some((label) => label.toLowerCase() === value);
+    case "hasAttachment":
+      return target.hasAttachments === (value !== "false");
+    case "recipient":
+      return target.recipients.some((recipient) =>
+        recipient.toLowerCase().includes(value),
+      );
+  }
+}
+
+export function matchesMailRule(
+  rule: MailRuleDefinition,
+  target: RuleTarget,
+): boolean {
+  if (!rule.enabled || rule.conditions.length === 0) return false;
+  return rule.matchAll
+    ? rule.conditions.every((c) => matchesCondition(c, target))
+    : rule.conditions.some((c) => matchesCondition(c, target));
+}
+
+/**
+ * Combine the actions of every matching rule, in rule order. Labels applied
+ * by an earlier rule are visible to the label conditions of later ones.
+ */
+export function planRuleActions<T extends MailRuleDefinition>(
+  rules: T[],
+  target: RuleTarget,
+): MatchedRulePlan<T> {
+  const plan: MatchedRulePlan<T> = {
+    addLabels: [],
+    removeLabels: [],
+    markRead: false,
+    archive: false,
+    star: false,
+    markImportant: false,
+    forwardTo: [],
+    matchedRules: [],
+  };
+  const labels = new Set(target.labels);
+
+  for (const rule of rules) {
+    if (!matchesMailRule(rule, { ...target, labels: Array.from(labels) })) {
+      continue;
+    }
+    plan.matchedRules.push(rule);
+    for (const action of rule.actions) {
+      switch (action.type) {
+        case "applyLabel":
+          labels.add(action.value!);
+          break;
+        case "removeLabel":
+          labels.delete(action.value!);
+          break;
+        case "markRead":
+          plan.markRead = true;
+          break;
+        case "archive":
+          plan.archive = true;
+          break;
+        case "star":
+          plan.star = true;
+          break;
+        case "markImportant":
+          plan.markImportant = true;
+          break;
+        case "forward":
+          if (!plan.forwardTo.includes(action.value!)) {
+            plan.forwardTo.push(action.value!);
+          }
+          break;
+      }
+    }
+  }
+
+  plan.addLabels = Array.from(labels).filter((l) => !target.labels.includes(l));
+  plan.removeLabels = target.labels.filter((l) => !labels.has(l));
+  return plan;
+}
+
+export function isEmptyActionPlan(plan: RuleActionPlan): boolean {
+  return (
+    plan.addLabels.length === 0 &&
+    plan.removeLabels.length === 0 &&
+    !plan.markRead &&
+    !plan.archive &&
+    !plan.star &&
+    !plan.markImportant &&
+    plan.forwardTo.length === 0
+  );
+}
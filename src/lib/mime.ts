@@ -0,0 +1,230 @@
+import { randomBytes } from "crypto";
+
+// Builds RFC 2822 messages for providers that take raw MIME (Gmail).
+// Everything here runs in the main process, so Node's Buffer is available.
+
+export interface MimeAttachment {
+  filename: string;
+  mimeType: string;
+  data: string; // base64 encoded data
+}
+
+// An image the HTML body shows through a cid: URL
+export interface MimeInlineImage {
+  contentId: string; // Without angle brackets
+  filename: string;
+  mimeType: string;
+  data: string; // base64 encoded data
+}
+
+export interface MimeMessageOptions {
+  from?: string;
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  html: string;
+  text?: string;
+  inReplyTo?: string;
+  references?: string[];
+  attachments?: MimeAttachment[];
+  inlineImages?: MimeInlineImage[];
+  isDraft?: boolean; // Drafts may be saved before anyone is addressed
+}
+
+const CRLF = "\r\n";
+
+// Header values must never contain line breaks, otherwise a recipient or
+// subject could inject extra headers into the message
+function sanitizeHeaderValue(value: string): string {
+  return value.replace(/[\r\n]+/g, " ").trim();
+}
+
+/**
+ * RFC 2047 encode a header value when it contains non-ASCII characters
+ */
+export function encodeHeaderValue(value: string): string {
+  const clean = sanitizeHeaderValue(value);
+  if (/^[\x20-\x7e]*$/.test(clean)) return clean;
+  return `=?UTF-8?B?${Buffer.from(clean, "utf-8").toString("base64")}?=`;
+}
+
+/**
+ * Split base64 into 76 character lines as required for MIME bodies
+ */
+export function wrapBase64(base64: string): string {
+  const compact = base64.replace(/\s+/g, "");
+  const lines: string[] = [];
+  for (let i = 0; i < compact.length; i += 76) {
+    lines.push(compact.slice(i, i + 76));
+  }
+  return lines.join(CRLF);
+}
+
+/**
+ * Gmail's `raw` field expects base64url without padding
+ */
+export function toBase64Url(message: string): string {
+  return Buffer.from(message, "utf-8")
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Rough plain text rendering of an HTML body for the text/plain alternative
+ */
+export function htmlToPlainText(html: string): string {
+  return html
+    .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|h[1-6]|blockquote|tr)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/gi, " ")
+    .replace(/&lt;/gi, "<")
+    .replace(/&gt;/gi, ">")
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;/gi, "'")
+    .replace(/&amp;/gi, "&")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function createBoundary(kind: string): string {
+  return `zerohands_${kind}_${randomBytes(12).toString("hex")}`;
+}
+
+function formatAddressList(addresses?: string[]): string | null {
+  const list = (addresses || [])
+    .map((address) => sanitizeHeaderValue(address))
+    .filter(Boolean);
+  return list.length > 0 ? list.join(", ") : null;
+}
+
+function buildAlternativePart(html: string, text: string): string[] {
+  const boundary = createBoundary("alt");
+  return [
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    wrapBase64(Buffer.from(text, "utf-8").toString("base64")),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    wrapBase64(Buffer.from(html, "utf-8").toString("base64")),
+    `--${boundary}--`,
+  ];
+}
+
+function buildAttachmentPart(attachment: MimeAttachment): string[] {
+  const filename = encodeHeaderValue(attachment.filename).replace(/"/g, "'");
+  const mimeType = sanitizeHeaderValue(
+    attachment.mimeType || "application/octet-stream",
+  );
+  return [
+    `Content-Type: ${mimeType}; name="${filename}"`,
+    `Content-Disposition: attachment; filename="${filename}"`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    wrapBase64(attachment.data),
+  ];
+}
+
+function buildInlineImagePart(image: MimeInlineImage): string[] {
+  const filename = encodeHeaderValue(image.filename).replace(/"/g, "'");
+  const mimeType = sanitizeHeaderValue(image.mimeType);
+  return [
+    `Content-Type: ${mimeType}; name="${filename}"`,
+    `Content-ID: <${sanitizeHeaderValue(image.contentId)}>`,
+    `Content-Disposition: inline; filename="${filename}"`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    wrapBase64(image.data),
+  ];
+}
+
+// The body and the images it shows belong together in multipart/related
+function buildRelatedPart(body: string[], images: MimeInlineImage[]): string[] {
+  const boundary = createBoundary("rel");
+  const lines = [
+    `Content-Type: multipart/related; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    ...body,
+  ];
+  for (const image of images) {
+    lines.push(`--${boundary}`, ...buildInlineImagePart(image));
+  }
+  lines.push(`--${boundary}--`);
+  return lines;
+}
+
+/**
+ * Build a complete RFC 2822 message with an HTML/plain text body, optional
+ * threading headers, inline images and base64 attachments
+ */
+export function buildMimeMessage(options: MimeMessageOptions): string {
+  const headers: string[] = [];
+
+  if (options.from) headers.push(`From: ${encodeHeaderValue(options.from)}`);
+
+  const to = formatAddressList(options.to);
+  if (!to && !options.isDraft) {
+    throw new Error("At least one recipient is required");
+  }
+  if (to) headers.push(`To: ${to}`);
+
+  const cc = formatAddressList(options.cc);
+  if (cc) headers.push(`Cc: ${cc}`);
+
+  // Gmail strips Bcc from the delivered copies but needs it to route them
+  const bcc = formatAddressList(options.bcc);
+  if (bcc) headers.push(`Bcc: ${bcc}`);
+
+  headers.push(`Subject: ${encodeHeaderValue(options.subject)}`);
+
+  if (options.inReplyTo) {
+    headers.push(`In-Reply-To: ${sanitizeHeaderValue(options.inReplyTo)}`);
+  }
+  const references = (options.references || [])
+    .map((ref) => sanitizeHeaderValue(ref))
+    .filter(Boolean);
+  if (references.length > 0) {
+    headers.push(`References: ${references.join(" ")}`);
+  }
+
+  headers.push("MIME-Version: 1.0");
+
+  const text = options.text ?? htmlToPlainText(options.html);
+  const alternative = buildAlternativePart(options.html, text);
+  const inlineImages = options.inlineImages || [];
+  const body =
+    inlineImages.length > 0
+      ? buildRelatedPart(alternative, inlineImages)
+      : alternative;
+  const attachments = options.attachments || [];
+
+  if (attachments.length === 0) {
+    return [...headers, ...body].join(CRLF);
+  }
+
+  const boundary = createBoundary("mixed");
+  const lines = [
+    ...headers,
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    ...body,
+  ];
+  for (const attachment of attachments) {
+    lines.push(`--${boundary}`, ...buildAttachmentPart(attachment));
+  }
+  lines.push(`--${boundary}--`);
+
+  return lines.join(CRLF);
+}
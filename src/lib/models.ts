@@ -1,14 +1,68 @@
 import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import type { LanguageModel } from "ai";
+import { createOfflineModel } from "./offline-model";
 
-// const baseURL = 'http://192.168.0.175:9000/v1';
-const actualURL = "https://glm_model.futurixai.com/v1";
+export type LlmFeature = "labelling" | "drafting" | "summarising";
 
-const ShivaayProvider = createOpenAICompatible({
-  name: "Shivaay",
-  apiKey: "FuckyWucky",
-  baseURL: actualURL,
-});
+export const LLM_FEATURES: LlmFeature[] = [
+  "labelling",
+  "drafting",
+  "summarising",
+];
 
-const shivaayModel = ShivaayProvider("zerohands");
+// "local" covers Ollama and llama.cpp, which both serve an OpenAI-compatible API
+export type LlmProviderKind = "openai-compatible" | "local" | "offline";
 
-export { ShivaayProvider, shivaayModel };
+export interface LlmProviderConfig {
+  id: string;
+  name: string;
+  kind: LlmProviderKind;
+  baseUrl?: string | null;
+  apiKey?: string | null; // Decrypted, main process only
+}
+
+// Ollama's default; llama.cpp's server listens on http://localhost:8080/v1
+export const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+
+export function isLlmFeature(value: unknown): value is LlmFeature {
+  return LLM_FEATURES.includes(value as LlmFeature);
+}
+
+export function isLlmProviderKind(value: unknown): value is LlmProviderKind {
+  return (
+    value === "openai-compatible" || value === "local" || value === "offline"
+  );
+}
+
+/**
+ * Create the language model a feature should call. Mail content is only
+ * ever sent to the base URL configured for the provider.
+ */
+export function createLanguageModel(
+  config: LlmProviderConfig,
+  modelId: string,
+  feature: LlmFeature,
+): LanguageModel {
+  switch (config.kind) {
+    case "openai-compatible": {
+      if (!config.baseUrl) {
+        throw new Error(`Provider "${config.name}" has no base URL configured`);
+      }
+      const provider = createOpenAICompatible({
+        name: config.name,
+        apiKey: config.apiKey || undefined,
+        baseURL: config.baseUrl,
+      });
+      return provider(modelId);
+    }
+    case "local": {
+      const provider = createOpenAICompatible({
+        name: config.name,
+        baseURL: config.baseUrl || DEFAULT_LOCAL_BASE_URL,
+      });
+      return provider(modelId);
+    }
+    case "offline":
+      return createOfflineModel(feature);
+  }
+}
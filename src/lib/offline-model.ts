@@ -0,0 +1,85 @@
+import type { LanguageModel } from "ai";
+import type { LlmFeature } from "./models";
+
+type LanguageModelV2 = Exclude<LanguageModel, string>;
+type CallOptions = Parameters<LanguageModelV2["doGenerate"]>[0];
+
+const SUMMARY_LENGTH = 200;
+
+/**
+ * Text of the last user message in a prompt
+ */
+function lastUserText(options: CallOptions): string {
+  const userMessages = options.prompt.filter(
+    (message) => message.role === "user",
+  );
+  const last = userMessages[userMessages.length - 1];
+  if (!last || last.role !== "user") return "";
+  return last.content
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Fixed responses per feature, shaped like a real model's answer so callers
+ * parse them the same way
+ */
+function offlineResponse(feature: LlmFeature, options: CallOptions): string {
+  switch (feature) {
+    case "labelling":
+      // No results, so the classifier falls back to its keyword rules
+      return JSON.stringify({ results: [] });
+    case "drafting":
+      return "Thanks for your email. I'll get back to you shortly.";
+    case "summarising": {
+      const text = lastUserText(options);
+      return text.length > SUMMARY_LENGTH
+        ? `${text.slice(0, SUMMARY_LENGTH).trimEnd()}…`
+        : text;
+    }
+  }
+}
+
+/**
+ * Deterministic model that never leaves the machine. Used when no provider
+ * is configured and for development without network access.
+ */
+export function createOfflineModel(feature: LlmFeature): LanguageModelV2 {
+  const usage = {
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+  };
+
+  return {
+    specificationVersion: "v2",
+    provider: "offline",
+    modelId: `offline-${feature}`,
+    supportedUrls: {},
+    async doGenerate(options) {
+      return {
+        content: [{ type: "text", text: offlineResponse(feature, options) }],
+        finishReason: "stop",
+        usage,
+        warnings: [],
+      };
+    },
+    async doStream(options) {
+      const text = offlineResponse(feature, options);
+      return {
+        stream: new ReadableStream({
+          start(controller) {
+            controller.enqueue({ type: "stream-start", warnings: [] });
+            controller.enqueue({ type: "text-start", id: "0" });
+            controller.enqueue({ type: "text-delta", id: "0", delta: text });
+            controller.enqueue({ type: "text-end", id: "0" });
+            controller.enqueue({ type: "finish", finishReason: "stop", usage });
+            controller.close();
+          },
+        }),
+      };
+    },
+  };
+}
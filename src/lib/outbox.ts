@@ -0,0 +1,192 @@
+// Retry policy and send-later presets for the outbox. Shared by the worker in
+// the main process and the composers.
+
+import { parseDraftAddresses } from "./drafts";
+
+export type OutboxStatus = "scheduled" | "sending" | "failed";
+
+export interface OutboxAttachment {
+  filename: string;
+  mimeType: string;
+  size: number;
+  data: string; // base64 encoded data
+}
+
+// The fields of a queued row the worker sends from
+export interface StoredOutboxMessage {
+  mode: string;
+  to: string; // JSON string arrays
+  cc: string;
+  bcc: string;
+  subject: string;
+  body: string;
+  isHtml: boolean;
+  threadId: string | null;
+  replyToMessageId: string | null;
+  attachments: string | null; // JSON OutboxAttachment[]
+}
+
+export interface OutboxSend {
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  subject: string;
+  body: string;
+  isHtml: boolean;
+  attachments: OutboxAttachment[];
+  // What it answers, or null for a new message
+  reply: {
+    threadId: string;
+    replyToMessageId: string;
+    mode: "reply" | "forward";
+  } | null;
+}
+
+export interface ScheduleOption {
+  label: string;
+  sendAt: Date;
+}
+
+// Give up after this many failed attempts, a little over four hours of
+// retrying
+export const MAX_SEND_ATTEMPTS = 10;
+
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 4 * 60 * 60 * 1000;
+
+// Node and undici codes for a connection that never got an answer
+const NETWORK_ERROR_CODES = new Set([
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "ENETUNREACH",
+  "EHOSTUNREACH",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+/**
+ * Wait before retry number `attempt` (1-based): 30s, 1m, 2m, ... up to 4h
+ */
+export function getRetryDelayMs(attempt: number): number {
+  const delay = BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempt - 1);
+  return Math.min(delay, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Whether a failed send is worth retrying: no connection, rate limited or a
+ * provider outage. Anything else (bad recipient, revoked access) won't fix
+ * itself.
+ */
+export function isRetryableSendError(error: unknown): boolean {
+  if (!error || typeof error !== "object") return false;
+  const e = error as {
+    code?: unknown;
+    status?: unknown;
+    statusCode?: unknown;
+    response?: { status?: unknown };
+    cause?: unknown;
+    message?: unknown;
+  };
+
+  if (typeof e.code === "string" && NETWORK_ERROR_CODES.has(e.code)) {
+    return true;
+  }
+  const status = [e.code, e.status, e.statusCode, e.response?.status].find(
+    (value): value is number => typeof value === "number",
+  );
+  if (status !== undefined) return status === 429 || status >= 500;
+
+  if (
+    typeof e.message === "string" &&
+    /fetch failed|network/i.test(e.message)
+  ) {
+    return true;
+  }
+  return e.cause ? isRetryableSendError(e.cause) : false;
+}
+
+export function parseOutboxAttachments(
+  value: string | null,
+): OutboxAttachment[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * What to send for a queued message. Replies and forwards whose original is
+ * unknown go out as new messages, with everyone and everything still on them.
+ */
+export function getOutboxSend(message: StoredOutboxMessage): OutboxSend {
+  const isReply =
+    message.mode !== "new" && message.threadId && message.replyToMessageId;
+  return {
+    to: parseDraftAddresses(message.to),
+    cc: parseDraftAddresses(message.cc),
+    bcc: parseDraftAddresses(message.bcc),
+    subject: message.subject,
+    body: message.body,
+    isHtml: message.isHtml,
+    attachments: parseOutboxAttachments(message.attachments),
+    reply: isReply
+      ? {
+          threadId: message.threadId as string,
+          replyToMessageId: message.replyToMessageId as string,
+          mode: message.mode === "forward" ? "forward" : "reply",
+        }
+      : null,
+  };
+}
+
+/**
+ * Send-later choices offered from now: later today (until the evening),
+ * tomorrow morning and next Monday morning (unless that's tomorrow)
+ */
+export function getScheduleSendOptions(
+  now: Date = new Date(),
+): ScheduleOption[] {
+  const at = (date: Date, hours: number) => {
+    const result = new Date(date);
+    result.setHours(hours, 0, 0, 0);
+    return result;
+  };
+  const addDays = (date: Date, days: number) => {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+  };
+
+  const options: ScheduleOption[] = [];
+  const laterToday = at(now, now.getHours() + 3);
+  if (laterToday.getDate() === now.getDate() && laterToday.getHours() <= 20) {
+    options.push({ label: "Later today", sendAt: laterToday });
+  }
+  options.push({ label: "Tomorrow morning", sendAt: at(addDays(now, 1), 8) });
+
+  const daysToMonday = (8 - now.getDay()) % 7 || 7;
+  if (daysToMonday > 1) {
+    options.push({
+      label: "Monday morning",
+      sendAt: at(addDays(now, daysToMonday), 8),
+    });
+  }
+  return options;
+}
+
+/**
+ * A date as the value of a datetime-local input, in local time
+ */
+export function toDateTimeLocalValue(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}`
+  );
+}
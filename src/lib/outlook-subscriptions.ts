@@ -0,0 +1,54 @@
+// Graph subscriptions for Outlook push: they expire after a few days and
+// have to be renewed before then. While one can't be kept up (the relay is
+// unreachable, Graph rejects it) the account falls back to polling.
+
+// Message subscriptions can't outlive 4230 minutes (just under 3 days)
+export const OUTLOOK_SUBSCRIPTION_LIFETIME_MS = 4230 * 60 * 1000;
+
+// Renewed once less than this is left, so a failed renewal has a day of
+// retries before the subscription lapses
+export const OUTLOOK_SUBSCRIPTION_RENEW_BEFORE_MS = 24 * 60 * 60 * 1000;
+
+// New mail, and read state and moves of existing mail
+export const OUTLOOK_SUBSCRIPTION_CHANGE_TYPES = "created,updated,deleted";
+
+// How often lapsed and renewing subscriptions are looked at, and how often
+// a new one is tried for a lapsed account
+export const OUTLOOK_POLL_INTERVAL_MS = 5 * 60 * 1000;
+export const OUTLOOK_RESUBSCRIBE_INTERVAL_MS = 30 * 60 * 1000;
+
+export type OutlookSubscriptionState = "active" | "renew" | "lapsed";
+
+export interface OutlookSubscriptionRecord {
+  id: string | null; // Null when the last subscription couldn't be made
+  expiresAt: Date;
+}
+
+export function getOutlookSubscriptionState(
+  subscription: OutlookSubscriptionRecord,
+  now: Date = new Date(),
+): OutlookSubscriptionState {
+  const remaining = subscription.expiresAt.getTime() - now.getTime();
+  if (!subscription.id || remaining <= 0) return "lapsed";
+  return remaining < OUTLOOK_SUBSCRIPTION_RENEW_BEFORE_MS ? "renew" : "active";
+}
+
+export function getOutlookSubscriptionExpiry(now: Date = new Date()): Date {
+  return new Date(now.getTime() + OUTLOOK_SUBSCRIPTION_LIFETIME_MS);
+}
+
+/**
+ * When to look at a subscription next: when it's due for renewal, or on the
+ * polling interval while it's lapsed or renewing
+ */
+export function getNextOutlookSubscriptionCheck(
+  subscription: OutlookSubscriptionRecord,
+  now: Date = new Date(),
+): Date {
+  if (getOutlookSubscriptionState(subscription, now) !== "active") {
+    return new Date(now.getTime() + OUTLOOK_POLL_INTERVAL_MS);
+  }
+  return new Date(
+    subscription.expiresAt.getTime() - OUTLOOK_SUBSCRIPTION_RENEW_BEFORE_MS,
+  );
+}
@@ -0,0 +1,163 @@
+// Changes made in the app wait in a per-account queue until the provider
+// has them, so they work offline. The local rows change straight away; a
+// replay decides what to do when the server moved on in the meantime.
+
+import {
+  ThreadAction,
+  ThreadActionState,
+  isThreadActionType,
+  removesFromInbox,
+} from "./thread-actions";
+import { getHttpStatus } from "./sync-scheduler";
+
+export type LabelOperation = "add" | "remove" | "replace";
+
+export type PendingOperationData =
+  | { type: "threadAction"; action: ThreadAction; previous: ThreadActionState }
+  | { type: "markRead" }
+  | {
+      type: "updateLabels";
+      labels: string[];
+      operation: LabelOperation;
+      previousLabels: string[]; // The thread's labels before, for reverting
+    };
+
+export type PendingOperationType = PendingOperationData["type"];
+
+// apply: send it to the provider. drop: the thread is gone, nothing to do.
+// conflict: the server changed in a way the change would undo; revert it.
+export type ReplayDecision = "apply" | "drop" | "conflict";
+
+// Reported to the renderer as the queue grows and drains
+export interface PendingOperationsEvent {
+  userEmail: string;
+  pending: number;
+  conflicts: string[]; // Changes reverted, in words for a toast
+}
+
+// How a queued change left the local copy of its thread
+export interface ReplayTarget {
+  timestamp: Date; // Of the newest message
+}
+
+function parseDate(value: unknown): Date | null {
+  if (!value) return null;
+  const date = new Date(value as string);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * A stored operation's data, or null if it's unreadable (written by a
+ * newer version, or corrupted)
+ */
+export function parsePendingOperation(
+  type: string,
+  payload: string,
+): PendingOperationData | null {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(payload);
+  } catch {
+    return null;
+  }
+  if (!data || typeof data !== "object" || data.type !== type) return null;
+
+  switch (type) {
+    case "threadAction": {
+      const action = data.action as ThreadAction | undefined;
+      const previous = data.previous as ThreadActionState | undefined;
+      if (!action || !isThreadActionType(action.type) || !previous) {
+        return null;
+      }
+      return {
+        type,
+        action: {
+          ...action,
+          snoozeUntil: parseDate(action.snoozeUntil) ?? undefined,
+        },
+        previous: {
+          ...previous,
+          snoozedUntil: parseDate(previous.snoozedUntil),
+        },
+      };
+    }
+    case "markRead":
+      return { type };
+    case "updateLabels":
+      if (
+        !Array.isArray(data.labels) ||
+        !Array.isArray(data.previousLabels) ||
+        !["add", "remove", "replace"].includes(data.operation as string)
+      ) {
+        return null;
+      }
+      return {
+        type,
+        labels: data.labels,
+        operation: data.operation as LabelOperation,
+        previousLabels: data.previousLabels,
+      };
+    default:
+      return null;
+  }
+}
+
+// Changes that put mail out of sight: reading it or taking it out of the
+// inbox
+function dismissesMail(data: PendingOperationData): boolean {
+  if (data.type === "markRead") return true;
+  if (data.type !== "threadAction") return false;
+  return data.action.type === "markRead" || removesFromInbox(data.action);
+}
+
+/**
+ * What replaying a change queued at `queuedAt` should do, given its thread
+ * as the last sync left it (null once it was deleted on the server). Mail
+ * that arrived after the change was made wins: archiving or reading a
+ * thread offline doesn't hide a reply the user hasn't seen.
+ */
+export function getReplayDecision(
+  data: PendingOperationData,
+  queuedAt: Date,
+  thread: ReplayTarget | null,
+): ReplayDecision {
+  if (!thread) return "drop";
+  if (dismissesMail(data) && thread.timestamp > queuedAt) return "conflict";
+  return "apply";
+}
+
+/**
+ * Whether the provider no longer has what a change was for, so it's done
+ * with rather than failed
+ */
+export function isGoneError(error: unknown): boolean {
+  const status = getHttpStatus(error);
+  return status === 404 || status === 410;
+}
+
+/**
+ * A queued change in words, for telling the user it was reverted
+ */
+export function describePendingOperation(data: PendingOperationData): string {
+  switch (data.type) {
+    case "markRead":
+      return "Marking as read";
+    case "updateLabels":
+      return "Changing labels";
+    case "threadAction":
+      switch (data.action.type) {
+        case "archive":
+          return "Archiving";
+        case "trash":
+          return "Moving to trash";
+        case "deleteForever":
+          return "Deleting";
+        case "move":
+          return "Moving";
+        case "markRead":
+          return "Marking as read";
+        default:
+          return "Updating";
+      }
+  }
+}
@@ -0,0 +1,133 @@
+// Prompts for writing email drafts. The model answers in the plain-text
+// format parseLLMContentToBlocks understands, so drafts can be inserted into
+// the editor while they stream in.
+
+export interface DraftProfile {
+  fullName?: string | null;
+  signature?: string | null;
+  tone?: string | null;
+  pronouns?: string | null;
+  positionType?: string | null;
+  companyName?: string | null;
+}
+
+export interface DraftThreadMessage {
+  sender: string;
+  senderEmail: string;
+  timestamp: Date;
+  body: string;
+}
+
+export interface DraftPromptInput {
+  prompt: string;
+  thread: DraftThreadMessage[]; // Oldest first
+  replyTo: DraftThreadMessage | null;
+  currentDraft?: string;
+  subject?: string;
+  recipients?: string[];
+}
+
+// Keep long threads within the context window
+const MAX_THREAD_MESSAGES = 6;
+const MAX_MESSAGE_CHARS = 2000;
+
+// Instruction for the nudge written when a follow-up reminder comes due
+export const FOLLOW_UP_DRAFT_PROMPT =
+  "Nobody has replied to my last message in this thread. Write a short, polite follow-up that checks in and asks for a reply, without repeating the whole message.";
+
+function truncate(text: string, max: number): string {
+  const clean = text.replace(/\n{3,}/g, "\n\n").trim();
+  return clean.length > max ? `${clean.slice(0, max).trimEnd()}…` : clean;
+}
+
+function formatMessage(message: DraftThreadMessage): string {
+  const from = message.sender
+    ? `${message.sender} <${message.senderEmail}>`
+    : message.senderEmail;
+  return `From: ${from}\nDate: ${new Date(message.timestamp).toUTCString()}\n\n${truncate(message.body, MAX_MESSAGE_CHARS)}`;
+}
+
+/**
+ * System prompt carrying the writer's profile from onboarding
+ */
+export function buildDraftSystemPrompt(profile: DraftProfile): string {
+  const about = [
+    profile.fullName && `Name: ${profile.fullName}`,
+    profile.pronouns && `Pronouns: ${profile.pronouns}`,
+    profile.positionType && `Role: ${profile.positionType}`,
+    profile.companyName && `Company: ${profile.companyName}`,
+  ].filter(Boolean);
+
+  return `
+### ROLE
+You write emails on behalf of the user, in their voice.
+
+### THE USER
+${about.length ? about.join("\n") : "No profile details."}
+Tone: ${profile.tone || "friendly and professional"}
+
+### OUTPUT
+Only the email body, ready to send. No subject line, no commentary, no code fences, no HTML.
+Separate paragraphs with a blank line. Use "- " for bullet points and "1. " for numbered steps.
+${profile.signature ? "End with the sign-off line only, the signature is added for you." : "End with a short sign-off and the user's name."}
+`.trim();
+}
+
+/**
+ * The user's instruction with the thread it's about
+ */
+export function buildDraftPrompt(input: DraftPromptInput): string {
+  const sections: string[] = [];
+
+  const thread = input.thread
+    .filter((message) => message !== input.replyTo)
+    .slice(-MAX_THREAD_MESSAGES);
+  if (thread.length) {
+    sections.push(
+      `### EARLIER IN THE THREAD\n${thread.map(formatMessage).join("\n\n---\n\n")}`,
+    );
+  }
+  if (input.replyTo) {
+    sections.push(`### REPLYING TO\n${formatMessage(input.replyTo)}`);
+  }
+
+  const details = [
+    input.subject && `Subject: ${input.subject}`,
+    input.recipients?.length && `To: ${input.recipients.join(", ")}`,
+  ].filter(Boolean);
+  if (details.length) sections.push(`### DRAFT\n${details.join("\n")}`);
+  if (input.currentDraft?.trim()) {
+    sections.push(
+      `### CURRENT DRAFT\n${truncate(input.currentDraft, MAX_MESSAGE_CHARS)}`,
+    );
+  }
+
+  sections.push(`### INSTRUCTION\n${input.prompt.trim()}`);
+  return sections.join("\n\n");
+}
+
+/**
+ * Strip what models add around a draft despite the prompt: code fences, a
+ * subject line, markdown emphasis. Safe to run on partial output.
+ */
+export function cleanDraftText(text: string): string {
+  return text
+    .replace(/^\s*```[a-z]*\s*\n?/i, "")
+    .replace(/\n?```\s*$/, "")
+    .replace(/^\s*subject:.*\n+/i, "")
+    .replace(/\*\*(.+?)\*\*/g, "$1")
+    .replace(/\r\n/g, "\n")
+    .trim();
+}
+
+/**
+ * Add the user's signature unless the draft already ends with it
+ */
+export function appendSignature(
+  draft: string,
+  signature: string | null | undefined,
+): string {
+  const sig = signature?.trim();
+  if (!sig || draft.includes(sig)) return draft;
+  return `${draft}\n\n${sig}`;
+}
@@ -1,28 +1,83 @@
-export const LabelsSystemPrompt = `
+export const EMAIL_LABELS = [
+  "marketing",
+  "credentials",
+  "social",
+  "news",
+  "meeting",
+  "pitch",
+  "github",
+  "invoice",
+  "important",
+] as const;
+
+export type EmailLabelName = (typeof EMAIL_LABELS)[number];
+
+export interface LabelDefinition {
+  name: string;
+  description: string;
+  examples?: string[]; // Sample emails the user filed under this label
+}
+
+export const DEFAULT_LABEL_DEFINITIONS: LabelDefinition[] = [
+  {
+    name: "marketing",
+    description: "promos, discounts, launches, newsletters",
+  },
+  { name: "credentials", description: "OTP, 2FA, reset, login alert" },
+  { name: "social", description: "likes, follows, comments, friend reqs" },
+  { name: "news", description: "press/industry updates, corp annc." },
+  {
+    name: "meeting",
+    description: "invite/R S V P/schedule + date/time/link/ICS",
+  },
+  {
+    name: "pitch",
+    description: "proposals, partnership/investment, collab reqs",
+  },
+  { name: "github", description: "GitHub PR/commit/review notices" },
+  { name: "invoice", description: "bill, receipt, payment/credit note" },
+  {
+    name: "important",
+    description:
+      "add if **subject** has: correction, update, alert, critical, important, priority, deadline",
+  },
+];
+
+// Keep examples short so large label sets still fit the context window
+const MAX_EXAMPLES_PER_LABEL = 3;
+const MAX_EXAMPLE_CHARS = 300;
+
+function formatLabel(label: LabelDefinition): string {
+  const examples = (label.examples || [])
+    .slice(0, MAX_EXAMPLES_PER_LABEL)
+    .map(
+      (example) =>
+        `  e.g. "${example.replace(/\s+/g, " ").trim().slice(0, MAX_EXAMPLE_CHARS)}"`,
+    );
+  return [`${label.name} – ${label.description}`, ...examples].join("\n");
+}
+
+/**
+ * System prompt for the label set a user has, built-in labels plus their own
+ */
+export function buildLabelsSystemPrompt(labels: LabelDefinition[]): string {
+  return `
 
 
 ### ROLE
 E‑mail labeler.
 
 ### INPUT
-Subject: <subject>  
-Body: <plain text or "[non‑text]">
+A JSON array of e‑mails: [{"id":"<id>","subject":"<subject>","from":"<sender>","body":"<plain text or [non‑text]>"}]
 
 ### LABEL SET
-marketing  – promos, discounts, launches, newsletters  
-credentials – OTP, 2FA, reset, login alert  
-social      – likes, follows, comments, friend reqs  
-news        – press/industry updates, corp annc.  
-meeting     – invite/R S V P/schedule + date/time/link/ICS  
-pitch       – proposals, partnership/investment, collab reqs  
-github      – GitHub PR/commit/review notices  
-invoice     – bill, receipt, payment/credit note  
-important   – add if **subject** has: correction, update, alert, critical, important, priority, deadline
+${labels.map(formatLabel).join("\n")}
 
 ### OUTPUT
-**One minified JSON line only**  
+**One minified JSON line only**, one result per input e‑mail, same ids
 json
-{"labels":["<one or more of the above>"]}
+{"results":[{"id":"<id>","labels":[{"label":"<one of the above>","confidence":<0..1>}]}]}
 
-No other text. Never invent new labels.
+Use an empty labels array when nothing fits. No other text. Never invent new labels.
 `;
+}
@@ -0,0 +1,40 @@
+// The notification relay (server/) forwards Gmail and Outlook push
+// notifications to the app over a WebSocket. Which relay is used comes from
+// the environment, so it can be self-hosted or run locally.
+
+export const DEFAULT_RELAY_URL = "wss://hooks.futurixai.com";
+
+export type RelayWebhookProvider = "gmail" | "outlook";
+
+// Shared-secret registration tokens only need to outlive a connection
+// attempt and its retries; each new connection asks for a fresh one
+export const RELAY_TOKEN_TTL_MS = 10 * 60 * 1000;
+
+// What a connection registers with, see server/README.md
+export interface RelayRegistration {
+  provider?: "google" | "outlook"; // Unset for a shared-secret token
+  token: string; // The provider's ID token, or a shared-secret token
+  outlookClientState?: string; // Routes the account's Outlook notifications
+}
+
+export interface RelayConnection {
+  url: string; // ws:// or wss://
+  registration: RelayRegistration;
+}
+
+/**
+ * The relay's public webhook URL for a provider, from the base the relay
+ * is reachable at. WebSocket URLs map to their HTTP equivalents.
+ */
+export function getRelayWebhookUrl(
+  baseUrl: string,
+  provider: RelayWebhookProvider,
+): string {
+  const url = new URL(baseUrl);
+  if (url.protocol === "wss:") url.protocol = "https:";
+  else if (url.protocol === "ws:") url.protocol = "http:";
+  url.pathname = `${url.pathname.replace(/\/+$/, "")}/webhook/${provider}`;
+  url.search = "";
+  url.hash = "";
+  return url.toString();
+}
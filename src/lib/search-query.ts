@@ -0,0 +1,137 @@
+/**
+ * Parser for the Gmail-style search syntax used by local search, e.g.
+ * `from:alice label:invoice has:attachment after:2025/01/01 quarterly report`
+ */
+
+export interface ParsedSearchQuery {
+  terms: string[];
+  subject: string[];
+  from: string[];
+  to: string[];
+  labels: string[];
+  hasAttachment: boolean;
+  isUnread?: boolean;
+  before?: Date;
+  after?: Date;
+}
+
+// key:"quoted value" | key:value | "quoted phrase" | bare word
+const TOKEN_REGEX = /(\w+):"([^"]*)"|(\w+):(\S+)|"([^"]*)"|(\S+)/g;
+
+/**
+ * Parse YYYY/MM/DD or YYYY-MM-DD (Gmail accepts both) as a local date
+ */
+function parseSearchDate(value: string): Date | undefined {
+  const match = value.match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/);
+  if (!match) return undefined;
+  const date = new Date(
+    Number(match[1]),
+    Number(match[2]) - 1,
+    Number(match[3]),
+  );
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = {
+    terms: [],
+    subject: [],
+    from: [],
+    to: [],
+    labels: [],
+    hasAttachment: false,
+  };
+
+  for (const match of query.matchAll(TOKEN_REGEX)) {
+    const key = (match[1] ?? match[3])?.toLowerCase();
+    const value = (match[2] ?? match[4] ?? "").trim();
+
+    if (!key) {
+      const term = (match[5] ?? match[6] ?? "").trim();
+      if (term) parsed.terms.push(term);
+      continue;
+    }
+
+    let handled = value.length > 0;
+    switch (key) {
+      case "from":
+        parsed.from.push(value);
+        break;
+      case "to":
+        parsed.to.push(value);
+        break;
+      case "subject":
+        parsed.subject.push(value);
+        break;
+      case "label":
+        parsed.labels.push(value);
+        break;
+      case "has":
+        handled = value.toLowerCase() === "attachment";
+        if (handled) parsed.hasAttachment = true;
+        break;
+      case "is":
+        if (value.toLowerCase() === "unread") parsed.isUnread = true;
+        else if (value.toLowerCase() === "read") parsed.isUnread = false;
+        else handled = false;
+        break;
+      case "before":
+      case "after": {
+        const date = parseSearchDate(value);
+        handled = !!date;
+        if (date) parsed[key] = date;
+        break;
+      }
+      default:
+        handled = false;
+    }
+
+    // Unknown operators (e.g. a time like 10:30) are searched as plain text
+    if (!handled) parsed.terms.push(match[0].replace(/"/g, ""));
+  }
+
+  return parsed;
+}
+
+/**
+ * Quote a value as an FTS5 string so operators and punctuation in user input
+ * are matched literally
+ */
+function quoteFtsString(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Build an FTS5 MATCH expression for the free text and subject parts of a
+ * query, or null when the query has none. Every term must match (AND) and
+ * bare terms match as prefixes so results update while typing.
+ */
+export function buildFtsMatchExpression(
+  parsed: ParsedSearchQuery,
+): string | null {
+  // Terms made only of punctuation produce no tokens and can't be matched
+  const searchable = (term: string) => /[\p{L}\p{N}]/u.test(term);
+  const clauses = [
+    ...parsed.terms
+      .filter(searchable)
+      .map((term) => `${quoteFtsString(term)}*`),
+    ...parsed.subject
+      .filter(searchable)
+      .map((term) => `subject : ${quoteFtsString(term)}`),
+  ];
+  return clauses.length > 0 ? clauses.join(" AND ") : null;
+}
+
+export function isEmptySearchQuery(parsed: ParsedSearchQuery): boolean {
+  return (
+    parsed.terms.length === 0 &&
+    parsed.subject.length === 0 &&
+    parsed.from.length === 0 &&
+    parsed.to.length === 0 &&
+    parsed.labels.length === 0 &&
+    !parsed.hasAttachment &&
+    parsed.isUnread === undefined &&
+    !parsed.before &&
+    !parsed.after
+  );
+}
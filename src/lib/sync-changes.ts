@@ -0,0 +1,179 @@
+// Changes made to mail in the provider (elsewhere, or by the app itself)
+// that incremental sync applies to the local copy: read state, archiving,
+// trash, stars and deletions. New mail is fetched and saved as before.
+
+import { ThreadActionState } from "./thread-actions";
+
+// The parts of a Gmail history record sync looks at
+interface GmailHistoryMessage {
+  message?: { id?: string | null; threadId?: string | null } | null;
+  labelIds?: string[] | null;
+}
+
+export interface GmailHistoryRecord {
+  messagesAdded?: GmailHistoryMessage[] | null;
+  messagesDeleted?: GmailHistoryMessage[] | null;
+  labelsAdded?: GmailHistoryMessage[] | null;
+  labelsRemoved?: GmailHistoryMessage[] | null;
+}
+
+export type GmailMessageChange =
+  | { type: "deleted"; threadId: string; messageId: string }
+  | {
+      type: "labels";
+      threadId: string;
+      messageId: string;
+      added: string[];
+      removed: string[];
+    };
+
+export interface GmailHistoryChanges {
+  addedThreadIds: string[]; // Threads with new messages, to fetch
+  changes: GmailMessageChange[]; // In the order they happened
+}
+
+export type ThreadSyncState = Pick<
+  ThreadActionState,
+  "isArchived" | "isStarred" | "isTrashed" | "folderId"
+>;
+
+// Sent to the renderer when sync changed or removed threads it may show
+export interface MailChangedEvent {
+  userEmail: string;
+  updatedThreadIds: string[];
+  deletedThreadIds: string[];
+}
+
+/**
+ * New threads to fetch, and changes to existing messages to apply, from
+ * Gmail history records
+ */
+export function getGmailHistoryChanges(
+  history: GmailHistoryRecord[],
+): GmailHistoryChanges {
+  const addedThreadIds = new Set<string>();
+  const changes: GmailMessageChange[] = [];
+
+  for (const record of history) {
+    for (const { message } of record.messagesAdded ?? []) {
+      if (message?.threadId) addedThreadIds.add(message.threadId);
+    }
+    for (const { message } of record.messagesDeleted ?? []) {
+      if (message?.id && message.threadId) {
+        changes.push({
+          type: "deleted",
+          threadId: message.threadId,
+          messageId: message.id,
+        });
+      }
+    }
+    for (const [entries, added] of [
+      [record.labelsAdded, true],
+      [record.labelsRemoved, false],
+    ] as const) {
+      for (const { message, labelIds } of entries ?? []) {
+        if (!message?.id || !message.threadId || !labelIds?.length) continue;
+        changes.push({
+          type: "labels",
+          threadId: message.threadId,
+          messageId: message.id,
+          added: added ? [...labelIds] : [],
+          removed: added ? [] : [...labelIds],
+        });
+      }
+    }
+  }
+
+  return { addedThreadIds: [...addedThreadIds], changes };
+}
+
+/**
+ * A message's read state after a label change, or null if it didn't change
+ */
+export function getGmailReadChange(
+  change: Extract<GmailMessageChange, { type: "labels" }>,
+): boolean | null {
+  if (change.added.includes("UNREAD")) return false;
+  if (change.removed.includes("UNREAD")) return true;
+  return null;
+}
+
+/**
+ * A thread's state after labels were added to or removed from one of its
+ * messages. Moving to a label archives, as the app's own move does.
+ */
+export function applyGmailLabelChange(
+  state: ThreadSyncState,
+  added: string[],
+  removed: string[],
+): ThreadSyncState {
+  // Only these fields, as the result is written back to the thread
+  const next: ThreadSyncState = {
+    isArchived: state.isArchived,
+    isStarred: state.isStarred,
+    isTrashed: state.isTrashed,
+    folderId: state.folderId,
+  };
+
+  if (added.includes("INBOX")) {
+    next.isArchived = false;
+    next.folderId = null;
+  } else if (removed.includes("INBOX")) {
+    next.isArchived = true;
+  }
+  if (added.includes("TRASH")) next.isTrashed = true;
+  else if (removed.includes("TRASH")) next.isTrashed = false;
+  if (added.includes("STARRED")) next.isStarred = true;
+  else if (removed.includes("STARRED")) next.isStarred = false;
+
+  if (next.folderId && removed.includes(next.folderId)) next.folderId = null;
+  const userLabel = added.find((id) => id.startsWith("Label_"));
+  if (userLabel && removed.includes("INBOX")) next.folderId = userLabel;
+
+  return next;
+}
+
+/**
+ * The state of an Outlook thread, a single message, from a delta item for
+ * it. Items in the inbox's delta are in the inbox.
+ */
+export function getOutlookThreadState(message: {
+  isRead?: boolean;
+  flag?: { flagStatus?: string } | null;
+}): ThreadSyncState & { isRead?: boolean } {
+  return {
+    ...(message.isRead !== undefined && { isRead: message.isRead }),
+    isArchived: false,
+    isTrashed: false,
+    folderId: null,
+    isStarred: message.flag?.flagStatus === "flagged",
+  };
+}
+
+// Ids of the Outlook folders a message that left the inbox can be in
+export interface OutlookFolderIds {
+  inbox: string;
+  archive: string | null; // Mailboxes without archiving have none
+  deletedItems: string;
+}
+
+/**
+ * The state of an Outlook thread that left the inbox's delta but still
+ * exists, from the folder it's in now. Any other folder is a move, as the
+ * app's own move is.
+ */
+export function getOutlookFolderState(
+  message: {
+    parentFolderId?: string;
+    isRead?: boolean;
+    flag?: { flagStatus?: string } | null;
+  },
+  folders: OutlookFolderIds,
+): ThreadSyncState & { isRead?: boolean } {
+  const state = getOutlookThreadState(message);
+  const folderId = message.parentFolderId;
+  if (!folderId || folderId === folders.inbox) return state;
+  if (folderId === folders.deletedItems) return { ...state, isTrashed: true };
+  if (folderId === folders.archive) return { ...state, isArchived: true };
+  return { ...state, isArchived: true, folderId };
+}
@@ -0,0 +1,175 @@
+// Background sync of each account's mail: when to sync again, and how to
+// tell a provider asking us to slow down (or being down) from other errors.
+
+export type SyncStatus = "idle" | "syncing" | "error" | "offline";
+
+export interface SyncStatusEvent {
+  userEmail: string;
+  status: SyncStatus;
+  lastSyncedAt: Date | null;
+  error: string | null; // Set while the status is error or offline
+  retryAt: Date | null; // When a failed sync is tried again
+}
+
+// How often accounts without push are synced
+export const SYNC_POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+// A failed sync is retried after this, doubling each time up to the max
+export const SYNC_BACKOFF_BASE_MS = 30 * 1000;
+export const SYNC_BACKOFF_MAX_MS = 30 * 60 * 1000;
+
+// Single requests are retried a couple of times, quickly, before the whole
+// sync fails and backs off. A longer Retry-After fails it straight away.
+export const REQUEST_RETRY_LIMIT = 2;
+export const REQUEST_RETRY_BASE_MS = 1000;
+export const REQUEST_RETRY_MAX_WAIT_MS = 10 * 1000;
+
+// Node network errors that mean the machine is offline, or the provider
+// unreachable
+const OFFLINE_ERROR_CODES = new Set([
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ENETUNREACH",
+  "ETIMEDOUT",
+]);
+
+interface HttpErrorLike {
+  code?: unknown;
+  status?: unknown;
+  statusCode?: unknown;
+  response?: { status?: unknown; headers?: unknown };
+  headers?: unknown;
+  cause?: unknown;
+}
+
+/**
+ * The HTTP status of a failed Gmail (gaxios) or Graph request, if it got a
+ * response
+ */
+export function getHttpStatus(error: unknown): number | null {
+  if (!error || typeof error !== "object") return null;
+  const e = error as HttpErrorLike;
+  for (const value of [e.response?.status, e.statusCode, e.status, e.code]) {
+    if (typeof value === "number" && value >= 100) return value;
+    // gaxios gives some statuses as strings
+    if (typeof value === "string" && /^\d{3}$/.test(value)) return +value;
+  }
+  return null;
+}
+
+/**
+ * Whether a request failed because the provider is rate limiting us or
+ * having trouble, so trying again later can work
+ */
+export function isRetryableSyncError(error: unknown): boolean {
+  const status = getHttpStatus(error);
+  return status === 429 || (status !== null && status >= 500);
+}
+
+export function isOfflineError(error: unknown): boolean {
+  let current: unknown = error;
+  // fetch wraps the network error in its cause
+  for (let depth = 0; depth < 3 && current; depth++) {
+    if (typeof current !== "object") return false;
+    const { code, cause } = current as HttpErrorLike;
+    if (typeof code === "string" && OFFLINE_ERROR_CODES.has(code)) return true;
+    current = cause;
+  }
+  return false;
+}
+
+/**
+ * Whether a sync that failed with this should be retried later as a whole,
+ * rather than go on without what the request would have fetched
+ */
+export function isTransientSyncError(error: unknown): boolean {
+  return isRetryableSyncError(error) || isOfflineError(error);
+}
+
+function getHeader(headers: unknown, name: string): string | null {
+  if (!headers || typeof headers !== "object") return null;
+  if (typeof (headers as Headers).get === "function") {
+    return (headers as Headers).get(name);
+  }
+  const value = (headers as Record<string, unknown>)[name];
+  return typeof value === "string" ? value : null;
+}
+
+/**
+ * How long the provider asked us to wait, from a Retry-After header in
+ * seconds or as a date
+ */
+export function getRetryAfterMs(
+  error: unknown,
+  now: Date = new Date(),
+): number | null {
+  if (!error || typeof error !== "object") return null;
+  const e = error as HttpErrorLike;
+  const value =
+    getHeader(e.response?.headers, "retry-after") ??
+    getHeader(e.headers, "retry-after");
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(seconds * 1000, 0);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(date - now.getTime(), 0);
+}
+
+/**
+ * How long to wait before the next try after `attempt` failures in a row,
+ * no shorter than the provider asked for
+ */
+export function getBackoffMs(
+  attempt: number,
+  retryAfterMs: number | null = null,
+  baseMs: number = SYNC_BACKOFF_BASE_MS,
+  maxMs: number = SYNC_BACKOFF_MAX_MS,
+): number {
+  const backoff = Math.min(baseMs * 2 ** Math.max(attempt - 1, 0), maxMs);
+  return Math.max(backoff, retryAfterMs ?? 0);
+}
+
+/**
+ * Runs a provider request, retrying it briefly when it's rate limited or
+ * the provider errors
+ */
+export async function withRequestRetry<T>(
+  request: () => Promise<T>,
+  sleep: (ms: number) => Promise<void> = (ms) =>
+    new Promise((resolve) => setTimeout(resolve, ms)),
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt > REQUEST_RETRY_LIMIT || !isRetryableSyncError(error)) {
+        throw error;
+      }
+      const wait = getBackoffMs(
+        attempt,
+        getRetryAfterMs(error),
+        REQUEST_RETRY_BASE_MS,
+        REQUEST_RETRY_MAX_WAIT_MS,
+      );
+      if (wait > REQUEST_RETRY_MAX_WAIT_MS) throw error;
+      await sleep(wait);
+    }
+  }
+}
+
+/**
+ * Throws the first transient failure among settled requests, so the sync
+ * fails and is retried
+ */
+export function throwRetryableFailure(
+  results: PromiseSettledResult<unknown>[],
+): void {
+  for (const result of results) {
+    if (result.status === "rejected" && isTransientSyncError(result.reason)) {
+      throw result.reason;
+    }
+  }
+}
@@ -0,0 +1,211 @@
+// Triage actions on a thread: what each does to the local row, how it maps
+// onto Gmail labels and which action undoes it.
+
+export const THREAD_ACTION_TYPES = [
+  "archive",
+  "unarchive",
+  "trash",
+  "untrash",
+  "deleteForever",
+  "star",
+  "unstar",
+  "markRead",
+  "markUnread",
+  "snooze",
+  "unsnooze",
+  "move",
+] as const;
+
+export type ThreadActionType = (typeof THREAD_ACTION_TYPES)[number];
+
+// Moving to this folder puts the thread back in the inbox
+export const INBOX_FOLDER_ID = "inbox";
+
+// Gmail only allows permanent deletes with this restricted scope, so it's
+// asked for the first time someone deletes forever rather than at sign-in
+export const GMAIL_FULL_ACCESS_SCOPE = "https://mail.google.com/";
+export const GMAIL_FULL_ACCESS_REQUIRED =
+  "Deleting forever needs full Gmail access";
+
+export interface ThreadAction {
+  type: ThreadActionType;
+  folderId?: string; // move: provider folder or label id
+  snoozeUntil?: Date; // snooze
+}
+
+export interface ThreadActionState {
+  isRead: boolean;
+  isArchived: boolean;
+  isStarred: boolean;
+  isTrashed: boolean;
+  snoozedUntil: Date | null;
+  folderId: string | null; // Folder the thread was moved to, null for the inbox
+}
+
+export interface ThreadActionResult {
+  threadId: string; // Can change when Outlook moves a message
+  undo: ThreadAction | null;
+}
+
+export interface MailFolder {
+  id: string;
+  name: string;
+}
+
+export function isThreadActionType(value: unknown): value is ThreadActionType {
+  return THREAD_ACTION_TYPES.includes(value as ThreadActionType);
+}
+
+/**
+ * Check an action before it's applied. Throws with a message fit for a toast.
+ */
+export function validateThreadAction(action: ThreadAction): ThreadAction {
+  if (!isThreadActionType(action.type)) {
+    throw new Error(`Unknown thread action: ${action.type}`);
+  }
+  if (action.type === "move" && !action.folderId) {
+    throw new Error("Choose a folder to move to");
+  }
+  if (action.type === "snooze") {
+    const until = action.snoozeUntil ? new Date(action.snoozeUntil) : null;
+    if (!until || isNaN(until.getTime()) || until <= new Date()) {
+      throw new Error("Snooze needs a time in the future");
+    }
+    return { type: action.type, snoozeUntil: until };
+  }
+  return action;
+}
+
+/**
+ * Whether the thread drops out of the inbox after the action
+ */
+export function removesFromInbox(action: ThreadAction): boolean {
+  switch (action.type) {
+    case "archive":
+    case "trash":
+    case "deleteForever":
+    case "snooze":
+      return true;
+    case "move":
+      return action.folderId !== INBOX_FOLDER_ID;
+    default:
+      return false;
+  }
+}
+
+export function applyThreadActionToState(
+  state: ThreadActionState,
+  action: ThreadAction,
+): ThreadActionState {
+  switch (action.type) {
+    case "archive":
+      return { ...state, isArchived: true };
+    case "unarchive":
+      return { ...state, isArchived: false, folderId: null };
+    case "trash":
+      return { ...state, isTrashed: true };
+    case "untrash":
+      return { ...state, isTrashed: false };
+    case "deleteForever":
+      return state;
+    case "star":
+      return { ...state, isStarred: true };
+    case "unstar":
+      return { ...state, isStarred: false };
+    case "markRead":
+      return { ...state, isRead: true };
+    case "markUnread":
+      return { ...state, isRead: false };
+    case "snooze":
+      return { ...state, snoozedUntil: action.snoozeUntil ?? null };
+    case "unsnooze":
+      return { ...state, snoozedUntil: null };
+    case "move":
+      return action.folderId === INBOX_FOLDER_ID
+        ? { ...state, isArchived: false, folderId: null }
+        : { ...state, isArchived: true, folderId: action.folderId ?? null };
+  }
+}
+
+/**
+ * The action that puts a thread back the way it was, or null when an action
+ * can't be undone
+ */
+export function getUndoAction(
+  action: ThreadAction,
+  previous: ThreadActionState,
+): ThreadAction | null {
+  switch (action.type) {
+    case "archive":
+      return previous.isArchived ? null : { type: "unarchive" };
+    case "unarchive":
+      return previous.isArchived ? { type: "archive" } : null;
+    case "trash":
+      return previous.isTrashed ? null : { type: "untrash" };
+    case "untrash":
+      return previous.isTrashed ? { type: "trash" } : null;
+    case "deleteForever":
+      return null;
+    case "star":
+      return previous.isStarred ? null : { type: "unstar" };
+    case "unstar":
+      return previous.isStarred ? { type: "star" } : null;
+    case "markRead":
+      return previous.isRead ? null : { type: "markUnread" };
+    case "markUnread":
+      return previous.isRead ? { type: "markRead" } : null;
+    case "snooze":
+    case "unsnooze":
+      if (previous.snoozedUntil && previous.snoozedUntil > new Date()) {
+        return { type: "snooze", snoozeUntil: previous.snoozedUntil };
+      }
+      return action.type === "snooze" ? { type: "unsnooze" } : null;
+    case "move":
+      if (previous.folderId) {
+        return { type: "move", folderId: previous.folderId };
+      }
+      return previous.isArchived
+        ? { type: "archive" }
+        : { type: "move", folderId: INBOX_FOLDER_ID };
+  }
+}
+
+/**
+ * Label changes for Gmail's threads.modify. Trash, delete and snooze don't go
+ * through labels, so they return null.
+ */
+export function getGmailLabelChanges(
+  action: ThreadAction,
+  previousFolderId: string | null,
+): { addLabelIds: string[]; removeLabelIds: string[] } | null {
+  const changes = (addLabelIds: string[], removeLabelIds: string[]) => ({
+    addLabelIds,
+    removeLabelIds,
+  });
+  const leaveFolder = previousFolderId ? [previousFolderId] : [];
+
+  switch (action.type) {
+    case "archive":
+      return changes([], ["INBOX"]);
+    case "unarchive":
+      return changes(["INBOX"], leaveFolder);
+    case "star":
+      return changes(["STARRED"], []);
+    case "unstar":
+      return changes([], ["STARRED"]);
+    case "markRead":
+      return changes([], ["UNREAD"]);
+    case "markUnread":
+      return changes(["UNREAD"], []);
+    case "move":
+      if (action.folderId === INBOX_FOLDER_ID) {
+        return changes(["INBOX"], leaveFolder);
+      }
+      return changes(
+        [action.folderId!],
+        ["INBOX", ...leaveFolder.filter((id) => id !== action.folderId)],
+      );
+    default:
+      return null;
+  }
+}
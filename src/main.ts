@@ -1,4 +1,4 @@
-import { app, BrowserWindow, Menu } from "electron";
+import { app, BrowserWindow, Menu, protocol } from "electron";
 import registerListeners from "./helpers/ipc/listeners-register";
 // "electron-squirrel-startup" seems broken when packaging with vite
 //import started from "electron-squirrel-startup";
@@ -8,12 +8,38 @@ import {
   REACT_DEVELOPER_TOOLS,
 } from "electron-devtools-installer";
 import * as dotenv from "dotenv";
+import { INLINE_IMAGE_SCHEME } from "./lib/inline-images";
+import { ATTACHMENT_SCHEME } from "./lib/attachments";
+import { EMAIL_VIEW_SCHEME } from "./lib/email-view";
 
 // Load environment variables
 dotenv.config();
 
 const inDevelopment = process.env.NODE_ENV === "development";
 
+// Composer images and cached attachments are served from disk, and message
+// frames get their documents from the main process; schemes need their
+// privileges before the app is ready
+protocol.registerSchemesAsPrivileged([
+  {
+    scheme: INLINE_IMAGE_SCHEME,
+    privileges: { standard: true, secure: true, supportFetchAPI: true },
+  },
+  {
+    scheme: ATTACHMENT_SCHEME,
+    privileges: {
+      standard: true,
+      secure: true,
+      supportFetchAPI: true,
+      stream: true,
+    },
+  },
+  {
+    scheme: EMAIL_VIEW_SCHEME,
+    privileges: { standard: true, secure: true },
+  },
+]);
+
 function setupMenu() {
   const template: Electron.MenuItemConstructorOptions[] = [
     {
@@ -62,6 +88,7 @@ function createWindow() {
       contextIsolation: true,
       nodeIntegration: true,
       nodeIntegrationInSubFrames: false,
+      plugins: true, // Chromium's PDF viewer, for attachment previews
 
       preload: preload,
     },
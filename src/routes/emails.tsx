@@ -1,17 +1,71 @@
-import React from "react";
+import React, { useState } from "react";
 import { createFileRoute } from "@tanstack/react-router";
+import { toast } from "sonner";
 import { useAuth } from "@/contexts/AuthContext";
-import EmailInterface from "@/components/EmailInterface";
+import EmailInterface, { MailboxView } from "@/components/EmailInterface";
+import AccountSidebar from "@/components/AccountSidebar";
 import AuthGuard from "@/components/AuthGuard";
 
 function EmailsPage() {
-  const { user } = useAuth();
+  const { user, accounts, switchAccount, removeAccount } = useAuth();
+  const [showUnifiedInbox, setShowUnifiedInbox] = useState(false);
+  const [view, setView] = useState<MailboxView>("threads");
+
+  const handleSelectAccount = (email: string) => {
+    setShowUnifiedInbox(false);
+    setView("threads");
+    switchAccount(email);
+  };
+
+  const handleSelectUnifiedInbox = () => {
+    setView("threads");
+    setShowUnifiedInbox(true);
+  };
+
+  // Drafts and the outbox are listed for the active account
+  const handleSelectView = (nextView: MailboxView) => {
+    setShowUnifiedInbox(false);
+    setView(nextView);
+  };
+
+  // The OAuth result is handled by AuthContext, which adds the account
+  const handleAddAccount = async (provider: "GOOGLE" | "OUTLOOK") => {
+    try {
+      if (provider === "GOOGLE") {
+        await window.oauth.googleAuthenticate();
+      } else {
+        await window.oauth.outlookAuthenticate();
+      }
+    } catch (error) {
+      console.error("Failed to add account:", error);
+      toast.error("Failed to add account");
+    }
+  };
 
   return (
     <AuthGuard requireAuth={true} requireOnboarding={true}>
       {user ? (
-        <div className="h-full">
-          <EmailInterface userEmail={user.email} userProvider={user.provider} />
+        <div className="flex h-full">
+          <AccountSidebar
+            accounts={accounts}
+            activeEmail={user.email}
+            isUnifiedInbox={showUnifiedInbox && accounts.length > 1}
+            activeView={view}
+            onSelectUnifiedInbox={handleSelectUnifiedInbox}
+            onSelectView={handleSelectView}
+            onSelectAccount={handleSelectAccount}
+            onAddAccount={handleAddAccount}
+            onRemoveAccount={removeAccount}
+          />
+          <div className="h-full min-w-0 flex-1">
+            <EmailInterface
+              userEmail={user.email}
+              userProvider={user.provider}
+              accounts={accounts}
+              unified={showUnifiedInbox && accounts.length > 1}
+              view={view}
+            />
+          </div>
         </div>
       ) : (
         <div className="flex h-full items-center justify-center">
@@ -0,0 +1,47 @@
+import React from "react";
+import { createFileRoute, useNavigate } from "@tanstack/react-router";
+import AuthGuard from "@/components/AuthGuard";
+import LlmSettings from "@/components/LlmSettings";
+import LabelSettings from "@/components/LabelSettings";
+import RuleSettings from "@/components/RuleSettings";
+import ImportanceSettings from "@/components/ImportanceSettings";
+import ContactSettings from "@/components/ContactSettings";
+import SyncSettings from "@/components/SyncSettings";
+import { useAuth } from "@/contexts/AuthContext";
+
+function SettingsPage() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+
+  return (
+    <AuthGuard requireAuth={true} requireOnboarding={true}>
+      <div className="h-full overflow-y-auto">
+        <div className="mx-auto max-w-3xl p-6">
+          <div className="mb-6 flex items-center justify-between">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+              Settings
+            </h1>
+            <button
+              onClick={() => navigate({ to: "/emails" })}
+              className="rounded-lg px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-800"
+            >
+              Back to inbox
+            </button>
+          </div>
+          <div className="space-y-8">
+            <LlmSettings />
+            {user && <LabelSettings userEmail={user.email} />}
+            {user && <RuleSettings userEmail={user.email} />}
+            {user && <ImportanceSettings userEmail={user.email} />}
+            {user && <ContactSettings userEmail={user.email} />}
+            {user && <SyncSettings userEmail={user.email} />}
+          </div>
+        </div>
+      </div>
+    </AuthGuard>
+  );
+}
+
+export const Route = createFileRoute("/settings")({
+  component: SettingsPage,
+});
@@ -0,0 +1,301 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+import {
+  AttachmentSearchFilter,
+  DatabaseService,
+  EmailAttachmentWithEmail,
+} from "./database";
+import { EmailService } from "./email";
+import { getUserDataDirectory, writeFileAtomic } from "./user-files";
+import {
+  ATTACHMENT_SCHEME,
+  AttachmentCategory,
+  AttachmentPreviewKind,
+  MAX_CACHED_ATTACHMENT_BYTES,
+  getAttachmentCategory,
+  getAttachmentPreviewKind,
+  planCacheEviction,
+} from "../lib/attachments";
+
+// ---------------- Types ----------------
+
+export interface AttachmentDetails {
+  id: string; // EmailAttachment.id, the cache key
+  externalId: string;
+  messageId: string;
+  threadId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  category: AttachmentCategory;
+  previewKind: AttachmentPreviewKind | null;
+  url: string; // attachment-cache:// URL, downloads on first use
+  isCached: boolean;
+  sender: string;
+  senderEmail: string;
+  subject: string;
+  timestamp: Date;
+}
+
+export interface AttachmentListFilter {
+  sender?: string;
+  category?: AttachmentCategory;
+  after?: Date | string;
+  before?: Date | string;
+}
+
+export interface AttachmentFile {
+  data: Buffer;
+  filename: string;
+  mimeType: string;
+}
+
+// ---------------- Helpers ----------------
+
+function toAttachmentDetails(
+  attachment: EmailAttachmentWithEmail,
+): AttachmentDetails {
+  return {
+    id: attachment.id,
+    externalId: attachment.externalId,
+    messageId: attachment.email.externalId,
+    threadId: attachment.email.threadId,
+    filename: attachment.filename,
+    mimeType: attachment.mimeType,
+    size: attachment.size,
+    category: getAttachmentCategory(attachment.mimeType),
+    previewKind: getAttachmentPreviewKind(
+      attachment.mimeType,
+      attachment.filename,
+    ),
+    url: `${ATTACHMENT_SCHEME}://${attachment.id}`,
+    isCached: !!attachment.cachedAt,
+    sender: attachment.email.sender,
+    senderEmail: attachment.email.senderEmail,
+    subject: attachment.email.subject,
+    timestamp: attachment.email.timestamp,
+  };
+}
+
+function parseFilterDate(value: Date | string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+// ---------------- Service ----------------
+
+export class AttachmentService {
+  private databaseService: DatabaseService;
+  private emailService: EmailService;
+  // One download per attachment at a time, however many previews ask
+  private downloads = new Map<string, Promise<AttachmentFile>>();
+
+  constructor() {
+    this.databaseService = new DatabaseService();
+    this.emailService = new EmailService();
+  }
+
+  private get directory(): string {
+    return getUserDataDirectory("attachment-cache");
+  }
+
+  /**
+   * An attachment of one of the user's messages, by the provider's ids the
+   * thread view knows it by
+   */
+  async getAttachment(
+    userEmail: string,
+    messageId: string,
+    attachmentId: string,
+  ): Promise<AttachmentDetails> {
+    const user = await this.findUser(userEmail);
+    const attachment = await this.databaseService.findUserEmailAttachment(
+      user.id,
+      messageId,
+      attachmentId,
+    );
+    if (!attachment) throw new Error("Attachment not found");
+    return toAttachmentDetails(attachment);
+  }
+
+  async getAttachmentById(
+    userEmail: string,
+    id: string,
+  ): Promise<AttachmentDetails> {
+    const user = await this.findUser(userEmail);
+    const attachment = await this.databaseService.getEmailAttachmentById(id);
+    if (!attachment || attachment.email.userId !== user.id) {
+      throw new Error("Attachment not found");
+    }
+    return toAttachmentDetails(attachment);
+  }
+
+  async listAttachments(
+    userEmail: string,
+    filter: AttachmentListFilter = {},
+    limit: number = 50,
+    offset: number = 0,
+  ): Promise<{ attachments: AttachmentDetails[]; hasMore: boolean }> {
+    const user = await this.findUser(userEmail);
+    const search: AttachmentSearchFilter = {
+      sender: filter.sender?.trim() || undefined,
+      category: filter.category,
+      after: parseFilterDate(filter.after),
+      before: parseFilterDate(filter.before),
+    };
+    const { attachments, hasMore } =
+      await this.databaseService.searchEmailAttachments(
+        user.id,
+        search,
+        limit,
+        offset,
+      );
+    return { attachments: attachments.map(toAttachmentDetails), hasMore };
+  }
+
+  /**
+   * The attachment's content, from the cache when it's there, otherwise
+   * downloaded from the provider and cached
+   */
+  async readAttachment(id: string): Promise<AttachmentFile> {
+    const attachment = await this.databaseService.getEmailAttachmentById(id);
+    if (!attachment) throw new Error("Attachment not found");
+
+    if (attachment.cachedAt) {
+      try {
+        const data = await fs.readFile(this.getCachePath(id));
+        void this.databaseService.touchCachedAttachment(id).catch(() => {});
+        return {
+          data,
+          filename: attachment.filename,
+          mimeType: attachment.mimeType,
+        };
+      } catch (error) {
+        // Removed behind our back, download it again
+        console.warn(`[ATTACHMENTS] Cached file for ${id} is gone:`, error);
+        await this.databaseService.clearAttachmentCache([id]);
+      }
+    }
+
+    const pending = this.downloads.get(id);
+    if (pending) return pending;
+    const download = this.downloadAttachment(attachment).finally(() =>
+      this.downloads.delete(id),
+    );
+    this.downloads.set(id, download);
+    return download;
+  }
+
+  /**
+   * The attachment's content as base64, for callers that take it over IPC
+   */
+  async getAttachmentData(
+    userEmail: string,
+    messageId: string,
+    attachmentId: string,
+  ): Promise<{ data: string; filename: string; mimeType: string }> {
+    const { id } = await this.getAttachment(userEmail, messageId, attachmentId);
+    const file = await this.readAttachment(id);
+    return {
+      data: file.data.toString("base64"),
+      filename: file.filename,
+      mimeType: file.mimeType,
+    };
+  }
+
+  async saveAttachmentTo(id: string, targetPath: string): Promise<void> {
+    const file = await this.readAttachment(id);
+    await fs.writeFile(targetPath, file.data);
+  }
+
+  /**
+   * Drop cached files the database no longer knows about, e.g. those of
+   * deleted messages
+   */
+  async pruneCache(): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch {
+      return; // Nothing cached yet
+    }
+
+    const cached = new Set(
+      (await this.databaseService.getCachedAttachments()).map(
+        (entry) => entry.id,
+      ),
+    );
+    const orphans = files.filter((file) => !cached.has(file));
+    for (const file of orphans) {
+      await fs.rm(path.join(this.directory, file), { force: true });
+    }
+    if (orphans.length > 0) {
+      console.log(`[ATTACHMENTS] Removed ${orphans.length} orphaned files`);
+    }
+  }
+
+  private async downloadAttachment(
+    attachment: EmailAttachmentWithEmail,
+  ): Promise<AttachmentFile> {
+    const user = await this.databaseService.findUserById(
+      attachment.email.userId,
+    );
+    if (!user) throw new Error("User not found");
+
+    const downloaded = await this.emailService.downloadAttachment(
+      user.email,
+      attachment.email.externalId,
+      attachment.externalId,
+    );
+    const data = Buffer.from(downloaded.data, "base64");
+
+    if (data.byteLength <= MAX_CACHED_ATTACHMENT_BYTES) {
+      try {
+        await this.storeInCache(attachment.id, data);
+      } catch (error) {
+        // Still worth showing, it just isn't kept
+        console.error(
+          `[ATTACHMENTS] Error caching attachment ${attachment.id}:`,
+          error,
+        );
+      }
+    }
+
+    return {
+      data,
+      filename: attachment.filename,
+      mimeType: attachment.mimeType,
+    };
+  }
+
+  private async storeInCache(id: string, data: Buffer): Promise<void> {
+    const evict = planCacheEviction(
+      await this.databaseService.getCachedAttachments(),
+      data.byteLength,
+    );
+    if (evict.length > 0) {
+      await this.databaseService.clearAttachmentCache(evict);
+      for (const evictedId of evict) {
+        await fs.rm(this.getCachePath(evictedId), { force: true });
+      }
+      console.log(`[ATTACHMENTS] Evicted ${evict.length} cached attachments`);
+    }
+
+    await writeFileAtomic(this.getCachePath(id), data);
+    await this.databaseService.markAttachmentCached(id, data.byteLength);
+  }
+
+  // Ids are cuids, safe as file names
+  private getCachePath(id: string): string {
+    if (!/^[a-z0-9]+$/i.test(id)) throw new Error("Invalid attachment id");
+    return path.join(this.directory, id);
+  }
+
+  private async findUser(userEmail: string) {
+    const user = await this.databaseService.findUserByEmail(userEmail);
+    if (!user) throw new Error("User not found");
+    return user;
+  }
+}
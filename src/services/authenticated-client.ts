@@ -0,0 +1,254 @@
+import { google } from "googleapis";
+import type { Auth } from "googleapis";
+import { Client } from "@microsoft/microsoft-graph-client";
+import { AuthProvider, User } from "@prisma/client";
+
+import { DatabaseService } from "./database";
+import { GoogleOAuthService } from "./oauth";
+import { OutlookOAuthService } from "./outlook-oauth";
+
+// ---------------- Types ----------------
+
+export interface ReauthRequiredEvent {
+  userEmail: string;
+  provider: AuthProvider;
+  reason: string;
+}
+
+export class ReauthRequiredError extends Error {
+  readonly userEmail: string;
+  readonly provider: AuthProvider;
+
+  constructor(userEmail: string, provider: AuthProvider, reason: string) {
+    super(reason);
+    this.name = "ReauthRequiredError";
+    this.userEmail = userEmail;
+    this.provider = provider;
+  }
+}
+
+// ---------------- Helpers: Clients ----------------
+
+export function gmailClientFromAccessToken(accessToken: string) {
+  const auth = new google.auth.OAuth2() as Auth.OAuth2Client;
+  auth.setCredentials({ access_token: accessToken });
+  return google.gmail({ version: "v1", auth });
+}
+
+export function graphClientFromAccessToken(accessToken: string) {
+  return Client.init({
+    authProvider: (done) => done(null, accessToken),
+  });
+}
+
+// ---------------- Helpers: Errors ----------------
+
+// Refresh this long before the stored expiry so in-flight calls never race it
+const EXPIRY_SKEW_MS = 5 * 60 * 1000;
+
+function isUnauthorizedError(error: unknown): boolean {
+  if (!error || typeof error !== "object") return false;
+  const e = error as {
+    code?: unknown;
+    status?: unknown;
+    statusCode?: unknown;
+    response?: { status?: unknown };
+  };
+  // googleapis (Gaxios) uses code/response.status, Graph uses statusCode
+  return (
+    e.code === 401 ||
+    e.status === 401 ||
+    e.statusCode === 401 ||
+    e.response?.status === 401
+  );
+}
+
+// When an ID token expires, from its claims. Only used to know when to get a
+// new one; whoever it's shown to checks the signature.
+function getIdTokenExpiry(idToken: string): number {
+  try {
+    const claims = JSON.parse(
+      Buffer.from(idToken.split(".")[1], "base64url").toString("utf8"),
+    ) as { exp?: unknown };
+    return typeof claims.exp === "number" ? claims.exp * 1000 : 0;
+  } catch {
+    return 0;
+  }
+}
+
+function isRevokedGrantError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /invalid_grant|interaction_required|AADSTS50173|AADSTS700082|AADSTS70008/i.test(
+    message,
+  );
+}
+
+// ---------------- Shared state ----------------
+
+// Refreshes are shared across service instances so concurrent callers
+// (sync, calendar, label updates) trigger a single token exchange per user.
+const inFlightRefreshes = new Map<string, Promise<User>>();
+// ID tokens from the last refresh, by user id
+const idTokens = new Map<string, { token: string; expiresAt: number }>();
+const reauthListeners = new Set<(event: ReauthRequiredEvent) => void>();
+
+export function onReauthRequired(
+  listener: (event: ReauthRequiredEvent) => void,
+): () => void {
+  reauthListeners.add(listener);
+  return () => reauthListeners.delete(listener);
+}
+
+// ---------------- Service ----------------
+
+export class AuthenticatedClientService {
+  private databaseService: DatabaseService;
+  private googleOAuthService: GoogleOAuthService | null = null;
+  private outlookOAuthService: OutlookOAuthService | null = null;
+
+  constructor() {
+    this.databaseService = new DatabaseService();
+  }
+
+  /**
+   * Run a provider call with a valid access token. Tokens close to expiry are
+   * refreshed up front; a 401 from the provider forces one refresh and retry.
+   */
+  async withAccessToken<T>(
+    user: User,
+    call: (accessToken: string) => Promise<T>,
+  ): Promise<T> {
+    let current = await this.ensureFreshToken(user);
+
+    try {
+      return await call(current.accessToken);
+    } catch (error) {
+      if (!isUnauthorizedError(error)) throw error;
+
+      console.log(
+        `[AUTH_CLIENT] Provider rejected token for ${user.email}, refreshing and retrying once`,
+      );
+      current = await this.refreshUserToken(current);
+      return await call(current.accessToken);
+    }
+  }
+
+  async ensureFreshToken(user: User): Promise<User> {
+    // Without a known expiry we rely on the 401 retry in withAccessToken
+    if (!user.tokenExpiry) return user;
+    if (user.tokenExpiry.getTime() - EXPIRY_SKEW_MS > Date.now()) return user;
+
+    console.log(
+      `[AUTH_CLIENT] Access token for ${user.email} expires at ${user.tokenExpiry.toISOString()}, refreshing`,
+    );
+    return this.refreshUserToken(user);
+  }
+
+  /**
+   * An ID token for the account, to prove to the relay who it is without
+   * giving it access to the mailbox. Providers only give them out with a
+   * sign-in or a refresh, so the token is refreshed when the last one is
+   * close to expiry.
+   */
+  async getIdToken(user: User): Promise<string> {
+    const cached = idTokens.get(user.id);
+    if (cached && cached.expiresAt - EXPIRY_SKEW_MS > Date.now()) {
+      return cached.token;
+    }
+
+    await this.refreshUserToken(user);
+    const refreshed = idTokens.get(user.id);
+    if (!refreshed) throw new Error("The provider didn't return an ID token");
+    return refreshed.token;
+  }
+
+  async refreshUserToken(user: User): Promise<User> {
+    const pending = inFlightRefreshes.get(user.id);
+    if (pending) return pending;
+
+    const refresh = this.performRefresh(user).finally(() => {
+      inFlightRefreshes.delete(user.id);
+    });
+    inFlightRefreshes.set(user.id, refresh);
+    return refresh;
+  }
+
+  private async performRefresh(user: User): Promise<User> {
+    if (!user.refreshToken) {
+      throw this.reauthRequired(
+        user,
+        "No refresh token stored for this account",
+      );
+    }
+
+    try {
+      const tokens =
+        user.provider === AuthProvider.GOOGLE
+          ? await this.getGoogleOAuthService().refreshToken(user.refreshToken)
+          : user.provider === AuthProvider.OUTLOOK
+            ? await this.getOutlookOAuthService().refreshToken(
+                user.refreshToken,
+              )
+            : (() => {
+                throw new Error("Unsupported email provider");
+              })();
+
+      if (tokens.id_token) {
+        idTokens.set(user.id, {
+          token: tokens.id_token,
+          expiresAt: getIdTokenExpiry(tokens.id_token),
+        });
+      }
+
+      const updated = await this.databaseService.updateUser(user.id, {
+        accessToken: tokens.access_token,
+        // Providers only return a refresh token when they rotate it
+        refreshToken: tokens.refresh_token || undefined,
+        tokenExpiry: tokens.expiry_date
+          ? new Date(tokens.expiry_date)
+          : undefined,
+      });
+
+      console.log(`[AUTH_CLIENT] Refreshed access token for ${user.email}`);
+      return updated;
+    } catch (error) {
+      if (isRevokedGrantError(error)) {
+        throw this.reauthRequired(
+          user,
+          "Refresh token was revoked or has expired",
+        );
+      }
+      console.error(
+        `[AUTH_CLIENT] Token refresh failed for ${user.email}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  private reauthRequired(user: User, reason: string): ReauthRequiredError {
+    console.error(`[AUTH_CLIENT] Re-authentication required for ${user.email}`);
+    const event: ReauthRequiredEvent = {
+      userEmail: user.email,
+      provider: user.provider,
+      reason,
+    };
+    reauthListeners.forEach((listener) => listener(event));
+    return new ReauthRequiredError(user.email, user.provider, reason);
+  }
+
+  // OAuth services validate env vars on construction, so create them lazily
+  private getGoogleOAuthService(): GoogleOAuthService {
+    if (!this.googleOAuthService) {
+      this.googleOAuthService = new GoogleOAuthService();
+    }
+    return this.googleOAuthService;
+  }
+
+  private getOutlookOAuthService(): OutlookOAuthService {
+    if (!this.outlookOAuthService) {
+      this.outlookOAuthService = new OutlookOAuthService();
+    }
+    return this.outlookOAuthService;
+  }
+}
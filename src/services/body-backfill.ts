@@ -0,0 +1,77 @@
+import { DatabaseService } from "./database";
+import { EmailService } from "./email";
+import { ScheduledWorker } from "./scheduled-worker";
+
+// ---------------- Helpers ----------------
+
+// Threads loaded per account a round, one batch request each
+const THREADS_PER_ROUND = 20;
+
+// Low priority: rounds are spaced out so sync and opening mail come first
+const ROUND_DELAY_MS = 30 * 1000;
+
+// New mail synced without bodies is picked up within this
+const MAX_IDLE_MS = 5 * 60 * 1000;
+
+// ---------------- Service ----------------
+
+/**
+ * Loads the Gmail bodies sync leaves out, a few threads at a time in the
+ * background, so mail that was never opened can be searched offline and is
+ * classified on its whole body rather than its snippet.
+ */
+export class BodyBackfillService {
+  private databaseService: DatabaseService;
+  private emailService: EmailService;
+  private worker: ScheduledWorker;
+  private hasMore = false; // The last round left threads to load
+  // Threads that failed to load, by stored id, left until the app restarts
+  private failedThreadIds = new Set<string>();
+
+  constructor() {
+    this.databaseService = new DatabaseService();
+    this.emailService = new EmailService();
+    this.worker = new ScheduledWorker({
+      name: "BODY_BACKFILL",
+      maxIdleMs: MAX_IDLE_MS,
+      run: () => this.processRound(),
+      getNextRunInMs: async () => (this.hasMore ? ROUND_DELAY_MS : MAX_IDLE_MS),
+    });
+  }
+
+  start() {
+    this.worker.start(ROUND_DELAY_MS);
+  }
+
+  stop() {
+    this.worker.stop();
+  }
+
+  // A round for every Gmail account with snippets left
+  private async processRound() {
+    this.hasMore = false;
+    const users = await this.databaseService.getUsersWithUnloadedBodies();
+    for (const user of users) {
+      try {
+        const result = await this.emailService.loadGmailBodiesInBackground(
+          user.email,
+          THREADS_PER_ROUND,
+          [...this.failedThreadIds],
+        );
+        result.failedThreadIds.forEach((id) => this.failedThreadIds.add(id));
+        if (result.loaded) {
+          console.log(
+            `[BODY_BACKFILL] Loaded bodies of ${result.loaded} threads for ${user.email}`,
+          );
+        }
+        this.hasMore ||= result.hasMore;
+      } catch (error) {
+        // Offline or rate limited, try again after the idle wait
+        console.error(
+          `[BODY_BACKFILL] Error loading bodies for ${user.email}:`,
+          error,
+        );
+      }
+    }
+  }
+}
@@ -1,8 +1,11 @@
 import { google, calendar_v3 } from "googleapis";
 import type { Auth } from "googleapis";
-import { Client } from "@microsoft/microsoft-graph-client";
 import { DatabaseService } from "./database";
 import { AuthProvider } from "@prisma/client";
+import {
+  AuthenticatedClientService,
+  graphClientFromAccessToken,
+} from "./authenticated-client";
 
 // ---------------- Types ----------------
 
@@ -14,20 +17,16 @@ function gmailClientFromAccessToken(accessToken: string) {
   return google.calendar({ version: "v3", auth });
 }
 
-function graphClientFromAccessToken(accessToken: string) {
-  return Client.init({
-    authProvider: (done) => done(null, accessToken),
-  });
-}
-
 // ---------------- Service ----------------
 
 export class CalendarService {
   private databaseService: DatabaseService;
+  private authClient: AuthenticatedClientService;
 
   constructor() {
     console.log(`[CALENDAR_SERVICE] Initializing CalendarService`);
     this.databaseService = new DatabaseService();
+    this.authClient = new AuthenticatedClientService();
     console.log(`[CALENDAR_SERVICE] CalendarService initialized successfully`);
   }
 
@@ -49,9 +48,13 @@ export class CalendarService {
       if (!user) throw new Error("User not found");
 
       if (user.provider === AuthProvider.GOOGLE) {
-        return await this.createGmailEvent(user.accessToken, eventData);
+        return await this.authClient.withAccessToken(user, (accessToken) =>
+          this.createGmailEvent(accessToken, eventData),
+        );
       } else if (user.provider === AuthProvider.OUTLOOK) {
-        return await this.createOutlookEvent(user.accessToken, eventData);
+        return await this.authClient.withAccessToken(user, (accessToken) =>
+          this.createOutlookEvent(accessToken, eventData),
+        );
       } else {
         throw new Error("Unsupported email provider");
       }
@@ -74,9 +77,13 @@ export class CalendarService {
       if (!user) throw new Error("User not found");
 
       if (user.provider === AuthProvider.GOOGLE) {
-        return await this.getGmailEvent(user.accessToken, eventId);
+        return await this.authClient.withAccessToken(user, (accessToken) =>
+          this.getGmailEvent(accessToken, eventId),
+        );
       } else if (user.provider === AuthProvider.OUTLOOK) {
-        return await this.getOutlookEvent(user.accessToken, eventId);
+        return await this.authClient.withAccessToken(user, (accessToken) =>
+          this.getOutlookEvent(accessToken, eventId),
+        );
       } else {
         throw new Error("Unsupported email provider");
       }
@@ -100,16 +107,12 @@ export class CalendarService {
       if (!user) throw new Error("User not found");
 
       if (user.provider === AuthProvider.GOOGLE) {
-        return await this.updateGmailEvent(
-          user.accessToken,
-          eventId,
-          eventData,
+        return await this.authClient.withAccessToken(user, (accessToken) =>
+          this.updateGmailEvent(accessToken, eventId, eventData),
         );
       } else if (user.provider === AuthProvider.OUTLOOK) {
-        return await this.updateOutlookEvent(
-          user.accessToken,
-          eventId,
-          eventData,
+        return await this.authClient.withAccessToken(user, (accessToken) =>
+          this.updateOutlookEvent(accessToken, eventId, eventData),
         );
       } else {
         throw new Error("Unsupported email provider");
@@ -130,9 +133,13 @@ export class CalendarService {
       if (!user) throw new Error("User not found");
 
       if (user.provider === AuthProvider.GOOGLE) {
-        await this.deleteGmailEvent(user.accessToken, eventId);
+        await this.authClient.withAccessToken(user, (accessToken) =>
+          this.deleteGmailEvent(accessToken, eventId),
+        );
       } else if (user.provider === AuthProvider.OUTLOOK) {
-        await this.deleteOutlookEvent(user.accessToken, eventId);
+        await this.authClient.withAccessToken(user, (accessToken) =>
+          this.deleteOutlookEvent(accessToken, eventId),
+        );
       } else {
         throw new Error("Unsupported email provider");
       }
@@ -157,18 +164,12 @@ export class CalendarService {
       if (!user) throw new Error("User not found");
 
       if (user.provider === AuthProvider.GOOGLE) {
-        return await this.listGmailEvents(
-          user.accessToken,
-          startDate,
-          endDate,
-          maxResults,
+        return await this.authClient.withAccessToken(user, (accessToken) =>
+          this.listGmailEvents(accessToken, startDate, endDate, maxResults),
         );
       } else if (user.provider === AuthProvider.OUTLOOK) {
-        return await this.listOutlookEvents(
-          user.accessToken,
-          startDate,
-          endDate,
-          maxResults,
+        return await this.authClient.withAccessToken(user, (accessToken) =>
+          this.listOutlookEvents(accessToken, startDate, endDate, maxResults),
         );
       } else {
         throw new Error("Unsupported email provider");
@@ -192,9 +193,13 @@ export class CalendarService {
       if (!user) throw new Error("User not found");
 
       if (user.provider === AuthProvider.GOOGLE) {
-        return await this.checkGmailConflicts(user.accessToken, eventData);
+        return await this.authClient.withAccessToken(user, (accessToken) =>
+          this.checkGmailConflicts(accessToken, eventData),
+        );
       } else if (user.provider === AuthProvider.OUTLOOK) {
-        return await this.checkOutlookConflicts(user.accessToken, eventData);
+        return await this.authClient.withAccessToken(user, (accessToken) =>
+          this.checkOutlookConflicts(accessToken, eventData),
+        );
       } else {
         throw new Error("Unsupported email provider");
       }
@@ -214,16 +219,12 @@ export class CalendarService {
       if (!user) throw new Error("User not found");
 
       if (user.provider === AuthProvider.GOOGLE) {
-        return await this.canEditGmailEvent(
-          user.accessToken,
-          eventId,
-          userEmail,
+        return await this.authClient.withAccessToken(user, (accessToken) =>
+          this.canEditGmailEvent(accessToken, eventId, userEmail),
         );
       } else if (user.provider === AuthProvider.OUTLOOK) {
-        return await this.canEditOutlookEvent(
-          user.accessToken,
-          eventId,
-          userEmail,
+        return await this.authClient.withAccessToken(user, (accessToken) =>
+          this.canEditOutlookEvent(accessToken, eventId, userEmail),
         );
       } else {
         throw new Error("Unsupported email provider");
@@ -0,0 +1,440 @@
+import { google } from "googleapis";
+import type { Auth } from "googleapis";
+import { AuthProvider, Contact, User } from "@prisma/client";
+
+import { DatabaseService } from "./database";
+import {
+  AuthenticatedClientService,
+  graphClientFromAccessToken,
+} from "./authenticated-client";
+import {
+  ContactSuggestion,
+  isValidContactEmail,
+  parseAddressList,
+  rankContacts,
+} from "../lib/contacts";
+
+// ---------------- Types ----------------
+
+export interface ContactDetails extends ContactSuggestion {
+  source: string;
+  aliases: string[];
+}
+
+export interface SaveContactInput {
+  id?: string;
+  email: string;
+  name?: string | null;
+  phone?: string | null;
+}
+
+// Fields of a synced message that name the people on it
+export interface ContactMessage {
+  sender: string;
+  senderEmail: string;
+  recipient: string;
+  recipientEmail: string;
+  timestamp: Date;
+}
+
+interface ProviderContact {
+  email: string;
+  name: string | null;
+  phone: string | null;
+  avatar: string | null;
+}
+
+// ---------------- Helpers ----------------
+
+// How many candidates the database returns for ranking
+const SEARCH_CANDIDATE_LIMIT = 200;
+const DEFAULT_SEARCH_LIMIT = 8;
+
+function parseAliases(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function toContactDetails(contact: Contact): ContactDetails {
+  return {
+    id: contact.id,
+    email: contact.email,
+    name: contact.name,
+    avatar: contact.avatar,
+    phone: contact.phone,
+    emailCount: contact.emailCount,
+    lastEmailAt: contact.lastEmailAt,
+    isManual: contact.isManual,
+    isFromGoogle: contact.source === "google",
+    source: contact.source,
+    aliases: parseAliases(contact.aliases),
+  };
+}
+
+/**
+ * Rebuild the To header from the parsed fields. Gmail keeps everything after
+ * the first name in recipientEmail, so this also recovers multiple recipients.
+ */
+function recipientHeader(message: ContactMessage): string {
+  if (!message.recipientEmail) return "";
+  if (!message.recipient || message.recipient === message.recipientEmail) {
+    return message.recipientEmail;
+  }
+  return `${message.recipient} <${message.recipientEmail}>`;
+}
+
+// ---------------- Service ----------------
+
+export class ContactService {
+  private databaseService: DatabaseService;
+  private authClient: AuthenticatedClientService;
+
+  constructor() {
+    this.databaseService = new DatabaseService();
+    this.authClient = new AuthenticatedClientService();
+  }
+
+  async search(
+    userEmail: string,
+    query: string,
+    limit: number = DEFAULT_SEARCH_LIMIT,
+  ): Promise<ContactSuggestion[]> {
+    const q = query.trim().toLowerCase();
+    if (!q) return [];
+
+    const user = await this.findUser(userEmail);
+    const candidates = await this.databaseService.searchContacts(
+      user.id,
+      q,
+      SEARCH_CANDIDATE_LIMIT,
+    );
+    return rankContacts(candidates.map(toContactDetails), q, limit);
+  }
+
+  async getContacts(userEmail: string): Promise<ContactDetails[]> {
+    const user = await this.findUser(userEmail);
+    const contacts = await this.databaseService.getContacts(user.id);
+    return contacts.map(toContactDetails);
+  }
+
+  /**
+   * Add a contact by hand or edit one. Either way it's marked manual so sync
+   * and imports leave its details alone.
+   */
+  async saveContact(
+    userEmail: string,
+    input: SaveContactInput,
+  ): Promise<ContactDetails> {
+    const user = await this.findUser(userEmail);
+    const [address] = parseAddressList(input.email);
+    if (!address) throw new Error("Enter a valid email address");
+
+    const data = {
+      email: address.email,
+      name: input.name?.trim() || address.name,
+      phone: input.phone?.trim() || null,
+      isManual: true,
+    };
+
+    const existing = await this.databaseService.findContactByEmail(
+      user.id,
+      address.email,
+    );
+    if (existing && existing.id !== input.id) {
+      throw new Error(
+        `${address.email} is already a contact, merge the two instead`,
+      );
+    }
+
+    let saved: Contact;
+    if (input.id) {
+      await this.findOwnedContact(user.id, input.id);
+      saved = await this.databaseService.updateContact(input.id, data);
+    } else {
+      saved = await this.databaseService.createContact(user.id, {
+        ...data,
+        source: "manual",
+      });
+    }
+    console.log(`[CONTACTS] Saved contact ${saved.email} for ${userEmail}`);
+    return toContactDetails(saved);
+  }
+
+  async deleteContact(userEmail: string, id: string): Promise<void> {
+    const user = await this.findUser(userEmail);
+    await this.findOwnedContact(user.id, id);
+    await this.databaseService.deleteContact(id);
+  }
+
+  /**
+   * Fold duplicates into one contact. The other addresses become aliases of
+   * the kept one, so mail to or from them keeps counting towards it.
+   */
+  async mergeContacts(
+    userEmail: string,
+    targetId: string,
+    mergedIds: string[],
+  ): Promise<ContactDetails> {
+    const user = await this.findUser(userEmail);
+    const target = await this.findOwnedContact(user.id, targetId);
+    const merged = await Promise.all(
+      mergedIds
+        .filter((id) => id !== targetId)
+        .map((id) => this.findOwnedContact(user.id, id)),
+    );
+    if (!merged.length) return toContactDetails(target);
+
+    const all = [target, ...merged];
+    const aliases = new Set(all.flatMap((c) => parseAliases(c.aliases)));
+    merged.forEach((c) => aliases.add(c.email));
+    aliases.delete(target.email);
+
+    const lastEmailAt = all.reduce<Date | null>(
+      (latest, c) =>
+        c.lastEmailAt && (!latest || c.lastEmailAt > latest)
+          ? c.lastEmailAt
+          : latest,
+      null,
+    );
+
+    const saved = await this.databaseService.mergeContacts(
+      target.id,
+      {
+        email: target.email,
+        name: all.find((c) => c.name)?.name ?? null,
+        avatar: all.find((c) => c.avatar)?.avatar ?? null,
+        phone: all.find((c) => c.phone)?.phone ?? null,
+        emailCount: all.reduce((sum, c) => sum + c.emailCount, 0),
+        lastEmailAt,
+        isManual: true,
+        aliases: JSON.stringify(Array.from(aliases)),
+      },
+      merged.map((c) => c.id),
+    );
+    console.log(
+      `[CONTACTS] Merged ${merged.length} contacts into ${saved.email} for ${userEmail}`,
+    );
+    return toContactDetails(saved);
+  }
+
+  /**
+   * Count the people on newly synced messages: the sender and recipients,
+   * leaving out the user and automated senders
+   */
+  async recordMessageContacts(
+    user: Pick<User, "id" | "email">,
+    messages: ContactMessage[],
+  ): Promise<void> {
+    const ownEmail = user.email.toLowerCase();
+    const seen = new Map<
+      string,
+      { name: string | null; count: number; lastEmailAt: Date }
+    >();
+
+    for (const message of messages) {
+      const addresses = parseAddressList(recipientHeader(message));
+      const [sender] = parseAddressList(
+        message.sender && message.sender !== message.senderEmail
+          ? `${message.sender} <${message.senderEmail}>`
+          : message.senderEmail,
+      );
+      if (sender) addresses.push(sender);
+
+      const at = isNaN(message.timestamp.getTime())
+        ? new Date()
+        : message.timestamp;
+      for (const address of addresses) {
+        if (address.email === ownEmail) continue;
+        if (!isValidContactEmail(address.email)) continue;
+
+        const entry = seen.get(address.email);
+        if (entry) {
+          entry.count++;
+          entry.name = entry.name ?? address.name;
+          if (at > entry.lastEmailAt) entry.lastEmailAt = at;
+        } else {
+          seen.set(address.email, {
+            name: address.name,
+            count: 1,
+            lastEmailAt: at,
+          });
+        }
+      }
+    }
+
+    for (const [email, entry] of seen) {
+      try {
+        const contact = await this.databaseService.findContactByEmail(
+          user.id,
+          email,
+        );
+        if (!contact) {
+          await this.databaseService.createContact(user.id, {
+            email,
+            name: entry.name,
+            source: "mail",
+            emailCount: entry.count,
+            lastEmailAt: entry.lastEmailAt,
+          });
+          continue;
+        }
+
+        await this.databaseService.updateContact(contact.id, {
+          emailCount: contact.emailCount + entry.count,
+          lastEmailAt:
+            contact.lastEmailAt && contact.lastEmailAt > entry.lastEmailAt
+              ? contact.lastEmailAt
+              : entry.lastEmailAt,
+          ...(!contact.name && !contact.isManual && entry.name
+            ? { name: entry.name }
+            : {}),
+        });
+      } catch (error) {
+        console.error(`[CONTACTS] Failed to record contact ${email}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Pull the account's address book from Google People or Microsoft Graph.
+   * Imported details only fill gaps, so local edits win. Returns how many
+   * contacts were added.
+   */
+  async importProviderContacts(userEmail: string): Promise<number> {
+    const user = await this.findUser(userEmail);
+
+    let providerContacts: ProviderContact[];
+    if (user.provider === AuthProvider.GOOGLE) {
+      providerContacts = await this.authClient.withAccessToken(
+        user,
+        (accessToken) => this.fetchGoogleContacts(accessToken),
+      );
+    } else if (user.provider === AuthProvider.OUTLOOK) {
+      providerContacts = await this.authClient.withAccessToken(
+        user,
+        (accessToken) => this.fetchOutlookContacts(accessToken),
+      );
+    } else {
+      throw new Error("Unsupported email provider");
+    }
+
+    const source = user.provider === AuthProvider.GOOGLE ? "google" : "outlook";
+    let added = 0;
+    for (const imported of providerContacts) {
+      try {
+        const contact = await this.databaseService.findContactByEmail(
+          user.id,
+          imported.email,
+        );
+        if (!contact) {
+          await this.databaseService.createContact(user.id, {
+            ...imported,
+            source,
+          });
+          added++;
+        } else if (!contact.isManual) {
+          await this.databaseService.updateContact(contact.id, {
+            name: contact.name || imported.name,
+            phone: contact.phone || imported.phone,
+            avatar: contact.avatar || imported.avatar,
+          });
+        }
+      } catch (error) {
+        console.error(
+          `[CONTACTS] Failed to import contact ${imported.email}:`,
+          error,
+        );
+      }
+    }
+
+    console.log(
+      `[CONTACTS] Imported ${providerContacts.length} provider contacts for ${userEmail}, ${added} new`,
+    );
+    return added;
+  }
+
+  private async fetchGoogleContacts(
+    accessToken: string,
+  ): Promise<ProviderContact[]> {
+    const auth = new google.auth.OAuth2() as Auth.OAuth2Client;
+    auth.setCredentials({ access_token: accessToken });
+    const people = google.people({ version: "v1", auth });
+
+    const contacts: ProviderContact[] = [];
+    let pageToken: string | undefined;
+    do {
+      const res = await people.people.connections.list({
+        resourceName: "people/me",
+        personFields: "names,emailAddresses,phoneNumbers,photos",
+        pageSize: 1000,
+        pageToken,
+      });
+      for (const person of res.data.connections || []) {
+        for (const address of person.emailAddresses || []) {
+          const [parsed] = parseAddressList(address.value || "");
+          if (!parsed) continue;
+          contacts.push({
+            email: parsed.email,
+            name: person.names?.[0]?.displayName || null,
+            phone: person.phoneNumbers?.[0]?.value || null,
+            avatar: person.photos?.find((p) => !p.default)?.url || null,
+          });
+        }
+      }
+      pageToken = res.data.nextPageToken || undefined;
+    } while (pageToken);
+
+    return contacts;
+  }
+
+  private async fetchOutlookContacts(
+    accessToken: string,
+  ): Promise<ProviderContact[]> {
+    const client = graphClientFromAccessToken(accessToken);
+
+    const contacts: ProviderContact[] = [];
+    let res = await client
+      .api("/me/contacts")
+      .select("displayName,emailAddresses,mobilePhone,businessPhones")
+      .top(500)
+      .get();
+    while (res) {
+      for (const person of res.value || []) {
+        for (const address of person.emailAddresses || []) {
+          const [parsed] = parseAddressList(address.address || "");
+          if (!parsed) continue;
+          contacts.push({
+            email: parsed.email,
+            name: person.displayName || address.name || null,
+            phone: person.mobilePhone || person.businessPhones?.[0] || null,
+            avatar: null,
+          });
+        }
+      }
+      res = res["@odata.nextLink"]
+        ? await client.api(res["@odata.nextLink"]).get()
+        : null;
+    }
+
+    return contacts;
+  }
+
+  private async findUser(userEmail: string) {
+    const user = await this.databaseService.findUserByEmail(userEmail);
+    if (!user) throw new Error("User not found");
+    return user;
+  }
+
+  private async findOwnedContact(userId: string, id: string): Promise<Contact> {
+    const contact = await this.databaseService.getContactById(id);
+    if (!contact || contact.userId !== userId) {
+      throw new Error(`Contact not found: ${id}`);
+    }
+    return contact;
+  }
+}
@@ -4,10 +4,29 @@ import {
   AuthProvider,
   EmailThread,
   Email,
+  EmailLabel,
   EmailThreadLabel,
   EmailAttachment,
+  LlmProvider,
+  LlmFeatureModel,
+  CustomLabel,
+  MailRule,
+  Contact,
+  Draft,
+  OutboxMessage,
+  FollowUp,
+  PendingOperation,
   Prisma,
 } from "@prisma/client";
+import {
+  ParsedSearchQuery,
+  buildFtsMatchExpression,
+} from "../lib/search-query";
+import {
+  ATTACHMENT_CATEGORIES,
+  AttachmentCategory,
+  CachedAttachmentEntry,
+} from "../lib/attachments";
 
 export interface CreateUserData {
   email: string;
@@ -44,6 +63,7 @@ export interface UpdateUserData {
   importantLabels?: string | null;
   securityLabels?: string | null;
   spamLabels?: string | null;
+  importanceWeights?: string | null;
 }
 
 export interface CreateEmailThreadData {
@@ -70,11 +90,129 @@ export interface CreateEmailData {
   timestamp: Date;
   body: string;
   htmlBody?: string;
+  isBodyLoaded?: boolean; // False when only the snippet was fetched
   isRead: boolean;
   userId: string;
   emailThreadId: string;
 }
 
+// Label with where it came from, as recorded by the classifier
+export interface ClassifiedLabelData {
+  label: string;
+  confidence?: number;
+  source?: string; // "model" | "rules"
+  modelVersion?: string;
+}
+
+export interface SaveLlmProviderData {
+  name: string;
+  kind: string;
+  baseUrl?: string | null;
+  encryptedApiKey?: string | null; // undefined keeps the stored key
+}
+
+export interface SaveCustomLabelData {
+  name: string;
+  color: string;
+  description: string;
+  examples?: string | null; // JSON string array
+}
+
+export interface SaveMailRuleData {
+  name: string;
+  enabled: boolean;
+  matchAll: boolean;
+  conditions: string; // JSON RuleCondition[]
+  actions: string; // JSON RuleAction[]
+}
+
+export interface SaveContactData {
+  email: string; // lowercase
+  name?: string | null;
+  avatar?: string | null;
+  phone?: string | null;
+  isManual?: boolean;
+  source?: string; // mail, google, outlook or manual
+  aliases?: string | null; // JSON string array
+}
+
+export interface MergeContactData extends SaveContactData {
+  emailCount: number;
+  lastEmailAt: Date | null;
+}
+
+export interface SaveDraftData {
+  mode?: string; // new, reply or forward
+  threadId?: string | null;
+  replyToMessageId?: string | null;
+  to?: string; // JSON string array
+  cc?: string; // JSON string array
+  bcc?: string; // JSON string array
+  subject?: string;
+  body?: string; // HTML
+  externalId?: string | null;
+  isDirty?: boolean;
+  syncedAt?: Date | null;
+}
+
+export interface SaveOutboxMessageData {
+  mode?: string; // new, reply or forward
+  to?: string; // JSON string array
+  cc?: string; // JSON string array
+  bcc?: string; // JSON string array
+  subject?: string;
+  body?: string;
+  isHtml?: boolean;
+  threadId?: string | null;
+  replyToMessageId?: string | null;
+  attachments?: string | null; // JSON OutgoingAttachment[]
+  followUpDuration?: number | null;
+  sendAt?: Date;
+  status?: string; // scheduled, sending or failed
+  attempts?: number;
+  lastError?: string | null;
+}
+
+export interface SaveFollowUpData {
+  threadId?: string;
+  subject?: string;
+  recipients?: string; // JSON string array
+  sentAt?: Date;
+  dueAt?: Date;
+  status?: string; // pending, due, replied or done
+  predraft?: string | null;
+  firedAt?: Date | null;
+}
+
+// Local triage state set by rules and thread actions. Saving a fetched thread
+// never overwrites it; incremental sync updates it from provider changes.
+export interface EmailThreadStateData {
+  isRead?: boolean;
+  isArchived?: boolean;
+  isStarred?: boolean;
+  isImportant?: boolean;
+  isImportantByRule?: boolean;
+  isTrashed?: boolean;
+  snoozedUntil?: Date | null;
+  folderId?: string | null;
+}
+
+export interface EmailThreadImportanceData {
+  isImportant: boolean;
+  importanceScore: number;
+  importanceReasons: string; // JSON string array
+}
+
+// Where an account's initial sync got to in its window
+export type InitialSyncCheckpoint = Pick<
+  User,
+  | "syncWindow"
+  | "initialSyncPageToken"
+  | "initialSyncProcessed"
+  | "initialSyncPaused"
+  | "initialSyncCompletedAt"
+>;
+
 export interface CreateEmailAttachmentData {
   externalId: string;
   filename: string;
@@ -84,7 +222,67 @@ export interface CreateEmailAttachmentData {
   emailId: string;
 }
 
+export interface AttachmentSearchFilter {
+  sender?: string; // Name or address, partial
+  category?: AttachmentCategory;
+  after?: Date;
+  before?: Date;
+}
+
+// An attachment with the message it came with
+export type EmailAttachmentWithEmail = EmailAttachment & {
+  email: Pick<
+    Email,
+    | "externalId"
+    | "threadId"
+    | "userId"
+    | "subject"
+    | "sender"
+    | "senderEmail"
+    | "timestamp"
+  >;
+};
+
+const ATTACHMENT_EMAIL_SELECT = {
+  externalId: true,
+  threadId: true,
+  userId: true,
+  subject: true,
+  sender: true,
+  senderEmail: true,
+  timestamp: true,
+} as const;
+
+function attachmentCategoryFilter(
+  category: AttachmentCategory,
+): Prisma.EmailAttachmentWhereInput {
+  const matches = (
+    category === "other"
+      ? Object.values(ATTACHMENT_CATEGORIES)
+      : [ATTACHMENT_CATEGORIES[category]]
+  ).flatMap(({ prefixes, types }) => [
+    ...prefixes.map((prefix) => ({ mimeType: { startsWith: prefix } })),
+    ...types.map((type) => ({ mimeType: type })),
+  ]);
+  return category === "other" ? { NOT: { OR: matches } } : { OR: matches };
+}
+
 let prisma: PrismaClient | null = null;
+let searchIndexReady: Promise<void> | null = null;
+
+// Upper bound on full-text hits considered before structured filters apply
+const SEARCH_CANDIDATE_LIMIT = 500;
+
+// Threads that belong in the inbox views: not archived, trashed or snoozed
+function inboxThreadFilter(): Prisma.EmailThreadWhereInput {
+  return {
+    isArchived: false,
+    isTrashed: false,
+    AND: [
+      { OR: [{ snoozedUntil: null }, { snoozedUntil: { lte: new Date() } }] },
+    ],
+  };
+}
 
 export function getPrisma(): PrismaClient {
   if (prisma) return prisma;
@@ -240,6 +438,10 @@ export class DatabaseService {
 
   async deleteUser(id: string): Promise<User> {
     try {
+      await this.removeFromSearchIndex(
+        Prisma.sql`"userId" = ${id}`,
+        `userId ${id}`,
+      );
       return await this.prisma.user.delete({
         where: { id },
       });
@@ -290,6 +492,14 @@ export class DatabaseService {
         create: threadData,
       });
 
+      // The parsers score without rules, which mustn't undo a rule's flag
+      if (result.isImportantByRule && !result.isImportant) {
+        return await this.prisma.emailThread.update({
+          where: { id: result.id },
+          data: { isImportant: true },
+        });
+      }
+
       console.log(
         `[DATABASE] Successfully upserted email thread: ${result.id} (${result.externalId})`,
       );
@@ -314,7 +524,10 @@ export class DatabaseService {
         `[DATABASE] Getting email threads for userId: ${userId}, limit: ${limit}, offset: ${offset}, includeUnlabeled: ${includeUnlabeled}`,
       );
 
-      const whereClause: Prisma.EmailThreadWhereInput = { userId };
+      const whereClause: Prisma.EmailThreadWhereInput = {
+        userId,
+        ...inboxThreadFilter(),
+      };
       if (!includeUnlabeled) {
         whereClause.isLabeled = true;
       }
@@ -342,6 +555,44 @@ export class DatabaseService {
     }
   }
 
+  async getEmailThreadsByUsers(
+    userIds: string[],
+    limit: number = 25,
+    offset: number = 0,
+  ): Promise<{
+    threads: (EmailThread & {
+      labels: EmailThreadLabel[];
+      user: { email: string };
+    })[];
+    hasMore: boolean;
+  }> {
+    try {
+      console.log(
+        `[DATABASE] Getting unified email threads for ${userIds.length} users, limit: ${limit}, offset: ${offset}`,
+      );
+
+      // Fetch one extra row to know whether another page exists
+      const result = await this.prisma.emailThread.findMany({
+        where: { userId: { in: userIds }, ...inboxThreadFilter() },
+        include: {
+          labels: true,
+          user: { select: { email: true } },
+        },
+        orderBy: { timestamp: "desc" },
+        take: limit + 1,
+        skip: offset,
+      });
+
+      return {
+        threads: result.slice(0, limit),
+        hasMore: result.length > limit,
+      };
+    } catch (error) {
+      console.error(`[DATABASE] Error getting unified email threads:`, error);
+      throw error;
+    }
+  }
+
   async getImportantEmailThreads(
     userId: string,
     limit: number = 25,
@@ -356,11 +607,12 @@ export class DatabaseService {
         where: {
           userId,
           isImportant: true,
+          ...inboxThreadFilter(),
         },
         include: {
           labels: true,
         },
-        orderBy: { timestamp: "desc" },
+        orderBy: [{ importanceScore: "desc" }, { timestamp: "desc" }],
         take: limit,
         skip: offset,
       });
@@ -422,6 +674,7 @@ export class DatabaseService {
       const result = await this.prisma.emailThread.findMany({
         where: {
           userId,
+          ...inboxThreadFilter(),
           OR: orConditions,
         },
         include: {
@@ -493,7 +746,10 @@ export class DatabaseService {
         `[DATABASE] Getting email thread count for userId: ${userId}, includeUnlabeled: ${includeUnlabeled}`,
       );
 
-      const whereClause: Prisma.EmailThreadWhereInput = { userId };
+      const whereClause: Prisma.EmailThreadWhereInput = {
+        userId,
+        ...inboxThreadFilter(),
+      };
       if (!includeUnlabeled) {
         whereClause.isLabeled = true;
       }
@@ -732,8 +988,16 @@ export class DatabaseService {
     }
   }
 
-  async addEmailLabels(emailId: string, labels: string[]): Promise<Email> {
+  async addEmailLabels(
+    emailId: string,
+    labelInputs: Array<string | ClassifiedLabelData>,
+  ): Promise<Email> {
     try {
+      const labelData = labelInputs.map((input) =>
+        typeof input === "string" ? { label: input } : input,
+      );
+      const labels = labelData.map((l) => l.label);
+
       if (labels.length === 0) {
         return await this.prisma.email.findUniqueOrThrow({
           where: { id: emailId },
@@ -754,10 +1018,14 @@ export class DatabaseService {
       if (newLabels.length > 0) {
         for (const label of newLabels) {
           try {
+            const data = labelData.find((l) => l.label === label);
             await this.prisma.emailLabel.create({
               data: {
                 emailId,
                 label,
+                confidence: data?.confidence,
+                source: data?.source,
+                modelVersion: data?.modelVersion,
               },
             });
           } catch (error: unknown) {
@@ -827,7 +1095,7 @@ export class DatabaseService {
   async getEmailsByThreadId(
     threadId: string,
     userId: string,
-  ): Promise<Email[]> {
+  ): Promise<(Email & { labels: EmailLabel[] })[]> {
     try {
       return await this.prisma.email.findMany({
         where: {
@@ -848,7 +1116,7 @@ export class DatabaseService {
   // Email methods
   async upsertEmail(emailData: CreateEmailData): Promise<Email> {
     try {
-      return await this.prisma.email.upsert({
+      const email = await this.prisma.email.upsert({
         where: {
           userId_externalId: {
             userId: emailData.userId,
@@ -862,19 +1130,209 @@ export class DatabaseService {
           recipient: emailData.recipient,
           recipientEmail: emailData.recipientEmail,
           timestamp: emailData.timestamp,
-          body: emailData.body,
-          htmlBody: emailData.htmlBody,
+          // A thread refetched without bodies keeps those already loaded
+          ...(emailData.isBodyLoaded === false
+            ? {}
+            : {
+                body: emailData.body,
+                htmlBody: emailData.htmlBody,
+                isBodyLoaded: true,
+              }),
           isRead: emailData.isRead,
           updatedAt: new Date(),
         },
         create: emailData,
       });
+
+      await this.indexEmailForSearch(email);
+      return email;
     } catch (error) {
       console.error("Error upserting email:", error);
       throw error;
     }
   }
 
+  // Search methods
+  // FTS5 virtual tables can't be described in schema.prisma, so the index is
+  // created on first use and backfilled from any mail synced before it existed
+  private ensureSearchIndex(): Promise<void> {
+    if (!searchIndexReady) {
+      searchIndexReady = this.createSearchIndex().catch((error) => {
+        searchIndexReady = null;
+        throw error;
+      });
+    }
+    return searchIndexReady;
+  }
+
+  private async createSearchIndex(): Promise<void> {
+    await this.prisma.$executeRawUnsafe(
+      `CREATE VIRTUAL TABLE IF NOT EXISTS "EmailSearch" USING fts5(
+        "emailId" UNINDEXED,
+        "userId" UNINDEXED,
+        "subject",
+        "sender",
+        "recipient",
+        "body",
+        tokenize = 'unicode61 remove_diacritics 2'
+      )`,
+    );
+
+    const [{ count }] = await this.prisma.$queryRaw<{ count: bigint }[]>`
+      SELECT COUNT(*) AS "count" FROM "EmailSearch"`;
+    if (Number(count) > 0) return;
+
+    const backfilled = await this.prisma.$executeRaw`
+      INSERT INTO "EmailSearch" ("emailId", "userId", "subject", "sender", "recipient", "body")
+      SELECT "id", "userId", "subject", "sender" || ' ' || "senderEmail",
+        "recipient" || ' ' || "recipientEmail", "body"
+      FROM "Email"`;
+    if (backfilled > 0) {
+      console.log(
+        `[DATABASE] Backfilled search index with ${backfilled} emails`,
+      );
+    }
+  }
+
+  async indexEmailForSearch(email: Email): Promise<void> {
+    try {
+      await this.ensureSearchIndex();
+      await this.prisma.$transaction([
+        this.prisma.$executeRaw`
+          DELETE FROM "EmailSearch" WHERE "emailId" = ${email.id}`,
+        this.prisma.$executeRaw`
+          INSERT INTO "EmailSearch" ("emailId", "userId", "subject", "sender", "recipient", "body")
+          VALUES (
+            ${email.id},
+            ${email.userId},
+            ${email.subject},
+            ${`${email.sender} ${email.senderEmail}`},
+            ${`${email.recipient} ${email.recipientEmail}`},
+            ${email.body}
+          )`,
+      ]);
+    } catch (error) {
+      // Search is best effort, a broken index must never fail a sync
+      console.error(`[DATABASE] Error indexing email ${email.id}:`, error);
+    }
+  }
+
+  // The FTS table has no foreign keys, so rows of deleted mail are removed
+  // here; otherwise their bodies stay on disk and their hits crowd out live
+  // results
+  private async removeFromSearchIndex(
+    where: Prisma.Sql,
+    description: string,
+  ): Promise<void> {
+    try {
+      await this.ensureSearchIndex();
+      await this.prisma.$executeRaw`DELETE FROM "EmailSearch" WHERE ${where}`;
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error removing ${description} from the search index:`,
+        error,
+      );
+    }
+  }
+
+  async searchEmailThreads(
+    userId: string,
+    query: ParsedSearchQuery,
+    limit: number = 25,
+    offset: number = 0,
+  ): Promise<{
+    threads: (EmailThread & { labels: EmailThreadLabel[] })[];
+    hasMore: boolean;
+  }> {
+    try {
+      console.log(
+        `[DATABASE] Searching emails for userId: ${userId}, limit: ${limit}, offset: ${offset}`,
+      );
+
+      const filters: Prisma.EmailWhereInput[] = [];
+
+      const match = buildFtsMatchExpression(query);
+      if (match) {
+        await this.ensureSearchIndex();
+        const hits = await this.prisma.$queryRaw<{ emailId: string }[]>`
+          SELECT "emailId" FROM "EmailSearch"
+          WHERE "EmailSearch" MATCH ${match} AND "userId" = ${userId}
+          ORDER BY rank
+          LIMIT ${SEARCH_CANDIDATE_LIMIT}`;
+        if (hits.length === 0) return { threads: [], hasMore: false };
+        filters.push({ id: { in: hits.map((hit) => hit.emailId) } });
+      }
+
+      for (const from of query.from) {
+        filters.push({
+          OR: [
+            { sender: { contains: from } },
+            { senderEmail: { contains: from } },
+          ],
+        });
+      }
+      for (const to of query.to) {
+        filters.push({
+          OR: [
+            { recipient: { contains: to } },
+            { recipientEmail: { contains: to } },
+          ],
+        });
+      }
+      for (const label of query.labels) {
+        filters.push({
+          OR: [
+            { labels: { some: { label: { contains: label } } } },
+            {
+              emailThread: {
+                labels: { some: { label: { contains: label } } },
+              },
+            },
+          ],
+        });
+      }
+      if (query.hasAttachment) filters.push({ attachments: { some: {} } });
+      if (query.isUnread !== undefined) {
+        filters.push({ isRead: !query.isUnread });
+      }
+      if (query.before) filters.push({ timestamp: { lt: query.before } });
+      if (query.after) filters.push({ timestamp: { gte: query.after } });
+      // Like Gmail, search leaves out the trash
+      filters.push({ emailThread: { isTrashed: false } });
+
+      // Collapse matching messages into threads, newest match first
+      const matches = await this.prisma.email.findMany({
+        where: { userId, AND: filters },
+        select: { emailThreadId: true },
+        distinct: ["emailThreadId"],
+        orderBy: { timestamp: "desc" },
+        skip: offset,
+        take: limit + 1,
+      });
+
+      const hasMore = matches.length > limit;
+      const threadIds = matches.slice(0, limit).map((m) => m.emailThreadId);
+      const threads = await this.prisma.emailThread.findMany({
+        where: { id: { in: threadIds } },
+        include: { labels: true },
+      });
+
+      const order = new Map(threadIds.map((id, index) => [id, index]));
+      threads.sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+
+      console.log(
+        `[DATABASE] Search matched ${threads.length} threads for userId: ${userId}`,
+      );
+      return { threads, hasMore };
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error searching emails for userId ${userId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
   async getEmailById(emailId: string): Promise<Email | null> {
     try {
       return await this.prisma.email.findUnique({
@@ -970,6 +1428,93 @@ export class DatabaseService {
     }
   }
 
+  // Gmail accounts with mail still holding snippets, for the body backfill
+  async getUsersWithUnloadedBodies(): Promise<User[]> {
+    try {
+      return await this.prisma.user.findMany({
+        where: {
+          provider: AuthProvider.GOOGLE,
+          emails: { some: { isBodyLoaded: false } },
+        },
+      });
+    } catch (error) {
+      console.error(
+        "[DATABASE] Error getting users to load bodies for:",
+        error,
+      );
+      throw error;
+    }
+  }
+
+  // Newest first, so recent mail is searchable soonest
+  async getThreadsWithUnloadedBodies(
+    userId: string,
+    take: number,
+  ): Promise<EmailThread[]> {
+    try {
+      return await this.prisma.emailThread.findMany({
+        where: { userId, emails: { some: { isBodyLoaded: false } } },
+        orderBy: { timestamp: "desc" },
+        take,
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error getting threads to load bodies for ${userId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces the labels classification gave an email, keeping those set by
+   * hand. Returns the labels it no longer has.
+   */
+  async replaceClassifiedEmailLabels(
+    emailId: string,
+    labels: ClassifiedLabelData[],
+  ): Promise<string[]> {
+    try {
+      const existing = await this.prisma.emailLabel.findMany({
+        where: { emailId },
+      });
+      const keep = new Set(labels.map((l) => l.label));
+      const removed = existing.filter(
+        (l) => l.source !== null && !keep.has(l.label),
+      );
+      if (removed.length) {
+        await this.prisma.emailLabel.deleteMany({
+          where: { id: { in: removed.map((l) => l.id) } },
+        });
+      }
+      await this.addEmailLabels(emailId, labels);
+      return removed.map((l) => l.label);
+    } catch (error) {
+      console.error(`[DATABASE] Error relabelling email ${emailId}:`, error);
+      throw error;
+    }
+  }
+
+  // A body fetched when its thread was opened, in place of the snippet
+  async updateEmailBody(
+    userId: string,
+    externalId: string,
+    body: string,
+    htmlBody?: string,
+  ): Promise<Email | null> {
+    try {
+      const email = await this.prisma.email.update({
+        where: { userId_externalId: { userId, externalId } },
+        data: { body, htmlBody, isBodyLoaded: true },
+      });
+      await this.indexEmailForSearch(email);
+      return email;
+    } catch (error) {
+      console.error("Error updating email body:", error);
+      return null;
+    }
+  }
+
   async updateEmailReadStatus(
     userId: string,
     externalId: string,
@@ -1166,6 +1711,1581 @@ export class DatabaseService {
     }
   }
 
+  // ---------------- Attachment cache ----------------
+
+  async findUserEmailAttachment(
+    userId: string,
+    messageExternalId: string,
+    attachmentExternalId: string,
+  ): Promise<EmailAttachmentWithEmail | null> {
+    try {
+      return await this.prisma.emailAttachment.findFirst({
+        where: {
+          externalId: attachmentExternalId,
+          email: { userId, externalId: messageExternalId },
+        },
+        include: { email: { select: ATTACHMENT_EMAIL_SELECT } },
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error finding attachment ${attachmentExternalId} of message ${messageExternalId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async getEmailAttachmentById(
+    id: string,
+  ): Promise<EmailAttachmentWithEmail | null> {
+    try {
+      return await this.prisma.emailAttachment.findUnique({
+        where: { id },
+        include: { email: { select: ATTACHMENT_EMAIL_SELECT } },
+      });
+    } catch (error) {
+      console.error(`[DATABASE] Error getting attachment ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * A user's attachments, newest message first
+   */
+  async searchEmailAttachments(
+    userId: string,
+    filter: AttachmentSearchFilter,
+    limit: number = 50,
+    offset: number = 0,
+  ): Promise<{ attachments: EmailAttachmentWithEmail[]; hasMore: boolean }> {
+    try {
+      const emailFilter: Prisma.EmailWhereInput = { userId };
+      if (filter.sender) {
+        emailFilter.OR = [
+          { sender: { contains: filter.sender } },
+          { senderEmail: { contains: filter.sender } },
+        ];
+      }
+      if (filter.after || filter.before) {
+        emailFilter.timestamp = {
+          ...(filter.after && { gte: filter.after }),
+          ...(filter.before && { lt: filter.before }),
+        };
+      }
+
+      const attachments = await this.prisma.emailAttachment.findMany({
+        where: {
+          email: emailFilter,
+          ...(filter.category && attachmentCategoryFilter(filter.category)),
+        },
+        include: { email: { select: ATTACHMENT_EMAIL_SELECT } },
+        orderBy: [{ email: { timestamp: "desc" } }, { createdAt: "asc" }],
+        skip: offset,
+        take: limit + 1,
+      });
+
+      return {
+        attachments: attachments.slice(0, limit),
+        hasMore: attachments.length > limit,
+      };
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error searching attachments for userId ${userId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async getCachedAttachments(): Promise<CachedAttachmentEntry[]> {
+    try {
+      const attachments = await this.prisma.emailAttachment.findMany({
+        where: { cachedAt: { not: null } },
+        select: {
+          id: true,
+          cachedSize: true,
+          cachedAt: true,
+          lastOpenedAt: true,
+        },
+      });
+      return attachments.map((attachment) => ({
+        id: attachment.id,
+        cachedSize: attachment.cachedSize ?? 0,
+        lastOpenedAt: attachment.lastOpenedAt ?? attachment.cachedAt!,
+      }));
+    } catch (error) {
+      console.error("[DATABASE] Error getting cached attachments:", error);
+      throw error;
+    }
+  }
+
+  async markAttachmentCached(id: string, cachedSize: number): Promise<void> {
+    try {
+      const now = new Date();
+      await this.prisma.emailAttachment.update({
+        where: { id },
+        data: { cachedSize, cachedAt: now, lastOpenedAt: now },
+      });
+    } catch (error) {
+      console.error(`[DATABASE] Error marking attachment ${id} cached:`, error);
+      throw error;
+    }
+  }
+
+  async touchCachedAttachment(id: string): Promise<void> {
+    try {
+      await this.prisma.emailAttachment.update({
+        where: { id },
+        data: { lastOpenedAt: new Date() },
+      });
+    } catch (error) {
+      console.error(`[DATABASE] Error touching attachment ${id}:`, error);
+      throw error;
+    }
+  }
+
+  async clearAttachmentCache(ids: string[]): Promise<void> {
+    try {
+      await this.prisma.emailAttachment.updateMany({
+        where: { id: { in: ids } },
+        data: { cachedSize: null, cachedAt: null, lastOpenedAt: null },
+      });
+    } catch (error) {
+      console.error("[DATABASE] Error clearing attachment cache:", error);
+      throw error;
+    }
+  }
+
+  // ---------------- LLM provider settings ----------------
+
+  async getLlmProviders(): Promise<LlmProvider[]> {
+    try {
+      return await this.prisma.llmProvider.findMany({
+        orderBy: { createdAt: "asc" },
+      });
+    } catch (error) {
+      console.error(`[DATABASE] Error getting LLM providers:`, error);
+      throw error;
+    }
+  }
+
+  async getLlmProviderById(id: string): Promise<LlmProvider | null> {
+    try {
+      return await this.prisma.llmProvider.findUnique({ where: { id } });
+    } catch (error) {
+      console.error(`[DATABASE] Error getting LLM provider ${id}:`, error);
+      throw error;
+    }
+  }
+
+  async saveLlmProvider(
+    id: string | undefined,
+    data: SaveLlmProviderData,
+  ): Promise<LlmProvider> {
+    try {
+      console.log(`[DATABASE] Saving LLM provider: ${data.name}`);
+
+      if (!id) {
+        return await this.prisma.llmProvider.create({ data });
+      }
+      return await this.prisma.llmProvider.update({
+        where: { id },
+        data,
+      });
+    } catch (error) {
+      console.error(`[DATABASE] Error saving LLM provider:`, error);
+      throw error;
+    }
+  }
+
+  async deleteLlmProvider(id: string): Promise<void> {
+    try {
+      console.log(`[DATABASE] Deleting LLM provider: ${id}`);
+      // Feature assignments for this provider cascade
+      await this.prisma.llmProvider.delete({ where: { id } });
+    } catch (error) {
+      console.error(`[DATABASE] Error deleting LLM provider ${id}:`, error);
+      throw error;
+    }
+  }
+
+  async getLlmFeatureModels(): Promise<LlmFeatureModel[]> {
+    try {
+      return await this.prisma.llmFeatureModel.findMany();
+    } catch (error) {
+      console.error(`[DATABASE] Error getting LLM feature models:`, error);
+      throw error;
+    }
+  }
+
+  async getLlmFeatureModel(
+    feature: string,
+  ): Promise<(LlmFeatureModel & { provider: LlmProvider }) | null> {
+    try {
+      return await this.prisma.llmFeatureModel.findUnique({
+        where: { feature },
+        include: { provider: true },
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error getting LLM model for feature ${feature}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async setLlmFeatureModel(
+    feature: string,
+    providerId: string,
+    model: string,
+  ): Promise<LlmFeatureModel> {
+    try {
+      console.log(
+        `[DATABASE] Setting LLM model for ${feature}: ${model} (provider ${providerId})`,
+      );
+      return await this.prisma.llmFeatureModel.upsert({
+        where: { feature },
+        create: { feature, providerId, model },
+        update: { providerId, model },
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error setting LLM model for feature ${feature}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async clearLlmFeatureModel(feature: string): Promise<void> {
+    try {
+      await this.prisma.llmFeatureModel.deleteMany({ where: { feature } });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error clearing LLM model for feature ${feature}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  // ---------------- Custom labels ----------------
+
+  async getCustomLabels(userId: string): Promise<CustomLabel[]> {
+    try {
+      return await this.prisma.customLabel.findMany({
+        where: { userId },
+        orderBy: { createdAt: "asc" },
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error getting custom labels for userId ${userId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async getCustomLabelById(id: string): Promise<CustomLabel | null> {
+    try {
+      return await this.prisma.customLabel.findUnique({ where: { id } });
+    } catch (error) {
+      console.error(`[DATABASE] Error getting custom label ${id}:`, error);
+      throw error;
+    }
+  }
+
+  async createCustomLabel(
+    userId: string,
+    data: SaveCustomLabelData,
+  ): Promise<CustomLabel> {
+    try {
+      console.log(`[DATABASE] Creating custom label: ${data.name}`);
+      return await this.prisma.customLabel.create({
+        data: { ...data, userId },
+      });
+    } catch (error) {
+      console.error(`[DATABASE] Error creating custom label:`, error);
+      throw error;
+    }
+  }
+
+  async updateCustomLabel(
+    id: string,
+    data: Partial<SaveCustomLabelData>,
+  ): Promise<CustomLabel> {
+    try {
+      console.log(`[DATABASE] Updating custom label: ${id}`);
+      return await this.prisma.customLabel.update({
+        where: { id },
+        data,
+      });
+    } catch (error) {
+      console.error(`[DATABASE] Error updating custom label ${id}:`, error);
+      throw error;
+    }
+  }
+
+  async deleteCustomLabel(id: string): Promise<void> {
+    try {
+      console.log(`[DATABASE] Deleting custom label: ${id}`);
+      await this.prisma.customLabel.delete({ where: { id } });
+    } catch (error) {
+      console.error(`[DATABASE] Error deleting custom label ${id}:`, error);
+      throw error;
+    }
+  }
+
+  async updateEmailThreadState(
+    threadId: string,
+    state: EmailThreadStateData,
+  ): Promise<EmailThread> {
+    try {
+      console.log(
+        `[DATABASE] Updating state for email thread ${threadId}:`,
+        state,
+      );
+      // Read state is kept per message too
+      if (state.isRead !== undefined) {
+        await this.prisma.email.updateMany({
+          where: { emailThreadId: threadId },
+          data: { isRead: state.isRead },
+        });
+      }
+      return await this.prisma.emailThread.update({
+        where: { id: threadId },
+        data: state,
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error updating state for email thread ${threadId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async deleteEmailThread(threadId: string): Promise<void> {
+    try {
+      console.log(`[DATABASE] Deleting email thread ${threadId}`);
+      await this.removeFromSearchIndex(
+        Prisma.sql`"emailId" IN (SELECT "id" FROM "Email" WHERE "emailThreadId" = ${threadId})`,
+        `thread ${threadId}`,
+      );
+      await this.prisma.emailThread.delete({ where: { id: threadId } });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error deleting email thread ${threadId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a message deleted in the provider, and its thread with it when
+   * it was the last one. Returns the thread's row, or null if the message
+   * wasn't stored.
+   */
+  async deleteEmailMessage(
+    userId: string,
+    externalId: string,
+  ): Promise<{ emailThreadId: string; threadDeleted: boolean } | null> {
+    try {
+      const email = await this.prisma.email.findUnique({
+        where: { userId_externalId: { userId, externalId } },
+        select: { id: true, emailThreadId: true },
+      });
+      if (!email) return null;
+
+      console.log(`[DATABASE] Deleting email ${externalId}`);
+      await this.removeFromSearchIndex(
+        Prisma.sql`"emailId" = ${email.id}`,
+        `email ${externalId}`,
+      );
+      await this.prisma.email.delete({ where: { id: email.id } });
+      const remaining = await this.prisma.email.count({
+        where: { emailThreadId: email.emailThreadId },
+      });
+      if (remaining === 0) {
+        await this.prisma.emailThread.delete({
+          where: { id: email.emailThreadId },
+        });
+      } else {
+        await this.refreshEmailThreadReadState(email.emailThreadId);
+      }
+      return {
+        emailThreadId: email.emailThreadId,
+        threadDeleted: remaining === 0,
+      };
+    } catch (error) {
+      console.error(`[DATABASE] Error deleting email ${externalId}:`, error);
+      throw error;
+    }
+  }
+
+  // A thread is read once all its messages are
+  async refreshEmailThreadReadState(threadId: string): Promise<void> {
+    try {
+      const unread = await this.prisma.email.count({
+        where: { emailThreadId: threadId, isRead: false },
+      });
+      await this.prisma.emailThread.update({
+        where: { id: threadId },
+        data: { isRead: unread === 0 },
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error refreshing read state of email thread ${threadId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Point a thread and its message at a new provider id. Outlook gives a
+   * message a new id whenever it moves folder, and its threads are single
+   * messages keyed by that id.
+   */
+  async updateEmailThreadExternalId(
+    userId: string,
+    oldExternalId: string,
+    newExternalId: string,
+  ): Promise<void> {
+    try {
+      console.log(
+        `[DATABASE] Renaming email thread ${oldExternalId} -> ${newExternalId}`,
+      );
+      await this.prisma.$transaction([
+        this.prisma.emailThread.update({
+          where: {
+            userId_externalId: { userId, externalId: oldExternalId },
+          },
+          data: { externalId: newExternalId },
+        }),
+        this.prisma.email.updateMany({
+          where: { userId, externalId: oldExternalId },
+          data: { externalId: newExternalId, threadId: newExternalId },
+        }),
+      ]);
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error renaming email thread ${oldExternalId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async updateEmailThreadImportance(
+    threadId: string,
+    data: EmailThreadImportanceData,
+  ): Promise<EmailThread> {
+    try {
+      console.log(
+        `[DATABASE] Updating importance for email thread ${threadId}: ${data.importanceScore}`,
+      );
+      return await this.prisma.emailThread.update({
+        where: { id: threadId },
+        data,
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error updating importance for email thread ${threadId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async countEmailsFromSender(
+    userId: string,
+    senderEmail: string,
+    since: Date,
+  ): Promise<number> {
+    try {
+      return await this.prisma.email.count({
+        where: { userId, senderEmail, timestamp: { gte: since } },
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error counting emails from ${senderEmail} for userId ${userId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Whether the user has ever sent mail to an address. Recipient fields can
+   * hold several addresses, so this matches on containment.
+   */
+  async hasSentEmailTo(
+    userId: string,
+    userEmail: string,
+    address: string,
+  ): Promise<boolean> {
+    try {
+      const sent = await this.prisma.email.findFirst({
+        where: {
+          userId,
+          senderEmail: userEmail,
+          recipientEmail: { contains: address },
+        },
+        select: { id: true },
+      });
+      return !!sent;
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error checking sent mail to ${address} for userId ${userId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Recent threads with their labels and messages, for rule dry runs and
+   * importance rescoring
+   */
+  async getEmailThreadsWithMessages(
+    userId: string,
+    limit: number,
+  ): Promise<
+    (EmailThread & { labels: EmailThreadLabel[]; emails: Email[] })[]
+  > {
+    try {
+      return await this.prisma.emailThread.findMany({
+        where: { userId },
+        include: {
+          labels: true,
+          emails: { orderBy: { timestamp: "asc" } },
+        },
+        orderBy: { timestamp: "desc" },
+        take: limit,
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error getting email threads with messages for userId ${userId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  // ---------------- Mail rules ----------------
+
+  async getMailRules(userId: string): Promise<MailRule[]> {
+    try {
+      return await this.prisma.mailRule.findMany({
+        where: { userId },
+        orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error getting mail rules for userId ${userId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async getMailRuleById(id: string): Promise<MailRule | null> {
+    try {
+      return await this.prisma.mailRule.findUnique({ where: { id } });
+    } catch (error) {
+      console.error(`[DATABASE] Error getting mail rule ${id}:`, error);
+      throw error;
+    }
+  }
+
+  async createMailRule(
+    userId: string,
+    data: SaveMailRuleData,
+  ): Promise<MailRule> {
+    try {
+      console.log(`[DATABASE] Creating mail rule: ${data.name}`);
+      // New rules run after the existing ones
+      const last = await this.prisma.mailRule.findFirst({
+        where: { userId },
+        orderBy: { position: "desc" },
+      });
+      return await this.prisma.mailRule.create({
+        data: { ...data, userId, position: (last?.position ?? -1) + 1 },
+      });
+    } catch (error) {
+      console.error(`[DATABASE] Error creating mail rule:`, error);
+      throw error;
+    }
+  }
+
+  async updateMailRule(
+    id: string,
+    data: Partial<SaveMailRuleData>,
+  ): Promise<MailRule> {
+    try {
+      console.log(`[DATABASE] Updating mail rule: ${id}`);
+      return await this.prisma.mailRule.update({ where: { id }, data });
+    } catch (error) {
+      console.error(`[DATABASE] Error updating mail rule ${id}:`, error);
+      throw error;
+    }
+  }
+
+  async deleteMailRule(id: string): Promise<void> {
+    try {
+      console.log(`[DATABASE] Deleting mail rule: ${id}`);
+      await this.prisma.mailRule.delete({ where: { id } });
+    } catch (error) {
+      console.error(`[DATABASE] Error deleting mail rule ${id}:`, error);
+      throw error;
+    }
+  }
+
+  // ---------------- Contacts ----------------
+
+  /**
+   * Contacts whose address, name or merged aliases contain the query, most
+   * recent first. Callers rank the candidates themselves.
+   */
+  async searchContacts(
+    userId: string,
+    query: string,
+    take: number = 200,
+  ): Promise<Contact[]> {
+    try {
+      return await this.prisma.contact.findMany({
+        where: {
+          userId,
+          OR: [
+            { email: { contains: query } },
+            { name: { contains: query } },
+            { aliases: { contains: query } },
+          ],
+        },
+        orderBy: [{ lastEmailAt: "desc" }, { emailCount: "desc" }],
+        take,
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error searching contacts for userId ${userId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async getContacts(userId: string): Promise<Contact[]> {
+    try {
+      return await this.prisma.contact.findMany({
+        where: { userId },
+        orderBy: [{ emailCount: "desc" }, { email: "asc" }],
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error getting contacts for userId ${userId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async getContactById(id: string): Promise<Contact | null> {
+    try {
+      return await this.prisma.contact.findUnique({ where: { id } });
+    } catch (error) {
+      console.error(`[DATABASE] Error getting contact ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a contact by its address, or by an address merged into it
+   */
+  async findContactByEmail(
+    userId: string,
+    email: string,
+  ): Promise<Contact | null> {
+    try {
+      const contact = await this.prisma.contact.findUnique({
+        where: { userId_email: { userId, email } },
+      });
+      if (contact) return contact;
+
+      return await this.prisma.contact.findFirst({
+        where: { userId, aliases: { contains: JSON.stringify(email) } },
+      });
+    } catch (error) {
+      console.error(`[DATABASE] Error finding contact ${email}:`, error);
+      throw error;
+    }
+  }
+
+  async createContact(
+    userId: string,
+    data: SaveContactData & { emailCount?: number; lastEmailAt?: Date | null },
+  ): Promise<Contact> {
+    try {
+      return await this.prisma.contact.create({ data: { ...data, userId } });
+    } catch (error) {
+      console.error(`[DATABASE] Error creating contact ${data.email}:`, error);
+      throw error;
+    }
+  }
+
+  async updateContact(
+    id: string,
+    data: Partial<SaveContactData> & {
+      emailCount?: number;
+      lastEmailAt?: Date | null;
+    },
+  ): Promise<Contact> {
+    try {
+      return await this.prisma.contact.update({ where: { id }, data });
+    } catch (error) {
+      console.error(`[DATABASE] Error updating contact ${id}:`, error);
+      throw error;
+    }
+  }
+
+  async deleteContact(id: string): Promise<void> {
+    try {
+      console.log(`[DATABASE] Deleting contact: ${id}`);
+      await this.prisma.contact.delete({ where: { id } });
+    } catch (error) {
+      console.error(`[DATABASE] Error deleting contact ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fold duplicate contacts into one: the target takes the merged data and
+   * the others are deleted
+   */
+  async mergeContacts(
+    targetId: string,
+    data: MergeContactData,
+    mergedIds: string[],
+  ): Promise<Contact> {
+    try {
+      console.log(
+        `[DATABASE] Merging ${mergedIds.length} contacts into ${targetId}`,
+      );
+      const [, contact] = await this.prisma.$transaction([
+        this.prisma.contact.deleteMany({ where: { id: { in: mergedIds } } }),
+        this.prisma.contact.update({ where: { id: targetId }, data }),
+      ]);
+      return contact;
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error merging contacts into ${targetId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  // ---------------- Drafts ----------------
+
+  async getDrafts(userId: string): Promise<Draft[]> {
+    try {
+      return await this.prisma.draft.findMany({
+        where: { userId },
+        orderBy: { updatedAt: "desc" },
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error getting drafts for userId ${userId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async getDraftById(id: string): Promise<Draft | null> {
+    try {
+      return await this.prisma.draft.findUnique({ where: { id } });
+    } catch (error) {
+      console.error(`[DATABASE] Error getting draft ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * The most recently edited reply or forward draft in a thread
+   */
+  async getDraftByThreadId(
+    userId: string,
+    threadId: string,
+  ): Promise<Draft | null> {
+    try {
+      return await this.prisma.draft.findFirst({
+        where: { userId, threadId },
+        orderBy: { updatedAt: "desc" },
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error getting draft for thread ${threadId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async findDraftByExternalId(
+    userId: string,
+    externalId: string,
+  ): Promise<Draft | null> {
+    try {
+      return await this.prisma.draft.findUnique({
+        where: { userId_externalId: { userId, externalId } },
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error finding draft by externalId ${externalId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async createDraft(userId: string, data: SaveDraftData): Promise<Draft> {
+    try {
+      return await this.prisma.draft.create({ data: { ...data, userId } });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error creating draft for userId ${userId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async updateDraft(id: string, data: SaveDraftData): Promise<Draft> {
+    try {
+      return await this.prisma.draft.update({ where: { id }, data });
+    } catch (error) {
+      console.error(`[DATABASE] Error updating draft ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a provider push without touching updatedAt edits made while the
+   * push was in flight. Returns false when the draft changed meanwhile.
+   */
+  async markDraftSynced(
+    id: string,
+    externalId: string,
+    editedAt: Date,
+  ): Promise<boolean> {
+    try {
+      const { count } = await this.prisma.draft.updateMany({
+        where: { id, updatedAt: editedAt },
+        data: { externalId, isDirty: false, syncedAt: new Date() },
+      });
+      if (count === 0) {
+        // Keep the provider id even when newer edits still need pushing
+        await this.prisma.draft.updateMany({
+          where: { id },
+          data: { externalId },
+        });
+      }
+      return count > 0;
+    } catch (error) {
+      console.error(`[DATABASE] Error marking draft ${id} synced:`, error);
+      throw error;
+    }
+  }
+
+  async deleteDraft(id: string): Promise<void> {
+    try {
+      console.log(`[DATABASE] Deleting draft: ${id}`);
+      await this.prisma.draft.deleteMany({ where: { id } });
+    } catch (error) {
+      console.error(`[DATABASE] Error deleting draft ${id}:`, error);
+      throw error;
+    }
+  }
+
+  // ---------------- Outbox ----------------
+
+  async getOutboxMessages(userId: string): Promise<OutboxMessage[]> {
+    try {
+      return await this.prisma.outboxMessage.findMany({
+        where: { userId },
+        orderBy: { sendAt: "asc" },
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error getting outbox for userId ${userId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async getOutboxMessageById(id: string): Promise<OutboxMessage | null> {
+    try {
+      return await this.prisma.outboxMessage.findUnique({ where: { id } });
+    } catch (error) {
+      console.error(`[DATABASE] Error getting outbox message ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Scheduled messages due by `now`, across all accounts, oldest first
+   */
+  async getDueOutboxMessages(now: Date): Promise<OutboxMessage[]> {
+    try {
+      return await this.prisma.outboxMessage.findMany({
+        where: { status: "scheduled", sendAt: { lte: now } },
+        orderBy: { sendAt: "asc" },
+      });
+    } catch (error) {
+      console.error(`[DATABASE] Error getting due outbox messages:`, error);
+      throw error;
+    }
+  }
+
+  async getNextOutboxSendAt(): Promise<Date | null> {
+    try {
+      const next = await this.prisma.outboxMessage.findFirst({
+        where: { status: "scheduled" },
+        orderBy: { sendAt: "asc" },
+        select: { sendAt: true },
+      });
+      return next?.sendAt ?? null;
+    } catch (error) {
+      console.error(`[DATABASE] Error getting next outbox send time:`, error);
+      throw error;
+    }
+  }
+
+  async createOutboxMessage(
+    userId: string,
+    data: SaveOutboxMessageData & {
+      to: string;
+      subject: string;
+      body: string;
+      sendAt: Date;
+    },
+  ): Promise<OutboxMessage> {
+    try {
+      return await this.prisma.outboxMessage.create({
+        data: { ...data, userId },
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error queueing outbox message for userId ${userId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Update a message unless it's being sent right now. Returns false when
+   * the worker already took it, or it's gone.
+   */
+  async updateQueuedOutboxMessage(
+    id: string,
+    data: SaveOutboxMessageData,
+  ): Promise<boolean> {
+    try {
+      const { count } = await this.prisma.outboxMessage.updateMany({
+        where: { id, status: { not: "sending" } },
+        data,
+      });
+      return count > 0;
+    } catch (error) {
+      console.error(`[DATABASE] Error updating outbox message ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Take a scheduled message for sending. Returns false when it was
+   * cancelled or taken meanwhile.
+   */
+  async claimOutboxMessage(id: string): Promise<boolean> {
+    try {
+      const { count } = await this.prisma.outboxMessage.updateMany({
+        where: { id, status: "scheduled" },
+        data: { status: "sending" },
+      });
+      return count > 0;
+    } catch (error) {
+      console.error(`[DATABASE] Error claiming outbox message ${id}:`, error);
+      throw error;
+    }
+  }
+
+  async updateOutboxMessage(
+    id: string,
+    data: SaveOutboxMessageData,
+  ): Promise<OutboxMessage> {
+    try {
+      return await this.prisma.outboxMessage.update({ where: { id }, data });
+    } catch (error) {
+      console.error(`[DATABASE] Error updating outbox message ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Put messages left mid-send by a crash or quit back in the queue
+   */
+  async releaseSendingOutboxMessages(): Promise<number> {
+    try {
+      const { count } = await this.prisma.outboxMessage.updateMany({
+        where: { status: "sending" },
+        data: { status: "scheduled" },
+      });
+      return count;
+    } catch (error) {
+      console.error(`[DATABASE] Error releasing outbox messages:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a message unless it's being sent right now. Returns false when
+   * the worker already took it, or it's gone.
+   */
+  async deleteQueuedOutboxMessage(id: string): Promise<boolean> {
+    try {
+      const { count } = await this.prisma.outboxMessage.deleteMany({
+        where: { id, status: { not: "sending" } },
+      });
+      return count > 0;
+    } catch (error) {
+      console.error(`[DATABASE] Error deleting outbox message ${id}:`, error);
+      throw error;
+    }
+  }
+
+  async deleteOutboxMessage(id: string): Promise<void> {
+    try {
+      await this.prisma.outboxMessage.deleteMany({ where: { id } });
+    } catch (error) {
+      console.error(`[DATABASE] Error deleting outbox message ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Bring forward messages waiting to retry, after the connection they
+   * failed for came back
+   */
+  async retryOutboxMessagesNow(userId: string): Promise<number> {
+    try {
+      const now = new Date();
+      const { count } = await this.prisma.outboxMessage.updateMany({
+        where: {
+          userId,
+          status: "scheduled",
+          attempts: { gt: 0 },
+          sendAt: { gt: now },
+        },
+        data: { sendAt: now },
+      });
+      return count;
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error retrying outbox messages for userId ${userId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  // ---------------- Pending operations ----------------
+
+  async createPendingOperation(
+    userId: string,
+    data: { type: string; threadId: string; payload: string },
+  ): Promise<PendingOperation> {
+    try {
+      return await this.prisma.pendingOperation.create({
+        data: { ...data, userId },
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error queueing operation for userId ${userId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * An account's queued operations, in the order they were made
+   */
+  async getPendingOperations(userId: string): Promise<PendingOperation[]> {
+    try {
+      return await this.prisma.pendingOperation.findMany({
+        where: { userId },
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error getting pending operations for userId ${userId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async countPendingOperations(userId: string): Promise<number> {
+    try {
+      return await this.prisma.pendingOperation.count({ where: { userId } });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error counting pending operations for userId ${userId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async getUsersWithPendingOperations(): Promise<User[]> {
+    try {
+      return await this.prisma.user.findMany({
+        where: { pendingOperations: { some: {} } },
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error getting users with pending operations:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async recordPendingOperationFailure(
+    id: string,
+    lastError: string,
+  ): Promise<void> {
+    try {
+      await this.prisma.pendingOperation.updateMany({
+        where: { id },
+        data: { attempts: { increment: 1 }, lastError },
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error recording failure of operation ${id}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Point operations still queued for a thread at its new id, after Outlook
+   * moved the message
+   */
+  async renamePendingOperationThread(
+    userId: string,
+    threadId: string,
+    newThreadId: string,
+  ): Promise<void> {
+    try {
+      await this.prisma.pendingOperation.updateMany({
+        where: { userId, threadId },
+        data: { threadId: newThreadId },
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error renaming pending operations for ${threadId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async deletePendingOperation(id: string): Promise<void> {
+    try {
+      await this.prisma.pendingOperation.deleteMany({ where: { id } });
+    } catch (error) {
+      console.error(`[DATABASE] Error deleting operation ${id}:`, error);
+      throw error;
+    }
+  }
+
+  // ---------------- Follow-ups ----------------
+
+  async createFollowUp(
+    userId: string,
+    data: SaveFollowUpData & {
+      threadId: string;
+      subject: string;
+      recipients: string;
+      sentAt: Date;
+      dueAt: Date;
+    },
+  ): Promise<FollowUp> {
+    try {
+      return await this.prisma.followUp.create({ data: { ...data, userId } });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error creating follow-up for userId ${userId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async getFollowUpById(id: string): Promise<FollowUp | null> {
+    try {
+      return await this.prisma.followUp.findUnique({ where: { id } });
+    } catch (error) {
+      console.error(`[DATABASE] Error getting follow-up ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * The thread's latest follow-up that's still waiting or due
+   */
+  async getOpenThreadFollowUp(
+    userId: string,
+    threadId: string,
+  ): Promise<FollowUp | null> {
+    try {
+      return await this.prisma.followUp.findFirst({
+        where: { userId, threadId, status: { in: ["pending", "due"] } },
+        orderBy: { dueAt: "desc" },
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error getting follow-up for thread ${threadId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Pending follow-ups due by `now`, across all accounts, oldest first
+   */
+  async getDueFollowUps(now: Date): Promise<FollowUp[]> {
+    try {
+      return await this.prisma.followUp.findMany({
+        where: { status: "pending", dueAt: { lte: now } },
+        orderBy: { dueAt: "asc" },
+      });
+    } catch (error) {
+      console.error(`[DATABASE] Error getting due follow-ups:`, error);
+      throw error;
+    }
+  }
+
+  async getNextFollowUpDueAt(): Promise<Date | null> {
+    try {
+      const next = await this.prisma.followUp.findFirst({
+        where: { status: "pending" },
+        orderBy: { dueAt: "asc" },
+        select: { dueAt: true },
+      });
+      return next?.dueAt ?? null;
+    } catch (error) {
+      console.error(`[DATABASE] Error getting next follow-up time:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a follow-up only while it's in one of `statuses`. Returns false
+   * when it moved on meanwhile, or it's gone.
+   */
+  async updateFollowUpIfStatus(
+    id: string,
+    statuses: string[],
+    data: SaveFollowUpData,
+  ): Promise<boolean> {
+    try {
+      const { count } = await this.prisma.followUp.updateMany({
+        where: { id, status: { in: statuses } },
+        data,
+      });
+      return count > 0;
+    } catch (error) {
+      console.error(`[DATABASE] Error updating follow-up ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Close the thread's open follow-ups, when a new one replaces them
+   */
+  async closeThreadFollowUps(userId: string, threadId: string): Promise<void> {
+    try {
+      await this.prisma.followUp.updateMany({
+        where: { userId, threadId, status: { in: ["pending", "due"] } },
+        data: { status: "done" },
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error closing follow-ups for thread ${threadId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Messages received or sent after `since`, newest first, for spotting
+   * replies
+   */
+  async getEmailsSince(
+    userId: string,
+    since: Date,
+    limit: number = 500,
+  ): Promise<
+    Pick<Email, "threadId" | "subject" | "senderEmail" | "timestamp">[]
+  > {
+    try {
+      return await this.prisma.email.findMany({
+        where: { userId, timestamp: { gt: since } },
+        orderBy: { timestamp: "desc" },
+        take: limit,
+        select: {
+          threadId: true,
+          subject: true,
+          senderEmail: true,
+          timestamp: true,
+        },
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error getting emails since ${since.toISOString()}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  // ---------------- Remote content senders ----------------
+
+  async isRemoteContentSender(userId: string, email: string): Promise<boolean> {
+    try {
+      const sender = await this.prisma.remoteContentSender.findUnique({
+        where: { userId_email: { userId, email: email.toLowerCase() } },
+        select: { id: true },
+      });
+      return !!sender;
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error checking remote content sender ${email}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async addRemoteContentSender(userId: string, email: string): Promise<void> {
+    try {
+      const normalized = email.toLowerCase();
+      await this.prisma.remoteContentSender.upsert({
+        where: { userId_email: { userId, email: normalized } },
+        create: { userId, email: normalized },
+        update: {},
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error adding remote content sender ${email}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async removeRemoteContentSender(
+    userId: string,
+    email: string,
+  ): Promise<void> {
+    try {
+      await this.prisma.remoteContentSender.deleteMany({
+        where: { userId, email: email.toLowerCase() },
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error removing remote content sender ${email}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  // ---------------- Outlook subscriptions ----------------
+
+  // Outlook accounts that want push, whether or not their subscription is up
+  async getOutlookSubscriptionUsers(): Promise<User[]> {
+    try {
+      return await this.prisma.user.findMany({
+        where: {
+          provider: AuthProvider.OUTLOOK,
+          outlookSubscriptionExpiry: { not: null },
+        },
+      });
+    } catch (error) {
+      console.error("[DATABASE] Error getting Outlook subscriptions:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Records the account's subscription, or with `null` that it no longer
+   * wants one
+   */
+  async setOutlookSubscription(
+    userId: string,
+    subscription: { id: string | null; expiresAt: Date } | null,
+  ): Promise<void> {
+    try {
+      await this.prisma.user.update({
+        where: { id: userId },
+        data: {
+          outlookSubscriptionId: subscription?.id ?? null,
+          outlookSubscriptionExpiry: subscription?.expiresAt ?? null,
+        },
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error saving Outlook subscription for ${userId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  // ---------------- Initial sync ----------------
+
+  async getInitialSyncCheckpoint(
+    userId: string,
+  ): Promise<InitialSyncCheckpoint> {
+    try {
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+          syncWindow: true,
+          initialSyncPageToken: true,
+          initialSyncProcessed: true,
+          initialSyncPaused: true,
+          initialSyncCompletedAt: true,
+        },
+      });
+      if (!user) throw new Error("User not found");
+      return user;
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error getting initial sync checkpoint for ${userId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Moves the checkpoint past a page of the given window. Does nothing, and
+   * returns false, if the window was changed while the page was fetched.
+   */
+  async saveInitialSyncCheckpoint(
+    userId: string,
+    syncWindow: string,
+    checkpoint: { pageToken: string | null; processed: number },
+  ): Promise<boolean> {
+    try {
+      const { count } = await this.prisma.user.updateMany({
+        where: { id: userId, syncWindow },
+        data: {
+          initialSyncPageToken: checkpoint.pageToken,
+          initialSyncProcessed: checkpoint.processed,
+          initialSyncCompletedAt: checkpoint.pageToken ? null : new Date(),
+        },
+      });
+      return count > 0;
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error saving initial sync checkpoint for ${userId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  // A new window is synced from its first page; stored threads are skipped
+  async setSyncWindow(userId: string, syncWindow: string): Promise<void> {
+    try {
+      await this.prisma.user.update({
+        where: { id: userId },
+        data: {
+          syncWindow,
+          initialSyncPageToken: null,
+          initialSyncProcessed: 0,
+          initialSyncCompletedAt: null,
+        },
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error setting sync window for ${userId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async setInitialSyncPaused(userId: string, paused: boolean): Promise<void> {
+    try {
+      await this.prisma.user.update({
+        where: { id: userId },
+        data: { initialSyncPaused: paused },
+      });
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error pausing initial sync for ${userId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  // Accounts with more of their window to fetch, that aren't paused
+  async getBackfillUsers(): Promise<User[]> {
+    try {
+      return await this.prisma.user.findMany({
+        where: { initialSyncCompletedAt: null, initialSyncPaused: false },
+      });
+    } catch (error) {
+      console.error("[DATABASE] Error getting backfill users:", error);
+      throw error;
+    }
+  }
+
+  // Which of these threads are stored already
+  async getStoredThreadExternalIds(
+    userId: string,
+    externalIds: string[],
+  ): Promise<Set<string>> {
+    try {
+      const threads = await this.prisma.emailThread.findMany({
+        where: { userId, externalId: { in: externalIds } },
+        select: { externalId: true },
+      });
+      return new Set(threads.map((t) => t.externalId));
+    } catch (error) {
+      console.error(
+        `[DATABASE] Error looking up stored threads for ${userId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
   async disconnect(): Promise<void> {
     await this.prisma.$disconnect();
   }
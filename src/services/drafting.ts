@@ -0,0 +1,134 @@
+import { streamText } from "ai";
+
+import { DatabaseService } from "./database";
+import { LlmSettingsService } from "./llm-settings";
+import {
+  DraftThreadMessage,
+  appendSignature,
+  buildDraftPrompt,
+  buildDraftSystemPrompt,
+  cleanDraftText,
+} from "../lib/prompts/drafting";
+
+// ---------------- Types ----------------
+
+export interface DraftTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface DraftRequest {
+  prompt: string;
+  threadId?: string | null; // Provider thread id, its messages are read locally
+  replyToMessageId?: string | null; // Provider message id
+  currentDraft?: string;
+  subject?: string;
+  recipients?: string[];
+  history?: DraftTurn[]; // Earlier prompts and answers in this compose session
+}
+
+export interface DraftResult {
+  content: string; // Plain text for parseLLMContentToBlocks
+}
+
+// ---------------- Helpers ----------------
+
+// Earlier turns sent back to the model for follow-up instructions
+const MAX_HISTORY_TURNS = 6;
+
+// ---------------- Service ----------------
+
+export class DraftingService {
+  private databaseService: DatabaseService;
+  private llmSettingsService: LlmSettingsService;
+
+  constructor() {
+    this.databaseService = new DatabaseService();
+    this.llmSettingsService = new LlmSettingsService();
+  }
+
+  /**
+   * Write a draft with the model configured for drafting, passing each chunk
+   * to onDelta as it arrives. Resolves with the cleaned draft, signature
+   * included.
+   */
+  async generateDraft(
+    userEmail: string,
+    request: DraftRequest,
+    onDelta?: (delta: string) => void,
+    abortSignal?: AbortSignal,
+  ): Promise<DraftResult> {
+    if (!request.prompt?.trim()) throw new Error("Tell the AI what to write");
+
+    const user = await this.databaseService.findUserByEmail(userEmail);
+    if (!user) throw new Error("User not found");
+
+    const thread = await this.getThreadMessages(user.id, request.threadId);
+    const replyTo =
+      thread.find((m) => m.externalId === request.replyToMessageId) ??
+      thread[thread.length - 1] ??
+      null;
+
+    const model = await this.llmSettingsService.getModelForFeature("drafting");
+    const result = streamText({
+      model,
+      system: buildDraftSystemPrompt(user),
+      messages: [
+        ...(request.history || []).slice(-MAX_HISTORY_TURNS),
+        {
+          role: "user",
+          content: buildDraftPrompt({
+            prompt: request.prompt,
+            thread,
+            replyTo,
+            currentDraft: request.currentDraft,
+            subject: request.subject,
+            recipients: request.recipients,
+          }),
+        },
+      ],
+      abortSignal,
+    });
+
+    // textStream ends quietly on provider errors, fullStream reports them
+    let text = "";
+    for await (const part of result.fullStream) {
+      if (part.type === "text-delta") {
+        text += part.text;
+        onDelta?.(part.text);
+      } else if (part.type === "error") {
+        throw part.error;
+      }
+    }
+
+    const content = appendSignature(cleanDraftText(text), user.signature);
+    console.log(
+      `[DRAFTING] Generated a ${content.length} character draft for ${userEmail}`,
+    );
+    return { content };
+  }
+
+  private async getThreadMessages(
+    userId: string,
+    threadId: string | null | undefined,
+  ): Promise<(DraftThreadMessage & { externalId: string })[]> {
+    if (!threadId) return [];
+    const thread = await this.databaseService.getEmailThreadByExternalId(
+      userId,
+      threadId,
+    );
+    if (!thread) return [];
+
+    const emails = await this.databaseService.getEmailsByThreadId(
+      thread.id,
+      userId,
+    );
+    return emails.reverse().map((email) => ({
+      externalId: email.externalId,
+      sender: email.sender,
+      senderEmail: email.senderEmail,
+      timestamp: email.timestamp,
+      body: email.body,
+    }));
+  }
+}
@@ -0,0 +1,656 @@
+import { AuthProvider, Draft, User } from "@prisma/client";
+import type { gmail_v1 } from "googleapis";
+
+import { DatabaseService } from "./database";
+import { EmailService } from "./email";
+import { InlineImageService, toGraphInlineAttachment } from "./inline-images";
+import {
+  AuthenticatedClientService,
+  gmailClientFromAccessToken,
+  graphClientFromAccessToken,
+} from "./authenticated-client";
+import { parseAddressList } from "../lib/contacts";
+import {
+  DraftMode,
+  isDraftEmpty,
+  parseDraftAddresses,
+  plainTextToDraftHtml,
+} from "../lib/drafts";
+import { buildMimeMessage, toBase64Url } from "../lib/mime";
+
+// ---------------- Types ----------------
+
+export interface DraftDetails {
+  id: string;
+  mode: DraftMode;
+  threadId: string | null;
+  replyToMessageId: string | null;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  subject: string;
+  body: string; // HTML
+  isSynced: boolean;
+  updatedAt: Date;
+}
+
+export interface SaveDraftInput {
+  id?: string | null; // Omit to start a new draft
+  mode: DraftMode;
+  threadId?: string | null;
+  replyToMessageId?: string | null;
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  body: string; // HTML
+}
+
+// A draft as the provider has it
+interface ProviderDraft {
+  externalId: string;
+  mode: DraftMode;
+  threadId: string | null;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  subject: string;
+  body: string;
+  modifiedAt: Date;
+}
+
+interface GraphRecipient {
+  emailAddress?: { address?: string };
+}
+
+// ---------------- Helpers ----------------
+
+// Drafts read from the provider per sync
+const MAX_PROVIDER_DRAFTS = 100;
+
+function toDraftDetails(draft: Draft): DraftDetails {
+  return {
+    id: draft.id,
+    mode: draft.mode as DraftMode,
+    threadId: draft.threadId,
+    replyToMessageId: draft.replyToMessageId,
+    to: parseDraftAddresses(draft.to),
+    cc: parseDraftAddresses(draft.cc),
+    bcc: parseDraftAddresses(draft.bcc),
+    subject: draft.subject,
+    body: draft.body,
+    isSynced: !draft.isDirty,
+    updatedAt: draft.updatedAt,
+  };
+}
+
+function isNotFoundError(error: unknown): boolean {
+  if (!error || typeof error !== "object") return false;
+  const e = error as {
+    code?: unknown;
+    status?: unknown;
+    statusCode?: unknown;
+    response?: { status?: unknown };
+  };
+  return (
+    e.code === 404 ||
+    e.status === 404 ||
+    e.statusCode === 404 ||
+    e.response?.status === 404
+  );
+}
+
+function toGraphRecipients(addresses: string[]): GraphRecipient[] {
+  return addresses.map((address) => ({ emailAddress: { address } }));
+}
+
+function fromGraphRecipients(recipients?: GraphRecipient[]): string[] {
+  return (recipients || [])
+    .map((r) => r.emailAddress?.address?.toLowerCase())
+    .filter((address): address is string => !!address);
+}
+
+function findGmailPart(
+  part: gmail_v1.Schema$MessagePart | undefined,
+  mimeType: string,
+): string | null {
+  if (!part) return null;
+  if (part.mimeType === mimeType && part.body?.data) {
+    return Buffer.from(part.body.data, "base64").toString();
+  }
+  for (const child of part.parts || []) {
+    const found = findGmailPart(child, mimeType);
+    if (found !== null) return found;
+  }
+  return null;
+}
+
+// ---------------- Service ----------------
+
+export class DraftService {
+  private databaseService: DatabaseService;
+  private emailService: EmailService;
+  private authClient: AuthenticatedClientService;
+  private inlineImageService: InlineImageService;
+  // One provider push at a time per draft, so two quick saves never both
+  // create a provider draft
+  private pushes = new Map<string, Promise<void>>();
+
+  constructor() {
+    this.databaseService = new DatabaseService();
+    this.emailService = new EmailService();
+    this.authClient = new AuthenticatedClientService();
+    this.inlineImageService = new InlineImageService();
+  }
+
+  async getDrafts(userEmail: string): Promise<DraftDetails[]> {
+    const user = await this.findUser(userEmail);
+    const drafts = await this.databaseService.getDrafts(user.id);
+    return drafts.map(toDraftDetails);
+  }
+
+  async getThreadDraft(
+    userEmail: string,
+    threadId: string,
+  ): Promise<DraftDetails | null> {
+    const user = await this.findUser(userEmail);
+    const draft = await this.databaseService.getDraftByThreadId(
+      user.id,
+      threadId,
+    );
+    return draft ? toDraftDetails(draft) : null;
+  }
+
+  /**
+   * Store the composer's state and push it to the provider in the
+   * background. A draft emptied by the user is discarded instead, resolving
+   * with null.
+   */
+  async saveDraft(
+    userEmail: string,
+    input: SaveDraftInput,
+  ): Promise<DraftDetails | null> {
+    const user = await this.findUser(userEmail);
+    // The draft may have been sent or discarded elsewhere meanwhile, in
+    // which case the composer's state becomes a new draft
+    const existing = input.id
+      ? await this.databaseService.getDraftById(input.id)
+      : null;
+    if (existing && existing.userId !== user.id) {
+      throw new Error("Draft not found");
+    }
+
+    const content = {
+      mode: input.mode,
+      to: input.to,
+      cc: input.cc || [],
+      bcc: input.bcc || [],
+      subject: input.subject,
+      body: input.body,
+    };
+    if (isDraftEmpty(content)) {
+      if (existing) await this.deleteDraft(userEmail, existing.id);
+      return null;
+    }
+
+    const data = {
+      mode: input.mode,
+      threadId: input.threadId ?? null,
+      replyToMessageId: input.replyToMessageId ?? null,
+      to: JSON.stringify(content.to),
+      cc: JSON.stringify(content.cc),
+      bcc: JSON.stringify(content.bcc),
+      subject: content.subject,
+      body: content.body,
+      isDirty: true,
+    };
+    const draft = existing
+      ? await this.databaseService.updateDraft(existing.id, data)
+      : await this.databaseService.createDraft(user.id, data);
+
+    this.queuePush(user, draft.id);
+    return toDraftDetails(draft);
+  }
+
+  /**
+   * Discard a draft here and on the provider
+   */
+  async deleteDraft(userEmail: string, draftId: string): Promise<void> {
+    const user = await this.findUser(userEmail);
+    await this.pushes.get(draftId);
+
+    // Read after the pending push, which may have created the provider copy
+    const draft = await this.databaseService.getDraftById(draftId);
+    if (!draft || draft.userId !== user.id) return;
+
+    if (draft.externalId) {
+      const externalId = draft.externalId;
+      try {
+        await this.authClient.withAccessToken(user, (accessToken) =>
+          this.deleteProviderDraft(user, accessToken, externalId),
+        );
+      } catch (error) {
+        if (!isNotFoundError(error)) throw error;
+      }
+    }
+
+    await this.databaseService.deleteDraft(draft.id);
+    console.log(`[DRAFTS] Discarded draft ${draft.id} for ${userEmail}`);
+  }
+
+  /**
+   * Send a draft. Replies and forwards go out like a live reply so the
+   * original is quoted and threaded the same way, new messages are sent from
+   * the provider's copy of the draft.
+   */
+  async sendDraft(userEmail: string, draftId: string): Promise<void> {
+    const user = await this.findUser(userEmail);
+    await this.pushes.get(draftId);
+
+    const draft = await this.databaseService.getDraftById(draftId);
+    if (!draft || draft.userId !== user.id) throw new Error("Draft not found");
+    const details = toDraftDetails(draft);
+    if (details.to.length === 0) {
+      throw new Error("At least one recipient is required");
+    }
+
+    if (draft.threadId && draft.replyToMessageId && draft.mode !== "new") {
+      await this.emailService.sendReply(userEmail, {
+        to: details.to,
+        cc: details.cc,
+        bcc: details.bcc,
+        subject: draft.subject,
+        body: draft.body,
+        threadId: draft.threadId,
+        replyToMessageId: draft.replyToMessageId,
+        mode: draft.mode === "forward" ? "forward" : "reply",
+      });
+      try {
+        await this.deleteDraft(userEmail, draft.id);
+      } catch (error) {
+        // The message is out, a leftover provider draft is only clutter
+        console.error(
+          `[DRAFTS] Failed to discard sent draft ${draft.id}:`,
+          error,
+        );
+        await this.databaseService.deleteDraft(draft.id);
+      }
+      return;
+    }
+
+    await this.pushDraft(user, draft.id);
+    const synced = await this.databaseService.getDraftById(draft.id);
+    if (!synced?.externalId)
+      throw new Error("Draft was not saved to your account");
+    const externalId = synced.externalId;
+
+    if (user.provider === AuthProvider.GOOGLE) {
+      await this.authClient.withAccessToken(user, (accessToken) =>
+        gmailClientFromAccessToken(accessToken).users.drafts.send({
+          userId: "me",
+          requestBody: { id: externalId },
+        }),
+      );
+    } else if (user.provider === AuthProvider.OUTLOOK) {
+      await this.authClient.withAccessToken(user, async (accessToken) => {
+        const client = graphClientFromAccessToken(accessToken);
+        // Outlook keeps a draft's attachments apart from its body, so the
+        // composer's images are only attached once it's final
+        const { html, images } = await this.inlineImageService.embedImages(
+          draft.body,
+        );
+        if (images.length > 0) {
+          await client
+            .api(`/me/messages/${externalId}`)
+            .patch({ body: { contentType: "HTML", content: html } });
+          for (const image of images) {
+            await client
+              .api(`/me/messages/${externalId}/attachments`)
+              .post(toGraphInlineAttachment(image));
+          }
+        }
+        await client.api(`/me/messages/${externalId}/send`).post({});
+      });
+    } else {
+      throw new Error("Unsupported email provider");
+    }
+
+    await this.databaseService.deleteDraft(draft.id);
+    console.log(`[DRAFTS] Sent draft ${draft.id} for ${userEmail}`);
+  }
+
+  /**
+   * Bring in drafts written in other clients. Local edits not yet pushed win
+   * over the provider's copy, and drafts that disappeared from the provider
+   * were sent or discarded there, so they go here too.
+   */
+  async syncProviderDrafts(userEmail: string): Promise<DraftDetails[]> {
+    const user = await this.findUser(userEmail);
+    // A push in flight would otherwise come back as a second, unknown draft
+    await Promise.all(this.pushes.values());
+
+    let providerDrafts: ProviderDraft[];
+    if (user.provider === AuthProvider.GOOGLE) {
+      providerDrafts = await this.authClient.withAccessToken(
+        user,
+        (accessToken) => this.fetchGmailDrafts(accessToken),
+      );
+    } else if (user.provider === AuthProvider.OUTLOOK) {
+      providerDrafts = await this.authClient.withAccessToken(
+        user,
+        (accessToken) => this.fetchOutlookDrafts(accessToken),
+      );
+    } else {
+      throw new Error("Unsupported email provider");
+    }
+
+    for (const providerDraft of providerDrafts) {
+      try {
+        const local = await this.databaseService.findDraftByExternalId(
+          user.id,
+          providerDraft.externalId,
+        );
+        // Unchanged since our last push, or about to be overwritten by it
+        if (local?.isDirty) continue;
+        if (local?.syncedAt && providerDraft.modifiedAt <= local.syncedAt) {
+          continue;
+        }
+
+        const content = {
+          to: JSON.stringify(providerDraft.to),
+          cc: JSON.stringify(providerDraft.cc),
+          bcc: JSON.stringify(providerDraft.bcc),
+          subject: providerDraft.subject,
+          body: providerDraft.body,
+          isDirty: false,
+          syncedAt: new Date(),
+        };
+        if (local) {
+          await this.databaseService.updateDraft(local.id, content);
+        } else {
+          await this.databaseService.createDraft(user.id, {
+            ...content,
+            mode: providerDraft.mode,
+            threadId: providerDraft.threadId,
+            externalId: providerDraft.externalId,
+          });
+        }
+      } catch (error) {
+        console.error(
+          `[DRAFTS] Failed to sync provider draft ${providerDraft.externalId}:`,
+          error,
+        );
+      }
+    }
+
+    const providerIds = new Set(providerDrafts.map((d) => d.externalId));
+    for (const draft of await this.databaseService.getDrafts(user.id)) {
+      if (draft.isDirty) {
+        this.queuePush(user, draft.id);
+      } else if (draft.externalId && !providerIds.has(draft.externalId)) {
+        await this.databaseService.deleteDraft(draft.id);
+      }
+    }
+
+    console.log(
+      `[DRAFTS] Synced ${providerDrafts.length} provider drafts for ${userEmail}`,
+    );
+    return this.getDrafts(userEmail);
+  }
+
+  private queuePush(user: User, draftId: string): Promise<void> {
+    const previous = this.pushes.get(draftId) ?? Promise.resolve();
+    const push = previous
+      .then(() => this.pushDraft(user, draftId))
+      .catch((error) => {
+        // Stays dirty and is pushed again on the next save or sync
+        console.error(`[DRAFTS] Failed to push draft ${draftId}:`, error);
+      })
+      .finally(() => {
+        if (this.pushes.get(draftId) === push) this.pushes.delete(draftId);
+      });
+    this.pushes.set(draftId, push);
+    return push;
+  }
+
+  private async pushDraft(user: User, draftId: string): Promise<void> {
+    const draft = await this.databaseService.getDraftById(draftId);
+    if (!draft || !draft.isDirty) return;
+
+    let externalId: string;
+    if (user.provider === AuthProvider.GOOGLE) {
+      externalId = await this.authClient.withAccessToken(user, (accessToken) =>
+        this.pushGmailDraft(accessToken, draft),
+      );
+    } else if (user.provider === AuthProvider.OUTLOOK) {
+      externalId = await this.authClient.withAccessToken(user, (accessToken) =>
+        this.pushOutlookDraft(accessToken, draft),
+      );
+    } else {
+      throw new Error("Unsupported email provider");
+    }
+
+    await this.databaseService.markDraftSynced(
+      draft.id,
+      externalId,
+      draft.updatedAt,
+    );
+  }
+
+  private async pushGmailDraft(
+    accessToken: string,
+    draft: Draft,
+  ): Promise<string> {
+    const gmail = gmailClientFromAccessToken(accessToken);
+
+    // Threading headers come from the message being answered
+    let inReplyTo: string | undefined;
+    let references: string[] = [];
+    if (draft.replyToMessageId) {
+      const original = await gmail.users.messages.get({
+        userId: "me",
+        id: draft.replyToMessageId,
+        format: "metadata",
+        metadataHeaders: ["Message-ID", "References"],
+      });
+      const header = (name: string) =>
+        original.data.payload?.headers?.find(
+          (h) => h.name?.toLowerCase() === name.toLowerCase(),
+        )?.value || undefined;
+      inReplyTo = header("Message-ID");
+      references = [
+        ...(header("References")?.split(/\s+/) || []),
+        ...(inReplyTo ? [inReplyTo] : []),
+      ];
+    }
+
+    // Images from the composer travel with the draft, so it reads the same
+    // in Gmail and is sent as is from there
+    const { html, images } = await this.inlineImageService.embedImages(
+      draft.body,
+    );
+    const raw = toBase64Url(
+      buildMimeMessage({
+        to: parseDraftAddresses(draft.to),
+        cc: parseDraftAddresses(draft.cc),
+        bcc: parseDraftAddresses(draft.bcc),
+        subject: draft.subject,
+        html,
+        inReplyTo,
+        references,
+        inlineImages: images,
+        isDraft: true,
+      }),
+    );
+    const requestBody = {
+      message: { raw, threadId: draft.threadId || undefined },
+    };
+
+    if (draft.externalId) {
+      try {
+        const updated = await gmail.users.drafts.update({
+          userId: "me",
+          id: draft.externalId,
+          requestBody,
+        });
+        return updated.data.id || draft.externalId;
+      } catch (error) {
+        // Discarded in another client while edited here, save it again
+        if (!isNotFoundError(error)) throw error;
+      }
+    }
+
+    const created = await gmail.users.drafts.create({
+      userId: "me",
+      requestBody,
+    });
+    if (!created.data.id) throw new Error("Gmail did not return a draft id");
+    return created.data.id;
+  }
+
+  private async pushOutlookDraft(
+    accessToken: string,
+    draft: Draft,
+  ): Promise<string> {
+    const client = graphClientFromAccessToken(accessToken);
+    const message = {
+      subject: draft.subject,
+      body: { contentType: "HTML", content: draft.body },
+      toRecipients: toGraphRecipients(parseDraftAddresses(draft.to)),
+      ccRecipients: toGraphRecipients(parseDraftAddresses(draft.cc)),
+      bccRecipients: toGraphRecipients(parseDraftAddresses(draft.bcc)),
+    };
+
+    if (draft.externalId) {
+      try {
+        await client.api(`/me/messages/${draft.externalId}`).patch(message);
+        return draft.externalId;
+      } catch (error) {
+        if (!isNotFoundError(error)) throw error;
+      }
+    }
+
+    // Replies and forwards start from Graph's own draft so they're threaded
+    // in Outlook. Later saves replace its quoted original, which sendDraft
+    // adds back by sending them as a live reply.
+    if (draft.replyToMessageId && draft.mode !== "new") {
+      const action = draft.mode === "forward" ? "createForward" : "createReply";
+      const { body, ...headers } = message;
+      const created = await client
+        .api(`/me/messages/${draft.replyToMessageId}/${action}`)
+        .post({ comment: body.content, message: headers });
+      return created.id;
+    }
+
+    const created = await client.api("/me/messages").post(message);
+    return created.id;
+  }
+
+  private async deleteProviderDraft(
+    user: User,
+    accessToken: string,
+    externalId: string,
+  ): Promise<void> {
+    if (user.provider === AuthProvider.GOOGLE) {
+      await gmailClientFromAccessToken(accessToken).users.drafts.delete({
+        userId: "me",
+        id: externalId,
+      });
+    } else if (user.provider === AuthProvider.OUTLOOK) {
+      await graphClientFromAccessToken(accessToken)
+        .api(`/me/messages/${externalId}`)
+        .delete();
+    } else {
+      throw new Error("Unsupported email provider");
+    }
+  }
+
+  private async fetchGmailDrafts(
+    accessToken: string,
+  ): Promise<ProviderDraft[]> {
+    const gmail = gmailClientFromAccessToken(accessToken);
+    const list = await gmail.users.drafts.list({
+      userId: "me",
+      maxResults: MAX_PROVIDER_DRAFTS,
+    });
+
+    const drafts: ProviderDraft[] = [];
+    for (const { id } of list.data.drafts || []) {
+      if (!id) continue;
+      const { data } = await gmail.users.drafts.get({
+        userId: "me",
+        id,
+        format: "full",
+      });
+      const payload = data.message?.payload;
+      const header = (name: string) =>
+        payload?.headers?.find(
+          (h) => h.name?.toLowerCase() === name.toLowerCase(),
+        )?.value || "";
+      const addresses = (name: string) =>
+        parseAddressList(header(name)).map((a) => a.email);
+
+      const html = findGmailPart(payload, "text/html");
+      const text = findGmailPart(payload, "text/plain");
+      const isReply = !!header("In-Reply-To");
+      drafts.push({
+        externalId: id,
+        mode: isReply ? "reply" : "new",
+        threadId: isReply ? data.message?.threadId || null : null,
+        to: addresses("To"),
+        cc: addresses("Cc"),
+        bcc: addresses("Bcc"),
+        subject: header("Subject"),
+        body: html ?? plainTextToDraftHtml(text || ""),
+        modifiedAt: new Date(Number(data.message?.internalDate || 0)),
+      });
+    }
+    return drafts;
+  }
+
+  private async fetchOutlookDrafts(
+    accessToken: string,
+  ): Promise<ProviderDraft[]> {
+    const client = graphClientFromAccessToken(accessToken);
+    const res = await client
+      .api("/me/mailFolders/drafts/messages")
+      .select(
+        "id,subject,body,toRecipients,ccRecipients,bccRecipients,lastModifiedDateTime",
+      )
+      .top(MAX_PROVIDER_DRAFTS)
+      .get();
+
+    // Graph drafts carry their threading themselves, so drafts started in
+    // Outlook resume as messages of their own and are sent from there
+    return (res.value || []).map(
+      (message: {
+        id: string;
+        subject?: string;
+        body?: { content?: string; contentType?: string };
+        toRecipients?: GraphRecipient[];
+        ccRecipients?: GraphRecipient[];
+        bccRecipients?: GraphRecipient[];
+        lastModifiedDateTime?: string;
+      }): ProviderDraft => ({
+        externalId: message.id,
+        mode: "new",
+        threadId: null,
+        to: fromGraphRecipients(message.toRecipients),
+        cc: fromGraphRecipients(message.ccRecipients),
+        bcc: fromGraphRecipients(message.bccRecipients),
+        subject: message.subject || "",
+        body:
+          message.body?.contentType?.toLowerCase() === "html"
+            ? message.body.content || ""
+            : plainTextToDraftHtml(message.body?.content || ""),
+        modifiedAt: new Date(message.lastModifiedDateTime || 0),
+      }),
+    );
+  }
+
+  private async findUser(userEmail: string) {
+    const user = await this.databaseService.findUserByEmail(userEmail);
+    if (!user) throw new Error("User not found");
+    return user;
+  }
+}
@@ -0,0 +1,109 @@
+import { randomBytes } from "crypto";
+
+import { DatabaseService } from "./database";
+import {
+  RemoteContentReport,
+  buildEmailViewDocument,
+  findRemoteResources,
+  getAllowedRemoteHosts,
+  getEmailViewPolicy,
+  getEmailViewUrl,
+  getRemoteContentReport,
+} from "../lib/email-view";
+
+// ---------------- Types ----------------
+
+export interface MessageView {
+  url: string; // email-view:// URL for the message's frame
+  senderEmail: string;
+  senderAllowed: boolean; // On the remote content allow-list
+  report: RemoteContentReport;
+}
+
+export interface RenderedMessage {
+  html: string;
+  policy: string; // Content-Security-Policy the document is served with
+}
+
+// ---------------- Service ----------------
+
+export class EmailViewService {
+  private databaseService: DatabaseService;
+
+  constructor() {
+    this.databaseService = new DatabaseService();
+  }
+
+  /**
+   * Where to load a message from, and what it loads. Remote content is
+   * let through for allowed senders, or when `loadRemote` asks for it once.
+   */
+  async getMessageView(
+    userEmail: string,
+    messageId: string,
+    loadRemote: boolean = false,
+  ): Promise<MessageView> {
+    const user = await this.findUser(userEmail);
+    const email = await this.databaseService.getEmailByExternalId(
+      user.id,
+      messageId,
+    );
+    if (!email) throw new Error("Message not found");
+
+    const senderAllowed = await this.databaseService.isRemoteContentSender(
+      user.id,
+      email.senderEmail,
+    );
+    const remoteLoaded = senderAllowed || loadRemote;
+    const resources = findRemoteResources(email.htmlBody ?? "");
+
+    return {
+      url: getEmailViewUrl(email.id, remoteLoaded),
+      senderEmail: email.senderEmail,
+      senderAllowed,
+      report: getRemoteContentReport(resources, remoteLoaded),
+    };
+  }
+
+  /**
+   * The message's document for its frame, with a policy of its own
+   */
+  async renderMessage(
+    emailId: string,
+    loadRemote: boolean,
+  ): Promise<RenderedMessage> {
+    const email = await this.databaseService.getEmailById(emailId);
+    if (!email) throw new Error("Message not found");
+
+    const remoteHosts = loadRemote
+      ? getAllowedRemoteHosts(findRemoteResources(email.htmlBody ?? ""))
+      : [];
+    // Fresh for every load, so nothing in the message can know it
+    const nonce = randomBytes(16).toString("base64");
+    const policy = getEmailViewPolicy(remoteHosts, nonce);
+
+    return { html: buildEmailViewDocument(email, policy, nonce), policy };
+  }
+
+  async setSenderRemoteContent(
+    userEmail: string,
+    senderEmail: string,
+    allowed: boolean,
+  ): Promise<void> {
+    const user = await this.findUser(userEmail);
+    if (allowed) {
+      await this.databaseService.addRemoteContentSender(user.id, senderEmail);
+    } else {
+      await this.databaseService.removeRemoteContentSender(
+        user.id,
+        senderEmail,
+      );
+    }
+  }
+
+  private async findUser(userEmail: string) {
+    const user = await this.databaseService.findUserByEmail(userEmail);
+    if (!user) throw new Error("User not found");
+    return user;
+  }
+}
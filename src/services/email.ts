@@ -1,5 +1,4 @@
-import { google, gmail_v1 } from "googleapis";
-import type { Auth } from "googleapis";
+import { gmail_v1 } from "googleapis";
 import { Client } from "@microsoft/microsoft-graph-client";
 
 import {
@@ -12,8 +11,96 @@ import {
   AuthProvider,
   EmailThread as PrismaEmailThread,
   Email,
+  PendingOperation,
+  User,
 } from "@prisma/client";
-import { generateLabels } from "../lib/generateLabels";
+import { ClassifiedLabel, classifyEmails } from "../lib/label-classifier";
+import { createOfflineModel } from "../lib/offline-model";
+import { plainTextToDraftHtml } from "../lib/drafts";
+import {
+  buildMimeMessage,
+  toBase64Url,
+  MimeAttachment,
+  MimeInlineImage,
+} from "../lib/mime";
+import { parseSearchQuery, isEmptySearchQuery } from "../lib/search-query";
+import {
+  AuthenticatedClientService,
+  gmailClientFromAccessToken,
+  graphClientFromAccessToken,
+} from "./authenticated-client";
+import { LlmSettingsService } from "./llm-settings";
+import { LabelService } from "./labels";
+import { findLabelColor, getLabelTextColor } from "../lib/label-colors";
+import {
+  MailRuleService,
+  MailRuleSettings,
+  buildRuleTarget,
+} from "./mail-rules";
+import { isEmptyActionPlan, planRuleActions } from "../lib/mail-rules";
+import { ContactService } from "./contacts";
+import { InlineImageService, toGraphInlineAttachment } from "./inline-images";
+import {
+  ImportancePreferences,
+  ImportanceResult,
+  ImportanceWeights,
+  SENDER_WINDOW_DAYS,
+  buildImportanceSignals,
+  normalizeImportanceWeights,
+  scoreImportance,
+  sortMessagesOldestFirst,
+} from "../lib/importance";
+import {
+  GMAIL_FULL_ACCESS_REQUIRED,
+  GMAIL_FULL_ACCESS_SCOPE,
+  MailFolder,
+  ThreadAction,
+  ThreadActionResult,
+  ThreadActionState,
+  applyThreadActionToState,
+  getGmailLabelChanges,
+  getUndoAction,
+  validateThreadAction,
+} from "../lib/thread-actions";
+import {
+  DEFAULT_SYNC_WINDOW,
+  INITIAL_SYNC_PAGE_SIZE,
+  InitialSyncProgress,
+  SyncWindow,
+  getGmailSyncWindowQuery,
+  getInitialSyncStatus,
+  getOutlookSyncWindowFilter,
+  isSyncWindow,
+} from "../lib/initial-sync";
+import {
+  getHttpStatus,
+  isTransientSyncError,
+  throwRetryableFailure,
+  withRequestRetry,
+} from "../lib/sync-scheduler";
+import {
+  PendingOperationData,
+  describePendingOperation,
+  getReplayDecision,
+  isGoneError,
+  parsePendingOperation,
+} from "../lib/pending-operations";
+import {
+  GMAIL_THREAD_BODY_FIELDS,
+  GMAIL_THREAD_METADATA_FIELDS,
+  GmailBatchError,
+  getGmailBatch,
+  getGmailThreadPath,
+} from "../lib/gmail-batch";
+import {
+  MailChangedEvent,
+  applyGmailLabelChange,
+  getGmailHistoryChanges,
+  getGmailReadChange,
+  OutlookFolderIds,
+  getOutlookFolderState,
+  getOutlookThreadState,
+} from "../lib/sync-changes";
 
 // ---------------- Types ----------------
 
@@ -24,12 +111,17 @@ interface OutlookMessageData {
   bodyPreview?: string;
   receivedDateTime: string;
   isRead: boolean;
+  isDraft?: boolean;
   importance: string;
   hasAttachments: boolean;
   from?: { emailAddress?: { name?: string; address?: string } };
   toRecipients?: Array<{ emailAddress?: { name?: string; address?: string } }>;
   body?: { content?: string; contentType?: string };
   categories?: string[];
+  unsubscribeEnabled?: boolean; // Set by Graph from List-Unsubscribe
+  flag?: { flagStatus?: string };
+  parentFolderId?: string;
+  internetMessageId?: string;
   "@odata.type"?: string;
   "@removed"?: unknown;
 }
@@ -43,8 +135,12 @@ export interface EmailThread {
   timestamp: Date;
   isRead: boolean;
   isImportant: boolean;
+  importanceScore?: number; // Set for stored threads
+  importanceReasons?: string[]; // Why the thread was scored as it was
+  isStarred?: boolean; // Set for stored threads
   hasAttachments: boolean;
   labels?: string[];
+  accountEmail?: string; // Owning account, set in the unified inbox
   messages?: EmailMessage[]; // Store individual messages for processing
 }
 
@@ -59,8 +155,10 @@ export interface EmailMessage {
   timestamp: Date;
   body: string;
   htmlBody?: string;
+  isBodyLoaded?: boolean; // False while body is Gmail's snippet, until opened
   attachments?: EmailAttachment[];
   isRead: boolean;
+  listUnsubscribe?: boolean; // Has a List-Unsubscribe header, used by label rules
 }
 
 export interface EmailAttachment {
@@ -71,34 +169,195 @@ export interface EmailAttachment {
   downloadUrl?: string;
 }
 
-// ---------------- Helpers: Clients ----------------
+export interface OutgoingAttachment {
+  filename: string;
+  mimeType: string;
+  size: number;
+  data: string; // base64 encoded data
+}
+
+// A page of an account's sync window, and where the next one starts
+interface InitialSyncPage {
+  emails: EmailThread[]; // Only those not stored yet
+  listed: number; // Threads on the page, stored or not
+  nextPageToken: string | null; // Null after the window's last page
+  total: number; // The provider's estimate for the window
+}
+
+// New mail an incremental sync fetched, and the stored threads (by external
+// id) it changed or removed
+interface IncrementalSyncResult {
+  newEmails: EmailThread[];
+  updatedThreadIds: string[];
+  deletedThreadIds: string[];
+  // Where the next sync picks up. Only stored once everything above is
+  // saved, so a failed sync fetches the same changes again.
+  syncState: { gmailHistoryId?: string; outlookDeltaToken?: string } | null;
+}
+
+// One round of loading Gmail bodies in the background. Failed threads are
+// skipped by the next rounds, so one that keeps failing doesn't hold up the
+// rest.
+export interface GmailBodyBackfillResult {
+  loaded: number; // Threads whose bodies were loaded
+  failedThreadIds: string[]; // Stored thread ids
+  hasMore: boolean;
+}
+
+// A message once sent: its provider id and the thread it's in. An Outlook
+// thread is its message, here the copy filed in Sent Items.
+export interface SentMessage {
+  messageId: string;
+  threadId: string;
+}
+
+// Everything a new message can carry besides its To line
+export interface SendEmailOptions {
+  cc?: string[];
+  bcc?: string[];
+  attachments?: OutgoingAttachment[];
+}
+
+export interface SendReplyData {
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  body: string; // HTML
+  threadId: string;
+  replyToMessageId: string;
+  attachments?: OutgoingAttachment[];
+  mode?: "reply" | "forward";
+}
+
+function parseImportanceReasons(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// The fields an action changes on a thread, before and after. Deleting for
+// good leaves the thread in the trash until the provider has done it.
+function getThreadActionChange(
+  previous: ThreadActionState,
+  action: ThreadAction,
+) {
+  const next =
+    action.type === "deleteForever"
+      ? { ...previous, isTrashed: true }
+      : applyThreadActionToState(previous, action);
+  const changed = (Object.keys(next) as (keyof ThreadActionState)[]).filter(
+    (key) => next[key] !== previous[key],
+  );
+  const pick = (state: ThreadActionState) =>
+    Object.fromEntries(
+      changed.map((key) => [key, state[key]]),
+    ) as Partial<ThreadActionState>;
+  return {
+    changed: changed.length > 0,
+    before: pick(previous),
+    after: pick(next),
+  };
+}
+
+function toGmailSentMessage(
+  message: gmail_v1.Schema$Message,
+): SentMessage | null {
+  return message.id && message.threadId
+    ? { messageId: message.id, threadId: message.threadId }
+    : null;
+}
 
-function gmailClientFromAccessToken(accessToken: string) {
-  const auth = new google.auth.OAuth2() as Auth.OAuth2Client;
-  auth.setCredentials({ access_token: accessToken });
-  return google.gmail({ version: "v1", auth });
+// How many recent threads a rescore looks at
+const RESCORE_THREAD_LIMIT = 1000;
+
+// Outlook files the sent copy of a message a moment after sending
+const SENT_COPY_ATTEMPTS = 5;
+const SENT_COPY_RETRY_MS = 2000;
+
+// Incremental sync reports provider changes to stored threads to everyone
+// showing them, whichever service instance ran it
+const mailChangedListeners = new Set<(event: MailChangedEvent) => void>();
+
+// One page of an account's initial sync at a time, whoever asks for it: the
+// first page on sign-in and the backfill can overlap
+const inFlightInitialSyncPages = new Map<
+  string,
+  Promise<{ newEmailsCount: number; totalEmailsCount: number }>
+>();
+
+// Incremental syncs of an account run one after another, whoever starts them
+// (the scheduler, follow-ups, the renderer), so two never read the same
+// history id or delta token
+const incrementalSyncQueues = new Map<string, Promise<unknown>>();
+
+// Changes queued by any service instance, for the worker that replays them
+const operationQueuedListeners = new Set<(userEmail: string) => void>();
+
+export function onOperationQueued(
+  listener: (userEmail: string) => void,
+): () => void {
+  operationQueuedListeners.add(listener);
+  return () => operationQueuedListeners.delete(listener);
 }
 
-function graphClientFromAccessToken(accessToken: string) {
-  return Client.init({
-    authProvider: (done) => done(null, accessToken),
-  });
+export function onMailChanged(
+  listener: (event: MailChangedEvent) => void,
+): () => void {
+  mailChangedListeners.add(listener);
+  return () => mailChangedListeners.delete(listener);
 }
 
 // ---------------- Service ----------------
 
 export class EmailService {
   private databaseService: DatabaseService;
+  private authClient: AuthenticatedClientService;
+  private llmSettingsService: LlmSettingsService;
+  private labelService: LabelService;
+  private mailRuleService: MailRuleService;
+  private contactService: ContactService;
+  private inlineImageService: InlineImageService;
 
   constructor() {
     console.log(`[EMAIL_SERVICE] Initializing EmailService`);
     this.databaseService = new DatabaseService();
+    this.authClient = new AuthenticatedClientService();
+    this.llmSettingsService = new LlmSettingsService();
+    this.labelService = new LabelService();
+    this.mailRuleService = new MailRuleService();
+    this.contactService = new ContactService();
+    this.inlineImageService = new InlineImageService();
     console.log(`[EMAIL_SERVICE] EmailService initialized successfully`);
   }
 
   async performIncrementalSync(
     userId: string,
     maxResults: number = 50,
+    onEmailSaved?: (email: EmailThread) => void,
+  ): Promise<{ newEmailsCount: number; totalEmailsCount: number }> {
+    const previous = incrementalSyncQueues.get(userId) ?? Promise.resolve();
+    const sync = previous
+      .catch(() => undefined)
+      .then(() => this.runIncrementalSync(userId, maxResults, onEmailSaved));
+    incrementalSyncQueues.set(userId, sync);
+    try {
+      return await sync;
+    } finally {
+      if (incrementalSyncQueues.get(userId) === sync) {
+        incrementalSyncQueues.delete(userId);
+      }
+    }
+  }
+
+  private async runIncrementalSync(
+    userId: string,
+    maxResults: number,
+    onEmailSaved?: (email: EmailThread) => void,
   ): Promise<{ newEmailsCount: number; totalEmailsCount: number }> {
     try {
       console.log(
@@ -107,28 +366,55 @@ export class EmailService {
       const user = await this.databaseService.findUserByEmail(userId);
       if (!user) throw new Error("User not found");
 
-      let newEmails: EmailThread[] = [];
+      let result: IncrementalSyncResult;
 
       if (user.provider === AuthProvider.GOOGLE) {
-        newEmails = await this.getGmailIncrementalSync(
-          user.accessToken,
-          user.id,
-          user.email,
-          maxResults,
+        result = await this.authClient.withAccessToken(user, (accessToken) =>
+          this.getGmailIncrementalSync(
+            accessToken,
+            user.id,
+            user.email,
+            maxResults,
+          ),
         );
       } else if (user.provider === AuthProvider.OUTLOOK) {
-        newEmails = await this.getOutlookIncrementalSync(
-          user.accessToken,
-          user.id,
-          user.email,
-          maxResults,
+        result = await this.authClient.withAccessToken(user, (accessToken) =>
+          this.getOutlookIncrementalSync(
+            accessToken,
+            user.id,
+            user.email,
+            maxResults,
+          ),
         );
       } else {
         throw new Error("Unsupported email provider");
       }
 
-      if (newEmails.length) {
-        await this.saveEmailsToDatabase(user.id, newEmails);
+      const { newEmails, updatedThreadIds, deletedThreadIds, syncState } =
+        result;
+      const unsaved = newEmails.length
+        ? await this.saveEmailsToDatabase(user.id, newEmails, onEmailSaved)
+        : 0;
+      if (unsaved) {
+        console.error(
+          `[INCREMENTAL_SYNC] ${unsaved} new threads weren't saved, fetching these changes again next time`,
+        );
+      } else if (syncState) {
+        await this.databaseService.updateUserSyncState(user.id, {
+          ...syncState,
+          lastSyncTime: new Date(),
+        });
+      }
+      if (updatedThreadIds.length || deletedThreadIds.length) {
+        console.log(
+          `[INCREMENTAL_SYNC] ${updatedThreadIds.length} threads changed and ${deletedThreadIds.length} removed in the provider`,
+        );
+        const event: MailChangedEvent = {
+          userEmail: user.email,
+          updatedThreadIds,
+          deletedThreadIds,
+        };
+        mailChangedListeners.forEach((listener) => listener(event));
       }
 
       return {
@@ -141,67 +427,133 @@ export class EmailService {
     }
   }
 
+  /**
+   * Fetches the newest page of the account's sync window while the user
+   * waits. The rest of the window is left to the background backfill.
+   */
   async performInitialSync(
     userId: string,
-    onProgress?: (progress: {
-      processed: number;
-      total: number;
-      currentEmail: string;
-    }) => void,
+    onProgress?: (progress: InitialSyncProgress) => void,
     onEmailProcessed?: (email: EmailThread) => void,
   ): Promise<{ newEmailsCount: number; totalEmailsCount: number }> {
     try {
       console.log(`[INITIAL_SYNC] Starting initial sync for user: ${userId}`);
-      const user = await this.databaseService.findUserByEmail(userId);
-      if (!user) throw new Error("User not found");
+      return await this.syncInitialSyncPage(
+        userId,
+        "recent",
+        onProgress,
+        onEmailProcessed,
+      );
+    } catch (error) {
+      console.error(`[INITIAL_SYNC] Error:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches and saves the next page of the account's sync window from its
+   * checkpoint, then moves the checkpoint on. Threads stored already, by
+   * other syncs or for an earlier window, aren't fetched again.
+   */
+  async syncInitialSyncPage(
+    userEmail: string,
+    phase: InitialSyncProgress["phase"],
+    onProgress?: (progress: InitialSyncProgress) => void,
+    onEmailSaved?: (email: EmailThread) => void,
+  ): Promise<{ newEmailsCount: number; totalEmailsCount: number }> {
+    const user = await this.databaseService.findUserByEmail(userEmail);
+    if (!user) throw new Error("User not found");
 
-      // Calculate date range for past 1 month
-      const oneMonthAgo = new Date();
-      oneMonthAgo.setMonth(oneMonthAgo.getMonth() - 1);
-      const dateFilter = oneMonthAgo.toISOString().split("T")[0]; // YYYY-MM-DD format
+    const pending = inFlightInitialSyncPages.get(user.id);
+    if (pending) return pending;
+
+    const page = this.fetchInitialSyncPage(
+      user,
+      phase,
+      onProgress,
+      onEmailSaved,
+    ).finally(() => inFlightInitialSyncPages.delete(user.id));
+    inFlightInitialSyncPages.set(user.id, page);
+    return page;
+  }
 
-      let allEmails: EmailThread[] = [];
+  private async fetchInitialSyncPage(
+    user: User,
+    phase: InitialSyncProgress["phase"],
+    onProgress?: (progress: InitialSyncProgress) => void,
+    onEmailSaved?: (email: EmailThread) => void,
+  ): Promise<{ newEmailsCount: number; totalEmailsCount: number }> {
+    const checkpoint = await this.databaseService.getInitialSyncCheckpoint(
+      user.id,
+    );
+    const status = getInitialSyncStatus(checkpoint);
+    if (status !== "syncing") {
+      console.log(
+        `[INITIAL_SYNC] Nothing to fetch for ${user.email}, ${status}`,
+      );
+      return {
+        newEmailsCount: 0,
+        totalEmailsCount: checkpoint.initialSyncProcessed,
+      };
+    }
 
-      if (user.provider === AuthProvider.GOOGLE) {
-        allEmails = await this.getGmailInitialSync(
-          user.accessToken,
+    const syncWindow = isSyncWindow(checkpoint.syncWindow)
+      ? checkpoint.syncWindow
+      : DEFAULT_SYNC_WINDOW;
+    const pageToken = checkpoint.initialSyncPageToken;
+    console.log(
+      `[INITIAL_SYNC] Fetching ${pageToken ? "the next" : "the first"} page of the last ${syncWindow} for ${user.email}`,
+    );
+
+    let page: InitialSyncPage;
+    if (user.provider === AuthProvider.GOOGLE) {
+      page = await this.authClient.withAccessToken(user, (accessToken) =>
+        this.getGmailInitialSyncPage(
+          accessToken,
           user.id,
           user.email,
-          dateFilter,
-          onProgress,
-        );
-      } else if (user.provider === AuthProvider.OUTLOOK) {
-        allEmails = await this.getOutlookInitialSync(
-          user.accessToken,
+          syncWindow,
+          pageToken,
+        ),
+      );
+    } else if (user.provider === AuthProvider.OUTLOOK) {
+      page = await this.authClient.withAccessToken(user, (accessToken) =>
+        this.getOutlookInitialSyncPage(
+          accessToken,
           user.id,
           user.email,
-          dateFilter,
-          onProgress,
-        );
-      } else {
-        throw new Error("Unsupported email provider");
-      }
-
-      if (allEmails.length) {
-        console.log(
-          `[INITIAL_SYNC] Saving ${allEmails.length} emails to database`,
-        );
-        // Pass the callback to send real-time updates as emails are saved
-        await this.saveEmailsToDatabase(user.id, allEmails, onEmailProcessed);
-      }
+          syncWindow,
+          pageToken,
+        ),
+      );
+    } else {
+      throw new Error("Unsupported email provider");
+    }
 
+    if (page.emails.length) {
       console.log(
-        `[INITIAL_SYNC] Completed initial sync for user: ${userId}, processed ${allEmails.length} emails`,
+        `[INITIAL_SYNC] Saving ${page.emails.length} emails to database`,
       );
+      await this.saveEmailsToDatabase(user.id, page.emails, onEmailSaved);
+    }
 
-      return {
-        newEmailsCount: allEmails.length,
-        totalEmailsCount: allEmails.length,
-      };
-    } catch (error) {
-      console.error(`[INITIAL_SYNC] Error:`, error);
-      throw error;
+    const processed = checkpoint.initialSyncProcessed + page.listed;
+    const saved = await this.databaseService.saveInitialSyncCheckpoint(
+      user.id,
+      checkpoint.syncWindow,
+      { pageToken: page.nextPageToken, processed },
+    );
+    if (saved) {
+      onProgress?.({
+        processed,
+        total: Math.max(page.total, processed),
+        currentEmail: page.emails[0]?.subject || "",
+        phase,
+        status: page.nextPageToken ? "syncing" : "complete",
+      });
     }
+
+    return { newEmailsCount: page.emails.length, totalEmailsCount: processed };
   }
 
   async getInboxEmailsFromDB(
@@ -227,6 +579,9 @@ export class EmailService {
       timestamp: t.timestamp,
       isRead: t.isRead,
       isImportant: t.isImportant,
+      importanceScore: t.importanceScore,
+      importanceReasons: parseImportanceReasons(t.importanceReasons),
+      isStarred: t.isStarred,
       hasAttachments: t.hasAttachments,
       labels: t.labels?.map((l) => l.label) || [],
     }));
@@ -239,6 +594,44 @@ export class EmailService {
     return { emails, hasMore: offset + emails.length < totalCount };
   }
 
+  async getUnifiedInboxFromDB(
+    userIds: string[],
+    limit: number = 25,
+    offset: number = 0,
+  ): Promise<{ emails: EmailThread[]; hasMore: boolean }> {
+    const users = (
+      await Promise.all(
+        userIds.map((email) => this.databaseService.findUserByEmail(email)),
+      )
+    ).filter((user): user is User => !!user);
+    if (users.length === 0) throw new Error("User not found");
+
+    const { threads, hasMore } =
+      await this.databaseService.getEmailThreadsByUsers(
+        users.map((user) => user.id),
+        limit,
+        offset,
+      );
+    const emails: EmailThread[] = threads.map((t) => ({
+      id: t.externalId,
+      subject: t.subject,
+      sender: t.sender,
+      senderEmail: t.senderEmail,
+      preview: t.preview,
+      timestamp: t.timestamp,
+      isRead: t.isRead,
+      isImportant: t.isImportant,
+      importanceScore: t.importanceScore,
+      importanceReasons: parseImportanceReasons(t.importanceReasons),
+      isStarred: t.isStarred,
+      hasAttachments: t.hasAttachments,
+      labels: t.labels?.map((l) => l.label) || [],
+      accountEmail: t.user.email,
+    }));
+
+    return { emails, hasMore };
+  }
+
   async getImportantEmailsFromDB(
     userId: string,
     limit: number = 25,
@@ -261,11 +654,14 @@ export class EmailService {
       timestamp: t.timestamp,
       isRead: t.isRead,
       isImportant: t.isImportant,
+      importanceScore: t.importanceScore,
+      importanceReasons: parseImportanceReasons(t.importanceReasons),
+      isStarred: t.isStarred,
       hasAttachments: t.hasAttachments,
       labels: t.labels?.map((l) => l.label) || [],
     }));
 
-    // For Important section, we only show what's in DB (last 1 month from initial sync)
+    // For Important section, we only show what's in DB (the account's sync window)
     const hasMore = emails.length === limit;
 
     return { emails, hasMore };
@@ -299,6 +695,9 @@ export class EmailService {
       timestamp: t.timestamp,
       isRead: t.isRead,
       isImportant: t.isImportant,
+      importanceScore: t.importanceScore,
+      importanceReasons: parseImportanceReasons(t.importanceReasons),
+      isStarred: t.isStarred,
       hasAttachments: t.hasAttachments,
       labels: t.labels?.map((l) => l.label) || [],
     }));
@@ -308,6 +707,43 @@ export class EmailService {
     return { emails, hasMore };
   }
 
+  async searchEmails(
+    userId: string,
+    query: string,
+    limit: number = 25,
+    offset: number = 0,
+  ): Promise<{ emails: EmailThread[]; hasMore: boolean }> {
+    const user = await this.databaseService.findUserByEmail(userId);
+    if (!user) throw new Error("User not found");
+
+    const parsed = parseSearchQuery(query);
+    if (isEmptySearchQuery(parsed)) return { emails: [], hasMore: false };
+
+    const { threads, hasMore } = await this.databaseService.searchEmailThreads(
+      user.id,
+      parsed,
+      limit,
+      offset,
+    );
+    const emails: EmailThread[] = threads.map((t) => ({
+      id: t.externalId,
+      subject: t.subject,
+      sender: t.sender,
+      senderEmail: t.senderEmail,
+      preview: t.preview,
+      timestamp: t.timestamp,
+      isRead: t.isRead,
+      isImportant: t.isImportant,
+      importanceScore: t.importanceScore,
+      importanceReasons: parseImportanceReasons(t.importanceReasons),
+      isStarred: t.isStarred,
+      hasAttachments: t.hasAttachments,
+      labels: t.labels?.map((l) => l.label) || [],
+    }));
+
+    return { emails, hasMore };
+  }
+
   async getInboxEmailsFromDB_OLD(
     userId: string,
     limit: number = 25,
@@ -331,6 +767,9 @@ export class EmailService {
       timestamp: t.timestamp,
       isRead: t.isRead,
       isImportant: t.isImportant,
+      importanceScore: t.importanceScore,
+      importanceReasons: parseImportanceReasons(t.importanceReasons),
+      isStarred: t.isStarred,
       hasAttachments: t.hasAttachments,
       labels: t.labels?.map((l) => l.label) || [],
     }));
@@ -346,115 +785,48 @@ export class EmailService {
 
   // --------------- Gmail (SDK) ---------------
 
-  private async getGmailInitialSync(
+  private async getGmailInitialSyncPage(
     accessToken: string,
     userId: string,
     userEmail: string,
-    dateFilter: string,
-    onProgress?: (progress: {
-      processed: number;
-      total: number;
-      currentEmail: string;
-    }) => void,
-  ): Promise<EmailThread[]> {
+    syncWindow: SyncWindow,
+    pageToken: string | null,
+  ): Promise<InitialSyncPage> {
     const gmail = gmailClientFromAccessToken(accessToken);
-    const emailThreads: EmailThread[] = [];
-
-    try {
-      console.log(
-        `[GMAIL_INITIAL_SYNC] Starting initial sync from ${dateFilter}`,
-      );
-
-      // First, get all thread IDs from the past month
-      let pageToken: string | undefined;
-      let totalThreads = 0;
-      const allThreadIds: string[] = [];
-
-      do {
-        const listRes = await gmail.users.threads.list({
-          userId: "me",
-          q: `after:${dateFilter}`,
-          maxResults: 100,
-          pageToken,
-        });
-
-        const threads = listRes.data.threads || [];
-        allThreadIds.push(...threads.map((t) => t.id!));
-        totalThreads += threads.length;
-        pageToken = listRes.data.nextPageToken || undefined;
 
-        console.log(
-          `[GMAIL_INITIAL_SYNC] Found ${totalThreads} threads so far...`,
-        );
-      } while (pageToken);
-
-      console.log(
-        `[GMAIL_INITIAL_SYNC] Total threads to process: ${totalThreads}`,
-      );
-
-      // Process threads in parallel batches
-      const batchSize = 5; // Smaller batch size for initial sync to avoid rate limits
-      const threadBatches = this.chunkArray(allThreadIds, batchSize);
-
-      for (
-        let batchIndex = 0;
-        batchIndex < threadBatches.length;
-        batchIndex++
-      ) {
-        const batch = threadBatches[batchIndex];
-        const batchPromises = batch.map(async (id) => {
-          try {
-            const res = await gmail.users.threads.get({
-              userId: "me",
-              id,
-              format: "full",
-            });
-            return this.parseGmailThread(res.data, userEmail);
-          } catch (error) {
-            console.error(
-              `[GMAIL_INITIAL_SYNC] Failed to fetch thread ${id}:`,
-              error,
-            );
-            return null;
-          }
-        });
-
-        const batchResults = await Promise.allSettled(batchPromises);
-        const validThreads = batchResults
-          .filter(
-            (result): result is PromiseFulfilledResult<EmailThread | null> =>
-              result.status === "fulfilled" && result.value !== null,
-          )
-          .map((result) => result.value)
-          .filter((thread): thread is EmailThread => thread !== null);
-
-        emailThreads.push(...validThreads);
-
-        // Report progress
-        const processed = Math.min((batchIndex + 1) * batchSize, totalThreads);
-        if (onProgress && validThreads.length > 0) {
-          onProgress({
-            processed,
-            total: totalThreads,
-            currentEmail: validThreads[0].subject || "Processing...",
-          });
-        }
-
-        // Add a small delay between batches to avoid rate limits
-        if (batchIndex < threadBatches.length - 1) {
-          await new Promise((resolve) => setTimeout(resolve, 100));
-        }
-      }
+    // Newest first, so the first page is the most recent mail
+    const listRes = await withRequestRetry(() =>
+      gmail.users.threads.list({
+        userId: "me",
+        q: getGmailSyncWindowQuery(syncWindow),
+        maxResults: INITIAL_SYNC_PAGE_SIZE,
+        pageToken: pageToken ?? undefined,
+      }),
+    );
+    const threadIds = (listRes.data.threads || [])
+      .map((t) => t.id)
+      .filter((id): id is string => !!id);
+    const stored = await this.databaseService.getStoredThreadExternalIds(
+      userId,
+      threadIds,
+    );
 
-      console.log(
-        `[GMAIL_INITIAL_SYNC] Completed processing ${emailThreads.length} threads`,
-      );
-    } catch (error) {
-      console.error(`[GMAIL_INITIAL_SYNC] Error:`, error);
-      throw error;
-    }
+    const emailThreads = await this.getGmailThreadsMetadata(
+      accessToken,
+      userEmail,
+      threadIds.filter((id) => !stored.has(id)),
+      "GMAIL_INITIAL_SYNC",
+    );
 
-    return emailThreads;
+    console.log(
+      `[GMAIL_INITIAL_SYNC] Fetched ${emailThreads.length} of ${threadIds.length} threads, the rest were stored`,
+    );
+    return {
+      emails: emailThreads,
+      listed: threadIds.length,
+      nextPageToken: listRes.data.nextPageToken || null,
+      total: listRes.data.resultSizeEstimate ?? 0,
+    };
   }
 
   private async getGmailIncrementalSync(
@@ -462,140 +834,126 @@ export class EmailService {
     userId: string,
     userEmail: string,
     maxResults: number = 50,
-  ): Promise<EmailThread[]> {
+  ): Promise<IncrementalSyncResult> {
     const gmail = gmailClientFromAccessToken(accessToken);
 
     // Current historyId
-    const profile = await gmail.users.getProfile({ userId: "me" });
+    const profile = await withRequestRetry(() =>
+      gmail.users.getProfile({ userId: "me" }),
+    );
     const currentHistoryId = profile.data.historyId;
 
     const syncState = await this.databaseService.getUserSyncState(userId);
     const lastHistoryId = syncState.gmailHistoryId;
 
     const emailThreads: EmailThread[] = [];
+    const updatedThreadIds = new Set<string>();
+    const deletedThreadIds = new Set<string>();
 
     if (!lastHistoryId) {
       // First-time: list recent INBOX threads
-      const list = await gmail.users.threads.list({
-        userId: "me",
-        q: "in:inbox",
-        maxResults,
-      });
-      const threads = list.data.threads || [];
+      const list = await withRequestRetry(() =>
+        gmail.users.threads.list({
+          userId: "me",
+          q: "in:inbox",
+          maxResults,
+        }),
+      );
+      const threadIds = (list.data.threads || [])
+        .map((t) => t.id)
+        .filter((id): id is string => !!id);
+      emailThreads.push(
+        ...(await this.getGmailThreadsMetadata(
+          accessToken,
+          userEmail,
+          threadIds,
+          "GMAIL_INC_SYNC",
+        )),
+      );
+    } else {
+      // Incremental via history.list, every page of it
+      const history: gmail_v1.Schema$History[] = [];
+      let pageToken: string | undefined;
+      do {
+        const hist = await withRequestRetry(() =>
+          gmail.users.history.list({
+            userId: "me",
+            startHistoryId: lastHistoryId,
+            historyTypes: [
+              "messageAdded",
+              "messageDeleted",
+              "labelAdded",
+              "labelRemoved",
+            ],
+            pageToken,
+          }),
+        );
+        history.push(...(hist.data.history || []));
+        pageToken = hist.data.nextPageToken || undefined;
+      } while (pageToken);
 
-      // Process threads in parallel batches
-      const batchSize = 10;
-      const threadBatches = this.chunkArray(threads, batchSize);
+      const { addedThreadIds, changes } = getGmailHistoryChanges(history);
+      const threadIdsToFetch = new Set(addedThreadIds);
 
-      for (const batch of threadBatches) {
-        const batchPromises = batch.map(async (t) => {
-          if (!t.id) return null;
-          try {
-            const res = await gmail.users.threads.get({
-              userId: "me",
-              id: t.id,
-              format: "full",
-            });
-            return this.parseGmailThread(res.data, userEmail);
-          } catch (error) {
-            console.error(
-              `[GMAIL_INC_SYNC] Failed to fetch thread ${t.id}:`,
-              error,
-            );
-            return null;
+      // Changes to stored messages are applied as they are, without
+      // fetching (and classifying) their threads again
+      for (const change of changes) {
+        if (change.type === "deleted") {
+          const deleted = await this.databaseService.deleteEmailMessage(
+            userId,
+            change.messageId,
+          );
+          if (deleted?.threadDeleted) deletedThreadIds.add(change.threadId);
+          else if (deleted) updatedThreadIds.add(change.threadId);
+          continue;
+        }
+
+        const thread = await this.databaseService.getEmailThreadByExternalId(
+          userId,
+          change.threadId,
+        );
+        if (!thread) {
+          // Mail moved back into the inbox that was never synced
+          if (change.added.includes("INBOX")) {
+            threadIdsToFetch.add(change.threadId);
           }
-        });
+          continue;
+        }
 
-        const batchResults = await Promise.allSettled(batchPromises);
-        const validThreads = batchResults
-          .filter(
-            (result): result is PromiseFulfilledResult<EmailThread | null> =>
-              result.status === "fulfilled" && result.value !== null,
-          )
-          .map((result) => result.value)
-          .filter((thread): thread is EmailThread => thread !== null);
-
-        emailThreads.push(...validThreads);
-      }
-    } else {
-      // Incremental via history.list
-      const hist = await gmail.users.history.list({
-        userId: "me",
-        startHistoryId: lastHistoryId,
-        historyTypes: ["messageAdded", "labelAdded", "labelRemoved"],
-      });
-
-      const history = hist.data.history || [];
-      const allThreadIds: string[] = [];
-
-      for (const rec of history) {
-        // Handle message additions
-        const adds = rec.messagesAdded || [];
-        for (const add of adds) {
-          const id = add.message?.threadId;
-          if (id) allThreadIds.push(id);
-        }
-
-        // Handle label changes
-        const labelsAdded = rec.labelsAdded || [];
-        for (const labelAdd of labelsAdded) {
-          const id = labelAdd.message?.threadId;
-          if (id) allThreadIds.push(id);
-        }
-
-        const labelsRemoved = rec.labelsRemoved || [];
-        for (const labelRemove of labelsRemoved) {
-          const id = labelRemove.message?.threadId;
-          if (id) allThreadIds.push(id);
-        }
-      }
-
-      // Remove duplicates from thread IDs
-      const uniqueThreadIds = Array.from(new Set(allThreadIds));
-
-      // Process all thread IDs in parallel batches
-      const batchSize = 10;
-      const threadBatches = this.chunkArray(uniqueThreadIds, batchSize);
-
-      for (const batch of threadBatches) {
-        const batchPromises = batch.map(async (id) => {
-          try {
-            const res = await gmail.users.threads.get({
-              userId: "me",
-              id,
-              format: "full",
-            });
-            return this.parseGmailThread(res.data, userEmail);
-          } catch (error) {
-            console.error(
-              `[GMAIL_INC_SYNC] Failed to fetch thread ${id}:`,
-              error,
-            );
-            return null;
+        const isRead = getGmailReadChange(change);
+        if (isRead !== null) {
+          const email = await this.databaseService.updateEmailReadStatus(
+            userId,
+            change.messageId,
+            isRead,
+          );
+          if (email) {
+            await this.databaseService.refreshEmailThreadReadState(thread.id);
           }
-        });
-
-        const batchResults = await Promise.allSettled(batchPromises);
-        const validThreads = batchResults
-          .filter(
-            (result): result is PromiseFulfilledResult<EmailThread | null> =>
-              result.status === "fulfilled" && result.value !== null,
-          )
-          .map((result) => result.value)
-          .filter((thread): thread is EmailThread => thread !== null);
-
-        emailThreads.push(...validThreads);
+        }
+        await this.databaseService.updateEmailThreadState(
+          thread.id,
+          applyGmailLabelChange(thread, change.added, change.removed),
+        );
+        updatedThreadIds.add(change.threadId);
       }
-    }
 
-    if (currentHistoryId) {
-      await this.databaseService.updateUserSyncState(userId, {
-        gmailHistoryId: currentHistoryId,
-        lastSyncTime: new Date(),
-      });
+      emailThreads.push(
+        ...(await this.getGmailThreadsMetadata(
+          accessToken,
+          userEmail,
+          [...threadIdsToFetch],
+          "GMAIL_INC_SYNC",
+        )),
+      );
     }
 
-    return emailThreads;
+    return {
+      newEmails: emailThreads,
+      updatedThreadIds: [...updatedThreadIds],
+      deletedThreadIds: [...deletedThreadIds],
+      syncState: currentHistoryId ? { gmailHistoryId: currentHistoryId } : null,
+    };
   }
 
   private async getGmailInbox(
@@ -613,44 +971,224 @@ export class EmailService {
       pageToken,
     });
 
-    const threads = list.data.threads || [];
+    const threadIds = (list.data.threads || [])
+      .map((t) => t.id)
+      .filter((id): id is string => !!id);
     const nextPageToken = list.data.nextPageToken;
+    const emailThreads = await this.getGmailThreadsMetadata(
+      accessToken,
+      userEmail,
+      threadIds,
+      "GMAIL_INBOX",
+    );
+
+    emailThreads.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    return { emails: emailThreads, nextPageToken: nextPageToken || undefined };
+  }
+
+  /**
+   * Threads without their bodies, through the batch endpoint. Each message's
+   * body is its snippet until the thread is opened or its body is loaded in
+   * the background, see loadGmailBodies and loadGmailBodiesInBackground.
+   */
+  private async getGmailThreadsMetadata(
+    accessToken: string,
+    userEmail: string,
+    threadIds: string[],
+    logPrefix: string,
+  ): Promise<EmailThread[]> {
+    const results = await getGmailBatch<gmail_v1.Schema$Thread>(
+      accessToken,
+      threadIds.map((id) =>
+        getGmailThreadPath(id, GMAIL_THREAD_METADATA_FIELDS),
+      ),
+    );
 
-    // Process threads in parallel batches of 10 to avoid rate limiting
-    const batchSize = 10;
-    const threadBatches = this.chunkArray(threads, batchSize);
     const emailThreads: EmailThread[] = [];
+    results.forEach((result, index) => {
+      if (result instanceof GmailBatchError) {
+        console.error(
+          `[${logPrefix}] Failed to fetch thread ${threadIds[index]}:`,
+          result,
+        );
+        return;
+      }
+      const thread = this.parseGmailThread(result, userEmail, false);
+      if (thread) emailThreads.push(thread);
+    });
+    return emailThreads;
+  }
 
-    for (const batch of threadBatches) {
-      const batchPromises = batch.map(async (t) => {
-        if (!t.id) return null;
-        try {
-          const thread = await gmail.users.threads.get({
-            userId: "me",
-            id: t.id,
-            format: "full",
-          });
-          return this.parseGmailThread(thread.data, userEmail);
-        } catch (error) {
-          console.error(`[GMAIL_INBOX] Failed to fetch thread ${t.id}:`, error);
-          return null;
+  // Fetch the bodies sync left out, for the thread being opened
+  private async loadGmailBodies(
+    user: User,
+    threadExternalId: string,
+    messageIds: Set<string>,
+  ): Promise<Map<string, EmailMessage>> {
+    const res = await this.authClient.withAccessToken(user, (accessToken) =>
+      gmailClientFromAccessToken(accessToken).users.threads.get({
+        userId: "me",
+        id: threadExternalId,
+        format: "full",
+        fields: GMAIL_THREAD_BODY_FIELDS,
+      }),
+    );
+
+    const loaded = new Map<string, EmailMessage>();
+    for (const messageData of res.data.messages || []) {
+      if (!messageData.id || !messageIds.has(messageData.id)) continue;
+      const message = this.parseGmailMessageContent(messageData);
+      await this.databaseService.updateEmailBody(
+        user.id,
+        message.id,
+        message.body,
+        message.htmlBody,
+      );
+      loaded.set(message.id, message);
+    }
+    return loaded;
+  }
+
+  /**
+   * Loads the bodies sync left out for the account's newest threads, through
+   * the batch endpoint, so they can be searched offline. Their messages are
+   * classified again on the whole body. Threads in `skipThreadIds` failed
+   * before and are left for later.
+   */
+  async loadGmailBodiesInBackground(
+    userEmail: string,
+    maxThreads: number,
+    skipThreadIds: string[] = [],
+  ): Promise<GmailBodyBackfillResult> {
+    const done: GmailBodyBackfillResult = {
+      loaded: 0,
+      failedThreadIds: [],
+      hasMore: false,
+    };
+    const user = await this.databaseService.findUserByEmail(userEmail);
+    if (!user || user.provider !== AuthProvider.GOOGLE) return done;
+
+    const threads = (
+      await this.databaseService.getThreadsWithUnloadedBodies(
+        user.id,
+        maxThreads + skipThreadIds.length + 1,
+      )
+    ).filter((thread) => !skipThreadIds.includes(thread.id));
+    const batch = threads.slice(0, maxThreads);
+    if (!batch.length) return done;
+
+    const results = await this.authClient.withAccessToken(user, (accessToken) =>
+      getGmailBatch<gmail_v1.Schema$Thread>(
+        accessToken,
+        batch.map((thread) =>
+          getGmailThreadPath(thread.externalId, GMAIL_THREAD_BODY_FIELDS),
+        ),
+      ),
+    );
+
+    // 1) Replace the snippets, which also indexes the bodies for search
+    const loaded: { thread: PrismaEmailThread; messages: EmailMessage[] }[] =
+      [];
+    const failedThreadIds: string[] = [];
+    for (const [index, result] of results.entries()) {
+      const thread = batch[index];
+      if (result instanceof GmailBatchError) {
+        console.error(
+          `[EMAIL_SERVICE] Failed to load bodies for thread ${thread.externalId}:`,
+          result,
+        );
+        failedThreadIds.push(thread.id);
+        continue;
+      }
+
+      const stored = await this.databaseService.getEmailsByThreadId(
+        thread.id,
+        user.id,
+      );
+      const unloaded = new Set(
+        stored
+          .filter((email) => !email.isBodyLoaded)
+          .map((email) => email.externalId),
+      );
+      const messages: EmailMessage[] = [];
+      for (const messageData of result.messages || []) {
+        if (!messageData.id || !unloaded.has(messageData.id)) continue;
+        const message = this.parseGmailMessageContent(messageData);
+        await this.databaseService.updateEmailBody(
+          user.id,
+          message.id,
+          message.body,
+          message.htmlBody,
+        );
+        unloaded.delete(message.id);
+        messages.push(message);
+      }
+      // Messages gone from the thread are removed by the next sync
+      if (unloaded.size) failedThreadIds.push(thread.id);
+      loaded.push({ thread, messages });
+    }
+
+    // 2) Classify again, now on the bodies, and rescore importance
+    const classifications = await this.classifyMessages(
+      user.id,
+      loaded.flatMap(({ messages }) => messages),
+    );
+    const updatedThreadIds: string[] = [];
+    for (const { thread, messages } of loaded) {
+      try {
+        const dropped = new Set<string>();
+        const labels = new Set<string>();
+        for (const message of messages) {
+          const email = await this.databaseService.getEmailByExternalId(
+            user.id,
+            message.id,
+          );
+          if (!email) continue;
+          const classified = classifications.get(message.id) || [];
+          const removed =
+            await this.databaseService.replaceClassifiedEmailLabels(
+              email.id,
+              classified,
+            );
+          removed.forEach((label) => dropped.add(label));
+          classified.forEach((l) => labels.add(l.label));
         }
-      });
 
-      const batchResults = await Promise.allSettled(batchPromises);
-      const validThreads = batchResults
-        .filter(
-          (result): result is PromiseFulfilledResult<EmailThread | null> =>
-            result.status === "fulfilled" && result.value !== null,
-        )
-        .map((result) => result.value)
-        .filter((thread): thread is EmailThread => thread !== null);
+        // A thread's labels are its messages', so one goes once none has it
+        const remaining = new Set(
+          (
+            await this.databaseService.getEmailsByThreadId(thread.id, user.id)
+          ).flatMap((email) => email.labels.map((l) => l.label)),
+        );
+        await this.databaseService.addEmailThreadLabels(thread.id, [...labels]);
+        await this.databaseService.removeEmailThreadLabels(
+          thread.id,
+          [...dropped].filter((label) => !remaining.has(label)),
+        );
+        await this.updateThreadImportance(user.id, thread.externalId);
+        updatedThreadIds.push(thread.externalId);
+      } catch (error) {
+        console.error(
+          `[EMAIL_SERVICE] Failed to relabel thread ${thread.externalId}:`,
+          error,
+        );
+      }
+    }
 
-      emailThreads.push(...validThreads);
+    if (updatedThreadIds.length) {
+      const event: MailChangedEvent = {
+        userEmail: user.email,
+        updatedThreadIds,
+        deletedThreadIds: [],
+      };
+      mailChangedListeners.forEach((listener) => listener(event));
     }
 
-    emailThreads.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-    return { emails: emailThreads, nextPageToken: nextPageToken || undefined };
+    return {
+      loaded: loaded.length,
+      failedThreadIds,
+      hasMore: threads.length > batch.length,
+    };
   }
 
   private async getGmailMessage(
@@ -680,12 +1218,20 @@ export class EmailService {
 
   // ---------- NEW: Efficient label ensure + batch modify ----------
 
-  /** Ensure a set of label names exist and return a name -> id map. */
+  /**
+   * Ensure a set of label names exist and return a name -> id map. Labels in
+   * `colors` (name -> palette hex) are created with, or updated to, that colour.
+   */
   private async ensureGmailLabels(
     accessToken: string,
     labelNames: string[],
+    colors: Map<string, string> = new Map(),
   ): Promise<Map<string, string>> {
     const gmail = gmailClientFromAccessToken(accessToken);
+    const toGmailColor = (hex: string) => ({
+      backgroundColor: hex,
+      textColor: getLabelTextColor(hex),
+    });
 
     // Fetch once
     const res = await gmail.users.labels.list({ userId: "me" });
@@ -694,10 +1240,22 @@ export class EmailService {
       if (l.name && l.id) existing.set(l.name, l.id);
     });
 
+    // Recolour existing labels whose colour changed
+    for (const label of res.data.labels || []) {
+      const hex = label.name ? colors.get(label.name) : undefined;
+      if (!hex || !label.id || label.color?.backgroundColor === hex) continue;
+      await gmail.users.labels.patch({
+        userId: "me",
+        id: label.id,
+        requestBody: { color: toGmailColor(hex) },
+      });
+    }
+
     const missing = labelNames.filter((n) => !existing.has(n));
 
     // Create missing labels (no batch create in Gmail API)
     for (const name of missing) {
+      const hex = colors.get(name);
       try {
         const created = await gmail.users.labels.create({
           userId: "me",
@@ -705,6 +1263,7 @@ export class EmailService {
             name,
             labelListVisibility: "labelShow",
             messageListVisibility: "show",
+            ...(hex ? { color: toGmailColor(hex) } : {}),
           },
         });
         if (created.data.name && created.data.id) {
@@ -851,6 +1410,37 @@ export class EmailService {
     }
   }
 
+  /**
+   * Create or recolour the Gmail label / Outlook category backing a custom
+   * label so it shows up in the provider's own clients too
+   */
+  async syncCustomLabel(
+    userEmail: string,
+    name: string,
+    color: string,
+  ): Promise<void> {
+    const user = await this.databaseService.findUserByEmail(userEmail);
+    if (!user) throw new Error("User not found");
+
+    const providerName = `ZEROHANDS_${name.toUpperCase()}`;
+    if (user.provider === AuthProvider.GOOGLE) {
+      await this.authClient.withAccessToken(user, (accessToken) =>
+        this.ensureGmailLabels(
+          accessToken,
+          [providerName],
+          new Map([[providerName, color]]),
+        ),
+      );
+    } else if (user.provider === AuthProvider.OUTLOOK) {
+      await this.authClient.withAccessToken(user, (accessToken) =>
+        this.ensureOutlookCategory(accessToken, providerName, color),
+      );
+    }
+    console.log(
+      `[EMAIL_SERVICE] Synced custom label ${providerName} for ${userEmail}`,
+    );
+  }
+
   // ---------- Existing helpers kept for compatibility ----------
 
   // Use the new batcher (single-thread wrapper)
@@ -871,9 +1461,41 @@ export class EmailService {
     subject: string,
     body: string,
     isHtml: boolean = false,
-  ): Promise<void> {
+    inlineImages: MimeInlineImage[] = [],
+    options: SendEmailOptions = {},
+  ): Promise<SentMessage | null> {
     const gmail = gmailClientFromAccessToken(accessToken);
 
+    if (
+      inlineImages.length > 0 ||
+      options.cc?.length ||
+      options.bcc?.length ||
+      options.attachments?.length
+    ) {
+      const res = await gmail.users.messages.send({
+        userId: "me",
+        requestBody: {
+          raw: toBase64Url(
+            buildMimeMessage({
+              to: to.split(",").map((address) => address.trim()),
+              cc: options.cc,
+              bcc: options.bcc,
+              subject,
+              html: isHtml ? body : plainTextToDraftHtml(body),
+              text: isHtml ? undefined : body,
+              attachments: (options.attachments || []).map((att) => ({
+                filename: att.filename,
+                mimeType: att.mimeType,
+                data: att.data,
+              })),
+              inlineImages,
+            }),
+          ),
+        },
+      });
+      return toGmailSentMessage(res.data);
+    }
+
     const rfc822 = [
       `To: ${to}`,
       `Subject: ${subject}`,
@@ -888,10 +1510,117 @@ export class EmailService {
       .replace(/\//g, "_")
       .replace(/=+$/, "");
 
-    await gmail.users.messages.send({
+    const res = await gmail.users.messages.send({
       userId: "me",
       requestBody: { raw },
     });
+    return toGmailSentMessage(res.data);
+  }
+
+  private async sendGmailReply(
+    accessToken: string,
+    data: SendReplyData,
+    inlineImages: MimeInlineImage[] = [],
+  ): Promise<SentMessage | null> {
+    const gmail = gmailClientFromAccessToken(accessToken);
+    const isForward = data.mode === "forward";
+
+    // Threading headers (and for forwards, the body and attachments) come
+    // from the message being answered
+    const original = await gmail.users.messages.get({
+      userId: "me",
+      id: data.replyToMessageId,
+      format: isForward ? "full" : "metadata",
+      metadataHeaders: ["Message-ID", "References"],
+    });
+    const payload = original.data.payload;
+    const header = (name: string) =>
+      payload?.headers?.find(
+        (h) => h.name?.toLowerCase() === name.toLowerCase(),
+      )?.value || undefined;
+
+    const originalMessageId = header("Message-ID");
+    const references = [
+      ...(header("References")?.split(/\s+/) || []),
+      ...(originalMessageId ? [originalMessageId] : []),
+    ];
+
+    let html = data.body;
+    const attachments: MimeAttachment[] = (data.attachments || []).map(
+      (att) => ({
+        filename: att.filename,
+        mimeType: att.mimeType,
+        data: att.data,
+      }),
+    );
+
+    if (isForward) {
+      html += this.buildGmailForwardQuote(payload, header);
+
+      for (const att of this.extractGmailAttachments(payload)) {
+        const response = await gmail.users.messages.attachments.get({
+          userId: "me",
+          messageId: data.replyToMessageId,
+          id: att.id,
+        });
+        if (!response.data.data) continue;
+        attachments.push({
+          filename: att.filename,
+          mimeType: att.mimeType,
+          // Gmail returns attachment data as base64url encoded
+          data: response.data.data.replace(/-/g, "+").replace(/_/g, "/"),
+        });
+      }
+    }
+
+    const raw = toBase64Url(
+      buildMimeMessage({
+        to: data.to,
+        cc: data.cc,
+        bcc: data.bcc,
+        subject: data.subject,
+        html,
+        inReplyTo: originalMessageId,
+        references,
+        attachments,
+        inlineImages,
+      }),
+    );
+
+    const res = await gmail.users.messages.send({
+      userId: "me",
+      requestBody: { raw, threadId: data.threadId },
+    });
+    return toGmailSentMessage(res.data);
+  }
+
+  private buildGmailForwardQuote(
+    payload: gmail_v1.Schema$MessagePart | undefined,
+    header: (name: string) => string | undefined,
+  ): string {
+    const escape = (value: string) =>
+      value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+
+    const originalHtml =
+      this.extractGmailHtmlBody(payload) ||
+      escape(this.extractGmailBody(payload)).replace(/\n/g, "<br>");
+
+    const meta = [
+      ["From", header("From")],
+      ["Date", header("Date")],
+      ["Subject", header("Subject")],
+      ["To", header("To")],
+      ["Cc", header("Cc")],
+    ]
+      .filter(([, value]) => value)
+      .map(([label, value]) => `${label}: ${escape(value as string)}<br>`)
+      .join("");
+
+    return `<br><br><div class="gmail_quote">---------- Forwarded message ---------<br>${meta}<br>${originalHtml}</div>`;
   }
 
   async setupGmailPushNotifications(userId: string): Promise<void> {
@@ -908,131 +1637,100 @@ export class EmailService {
       ? projectId
       : `projects/${projectId}/topics/gmail-notifications`;
 
-    const gmail = gmailClientFromAccessToken(user.accessToken);
-    await gmail.users.watch({
-      userId: "me",
-      requestBody: {
-        topicName,
-        labelIds: ["INBOX"],
-        labelFilterAction: "include",
-      },
+    await this.authClient.withAccessToken(user, async (accessToken) => {
+      const gmail = gmailClientFromAccessToken(accessToken);
+      await gmail.users.watch({
+        userId: "me",
+        requestBody: {
+          topicName,
+          labelIds: ["INBOX"],
+          labelFilterAction: "include",
+        },
+      });
     });
   }
 
   // --------------- Outlook / Microsoft Graph (SDK) ---------------
 
-  private async getOutlookInitialSync(
+  private async getOutlookInitialSyncPage(
     accessToken: string,
     userId: string,
     userEmail: string,
-    dateFilter: string,
-    onProgress?: (progress: {
-      processed: number;
-      total: number;
-      currentEmail: string;
-    }) => void,
-  ): Promise<EmailThread[]> {
+    syncWindow: SyncWindow,
+    pageToken: string | null,
+  ): Promise<InitialSyncPage> {
     const client = graphClientFromAccessToken(accessToken);
-    const emailThreads: EmailThread[] = [];
 
-    try {
-      console.log(
-        `[OUTLOOK_INITIAL_SYNC] Starting initial sync from ${dateFilter}`,
+    // Newest first; the page token is the nextLink Graph gave for the page
+    let messages;
+    if (pageToken) {
+      messages = await withRequestRetry(() => client.api(pageToken).get());
+    } else {
+      const request = client
+        .api("/me/messages")
+        .orderby("receivedDateTime desc")
+        .top(INITIAL_SYNC_PAGE_SIZE)
+        .count(true);
+      const filter = getOutlookSyncWindowFilter(syncWindow);
+      messages = await withRequestRetry(() =>
+        (filter ? request.filter(filter) : request).get(),
       );
+    }
 
-      // Get all messages from the past month
-      let skip = 0;
-      const pageSize = 50;
-      let hasMore = true;
-      let totalProcessed = 0;
-
-      while (hasMore) {
-        const messages = await client
-          .api("/me/messages")
-          .filter(`receivedDateTime ge ${dateFilter}T00:00:00Z`)
-          .top(pageSize)
-          .skip(skip)
-          .get();
-
-        const messageList = messages.value || [];
-        if (messageList.length === 0) {
-          hasMore = false;
-          break;
-        }
-
-        console.log(
-          `[OUTLOOK_INITIAL_SYNC] Processing batch ${Math.floor(skip / pageSize) + 1}, ${messageList.length} messages`,
-        );
-
-        // Process messages in parallel batches
-        const batchSize = 10;
-        const messageBatches = this.chunkArray(messageList, batchSize);
-
-        for (
-          let batchIndex = 0;
-          batchIndex < messageBatches.length;
-          batchIndex++
-        ) {
-          const batch = messageBatches[batchIndex];
-          const batchPromises = batch.map(async (message) => {
-            try {
-              return await this.parseOutlookMessage(
-                message as OutlookMessageData,
-                accessToken,
-                userEmail,
-              );
-            } catch (error) {
-              console.error(
-                `[OUTLOOK_INITIAL_SYNC] Failed to parse message ${
-                  (message as OutlookMessageData).id
-                }:`,
-                error,
-              );
-              return null;
-            }
-          });
+    const messageList: OutlookMessageData[] = messages.value || [];
+    const stored = await this.databaseService.getStoredThreadExternalIds(
+      userId,
+      messageList.map((m) => m.id),
+    );
 
-          const batchResults = await Promise.allSettled(batchPromises);
-          const validThreads = batchResults
-            .filter(
-              (result): result is PromiseFulfilledResult<EmailThread | null> =>
-                result.status === "fulfilled" && result.value !== null,
-            )
-            .map((result) => result.value)
-            .filter((thread): thread is EmailThread => thread !== null);
-
-          emailThreads.push(...validThreads);
-          totalProcessed += batch.length;
-
-          // Report progress
-          if (onProgress && validThreads.length > 0) {
-            onProgress({
-              processed: totalProcessed,
-              total:
-                totalProcessed + (messages["@odata.nextLink"] ? pageSize : 0),
-              currentEmail: validThreads[0].subject || "Processing...",
-            });
-          }
+    // Process messages in parallel batches
+    const batchSize = 10;
+    const messageBatches = this.chunkArray(
+      messageList.filter((m) => !stored.has(m.id)),
+      batchSize,
+    );
+    const emailThreads: EmailThread[] = [];
 
-          // Add a small delay between batches to avoid rate limits
-          if (batchIndex < messageBatches.length - 1) {
-            await new Promise((resolve) => setTimeout(resolve, 100));
-          }
+    for (const batch of messageBatches) {
+      const batchPromises = batch.map(async (message) => {
+        try {
+          return await this.parseOutlookMessage(
+            message,
+            accessToken,
+            userEmail,
+          );
+        } catch (error) {
+          if (isTransientSyncError(error)) throw error;
+          console.error(
+            `[OUTLOOK_INITIAL_SYNC] Failed to parse message ${message.id}:`,
+            error,
+          );
+          return null;
         }
+      });
 
-        skip += pageSize;
-        hasMore = !!messages["@odata.nextLink"];
-      }
+      const batchResults = await Promise.allSettled(batchPromises);
+      throwRetryableFailure(batchResults);
+      const validThreads = batchResults
+        .filter(
+          (result): result is PromiseFulfilledResult<EmailThread | null> =>
+            result.status === "fulfilled" && result.value !== null,
+        )
+        .map((result) => result.value)
+        .filter((thread): thread is EmailThread => thread !== null);
 
-      console.log(
-        `[OUTLOOK_INITIAL_SYNC] Completed processing ${emailThreads.length} threads`,
-      );
-    } catch (error) {
-      console.error(`[OUTLOOK_INITIAL_SYNC] Error:`, error);
-      throw error;
+      emailThreads.push(...validThreads);
     }
 
-    return emailThreads;
+    console.log(
+      `[OUTLOOK_INITIAL_SYNC] Fetched ${emailThreads.length} of ${messageList.length} messages, the rest were stored`,
+    );
+    return {
+      emails: emailThreads,
+      listed: messageList.length,
+      nextPageToken: messages["@odata.nextLink"] || null,
+      total: messages["@odata.count"] ?? 0,
+    };
   }
 
   private async getOutlookIncrementalSync(
@@ -1040,59 +1738,173 @@ export class EmailService {
     userId: string,
     userEmail: string,
     maxResults: number = 50,
-  ): Promise<EmailThread[]> {
+  ): Promise<IncrementalSyncResult> {
     const client = graphClientFromAccessToken(accessToken);
     const syncState = await this.databaseService.getUserSyncState(userId);
     const lastDeltaToken = syncState.outlookDeltaToken;
 
-    if (!lastDeltaToken) {
-      const yesterday = new Date(Date.now() - 24 * 3600 * 1000).toISOString();
-      const data = await client
-        .api("/me/messages")
-        .filter(`receivedDateTime ge ${yesterday}`)
-        .orderby("receivedDateTime desc")
-        .top(maxResults)
-        .get();
-
-      const messages: OutlookMessageData[] = data.value || [];
-      const parsedMessages = await Promise.all(
-        messages.map((m) =>
-          this.parseOutlookMessage(m, accessToken, userEmail),
-        ),
-      );
-      return parsedMessages;
-    }
-
-    const delta = await client
-      .api("/me/messages/delta")
-      .query({ $deltatoken: lastDeltaToken })
-      .get();
+    // Message delta is per folder. Without a token yet, the first round
+    // starts from the last day, and its token picks up from there.
+    const deltaPath = "/me/mailFolders/inbox/messages/delta";
+    let delta = lastDeltaToken
+      ? await withRequestRetry(() =>
+          client.api(deltaPath).query({ $deltatoken: lastDeltaToken }).get(),
+        )
+      : await withRequestRetry(() =>
+          client
+            .api(deltaPath)
+            .filter(
+              `receivedDateTime ge ${new Date(Date.now() - 24 * 3600 * 1000).toISOString()}`,
+            )
+            .header("Prefer", `odata.maxpagesize=${maxResults}`)
+            .get(),
+        );
 
     const messages: (OutlookMessageData & {
       "@odata.type"?: string;
       "@removed"?: boolean;
-    })[] = delta.value || [];
+    })[] = [...(delta.value || [])];
 
-    const newOnes = messages.filter(
-      (m) => m["@odata.type"] === "#microsoft.graph.message" && !m["@removed"],
-    );
+    // A round ends with a deltaLink once every page has been read
+    while (delta["@odata.nextLink"]) {
+      const nextLink: string = delta["@odata.nextLink"];
+      delta = await withRequestRetry(() => client.api(nextLink).get());
+      messages.push(...(delta.value || []));
+    }
 
-    // Persist next delta token if present
+    // The next round's token, stored by the caller once this one is saved
     const deltaLink: string | undefined = delta["@odata.deltaLink"];
-    if (deltaLink) {
-      const nextToken = (deltaLink.split("$deltatoken=")[1] || "").trim();
-      if (nextToken) {
-        await this.databaseService.updateUserSyncState(userId, {
-          outlookDeltaToken: nextToken,
-          lastSyncTime: new Date(),
-        });
+    const nextToken = deltaLink
+      ? new URL(deltaLink).searchParams.get("$deltatoken")
+      : null;
+
+    // Threads are single messages, so a thread's external id is its
+    // message's. Stored ones are updated in place. A message removed from
+    // the inbox was deleted, or moved elsewhere, usually under a new id;
+    // moved ones stay, in the state their folder gives them.
+    const newOnes: OutlookMessageData[] = [];
+    const updatedThreadIds: string[] = [];
+    const deletedThreadIds: string[] = [];
+    let folders: OutlookFolderIds | null = null;
+    for (const m of messages) {
+      if (m["@removed"]) {
+        const thread = await this.databaseService.getEmailThreadByExternalId(
+          userId,
+          m.id,
+        );
+        if (!thread) continue;
+
+        const moved = await this.findRemovedOutlookMessage(
+          client,
+          m.id,
+          thread,
+        );
+        if (!moved) {
+          await this.databaseService.deleteEmailThread(thread.id);
+          deletedThreadIds.push(m.id);
+          continue;
+        }
+
+        folders ??= await this.getOutlookFolderIds(client);
+        await this.databaseService.updateEmailThreadState(
+          thread.id,
+          getOutlookFolderState(moved, folders),
+        );
+        if (moved.id !== m.id) {
+          await this.databaseService.updateEmailThreadExternalId(
+            userId,
+            m.id,
+            moved.id,
+          );
+          await this.databaseService.renamePendingOperationThread(
+            userId,
+            m.id,
+            moved.id,
+          );
+          deletedThreadIds.push(m.id);
+        }
+        updatedThreadIds.push(moved.id);
+        continue;
       }
+      if (m["@odata.type"] !== "#microsoft.graph.message") continue;
+
+      const thread = await this.databaseService.getEmailThreadByExternalId(
+        userId,
+        m.id,
+      );
+      if (!thread) {
+        newOnes.push(m);
+        continue;
+      }
+      await this.databaseService.updateEmailThreadState(
+        thread.id,
+        getOutlookThreadState(m),
+      );
+      updatedThreadIds.push(m.id);
     }
 
     const parsedMessages = await Promise.all(
       newOnes.map((m) => this.parseOutlookMessage(m, accessToken, userEmail)),
     );
-    return parsedMessages;
+    return {
+      newEmails: parsedMessages,
+      updatedThreadIds,
+      deletedThreadIds,
+      syncState: nextToken ? { outlookDeltaToken: nextToken } : null,
+    };
+  }
+
+  /**
+   * Where a message removed from the inbox's delta went, or null if it was
+   * deleted. Its id usually changed with the move, so when the old one is
+   * gone it's looked for by when it arrived and its subject.
+   */
+  private async findRemovedOutlookMessage(
+    client: Client,
+    messageId: string,
+    thread: PrismaEmailThread,
+  ): Promise<OutlookMessageData | null> {
+    const fields = "id,subject,parentFolderId,isRead,flag";
+    try {
+      return await withRequestRetry(() =>
+        client.api(`/me/messages/${messageId}`).select(fields).get(),
+      );
+    } catch (error) {
+      if (getHttpStatus(error) !== 404) throw error;
+    }
+
+    const found = await withRequestRetry(() =>
+      client
+        .api("/me/messages")
+        .filter(`receivedDateTime eq ${thread.timestamp.toISOString()}`)
+        .select(fields)
+        .top(10)
+        .get(),
+    );
+    const candidates = (found.value || []) as OutlookMessageData[];
+    return (
+      candidates.find((message) => message.subject === thread.subject) ?? null
+    );
+  }
+
+  private async getOutlookFolderIds(client: Client): Promise<OutlookFolderIds> {
+    const getFolderId = async (name: string) => {
+      try {
+        const folder = await withRequestRetry(() =>
+          client.api(`/me/mailFolders/${name}`).select("id").get(),
+        );
+        return folder.id as string;
+      } catch (error) {
+        if (getHttpStatus(error) === 404) return null;
+        throw error;
+      }
+    };
+    const [inbox, archive, deletedItems] = await Promise.all([
+      getFolderId("inbox"),
+      getFolderId("archive"),
+      getFolderId("deleteditems"),
+    ]);
+    return { inbox: inbox ?? "", archive, deletedItems: deletedItems ?? "" };
   }
 
   private async getOutlookInbox(
@@ -1153,6 +1965,33 @@ export class EmailService {
     await client.api(`/me/messages/${messageId}`).patch({ categories });
   }
 
+  /** Create a master category, or update its colour if it already exists. */
+  private async ensureOutlookCategory(
+    accessToken: string,
+    displayName: string,
+    color: string,
+  ): Promise<void> {
+    const client = graphClientFromAccessToken(accessToken);
+    const preset = findLabelColor(color)?.outlookPreset ?? "preset12";
+    const res = (await client.api("/me/outlook/masterCategories").get()) as {
+      value?: { id: string; displayName: string; color: string }[];
+    };
+    const existing = (res.value || []).find(
+      (c) => c.displayName === displayName,
+    );
+
+    if (!existing) {
+      await client
+        .api("/me/outlook/masterCategories")
+        .post({ displayName, color: preset });
+    } else if (existing.color !== preset) {
+      // displayName can't be changed once created, only the colour
+      await client
+        .api(`/me/outlook/masterCategories/${existing.id}`)
+        .patch({ color: preset });
+    }
+  }
+
   private async getOutlookMessageCategories(
     accessToken: string,
     messageId: string,
@@ -1170,33 +2009,127 @@ export class EmailService {
     subject: string,
     body: string,
     isHtml: boolean = false,
-  ): Promise<void> {
+    inlineImages: MimeInlineImage[] = [],
+    options: SendEmailOptions = {},
+  ): Promise<string | null> {
     const client = graphClientFromAccessToken(accessToken);
-    await client.api("/me/sendMail").post({
-      message: {
-        subject,
-        body: {
-          contentType: isHtml ? "HTML" : "Text",
-          content: body,
-        },
-        toRecipients: [{ emailAddress: { address: to } }],
+    const toRecipients = (addresses?: string[]) =>
+      (addresses || []).map((address) => ({ emailAddress: { address } }));
+
+    // Saved as a draft first, which gives it the Message-ID its sent copy is
+    // found by afterwards
+    const draft: OutlookMessageData = await client.api("/me/messages").post({
+      subject,
+      body: {
+        contentType: isHtml ? "HTML" : "Text",
+        content: body,
       },
+      toRecipients: toRecipients(
+        to
+          .split(",")
+          .map((address) => address.trim())
+          .filter(Boolean),
+      ),
+      ccRecipients: toRecipients(options.cc),
+      bccRecipients: toRecipients(options.bcc),
+      attachments: [
+        ...(options.attachments || []).map((att) => ({
+          "@odata.type": "#microsoft.graph.fileAttachment",
+          name: att.filename,
+          contentType: att.mimeType,
+          contentBytes: att.data,
+        })),
+        ...inlineImages.map(toGraphInlineAttachment),
+      ],
     });
+    try {
+      await client.api(`/me/messages/${draft.id}/send`).post({});
+    } catch (error) {
+      await client
+        .api(`/me/messages/${draft.id}`)
+        .delete()
+        .catch((deleteError: unknown) => {
+          console.error(
+            `[EMAIL_SERVICE] Failed to remove unsent draft ${draft.id}:`,
+            deleteError,
+          );
+        });
+      throw error;
+    }
+    return draft.internetMessageId ?? null;
   }
 
-  async setupOutlookWebhook(userId: string, webhookUrl: string): Promise<void> {
-    const user = await this.databaseService.findUserByEmail(userId);
-    if (!user) throw new Error(`User not found: ${userId}`);
-    if (user.provider !== AuthProvider.OUTLOOK)
-      throw new Error("Not an Outlook user");
-
-    const client = graphClientFromAccessToken(user.accessToken);
-    await client.api("/subscriptions").post({
-      changeType: "created",
-      notificationUrl: webhookUrl,
-      resource: "me/messages",
-      expirationDateTime: new Date(Date.now() + 4230 * 60 * 1000).toISOString(), // ~3 days
-      clientState: `outlook-${user.id}`,
+  /**
+   * Stores the copy of a sent message Outlook files in Sent Items, which has
+   * an id of its own, so it can be found and brought back like synced mail.
+   * Sent Items isn't synced, and the copy takes a moment to appear.
+   */
+  private async storeSentOutlookMessage(
+    accessToken: string,
+    user: User,
+    internetMessageId: string,
+  ): Promise<SentMessage | null> {
+    const client = graphClientFromAccessToken(accessToken);
+    const filter = `internetMessageId eq '${internetMessageId.replace(/'/g, "''")}'`;
+
+    let sent: OutlookMessageData | undefined;
+    for (let attempt = 0; !sent && attempt < SENT_COPY_ATTEMPTS; attempt++) {
+      if (attempt) {
+        await new Promise((resolve) => setTimeout(resolve, SENT_COPY_RETRY_MS));
+      }
+      const found = await withRequestRetry(() =>
+        client.api("/me/mailFolders/sentitems/messages").filter(filter).get(),
+      );
+      sent = found.value?.[0];
+    }
+    if (!sent) return null;
+
+    const unsaved = await this.saveEmailsToDatabase(user.id, [
+      await this.parseOutlookMessage(sent, accessToken, user.email),
+    ]);
+    const thread = await this.databaseService.getEmailThreadByExternalId(
+      user.id,
+      sent.id,
+    );
+    if (unsaved || !thread) return null;
+
+    // Out of the inbox, in the Sent Items folder
+    await this.databaseService.updateEmailThreadState(
+      thread.id,
+      getOutlookFolderState(sent, await this.getOutlookFolderIds(client)),
+    );
+    return { messageId: sent.id, threadId: sent.id };
+  }
+
+  private async sendOutlookReply(
+    accessToken: string,
+    data: SendReplyData,
+    inlineImages: MimeInlineImage[] = [],
+  ): Promise<void> {
+    const client = graphClientFromAccessToken(accessToken);
+    const toRecipients = (addresses?: string[]) =>
+      (addresses || []).map((address) => ({ emailAddress: { address } }));
+
+    // Graph threads the message and quotes the original below the comment,
+    // and /forward carries the original attachments over by itself
+    const action = data.mode === "forward" ? "forward" : "reply";
+    await client.api(`/me/messages/${data.replyToMessageId}/${action}`).post({
+      comment: data.body,
+      message: {
+        subject: data.subject,
+        toRecipients: toRecipients(data.to),
+        ccRecipients: toRecipients(data.cc),
+        bccRecipients: toRecipients(data.bcc),
+        attachments: [
+          ...(data.attachments || []).map((att) => ({
+            "@odata.type": "#microsoft.graph.fileAttachment",
+            name: att.filename,
+            contentType: att.mimeType,
+            contentBytes: att.data,
+          })),
+          ...inlineImages.map(toGraphInlineAttachment),
+        ],
+      },
     });
   }
 
@@ -1211,34 +2144,30 @@ export class EmailService {
     const user = await this.databaseService.findUserByEmail(userId);
     if (!user) throw new Error("User not found");
 
-    const result =
+    const result = await this.authClient.withAccessToken(user, (accessToken) =>
       user.provider === AuthProvider.GOOGLE
-        ? await this.getGmailInbox(
-            user.accessToken,
-            user.email,
-            pageToken,
-            maxResults,
-          )
+        ? this.getGmailInbox(accessToken, user.email, pageToken, maxResults)
         : user.provider === AuthProvider.OUTLOOK
-          ? await this.getOutlookInbox(
-              user.accessToken,
-              user.email,
-              pageToken,
-              maxResults,
-            )
+          ? this.getOutlookInbox(accessToken, user.email, pageToken, maxResults)
           : (() => {
               throw new Error("Unsupported email provider");
-            })();
+            })(),
+    );
 
     await this.saveEmailsToDatabase(user.id, result.emails, onEmailSaved);
     return result;
   }
 
+  /**
+   * Saves, labels and classifies threads, returning how many of them failed
+   * to save. Failures are logged rather than thrown, so one bad thread
+   * doesn't hold up the rest.
+   */
   private async saveEmailsToDatabase(
     userId: string,
     emails: EmailThread[],
     onEmailSaved?: (email: EmailThread) => void,
-  ): Promise<void> {
+  ): Promise<number> {
     const user = await this.databaseService.findUserById(userId);
     if (!user) throw new Error("User not found");
 
@@ -1246,9 +2175,52 @@ export class EmailService {
     const batchSize = 100;
     const batches = this.chunkArray(emails, batchSize);
 
+    let unsaved = 0;
     for (const batch of batches) {
-      await this.processEmailBatch(user, batch, onEmailSaved);
+      unsaved += await this.processEmailBatch(user, batch, onEmailSaved);
     }
+    return unsaved;
+  }
+
+  // Resolves the labelling model once per call. A broken provider config
+  // falls back to the offline stub rather than blocking sync.
+  private async classifyMessages(
+    userId: string,
+    messages: EmailMessage[],
+  ): Promise<Map<string, ClassifiedLabel[]>> {
+    const labelModel = await this.llmSettingsService
+      .getModelForFeature("labelling")
+      .catch((error) => {
+        console.error(
+          `[EMAIL_SERVICE] Failed to load labelling model, using offline stub:`,
+          error,
+        );
+        return createOfflineModel("labelling");
+      });
+
+    // Built-in labels plus the user's own
+    const labelDefinitions = await this.labelService
+      .getLabelDefinitions(userId)
+      .catch((error) => {
+        console.error(
+          `[EMAIL_SERVICE] Failed to load custom labels, using built-ins:`,
+          error,
+        );
+        return undefined;
+      });
+
+    return classifyEmails(
+      labelModel,
+      messages.map((message) => ({
+        id: message.id,
+        subject: message.subject,
+        sender: message.sender,
+        senderEmail: message.senderEmail,
+        body: message.body,
+        listUnsubscribe: message.listUnsubscribe,
+      })),
+      labelDefinitions,
+    );
   }
 
   private chunkArray<T>(array: T[], size: number): T[][] {
@@ -1260,10 +2232,10 @@ export class EmailService {
   }
 
   private async processEmailBatch(
-    user: { id: string; provider: AuthProvider; accessToken: string },
+    user: User,
     emails: EmailThread[],
     onEmailSaved?: (email: EmailThread) => void,
-  ): Promise<void> {
+  ): Promise<number> {
     // 1) Upsert threads in parallel
     const dbPromises = emails.map(async (email) => {
       try {
@@ -1307,92 +2279,641 @@ export class EmailService {
           item !== null,
       );
 
-    // 2) Process individual messages from the threads we already fetched
-    // Note: The threads were already fetched with format: "full" and include individual messages
-    const messageProcessingPromises = successfulResults.map(
-      async ({ email, savedThread }) => {
-        try {
-          // Get the individual messages from the thread data
-          const threadMessages = email.messages || [];
+    // 2) Classify every message in the batch, several per LLM request
+    // Note: The threads were already fetched with their individual messages;
+    // Gmail's carry snippets until their bodies are loaded, see
+    // loadGmailBodiesInBackground
+    const classifications = await this.classifyMessages(
+      user.id,
+      successfulResults.flatMap(({ email }) => email.messages || []),
+    );
+
+    // Filter rules run after labelling so they can match on labels
+    const mailRules = await this.mailRuleService
+      .getActiveRules(user.id)
+      .catch((error) => {
+        console.error(`[EMAIL_SERVICE] Failed to load mail rules:`, error);
+        return [] as MailRuleSettings[];
+      });
+
+    // 3) Save individual messages with their labels
+    // Threads are refetched whole, so only unseen messages count towards
+    // contacts and trigger rules
+    const unseenMessages: EmailMessage[] = [];
+    const messageProcessingPromises = successfulResults.map(
+      async ({ email, savedThread }) => {
+        try {
+          // Get the individual messages from the thread data
+          const threadMessages = email.messages || [];
+
+          // Process each individual message
+          const messageLabels: string[] = [];
+          const newMessages: EmailMessage[] = [];
+          for (const message of threadMessages) {
+            try {
+              const classifiedLabels = classifications.get(message.id) || [];
+              const labels = classifiedLabels.map((l) => l.label);
+
+              const isUnseen =
+                !(await this.databaseService.getEmailByExternalId(
+                  user.id,
+                  message.id,
+                ));
+              if (isUnseen) unseenMessages.push(message);
+
+              // Rules only run on incoming mail, which also stops forward loops
+              if (
+                isUnseen &&
+                mailRules.length &&
+                message.senderEmail.toLowerCase() !== user.email.toLowerCase()
+              ) {
+                newMessages.push(message);
+              }
+
+              // Save individual email message to database
+              const savedEmail = await this.saveEmailMessageToDatabase(
+                user.id,
+                message,
+                savedThread.id,
+              );
+
+              // Add individual email labels to database
+              if (savedEmail) {
+                await this.databaseService.addEmailLabels(
+                  savedEmail.id,
+                  classifiedLabels,
+                );
+              }
+
+              // Collect labels for thread-level aggregation
+              messageLabels.push(...labels);
+            } catch (e) {
+              console.error(
+                `[EMAIL_SERVICE] Failed to process message ${message.id}:`,
+                e,
+              );
+            }
+          }
+
+          // Remove duplicates and update thread-level labels
+          let uniqueLabels = Array.from(new Set(messageLabels));
+          await this.databaseService.addEmailThreadLabels(
+            savedThread.id,
+            uniqueLabels,
+          );
+
+          // Update thread importance based on new labels and messages
+          await this.updateThreadImportance(user.id, savedThread.externalId);
+
+          const latestNew = newMessages[newMessages.length - 1];
+          if (latestNew) {
+            uniqueLabels = await this.applyMailRules(
+              user,
+              email,
+              savedThread,
+              latestNew,
+              uniqueLabels,
+              mailRules,
+            );
+          }
+
+          email.labels = uniqueLabels;
+          onEmailSaved?.(email);
+        } catch (e) {
+          console.error(
+            `[EMAIL_SERVICE] Thread processing failed for ${email.id}:`,
+            e,
+          );
+          return false;
+        }
+        return true;
+      },
+    );
+
+    const processed = await Promise.all(messageProcessingPromises);
+
+    // 4) Count the people on new mail for recipient suggestions
+    await this.contactService
+      .recordMessageContacts(user, unseenMessages)
+      .catch((error) => {
+        console.error(`[EMAIL_SERVICE] Failed to record contacts:`, error);
+      });
+
+    return emails.length - processed.filter(Boolean).length;
+  }
+
+  /**
+   * Run the user's filter rules on the newest unseen message of a thread and
+   * return the thread's labels afterwards. Forwarding only applies to mail
+   * received after the rule was created, so a backfill never forwards old mail.
+   */
+  private async applyMailRules(
+    user: User,
+    thread: EmailThread,
+    savedThread: PrismaEmailThread,
+    message: EmailMessage,
+    labels: string[],
+    rules: MailRuleSettings[],
+  ): Promise<string[]> {
+    const target = buildRuleTarget(message, labels, thread.hasAttachments);
+    const plan = planRuleActions(rules, target);
+    if (isEmptyActionPlan(plan)) return labels;
+
+    console.log(
+      `[EMAIL_SERVICE] Mail rules matched thread ${thread.id}:`,
+      JSON.stringify(plan),
+    );
+
+    try {
+      if (plan.addLabels.length) {
+        await this.databaseService.addEmailThreadLabels(
+          savedThread.id,
+          plan.addLabels,
+        );
+      }
+      if (plan.removeLabels.length) {
+        await this.databaseService.removeEmailThreadLabels(
+          savedThread.id,
+          plan.removeLabels,
+        );
+      }
+
+      if (plan.markImportant) {
+        await this.databaseService.updateEmailThreadState(savedThread.id, {
+          isImportant: true,
+          isImportantByRule: true,
+        });
+        thread.isImportant = true;
+      }
+
+      // These go through the pending operations queue like the user's own,
+      // so they reach the provider once it's back online and follow the new
+      // id an Outlook message gets when moved. Archiving moves, so it's last.
+      const actions: ThreadAction[] = [
+        ...(plan.markRead ? [{ type: "markRead" } as const] : []),
+        ...(plan.star ? [{ type: "star" } as const] : []),
+        ...(plan.archive ? [{ type: "archive" } as const] : []),
+      ];
+      for (const action of actions) {
+        await this.applyThreadAction(user.email, thread.id, action);
+      }
+      if (plan.markRead) thread.isRead = true;
+    } catch (error) {
+      console.error(
+        `[EMAIL_SERVICE] Failed to apply mail rules to thread ${thread.id}:`,
+        error,
+      );
+    }
+
+    // Each forward is sent on its own so one bad address doesn't block the rest
+    const forwardTo = new Set(
+      plan.matchedRules
+        .filter((rule) => rule.createdAt <= message.timestamp)
+        .flatMap((rule) => rule.actions)
+        .filter((action) => action.type === "forward" && action.value)
+        .map((action) => action.value!),
+    );
+    for (const address of forwardTo) {
+      try {
+        await this.sendReply(user.email, {
+          to: [address],
+          subject: /^fwd?:/i.test(message.subject)
+            ? message.subject
+            : `Fwd: ${message.subject}`,
+          body: "",
+          threadId: thread.id,
+          replyToMessageId: message.id,
+          mode: "forward",
+        });
+      } catch (error) {
+        console.error(
+          `[EMAIL_SERVICE] Failed to forward ${message.id} to ${address}:`,
+          error,
+        );
+      }
+    }
+
+    return labels
+      .filter((l) => !plan.removeLabels.includes(l))
+      .concat(plan.addLabels);
+  }
+
+  // ---------------- Thread Actions ----------------
+
+  /**
+   * Apply a triage action to a thread. The local row changes straight away
+   * and the provider hears of it from the pending operations queue, so it
+   * works offline too; see replayPendingOperation.
+   */
+  async applyThreadAction(
+    userId: string,
+    threadId: string,
+    input: ThreadAction,
+  ): Promise<ThreadActionResult> {
+    const user = await this.databaseService.findUserByEmail(userId);
+    if (!user) throw new Error("User not found");
+
+    const action = validateThreadAction(input);
+    const thread = await this.databaseService.getEmailThreadByExternalId(
+      user.id,
+      threadId,
+    );
+    if (!thread) throw new Error(`Thread not found: ${threadId}`);
+
+    if (
+      action.type === "deleteForever" &&
+      user.provider === AuthProvider.GOOGLE &&
+      !user.scope.includes(GMAIL_FULL_ACCESS_SCOPE)
+    ) {
+      throw new Error(GMAIL_FULL_ACCESS_REQUIRED);
+    }
+
+    const previous: ThreadActionState = {
+      isRead: thread.isRead,
+      isArchived: thread.isArchived,
+      isStarred: thread.isStarred,
+      isTrashed: thread.isTrashed,
+      snoozedUntil: thread.snoozedUntil,
+      folderId: thread.folderId,
+    };
+
+    const change = getThreadActionChange(previous, action);
+    if (change.changed) {
+      await this.databaseService.updateEmailThreadState(
+        thread.id,
+        change.after,
+      );
+    }
+
+    // Neither provider has an API for snoozing, so it stays local
+    if (action.type !== "snooze" && action.type !== "unsnooze") {
+      await this.queueOperation(user, threadId, {
+        type: "threadAction",
+        action,
+        previous,
+      });
+    }
+
+    console.log(
+      `[EMAIL_SERVICE] Applied ${action.type} to thread ${threadId} for ${userId}`,
+    );
+    return { threadId, undo: getUndoAction(action, previous) };
+  }
+
+  private async syncThreadAction(
+    user: User,
+    threadId: string,
+    action: ThreadAction,
+    previous: ThreadActionState,
+  ): Promise<string> {
+    // Neither provider has an API for snoozing, so it stays local
+    if (action.type === "snooze" || action.type === "unsnooze") {
+      return threadId;
+    }
+
+    if (user.provider === AuthProvider.GOOGLE) {
+      if (
+        action.type === "deleteForever" &&
+        !user.scope.includes(GMAIL_FULL_ACCESS_SCOPE)
+      ) {
+        throw new Error(GMAIL_FULL_ACCESS_REQUIRED);
+      }
+      await this.authClient.withAccessToken(user, (accessToken) =>
+        this.applyGmailThreadAction(
+          accessToken,
+          threadId,
+          action,
+          previous.folderId,
+        ),
+      );
+      return threadId;
+    }
+    if (user.provider === AuthProvider.OUTLOOK) {
+      return this.authClient.withAccessToken(user, (accessToken) =>
+        this.applyOutlookThreadAction(accessToken, threadId, action),
+      );
+    }
+    throw new Error("Unsupported email provider");
+  }
+
+  private async applyGmailThreadAction(
+    accessToken: string,
+    threadId: string,
+    action: ThreadAction,
+    previousFolderId: string | null,
+  ): Promise<void> {
+    const gmail = gmailClientFromAccessToken(accessToken);
+    switch (action.type) {
+      case "trash":
+        await gmail.users.threads.trash({ userId: "me", id: threadId });
+        return;
+      case "untrash":
+        await gmail.users.threads.untrash({ userId: "me", id: threadId });
+        return;
+      case "deleteForever":
+        await gmail.users.threads.delete({ userId: "me", id: threadId });
+        return;
+    }
+
+    const changes = getGmailLabelChanges(action, previousFolderId);
+    if (changes) {
+      await gmail.users.threads.modify({
+        userId: "me",
+        id: threadId,
+        requestBody: changes,
+      });
+    }
+  }
+
+  private async applyOutlookThreadAction(
+    accessToken: string,
+    messageId: string,
+    action: ThreadAction,
+  ): Promise<string> {
+    const client = graphClientFromAccessToken(accessToken);
+
+    // Graph returns the moved message, which has a new id
+    const moveTo = async (destinationId: string) => {
+      const moved = (await client
+        .api(`/me/messages/${messageId}/move`)
+        .post({ destinationId })) as { id: string };
+      return moved.id;
+    };
+
+    switch (action.type) {
+      case "markRead":
+      case "markUnread":
+        await client
+          .api(`/me/messages/${messageId}`)
+          .patch({ isRead: action.type === "markRead" });
+        return messageId;
+      case "star":
+      case "unstar":
+        await client.api(`/me/messages/${messageId}`).patch({
+          flag: {
+            flagStatus: action.type === "star" ? "flagged" : "notFlagged",
+          },
+        });
+        return messageId;
+      case "archive":
+        return moveTo("archive");
+      case "unarchive":
+      case "untrash":
+        return moveTo("inbox");
+      case "trash":
+        return moveTo("deleteditems");
+      case "move":
+        // INBOX_FOLDER_ID matches Graph's well-known inbox name
+        return moveTo(action.folderId!);
+      case "deleteForever":
+        await client.api(`/me/messages/${messageId}/permanentDelete`).post({});
+        return messageId;
+      default:
+        return messageId;
+    }
+  }
+
+  // ---------------- Pending operations ----------------
 
-          // Process each individual message
-          const messageLabels: string[] = [];
-          for (const message of threadMessages) {
-            try {
-              // Generate labels using full message content
-              const labels = await generateLabels(
-                message.subject,
-                message.body,
-              );
+  private async queueOperation(
+    user: User,
+    threadId: string,
+    data: PendingOperationData,
+  ): Promise<void> {
+    await this.databaseService.createPendingOperation(user.id, {
+      type: data.type,
+      threadId,
+      payload: JSON.stringify(data),
+    });
+    operationQueuedListeners.forEach((listener) => listener(user.email));
+  }
 
-              // Save individual email message to database
-              const savedEmail = await this.saveEmailMessageToDatabase(
-                user.id,
-                message,
-                savedThread.id,
-              );
+  // Marking as read is queued by message id, which isn't always its thread's
+  private async getPendingOperationThread(
+    user: User,
+    operation: PendingOperation,
+  ) {
+    const thread = await this.databaseService.getEmailThreadByExternalId(
+      user.id,
+      operation.threadId,
+    );
+    if (thread || operation.type !== "markRead") return thread;
 
-              // Add individual email labels to database
-              if (savedEmail) {
-                await this.databaseService.addEmailLabels(
-                  savedEmail.id,
-                  labels,
-                );
-              }
+    const email = await this.databaseService.getEmailByExternalId(
+      user.id,
+      operation.threadId,
+    );
+    return email
+      ? this.databaseService.getEmailThreadByExternalId(user.id, email.threadId)
+      : null;
+  }
 
-              // Collect labels for thread-level aggregation
-              messageLabels.push(...labels);
-            } catch (e) {
-              console.error(
-                `[EMAIL_SERVICE] Failed to process message ${message.id}:`,
-                e,
-              );
-            }
-          }
+  /**
+   * Tell the provider about a queued change. When the server moved on in a
+   * way the change would undo, it's reverted here instead and the reason
+   * returned. Throws when the provider fails, for the queue to retry or
+   * revert it.
+   */
+  async replayPendingOperation(
+    user: User,
+    operation: PendingOperation,
+  ): Promise<string | null> {
+    const data = parsePendingOperation(operation.type, operation.payload);
+    if (!data) {
+      console.warn(
+        `[EMAIL_SERVICE] Dropping unreadable operation ${operation.id}`,
+      );
+      return null;
+    }
 
-          // Remove duplicates and update thread-level labels
-          const uniqueLabels = Array.from(new Set(messageLabels));
-          await this.databaseService.addEmailThreadLabels(
-            savedThread.id,
-            uniqueLabels,
+    const thread = await this.getPendingOperationThread(user, operation);
+    const decision = getReplayDecision(data, operation.createdAt, thread);
+    if (!thread || decision === "drop") {
+      console.log(
+        `[EMAIL_SERVICE] Dropping ${operation.type} for ${operation.threadId}, the thread is gone`,
+      );
+      return null;
+    }
+    if (decision === "conflict") {
+      await this.revertPendingOperation(user, operation);
+      return `${describePendingOperation(data)} "${thread.subject}" was undone, new mail arrived in it`;
+    }
+
+    try {
+      await this.applyPendingOperation(user, operation.threadId, data, thread);
+    } catch (error) {
+      if (!isGoneError(error)) throw error;
+      console.log(
+        `[EMAIL_SERVICE] ${operation.threadId} is gone from the provider, dropping ${operation.type}`,
+      );
+    }
+    return null;
+  }
+
+  private async applyPendingOperation(
+    user: User,
+    threadId: string,
+    data: PendingOperationData,
+    thread: PrismaEmailThread,
+  ): Promise<void> {
+    switch (data.type) {
+      case "markRead":
+        await this.authClient.withAccessToken(user, (accessToken) =>
+          user.provider === AuthProvider.GOOGLE
+            ? this.markGmailMessageAsRead(accessToken, threadId)
+            : user.provider === AuthProvider.OUTLOOK
+              ? this.markOutlookMessageAsRead(accessToken, threadId)
+              : (() => {
+                  throw new Error("Unsupported email provider");
+                })(),
+        );
+        return;
+      case "updateLabels":
+        await this.updateMessageLabels(
+          user,
+          threadId,
+          data.labels,
+          data.operation,
+        );
+        return;
+      case "threadAction": {
+        const newThreadId = await this.syncThreadAction(
+          user,
+          threadId,
+          data.action,
+          data.previous,
+        );
+        if (data.action.type === "deleteForever") {
+          await this.databaseService.deleteEmailThread(thread.id);
+          this.notifyMailChanged(user.email, [], [threadId]);
+        } else if (newThreadId !== threadId) {
+          await this.databaseService.updateEmailThreadExternalId(
+            user.id,
+            threadId,
+            newThreadId,
+          );
+          await this.databaseService.renamePendingOperationThread(
+            user.id,
+            threadId,
+            newThreadId,
           );
+          this.notifyMailChanged(user.email, [newThreadId], []);
+        }
+        return;
+      }
+    }
+  }
 
-          // Update thread importance based on new labels and messages
-          await this.updateThreadImportance(user.id, savedThread.externalId);
+  /**
+   * Undo a queued change on the local rows, when the provider won't take it
+   */
+  async revertPendingOperation(
+    user: User,
+    operation: PendingOperation,
+  ): Promise<void> {
+    const data = parsePendingOperation(operation.type, operation.payload);
+    const thread = await this.getPendingOperationThread(user, operation);
+    if (!data || !thread) return;
 
-          email.labels = uniqueLabels;
-          onEmailSaved?.(email);
-        } catch (e) {
-          console.error(
-            `[EMAIL_SERVICE] Thread processing failed for ${email.id}:`,
-            e,
+    switch (data.type) {
+      case "markRead":
+        await this.databaseService.updateEmailReadStatus(
+          user.id,
+          operation.threadId,
+          false,
+        );
+        break;
+      case "updateLabels":
+        await this.databaseService.updateEmailThreadLabels(
+          thread.id,
+          data.previousLabels,
+        );
+        break;
+      case "threadAction": {
+        const change = getThreadActionChange(data.previous, data.action);
+        if (change.changed) {
+          await this.databaseService.updateEmailThreadState(
+            thread.id,
+            change.before,
           );
         }
-      },
-    );
+        break;
+      }
+    }
+    this.notifyMailChanged(user.email, [operation.threadId], []);
+  }
+
+  private notifyMailChanged(
+    userEmail: string,
+    updatedThreadIds: string[],
+    deletedThreadIds: string[],
+  ) {
+    const event: MailChangedEvent = {
+      userEmail,
+      updatedThreadIds,
+      deletedThreadIds,
+    };
+    mailChangedListeners.forEach((listener) => listener(event));
+  }
 
-    await Promise.allSettled(messageProcessingPromises);
+  /**
+   * Folders a thread can be moved to: user labels in Gmail, mail folders in
+   * Outlook
+   */
+  async getMailFolders(userId: string): Promise<MailFolder[]> {
+    const user = await this.databaseService.findUserByEmail(userId);
+    if (!user) throw new Error("User not found");
+
+    if (user.provider === AuthProvider.GOOGLE) {
+      return this.authClient.withAccessToken(user, async (accessToken) => {
+        const gmail = gmailClientFromAccessToken(accessToken);
+        const res = await gmail.users.labels.list({ userId: "me" });
+        return (res.data.labels || [])
+          .filter(
+            (label) =>
+              label.type === "user" &&
+              label.id &&
+              label.name &&
+              !label.name.startsWith("ZEROHANDS_"),
+          )
+          .map((label) => ({ id: label.id!, name: label.name! }));
+      });
+    }
+    if (user.provider === AuthProvider.OUTLOOK) {
+      return this.authClient.withAccessToken(user, async (accessToken) => {
+        const client = graphClientFromAccessToken(accessToken);
+        const res = (await client
+          .api("/me/mailFolders")
+          .top(100)
+          .select("id,displayName")
+          .get()) as { value: Array<{ id: string; displayName: string }> };
+        return res.value.map((folder) => ({
+          id: folder.id,
+          name: folder.displayName,
+        }));
+      });
+    }
+    throw new Error("Unsupported email provider");
   }
 
   async updateMessageLabels(
-    user: { id: string; provider: AuthProvider; accessToken: string },
+    user: User,
     threadId: string,
     labels: string[],
     operation: "add" | "remove" | "replace" = "replace",
   ): Promise<void> {
     if (user.provider === AuthProvider.GOOGLE) {
-      await this.updateGmailThreadLabels(
-        user.accessToken,
-        threadId,
-        labels,
-        operation,
+      await this.authClient.withAccessToken(user, (accessToken) =>
+        this.updateGmailThreadLabels(accessToken, threadId, labels, operation),
       );
     } else if (user.provider === AuthProvider.OUTLOOK) {
-      await this.updateOutlookMessageLabels(
-        user.accessToken,
-        threadId,
-        labels,
-        operation,
+      await this.authClient.withAccessToken(user, (accessToken) =>
+        this.updateOutlookMessageLabels(
+          accessToken,
+          threadId,
+          labels,
+          operation,
+        ),
       );
     }
 
@@ -1437,6 +2958,10 @@ export class EmailService {
     }
   }
 
+  /**
+   * Change a thread's labels here straight away, and at the provider from
+   * the pending operations queue
+   */
   async updateMessageLabelsByUser(
     userEmail: string,
     threadId: string,
@@ -1446,8 +2971,6 @@ export class EmailService {
     const user = await this.databaseService.findUserByEmail(userEmail);
     if (!user) throw new Error("User not found");
 
-    await this.updateMessageLabels(user, threadId, labels, operation);
-
     const thread = await this.databaseService.getEmailThreadByExternalId(
       user.id,
       threadId,
@@ -1461,6 +2984,13 @@ export class EmailService {
         await this.databaseService.removeEmailThreadLabels(thread.id, labels);
       }
     }
+
+    await this.queueOperation(user, threadId, {
+      type: "updateLabels",
+      labels,
+      operation,
+      previousLabels: thread?.labels.map((label) => label.label) ?? [],
+    });
   }
 
   async getEmailContent(
@@ -1477,7 +3007,8 @@ export class EmailService {
         messageId,
       );
 
-      if (dbEmail) {
+      // Synced without its body, fetched whole below
+      if (dbEmail?.isBodyLoaded) {
         console.log(
           `[EMAIL_SERVICE] Found email content in database: ${messageId}`,
         );
@@ -1522,14 +3053,15 @@ export class EmailService {
       `[EMAIL_SERVICE] Email content not found in database, fetching from API: ${messageId}. This suggests the email wasn't processed during initial sync.`,
     );
 
-    const email =
+    const email = await this.authClient.withAccessToken(user, (accessToken) =>
       user.provider === AuthProvider.GOOGLE
-        ? await this.getGmailMessage(user.accessToken, messageId)
+        ? this.getGmailMessage(accessToken, messageId)
         : user.provider === AuthProvider.OUTLOOK
-          ? await this.getOutlookMessage(user.accessToken, messageId)
+          ? this.getOutlookMessage(accessToken, messageId)
           : (() => {
               throw new Error("Unsupported email provider");
-            })();
+            })(),
+    );
 
     await this.saveEmailContentToDatabase(user.id, email);
     return email;
@@ -1570,12 +3102,35 @@ export class EmailService {
       `[EMAIL_SERVICE] Found ${dbEmails.length} emails in thread from database`,
     );
 
+    // Gmail bodies are left out at sync and fetched once a thread is opened,
+    // if the background load hasn't yet. Offline, the snippets are shown
+    // until it's opened again.
+    let loadedBodies = new Map<string, EmailMessage>();
+    const unloadedIds = dbEmails
+      .filter((email) => !email.isBodyLoaded)
+      .map((email) => email.externalId);
+    if (unloadedIds.length && user.provider === AuthProvider.GOOGLE) {
+      try {
+        loadedBodies = await this.loadGmailBodies(
+          user,
+          thread.externalId,
+          new Set(unloadedIds),
+        );
+      } catch (error) {
+        console.error(
+          `[EMAIL_SERVICE] Failed to load bodies for thread ${threadId}:`,
+          error,
+        );
+      }
+    }
+
     // Convert database emails to EmailMessage format with attachments
     const emailsWithAttachments = await Promise.all(
       dbEmails.map(async (email) => {
         const attachments = await this.databaseService.getEmailAttachments(
           email.id,
         );
+        const loaded = loadedBodies.get(email.externalId);
         return {
           id: email.externalId,
           threadId: email.threadId,
@@ -1585,8 +3140,9 @@ export class EmailService {
           recipient: email.recipient,
           recipientEmail: email.recipientEmail,
           timestamp: email.timestamp,
-          body: email.body,
-          htmlBody: email.htmlBody || undefined,
+          body: loaded ? loaded.body : email.body,
+          htmlBody: loaded ? loaded.htmlBody : email.htmlBody || undefined,
+          isBodyLoaded: !!loaded || email.isBodyLoaded,
           attachments: attachments.map((att) => ({
             id: att.externalId,
             filename: att.filename,
@@ -1699,6 +3255,7 @@ export class EmailService {
         timestamp: email.timestamp,
         body: email.body,
         htmlBody: email.htmlBody,
+        isBodyLoaded: email.isBodyLoaded,
         isRead: email.isRead,
         userId,
         emailThreadId,
@@ -1746,21 +3303,15 @@ export class EmailService {
     }
   }
 
+  /**
+   * Mark a message read here straight away, and at the provider from the
+   * pending operations queue
+   */
   async markEmailAsRead(userId: string, messageId: string): Promise<void> {
     const user = await this.databaseService.findUserByEmail(userId);
     if (!user) throw new Error("User not found");
 
     try {
-      // Mark as read in the external service
-      if (user.provider === AuthProvider.GOOGLE) {
-        await this.markGmailMessageAsRead(user.accessToken, messageId);
-      } else if (user.provider === AuthProvider.OUTLOOK) {
-        await this.markOutlookMessageAsRead(user.accessToken, messageId);
-      } else {
-        throw new Error("Unsupported email provider");
-      }
-
-      // Update local database
       await this.databaseService.updateEmailReadStatus(
         user.id,
         messageId,
@@ -1771,9 +3322,8 @@ export class EmailService {
       // Note: This may not change the importance value, but we recalculate to be consistent
       await this.updateThreadImportance(user.id, messageId);
 
-      console.log(
-        `[EMAIL_SERVICE] Successfully marked email ${messageId} as read`,
-      );
+      await this.queueOperation(user, messageId, { type: "markRead" });
+      console.log(`[EMAIL_SERVICE] Marked email ${messageId} as read`);
     } catch (error) {
       console.error(
         `[EMAIL_SERVICE] Error marking email ${messageId} as read:`,
@@ -1783,39 +3333,114 @@ export class EmailService {
     }
   }
 
+  /**
+   * Resolves with the sent message, or null when it can't be told which it
+   * is. Outlook's is found in Sent Items and stored, as that isn't synced.
+   */
   async sendEmail(
     userId: string,
     to: string,
     subject: string,
     body: string,
     isHtml: boolean = false,
-  ): Promise<void> {
+    options: SendEmailOptions = {},
+  ): Promise<SentMessage | null> {
+    const user = await this.databaseService.findUserByEmail(userId);
+    if (!user) throw new Error("User not found");
+
+    // Images from the composer go out as parts of the message
+    const { html, images } = isHtml
+      ? await this.inlineImageService.embedImages(body)
+      : { html: body, images: [] };
+
+    if (user.provider === AuthProvider.GOOGLE) {
+      return this.authClient.withAccessToken(user, (accessToken) =>
+        this.sendGmailMessage(
+          accessToken,
+          to,
+          subject,
+          html,
+          isHtml,
+          images,
+          options,
+        ),
+      );
+    } else if (user.provider === AuthProvider.OUTLOOK) {
+      const internetMessageId = await this.authClient.withAccessToken(
+        user,
+        (accessToken) =>
+          this.sendOutlookMessage(
+            accessToken,
+            to,
+            subject,
+            html,
+            isHtml,
+            images,
+            options,
+          ),
+      );
+      if (!internetMessageId) return null;
+
+      // Sent already, so a failure here mustn't count as a failed send
+      try {
+        return await this.authClient.withAccessToken(user, (accessToken) =>
+          this.storeSentOutlookMessage(accessToken, user, internetMessageId),
+        );
+      } catch (error) {
+        console.error(
+          `[EMAIL_SERVICE] Failed to store the sent copy of ${internetMessageId}:`,
+          error,
+        );
+        return null;
+      }
+    } else {
+      throw new Error("Unsupported email provider");
+    }
+  }
+
+  /**
+   * Resolves with the sent message where the provider says which it is;
+   * Outlook doesn't for replies, which stay in the thread answered.
+   */
+  async sendReply(
+    userId: string,
+    data: SendReplyData,
+  ): Promise<SentMessage | null> {
     const user = await this.databaseService.findUserByEmail(userId);
     if (!user) throw new Error("User not found");
 
+    if (data.to.length === 0)
+      throw new Error("At least one recipient is required");
+
+    console.log(
+      `[EMAIL_SERVICE] Sending ${data.mode || "reply"} to message ${data.replyToMessageId} in thread ${data.threadId}`,
+    );
+
+    const { html, images } = await this.inlineImageService.embedImages(
+      data.body,
+    );
+    const reply = { ...data, body: html };
+
     if (user.provider === AuthProvider.GOOGLE) {
-      await this.sendGmailMessage(user.accessToken, to, subject, body, isHtml);
+      return this.authClient.withAccessToken(user, (accessToken) =>
+        this.sendGmailReply(accessToken, reply, images),
+      );
     } else if (user.provider === AuthProvider.OUTLOOK) {
-      await this.sendOutlookMessage(
-        user.accessToken,
-        to,
-        subject,
-        body,
-        isHtml,
+      await this.authClient.withAccessToken(user, (accessToken) =>
+        this.sendOutlookReply(accessToken, reply, images),
       );
+      return null;
     } else {
       throw new Error("Unsupported email provider");
     }
   }
 
-  // ---------------- isImportant Calculation ----------------
+  // ---------------- Importance Scoring ----------------
 
   /**
-   * Calculate if a thread should be marked as important based on:
-   * 1. HARD NEGATIVE: Last message sent by user -> NOT important
-   * 2. HARD NEGATIVE: Last message is draft -> NOT important
-   * 3. HARD POSITIVE: User has participated in thread -> IS important
-   * 4. CONDITIONAL: Thread has labels (credentials, invoice, meeting, important) -> IS important
+   * Importance from the thread alone, used while parsing before the thread is
+   * stored. updateThreadImportance rescores it with the user's preferences,
+   * weights and history once it's saved.
    */
   private calculateIsImportant(
     messages: EmailMessage[],
@@ -1823,47 +3448,112 @@ export class EmailService {
     userEmail: string,
     isDraft: boolean = false,
   ): boolean {
-    // No messages means not important
     if (!messages || messages.length === 0) {
       return false;
     }
 
-    // Get the last message in the thread (most recent)
-    const lastMessage = messages[messages.length - 1];
-
-    // HARD NEGATIVE RULE 1: If last message is sent by user -> NOT important
-    if (lastMessage.senderEmail.toLowerCase() === userEmail.toLowerCase()) {
-      return false;
-    }
+    const signals = buildImportanceSignals({
+      messages,
+      labels,
+      userEmail,
+      isDraft,
+    });
+    return scoreImportance(signals).isImportant;
+  }
 
-    // HARD NEGATIVE RULE 2: If last message is a draft -> NOT important
-    if (isDraft) {
-      return false;
-    }
+  private getImportancePreferences(user: User): ImportancePreferences {
+    return {
+      vipContacts: user.vipContacts ? JSON.parse(user.vipContacts) : [],
+      vipDomains: user.vipDomains ? JSON.parse(user.vipDomains) : [],
+      smartGroupEmails: user.smartGroupEmails
+        ? JSON.parse(user.smartGroupEmails)
+        : [],
+      importantLabels: user.importantLabels
+        ? JSON.parse(user.importantLabels)
+        : [],
+    };
+  }
 
-    // HARD POSITIVE: If user has participated in the thread -> IS important
-    const userParticipated = messages.some(
-      (msg) => msg.senderEmail.toLowerCase() === userEmail.toLowerCase(),
+  private getUserImportanceWeights(user: User): ImportanceWeights {
+    return normalizeImportanceWeights(
+      user.importanceWeights ? JSON.parse(user.importanceWeights) : null,
     );
-    if (userParticipated) {
-      return true;
+  }
+
+  /**
+   * Score a stored thread with every signal: onboarding preferences, reply
+   * history and how often the sender writes
+   */
+  private async scoreStoredThread(
+    user: User,
+    thread: PrismaEmailThread & { labels: { label: string }[] },
+    storedMessages: Email[],
+    preferences: ImportancePreferences,
+    weights: ImportanceWeights,
+  ): Promise<ImportanceResult> {
+    const messages = sortMessagesOldestFirst(storedMessages);
+    const labels = thread.labels.map((l) => l.label);
+    const lastMessage = messages[messages.length - 1];
+    if (!lastMessage) {
+      return { score: 0, isImportant: false, reasons: [] };
     }
 
-    // CONDITIONAL: Check if thread has important labels
-    const importantLabels = ["credentials", "invoice", "meeting", "important"];
-    const hasImportantLabel = labels.some((label) =>
-      importantLabels.includes(label.toLowerCase()),
+    const senderEmail = lastMessage.senderEmail.toLowerCase();
+    const fromUser = senderEmail === user.email.toLowerCase();
+    const since = new Date(
+      Date.now() - SENDER_WINDOW_DAYS * 24 * 60 * 60 * 1000,
     );
-    if (hasImportantLabel) {
-      return true;
+
+    // Hard negatives don't need the history lookups
+    const [repliedToSender, senderMessageCount] = fromUser
+      ? [false, 0]
+      : await Promise.all([
+          this.databaseService.hasSentEmailTo(user.id, user.email, senderEmail),
+          this.databaseService.countEmailsFromSender(
+            user.id,
+            lastMessage.senderEmail,
+            since,
+          ),
+        ]);
+
+    const signals = buildImportanceSignals({
+      messages,
+      labels,
+      userEmail: user.email,
+      // In Gmail, drafts carry the DRAFT label
+      isDraft: labels.some((label) => label.toUpperCase().includes("DRAFT")),
+      markedByRule: thread.isImportantByRule,
+      preferences,
+      repliedToSender,
+      senderMessageCount,
+    });
+    return scoreImportance(signals, weights);
+  }
+
+  private async saveThreadImportance(
+    thread: PrismaEmailThread,
+    result: ImportanceResult,
+  ): Promise<boolean> {
+    const importanceReasons = JSON.stringify(result.reasons);
+    if (
+      thread.isImportant === result.isImportant &&
+      thread.importanceScore === result.score &&
+      thread.importanceReasons === importanceReasons
+    ) {
+      return false;
     }
 
-    // Default: not important
-    return false;
+    await this.databaseService.updateEmailThreadImportance(thread.id, {
+      isImportant: result.isImportant,
+      importanceScore: result.score,
+      importanceReasons,
+    });
+    return true;
   }
 
   /**
-   * Updates the isImportant flag for a thread based on its current state
+   * Updates the importance score, flag and reasons for a thread based on its
+   * current state
    */
   async updateThreadImportance(
     userId: string,
@@ -1890,60 +3580,21 @@ export class EmailService {
         return;
       }
 
-      // Get all messages in the thread
       const messages = await this.databaseService.getEmailsByThreadId(
         thread.id,
         userId,
       );
-
-      // Convert to EmailMessage format
-      const emailMessages: EmailMessage[] = messages.map((msg) => ({
-        id: msg.externalId,
-        threadId: msg.threadId,
-        subject: msg.subject,
-        sender: msg.sender,
-        senderEmail: msg.senderEmail,
-        recipient: msg.recipient,
-        recipientEmail: msg.recipientEmail,
-        timestamp: msg.timestamp,
-        body: msg.body,
-        htmlBody: msg.htmlBody || undefined,
-        isRead: msg.isRead,
-      }));
-
-      // Get thread labels
-      const threadLabels = thread.labels.map((l) => l.label);
-
-      // Check if thread is a draft (in Gmail, check for DRAFT label)
-      const isDraft = threadLabels.some((label) =>
-        label.toUpperCase().includes("DRAFT"),
-      );
-
-      // Calculate isImportant
-      const isImportant = this.calculateIsImportant(
-        emailMessages,
-        threadLabels,
-        user.email,
-        isDraft,
+      const result = await this.scoreStoredThread(
+        user,
+        thread,
+        messages,
+        this.getImportancePreferences(user),
+        this.getUserImportanceWeights(user),
       );
 
-      // Update the thread if isImportant has changed
-      if (thread.isImportant !== isImportant) {
-        await this.databaseService.upsertEmailThread({
-          externalId: thread.externalId,
-          subject: thread.subject,
-          sender: thread.sender,
-          senderEmail: thread.senderEmail,
-          preview: thread.preview,
-          timestamp: thread.timestamp,
-          isRead: thread.isRead,
-          isImportant,
-          hasAttachments: thread.hasAttachments,
-          userId: thread.userId,
-        });
-
+      if (await this.saveThreadImportance(thread, result)) {
         console.log(
-          `[EMAIL_SERVICE] Updated isImportant for thread ${threadId}: ${isImportant}`,
+          `[EMAIL_SERVICE] Updated importance for thread ${threadId}: ${result.score} (${result.isImportant})`,
         );
       }
     } catch (error) {
@@ -1954,11 +3605,66 @@ export class EmailService {
     }
   }
 
+  async getImportanceWeights(userEmail: string): Promise<ImportanceWeights> {
+    const user = await this.databaseService.findUserByEmail(userEmail);
+    if (!user) throw new Error("User not found");
+    return this.getUserImportanceWeights(user);
+  }
+
+  async setImportanceWeights(
+    userEmail: string,
+    weights: Partial<ImportanceWeights>,
+  ): Promise<ImportanceWeights> {
+    const user = await this.databaseService.findUserByEmail(userEmail);
+    if (!user) throw new Error("User not found");
+
+    const normalized = normalizeImportanceWeights(weights);
+    await this.databaseService.updateUser(user.id, {
+      importanceWeights: JSON.stringify(normalized),
+    });
+    console.log(`[EMAIL_SERVICE] Saved importance weights for ${userEmail}`);
+    return normalized;
+  }
+
+  /**
+   * Rescore the user's recent threads, e.g. after the weights change.
+   * Returns how many threads changed.
+   */
+  async rescoreImportance(userEmail: string): Promise<number> {
+    const user = await this.databaseService.findUserByEmail(userEmail);
+    if (!user) throw new Error("User not found");
+
+    const preferences = this.getImportancePreferences(user);
+    const weights = this.getUserImportanceWeights(user);
+    const threads = await this.databaseService.getEmailThreadsWithMessages(
+      user.id,
+      RESCORE_THREAD_LIMIT,
+    );
+
+    let updated = 0;
+    for (const thread of threads) {
+      const result = await this.scoreStoredThread(
+        user,
+        thread,
+        thread.emails,
+        preferences,
+        weights,
+      );
+      if (await this.saveThreadImportance(thread, result)) updated++;
+    }
+
+    console.log(
+      `[EMAIL_SERVICE] Rescored importance for ${userEmail}: ${updated} of ${threads.length} threads changed`,
+    );
+    return updated;
+  }
+
   // ---------------- Parsers ----------------
 
   private parseGmailThread(
     threadData: gmail_v1.Schema$Thread,
     userEmail?: string,
+    isBodyLoaded: boolean = true,
   ): EmailThread | null {
     try {
       if (!threadData.messages || threadData.messages.length === 0) {
@@ -2012,6 +3718,7 @@ export class EmailService {
           try {
             const message = this.parseGmailMessageContent(
               messageData as GmailMessageData,
+              isBodyLoaded,
             );
             messages.push(message);
           } catch (e) {
@@ -2066,6 +3773,7 @@ export class EmailService {
 
   private parseGmailMessageContent(
     messageData: GmailMessageData,
+    isBodyLoaded: boolean = true,
   ): EmailMessage {
     const headers = messageData.payload?.headers || [];
     const getHeader = (n: string) =>
@@ -2091,8 +3799,14 @@ export class EmailService {
         ? (toMatch as RegExpMatchArray)[2]
         : to;
 
-    const body = this.extractGmailBody(messageData.payload);
-    const html = this.extractGmailHtmlBody(messageData.payload);
+    // Fetched without bodies, the snippet stands in for classification and
+    // search until the body is loaded, in the background or on opening
+    const body = isBodyLoaded
+      ? this.extractGmailBody(messageData.payload)
+      : messageData.snippet;
+    const html = isBodyLoaded
+      ? this.extractGmailHtmlBody(messageData.payload)
+      : undefined;
     const attachments = this.extractGmailAttachments(messageData.payload);
 
     return {
@@ -2106,8 +3820,10 @@ export class EmailService {
       timestamp: new Date(date),
       body: body || "",
       htmlBody: html,
+      isBodyLoaded,
       attachments,
       isRead: !(messageData.labelIds || []).includes("UNREAD"),
+      listUnsubscribe: !!getHeader("List-Unsubscribe"),
     };
   }
 
@@ -2131,8 +3847,7 @@ export class EmailService {
       .filter((cat) => cat.startsWith("ZEROHANDS_"))
       .map((cat) => cat.replace("ZEROHANDS_", ""));
 
-    // Check if message is a draft (Outlook has no explicit draft flag in the message object in this context)
-    const isDraft = false; // Outlook drafts are typically in a separate folder
+    const isDraft = !!messageData.isDraft;
 
     // Calculate isImportant using the new logic if userEmail is provided
     let isImportant = false;
@@ -2204,6 +3919,7 @@ export class EmailService {
           : undefined,
       attachments,
       isRead: messageData.isRead,
+      listUnsubscribe: !!messageData.unsubscribeEnabled,
     };
   }
 
@@ -2350,18 +4066,22 @@ export class EmailService {
 
       // Download based on provider
       if (user.provider === "GOOGLE") {
-        return await this.downloadGmailAttachment(
-          user.accessToken,
-          messageId,
-          attachmentId,
-          user.id,
+        return await this.authClient.withAccessToken(user, (accessToken) =>
+          this.downloadGmailAttachment(
+            accessToken,
+            messageId,
+            attachmentId,
+            user.id,
+          ),
         );
       } else if (user.provider === "OUTLOOK") {
-        return await this.downloadOutlookAttachment(
-          user.accessToken,
-          messageId,
-          attachmentId,
-          user.id,
+        return await this.authClient.withAccessToken(user, (accessToken) =>
+          this.downloadOutlookAttachment(
+            accessToken,
+            messageId,
+            attachmentId,
+            user.id,
+          ),
         );
       } else {
         throw new Error(`Unsupported provider: ${user.provider}`);
@@ -2399,10 +4119,11 @@ export class EmailService {
       });
 
       // Get attachment metadata from database
-      const attachmentMeta = await this.databaseService.getEmailAttachmentByExternalId(
-        attachmentId,
-        userId,
-      );
+      const attachmentMeta =
+        await this.databaseService.getEmailAttachmentByExternalId(
+          attachmentId,
+          userId,
+        );
 
       if (!attachmentMeta) {
         throw new Error("Attachment metadata not found in database");
@@ -2461,10 +4182,11 @@ export class EmailService {
       }
 
       // Get attachment metadata from database
-      const attachmentMeta = await this.databaseService.getEmailAttachmentByExternalId(
-        attachmentId,
-        userId,
-      );
+      const attachmentMeta =
+        await this.databaseService.getEmailAttachmentByExternalId(
+          attachmentId,
+          userId,
+        );
 
       if (!attachmentMeta) {
         throw new Error("Attachment metadata not found in database");
@@ -0,0 +1,309 @@
+import { FollowUp } from "@prisma/client";
+
+import { DatabaseService } from "./database";
+import { EmailService } from "./email";
+import { DraftingService } from "./drafting";
+import { ScheduledWorker } from "./scheduled-worker";
+import { parseDraftAddresses } from "../lib/drafts";
+import {
+  FollowUpStatus,
+  getFollowUpDueAt,
+  hasFollowUpReply,
+} from "../lib/follow-ups";
+import { FOLLOW_UP_DRAFT_PROMPT } from "../lib/prompts/drafting";
+import { INBOX_FOLDER_ID, ThreadAction } from "../lib/thread-actions";
+
+// ---------------- Types ----------------
+
+export interface FollowUpDetails {
+  id: string;
+  threadId: string;
+  subject: string;
+  recipients: string[];
+  sentAt: Date;
+  dueAt: Date;
+  status: FollowUpStatus;
+  predraft: string | null; // Plain text
+  firedAt: Date | null;
+}
+
+export interface ScheduleFollowUpInput {
+  threadId: string;
+  subject: string;
+  recipients: string[];
+  hours: number; // Without a reply by then, the thread comes back
+  sentAt?: Date; // Defaults to now
+}
+
+// Reported to the renderer when a thread comes back for a follow-up
+export interface FollowUpDueEvent {
+  id: string;
+  userEmail: string;
+  threadId: string;
+  subject: string;
+  hasPredraft: boolean;
+}
+
+// ---------------- Helpers ----------------
+
+// Reminders scheduled by another service instance (the outbox's) are picked
+// up within this
+const MAX_IDLE_MS = 60 * 1000;
+
+function toFollowUpDetails(followUp: FollowUp): FollowUpDetails {
+  return {
+    id: followUp.id,
+    threadId: followUp.threadId,
+    subject: followUp.subject,
+    recipients: parseDraftAddresses(followUp.recipients),
+    sentAt: followUp.sentAt,
+    dueAt: followUp.dueAt,
+    status: followUp.status as FollowUpStatus,
+    predraft: followUp.predraft,
+    firedAt: followUp.firedAt,
+  };
+}
+
+// ---------------- Service ----------------
+
+export class FollowUpService {
+  private databaseService: DatabaseService;
+  private emailService: EmailService;
+  private draftingService: DraftingService;
+  private worker: ScheduledWorker;
+  private onDue?: (event: FollowUpDueEvent) => void;
+
+  constructor() {
+    this.databaseService = new DatabaseService();
+    this.emailService = new EmailService();
+    this.draftingService = new DraftingService();
+    this.worker = new ScheduledWorker({
+      name: "FOLLOW_UPS",
+      maxIdleMs: MAX_IDLE_MS,
+      run: () => this.processDue(),
+      getNextRunInMs: async () => {
+        const next = await this.databaseService.getNextFollowUpDueAt();
+        return next ? next.getTime() - Date.now() : MAX_IDLE_MS;
+      },
+    });
+  }
+
+  /**
+   * Check reminders in the background from now on. They're kept in the
+   * database, so ones that came due while the app was closed fire right away.
+   */
+  start(onDue?: (event: FollowUpDueEvent) => void) {
+    this.onDue = onDue;
+    this.worker.start();
+  }
+
+  stop() {
+    this.worker.stop();
+  }
+
+  /**
+   * Bring the thread back if nobody replies within `hours`. Replaces the
+   * thread's earlier reminder.
+   */
+  async scheduleFollowUp(
+    userEmail: string,
+    input: ScheduleFollowUpInput,
+  ): Promise<FollowUpDetails> {
+    const user = await this.findUser(userEmail);
+    if (!(input.hours > 0)) throw new Error("Follow-up time must be positive");
+
+    const sentAt = input.sentAt ?? new Date();
+    await this.databaseService.closeThreadFollowUps(user.id, input.threadId);
+    const followUp = await this.databaseService.createFollowUp(user.id, {
+      threadId: input.threadId,
+      subject: input.subject,
+      recipients: JSON.stringify(input.recipients),
+      sentAt,
+      dueAt: getFollowUpDueAt(sentAt, input.hours),
+    });
+
+    console.log(
+      `[FOLLOW_UPS] Scheduled ${followUp.id} on thread ${input.threadId} for ${followUp.dueAt.toISOString()}`,
+    );
+    void this.worker.wake();
+    return toFollowUpDetails(followUp);
+  }
+
+  async getThreadFollowUp(
+    userEmail: string,
+    threadId: string,
+  ): Promise<FollowUpDetails | null> {
+    const user = await this.findUser(userEmail);
+    const followUp = await this.databaseService.getOpenThreadFollowUp(
+      user.id,
+      threadId,
+    );
+    return followUp ? toFollowUpDetails(followUp) : null;
+  }
+
+  /**
+   * Close a reminder: cancelled before it came due, or followed up on
+   */
+  async dismissFollowUp(userEmail: string, id: string): Promise<void> {
+    const user = await this.findUser(userEmail);
+    const followUp = await this.databaseService.getFollowUpById(id);
+    if (!followUp || followUp.userId !== user.id) {
+      throw new Error("Follow-up not found");
+    }
+    await this.databaseService.updateFollowUpIfStatus(id, ["pending", "due"], {
+      status: "done",
+    });
+  }
+
+  private async processDue() {
+    const due = await this.databaseService.getDueFollowUps(new Date());
+    // Fetch new mail once per account before looking for replies
+    const synced = new Set<string>();
+    for (const followUp of due) {
+      try {
+        await this.fireFollowUp(followUp, synced);
+      } catch (error) {
+        console.error(
+          `[FOLLOW_UPS] Error checking follow-up ${followUp.id}:`,
+          error,
+        );
+      }
+    }
+  }
+
+  private async fireFollowUp(followUp: FollowUp, synced: Set<string>) {
+    const user = await this.databaseService.findUserById(followUp.userId);
+    if (!user) return;
+
+    if (!synced.has(user.id)) {
+      synced.add(user.id);
+      try {
+        await this.emailService.performIncrementalSync(user.email);
+      } catch (error) {
+        // Offline, decide on what's stored locally
+        console.warn(
+          `[FOLLOW_UPS] Couldn't sync ${user.email}, checking local mail:`,
+          error,
+        );
+      }
+    }
+
+    const watch = {
+      threadId: followUp.threadId,
+      subject: followUp.subject,
+      recipients: parseDraftAddresses(followUp.recipients),
+      sentAt: followUp.sentAt,
+    };
+    const messages = await this.databaseService.getEmailsSince(
+      user.id,
+      followUp.sentAt,
+    );
+    if (hasFollowUpReply(watch, messages, user.email)) {
+      await this.databaseService.updateFollowUpIfStatus(
+        followUp.id,
+        ["pending"],
+        { status: "replied" },
+      );
+      console.log(`[FOLLOW_UPS] Thread ${followUp.threadId} got a reply`);
+      return;
+    }
+
+    const threadId = await this.resurfaceThread(user.email, followUp.threadId);
+    const predraft = await this.writePredraft(user.email, {
+      ...watch,
+      threadId,
+    });
+    const fired = await this.databaseService.updateFollowUpIfStatus(
+      followUp.id,
+      ["pending"],
+      { status: "due", firedAt: new Date(), threadId, predraft },
+    );
+    if (!fired) return; // Dismissed meanwhile
+
+    console.log(
+      `[FOLLOW_UPS] No reply on thread ${threadId}, brought it back for ${user.email}`,
+    );
+    try {
+      this.onDue?.({
+        id: followUp.id,
+        userEmail: user.email,
+        threadId,
+        subject: followUp.subject,
+        hasPredraft: !!predraft,
+      });
+    } catch (error) {
+      console.error("[FOLLOW_UPS] Error reporting follow-up:", error);
+    }
+  }
+
+  /**
+   * Put the thread back at the user's attention: out of snooze, archive or a
+   * folder, and unread. Trashed threads are left alone. Resolves with the
+   * thread id, which Outlook changes when a message moves.
+   */
+  private async resurfaceThread(
+    userEmail: string,
+    threadId: string,
+  ): Promise<string> {
+    const user = await this.findUser(userEmail);
+    const thread = await this.databaseService.getEmailThreadByExternalId(
+      user.id,
+      threadId,
+    );
+    if (!thread || thread.isTrashed) return threadId;
+
+    const actions: ThreadAction[] = [];
+    if (thread.snoozedUntil && thread.snoozedUntil > new Date()) {
+      actions.push({ type: "unsnooze" });
+    }
+    if (thread.folderId) {
+      actions.push({ type: "move", folderId: INBOX_FOLDER_ID });
+    } else if (thread.isArchived) {
+      actions.push({ type: "unarchive" });
+    }
+    if (thread.isRead) actions.push({ type: "markUnread" });
+
+    let currentId = threadId;
+    for (const action of actions) {
+      try {
+        const result = await this.emailService.applyThreadAction(
+          userEmail,
+          currentId,
+          action,
+        );
+        currentId = result.threadId;
+      } catch (error) {
+        console.warn(
+          `[FOLLOW_UPS] Couldn't ${action.type} thread ${currentId}:`,
+          error,
+        );
+      }
+    }
+    return currentId;
+  }
+
+  // A suggested nudge for ThreadReply to show, null when the model fails
+  private async writePredraft(
+    userEmail: string,
+    watch: { threadId: string; subject: string; recipients: string[] },
+  ): Promise<string | null> {
+    try {
+      const { content } = await this.draftingService.generateDraft(userEmail, {
+        prompt: FOLLOW_UP_DRAFT_PROMPT,
+        threadId: watch.threadId,
+        subject: watch.subject,
+        recipients: watch.recipients,
+      });
+      return content.trim() ? content : null;
+    } catch (error) {
+      console.warn("[FOLLOW_UPS] Couldn't write a follow-up draft:", error);
+      return null;
+    }
+  }
+
+  private async findUser(userEmail: string) {
+    const user = await this.databaseService.findUserByEmail(userEmail);
+    if (!user) throw new Error("User not found");
+    return user;
+  }
+}
@@ -0,0 +1,156 @@
+import { DatabaseService } from "./database";
+import { EmailService } from "./email";
+import { ScheduledWorker } from "./scheduled-worker";
+import {
+  BACKFILL_PAGE_DELAY_MS,
+  DEFAULT_SYNC_WINDOW,
+  InitialSyncProgress,
+  InitialSyncState,
+  SyncWindow,
+  getInitialSyncStatus,
+  isSyncWindow,
+} from "../lib/initial-sync";
+
+// ---------------- Types ----------------
+
+// Reported to the renderer over INITIAL_SYNC_PROGRESS
+export interface InitialSyncProgressEvent {
+  userEmail: string;
+  progress: InitialSyncProgress;
+}
+
+// ---------------- Helpers ----------------
+
+// Accounts whose first page was fetched by another service instance
+// (sign-in's) are picked up within this
+const MAX_IDLE_MS = 60 * 1000;
+
+// ---------------- Service ----------------
+
+/**
+ * Backfills each account's sync window after its first page, a page at a
+ * time and a few seconds apart. The checkpoint is saved after every page, so
+ * the backfill picks up where it stopped after a restart.
+ */
+export class InitialSyncService {
+  private databaseService: DatabaseService;
+  private emailService: EmailService;
+  private worker: ScheduledWorker;
+  private hasMore = false; // The last run left pages to fetch
+  private onProgress?: (event: InitialSyncProgressEvent) => void;
+
+  constructor() {
+    this.databaseService = new DatabaseService();
+    this.emailService = new EmailService();
+    this.worker = new ScheduledWorker({
+      name: "INITIAL_SYNC",
+      maxIdleMs: MAX_IDLE_MS,
+      run: () => this.processBackfill(),
+      getNextRunInMs: async () =>
+        this.hasMore ? BACKFILL_PAGE_DELAY_MS : MAX_IDLE_MS,
+    });
+  }
+
+  start(onProgress?: (event: InitialSyncProgressEvent) => void) {
+    this.onProgress = onProgress;
+    this.worker.start(BACKFILL_PAGE_DELAY_MS);
+  }
+
+  stop() {
+    this.worker.stop();
+  }
+
+  async getState(userEmail: string): Promise<InitialSyncState> {
+    const user = await this.findUser(userEmail);
+    return this.toState(user.id);
+  }
+
+  /**
+   * Sync the account's mail this far back from now on. Mail already stored
+   * stays, whatever the window.
+   */
+  async setWindow(
+    userEmail: string,
+    syncWindow: SyncWindow,
+  ): Promise<InitialSyncState> {
+    if (!isSyncWindow(syncWindow)) throw new Error("Invalid sync window");
+    const user = await this.findUser(userEmail);
+    await this.databaseService.setSyncWindow(user.id, syncWindow);
+    console.log(`[INITIAL_SYNC] ${userEmail} now syncs the last ${syncWindow}`);
+    this.wake();
+    return this.toState(user.id);
+  }
+
+  async pause(userEmail: string): Promise<InitialSyncState> {
+    return this.setPaused(userEmail, true);
+  }
+
+  async resume(userEmail: string): Promise<InitialSyncState> {
+    const state = await this.setPaused(userEmail, false);
+    this.wake();
+    return state;
+  }
+
+  // Backfill soon, after a sign-in fetched an account's first page
+  wake() {
+    this.worker.runIn(BACKFILL_PAGE_DELAY_MS);
+  }
+
+  private async setPaused(
+    userEmail: string,
+    paused: boolean,
+  ): Promise<InitialSyncState> {
+    const user = await this.findUser(userEmail);
+    await this.databaseService.setInitialSyncPaused(user.id, paused);
+    const state = await this.toState(user.id);
+    this.onProgress?.({
+      userEmail,
+      progress: {
+        processed: state.processed,
+        total: state.processed,
+        currentEmail: "",
+        phase: "backfill",
+        status: state.status,
+      },
+    });
+    return state;
+  }
+
+  // A page for every account with more to fetch, then a pause
+  private async processBackfill() {
+    this.hasMore = false;
+    const users = await this.databaseService.getBackfillUsers();
+    for (const user of users) {
+      try {
+        await this.emailService.syncInitialSyncPage(
+          user.email,
+          "backfill",
+          (progress) => this.onProgress?.({ userEmail: user.email, progress }),
+        );
+        const state = await this.toState(user.id);
+        this.hasMore ||= state.status === "syncing";
+      } catch (error) {
+        // Offline or rate limited, try again after the idle wait
+        console.error(`[INITIAL_SYNC] Error backfilling ${user.email}:`, error);
+      }
+    }
+  }
+
+  private async toState(userId: string): Promise<InitialSyncState> {
+    const checkpoint =
+      await this.databaseService.getInitialSyncCheckpoint(userId);
+    return {
+      window: isSyncWindow(checkpoint.syncWindow)
+        ? checkpoint.syncWindow
+        : DEFAULT_SYNC_WINDOW,
+      status: getInitialSyncStatus(checkpoint),
+      processed: checkpoint.initialSyncProcessed,
+    };
+  }
+
+  private async findUser(userEmail: string) {
+    const user = await this.databaseService.findUserByEmail(userEmail);
+    if (!user) throw new Error("User not found");
+    return user;
+  }
+}
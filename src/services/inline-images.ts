@@ -0,0 +1,116 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+import { getUserDataDirectory, writeFileAtomic } from "./user-files";
+import { MimeInlineImage } from "../lib/mime";
+import {
+  MAX_INLINE_IMAGE_BYTES,
+  findInlineImages,
+  getInlineImageContentId,
+  getInlineImageMimeType,
+  getInlineImageName,
+  getInlineImageUrl,
+  replaceInlineImageSources,
+} from "../lib/inline-images";
+
+// ---------------- Types ----------------
+
+export interface StoredInlineImage {
+  name: string;
+  url: string; // inline-image:// URL for the editor
+  size: number;
+}
+
+export interface EmbeddedInlineImages {
+  html: string; // With cid: sources
+  images: MimeInlineImage[];
+}
+
+// ---------------- Helpers ----------------
+
+/**
+ * Graph's shape for an inline image attached to a message
+ */
+export function toGraphInlineAttachment(image: MimeInlineImage) {
+  return {
+    "@odata.type": "#microsoft.graph.fileAttachment",
+    name: image.filename,
+    contentType: image.mimeType,
+    contentBytes: image.data,
+    contentId: image.contentId,
+    isInline: true,
+  };
+}
+
+// ---------------- Service ----------------
+
+export class InlineImageService {
+  private get directory(): string {
+    return getUserDataDirectory("inline-images");
+  }
+
+  /**
+   * Keep an image for the composer. Identical images are stored once.
+   */
+  async saveImage(
+    data: Uint8Array,
+    mimeType: string,
+  ): Promise<StoredInlineImage> {
+    if (data.byteLength === 0) throw new Error("This image is empty");
+    if (data.byteLength > MAX_INLINE_IMAGE_BYTES) {
+      throw new Error(
+        `Images can be at most ${MAX_INLINE_IMAGE_BYTES / 1024 / 1024} MB`,
+      );
+    }
+
+    const hash = createHash("sha256").update(data).digest("hex");
+    const name = getInlineImageName(hash, mimeType);
+    const filePath = path.join(this.directory, name);
+
+    try {
+      await fs.access(filePath);
+    } catch {
+      await writeFileAtomic(filePath, data);
+      console.log(`[INLINE_IMAGES] Stored ${name} (${data.byteLength} bytes)`);
+    }
+
+    return { name, url: getInlineImageUrl(name), size: data.byteLength };
+  }
+
+  /**
+   * Read a stored image. `name` must come from parseInlineImageUrl or
+   * findInlineImages, which only accept well-formed names.
+   */
+  async readImage(name: string): Promise<{ data: Buffer; mimeType: string }> {
+    const data = await fs.readFile(path.join(this.directory, name));
+    return { data, mimeType: getInlineImageMimeType(name) };
+  }
+
+  /**
+   * Swap the body's stored images for cid: references and load the parts to
+   * send with it. Images missing from the store keep their local source.
+   */
+  async embedImages(html: string): Promise<EmbeddedInlineImages> {
+    const images: MimeInlineImage[] = [];
+    const embedded: string[] = [];
+
+    for (const name of findInlineImages(html)) {
+      try {
+        const { data, mimeType } = await this.readImage(name);
+        images.push({
+          contentId: getInlineImageContentId(name),
+          filename: `image-${images.length + 1}${path.extname(name)}`,
+          mimeType,
+          data: data.toString("base64"),
+        });
+        embedded.push(name);
+      } catch (error) {
+        console.warn(`[INLINE_IMAGES] Missing image ${name}:`, error);
+      }
+    }
+
+    if (embedded.length === 0) return { html, images };
+    return { html: replaceInlineImageSources(html, embedded), images };
+  }
+}
@@ -0,0 +1,193 @@
+import { CustomLabel } from "@prisma/client";
+
+import { DatabaseService } from "./database";
+import {
+  DEFAULT_LABEL_DEFINITIONS,
+  EMAIL_LABELS,
+  LabelDefinition,
+} from "../lib/prompts/labels";
+import { findLabelColor } from "../lib/label-colors";
+
+// ---------------- Types ----------------
+
+export interface CustomLabelSettings {
+  id: string;
+  name: string;
+  color: string;
+  description: string;
+  examples: string[];
+}
+
+export interface CreateCustomLabelInput {
+  name: string;
+  color: string;
+  description: string;
+  examples?: string[];
+}
+
+// The name is fixed once created: it's the value stored on labelled emails
+// and the name of the provider label
+export type UpdateCustomLabelInput = Partial<
+  Omit<CreateCustomLabelInput, "name">
+>;
+
+// ---------------- Helpers ----------------
+
+const LABEL_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,29}$/;
+const MAX_EXAMPLES = 5;
+
+function parseExamples(examples: string | null): string[] {
+  if (!examples) return [];
+  try {
+    const parsed = JSON.parse(examples);
+    return Array.isArray(parsed)
+      ? parsed.filter((e): e is string => typeof e === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function toLabelSettings(label: CustomLabel): CustomLabelSettings {
+  return {
+    id: label.id,
+    name: label.name,
+    color: label.color,
+    description: label.description,
+    examples: parseExamples(label.examples),
+  };
+}
+
+function normalizeName(name: string): string {
+  const normalized = (name || "").trim().toLowerCase().replace(/\s+/g, "-");
+  if (!LABEL_NAME_PATTERN.test(normalized)) {
+    throw new Error(
+      "Label names use letters, numbers and dashes, up to 30 characters",
+    );
+  }
+  if ((EMAIL_LABELS as readonly string[]).includes(normalized)) {
+    throw new Error(`"${normalized}" is a built-in label`);
+  }
+  return normalized;
+}
+
+function normalizeColor(color: string): string {
+  const match = findLabelColor(color || "");
+  if (!match) throw new Error(`Unsupported label colour: ${color}`);
+  return match.hex;
+}
+
+function normalizeDescription(description: string): string {
+  const trimmed = (description || "").trim();
+  if (!trimmed) throw new Error("A description is required");
+  return trimmed;
+}
+
+function serializeExamples(examples: string[] | undefined): string | null {
+  const cleaned = (examples || [])
+    .map((e) => e.trim())
+    .filter(Boolean)
+    .slice(0, MAX_EXAMPLES);
+  return cleaned.length ? JSON.stringify(cleaned) : null;
+}
+
+// ---------------- Service ----------------
+
+export class LabelService {
+  private databaseService: DatabaseService;
+
+  constructor() {
+    this.databaseService = new DatabaseService();
+  }
+
+  async getCustomLabels(userEmail: string): Promise<CustomLabelSettings[]> {
+    const user = await this.findUser(userEmail);
+    const labels = await this.databaseService.getCustomLabels(user.id);
+    return labels.map(toLabelSettings);
+  }
+
+  async createCustomLabel(
+    userEmail: string,
+    input: CreateCustomLabelInput,
+  ): Promise<CustomLabelSettings> {
+    const user = await this.findUser(userEmail);
+    const name = normalizeName(input.name);
+
+    const existing = await this.databaseService.getCustomLabels(user.id);
+    if (existing.some((label) => label.name === name)) {
+      throw new Error(`A label named "${name}" already exists`);
+    }
+
+    const created = await this.databaseService.createCustomLabel(user.id, {
+      name,
+      color: normalizeColor(input.color),
+      description: normalizeDescription(input.description),
+      examples: serializeExamples(input.examples),
+    });
+    console.log(`[LABELS] Created label ${created.name} for ${userEmail}`);
+    return toLabelSettings(created);
+  }
+
+  async updateCustomLabel(
+    userEmail: string,
+    id: string,
+    input: UpdateCustomLabelInput,
+  ): Promise<CustomLabelSettings> {
+    await this.findOwnedLabel(userEmail, id);
+
+    const updated = await this.databaseService.updateCustomLabel(id, {
+      ...(input.color !== undefined && { color: normalizeColor(input.color) }),
+      ...(input.description !== undefined && {
+        description: normalizeDescription(input.description),
+      }),
+      ...(input.examples !== undefined && {
+        examples: serializeExamples(input.examples),
+      }),
+    });
+    console.log(`[LABELS] Updated label ${updated.name} for ${userEmail}`);
+    return toLabelSettings(updated);
+  }
+
+  /**
+   * Remove a label from future classification. Emails already labelled keep
+   * it, as does the provider's copy of the label.
+   */
+  async deleteCustomLabel(userEmail: string, id: string): Promise<void> {
+    const label = await this.findOwnedLabel(userEmail, id);
+    await this.databaseService.deleteCustomLabel(id);
+    console.log(`[LABELS] Deleted label ${label.name} for ${userEmail}`);
+  }
+
+  /**
+   * Labels the classifier may assign for a user: built-ins then their own
+   */
+  async getLabelDefinitions(userId: string): Promise<LabelDefinition[]> {
+    const custom = await this.databaseService.getCustomLabels(userId);
+    return [
+      ...DEFAULT_LABEL_DEFINITIONS,
+      ...custom.map((label) => ({
+        name: label.name,
+        description: label.description,
+        examples: parseExamples(label.examples),
+      })),
+    ];
+  }
+
+  private async findUser(userEmail: string) {
+    const user = await this.databaseService.findUserByEmail(userEmail);
+    if (!user) throw new Error("User not found");
+    return user;
+  }
+
+  private async findOwnedLabel(
+    userEmail: string,
+    id: string,
+  ): Promise<CustomLabel> {
+    const user = await this.findUser(userEmail);
+    const label = await this.databaseService.getCustomLabelById(id);
+    if (!label || label.userId !== user.id) {
+      throw new Error(`Label not found: ${id}`);
+    }
+    return label;
+  }
+}
@@ -0,0 +1,224 @@
+import { safeStorage } from "electron";
+import type { LanguageModel } from "ai";
+import { LlmProvider } from "@prisma/client";
+
+import { DatabaseService } from "./database";
+import {
+  LlmFeature,
+  LlmProviderKind,
+  LLM_FEATURES,
+  createLanguageModel,
+  isLlmFeature,
+  isLlmProviderKind,
+} from "../lib/models";
+import { createOfflineModel } from "../lib/offline-model";
+
+// ---------------- Types ----------------
+
+// Provider as seen by the renderer. The API key never leaves the main process.
+export interface LlmProviderSettings {
+  id: string;
+  name: string;
+  kind: LlmProviderKind;
+  baseUrl: string | null;
+  hasApiKey: boolean;
+}
+
+export interface SaveLlmProviderInput {
+  id?: string;
+  name: string;
+  kind: LlmProviderKind;
+  baseUrl?: string | null;
+  apiKey?: string | null; // undefined keeps the stored key, null or "" clears it
+}
+
+export interface LlmFeatureModelSettings {
+  feature: LlmFeature;
+  providerId: string | null; // null uses the offline stub
+  model: string;
+}
+
+// ---------------- Shared state ----------------
+
+// Resolved models are shared across service instances and dropped whenever
+// settings change, so labelling a large batch doesn't decrypt the key per call
+const modelCache = new Map<LlmFeature, LanguageModel>();
+
+// ---------------- Helpers ----------------
+
+function toProviderSettings(provider: LlmProvider): LlmProviderSettings {
+  return {
+    id: provider.id,
+    name: provider.name,
+    kind: isLlmProviderKind(provider.kind) ? provider.kind : "offline",
+    baseUrl: provider.baseUrl,
+    hasApiKey: !!provider.encryptedApiKey,
+  };
+}
+
+function normalizeBaseUrl(
+  kind: LlmProviderKind,
+  baseUrl: string | null | undefined,
+): string | null {
+  const trimmed = baseUrl?.trim();
+  if (kind === "offline") return null;
+  if (!trimmed) {
+    if (kind === "openai-compatible") {
+      throw new Error("A base URL is required for OpenAI-compatible providers");
+    }
+    return null;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    throw new Error(`Invalid base URL: ${trimmed}`);
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new Error("Base URL must use http or https");
+  }
+  return trimmed.replace(/\/+$/, "");
+}
+
+// ---------------- Service ----------------
+
+export class LlmSettingsService {
+  private databaseService: DatabaseService;
+
+  constructor() {
+    this.databaseService = new DatabaseService();
+  }
+
+  async getProviders(): Promise<LlmProviderSettings[]> {
+    const providers = await this.databaseService.getLlmProviders();
+    return providers.map(toProviderSettings);
+  }
+
+  async saveProvider(
+    input: SaveLlmProviderInput,
+  ): Promise<LlmProviderSettings> {
+    const name = input.name?.trim();
+    if (!name) throw new Error("Provider name is required");
+    if (!isLlmProviderKind(input.kind)) {
+      throw new Error(`Unknown provider kind: ${input.kind}`);
+    }
+
+    let encryptedApiKey: string | null | undefined;
+    if (input.kind === "offline" || input.apiKey === null) {
+      encryptedApiKey = null;
+    } else if (input.apiKey !== undefined) {
+      encryptedApiKey = input.apiKey.trim()
+        ? this.encryptApiKey(input.apiKey.trim())
+        : null;
+    }
+
+    const saved = await this.databaseService.saveLlmProvider(input.id, {
+      name,
+      kind: input.kind,
+      baseUrl: normalizeBaseUrl(input.kind, input.baseUrl),
+      encryptedApiKey,
+    });
+    modelCache.clear();
+
+    console.log(`[LLM_SETTINGS] Saved provider ${saved.name} (${saved.kind})`);
+    return toProviderSettings(saved);
+  }
+
+  async deleteProvider(id: string): Promise<void> {
+    await this.databaseService.deleteLlmProvider(id);
+    modelCache.clear();
+    console.log(`[LLM_SETTINGS] Deleted provider ${id}`);
+  }
+
+  async getFeatureModels(): Promise<LlmFeatureModelSettings[]> {
+    const assignments = await this.databaseService.getLlmFeatureModels();
+    return LLM_FEATURES.map((feature) => {
+      const assignment = assignments.find((a) => a.feature === feature);
+      return {
+        feature,
+        providerId: assignment?.providerId ?? null,
+        model: assignment?.model ?? "",
+      };
+    });
+  }
+
+  async setFeatureModel(
+    feature: LlmFeature,
+    providerId: string | null,
+    model: string,
+  ): Promise<void> {
+    if (!isLlmFeature(feature)) {
+      throw new Error(`Unknown feature: ${feature}`);
+    }
+
+    if (!providerId) {
+      await this.databaseService.clearLlmFeatureModel(feature);
+    } else {
+      const provider =
+        await this.databaseService.getLlmProviderById(providerId);
+      if (!provider) throw new Error(`Provider not found: ${providerId}`);
+
+      const modelId = model.trim();
+      if (!modelId && provider.kind !== "offline") {
+        throw new Error("A model name is required");
+      }
+      await this.databaseService.setLlmFeatureModel(
+        feature,
+        providerId,
+        modelId || "offline",
+      );
+    }
+    modelCache.delete(feature);
+  }
+
+  /**
+   * Model configured for a feature. Falls back to the offline stub when
+   * nothing is configured, so mail is never sent to an endpoint the user
+   * hasn't chosen.
+   */
+  async getModelForFeature(feature: LlmFeature): Promise<LanguageModel> {
+    const cached = modelCache.get(feature);
+    if (cached) return cached;
+
+    const assignment = await this.databaseService.getLlmFeatureModel(feature);
+    let model: LanguageModel;
+    if (!assignment) {
+      console.log(
+        `[LLM_SETTINGS] No model configured for ${feature}, using offline stub`,
+      );
+      model = createOfflineModel(feature);
+    } else {
+      const { provider } = assignment;
+      model = createLanguageModel(
+        {
+          id: provider.id,
+          name: provider.name,
+          kind: isLlmProviderKind(provider.kind) ? provider.kind : "offline",
+          baseUrl: provider.baseUrl,
+          apiKey: provider.encryptedApiKey
+            ? this.decryptApiKey(provider.encryptedApiKey)
+            : null,
+        },
+        assignment.model,
+        feature,
+      );
+    }
+
+    modelCache.set(feature, model);
+    return model;
+  }
+
+  private encryptApiKey(apiKey: string): string {
+    if (!safeStorage.isEncryptionAvailable()) {
+      throw new Error(
+        "Secure storage is not available, so the API key can't be saved",
+      );
+    }
+    return safeStorage.encryptString(apiKey).toString("base64");
+  }
+
+  private decryptApiKey(encryptedApiKey: string): string {
+    return safeStorage.decryptString(Buffer.from(encryptedApiKey, "base64"));
+  }
+}
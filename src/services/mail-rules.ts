@@ -0,0 +1,195 @@
+import { MailRule } from "@prisma/client";
+
+import { DatabaseService } from "./database";
+import {
+  MailRuleDefinition,
+  RuleAction,
+  RuleActionPlan,
+  RuleCondition,
+  RuleTarget,
+  matchesMailRule,
+  planRuleActions,
+  validateMailRule,
+} from "../lib/mail-rules";
+
+// ---------------- Types ----------------
+
+export interface MailRuleSettings extends MailRuleDefinition {
+  id: string;
+  createdAt: Date;
+}
+
+export interface SaveMailRuleInput extends MailRuleDefinition {
+  id?: string;
+}
+
+export interface RuleDryRunMatch {
+  threadId: string; // Provider thread id
+  subject: string;
+  sender: string;
+  senderEmail: string;
+  timestamp: Date;
+  plan: RuleActionPlan;
+}
+
+// Fields of a stored message a rule can look at
+interface RuleMessage {
+  subject: string;
+  sender: string;
+  senderEmail: string;
+  recipient: string;
+  recipientEmail: string;
+}
+
+// ---------------- Helpers ----------------
+
+// How many recent threads a dry run looks at
+const DRY_RUN_THREAD_LIMIT = 500;
+
+function parseJsonArray<T>(value: string): T[] {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function toRuleSettings(rule: MailRule): MailRuleSettings {
+  return {
+    id: rule.id,
+    name: rule.name,
+    enabled: rule.enabled,
+    matchAll: rule.matchAll,
+    conditions: parseJsonArray<RuleCondition>(rule.conditions),
+    actions: parseJsonArray<RuleAction>(rule.actions),
+    createdAt: rule.createdAt,
+  };
+}
+
+export function buildRuleTarget(
+  message: RuleMessage,
+  labels: string[],
+  hasAttachments: boolean,
+): RuleTarget {
+  return {
+    sender: message.sender,
+    senderEmail: message.senderEmail,
+    recipients: [message.recipient, message.recipientEmail].filter(Boolean),
+    subject: message.subject,
+    labels,
+    hasAttachments,
+  };
+}
+
+// ---------------- Service ----------------
+
+export class MailRuleService {
+  private databaseService: DatabaseService;
+
+  constructor() {
+    this.databaseService = new DatabaseService();
+  }
+
+  async getRules(userEmail: string): Promise<MailRuleSettings[]> {
+    const user = await this.findUser(userEmail);
+    const rules = await this.databaseService.getMailRules(user.id);
+    return rules.map(toRuleSettings);
+  }
+
+  /**
+   * Enabled rules in the order they run, for sync
+   */
+  async getActiveRules(userId: string): Promise<MailRuleSettings[]> {
+    const rules = await this.databaseService.getMailRules(userId);
+    return rules.map(toRuleSettings).filter((rule) => rule.enabled);
+  }
+
+  async saveRule(
+    userEmail: string,
+    input: SaveMailRuleInput,
+  ): Promise<MailRuleSettings> {
+    const user = await this.findUser(userEmail);
+    const rule = validateMailRule(input);
+    const data = {
+      name: rule.name,
+      enabled: rule.enabled,
+      matchAll: rule.matchAll,
+      conditions: JSON.stringify(rule.conditions),
+      actions: JSON.stringify(rule.actions),
+    };
+
+    let saved: MailRule;
+    if (input.id) {
+      await this.findOwnedRule(user.id, input.id);
+      saved = await this.databaseService.updateMailRule(input.id, data);
+    } else {
+      saved = await this.databaseService.createMailRule(user.id, data);
+    }
+    console.log(`[MAIL_RULES] Saved rule "${saved.name}" for ${userEmail}`);
+    return toRuleSettings(saved);
+  }
+
+  async deleteRule(userEmail: string, id: string): Promise<void> {
+    const user = await this.findUser(userEmail);
+    await this.findOwnedRule(user.id, id);
+    await this.databaseService.deleteMailRule(id);
+    console.log(`[MAIL_RULES] Deleted rule ${id} for ${userEmail}`);
+  }
+
+  /**
+   * Threads already in the local store that a rule would act on, and what it
+   * would do to each. Nothing is changed.
+   */
+  async dryRun(
+    userEmail: string,
+    input: MailRuleDefinition,
+  ): Promise<RuleDryRunMatch[]> {
+    const user = await this.findUser(userEmail);
+    const rule = { ...validateMailRule(input), enabled: true };
+    const threads = await this.databaseService.getEmailThreadsWithMessages(
+      user.id,
+      DRY_RUN_THREAD_LIMIT,
+    );
+
+    const matches: RuleDryRunMatch[] = [];
+    for (const thread of threads) {
+      const labels = thread.labels.map((l) => l.label);
+      const message = thread.emails[thread.emails.length - 1];
+      const target = buildRuleTarget(
+        message ?? { ...thread, recipient: "", recipientEmail: "" },
+        labels,
+        thread.hasAttachments,
+      );
+
+      if (!matchesMailRule(rule, target)) continue;
+      matches.push({
+        threadId: thread.externalId,
+        subject: thread.subject,
+        sender: thread.sender,
+        senderEmail: thread.senderEmail,
+        timestamp: thread.timestamp,
+        plan: planRuleActions([rule], target),
+      });
+    }
+
+    console.log(
+      `[MAIL_RULES] Dry run of "${rule.name}" matched ${matches.length} of ${threads.length} threads`,
+    );
+    return matches;
+  }
+
+  private async findUser(userEmail: string) {
+    const user = await this.databaseService.findUserByEmail(userEmail);
+    if (!user) throw new Error("User not found");
+    return user;
+  }
+
+  private async findOwnedRule(userId: string, id: string): Promise<MailRule> {
+    const rule = await this.databaseService.getMailRuleById(id);
+    if (!rule || rule.userId !== userId) {
+      throw new Error(`Rule not found: ${id}`);
+    }
+    return rule;
+  }
+}
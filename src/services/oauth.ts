@@ -8,11 +8,17 @@ import { AddressInfo } from "net";
 export interface OAuthTokens {
   access_token: string;
   refresh_token?: string;
+  id_token?: string; // With the openid scope
   scope: string;
   token_type: string;
   expiry_date?: number;
 }
 
+export interface GoogleAuthOptions {
+  scopes?: string[]; // Asked for on top of the sign-in scopes
+  loginHint?: string; // The account to pick, when adding scopes to one
+}
+
 export interface GoogleUserInfo {
   id: string;
   email: string;
@@ -47,7 +53,7 @@ export class GoogleOAuthService {
     }
   }
 
-  async authenticate(): Promise<{
+  async authenticate(options: GoogleAuthOptions = {}): Promise<{
     tokens: OAuthTokens;
     userInfo: GoogleUserInfo;
   }> {
@@ -72,7 +78,8 @@ export class GoogleOAuthService {
       crypto.createHash("sha256").update(codeVerifier).digest(),
     );
 
-    // 4) Use granular, non-restricted scopes
+    // 4) Use granular scopes. Anything more is asked for when it's needed,
+    // and scopes granted before are kept.
     const scopes = [
       "openid",
       "email",
@@ -81,12 +88,15 @@ export class GoogleOAuthService {
       "https://www.googleapis.com/auth/contacts.readonly",
       "https://www.googleapis.com/auth/calendar.events",
       "https://www.googleapis.com/auth/drive.file",
+      ...(options.scopes ?? []),
     ];
 
     const authUrl = oauth2Client.generateAuthUrl({
       access_type: "offline",
       scope: scopes,
       prompt: "consent",
+      include_granted_scopes: true,
+      login_hint: options.loginHint,
       codeChallenge,
     });
 
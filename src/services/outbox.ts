@@ -0,0 +1,418 @@
+import { OutboxMessage } from "@prisma/client";
+
+import { DatabaseService } from "./database";
+import { EmailService, OutgoingAttachment, SentMessage } from "./email";
+import { DraftDetails, DraftService } from "./drafts";
+import { FollowUpService } from "./follow-ups";
+import { ScheduledWorker } from "./scheduled-worker";
+import { AccountSyncedEvent, onAccountSynced } from "./sync-scheduler";
+import {
+  DraftMode,
+  parseDraftAddresses,
+  plainTextToDraftHtml,
+} from "../lib/drafts";
+import {
+  MAX_SEND_ATTEMPTS,
+  OutboxStatus,
+  getOutboxSend,
+  getRetryDelayMs,
+  isRetryableSendError,
+  parseOutboxAttachments,
+} from "../lib/outbox";
+
+// ---------------- Types ----------------
+
+export interface OutboxItem {
+  id: string;
+  mode: DraftMode;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  subject: string;
+  body: string;
+  isHtml: boolean;
+  threadId: string | null;
+  replyToMessageId: string | null;
+  attachmentCount: number;
+  sendAt: Date;
+  status: OutboxStatus;
+  attempts: number;
+  lastError: string | null;
+}
+
+export interface QueueMessageInput {
+  mode: DraftMode;
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  body: string;
+  isHtml?: boolean; // Defaults to true
+  threadId?: string | null;
+  replyToMessageId?: string | null;
+  attachments?: OutgoingAttachment[];
+  followUpDuration?: number;
+  sendAt?: Date | string; // Defaults to now
+}
+
+// Reported to the renderer as queued mail goes out
+export interface OutboxStatusEvent {
+  id: string;
+  userEmail: string;
+  subject: string;
+  status: "sent" | "retrying" | "failed";
+  error?: string;
+  retryAt?: Date;
+}
+
+// ---------------- Helpers ----------------
+
+const MAX_IDLE_MS = 60 * 1000;
+
+function toOutboxItem(message: OutboxMessage): OutboxItem {
+  return {
+    id: message.id,
+    mode: message.mode as DraftMode,
+    to: parseDraftAddresses(message.to),
+    cc: parseDraftAddresses(message.cc),
+    bcc: parseDraftAddresses(message.bcc),
+    subject: message.subject,
+    body: message.body,
+    isHtml: message.isHtml,
+    threadId: message.threadId,
+    replyToMessageId: message.replyToMessageId,
+    attachmentCount: parseOutboxAttachments(message.attachments).length,
+    sendAt: message.sendAt,
+    status: message.status as OutboxStatus,
+    attempts: message.attempts,
+    lastError: message.lastError,
+  };
+}
+
+function parseSendAt(value: Date | string | undefined): Date {
+  const sendAt = value ? new Date(value) : new Date();
+  if (Number.isNaN(sendAt.getTime())) throw new Error("Invalid send time");
+  return sendAt;
+}
+
+// ---------------- Service ----------------
+
+export class OutboxService {
+  private databaseService: DatabaseService;
+  private emailService: EmailService;
+  private draftService: DraftService;
+  private followUpService: FollowUpService;
+  private worker: ScheduledWorker;
+  private isRunning = false;
+  private onStatusChange?: (event: OutboxStatusEvent) => void;
+  private unsubscribeSynced?: () => void;
+
+  constructor() {
+    this.databaseService = new DatabaseService();
+    this.emailService = new EmailService();
+    this.draftService = new DraftService();
+    this.followUpService = new FollowUpService();
+    this.worker = new ScheduledWorker({
+      name: "OUTBOX",
+      maxIdleMs: MAX_IDLE_MS,
+      run: () => this.processDue(),
+      getNextRunInMs: async () => {
+        const next = await this.databaseService.getNextOutboxSendAt();
+        return next ? next.getTime() - Date.now() : MAX_IDLE_MS;
+      },
+    });
+  }
+
+  /**
+   * Send due mail in the background from now on. Messages a previous run
+   * left mid-send are queued again, so a crash at the wrong moment can send
+   * one twice but never loses it. Mail that failed while offline goes out
+   * as soon as an account syncs again, not when its backoff runs out.
+   */
+  async start(onStatusChange?: (event: OutboxStatusEvent) => void) {
+    if (this.isRunning) return;
+    this.isRunning = true;
+    this.onStatusChange = onStatusChange;
+
+    const released = await this.databaseService.releaseSendingOutboxMessages();
+    if (released > 0) {
+      console.log(`[OUTBOX] Requeued ${released} interrupted messages`);
+    }
+    this.unsubscribeSynced = onAccountSynced((event) =>
+      this.retryAfterReconnect(event),
+    );
+    this.worker.start();
+  }
+
+  stop() {
+    this.isRunning = false;
+    this.unsubscribeSynced?.();
+    this.unsubscribeSynced = undefined;
+    this.worker.stop();
+  }
+
+  async queueMessage(
+    userEmail: string,
+    input: QueueMessageInput,
+  ): Promise<OutboxItem> {
+    const user = await this.findUser(userEmail);
+    if (input.to.length === 0) {
+      throw new Error("At least one recipient is required");
+    }
+
+    const message = await this.databaseService.createOutboxMessage(user.id, {
+      mode: input.mode,
+      to: JSON.stringify(input.to),
+      cc: JSON.stringify(input.cc || []),
+      bcc: JSON.stringify(input.bcc || []),
+      subject: input.subject,
+      body: input.body,
+      isHtml: input.isHtml ?? true,
+      threadId: input.threadId ?? null,
+      replyToMessageId: input.replyToMessageId ?? null,
+      attachments: input.attachments?.length
+        ? JSON.stringify(input.attachments)
+        : null,
+      followUpDuration: input.followUpDuration ?? null,
+      sendAt: parseSendAt(input.sendAt),
+    });
+
+    console.log(
+      `[OUTBOX] Queued ${message.mode} ${message.id} for ${userEmail} at ${message.sendAt.toISOString()}`,
+    );
+    void this.worker.wake();
+    return toOutboxItem(message);
+  }
+
+  async getOutbox(userEmail: string): Promise<OutboxItem[]> {
+    const user = await this.findUser(userEmail);
+    const messages = await this.databaseService.getOutboxMessages(user.id);
+    return messages.map(toOutboxItem);
+  }
+
+  /**
+   * Move a queued or failed message to a new time, with a fresh set of
+   * attempts
+   */
+  async rescheduleMessage(
+    userEmail: string,
+    id: string,
+    sendAt: Date | string,
+  ): Promise<OutboxItem> {
+    await this.findOwnedMessage(userEmail, id);
+    const updated = await this.databaseService.updateQueuedOutboxMessage(id, {
+      sendAt: parseSendAt(sendAt),
+      status: "scheduled",
+      attempts: 0,
+      lastError: null,
+    });
+    if (!updated) throw new Error("This message is already being sent");
+
+    void this.worker.wake();
+    const message = await this.databaseService.getOutboxMessageById(id);
+    if (!message) throw new Error("Message not found");
+    return toOutboxItem(message);
+  }
+
+  async cancelMessage(userEmail: string, id: string): Promise<void> {
+    await this.findOwnedMessage(userEmail, id);
+    const deleted = await this.databaseService.deleteQueuedOutboxMessage(id);
+    if (!deleted) throw new Error("This message is already being sent");
+    console.log(`[OUTBOX] Cancelled ${id} for ${userEmail}`);
+  }
+
+  /**
+   * Take a message out of the outbox and back into drafts for editing
+   */
+  async moveToDrafts(userEmail: string, id: string): Promise<DraftDetails> {
+    const { message } = await this.findOwnedMessage(userEmail, id);
+    if (parseOutboxAttachments(message.attachments).length > 0) {
+      throw new Error(
+        "Drafts can't keep attachments, reschedule or cancel this message instead",
+      );
+    }
+
+    const draft = await this.draftService.saveDraft(userEmail, {
+      mode: message.mode as DraftMode,
+      threadId: message.threadId,
+      replyToMessageId: message.replyToMessageId,
+      to: parseDraftAddresses(message.to),
+      cc: parseDraftAddresses(message.cc),
+      bcc: parseDraftAddresses(message.bcc),
+      subject: message.subject,
+      body: message.isHtml ? message.body : plainTextToDraftHtml(message.body),
+    });
+    if (!draft) throw new Error("This message is empty");
+
+    const deleted = await this.databaseService.deleteQueuedOutboxMessage(id);
+    if (!deleted) {
+      await this.draftService.deleteDraft(userEmail, draft.id);
+      throw new Error("This message is already being sent");
+    }
+    return draft;
+  }
+
+  private async retryAfterReconnect({
+    userEmail,
+    reconnected,
+  }: AccountSyncedEvent) {
+    if (!reconnected) return;
+    try {
+      const user = await this.databaseService.findUserByEmail(userEmail);
+      if (!user) return;
+      const count = await this.databaseService.retryOutboxMessagesNow(user.id);
+      if (count > 0) {
+        console.log(`[OUTBOX] Back online, retrying ${count} for ${userEmail}`);
+        await this.worker.wake();
+      }
+    } catch (error) {
+      console.error(`[OUTBOX] Error retrying mail for ${userEmail}:`, error);
+    }
+  }
+
+  private async processDue() {
+    const due = await this.databaseService.getDueOutboxMessages(new Date());
+    for (const message of due) {
+      // Cancelled or edited since the query
+      if (!(await this.databaseService.claimOutboxMessage(message.id))) {
+        continue;
+      }
+      await this.sendMessage(message);
+    }
+  }
+
+  private async sendMessage(message: OutboxMessage) {
+    const user = await this.databaseService.findUserById(message.userId);
+    if (!user) {
+      await this.databaseService.deleteOutboxMessage(message.id);
+      return;
+    }
+
+    const send = getOutboxSend(message);
+    try {
+      let sent: SentMessage | null;
+      if (send.reply) {
+        sent = await this.emailService.sendReply(user.email, {
+          to: send.to,
+          cc: send.cc,
+          bcc: send.bcc,
+          subject: send.subject,
+          body: send.body,
+          attachments: send.attachments,
+          ...send.reply,
+        });
+      } else {
+        sent = await this.emailService.sendEmail(
+          user.email,
+          send.to.join(", "),
+          send.subject,
+          send.body,
+          send.isHtml,
+          { cc: send.cc, bcc: send.bcc, attachments: send.attachments },
+        );
+      }
+
+      await this.databaseService.deleteOutboxMessage(message.id);
+      console.log(`[OUTBOX] Sent ${message.id} for ${user.email}`);
+      await this.scheduleFollowUp(user.email, message, sent);
+      this.notify({
+        id: message.id,
+        userEmail: user.email,
+        subject: message.subject,
+        status: "sent",
+      });
+    } catch (error) {
+      const attempts = message.attempts + 1;
+      const lastError = error instanceof Error ? error.message : String(error);
+
+      if (isRetryableSendError(error) && attempts < MAX_SEND_ATTEMPTS) {
+        const retryAt = new Date(Date.now() + getRetryDelayMs(attempts));
+        await this.databaseService.updateOutboxMessage(message.id, {
+          status: "scheduled",
+          attempts,
+          lastError,
+          sendAt: retryAt,
+        });
+        console.warn(
+          `[OUTBOX] Attempt ${attempts} for ${message.id} failed, retrying at ${retryAt.toISOString()}:`,
+          lastError,
+        );
+        this.notify({
+          id: message.id,
+          userEmail: user.email,
+          subject: message.subject,
+          status: "retrying",
+          error: lastError,
+          retryAt,
+        });
+      } else {
+        await this.databaseService.updateOutboxMessage(message.id, {
+          status: "failed",
+          attempts,
+          lastError,
+        });
+        console.error(`[OUTBOX] Giving up on ${message.id}:`, error);
+        this.notify({
+          id: message.id,
+          userEmail: user.email,
+          subject: message.subject,
+          status: "failed",
+          error: lastError,
+        });
+      }
+    }
+  }
+
+  // Sent, so a failure here mustn't count as a failed send. The thread is
+  // the one the provider put the message in, a new message's own included.
+  private async scheduleFollowUp(
+    userEmail: string,
+    message: OutboxMessage,
+    sent: SentMessage | null,
+  ) {
+    const threadId = sent?.threadId ?? message.threadId;
+    if (!message.followUpDuration) return;
+    if (!threadId) {
+      console.warn(
+        `[OUTBOX] No thread to follow up on for ${message.id}, skipping`,
+      );
+      return;
+    }
+    try {
+      await this.followUpService.scheduleFollowUp(userEmail, {
+        threadId,
+        subject: message.subject,
+        recipients: parseDraftAddresses(message.to),
+        hours: message.followUpDuration,
+      });
+    } catch (error) {
+      console.error(
+        `[OUTBOX] Error scheduling follow-up for ${message.id}:`,
+        error,
+      );
+    }
+  }
+
+  private notify(event: OutboxStatusEvent) {
+    try {
+      this.onStatusChange?.(event);
+    } catch (error) {
+      console.error("[OUTBOX] Error reporting status:", error);
+    }
+  }
+
+  private async findOwnedMessage(userEmail: string, id: string) {
+    const user = await this.findUser(userEmail);
+    const message = await this.databaseService.getOutboxMessageById(id);
+    if (!message || message.userId !== user.id) {
+      throw new Error("Message not found");
+    }
+    return { user, message };
+  }
+
+  private async findUser(userEmail: string) {
+    const user = await this.databaseService.findUserByEmail(userEmail);
+    if (!user) throw new Error("User not found");
+    return user;
+  }
+}
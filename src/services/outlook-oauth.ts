@@ -7,6 +7,7 @@ import { BrowserWindow } from "electron";
 export interface OutlookTokens {
   access_token: string;
   refresh_token?: string;
+  id_token?: string; // With the openid scope
   scope: string;
   token_type: string;
   expiry_date?: number;
@@ -56,7 +57,8 @@ export class OutlookOAuthService {
       "openid",
       "email",
       "profile",
-      "https://graph.microsoft.com/Mail.Read",
+      "https://graph.microsoft.com/Mail.ReadWrite",
+      "https://graph.microsoft.com/Mail.Send",
       "https://graph.microsoft.com/Calendars.ReadWrite",
       "https://graph.microsoft.com/Contacts.Read",
       "https://graph.microsoft.com/Files.ReadWrite",
@@ -113,7 +115,9 @@ export class OutlookOAuthService {
 
             const tokens: OutlookTokens = {
               access_token: response.accessToken,
-              refresh_token: undefined, // MSAL handles refresh tokens internally
+              refresh_token: this.getCachedRefreshToken(
+                response.account.homeAccountId,
+              ),
               scope: response.scopes?.join(" ") || "",
               token_type: "Bearer",
               expiry_date: response.expiresOn?.getTime(),
@@ -173,6 +177,30 @@ export class OutlookOAuthService {
     }
   }
 
+  /**
+   * MSAL keeps refresh tokens in its cache instead of returning them, so read
+   * the one issued for this account to persist it for refreshes after restart.
+   */
+  private getCachedRefreshToken(homeAccountId?: string): string | undefined {
+    try {
+      const cache = JSON.parse(
+        this.msalInstance.getTokenCache().serialize(),
+      ) as {
+        RefreshToken?: Record<
+          string,
+          { home_account_id?: string; secret?: string }
+        >;
+      };
+      const entry = Object.values(cache.RefreshToken || {}).find(
+        (token) => !homeAccountId || token.home_account_id === homeAccountId,
+      );
+      return entry?.secret;
+    } catch (error) {
+      console.error("Failed to read refresh token from MSAL cache:", error);
+      return undefined;
+    }
+  }
+
   private async getUserInfo(accessToken: string): Promise<OutlookUserInfo> {
     try {
       const response = await fetch("https://graph.microsoft.com/v1.0/me", {
@@ -209,7 +237,8 @@ export class OutlookOAuthService {
           "openid",
           "email",
           "profile",
-          "https://graph.microsoft.com/Mail.Read",
+          "https://graph.microsoft.com/Mail.ReadWrite",
+          "https://graph.microsoft.com/Mail.Send",
           "https://graph.microsoft.com/Calendars.ReadWrite",
           "https://graph.microsoft.com/Contacts.Read",
           "https://graph.microsoft.com/Files.ReadWrite",
@@ -225,7 +254,11 @@ export class OutlookOAuthService {
 
       return {
         access_token: response.accessToken,
-        refresh_token: undefined, // MSAL handles refresh tokens internally
+        // MSAL caches the (possibly rotated) refresh token from this exchange
+        refresh_token: this.getCachedRefreshToken(
+          response.account?.homeAccountId,
+        ),
+        id_token: response.idToken || undefined,
         scope: response.scopes?.join(" ") || "",
         token_type: "Bearer",
         expiry_date: response.expiresOn?.getTime(),
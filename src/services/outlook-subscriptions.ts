@@ -0,0 +1,229 @@
+import { AuthProvider, User } from "@prisma/client";
+
+import { DatabaseService } from "./database";
+import { RelayService } from "./relay";
+import { ScheduledWorker } from "./scheduled-worker";
+import {
+  AuthenticatedClientService,
+  graphClientFromAccessToken,
+} from "./authenticated-client";
+import {
+  OUTLOOK_POLL_INTERVAL_MS,
+  OUTLOOK_RESUBSCRIBE_INTERVAL_MS,
+  OUTLOOK_SUBSCRIPTION_CHANGE_TYPES,
+  OutlookSubscriptionRecord,
+  getNextOutlookSubscriptionCheck,
+  getOutlookSubscriptionExpiry,
+  getOutlookSubscriptionState,
+} from "../lib/outlook-subscriptions";
+
+// ---------------- Helpers ----------------
+
+function isNotFoundError(error: unknown): boolean {
+  if (!error || typeof error !== "object") return false;
+  const e = error as { statusCode?: unknown };
+  return e.statusCode === 404;
+}
+
+function toSubscriptionRecord(user: User): OutlookSubscriptionRecord | null {
+  if (!user.outlookSubscriptionExpiry) return null;
+  return {
+    id: user.outlookSubscriptionId,
+    expiresAt: user.outlookSubscriptionExpiry,
+  };
+}
+
+// ---------------- Service ----------------
+
+/**
+ * Keeps Outlook accounts' Graph subscriptions up: made when the app sets up
+ * push for an account, renewed before they expire and deleted on sign-out.
+ * While an account's subscription has lapsed the sync scheduler polls it.
+ */
+export class OutlookSubscriptionService {
+  private databaseService: DatabaseService;
+  private authClient: AuthenticatedClientService;
+  private relayService: RelayService;
+  private worker: ScheduledWorker;
+  // Last attempt at a new subscription for a lapsed account, by user id
+  private resubscribeAttempts = new Map<string, number>();
+
+  constructor() {
+    this.databaseService = new DatabaseService();
+    this.authClient = new AuthenticatedClientService();
+    this.relayService = new RelayService();
+    this.worker = new ScheduledWorker({
+      name: "OUTLOOK_SUBSCRIPTIONS",
+      maxIdleMs: OUTLOOK_POLL_INTERVAL_MS,
+      run: () => this.processSubscriptions(),
+      getNextRunInMs: () => this.getNextCheckInMs(),
+    });
+  }
+
+  start() {
+    this.worker.start();
+  }
+
+  stop() {
+    this.worker.stop();
+  }
+
+  /**
+   * Sets up push for an account, renewing its subscription if it still has
+   * one. When that fails the account is polled until a later attempt works.
+   */
+  async subscribe(userEmail: string): Promise<void> {
+    const user = await this.findOutlookUser(userEmail);
+    try {
+      await this.renewOrCreate(user);
+    } catch (error) {
+      await this.databaseService.setOutlookSubscription(user.id, {
+        id: null,
+        expiresAt: new Date(),
+      });
+      this.resubscribeAttempts.set(user.id, Date.now());
+      throw error;
+    } finally {
+      void this.worker.wake();
+    }
+  }
+
+  /**
+   * Stops push for an account on sign-out. The subscription is forgotten
+   * even if Graph can't be told, as it expires by itself.
+   */
+  async unsubscribe(userEmail: string): Promise<void> {
+    const user = await this.findOutlookUser(userEmail);
+    const subscriptionId = user.outlookSubscriptionId;
+    await this.databaseService.setOutlookSubscription(user.id, null);
+    this.resubscribeAttempts.delete(user.id);
+    if (!subscriptionId) return;
+
+    try {
+      await this.authClient.withAccessToken(user, (accessToken) =>
+        graphClientFromAccessToken(accessToken)
+          .api(`/subscriptions/${subscriptionId}`)
+          .delete(),
+      );
+      console.log(
+        `[OUTLOOK_SUBSCRIPTIONS] Deleted subscription for ${userEmail}`,
+      );
+    } catch (error) {
+      if (!isNotFoundError(error)) {
+        console.error(
+          `[OUTLOOK_SUBSCRIPTIONS] Error deleting subscription for ${userEmail}:`,
+          error,
+        );
+      }
+    }
+  }
+
+  private async renewOrCreate(user: User): Promise<void> {
+    const expiresAt = getOutlookSubscriptionExpiry();
+
+    await this.authClient.withAccessToken(user, async (accessToken) => {
+      const client = graphClientFromAccessToken(accessToken);
+
+      if (
+        user.outlookSubscriptionId &&
+        user.outlookSubscriptionExpiry &&
+        user.outlookSubscriptionExpiry > new Date()
+      ) {
+        try {
+          await client
+            .api(`/subscriptions/${user.outlookSubscriptionId}`)
+            .patch({ expirationDateTime: expiresAt.toISOString() });
+          await this.databaseService.setOutlookSubscription(user.id, {
+            id: user.outlookSubscriptionId,
+            expiresAt,
+          });
+          console.log(
+            `[OUTLOOK_SUBSCRIPTIONS] Renewed subscription for ${user.email} until ${expiresAt.toISOString()}`,
+          );
+          return;
+        } catch (error) {
+          // Graph drops subscriptions it couldn't deliver to; make a new one
+          if (!isNotFoundError(error)) throw error;
+        }
+      }
+
+      const subscription = (await client.api("/subscriptions").post({
+        changeType: OUTLOOK_SUBSCRIPTION_CHANGE_TYPES,
+        notificationUrl: this.relayService.getWebhookUrl("outlook"),
+        resource: "me/messages",
+        expirationDateTime: expiresAt.toISOString(),
+        clientState: await this.relayService.getOutlookClientState(user.email),
+      })) as { id: string; expirationDateTime: string };
+
+      await this.databaseService.setOutlookSubscription(user.id, {
+        id: subscription.id,
+        expiresAt: new Date(subscription.expirationDateTime),
+      });
+      this.resubscribeAttempts.delete(user.id);
+      console.log(
+        `[OUTLOOK_SUBSCRIPTIONS] Created subscription for ${user.email} until ${subscription.expirationDateTime}`,
+      );
+    });
+  }
+
+  // Until the next subscription needs looking at
+  private async getNextCheckInMs(): Promise<number> {
+    const now = new Date();
+    const users = await this.databaseService.getOutlookSubscriptionUsers();
+    const next = users
+      .map(toSubscriptionRecord)
+      .filter((s): s is OutlookSubscriptionRecord => !!s)
+      .map((s) => getNextOutlookSubscriptionCheck(s, now).getTime())
+      .reduce((a, b) => Math.min(a, b), Infinity);
+    return next - now.getTime();
+  }
+
+  private async processSubscriptions() {
+    const users = await this.databaseService.getOutlookSubscriptionUsers();
+    for (const user of users) {
+      try {
+        await this.processSubscription(user);
+      } catch (error) {
+        console.error(
+          `[OUTLOOK_SUBSCRIPTIONS] Error checking subscription for ${user.email}:`,
+          error,
+        );
+      }
+    }
+  }
+
+  private async processSubscription(user: User) {
+    const record = toSubscriptionRecord(user);
+    if (!record) return;
+
+    const state = getOutlookSubscriptionState(record);
+    if (state === "active") return;
+
+    if (state === "renew") {
+      // Lapses, and is polled, only if renewing keeps failing until expiry
+      await this.renewOrCreate(user);
+      return;
+    }
+
+    const lastAttempt = this.resubscribeAttempts.get(user.id) ?? 0;
+    if (Date.now() - lastAttempt < OUTLOOK_RESUBSCRIBE_INTERVAL_MS) return;
+    this.resubscribeAttempts.set(user.id, Date.now());
+    try {
+      await this.renewOrCreate(user);
+    } catch (error) {
+      console.warn(
+        `[OUTLOOK_SUBSCRIPTIONS] Couldn't resubscribe ${user.email}, it stays polled:`,
+        error,
+      );
+    }
+  }
+
+  private async findOutlookUser(userEmail: string) {
+    const user = await this.databaseService.findUserByEmail(userEmail);
+    if (!user) throw new Error("User not found");
+    if (user.provider !== AuthProvider.OUTLOOK) {
+      throw new Error("Not an Outlook user");
+    }
+    return user;
+  }
+}
@@ -0,0 +1,234 @@
+import { User } from "@prisma/client";
+
+import { DatabaseService } from "./database";
+import { EmailService, onOperationQueued } from "./email";
+import { ReauthRequiredError } from "./authenticated-client";
+import { onAccountSynced } from "./sync-scheduler";
+import {
+  PendingOperationsEvent,
+  describePendingOperation,
+  parsePendingOperation,
+} from "../lib/pending-operations";
+import {
+  getBackoffMs,
+  getRetryAfterMs,
+  isTransientSyncError,
+} from "../lib/sync-scheduler";
+
+// ---------------- Types ----------------
+
+interface AccountQueue {
+  isRunning: boolean;
+  isQueued: boolean; // Woken again while running
+  failures: number; // Replays in a row that stopped on a transient error
+  timer: NodeJS.Timeout | null;
+}
+
+// ---------------- Service ----------------
+
+/**
+ * Sends changes made in the app to the provider, from each account's queue
+ * of pending operations. They go one at a time in the order they were made,
+ * so a later change never lands before an earlier one. While the provider
+ * can't be reached the queue waits, and picks up again when a sync gets
+ * through or its backoff runs out. Changes the provider refuses are
+ * reverted locally and reported.
+ */
+export class PendingOperationService {
+  private databaseService: DatabaseService;
+  private emailService: EmailService;
+  private queues = new Map<string, AccountQueue>();
+  private isRunning = false;
+  private onChange?: (event: PendingOperationsEvent) => void;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor() {
+    this.databaseService = new DatabaseService();
+    this.emailService = new EmailService();
+  }
+
+  /**
+   * Replay what previous runs left queued, and anything queued from now on
+   */
+  start(onChange?: (event: PendingOperationsEvent) => void) {
+    if (this.isRunning) return;
+    this.isRunning = true;
+    this.onChange = onChange;
+
+    this.unsubscribers = [
+      onOperationQueued((userEmail) => {
+        void this.notify(userEmail, []);
+        this.wake(userEmail);
+      }),
+      onAccountSynced(({ userEmail }) => this.wake(userEmail)),
+    ];
+    void this.wakeAllAccounts();
+  }
+
+  stop() {
+    this.isRunning = false;
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    for (const queue of this.queues.values()) {
+      if (queue.timer) clearTimeout(queue.timer);
+      queue.timer = null;
+    }
+  }
+
+  /**
+   * How many changes each account has waiting, by email
+   */
+  async getPendingCounts(): Promise<Record<string, number>> {
+    const users = await this.databaseService.getUsersWithPendingOperations();
+    const counts: Record<string, number> = {};
+    for (const user of users) {
+      counts[user.email] = await this.databaseService.countPendingOperations(
+        user.id,
+      );
+    }
+    return counts;
+  }
+
+  /**
+   * Replay the account's queue soon. Calls while it runs are folded into one
+   * more run after it.
+   */
+  wake(userEmail: string) {
+    if (!this.isRunning) return;
+    const queue = this.getQueue(userEmail);
+    if (queue.isRunning) {
+      queue.isQueued = true;
+      return;
+    }
+    void this.replay(userEmail);
+  }
+
+  private async wakeAllAccounts() {
+    try {
+      const users = await this.databaseService.getUsersWithPendingOperations();
+      for (const user of users) this.wake(user.email);
+    } catch (error) {
+      console.error("[PENDING_OPERATIONS] Error loading accounts:", error);
+    }
+  }
+
+  private getQueue(userEmail: string): AccountQueue {
+    let queue = this.queues.get(userEmail);
+    if (!queue) {
+      queue = { isRunning: false, isQueued: false, failures: 0, timer: null };
+      this.queues.set(userEmail, queue);
+    }
+    return queue;
+  }
+
+  private async replay(userEmail: string) {
+    const queue = this.getQueue(userEmail);
+    if (queue.timer) clearTimeout(queue.timer);
+    queue.timer = null;
+    queue.isRunning = true;
+    queue.isQueued = false;
+
+    const conflicts: string[] = [];
+    let retryInMs: number | null = null;
+    try {
+      const user = await this.databaseService.findUserByEmail(userEmail);
+      if (!user) {
+        this.queues.delete(userEmail);
+        return;
+      }
+      retryInMs = await this.replayOperations(user, queue, conflicts);
+    } catch (error) {
+      console.error(
+        `[PENDING_OPERATIONS] Error replaying changes for ${userEmail}:`,
+        error,
+      );
+    } finally {
+      queue.isRunning = false;
+    }
+
+    await this.notify(userEmail, conflicts);
+    if (retryInMs !== null) {
+      this.scheduleRetry(userEmail, queue, retryInMs);
+    } else if (queue.isQueued) {
+      void this.replay(userEmail);
+    }
+  }
+
+  // Returns how long to wait before trying again, or null once the queue is
+  // empty
+  private async replayOperations(
+    user: User,
+    queue: AccountQueue,
+    conflicts: string[],
+  ): Promise<number | null> {
+    const operations = await this.databaseService.getPendingOperations(user.id);
+    for (const operation of operations) {
+      try {
+        const conflict = await this.emailService.replayPendingOperation(
+          user,
+          operation,
+        );
+        if (conflict) conflicts.push(conflict);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        // Later changes wait behind this one, to keep them in order
+        if (
+          isTransientSyncError(error) ||
+          error instanceof ReauthRequiredError
+        ) {
+          queue.failures++;
+          await this.databaseService.recordPendingOperationFailure(
+            operation.id,
+            message,
+          );
+          console.warn(
+            `[PENDING_OPERATIONS] ${operation.type} for ${user.email} failed (${message}), waiting to retry`,
+          );
+          return getBackoffMs(queue.failures, getRetryAfterMs(error));
+        }
+
+        console.error(
+          `[PENDING_OPERATIONS] ${operation.type} for ${user.email} was refused:`,
+          error,
+        );
+        await this.emailService.revertPendingOperation(user, operation);
+        const data = parsePendingOperation(operation.type, operation.payload);
+        conflicts.push(
+          `Couldn't finish ${data ? describePendingOperation(data).toLowerCase() : "a change"}: ${message}`,
+        );
+      }
+      await this.databaseService.deletePendingOperation(operation.id);
+    }
+    queue.failures = 0;
+    return null;
+  }
+
+  private scheduleRetry(
+    userEmail: string,
+    queue: AccountQueue,
+    delayMs: number,
+  ) {
+    if (!this.isRunning) return;
+    if (queue.timer) clearTimeout(queue.timer);
+    queue.timer = setTimeout(() => {
+      queue.timer = null;
+      this.wake(userEmail);
+    }, delayMs);
+  }
+
+  private async notify(userEmail: string, conflicts: string[]) {
+    if (!this.onChange) return;
+    try {
+      const user = await this.databaseService.findUserByEmail(userEmail);
+      const pending = user
+        ? await this.databaseService.countPendingOperations(user.id)
+        : 0;
+      this.onChange({ userEmail, pending, conflicts });
+    } catch (error) {
+      console.error(
+        `[PENDING_OPERATIONS] Error counting changes for ${userEmail}:`,
+        error,
+      );
+    }
+  }
+}
@@ -0,0 +1,134 @@
+import { AuthProvider, User } from "@prisma/client";
+import { createHmac, randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+import { DatabaseService } from "./database";
+import { AuthenticatedClientService } from "./authenticated-client";
+import { getUserDataDirectory, writeFileAtomic } from "./user-files";
+import {
+  DEFAULT_RELAY_URL,
+  RELAY_TOKEN_TTL_MS,
+  RelayConnection,
+  RelayRegistration,
+  RelayWebhookProvider,
+  getRelayWebhookUrl,
+} from "../lib/relay";
+
+// This install's key for Outlook clientStates, made on first use
+let installKey: Promise<string> | null = null;
+
+async function loadInstallKey(): Promise<string> {
+  const filePath = path.join(getUserDataDirectory("relay"), "client-state.key");
+  try {
+    return (await fs.readFile(filePath, "utf8")).trim();
+  } catch {
+    const key = randomBytes(32).toString("base64url");
+    await writeFileAtomic(filePath, Buffer.from(key));
+    return key;
+  }
+}
+
+/**
+ * The app's side of the relay protocol (see server/README.md). Connections
+ * register with the account's ID token from its provider, which only says
+ * who the account is; access tokens never leave the main process. A
+ * self-hosted, single-user relay can share RELAY_SECRET with the app
+ * instead, which then signs its own tokens.
+ */
+export class RelayService {
+  private databaseService: DatabaseService;
+  private authClient: AuthenticatedClientService;
+  private relayUrl: string;
+  private webhookBaseUrl: string;
+  private secret: string;
+
+  constructor() {
+    this.databaseService = new DatabaseService();
+    this.authClient = new AuthenticatedClientService();
+    this.relayUrl = process.env.RELAY_URL || DEFAULT_RELAY_URL;
+    // Differs from the relay's URL when it's local and reached through a tunnel
+    this.webhookBaseUrl = process.env.RELAY_WEBHOOK_URL || this.relayUrl;
+    this.secret = process.env.RELAY_SECRET || "";
+  }
+
+  /**
+   * Where to connect for a connected account's notifications, and what to
+   * register with
+   */
+  async getConnection(userEmail: string): Promise<RelayConnection> {
+    const user = await this.findUser(userEmail);
+    return {
+      url: this.relayUrl,
+      registration: await this.getRegistration(user),
+    };
+  }
+
+  getWebhookUrl(provider: RelayWebhookProvider): string {
+    return getRelayWebhookUrl(this.webhookBaseUrl, provider);
+  }
+
+  /**
+   * Ties an Outlook subscription's notifications to the account; the relay
+   * drops any whose clientState isn't one of its registered accounts'. Keyed
+   * by this install, so nobody else can claim the account's notifications.
+   */
+  async getOutlookClientState(userEmail: string): Promise<string> {
+    const key = this.secret || (await this.getInstallKey());
+    return this.sign(key, `outlook:${userEmail.toLowerCase()}`);
+  }
+
+  private async getRegistration(user: User): Promise<RelayRegistration> {
+    if (this.secret) {
+      return { token: this.signToken(user.email) };
+    }
+
+    if (user.provider === AuthProvider.GOOGLE) {
+      return {
+        provider: "google",
+        token: await this.authClient.getIdToken(user),
+      };
+    }
+    if (user.provider === AuthProvider.OUTLOOK) {
+      return {
+        provider: "outlook",
+        token: await this.authClient.getIdToken(user),
+        outlookClientState: await this.getOutlookClientState(user.email),
+      };
+    }
+    throw new Error("Unsupported email provider");
+  }
+
+  // Shared-secret mode: v1.<payload>.<HMAC of "v1.<payload>">
+  private signToken(userEmail: string): string {
+    const now = Date.now();
+    const payload = Buffer.from(
+      JSON.stringify({
+        sub: userEmail.toLowerCase(),
+        iat: Math.floor(now / 1000),
+        exp: Math.floor((now + RELAY_TOKEN_TTL_MS) / 1000),
+      }),
+    ).toString("base64url");
+    return `v1.${payload}.${this.sign(this.secret, `v1.${payload}`)}`;
+  }
+
+  private getInstallKey(): Promise<string> {
+    if (!installKey) {
+      installKey = loadInstallKey().catch((error) => {
+        installKey = null;
+        throw error;
+      });
+    }
+    return installKey;
+  }
+
+  private async findUser(userEmail: string) {
+    const user = await this.databaseService.findUserByEmail(userEmail);
+    if (!user) throw new Error("User not found");
+    return user;
+  }
+
+  private sign(key: string, value: string): string {
+    return createHmac("sha256", key).update(value).digest("base64url");
+  }
+}
@@ -0,0 +1,82 @@
+// ---------------- Types ----------------
+
+export interface ScheduledWorkerOptions {
+  name: string; // Log prefix, e.g. "OUTBOX"
+  // Look at least this often, so clock changes, wake from sleep and work
+  // queued by another service instance don't wait for long
+  maxIdleMs: number;
+  run: () => Promise<void>;
+  // How long until the next run is needed
+  getNextRunInMs: () => Promise<number>;
+}
+
+// ---------------- Worker ----------------
+
+/**
+ * A background job that runs when its next piece of work is due. Runs never
+ * overlap, and each one schedules the next when it ends.
+ */
+export class ScheduledWorker {
+  private options: ScheduledWorkerOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private isProcessing = false;
+
+  constructor(options: ScheduledWorkerOptions) {
+    this.options = options;
+  }
+
+  start(delayMs: number = 0) {
+    if (this.isRunning) return;
+    this.isRunning = true;
+    this.runIn(delayMs);
+  }
+
+  stop() {
+    this.isRunning = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Run after `delayMs`, or sooner if the idle limit is shorter. Replaces the
+   * run scheduled before.
+   */
+  runIn(delayMs: number) {
+    if (!this.isRunning) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(
+      () => {
+        this.timer = null;
+        void this.process();
+      },
+      Math.min(Math.max(delayMs, 0), this.options.maxIdleMs),
+    );
+  }
+
+  // Run again when the next piece of work is due
+  async wake() {
+    try {
+      this.runIn(await this.options.getNextRunInMs());
+    } catch (error) {
+      console.error(
+        `[${this.options.name}] Error scheduling the next run:`,
+        error,
+      );
+      this.runIn(this.options.maxIdleMs);
+    }
+  }
+
+  private async process() {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+    try {
+      await this.options.run();
+    } catch (error) {
+      console.error(`[${this.options.name}] Error on a scheduled run:`, error);
+    } finally {
+      this.isProcessing = false;
+      await this.wake();
+    }
+  }
+}
@@ -0,0 +1,286 @@
+import { AuthProvider } from "@prisma/client";
+
+import { DatabaseService } from "./database";
+import { EmailService, EmailThread } from "./email";
+import { ReauthRequiredError } from "./authenticated-client";
+import { getOutlookSubscriptionState } from "../lib/outlook-subscriptions";
+import {
+  SYNC_POLL_INTERVAL_MS,
+  SyncStatus,
+  SyncStatusEvent,
+  getBackoffMs,
+  getRetryAfterMs,
+  isOfflineError,
+  isRetryableSyncError,
+} from "../lib/sync-scheduler";
+
+// ---------------- Types ----------------
+
+// Reported to the renderer when a sync saved new mail
+export interface SyncedEmailsEvent {
+  userEmail: string;
+  newEmails: EmailThread[];
+}
+
+// For services waiting on the provider to be reachable again
+export interface AccountSyncedEvent {
+  userEmail: string;
+  reconnected: boolean; // The sync before this one found us offline
+}
+
+interface AccountJob {
+  status: SyncStatus;
+  lastSyncedAt: Date | null;
+  error: string | null;
+  retryAt: Date | null;
+  failures: number; // In a row, for the backoff
+  hasRelay: boolean; // The renderer's relay connection for the account is up
+  isRunning: boolean;
+  isQueued: boolean; // Triggered again while running
+  timer: NodeJS.Timeout | null;
+}
+
+// ---------------- Helpers ----------------
+
+function toStatusEvent(userEmail: string, job: AccountJob): SyncStatusEvent {
+  return {
+    userEmail,
+    status: job.status,
+    lastSyncedAt: job.lastSyncedAt,
+    error: job.error,
+    retryAt: job.retryAt,
+  };
+}
+
+const accountSyncedListeners = new Set<(event: AccountSyncedEvent) => void>();
+
+export function onAccountSynced(
+  listener: (event: AccountSyncedEvent) => void,
+): () => void {
+  accountSyncedListeners.add(listener);
+  return () => accountSyncedListeners.delete(listener);
+}
+
+// ---------------- Service ----------------
+
+/**
+ * Syncs every account's mail from the main process. An account has one sync
+ * at a time: triggers while it runs (push, polling, the UI) are folded into
+ * one more run after it. Accounts without push are polled, and failed syncs
+ * are retried with backoff, for longer when the provider asks for it.
+ */
+export class SyncSchedulerService {
+  private databaseService: DatabaseService;
+  private emailService: EmailService;
+  private jobs = new Map<string, AccountJob>();
+  private isRunning = false;
+  private onStatus?: (event: SyncStatusEvent) => void;
+  private onNewEmails?: (event: SyncedEmailsEvent) => void;
+
+  constructor() {
+    this.databaseService = new DatabaseService();
+    this.emailService = new EmailService();
+  }
+
+  /**
+   * Sync every account now, and keep them synced from then on
+   */
+  start(
+    onStatus?: (event: SyncStatusEvent) => void,
+    onNewEmails?: (event: SyncedEmailsEvent) => void,
+  ) {
+    if (this.isRunning) return;
+    this.isRunning = true;
+    this.onStatus = onStatus;
+    this.onNewEmails = onNewEmails;
+    void this.syncAllAccounts();
+  }
+
+  stop() {
+    this.isRunning = false;
+    for (const job of this.jobs.values()) {
+      if (job.timer) clearTimeout(job.timer);
+      job.timer = null;
+    }
+  }
+
+  getStatuses(): SyncStatusEvent[] {
+    return [...this.jobs].map(([userEmail, job]) =>
+      toStatusEvent(userEmail, job),
+    );
+  }
+
+  /**
+   * Sync the account soon. While a sync runs one more is queued behind it,
+   * however often this is called; while backing off from a failure, the
+   * retry already scheduled covers it. Offline, asking again is how the
+   * renderer says the network is back, so it syncs straight away.
+   */
+  requestSync(userEmail: string) {
+    if (!this.isRunning) return;
+    const job = this.getJob(userEmail);
+    if (job.isRunning) {
+      job.isQueued = true;
+      return;
+    }
+    if (job.status !== "offline" && job.retryAt && job.retryAt > new Date()) {
+      return;
+    }
+    void this.runJob(userEmail);
+  }
+
+  /**
+   * Whether notifications for the account can reach us. Without them the
+   * account is polled.
+   */
+  setRelayConnected(userEmail: string, connected: boolean) {
+    this.getJob(userEmail).hasRelay = connected;
+  }
+
+  // Stop syncing a signed-out account
+  forget(userEmail: string) {
+    const job = this.jobs.get(userEmail);
+    if (job?.timer) clearTimeout(job.timer);
+    this.jobs.delete(userEmail);
+  }
+
+  private async syncAllAccounts() {
+    try {
+      const users = await this.databaseService.getAllUsers();
+      for (const user of users) this.requestSync(user.email);
+    } catch (error) {
+      console.error("[SYNC_SCHEDULER] Error loading accounts:", error);
+    }
+  }
+
+  private getJob(userEmail: string): AccountJob {
+    let job = this.jobs.get(userEmail);
+    if (!job) {
+      job = {
+        status: "idle",
+        lastSyncedAt: null,
+        error: null,
+        retryAt: null,
+        failures: 0,
+        hasRelay: false,
+        isRunning: false,
+        isQueued: false,
+        timer: null,
+      };
+      this.jobs.set(userEmail, job);
+    }
+    return job;
+  }
+
+  private async runJob(userEmail: string) {
+    const job = this.getJob(userEmail);
+    if (job.timer) clearTimeout(job.timer);
+    job.timer = null;
+    job.isRunning = true;
+    job.isQueued = false;
+    const wasOffline = job.status === "offline";
+    job.status = "syncing";
+    this.onStatus?.(toStatusEvent(userEmail, job));
+
+    try {
+      const newEmails: EmailThread[] = [];
+      await this.emailService.performIncrementalSync(userEmail, 50, (email) =>
+        newEmails.push(email),
+      );
+      Object.assign(job, {
+        status: "idle",
+        lastSyncedAt: new Date(),
+        error: null,
+        retryAt: null,
+        failures: 0,
+      });
+      if (newEmails.length) this.onNewEmails?.({ userEmail, newEmails });
+      const event: AccountSyncedEvent = { userEmail, reconnected: wasOffline };
+      accountSyncedListeners.forEach((listener) => listener(event));
+    } catch (error) {
+      if (error instanceof Error && error.message === "User not found") {
+        this.forget(userEmail);
+        return;
+      }
+      this.recordFailure(userEmail, job, error);
+    } finally {
+      job.isRunning = false;
+    }
+
+    this.onStatus?.(toStatusEvent(userEmail, job));
+    if (job.isQueued && !job.retryAt) {
+      void this.runJob(userEmail);
+      return;
+    }
+    // Signing in again is up to the user; the next trigger after it syncs
+    if (job.error && !job.retryAt) return;
+    this.scheduleNext(userEmail, job);
+  }
+
+  private recordFailure(userEmail: string, job: AccountJob, error: unknown) {
+    job.failures++;
+    job.status = isOfflineError(error) ? "offline" : "error";
+    job.error = error instanceof Error ? error.message : String(error);
+    job.retryAt =
+      error instanceof ReauthRequiredError
+        ? null
+        : new Date(
+            Date.now() + getBackoffMs(job.failures, getRetryAfterMs(error)),
+          );
+
+    if (job.status === "offline" || isRetryableSyncError(error)) {
+      console.warn(
+        `[SYNC_SCHEDULER] Sync for ${userEmail} failed (${job.error}), retrying at ${job.retryAt?.toISOString()}`,
+      );
+    } else {
+      console.error(`[SYNC_SCHEDULER] Sync for ${userEmail} failed:`, error);
+    }
+  }
+
+  // Retry a failure when it's due, otherwise look in on the polling interval
+  private scheduleNext(userEmail: string, job: AccountJob) {
+    if (!this.isRunning) return;
+    if (job.timer) clearTimeout(job.timer);
+    const delayMs = job.retryAt
+      ? job.retryAt.getTime() - Date.now()
+      : SYNC_POLL_INTERVAL_MS;
+    job.timer = setTimeout(
+      () => {
+        job.timer = null;
+        void this.checkAccount(userEmail, job);
+      },
+      Math.max(delayMs, 0),
+    );
+  }
+
+  private async checkAccount(userEmail: string, job: AccountJob) {
+    try {
+      if (job.retryAt || !(await this.hasPush(userEmail, job))) {
+        job.retryAt = null;
+        this.requestSync(userEmail);
+        return;
+      }
+    } catch (error) {
+      console.error(
+        `[SYNC_SCHEDULER] Error checking push for ${userEmail}:`,
+        error,
+      );
+    }
+    this.scheduleNext(userEmail, job);
+  }
+
+  // Push comes through the relay; Outlook's also needs a live subscription
+  private async hasPush(userEmail: string, job: AccountJob): Promise<boolean> {
+    if (!job.hasRelay) return false;
+    const user = await this.databaseService.findUserByEmail(userEmail);
+    if (!user) return false;
+    if (user.provider !== AuthProvider.OUTLOOK) return true;
+    return (
+      !!user.outlookSubscriptionExpiry &&
+      getOutlookSubscriptionState({
+        id: user.outlookSubscriptionId,
+        expiresAt: user.outlookSubscriptionExpiry,
+      }) !== "lapsed"
+    );
+  }
+}
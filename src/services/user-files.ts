@@ -0,0 +1,28 @@
+import { app } from "electron";
+import { promises as fs } from "fs";
+import path from "path";
+
+// Files the app keeps for itself under userData, shared by the services that
+// cache or store them.
+
+/**
+ * A directory under userData. Electron only knows where that is once the app
+ * is ready, so call this when the directory is used, not at load.
+ */
+export function getUserDataDirectory(name: string): string {
+  return path.join(app.getPath("userData"), name);
+}
+
+/**
+ * Write a file aside and move it into place, so a crash never leaves a
+ * partial file under its final name. Creates the directory as needed.
+ */
+export async function writeFileAtomic(
+  filePath: string,
+  data: Uint8Array,
+): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, data);
+  await fs.rename(tempPath, filePath);
+}
@@ -1,3 +1,5 @@
+import type { RelayConnection, RelayRegistration } from "@/lib/relay";
+
 export interface WebSocketMessage {
   type: string;
   [key: string]: unknown;
@@ -13,6 +15,17 @@ export interface NewEmailNotification {
   message: string;
 }
 
+// Read state changes, moves and deletions of existing mail
+export interface MailChangedNotification {
+  type: "mail_changed";
+  provider: "gmail" | "outlook";
+  userEmail: string;
+  changeType: "updated" | "deleted";
+  resourceId?: string;
+  timestamp: string;
+  message: string;
+}
+
 // Browser-compatible event emitter
 class BrowserEventEmitter {
   private events: Map<string, ((...args: unknown[]) => void)[]> = new Map();
@@ -57,34 +70,42 @@ export class WebSocketClient extends BrowserEventEmitter {
   private reconnectDelay = 1000; // 1 second
   private isConnecting = false;
   private pingInterval: number | null = null;
-  private serverUrl: string;
+  private serverUrl = "";
 
-  constructor(serverUrl: string = "wss://hooks.futurixai.com") {
+  // Asked for on every attempt, as registration tokens expire
+  constructor(private getConnection: () => Promise<RelayConnection>) {
     super();
-    this.serverUrl = serverUrl;
   }
 
-  connect(userId: string, userEmail: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (this.isConnecting) {
-        console.log(
-          "🔌 WebSocket connection already in progress, rejecting new attempt",
-        );
-        reject(new Error("Connection already in progress"));
-        return;
-      }
-
-      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-        console.log("🔌 WebSocket already connected, resolving immediately");
-        resolve();
-        return;
-      }
-
+  async connect(): Promise<void> {
+    if (this.isConnecting) {
       console.log(
-        `🔌 Attempting to connect to WebSocket server: ${this.serverUrl}`,
+        "🔌 WebSocket connection already in progress, rejecting new attempt",
       );
-      this.isConnecting = true;
+      throw new Error("Connection already in progress");
+    }
+
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      console.log("🔌 WebSocket already connected, resolving immediately");
+      return;
+    }
+
+    this.isConnecting = true;
+    let registration: RelayRegistration;
+    try {
+      const connection = await this.getConnection();
+      this.serverUrl = connection.url;
+      registration = connection.registration;
+    } catch (error) {
+      this.isConnecting = false;
+      throw error;
+    }
 
+    console.log(
+      `🔌 Attempting to connect to WebSocket server: ${this.serverUrl}`,
+    );
+
+    return new Promise((resolve, reject) => {
       try {
         this.ws = new WebSocket(this.serverUrl);
 
@@ -96,8 +117,7 @@ export class WebSocketClient extends BrowserEventEmitter {
           // Register for notifications
           this.send({
             type: "register",
-            userId,
-            userEmail,
+            ...registration,
           });
 
           // Start ping interval
@@ -131,7 +151,7 @@ export class WebSocketClient extends BrowserEventEmitter {
             event.code !== 1000 &&
             this.reconnectAttempts < this.maxReconnectAttempts
           ) {
-            this.attemptReconnect(userId, userEmail);
+            this.attemptReconnect();
           }
         };
 
@@ -158,7 +178,7 @@ export class WebSocketClient extends BrowserEventEmitter {
     this.stopPingInterval();
   }
 
-  private attemptReconnect(userId: string, userEmail: string): void {
+  private attemptReconnect(): void {
     this.reconnectAttempts++;
     const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
 
@@ -167,7 +187,7 @@ export class WebSocketClient extends BrowserEventEmitter {
     );
 
     setTimeout(() => {
-      this.connect(userId, userEmail).catch((error) => {
+      this.connect().catch((error) => {
         console.error("Reconnection failed:", error);
       });
     }, delay);
@@ -196,6 +216,10 @@ export class WebSocketClient extends BrowserEventEmitter {
         this.emit("newEmail", message as unknown as NewEmailNotification);
         break;
 
+      case "mail_changed":
+        this.emit("mailChanged", message as unknown as MailChangedNotification);
+        break;
+
       case "pong":
         // Handle pong response
         break;
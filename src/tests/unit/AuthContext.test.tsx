@@ -0,0 +1,116 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import React, { ReactNode } from "react";
+
+const navigate = vi.hoisted(() => vi.fn());
+vi.mock("@tanstack/react-router", () => ({ useNavigate: () => navigate }));
+vi.mock("sonner", () => ({ toast: { error: vi.fn() } }));
+
+import { AuthProvider, AuthUser, useAuth } from "@/contexts/AuthContext";
+
+const work: AuthUser = {
+  id: "1",
+  email: "me@work.com",
+  name: "Me at work",
+  provider: "OUTLOOK",
+};
+const home: AuthUser = {
+  id: "2",
+  email: "me@gmail.com",
+  name: "Me at home",
+  provider: "GOOGLE",
+};
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <AuthProvider>{children}</AuthProvider>
+);
+
+async function renderAuth() {
+  const hook = renderHook(() => useAuth(), { wrapper });
+  await waitFor(() => expect(hook.result.current.isLoading).toBe(false));
+  return hook.result;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  localStorage.clear();
+});
+
+describe("restoring accounts", () => {
+  test("moves a single-account build's user to the account list", async () => {
+    localStorage.setItem("authenticatedUser", JSON.stringify(home));
+
+    const auth = await renderAuth();
+
+    expect(auth.current.accounts).toEqual([home]);
+    expect(auth.current.user).toEqual(home);
+    expect(localStorage.getItem("authenticatedUser")).toBeNull();
+    expect(JSON.parse(localStorage.getItem("authenticatedAccounts")!)).toEqual([
+      home,
+    ]);
+    expect(localStorage.getItem("activeAccountEmail")).toBe(home.email);
+  });
+
+  test("prefers the account list to the legacy key and drops bad entries", async () => {
+    localStorage.setItem(
+      "authenticatedAccounts",
+      JSON.stringify([work, { email: "no-provider@example.com" }, home]),
+    );
+    localStorage.setItem("activeAccountEmail", home.email);
+    localStorage.setItem("authenticatedUser", JSON.stringify(work));
+
+    const auth = await renderAuth();
+
+    expect(auth.current.accounts).toEqual([work, home]);
+    expect(auth.current.user).toEqual(home);
+    expect(localStorage.getItem("authenticatedUser")).toBeNull();
+  });
+});
+
+describe("switching accounts", () => {
+  test("makes another signed in account active and remembers it", async () => {
+    const auth = await renderAuth();
+    act(() => auth.current.signIn(work));
+    act(() => auth.current.signIn(home));
+    expect(auth.current.user).toEqual(home);
+
+    act(() => auth.current.switchAccount(work.email));
+
+    expect(auth.current.user).toEqual(work);
+    expect(auth.current.accounts).toEqual([work, home]);
+    expect(localStorage.getItem("activeAccountEmail")).toBe(work.email);
+  });
+
+  test("ignores accounts that aren't signed in", async () => {
+    const auth = await renderAuth();
+    act(() => auth.current.signIn(work));
+
+    act(() => auth.current.switchAccount("someone@else.com"));
+
+    expect(auth.current.user).toEqual(work);
+  });
+
+  test("removing the active account switches to the next one", async () => {
+    const auth = await renderAuth();
+    act(() => auth.current.signIn(home));
+    act(() => auth.current.signIn(work));
+
+    act(() => auth.current.removeAccount(work.email));
+
+    expect(auth.current.accounts).toEqual([home]);
+    expect(auth.current.user).toEqual(home);
+    expect(navigate).not.toHaveBeenCalled();
+  });
+
+  test("removing the last account signs out", async () => {
+    const auth = await renderAuth();
+    act(() => auth.current.signIn(home));
+
+    act(() => auth.current.removeAccount(home.email));
+
+    expect(auth.current.isAuthenticated).toBe(false);
+    expect(localStorage.getItem("authenticatedAccounts")).toBeNull();
+    expect(navigate).toHaveBeenCalledWith({ to: "/" });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, test } from "vitest";
+import {
+  getAttachmentCategory,
+  getAttachmentPreviewKind,
+  parseCsv,
+  parseIcsEvents,
+  planCacheEviction,
+} from "@/lib/attachments";
+
+describe("getAttachmentPreviewKind", () => {
+  test("goes by the MIME type", () => {
+    expect(getAttachmentPreviewKind("image/PNG", "photo")).toBe("image");
+    expect(getAttachmentPreviewKind("application/pdf", "a.bin")).toBe("pdf");
+    expect(
+      getAttachmentPreviewKind("text/calendar; method=REQUEST", "invite"),
+    ).toBe("ics");
+  });
+
+  test("falls back to the extension for generic types", () => {
+    expect(
+      getAttachmentPreviewKind("application/octet-stream", "Report.CSV"),
+    ).toBe("csv");
+    expect(
+      getAttachmentPreviewKind("application/octet-stream", "archive.zip"),
+    ).toBe(null);
+  });
+});
+
+describe("getAttachmentCategory", () => {
+  test("matches exact types and prefixes", () => {
+    expect(getAttachmentCategory("image/svg+xml")).toBe("image");
+    expect(
+      getAttachmentCategory(
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      ),
+    ).toBe("spreadsheet");
+    expect(getAttachmentCategory("application/zip")).toBe("other");
+  });
+});
+
+describe("planCacheEviction", () => {
+  const entries = [
+    { id: "recent", cachedSize: 40, lastOpenedAt: new Date("2025-10-03") },
+    { id: "oldest", cachedSize: 30, lastOpenedAt: new Date("2025-10-01") },
+    { id: "older", cachedSize: 20, lastOpenedAt: new Date("2025-10-02") },
+  ];
+
+  test("keeps everything while it fits", () => {
+    expect(planCacheEviction(entries, 10, 100)).toEqual([]);
+  });
+
+  test("evicts the least recently opened first", () => {
+    expect(planCacheEviction(entries, 20, 100)).toEqual(["oldest"]);
+    expect(planCacheEviction(entries, 50, 100)).toEqual(["oldest", "older"]);
+  });
+});
+
+describe("parseCsv", () => {
+  test("handles quoted fields, escaped quotes and CRLF", () => {
+    expect(
+      parseCsv('name,note\r\n"Doe, Jane","said ""hi""\nthen left"\r\n\r\n'),
+    ).toEqual([
+      ["name", "note"],
+      ["Doe, Jane", 'said "hi"\nthen left'],
+    ]);
+  });
+
+  test("stops after the row limit", () => {
+    expect(parseCsv("a\nb\nc", 2)).toEqual([["a"], ["b"]]);
+  });
+});
+
+describe("parseIcsEvents", () => {
+  test("reads a folded, UTC-timed event", () => {
+    const [event] = parseIcsEvents(
+      [
+        "BEGIN:VCALENDAR",
+        "BEGIN:VEVENT",
+        "SUMMARY:Quarterly planning\\, part",
+        "  two",
+        "DTSTART:20251024T153000Z",
+        "DTEND:20251024T163000Z",
+        "LOCATION:Room 4",
+        "ORGANIZER;CN=Jane:mailto:jane@example.com",
+        "END:VEVENT",
+        "END:VCALENDAR",
+      ].join("\r\n"),
+    );
+    expect(event.summary).toBe("Quarterly planning, part two");
+    expect(event.start).toEqual(new Date("2025-10-24T15:30:00Z"));
+    expect(event.end).toEqual(new Date("2025-10-24T16:30:00Z"));
+    expect(event.allDay).toBe(false);
+    expect(event.location).toBe("Room 4");
+    expect(event.organizer).toBe("jane@example.com");
+  });
+
+  test("marks date-only starts as all day", () => {
+    const [event] = parseIcsEvents(
+      "BEGIN:VEVENT\nSUMMARY:Offsite\nDTSTART;VALUE=DATE:20251101\nEND:VEVENT",
+    );
+    expect(event.allDay).toBe(true);
+    expect(event.start).toEqual(new Date(2025, 10, 1));
+  });
+});
@@ -0,0 +1,201 @@
+// @vitest-environment node
+import { AuthProvider, User } from "@prisma/client";
+import { beforeEach, describe, expect, test, vi } from "vitest";
+
+const { updateUser, refreshToken } = vi.hoisted(() => ({
+  updateUser: vi.fn(),
+  refreshToken: vi.fn(),
+}));
+
+vi.mock("@/services/database", () => ({
+  DatabaseService: class {
+    updateUser = updateUser;
+  },
+}));
+vi.mock("@/services/oauth", () => ({
+  GoogleOAuthService: class {
+    refreshToken = refreshToken;
+  },
+}));
+vi.mock("@/services/outlook-oauth", () => ({
+  OutlookOAuthService: class {},
+}));
+
+import {
+  AuthenticatedClientService,
+  ReauthRequiredError,
+  onReauthRequired,
+} from "@/services/authenticated-client";
+
+const MINUTE = 60 * 1000;
+
+// Refreshes in flight are shared by user id across tests, so each test
+// gets its own
+let nextId = 0;
+function makeUser(overrides: Partial<User> = {}): User {
+  nextId++;
+  return {
+    id: `user-${nextId}`,
+    email: `user-${nextId}@example.com`,
+    provider: AuthProvider.GOOGLE,
+    accessToken: "old-access",
+    refreshToken: "refresh",
+    tokenExpiry: new Date(Date.now() + 60 * MINUTE),
+    ...overrides,
+  } as User;
+}
+
+function refreshedTo(accessToken: string) {
+  return {
+    access_token: accessToken,
+    scope: "",
+    token_type: "Bearer",
+    expiry_date: Date.now() + 60 * MINUTE,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  updateUser.mockImplementation(async (id: string, data: Partial<User>) => ({
+    ...makeUser({ id }),
+    ...data,
+  }));
+});
+
+describe("ensureFreshToken", () => {
+  test("refreshes a token that expires within the skew window", async () => {
+    const user = makeUser({ tokenExpiry: new Date(Date.now() + 2 * MINUTE) });
+    refreshToken.mockResolvedValue(refreshedTo("new-access"));
+
+    const fresh = await new AuthenticatedClientService().ensureFreshToken(user);
+
+    expect(refreshToken).toHaveBeenCalledWith("refresh");
+    expect(updateUser).toHaveBeenCalledWith(
+      user.id,
+      expect.objectContaining({ accessToken: "new-access" }),
+    );
+    expect(fresh.accessToken).toBe("new-access");
+  });
+
+  test("keeps a token that's good for longer", async () => {
+    const user = makeUser({ tokenExpiry: new Date(Date.now() + 30 * MINUTE) });
+
+    const fresh = await new AuthenticatedClientService().ensureFreshToken(user);
+
+    expect(refreshToken).not.toHaveBeenCalled();
+    expect(fresh).toBe(user);
+  });
+});
+
+describe("refreshUserToken", () => {
+  test("shares one refresh between concurrent callers", async () => {
+    const user = makeUser();
+    let finish: (tokens: ReturnType<typeof refreshedTo>) => void = () => {};
+    refreshToken.mockReturnValue(
+      new Promise((resolve) => {
+        finish = resolve;
+      }),
+    );
+
+    // Separate service instances, like sync and calendar
+    const first = new AuthenticatedClientService().refreshUserToken(user);
+    const second = new AuthenticatedClientService().refreshUserToken(user);
+    finish(refreshedTo("new-access"));
+
+    const [a, b] = await Promise.all([first, second]);
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+    expect(updateUser).toHaveBeenCalledTimes(1);
+    expect(a.accessToken).toBe("new-access");
+    expect(b).toBe(a);
+  });
+});
+
+describe("withAccessToken", () => {
+  test("refreshes and retries exactly once on a 401", async () => {
+    const user = makeUser();
+    refreshToken.mockResolvedValue(refreshedTo("new-access"));
+    const call = vi
+      .fn()
+      .mockRejectedValueOnce({ code: 401 })
+      .mockResolvedValueOnce("done");
+
+    const result = await new AuthenticatedClientService().withAccessToken(
+      user,
+      call,
+    );
+
+    expect(result).toBe("done");
+    expect(call.mock.calls).toEqual([["old-access"], ["new-access"]]);
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+  });
+
+  test("gives up when the retry is rejected too", async () => {
+    const user = makeUser();
+    refreshToken.mockResolvedValue(refreshedTo("new-access"));
+    const call = vi.fn().mockRejectedValue({ statusCode: 401 });
+
+    await expect(
+      new AuthenticatedClientService().withAccessToken(user, call),
+    ).rejects.toEqual({ statusCode: 401 });
+    expect(call).toHaveBeenCalledTimes(2);
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+  });
+
+  test("doesn't refresh on other errors", async () => {
+    const user = makeUser();
+    const call = vi.fn().mockRejectedValue({ code: 500 });
+
+    await expect(
+      new AuthenticatedClientService().withAccessToken(user, call),
+    ).rejects.toEqual({ code: 500 });
+    expect(call).toHaveBeenCalledTimes(1);
+    expect(refreshToken).not.toHaveBeenCalled();
+  });
+});
+
+describe("reauthentication", () => {
+  test("throws ReauthRequiredError and tells listeners when the grant is revoked", async () => {
+    const user = makeUser({ tokenExpiry: new Date(Date.now() - MINUTE) });
+    refreshToken.mockRejectedValue(new Error("invalid_grant"));
+    const listener = vi.fn();
+    const unsubscribe = onReauthRequired(listener);
+
+    try {
+      const refresh = new AuthenticatedClientService().ensureFreshToken(user);
+      await expect(refresh).rejects.toBeInstanceOf(ReauthRequiredError);
+      await expect(refresh).rejects.toMatchObject({
+        userEmail: user.email,
+        provider: AuthProvider.GOOGLE,
+      });
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ userEmail: user.email }),
+      );
+      expect(updateUser).not.toHaveBeenCalled();
+    } finally {
+      unsubscribe();
+    }
+  });
+
+  test("needs a sign-in when no refresh token is stored", async () => {
+    const user = makeUser({ refreshToken: null });
+
+    await expect(
+      new AuthenticatedClientService().refreshUserToken(user),
+    ).rejects.toBeInstanceOf(ReauthRequiredError);
+    expect(refreshToken).not.toHaveBeenCalled();
+  });
+
+  test("passes other refresh failures through to retry later", async () => {
+    const user = makeUser();
+    const offline = Object.assign(new Error("getaddrinfo ENOTFOUND"), {
+      code: "ENOTFOUND",
+    });
+    refreshToken.mockRejectedValue(offline);
+
+    await expect(
+      new AuthenticatedClientService().refreshUserToken(user),
+    ).rejects.toBe(offline);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, test } from "vitest";
+import {
+  ContactSuggestion,
+  parseAddressList,
+  rankContacts,
+} from "@/lib/contacts";
+
+const now = new Date("2025-10-20T12:00:00Z");
+const daysAgo = (days: number) =>
+  new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+const contact = (
+  email: string,
+  overrides: Partial<ContactSuggestion> = {},
+): ContactSuggestion => ({
+  id: email,
+  email,
+  name: null,
+  avatar: null,
+  emailCount: 1,
+  lastEmailAt: daysAgo(1),
+  isManual: false,
+  ...overrides,
+});
+
+describe("parseAddressList", () => {
+  test("parses names, quoted commas and bare addresses", () => {
+    expect(
+      parseAddressList(
+        '"Doe, Jane" <Jane@Example.com>, bob@example.com, not-an-address',
+      ),
+    ).toEqual([
+      { name: "Doe, Jane", email: "jane@example.com" },
+      { name: null, email: "bob@example.com" },
+    ]);
+  });
+});
+
+describe("rankContacts", () => {
+  test("prefers address prefix matches, then frequent and recent contacts", () => {
+    const contacts = [
+      contact("old@acme.com", {
+        name: "Sam Old",
+        emailCount: 50,
+        lastEmailAt: daysAgo(365),
+      }),
+      contact("sam@acme.com", { emailCount: 10 }),
+      contact("samantha@acme.com", { emailCount: 2 }),
+      contact("team@acme.com", { name: "Sam's team" }),
+    ];
+
+    expect(rankContacts(contacts, "sam", 10, now).map((c) => c.email)).toEqual([
+      "sam@acme.com",
+      "samantha@acme.com",
+      "old@acme.com",
+      "team@acme.com",
+    ]);
+  });
+
+  test("returns nothing for an empty query", () => {
+    expect(rankContacts([contact("a@b.com")], "  ", 10, now)).toEqual([]);
+  });
+});
@@ -0,0 +1,167 @@
+// @vitest-environment node
+import { AuthProvider, User } from "@prisma/client";
+import { beforeEach, describe, expect, test, vi } from "vitest";
+
+const { db, gmail, graph } = vi.hoisted(() => ({
+  db: { findUserByEmail: vi.fn() },
+  gmail: { list: vi.fn(), create: vi.fn(), patch: vi.fn() },
+  graph: { get: vi.fn(), post: vi.fn(), patch: vi.fn() },
+}));
+
+vi.mock("@/services/database", () => ({
+  DatabaseService: class {
+    constructor() {
+      return db;
+    }
+  },
+}));
+vi.mock("@/services/authenticated-client", () => ({
+  AuthenticatedClientService: class {
+    withAccessToken<T>(_user: User, call: (token: string) => Promise<T>) {
+      return call("token");
+    }
+  },
+  gmailClientFromAccessToken: () => ({ users: { labels: gmail } }),
+  // Requests are told apart by their path, e.g. "POST /me/messages"
+  graphClientFromAccessToken: () => ({
+    api: (path: string) => ({
+      get: () => graph.get(`GET ${path}`),
+      post: (body: unknown) => graph.post(`POST ${path}`, body),
+      patch: (body: unknown) => graph.patch(`PATCH ${path}`, body),
+    }),
+  }),
+}));
+vi.mock("@/services/inline-images", () => ({
+  InlineImageService: class {},
+  toGraphInlineAttachment: vi.fn(),
+}));
+vi.mock("@/services/llm-settings", () => ({ LlmSettingsService: class {} }));
+vi.mock("@/services/labels", () => ({ LabelService: class {} }));
+vi.mock("@/services/mail-rules", () => ({ MailRuleService: class {} }));
+vi.mock("@/services/contacts", () => ({ ContactService: class {} }));
+
+import { EmailService } from "@/services/email";
+
+function useAccount(provider: AuthProvider) {
+  db.findUserByEmail.mockResolvedValue({
+    id: "user-1",
+    email: "me@example.com",
+    provider,
+  } as User);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+describe("syncCustomLabel on Gmail", () => {
+  beforeEach(() => useAccount(AuthProvider.GOOGLE));
+
+  test("creates a ZEROHANDS_ label in the chosen palette colour", async () => {
+    gmail.list.mockResolvedValue({ data: { labels: [] } });
+    gmail.create.mockResolvedValue({
+      data: { id: "Label_1", name: "ZEROHANDS_CLIENTS" },
+    });
+
+    await new EmailService().syncCustomLabel(
+      "me@example.com",
+      "Clients",
+      "#4a86e8",
+    );
+
+    expect(gmail.create).toHaveBeenCalledWith({
+      userId: "me",
+      requestBody: {
+        name: "ZEROHANDS_CLIENTS",
+        labelListVisibility: "labelShow",
+        messageListVisibility: "show",
+        color: { backgroundColor: "#4a86e8", textColor: "#ffffff" },
+      },
+    });
+    expect(gmail.patch).not.toHaveBeenCalled();
+  });
+
+  test("uses dark text on yellow so the label stays readable", async () => {
+    gmail.list.mockResolvedValue({ data: { labels: [] } });
+    gmail.create.mockResolvedValue({ data: {} });
+
+    await new EmailService().syncCustomLabel(
+      "me@example.com",
+      "Invoices",
+      "#fad165",
+    );
+
+    expect(gmail.create.mock.calls[0][0].requestBody.color).toEqual({
+      backgroundColor: "#fad165",
+      textColor: "#000000",
+    });
+  });
+
+  test("recolours an existing label only when its colour changed", async () => {
+    gmail.list.mockResolvedValue({
+      data: {
+        labels: [
+          {
+            id: "Label_1",
+            name: "ZEROHANDS_CLIENTS",
+            color: { backgroundColor: "#4a86e8" },
+          },
+        ],
+      },
+    });
+    const emailService = new EmailService();
+
+    await emailService.syncCustomLabel("me@example.com", "Clients", "#4a86e8");
+    expect(gmail.patch).not.toHaveBeenCalled();
+
+    await emailService.syncCustomLabel("me@example.com", "Clients", "#16a766");
+    expect(gmail.patch).toHaveBeenCalledWith({
+      userId: "me",
+      id: "Label_1",
+      requestBody: {
+        color: { backgroundColor: "#16a766", textColor: "#ffffff" },
+      },
+    });
+    expect(gmail.create).not.toHaveBeenCalled();
+  });
+});
+
+describe("syncCustomLabel on Outlook", () => {
+  beforeEach(() => useAccount(AuthProvider.OUTLOOK));
+
+  test("creates a category with the colour's preset", async () => {
+    graph.get.mockResolvedValue({ value: [] });
+
+    await new EmailService().syncCustomLabel(
+      "me@example.com",
+      "Clients",
+      "#4a86e8",
+    );
+
+    expect(graph.post).toHaveBeenCalledWith(
+      "POST /me/outlook/masterCategories",
+      { displayName: "ZEROHANDS_CLIENTS", color: "preset7" },
+    );
+  });
+
+  test("recolours an existing category by id", async () => {
+    graph.get.mockResolvedValue({
+      value: [
+        { id: "cat-1", displayName: "ZEROHANDS_CLIENTS", color: "preset7" },
+      ],
+    });
+
+    await new EmailService().syncCustomLabel(
+      "me@example.com",
+      "Clients",
+      "#fb4c2f",
+    );
+
+    expect(graph.post).not.toHaveBeenCalled();
+    expect(graph.patch).toHaveBeenCalledWith(
+      "PATCH /me/outlook/masterCategories/cat-1",
+      { color: "preset0" },
+    );
+  });
+});
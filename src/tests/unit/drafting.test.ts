@@ -0,0 +1,60 @@
+import { describe, expect, test } from "vitest";
+import {
+  appendSignature,
+  buildDraftPrompt,
+  buildDraftSystemPrompt,
+  cleanDraftText,
+} from "@/lib/prompts/drafting";
+import { parseLLMContentToBlocks } from "@/lib/llm-content-parser";
+
+const message = (body: string, minutesAgo: number) => ({
+  sender: "Ana",
+  senderEmail: "ana@example.com",
+  timestamp: new Date(Date.now() - minutesAgo * 60000),
+  body,
+});
+
+describe("buildDraftPrompt", () => {
+  test("puts the message being replied to after the rest of the thread", () => {
+    const first = message("Can we meet next week?", 60);
+    const last = message("Tuesday works for me", 5);
+    const prompt = buildDraftPrompt({
+      prompt: "Confirm Tuesday at 10",
+      thread: [first, last],
+      replyTo: last,
+      subject: "Meeting",
+    });
+
+    expect(prompt.indexOf("Can we meet")).toBeLessThan(
+      prompt.indexOf("### REPLYING TO"),
+    );
+    expect(prompt.split("Tuesday works for me").length).toBe(2);
+    expect(prompt.endsWith("### INSTRUCTION\nConfirm Tuesday at 10")).toBe(
+      true,
+    );
+  });
+
+  test("the system prompt carries the user's profile", () => {
+    const system = buildDraftSystemPrompt({
+      fullName: "Sam Lee",
+      pronouns: "they/them",
+      positionType: "Founder",
+      tone: "casual",
+    });
+    expect(system).toContain("Name: Sam Lee");
+    expect(system).toContain("Pronouns: they/them");
+    expect(system).toContain("Tone: casual");
+  });
+});
+
+describe("cleanDraftText", () => {
+  test("strips fences and subject lines into editor blocks", () => {
+    const draft = cleanDraftText(
+      "```\nSubject: Meeting\n\nHi Ana,\n\n- Tuesday\n- 10am\n\nBest,\n```",
+    );
+    expect(draft).toBe("Hi Ana,\n\n- Tuesday\n- 10am\n\nBest,");
+    expect(
+      parseLLMContentToBlocks(appendSignature(draft, "Sam")).map((b) => b.type),
+    ).toEqual(["text", "list", "text", "text"]);
+  });
+});
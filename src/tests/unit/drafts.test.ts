@@ -0,0 +1,42 @@
+import { describe, expect, test } from "vitest";
+import {
+  draftHtmlToPlainText,
+  isDraftEmpty,
+  plainTextToDraftHtml,
+} from "@/lib/drafts";
+
+const editorHtml = (inner: string) =>
+  `<div style="font-family: Arial, sans-serif;">${inner}</div>`;
+
+describe("isDraftEmpty", () => {
+  test("only counts the body of replies, whose headers are prefilled", () => {
+    const reply = {
+      mode: "reply" as const,
+      to: ["jane@example.com"],
+      subject: "Re: Lunch",
+      body: editorHtml("<p><br></p>"),
+    };
+    expect(isDraftEmpty(reply)).toBe(true);
+    expect(
+      isDraftEmpty({ ...reply, body: editorHtml("<p>Sounds good</p>") }),
+    ).toBe(false);
+  });
+
+  test("keeps new messages with only a recipient or subject", () => {
+    const draft = { mode: "new" as const, to: [], subject: "", body: "" };
+    expect(isDraftEmpty(draft)).toBe(true);
+    expect(isDraftEmpty({ ...draft, to: ["bob@example.com"] })).toBe(false);
+    expect(isDraftEmpty({ ...draft, subject: "Plans" })).toBe(false);
+  });
+});
+
+describe("plain text drafts", () => {
+  test("round trip through HTML", () => {
+    const text = "Hi <team>,\n\nFish & chips?";
+    expect(draftHtmlToPlainText(plainTextToDraftHtml(text))).toBe(text);
+  });
+
+  test("bodies with markup stay HTML", () => {
+    expect(draftHtmlToPlainText(editorHtml("<p>Hi</p>"))).toBeNull();
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, test } from "vitest";
+import {
+  buildEmailViewDocument,
+  findRemoteResources,
+  getEmailViewPolicy,
+  getRemoteContentReport,
+  parseEmailViewUrl,
+} from "@/lib/email-view";
+
+const newsletter = `
+<style>@import "https://cdn.example.com/mail.css";
+  .hero { background: url('https://cdn.example.com/hero.png'); }</style>
+<p>Hello</p>
+<img src="https://cdn.example.com/logo.png?w=200&amp;h=80" width="200">
+<img src="https://mail.example.com/o/abc" width="1" height="1">
+<img src="https://us1.list-manage.com/track/open.php?u=1">
+<table background="https://mail.example.com/bg.jpg"></table>
+<img src="data:image/png;base64,AAAA">
+<img src="cid:logo@example">
+`;
+
+describe("findRemoteResources", () => {
+  test("finds remote content in markup and styles", () => {
+    const resources = findRemoteResources(newsletter);
+    expect(resources.map((r) => [r.url, r.kind, r.tracker])).toEqual([
+      ["https://cdn.example.com/hero.png", "image", null],
+      ["https://cdn.example.com/mail.css", "stylesheet", null],
+      ["https://cdn.example.com/logo.png?w=200&h=80", "image", null],
+      ["https://mail.example.com/o/abc", "image", "tracking-pixel"],
+      [
+        "https://us1.list-manage.com/track/open.php?u=1",
+        "image",
+        "known-tracker",
+      ],
+      ["https://mail.example.com/bg.jpg", "image", null],
+    ]);
+  });
+
+  test("flags open-tracking paths", () => {
+    const [resource] = findRemoteResources(
+      '<img src="https://u1.ct.example.net/wf/open?upn=x" alt="">',
+    );
+    expect(resource.tracker).toBe("tracking-url");
+  });
+});
+
+describe("getRemoteContentReport", () => {
+  test("blocks everything until remote content is loaded", () => {
+    const report = getRemoteContentReport(
+      findRemoteResources(newsletter),
+      false,
+    );
+    expect(report.resources.every((r) => r.blocked)).toBe(true);
+  });
+
+  test("keeps hosts serving trackers blocked once loaded", () => {
+    const report = getRemoteContentReport(
+      findRemoteResources(newsletter),
+      true,
+    );
+    const blockedHosts = new Set(
+      report.resources.filter((r) => r.blocked).map((r) => r.host),
+    );
+    expect([...blockedHosts]).toEqual([
+      "mail.example.com",
+      "us1.list-manage.com",
+    ]);
+  });
+});
+
+describe("getEmailViewPolicy", () => {
+  test("allows only the nonce script and listed hosts", () => {
+    const policy = getEmailViewPolicy(["cdn.example.com"], "abc");
+    expect(policy).toContain("default-src 'none'");
+    expect(policy).toContain("script-src 'nonce-abc'");
+    expect(policy).toContain(
+      "img-src data: https://cdn.example.com http://cdn.example.com",
+    );
+    expect(getEmailViewPolicy([], "abc")).toContain("media-src 'none'");
+  });
+});
+
+describe("buildEmailViewDocument", () => {
+  test("folds quoted replies", () => {
+    const html = buildEmailViewDocument(
+      {
+        body: "",
+        htmlBody:
+          '<div dir="ltr">Sounds good, thanks!</div><div class="gmail_quote">On Mon, Jane wrote: the earlier message</div>',
+      },
+      "default-src 'none'",
+      "abc",
+    );
+    expect(html).toContain(
+      '<div dir="ltr">Sounds good, thanks!</div>\n<details class="email-view-quoted">',
+    );
+    expect(html).toContain('<script nonce="abc">');
+  });
+
+  test("escapes plain text and folds its quoted lines", () => {
+    const html = buildEmailViewDocument(
+      { body: "Works for me <3\n\n> On Monday we said\n> something longer" },
+      "default-src 'none'",
+      "abc",
+    );
+    expect(html).toContain("Works for me &lt;3");
+    expect(html).toContain('<details class="email-view-quoted">');
+  });
+});
+
+describe("parseEmailViewUrl", () => {
+  test("reads the message id and remote flag", () => {
+    expect(parseEmailViewUrl("email-view://clx123abc/?remote=1")).toEqual({
+      emailId: "clx123abc",
+      loadRemote: true,
+    });
+    expect(parseEmailViewUrl("email-view://../secret/")).toBe(null);
+  });
+});
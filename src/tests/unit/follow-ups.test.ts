@@ -0,0 +1,77 @@
+import { describe, expect, test } from "vitest";
+import {
+  getFollowUpDueAt,
+  hasFollowUpReply,
+  normalizeSubject,
+} from "@/lib/follow-ups";
+
+const sentAt = new Date("2025-10-20T09:00:00Z");
+const watch = {
+  threadId: "thread-1",
+  subject: "Re: Contract draft",
+  recipients: ["Jane@Example.com"],
+  sentAt,
+};
+const later = new Date("2025-10-21T10:00:00Z");
+
+describe("getFollowUpDueAt", () => {
+  test("adds the chosen hours to the send time", () => {
+    expect(getFollowUpDueAt(sentAt, 72)).toEqual(
+      new Date("2025-10-23T09:00:00Z"),
+    );
+  });
+});
+
+describe("normalizeSubject", () => {
+  test("drops stacked reply and forward prefixes", () => {
+    expect(normalizeSubject("RE: Fwd: AW: Contract draft ")).toBe(
+      "contract draft",
+    );
+    expect(normalizeSubject("Re[2]: Contract draft")).toBe("contract draft");
+  });
+});
+
+describe("hasFollowUpReply", () => {
+  test("counts later messages from others in the thread", () => {
+    const reply = {
+      threadId: "thread-1",
+      subject: "Re: Contract draft",
+      senderEmail: "bob@example.com",
+      timestamp: later,
+    };
+    expect(hasFollowUpReply(watch, [reply], "me@example.com")).toBe(true);
+    expect(
+      hasFollowUpReply(
+        watch,
+        [{ ...reply, senderEmail: "ME@example.com" }],
+        "me@example.com",
+      ),
+    ).toBe(false);
+    expect(
+      hasFollowUpReply(
+        watch,
+        [{ ...reply, timestamp: sentAt }],
+        "me@example.com",
+      ),
+    ).toBe(false);
+  });
+
+  test("matches a recipient's message on the same subject in another thread", () => {
+    const outlookReply = {
+      threadId: "message-9",
+      subject: "RE: Contract draft",
+      senderEmail: "jane@example.com",
+      timestamp: later,
+    };
+    expect(hasFollowUpReply(watch, [outlookReply], "me@example.com")).toBe(
+      true,
+    );
+    expect(
+      hasFollowUpReply(
+        watch,
+        [{ ...outlookReply, subject: "Lunch?" }],
+        "me@example.com",
+      ),
+    ).toBe(false);
+  });
+});
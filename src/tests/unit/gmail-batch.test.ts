@@ -0,0 +1,346 @@
+// @vitest-environment node
+import { readFileSync } from "fs";
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import {
+  GMAIL_THREAD_METADATA_FIELDS,
+  GmailBatchError,
+  buildGmailBatchBody,
+  getGmailBatch,
+  getGmailThreadPath,
+  parseGmailBatchResponse,
+} from "@/lib/gmail-batch";
+
+type Json = Record<string, unknown>;
+
+// Recorded threads.get responses, format=full
+const fixture = JSON.parse(
+  readFileSync(
+    new URL("../fixtures/gmail-threads.json", import.meta.url),
+    "utf8",
+  ),
+) as { threads: Array<Json & { id: string }> };
+
+function batchResponse(
+  boundary: string,
+  parts: Array<{ id: string; status: string; body: string }>,
+): string {
+  return (
+    parts
+      .map(
+        (part) =>
+          `--${boundary}\r\nContent-Type: application/http\r\nContent-ID: <response-${part.id}>\r\n\r\n` +
+          `HTTP/1.1 ${part.status}\r\nContent-Type: application/json; charset=UTF-8\r\n\r\n${part.body}\r\n`,
+      )
+      .join("") + `--${boundary}--\r\n`
+  );
+}
+
+describe("buildGmailBatchBody", () => {
+  test("puts each request in its own part", () => {
+    expect(buildGmailBatchBody(["/a", "/b"], "xyz")).toBe(
+      "--xyz\r\nContent-Type: application/http\r\nContent-ID: <item-0>\r\n\r\nGET /a\r\n\r\n" +
+        "--xyz\r\nContent-Type: application/http\r\nContent-ID: <item-1>\r\n\r\nGET /b\r\n\r\n" +
+        "--xyz--\r\n",
+    );
+  });
+});
+
+describe("parseGmailBatchResponse", () => {
+  test("orders parts by their Content-ID", () => {
+    const body = batchResponse("resp", [
+      { id: "item-1", status: "404 Not Found", body: '{"error":{}}' },
+      { id: "item-0", status: "200 OK", body: '{"id":"t0"}' },
+    ]);
+    const parts = parseGmailBatchResponse(
+      body,
+      "multipart/mixed; boundary=resp",
+      3,
+    );
+    expect(parts.map((part) => part.status)).toEqual([200, 404, 500]);
+    expect(parts[0].body).toEqual({ id: "t0" });
+    expect(parts[0].headers["content-type"]).toContain("application/json");
+  });
+
+  test("needs the boundary", () => {
+    expect(() => parseGmailBatchResponse("", "multipart/mixed", 1)).toThrow();
+  });
+});
+
+describe("getGmailBatch", () => {
+  // Answers each path from the map, a status per call in turn
+  function fakeFetch(statuses: Record<string, number[]>, requests: string[][]) {
+    return (async (_url: string, init: RequestInit) => {
+      const paths = [...String(init.body).matchAll(/^GET (\S+)/gm)].map(
+        (match) => match[1],
+      );
+      requests.push(paths);
+      const body = batchResponse(
+        "resp",
+        paths.map((path, index) => ({
+          id: `item-${index}`,
+          status: `${statuses[path].shift() ?? 200} X`,
+          body: JSON.stringify({ path }),
+        })),
+      );
+      return new Response(body, {
+        headers: { "Content-Type": "multipart/mixed; boundary=resp" },
+      });
+    }) as typeof fetch;
+  }
+
+  test("asks again for rate limited calls only", async () => {
+    const requests: string[][] = [];
+    const results = await getGmailBatch<Json>("token", ["/a", "/b", "/c"], {
+      fetch: fakeFetch(
+        { "/a": [200], "/b": [429, 200], "/c": [404] },
+        requests,
+      ),
+      sleep: async () => {},
+    });
+    expect(requests).toEqual([["/a", "/b", "/c"], ["/b"]]);
+    expect(results[0]).toEqual({ path: "/a" });
+    expect(results[1]).toEqual({ path: "/b" });
+    expect(results[2]).toBeInstanceOf(GmailBatchError);
+    expect((results[2] as GmailBatchError).response.status).toBe(404);
+  });
+
+  test("throws when rate limited past the retries", async () => {
+    await expect(
+      getGmailBatch("token", ["/a"], {
+        fetch: fakeFetch({ "/a": [429, 429, 429] }, []),
+        sleep: async () => {},
+      }),
+    ).rejects.toBeInstanceOf(GmailBatchError);
+  });
+
+  test("splits large requests into batches of 50", async () => {
+    const requests: string[][] = [];
+    const paths = Array.from({ length: 120 }, (_, i) => `/t${i}`);
+    await getGmailBatch("token", paths, {
+      fetch: fakeFetch(
+        Object.fromEntries(paths.map((path) => [path, []])),
+        requests,
+      ),
+    });
+    expect(requests.map((batch) => batch.length)).toEqual([50, 50, 20]);
+  });
+});
+
+// ---------------- Benchmark ----------------
+
+// A Gmail stand-in replaying recorded threads.get responses, with the round
+// trip and bandwidth of a typical connection. Partial responses are cut
+// down from the recording by their `fields` mask, as Gmail does.
+
+const ROUND_TRIP_MS = 40;
+const BYTES_PER_MS = 1000; // About 8 Mbit/s
+const THREAD_COUNT = 50;
+
+type FieldMask = Map<string, FieldMask | true>;
+
+function parseFieldMask(fields: string): FieldMask {
+  let position = 0;
+  const parseList = (): FieldMask => {
+    const mask: FieldMask = new Map();
+    while (position < fields.length && fields[position] !== ")") {
+      const name = /^[\w/]+/.exec(fields.slice(position))![0];
+      position += name.length;
+      let value: FieldMask | true = true;
+      if (fields[position] === "(") {
+        position++;
+        value = parseList();
+        position++;
+      }
+      // a/b is a(b)
+      const segments = name.split("/");
+      let target = mask;
+      for (const segment of segments.slice(0, -1)) {
+        const existing = target.get(segment);
+        const next = existing instanceof Map ? existing : new Map();
+        target.set(segment, next);
+        target = next;
+      }
+      target.set(segments[segments.length - 1], value);
+      if (fields[position] === ",") position++;
+    }
+    return mask;
+  };
+  return parseList();
+}
+
+function applyFieldMask(value: unknown, mask: FieldMask): unknown {
+  if (Array.isArray(value)) return value.map((v) => applyFieldMask(v, mask));
+  if (!value || typeof value !== "object") return value;
+  const result: Json = {};
+  for (const [key, sub] of mask) {
+    const field = (value as Json)[key];
+    if (field === undefined) continue;
+    result[key] = sub === true ? field : applyFieldMask(field, sub);
+  }
+  return result;
+}
+
+// Thread ids are a recorded thread's, suffixed to make them unique
+function getRecordedThread(path: string): string {
+  const url = new URL(path, "http://gmail");
+  const id = decodeURIComponent(url.pathname.split("/").pop()!);
+  const recorded = fixture.threads.find(
+    (thread) => thread.id === id.split("-")[0],
+  )!;
+  const thread = JSON.parse(
+    JSON.stringify(recorded).replaceAll(recorded.id, id),
+  );
+  const fields = url.searchParams.get("fields");
+  return JSON.stringify(
+    fields ? applyFieldMask(thread, parseFieldMask(fields)) : thread,
+  );
+}
+
+function startRecordedGmail() {
+  const stats = { requests: 0, bytes: 0 };
+  let linkFreeAt = 0;
+
+  // Responses share the link, so bytes queue behind each other
+  const send = (res: ServerResponse, contentType: string, body: string) => {
+    const bytes = Buffer.byteLength(body);
+    stats.requests++;
+    stats.bytes += bytes;
+    const now = performance.now();
+    linkFreeAt =
+      Math.max(now + ROUND_TRIP_MS, linkFreeAt) + bytes / BYTES_PER_MS;
+    setTimeout(() => {
+      res.writeHead(200, { "Content-Type": contentType });
+      res.end(body);
+    }, linkFreeAt - now);
+  };
+
+  const readBody = async (req: IncomingMessage) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks).toString();
+  };
+
+  const server = createServer(async (req, res) => {
+    if (req.method === "GET") {
+      send(res, "application/json", getRecordedThread(req.url!));
+      return;
+    }
+    const requests = [
+      ...(await readBody(req)).matchAll(
+        /Content-ID: <(.+?)>\r\n\r\nGET (\S+)/g,
+      ),
+    ];
+    send(
+      res,
+      "multipart/mixed; boundary=batch_recorded",
+      batchResponse(
+        "batch_recorded",
+        requests.map(([, id, path]) => ({
+          id,
+          status: "200 OK",
+          body: getRecordedThread(path),
+        })),
+      ),
+    );
+  });
+
+  return new Promise<{ url: string; stats: typeof stats; close: () => void }>(
+    (resolve) =>
+      server.listen(0, "127.0.0.1", () => {
+        const { port } = server.address() as AddressInfo;
+        resolve({
+          url: `http://127.0.0.1:${port}`,
+          stats,
+          close: () => server.close(),
+        });
+      }),
+  );
+}
+
+describe("thread fetching benchmark", () => {
+  const threadIds = Array.from(
+    { length: THREAD_COUNT },
+    (_, i) => `${fixture.threads[i % fixture.threads.length].id}-${i}`,
+  );
+  let gmail: Awaited<ReturnType<typeof startRecordedGmail>>;
+
+  beforeAll(async () => {
+    gmail = await startRecordedGmail();
+  });
+
+  afterAll(() => gmail.close());
+
+  // How sync fetched threads before: whole, one request each, 10 at a time
+  async function fetchThreadsOneByOne() {
+    const threads: Json[] = [];
+    for (let start = 0; start < threadIds.length; start += 10) {
+      const batch = threadIds.slice(start, start + 10);
+      threads.push(
+        ...(await Promise.all(
+          batch.map((id) =>
+            fetch(`${gmail.url}/gmail/v1/users/me/threads/${id}?format=full`)
+              .then((res) => res.json())
+              .then((thread) => thread as Json),
+          ),
+        )),
+      );
+    }
+    return threads;
+  }
+
+  async function measure<T>(run: () => Promise<T>) {
+    gmail.stats.requests = 0;
+    gmail.stats.bytes = 0;
+    const started = performance.now();
+    const result = await run();
+    return {
+      result,
+      ms: performance.now() - started,
+      requests: gmail.stats.requests,
+      bytes: gmail.stats.bytes,
+    };
+  }
+
+  test("batched metadata takes one request and a fraction of the bytes", async () => {
+    const before = await measure(fetchThreadsOneByOne);
+    const after = await measure(() =>
+      getGmailBatch<Json>(
+        "token",
+        threadIds.map((id) =>
+          getGmailThreadPath(id, GMAIL_THREAD_METADATA_FIELDS),
+        ),
+        { url: `${gmail.url}/batch/gmail/v1` },
+      ),
+    );
+
+    // Timings vary with the machine, so they're reported, not asserted
+    console.log(
+      `[BENCHMARK] ${THREAD_COUNT} threads: ${before.requests} requests, ${Math.round(before.bytes / 1024)} KB, ${Math.round(before.ms)} ms ` +
+        `-> ${after.requests} request, ${Math.round(after.bytes / 1024)} KB, ${Math.round(after.ms)} ms ` +
+        `(${(before.ms / after.ms).toFixed(1)}x)`,
+    );
+
+    expect(before.result).toHaveLength(THREAD_COUNT);
+    expect(before.requests).toBe(THREAD_COUNT);
+    expect(after.requests).toBe(1);
+    expect(after.bytes).toBeLessThan(before.bytes / 3);
+  });
+
+  test("metadata keeps what the list needs, without bodies", async () => {
+    const [thread] = (await getGmailBatch<Json>(
+      "token",
+      [getGmailThreadPath(threadIds[3], GMAIL_THREAD_METADATA_FIELDS)],
+      { url: `${gmail.url}/batch/gmail/v1` },
+    )) as Json[];
+
+    const text = JSON.stringify(thread);
+    expect(text.includes('"data"')).toBe(false);
+    expect(text).toContain("invoice-2025-114.pdf");
+    expect(text).toContain('"attachmentId"');
+    const [message] = thread.messages as Json[];
+    expect(message.labelIds).toContain("INBOX");
+    expect(JSON.stringify(message.payload)).toContain('"Subject"');
+  });
+});
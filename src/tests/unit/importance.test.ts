@@ -0,0 +1,108 @@
+import { describe, expect, test } from "vitest";
+import {
+  DEFAULT_IMPORTANCE_WEIGHTS,
+  buildImportanceSignals,
+  normalizeImportanceWeights,
+  scoreImportance,
+  sortMessagesOldestFirst,
+} from "@/lib/importance";
+
+const userEmail = "me@example.com";
+const preferences = {
+  vipContacts: ["ceo@acme.com"],
+  vipDomains: ["bigclient.com"],
+  smartGroupEmails: [],
+  importantLabels: ["invoice"],
+};
+
+describe("scoreImportance", () => {
+  test("never marks threads where the user sent the last message", () => {
+    const signals = buildImportanceSignals({
+      messages: [{ senderEmail: "ceo@acme.com" }, { senderEmail: userEmail }],
+      labels: ["invoice"],
+      userEmail,
+      preferences,
+    });
+
+    expect(scoreImportance(signals)).toEqual({
+      score: 0,
+      isImportant: false,
+      reasons: ["You sent the last message"],
+    });
+  });
+
+  test("adds up onboarding signals and explains each one", () => {
+    const signals = buildImportanceSignals({
+      messages: [{ senderEmail: "Ana@BigClient.com" }],
+      labels: ["invoice", "marketing"],
+      userEmail,
+      preferences,
+    });
+    const result = scoreImportance(signals);
+
+    expect(result.score).toBe(5);
+    expect(result.isImportant).toBe(true);
+    expect(result.reasons).toEqual([
+      "Sender is from a VIP domain (+2)",
+      "Labelled invoice (+3)",
+    ]);
+  });
+
+  test("reads the last message of threads stored newest first", () => {
+    const stored = [
+      { senderEmail: userEmail, timestamp: new Date("2025-10-20T10:00:00Z") },
+      {
+        senderEmail: "ceo@acme.com",
+        timestamp: new Date("2025-10-20T09:00:00Z"),
+      },
+      {
+        senderEmail: "ceo@acme.com",
+        timestamp: new Date("2025-10-19T09:00:00Z"),
+      },
+    ];
+    const signals = buildImportanceSignals({
+      messages: sortMessagesOldestFirst(stored),
+      labels: [],
+      userEmail,
+      preferences,
+    });
+
+    expect(signals.lastMessageFromUser).toBe(true);
+    expect(scoreImportance(signals).isImportant).toBe(false);
+  });
+
+  test("keeps threads a rule marked important", () => {
+    const signals = buildImportanceSignals({
+      messages: [{ senderEmail: "news@shop.example" }],
+      labels: [],
+      userEmail,
+      markedByRule: true,
+    });
+
+    expect(scoreImportance(signals)).toEqual({
+      score: 0,
+      isImportant: true,
+      reasons: ["A mail rule marked this important"],
+    });
+  });
+
+  test("penalises bulk senders", () => {
+    const signals = buildImportanceSignals({
+      messages: [{ senderEmail: "news@shop.example" }],
+      labels: ["important"],
+      userEmail,
+      senderMessageCount: 25,
+    });
+
+    expect(scoreImportance(signals)).toMatchObject({
+      score: 1,
+      isImportant: false,
+    });
+  });
+});
+
+test("normalizeImportanceWeights fills gaps and clamps values", () => {
+  expect(normalizeImportanceWeights({ vipContact: 50, threshold: -4 })).toEqual(
+    { ...DEFAULT_IMPORTANCE_WEIGHTS, vipContact: 10, threshold: 0 },
+  );
+});
@@ -0,0 +1,76 @@
+import { describe, expect, test } from "vitest";
+import {
+  getGmailSyncWindowQuery,
+  getInitialSyncStatus,
+  getOutlookSyncWindowFilter,
+  getSyncWindowStart,
+  isSyncWindow,
+} from "@/lib/initial-sync";
+
+const now = new Date("2025-10-29T12:00:00Z");
+
+describe("getSyncWindowStart", () => {
+  test("goes back by the window", () => {
+    expect(getSyncWindowStart("week", now)).toEqual(
+      new Date("2025-10-22T12:00:00Z"),
+    );
+    expect(getSyncWindowStart("month", now)).toEqual(
+      new Date("2025-09-29T12:00:00Z"),
+    );
+    expect(getSyncWindowStart("year", now)).toEqual(
+      new Date("2024-10-29T12:00:00Z"),
+    );
+  });
+
+  test("has no start for all mail", () => {
+    expect(getSyncWindowStart("all", now)).toBeNull();
+  });
+});
+
+describe("provider window filters", () => {
+  test("restrict listings to the window", () => {
+    expect(getGmailSyncWindowQuery("week", now)).toBe("after:2025/10/22");
+    expect(getOutlookSyncWindowFilter("week", now)).toBe(
+      "receivedDateTime ge 2025-10-22T00:00:00Z",
+    );
+  });
+
+  test("list everything for all mail", () => {
+    expect(getGmailSyncWindowQuery("all", now)).toBeUndefined();
+    expect(getOutlookSyncWindowFilter("all", now)).toBeUndefined();
+  });
+});
+
+describe("isSyncWindow", () => {
+  test("accepts only known windows", () => {
+    expect(isSyncWindow("year")).toBe(true);
+    expect(isSyncWindow("decade")).toBe(false);
+    expect(isSyncWindow(null)).toBe(false);
+  });
+});
+
+describe("getInitialSyncStatus", () => {
+  test("is complete once the window is fetched, even if paused", () => {
+    expect(
+      getInitialSyncStatus({
+        initialSyncPaused: true,
+        initialSyncCompletedAt: now,
+      }),
+    ).toBe("complete");
+  });
+
+  test("is paused or syncing until then", () => {
+    expect(
+      getInitialSyncStatus({
+        initialSyncPaused: true,
+        initialSyncCompletedAt: null,
+      }),
+    ).toBe("paused");
+    expect(
+      getInitialSyncStatus({
+        initialSyncPaused: false,
+        initialSyncCompletedAt: null,
+      }),
+    ).toBe("syncing");
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, test } from "vitest";
+import {
+  findInlineImages,
+  getInlineImageContentId,
+  getInlineImageName,
+  getInlineImageUrl,
+  parseInlineImageUrl,
+  replaceInlineImageSources,
+} from "@/lib/inline-images";
+
+const hash = "ab".repeat(32);
+const name = `${hash}.png`;
+
+describe("inline image names", () => {
+  test("come from the content hash and image type", () => {
+    expect(getInlineImageName(hash.toUpperCase(), "image/PNG")).toBe(name);
+    expect(() => getInlineImageName(hash, "image/svg+xml")).toThrow();
+    expect(() => getInlineImageName("../../etc", "image/png")).toThrow();
+  });
+
+  test("are read back from inline-image URLs only", () => {
+    expect(parseInlineImageUrl(getInlineImageUrl(name))).toBe(name);
+    expect(parseInlineImageUrl(`inline-image://${name}/`)).toBe(name);
+    expect(parseInlineImageUrl("inline-image://../secrets.png")).toBe(null);
+    expect(parseInlineImageUrl(`https://example.com/${name}`)).toBe(null);
+  });
+});
+
+describe("replaceInlineImageSources", () => {
+  test("points stored images at their cid parts", () => {
+    const other = `${"cd".repeat(32)}.jpg`;
+    const html = [
+      `<img src="inline-image://${name}" width="200">`,
+      `<img src='inline-image://${other}'>`,
+      `<img src="inline-image://${name}">`,
+      `<img src="https://example.com/logo.png">`,
+    ].join("");
+
+    expect(findInlineImages(html)).toEqual([name, other]);
+
+    const replaced = replaceInlineImageSources(html, [name]);
+    expect(replaced).toContain(
+      `<img src="cid:${getInlineImageContentId(name)}" width="200">`,
+    );
+    expect(replaced).toContain(`src='inline-image://${other}'`);
+    expect(replaced).toContain(`src="https://example.com/logo.png"`);
+    expect(findInlineImages(replaced)).toEqual([other]);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, test } from "vitest";
+import {
+  classifyEmails,
+  classifyWithRules,
+  parseClassificationResponse,
+} from "@/lib/label-classifier";
+import { createOfflineModel } from "@/lib/offline-model";
+
+const otpEmail = {
+  id: "otp",
+  subject: "Your sign-in code",
+  senderEmail: "no-reply@bank.example",
+  body: "Your verification code is 482913. It expires in 10 minutes.",
+};
+
+const promoEmail = {
+  id: "promo",
+  subject: "50% off this weekend",
+  senderEmail: "deals@shop.example",
+  body: "Don't miss out on our biggest sale.",
+  listUnsubscribe: true,
+};
+
+describe("classifyWithRules", () => {
+  test("labels OTP messages as credentials", () => {
+    expect(classifyWithRules(otpEmail).map((l) => l.label)).toEqual([
+      "credentials",
+    ]);
+  });
+
+  test("labels List-Unsubscribe mail as marketing", () => {
+    const [label] = classifyWithRules(promoEmail);
+    expect(label).toMatchObject({
+      label: "marketing",
+      source: "rules",
+      modelVersion: "rules-v1",
+    });
+  });
+});
+
+describe("parseClassificationResponse", () => {
+  test("keeps known labels and drops invented ones", () => {
+    const results = parseClassificationResponse(
+      '```json\n{"results":[{"id":"a","labels":[{"label":"invoice","confidence":0.92},{"label":"urgent","confidence":0.8},{"label":"news","confidence":1.5}]}]}\n```',
+      "test/model",
+    );
+
+    expect(results?.get("a")).toEqual([
+      {
+        label: "invoice",
+        confidence: 0.92,
+        source: "model",
+        modelVersion: "test/model",
+      },
+    ]);
+  });
+
+  test("accepts the user's own labels when allowed", () => {
+    const results = parseClassificationResponse(
+      '{"results":[{"id":"a","labels":[{"label":"travel","confidence":0.7}]}]}',
+      "test/model",
+      ["invoice", "travel"],
+    );
+
+    expect(results?.get("a")?.map((l) => l.label)).toEqual(["travel"]);
+  });
+
+  test("rejects answers that don't match the schema", () => {
+    expect(parseClassificationResponse('{"labels":["news"]}', "m")).toBeNull();
+    expect(parseClassificationResponse("not json", "m")).toBeNull();
+  });
+});
+
+test("classifyEmails falls back to rules for emails the model skips", async () => {
+  const classifications = await classifyEmails(
+    createOfflineModel("labelling"),
+    [otpEmail, promoEmail],
+  );
+
+  expect(classifications.get("otp")?.map((l) => l.label)).toEqual([
+    "credentials",
+  ]);
+  expect(classifications.get("promo")?.map((l) => l.label)).toEqual([
+    "marketing",
+  ]);
+});
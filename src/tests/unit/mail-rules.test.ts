@@ -0,0 +1,116 @@
+import { describe, expect, test } from "vitest";
+import {
+  MailRuleDefinition,
+  RuleTarget,
+  matchesMailRule,
+  planRuleActions,
+  validateMailRule,
+} from "@/lib/mail-rules";
+
+const target: RuleTarget = {
+  sender: "GitHub",
+  senderEmail: "notifications@github.com",
+  recipients: ["me@example.com"],
+  subject: "[repo] Build failed on main",
+  labels: ["github"],
+  hasAttachments: false,
+};
+
+const rule = (overrides: Partial<MailRuleDefinition>): MailRuleDefinition => ({
+  name: "Test",
+  enabled: true,
+  matchAll: true,
+  conditions: [],
+  actions: [],
+  ...overrides,
+});
+
+describe("matchesMailRule", () => {
+  test("requires every condition when matchAll is set", () => {
+    const conditions = [
+      { field: "domain" as const, value: "github.com" },
+      { field: "subject" as const, value: "build (failed|passed)" },
+      { field: "hasAttachment" as const, value: "true" },
+    ];
+
+    expect(matchesMailRule(rule({ conditions }), target)).toBe(false);
+    expect(matchesMailRule(rule({ conditions, matchAll: false }), target)).toBe(
+      true,
+    );
+  });
+
+  test("never matches disabled rules", () => {
+    const conditions = [{ field: "sender" as const, value: "github" }];
+    expect(matchesMailRule(rule({ conditions, enabled: false }), target)).toBe(
+      false,
+    );
+  });
+});
+
+describe("planRuleActions", () => {
+  test("chains label changes between rules in order", () => {
+    const plan = planRuleActions(
+      [
+        rule({
+          conditions: [{ field: "domain", value: "github.com" }],
+          actions: [
+            { type: "applyLabel", value: "ci" },
+            { type: "removeLabel", value: "github" },
+          ],
+        }),
+        rule({
+          conditions: [{ field: "label", value: "ci" }],
+          actions: [{ type: "markRead" }, { type: "archive" }],
+        }),
+      ],
+      target,
+    );
+
+    expect(plan).toMatchObject({
+      addLabels: ["ci"],
+      removeLabels: ["github"],
+      markRead: true,
+      archive: true,
+      star: false,
+      forwardTo: [],
+    });
+  });
+
+  test("returns the rules that matched, for their forwards", () => {
+    const forward = rule({
+      name: "Forward builds",
+      conditions: [{ field: "subject", value: "build failed" }],
+      actions: [{ type: "forward", value: "oncall@example.com" }],
+    });
+    const other = rule({
+      conditions: [{ field: "domain", value: "gitlab.com" }],
+      actions: [{ type: "forward", value: "gitlab@example.com" }],
+    });
+
+    const plan = planRuleActions([other, forward], target);
+
+    expect(plan.matchedRules).toEqual([forward]);
+    expect(plan.forwardTo).toEqual(["oncall@example.com"]);
+  });
+});
+
+describe("validateMailRule", () => {
+  test("rejects bad patterns and forwarding addresses", () => {
+    expect(() =>
+      validateMailRule(
+        rule({
+          conditions: [{ field: "subject", value: "(" }],
+          actions: [{ type: "star" }],
+        }),
+      ),
+    ).toThrow("Invalid subject pattern");
+    expect(() =>
+      validateMailRule(
+        rule({
+          conditions: [{ field: "sender", value: "boss" }],
+          actions: [{ type: "forward", value: "not-an-address" }],
+        }),
+      ),
+    ).toThrow("Invalid forwarding address");
+  });
+});
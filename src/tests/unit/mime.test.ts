@@ -0,0 +1,116 @@
+import { describe, expect, test } from "vitest";
+import {
+  buildMimeMessage,
+  encodeHeaderValue,
+  htmlToPlainText,
+  toBase64Url,
+} from "@/lib/mime";
+
+describe("buildMimeMessage", () => {
+  test("includes recipients and threading headers", () => {
+    const message = buildMimeMessage({
+      to: ["alice@example.com"],
+      cc: ["bob@example.com", "carol@example.com"],
+      bcc: ["dave@example.com"],
+      subject: "Re: Quarterly numbers",
+      html: "<p>Sounds good</p>",
+      inReplyTo: "<original@mail.example.com>",
+      references: ["<root@mail.example.com>", "<original@mail.example.com>"],
+    });
+
+    expect(message).toContain("To: alice@example.com\r\n");
+    expect(message).toContain("Cc: bob@example.com, carol@example.com\r\n");
+    expect(message).toContain("Bcc: dave@example.com\r\n");
+    expect(message).toContain("In-Reply-To: <original@mail.example.com>\r\n");
+    expect(message).toContain(
+      "References: <root@mail.example.com> <original@mail.example.com>\r\n",
+    );
+    expect(message).toContain("Content-Type: multipart/alternative;");
+    expect(message).not.toContain("multipart/mixed");
+  });
+
+  test("wraps body and attachments in multipart/mixed", () => {
+    const data = Buffer.from("x".repeat(200)).toString("base64");
+    const message = buildMimeMessage({
+      to: ["alice@example.com"],
+      subject: "Report",
+      html: "<p>Attached</p>",
+      attachments: [{ filename: "report.txt", mimeType: "text/plain", data }],
+    });
+
+    expect(message).toContain("Content-Type: multipart/mixed;");
+    expect(message).toContain(
+      'Content-Disposition: attachment; filename="report.txt"',
+    );
+    const longestLine = Math.max(
+      ...message.split("\r\n").map((line) => line.length),
+    );
+    expect(longestLine).toBeLessThanOrEqual(998);
+  });
+
+  test("keeps inline images with the body in multipart/related", () => {
+    const message = buildMimeMessage({
+      to: ["alice@example.com"],
+      subject: "Chart",
+      html: '<p><img src="cid:chart@inline"></p>',
+      inlineImages: [
+        {
+          contentId: "chart@inline",
+          filename: "image-1.png",
+          mimeType: "image/png",
+          data: Buffer.from("png").toString("base64"),
+        },
+      ],
+      attachments: [
+        { filename: "report.txt", mimeType: "text/plain", data: "eA==" },
+      ],
+    });
+
+    const mixed = message.indexOf("Content-Type: multipart/mixed;");
+    const related = message.indexOf("Content-Type: multipart/related;");
+    const alternative = message.indexOf("Content-Type: multipart/alternative;");
+    expect(mixed).toBeGreaterThan(-1);
+    expect(related).toBeGreaterThan(mixed);
+    expect(alternative).toBeGreaterThan(related);
+    expect(message).toContain("Content-ID: <chart@inline>\r\n");
+    expect(message).toContain(
+      'Content-Disposition: inline; filename="image-1.png"',
+    );
+  });
+
+  test("strips line breaks from header values", () => {
+    const message = buildMimeMessage({
+      to: ["alice@example.com\r\nBcc: eve@example.com"],
+      subject: "Hi\nX-Injected: yes",
+      html: "<p>Hi</p>",
+    });
+
+    expect(message).not.toMatch(/^Bcc:/m);
+    expect(message).not.toMatch(/^X-Injected:/m);
+  });
+
+  test("requires at least one recipient", () => {
+    expect(() =>
+      buildMimeMessage({ to: [], subject: "Empty", html: "<p>Hi</p>" }),
+    ).toThrow();
+  });
+});
+
+test("encodeHeaderValue only encodes non-ASCII values", () => {
+  expect(encodeHeaderValue("Hello")).toBe("Hello");
+  expect(encodeHeaderValue("Grüße")).toBe(
+    `=?UTF-8?B?${Buffer.from("Grüße").toString("base64")}?=`,
+  );
+});
+
+test("htmlToPlainText keeps line structure", () => {
+  expect(htmlToPlainText("<p>Hi &amp; bye</p><p>Line<br>two</p>")).toBe(
+    "Hi & bye\nLine\ntwo",
+  );
+});
+
+test("toBase64Url produces unpadded base64url", () => {
+  const encoded = toBase64Url("??>>");
+  expect(encoded).not.toMatch(/[+/=]/);
+  expect(Buffer.from(encoded, "base64url").toString()).toBe("??>>");
+});
@@ -0,0 +1,52 @@
+import { describe, expect, test } from "vitest";
+import { createOfflineModel } from "@/lib/offline-model";
+
+type CallOptions = Parameters<
+  ReturnType<typeof createOfflineModel>["doGenerate"]
+>[0];
+
+function userPrompt(text: string): CallOptions {
+  return {
+    prompt: [
+      { role: "system", content: "You are a helpful assistant." },
+      { role: "user", content: [{ type: "text", text }] },
+    ],
+  };
+}
+
+describe("createOfflineModel", () => {
+  test("returns an empty classification for labelling", async () => {
+    const model = createOfflineModel("labelling");
+    const result = await model.doGenerate(userPrompt("email: Hello"));
+
+    expect(result.content).toEqual([{ type: "text", text: '{"results":[]}' }]);
+  });
+
+  test("is deterministic", async () => {
+    const model = createOfflineModel("summarising");
+    const text = "Quarterly numbers are in. ".repeat(20);
+
+    const first = await model.doGenerate(userPrompt(text));
+    const second = await model.doGenerate(userPrompt(text));
+
+    expect(first.content).toEqual(second.content);
+    const [part] = first.content;
+    expect(part.type === "text" && part.text.length).toBeLessThanOrEqual(201);
+  });
+
+  test("streams the same text it generates", async () => {
+    const model = createOfflineModel("drafting");
+    const { stream } = await model.doStream(userPrompt("Can we meet?"));
+    const generated = await model.doGenerate(userPrompt("Can we meet?"));
+
+    let streamed = "";
+    const reader = stream.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (value.type === "text-delta") streamed += value.delta;
+    }
+
+    expect(generated.content).toEqual([{ type: "text", text: streamed }]);
+  });
+});
@@ -0,0 +1,197 @@
+// @vitest-environment node
+import { AuthProvider, OutboxMessage, User } from "@prisma/client";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+
+const { db, gmail, graph, scheduleFollowUp } = vi.hoisted(() => ({
+  db: {
+    releaseSendingOutboxMessages: vi.fn(),
+    getDueOutboxMessages: vi.fn(),
+    claimOutboxMessage: vi.fn(),
+    getNextOutboxSendAt: vi.fn(),
+    deleteOutboxMessage: vi.fn(),
+    findUserById: vi.fn(),
+    findUserByEmail: vi.fn(),
+    getEmailThreadByExternalId: vi.fn(),
+    updateEmailThreadState: vi.fn(),
+  },
+  gmail: { send: vi.fn() },
+  graph: { get: vi.fn(), post: vi.fn(), delete: vi.fn() },
+  scheduleFollowUp: vi.fn(),
+}));
+
+vi.mock("@/services/database", () => ({
+  DatabaseService: class {
+    constructor() {
+      return db;
+    }
+  },
+}));
+vi.mock("@/services/authenticated-client", () => ({
+  AuthenticatedClientService: class {
+    withAccessToken<T>(_user: User, call: (token: string) => Promise<T>) {
+      return call("token");
+    }
+  },
+  gmailClientFromAccessToken: () => ({
+    users: { messages: { send: gmail.send } },
+  }),
+  // Requests are told apart by their path, e.g. "POST /me/messages"
+  graphClientFromAccessToken: () => ({
+    api: (path: string) => {
+      const request = {
+        filter: () => request,
+        select: () => request,
+        get: () => graph.get(`GET ${path}`),
+        post: (body: unknown) => graph.post(`POST ${path}`, body),
+        delete: () => graph.delete(`DELETE ${path}`),
+      };
+      return request;
+    },
+  }),
+}));
+vi.mock("@/services/follow-ups", () => ({
+  FollowUpService: class {
+    scheduleFollowUp = scheduleFollowUp;
+  },
+}));
+vi.mock("@/services/sync-scheduler", () => ({
+  onAccountSynced: () => () => {},
+}));
+vi.mock("@/services/inline-images", () => ({
+  InlineImageService: class {
+    embedImages = async (html: string) => ({ html, images: [] });
+  },
+  toGraphInlineAttachment: vi.fn(),
+}));
+vi.mock("@/services/drafts", () => ({ DraftService: class {} }));
+vi.mock("@/services/llm-settings", () => ({ LlmSettingsService: class {} }));
+vi.mock("@/services/labels", () => ({ LabelService: class {} }));
+vi.mock("@/services/mail-rules", () => ({ MailRuleService: class {} }));
+vi.mock("@/services/contacts", () => ({ ContactService: class {} }));
+
+import { EmailService } from "@/services/email";
+import { OutboxService } from "@/services/outbox";
+
+function makeUser(provider: AuthProvider): User {
+  return {
+    id: "user-1",
+    email: "me@example.com",
+    provider,
+  } as User;
+}
+
+// A new message, not a reply, so there's no thread yet
+const message = {
+  id: "outbox-1",
+  mode: "new",
+  to: JSON.stringify(["jane@example.com"]),
+  cc: "[]",
+  bcc: "[]",
+  subject: "Contract draft",
+  body: "<p>Here it is</p>",
+  isHtml: true,
+  threadId: null,
+  replyToMessageId: null,
+  attachments: null,
+  followUpDuration: 72,
+  userId: "user-1",
+} as OutboxMessage;
+
+let outbox: OutboxService;
+
+async function sendQueuedMessage() {
+  outbox = new OutboxService();
+  await outbox.start();
+  await vi.waitFor(() => expect(scheduleFollowUp).toHaveBeenCalled());
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  db.releaseSendingOutboxMessages.mockResolvedValue(0);
+  db.getDueOutboxMessages
+    .mockResolvedValueOnce([message])
+    .mockResolvedValue([]);
+  db.claimOutboxMessage.mockResolvedValue(true);
+  db.getNextOutboxSendAt.mockResolvedValue(null);
+});
+
+afterEach(() => {
+  outbox.stop();
+  vi.restoreAllMocks();
+});
+
+describe("follow-ups on new messages", () => {
+  test("Gmail: on the thread Gmail put the sent message in", async () => {
+    const user = makeUser(AuthProvider.GOOGLE);
+    db.findUserById.mockResolvedValue(user);
+    db.findUserByEmail.mockResolvedValue(user);
+    gmail.send.mockResolvedValue({
+      data: { id: "gmail-message-1", threadId: "gmail-thread-1" },
+    });
+
+    await sendQueuedMessage();
+
+    expect(scheduleFollowUp).toHaveBeenCalledWith(user.email, {
+      threadId: "gmail-thread-1",
+      subject: "Contract draft",
+      recipients: ["jane@example.com"],
+      hours: 72,
+    });
+  });
+
+  test("Outlook: on the sent copy, stored out of the inbox", async () => {
+    const user = makeUser(AuthProvider.OUTLOOK);
+    db.findUserById.mockResolvedValue(user);
+    db.findUserByEmail.mockResolvedValue(user);
+    db.getEmailThreadByExternalId.mockResolvedValue({ id: "stored-1" });
+    const saveEmails = vi
+      .spyOn(
+        EmailService.prototype as unknown as {
+          saveEmailsToDatabase: () => Promise<number>;
+        },
+        "saveEmailsToDatabase",
+      )
+      .mockResolvedValue(0);
+
+    const sentCopy = {
+      id: "sent-copy-1",
+      subject: "Contract draft",
+      receivedDateTime: "2025-10-20T09:00:00Z",
+      isRead: true,
+      importance: "normal",
+      hasAttachments: false,
+      from: { emailAddress: { address: user.email } },
+      toRecipients: [{ emailAddress: { address: "jane@example.com" } }],
+      parentFolderId: "sent-items",
+    };
+    graph.post.mockImplementation(async (request: string) =>
+      request === "POST /me/messages"
+        ? { id: "draft-1", internetMessageId: "<abc@outlook.com>" }
+        : undefined,
+    );
+    graph.get.mockImplementation(async (request: string) =>
+      request === "GET /me/mailFolders/sentitems/messages"
+        ? { value: [sentCopy] }
+        : { id: request.split("/").pop() },
+    );
+
+    await sendQueuedMessage();
+
+    expect(graph.post).toHaveBeenCalledWith(
+      "POST /me/messages/draft-1/send",
+      {},
+    );
+    expect(saveEmails).toHaveBeenCalledWith(user.id, [
+      expect.objectContaining({ id: "sent-copy-1" }),
+    ]);
+    expect(db.updateEmailThreadState).toHaveBeenCalledWith(
+      "stored-1",
+      expect.objectContaining({ isArchived: true, folderId: "sent-items" }),
+    );
+    expect(scheduleFollowUp).toHaveBeenCalledWith(
+      user.email,
+      expect.objectContaining({ threadId: "sent-copy-1", hours: 72 }),
+    );
+  });
+});
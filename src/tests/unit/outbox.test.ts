@@ -0,0 +1,119 @@
+import { describe, expect, test } from "vitest";
+import {
+  getOutboxSend,
+  getRetryDelayMs,
+  getScheduleSendOptions,
+  isRetryableSendError,
+} from "@/lib/outbox";
+
+const labels = (now: Date) =>
+  getScheduleSendOptions(now).map((option) => option.label);
+
+describe("getRetryDelayMs", () => {
+  test("doubles from 30 seconds and caps at 4 hours", () => {
+    expect(getRetryDelayMs(1)).toBe(30 * 1000);
+    expect(getRetryDelayMs(2)).toBe(60 * 1000);
+    expect(getRetryDelayMs(4)).toBe(4 * 60 * 1000);
+    expect(getRetryDelayMs(20)).toBe(4 * 60 * 60 * 1000);
+  });
+});
+
+describe("isRetryableSendError", () => {
+  test("retries when offline, rate limited or the provider is down", () => {
+    expect(isRetryableSendError({ code: "ENOTFOUND" })).toBe(true);
+    expect(isRetryableSendError({ code: 429 })).toBe(true);
+    expect(isRetryableSendError({ response: { status: 503 } })).toBe(true);
+    expect(isRetryableSendError(new TypeError("fetch failed"))).toBe(true);
+    expect(
+      isRetryableSendError(
+        new Error("Request failed", { cause: { code: "ECONNRESET" } }),
+      ),
+    ).toBe(true);
+  });
+
+  test("gives up on errors that won't fix themselves", () => {
+    expect(isRetryableSendError({ code: 400 })).toBe(false);
+    expect(isRetryableSendError({ statusCode: 401 })).toBe(false);
+    expect(isRetryableSendError(new Error("Invalid To header"))).toBe(false);
+    expect(isRetryableSendError(null)).toBe(false);
+  });
+});
+
+describe("getOutboxSend", () => {
+  const attachment = {
+    filename: "notes.txt",
+    mimeType: "text/plain",
+    size: 5,
+    data: "aGVsbG8=",
+  };
+  const queued = {
+    mode: "new",
+    to: JSON.stringify(["ana@example.com"]),
+    cc: JSON.stringify(["ben@example.com"]),
+    bcc: JSON.stringify(["cy@example.com"]),
+    subject: "Notes",
+    body: "<p>Attached</p>",
+    isHtml: true,
+    threadId: null,
+    replyToMessageId: null,
+    attachments: JSON.stringify([attachment]),
+  };
+
+  test("keeps cc, bcc and attachments on a new message", () => {
+    expect(getOutboxSend(queued)).toEqual({
+      to: ["ana@example.com"],
+      cc: ["ben@example.com"],
+      bcc: ["cy@example.com"],
+      subject: "Notes",
+      body: "<p>Attached</p>",
+      isHtml: true,
+      attachments: [attachment],
+      reply: null,
+    });
+  });
+
+  test("answers the original only when it's known", () => {
+    const forward = {
+      ...queued,
+      mode: "forward",
+      threadId: "thread-1",
+      replyToMessageId: "message-1",
+    };
+    expect(getOutboxSend(forward).reply).toEqual({
+      threadId: "thread-1",
+      replyToMessageId: "message-1",
+      mode: "forward",
+    });
+
+    const orphan = getOutboxSend({ ...forward, replyToMessageId: null });
+    expect(orphan.reply).toBeNull();
+    expect(orphan.cc).toEqual(["ben@example.com"]);
+    expect(orphan.attachments).toEqual([attachment]);
+  });
+});
+
+describe("getScheduleSendOptions", () => {
+  test("offers later today, tomorrow and Monday mornings", () => {
+    const wednesday = new Date(2025, 9, 22, 10, 15);
+    const options = getScheduleSendOptions(wednesday);
+
+    expect(options.map((option) => option.label)).toEqual([
+      "Later today",
+      "Tomorrow morning",
+      "Monday morning",
+    ]);
+    expect(options[0].sendAt).toEqual(new Date(2025, 9, 22, 13));
+    expect(options[1].sendAt).toEqual(new Date(2025, 9, 23, 8));
+    expect(options[2].sendAt).toEqual(new Date(2025, 9, 27, 8));
+  });
+
+  test("skips later today in the evening and Monday when it's tomorrow", () => {
+    const sundayEvening = new Date(2025, 9, 26, 19, 30);
+    expect(labels(sundayEvening)).toEqual(["Tomorrow morning"]);
+
+    const mondayMorning = new Date(2025, 9, 27, 9);
+    expect(getScheduleSendOptions(mondayMorning)[2].sendAt).toEqual(
+      new Date(2025, 10, 3, 8),
+    );
+  });
+});
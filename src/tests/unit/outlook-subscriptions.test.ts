@@ -0,0 +1,52 @@
+import { describe, expect, test } from "vitest";
+import {
+  OUTLOOK_POLL_INTERVAL_MS,
+  OUTLOOK_SUBSCRIPTION_RENEW_BEFORE_MS,
+  getNextOutlookSubscriptionCheck,
+  getOutlookSubscriptionExpiry,
+  getOutlookSubscriptionState,
+} from "@/lib/outlook-subscriptions";
+
+const now = new Date("2025-10-28T12:00:00Z");
+const HOUR = 60 * 60 * 1000;
+const inHours = (hours: number) => new Date(now.getTime() + hours * HOUR);
+
+describe("getOutlookSubscriptionState", () => {
+  test("renews in the last day before expiry", () => {
+    expect(
+      getOutlookSubscriptionState({ id: "sub", expiresAt: inHours(48) }, now),
+    ).toBe("active");
+    expect(
+      getOutlookSubscriptionState({ id: "sub", expiresAt: inHours(6) }, now),
+    ).toBe("renew");
+  });
+
+  test("lapses once expired or never made", () => {
+    expect(
+      getOutlookSubscriptionState({ id: "sub", expiresAt: inHours(-1) }, now),
+    ).toBe("lapsed");
+    expect(
+      getOutlookSubscriptionState({ id: null, expiresAt: inHours(48) }, now),
+    ).toBe("lapsed");
+  });
+});
+
+describe("getNextOutlookSubscriptionCheck", () => {
+  test("waits for renewal while active", () => {
+    const subscription = {
+      id: "sub",
+      expiresAt: getOutlookSubscriptionExpiry(now),
+    };
+    expect(getNextOutlookSubscriptionCheck(subscription, now)).toEqual(
+      new Date(
+        subscription.expiresAt.getTime() - OUTLOOK_SUBSCRIPTION_RENEW_BEFORE_MS,
+      ),
+    );
+  });
+
+  test("polls while lapsed", () => {
+    expect(
+      getNextOutlookSubscriptionCheck({ id: null, expiresAt: now }, now),
+    ).toEqual(new Date(now.getTime() + OUTLOOK_POLL_INTERVAL_MS));
+  });
+});
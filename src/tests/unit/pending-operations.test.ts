@@ -0,0 +1,131 @@
+import { describe, expect, test } from "vitest";
+import {
+  PendingOperationData,
+  describePendingOperation,
+  getReplayDecision,
+  isGoneError,
+  parsePendingOperation,
+} from "@/lib/pending-operations";
+
+const queuedAt = new Date("2025-10-31T09:00:00Z");
+const before = { timestamp: new Date("2025-10-31T08:00:00Z") };
+const after = { timestamp: new Date("2025-10-31T10:00:00Z") };
+
+const previous = {
+  isRead: false,
+  isArchived: false,
+  isStarred: false,
+  isTrashed: false,
+  snoozedUntil: null,
+  folderId: null,
+};
+
+function threadAction(type: string): PendingOperationData {
+  return {
+    type: "threadAction",
+    action: { type } as never,
+    previous,
+  };
+}
+
+describe("parsePendingOperation", () => {
+  test("reads back what was stored, dates included", () => {
+    const data: PendingOperationData = {
+      type: "threadAction",
+      action: { type: "snooze", snoozeUntil: queuedAt },
+      previous: { ...previous, snoozedUntil: before.timestamp },
+    };
+    const parsed = parsePendingOperation("threadAction", JSON.stringify(data));
+    expect(parsed).toEqual(data);
+  });
+
+  test("reads label changes", () => {
+    const data = {
+      type: "updateLabels",
+      labels: ["Work"],
+      operation: "add",
+      previousLabels: [],
+    };
+    expect(parsePendingOperation("updateLabels", JSON.stringify(data))).toEqual(
+      data,
+    );
+  });
+
+  test("is null for anything it can't read", () => {
+    expect(parsePendingOperation("markRead", "{")).toBeNull();
+    expect(
+      parsePendingOperation(
+        "markRead",
+        JSON.stringify({ type: "updateLabels" }),
+      ),
+    ).toBeNull();
+    expect(
+      parsePendingOperation(
+        "threadAction",
+        JSON.stringify({ type: "threadAction", action: { type: "explode" } }),
+      ),
+    ).toBeNull();
+    expect(
+      parsePendingOperation(
+        "updateLabels",
+        JSON.stringify({ type: "updateLabels", labels: ["a"] }),
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("getReplayDecision", () => {
+  test("drops changes to threads deleted since", () => {
+    expect(getReplayDecision({ type: "markRead" }, queuedAt, null)).toBe(
+      "drop",
+    );
+  });
+
+  test("applies changes the server hasn't overtaken", () => {
+    expect(getReplayDecision(threadAction("archive"), queuedAt, before)).toBe(
+      "apply",
+    );
+    expect(getReplayDecision({ type: "markRead" }, queuedAt, before)).toBe(
+      "apply",
+    );
+  });
+
+  test("doesn't hide mail that arrived after the change", () => {
+    expect(getReplayDecision(threadAction("archive"), queuedAt, after)).toBe(
+      "conflict",
+    );
+    expect(getReplayDecision(threadAction("trash"), queuedAt, after)).toBe(
+      "conflict",
+    );
+    expect(getReplayDecision({ type: "markRead" }, queuedAt, after)).toBe(
+      "conflict",
+    );
+  });
+
+  test("keeps changes that don't hide mail", () => {
+    expect(getReplayDecision(threadAction("star"), queuedAt, after)).toBe(
+      "apply",
+    );
+    expect(getReplayDecision(threadAction("unarchive"), queuedAt, after)).toBe(
+      "apply",
+    );
+  });
+});
+
+describe("isGoneError", () => {
+  test("is true for not found and gone", () => {
+    expect(isGoneError({ response: { status: 404 } })).toBe(true);
+    expect(isGoneError({ statusCode: 410 })).toBe(true);
+    expect(isGoneError({ response: { status: 403 } })).toBe(false);
+    expect(isGoneError(new Error("boom"))).toBe(false);
+  });
+});
+
+describe("describePendingOperation", () => {
+  test("names the change", () => {
+    expect(describePendingOperation(threadAction("archive"))).toBe("Archiving");
+    expect(describePendingOperation({ type: "markRead" })).toBe(
+      "Marking as read",
+    );
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, expect, test } from "vitest";
+import { getRelayWebhookUrl } from "@/lib/relay";
+
+describe("getRelayWebhookUrl", () => {
+  test("maps WebSocket URLs to their HTTP equivalents", () => {
+    expect(getRelayWebhookUrl("wss://hooks.example.com", "outlook")).toBe(
+      "https://hooks.example.com/webhook/outlook",
+    );
+    expect(getRelayWebhookUrl("ws://localhost:3001", "gmail")).toBe(
+      "http://localhost:3001/webhook/gmail",
+    );
+  });
+
+  test("keeps a base path, without doubling slashes", () => {
+    expect(
+      getRelayWebhookUrl("https://abc.tunnel.example/relay/", "outlook"),
+    ).toBe("https://abc.tunnel.example/relay/webhook/outlook");
+  });
+});
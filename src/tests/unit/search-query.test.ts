@@ -0,0 +1,67 @@
+import { describe, expect, test } from "vitest";
+import {
+  buildFtsMatchExpression,
+  isEmptySearchQuery,
+  parseSearchQuery,
+} from "@/lib/search-query";
+
+describe("parseSearchQuery", () => {
+  test("splits operators from free text", () => {
+    const parsed = parseSearchQuery(
+      'from:alice@example.com to:bob label:"Team Updates" quarterly report',
+    );
+
+    expect(parsed.from).toEqual(["alice@example.com"]);
+    expect(parsed.to).toEqual(["bob"]);
+    expect(parsed.labels).toEqual(["Team Updates"]);
+    expect(parsed.terms).toEqual(["quarterly", "report"]);
+  });
+
+  test("parses flags and dates", () => {
+    const parsed = parseSearchQuery(
+      "has:attachment is:unread after:2025/01/15 before:2025-02-01",
+    );
+
+    expect(parsed.hasAttachment).toBe(true);
+    expect(parsed.isUnread).toBe(true);
+    expect(parsed.after).toEqual(new Date(2025, 0, 15));
+    expect(parsed.before).toEqual(new Date(2025, 1, 1));
+    expect(parsed.terms).toEqual([]);
+  });
+
+  test("treats unknown operators and invalid values as text", () => {
+    const parsed = parseSearchQuery("meeting at 10:30 before:someday");
+
+    expect(parsed.terms).toEqual(["meeting", "at", "10:30", "before:someday"]);
+    expect(parsed.before).toBeUndefined();
+  });
+
+  test("detects empty queries", () => {
+    expect(isEmptySearchQuery(parseSearchQuery("   "))).toBe(true);
+    expect(isEmptySearchQuery(parseSearchQuery("is:read"))).toBe(false);
+  });
+});
+
+describe("buildFtsMatchExpression", () => {
+  test("quotes terms and prefix matches them", () => {
+    const parsed = parseSearchQuery('invoice "net 30" subject:renewal');
+
+    expect(buildFtsMatchExpression(parsed)).toBe(
+      '"invoice"* AND "net 30"* AND subject : "renewal"',
+    );
+  });
+
+  test("escapes quotes and FTS syntax in user input", () => {
+    const parsed = parseSearchQuery("NEAR(a OR b)");
+
+    expect(buildFtsMatchExpression(parsed)).toBe(
+      '"NEAR(a"* AND "OR"* AND "b)"*',
+    );
+  });
+
+  test("returns null when only structured filters are present", () => {
+    expect(
+      buildFtsMatchExpression(parseSearchQuery("from:alice has:attachment")),
+    ).toBeNull();
+  });
+});
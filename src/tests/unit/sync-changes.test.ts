@@ -0,0 +1,150 @@
+import { describe, expect, test } from "vitest";
+import {
+  ThreadSyncState,
+  applyGmailLabelChange,
+  getGmailHistoryChanges,
+  getGmailReadChange,
+  getOutlookFolderState,
+  getOutlookThreadState,
+} from "@/lib/sync-changes";
+
+const inInbox: ThreadSyncState = {
+  isArchived: false,
+  isStarred: false,
+  isTrashed: false,
+  folderId: null,
+};
+
+describe("getGmailHistoryChanges", () => {
+  test("fetches threads with new messages once", () => {
+    const { addedThreadIds, changes } = getGmailHistoryChanges([
+      { messagesAdded: [{ message: { id: "m1", threadId: "t1" } }] },
+      { messagesAdded: [{ message: { id: "m2", threadId: "t1" } }] },
+    ]);
+    expect(addedThreadIds).toEqual(["t1"]);
+    expect(changes).toEqual([]);
+  });
+
+  test("keeps deletions and label changes in order", () => {
+    const { changes } = getGmailHistoryChanges([
+      {
+        labelsRemoved: [
+          { message: { id: "m1", threadId: "t1" }, labelIds: ["UNREAD"] },
+        ],
+      },
+      { messagesDeleted: [{ message: { id: "m2", threadId: "t2" } }] },
+      {
+        labelsAdded: [
+          { message: { id: "m1", threadId: "t1" }, labelIds: ["STARRED"] },
+        ],
+      },
+    ]);
+    expect(changes).toEqual([
+      {
+        type: "labels",
+        threadId: "t1",
+        messageId: "m1",
+        added: [],
+        removed: ["UNREAD"],
+      },
+      { type: "deleted", threadId: "t2", messageId: "m2" },
+      {
+        type: "labels",
+        threadId: "t1",
+        messageId: "m1",
+        added: ["STARRED"],
+        removed: [],
+      },
+    ]);
+  });
+});
+
+describe("getGmailReadChange", () => {
+  const change = (added: string[], removed: string[]) => ({
+    type: "labels" as const,
+    threadId: "t1",
+    messageId: "m1",
+    added,
+    removed,
+  });
+
+  test("follows the UNREAD label", () => {
+    expect(getGmailReadChange(change([], ["UNREAD"]))).toBe(true);
+    expect(getGmailReadChange(change(["UNREAD"], []))).toBe(false);
+    expect(getGmailReadChange(change(["STARRED"], []))).toBeNull();
+  });
+});
+
+describe("applyGmailLabelChange", () => {
+  test("archives and unarchives with the INBOX label", () => {
+    const archived = applyGmailLabelChange(inInbox, [], ["INBOX"]);
+    expect(archived.isArchived).toBe(true);
+    expect(applyGmailLabelChange(archived, ["INBOX"], []).isArchived).toBe(
+      false,
+    );
+  });
+
+  test("trashes, restores, stars and unstars", () => {
+    const trashed = applyGmailLabelChange(inInbox, ["TRASH", "STARRED"], []);
+    expect(trashed).toMatchObject({ isTrashed: true, isStarred: true });
+    expect(
+      applyGmailLabelChange(trashed, [], ["TRASH", "STARRED"]),
+    ).toMatchObject({ isTrashed: false, isStarred: false });
+  });
+
+  test("moves to a user label and out of it", () => {
+    const moved = applyGmailLabelChange(inInbox, ["Label_1"], ["INBOX"]);
+    expect(moved).toMatchObject({ isArchived: true, folderId: "Label_1" });
+    expect(applyGmailLabelChange(moved, [], ["Label_1"]).folderId).toBeNull();
+    expect(applyGmailLabelChange(moved, ["INBOX"], [])).toMatchObject({
+      isArchived: false,
+      folderId: null,
+    });
+  });
+
+  test("only returns the synced fields", () => {
+    const thread = { ...inInbox, id: "row", subject: "Hi" };
+    expect(Object.keys(applyGmailLabelChange(thread, [], [])).sort()).toEqual([
+      "folderId",
+      "isArchived",
+      "isStarred",
+      "isTrashed",
+    ]);
+  });
+});
+
+describe("getOutlookThreadState", () => {
+  test("reads read state and flag from the delta item", () => {
+    expect(
+      getOutlookThreadState({
+        isRead: true,
+        flag: { flagStatus: "flagged" },
+      }),
+    ).toEqual({ ...inInbox, isRead: true, isStarred: true });
+    expect(getOutlookThreadState({})).toEqual(inInbox);
+  });
+});
+
+describe("getOutlookFolderState", () => {
+  const folders = { inbox: "in", archive: "arc", deletedItems: "del" };
+
+  test("follows a message out of the inbox", () => {
+    expect(getOutlookFolderState({ parentFolderId: "arc" }, folders)).toEqual({
+      ...inInbox,
+      isArchived: true,
+    });
+    expect(getOutlookFolderState({ parentFolderId: "del" }, folders)).toEqual({
+      ...inInbox,
+      isTrashed: true,
+    });
+    expect(
+      getOutlookFolderState({ parentFolderId: "receipts" }, folders),
+    ).toEqual({ ...inInbox, isArchived: true, folderId: "receipts" });
+  });
+
+  test("keeps messages still in the inbox there", () => {
+    expect(
+      getOutlookFolderState({ parentFolderId: "in", isRead: true }, folders),
+    ).toEqual({ ...inInbox, isRead: true });
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, expect, test } from "vitest";
+import {
+  getBackoffMs,
+  getHttpStatus,
+  getRetryAfterMs,
+  isOfflineError,
+  isRetryableSyncError,
+  throwRetryableFailure,
+  withRequestRetry,
+} from "@/lib/sync-scheduler";
+
+const now = new Date("2025-10-30T12:00:00Z");
+
+function httpError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`Request failed with ${status}`), {
+    response: { status, headers },
+  });
+}
+
+describe("getHttpStatus", () => {
+  test("reads Gmail and Graph errors", () => {
+    expect(getHttpStatus(httpError(429))).toBe(429);
+    expect(getHttpStatus({ statusCode: 503 })).toBe(503);
+    expect(getHttpStatus({ code: "500" })).toBe(500);
+  });
+
+  test("ignores errors without a response", () => {
+    expect(getHttpStatus({ code: "ENOTFOUND" })).toBeNull();
+    expect(getHttpStatus("boom")).toBeNull();
+  });
+});
+
+describe("isRetryableSyncError", () => {
+  test("retries rate limits and provider errors only", () => {
+    expect(isRetryableSyncError(httpError(429))).toBe(true);
+    expect(isRetryableSyncError(httpError(502))).toBe(true);
+    expect(isRetryableSyncError(httpError(404))).toBe(false);
+    expect(isRetryableSyncError(new Error("boom"))).toBe(false);
+  });
+});
+
+describe("isOfflineError", () => {
+  test("finds network errors, also as a cause", () => {
+    expect(isOfflineError({ code: "ENOTFOUND" })).toBe(true);
+    expect(
+      isOfflineError(
+        new TypeError("fetch failed", { cause: { code: "ECONNRESET" } }),
+      ),
+    ).toBe(true);
+    expect(isOfflineError(httpError(500))).toBe(false);
+  });
+});
+
+describe("getRetryAfterMs", () => {
+  test("reads seconds or a date", () => {
+    expect(getRetryAfterMs(httpError(429, { "retry-after": "120" }))).toBe(
+      120_000,
+    );
+    expect(
+      getRetryAfterMs(
+        httpError(429, { "retry-after": "Thu, 30 Oct 2025 12:01:00 GMT" }),
+        now,
+      ),
+    ).toBe(60_000);
+  });
+
+  test("reads fetch headers", () => {
+    const error = {
+      headers: new Headers({ "Retry-After": "5" }),
+    };
+    expect(getRetryAfterMs(error)).toBe(5000);
+  });
+
+  test("is null without the header", () => {
+    expect(getRetryAfterMs(httpError(429))).toBeNull();
+  });
+});
+
+describe("getBackoffMs", () => {
+  test("doubles up to the max", () => {
+    expect(getBackoffMs(1, null, 1000, 10_000)).toBe(1000);
+    expect(getBackoffMs(3, null, 1000, 10_000)).toBe(4000);
+    expect(getBackoffMs(10, null, 1000, 10_000)).toBe(10_000);
+  });
+
+  test("waits at least as long as the provider asked", () => {
+    expect(getBackoffMs(1, 60_000, 1000, 10_000)).toBe(60_000);
+  });
+});
+
+describe("withRequestRetry", () => {
+  test("retries a rate limited request", async () => {
+    const waits: number[] = [];
+    let calls = 0;
+    const result = await withRequestRetry(
+      async () => {
+        if (++calls < 3) throw httpError(429);
+        return "ok";
+      },
+      async (ms) => {
+        waits.push(ms);
+      },
+    );
+    expect(result).toBe("ok");
+    expect(waits).toEqual([1000, 2000]);
+  });
+
+  test("gives up after the retry limit", async () => {
+    let calls = 0;
+    await expect(
+      withRequestRetry(
+        async () => {
+          calls++;
+          throw httpError(503);
+        },
+        async () => {},
+      ),
+    ).rejects.toThrow("503");
+    expect(calls).toBe(3);
+  });
+
+  test("fails straight away on other errors or a long Retry-After", async () => {
+    let calls = 0;
+    const request = (error: Error) => async () => {
+      calls++;
+      throw error;
+    };
+    await expect(
+      withRequestRetry(request(httpError(404)), async () => {}),
+    ).rejects.toThrow("404");
+    await expect(
+      withRequestRetry(
+        request(httpError(429, { "retry-after": "600" })),
+        async () => {},
+      ),
+    ).rejects.toThrow("429");
+    expect(calls).toBe(2);
+  });
+});
+
+describe("throwRetryableFailure", () => {
+  test("throws the first transient failure", () => {
+    const transient = httpError(429);
+    expect(() =>
+      throwRetryableFailure([
+        { status: "fulfilled", value: 1 },
+        { status: "rejected", reason: httpError(404) },
+        { status: "rejected", reason: transient },
+      ]),
+    ).toThrow(transient);
+  });
+
+  test("lets other failures through", () => {
+    expect(
+      throwRetryableFailure([{ status: "rejected", reason: httpError(404) }]),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, test } from "vitest";
+import {
+  INBOX_FOLDER_ID,
+  ThreadActionState,
+  applyThreadActionToState,
+  getGmailLabelChanges,
+  getUndoAction,
+  validateThreadAction,
+} from "@/lib/thread-actions";
+
+const inboxState: ThreadActionState = {
+  isRead: false,
+  isArchived: false,
+  isStarred: false,
+  isTrashed: false,
+  snoozedUntil: null,
+  folderId: null,
+};
+
+describe("getUndoAction", () => {
+  test("undoing an action restores the previous state", () => {
+    const actions = [
+      { type: "archive" as const },
+      { type: "trash" as const },
+      { type: "star" as const },
+      { type: "markRead" as const },
+      { type: "move" as const, folderId: "Label_1" },
+      { type: "snooze" as const, snoozeUntil: new Date(Date.now() + 60000) },
+    ];
+
+    for (const action of actions) {
+      const after = applyThreadActionToState(inboxState, action);
+      const undo = getUndoAction(action, inboxState);
+      expect(undo).toBeTruthy();
+      expect(applyThreadActionToState(after, undo!)).toEqual(inboxState);
+    }
+  });
+
+  test("moves back to the previous folder", () => {
+    const inFolder = { ...inboxState, isArchived: true, folderId: "Label_1" };
+    expect(
+      getUndoAction({ type: "move", folderId: "Label_2" }, inFolder),
+    ).toEqual({ type: "move", folderId: "Label_1" });
+  });
+
+  test("deleting forever can't be undone", () => {
+    expect(getUndoAction({ type: "deleteForever" }, inboxState)).toBeNull();
+  });
+});
+
+describe("getGmailLabelChanges", () => {
+  test("moving swaps the folder label and leaves the inbox", () => {
+    expect(
+      getGmailLabelChanges({ type: "move", folderId: "Label_2" }, "Label_1"),
+    ).toEqual({
+      addLabelIds: ["Label_2"],
+      removeLabelIds: ["INBOX", "Label_1"],
+    });
+    expect(
+      getGmailLabelChanges(
+        { type: "move", folderId: INBOX_FOLDER_ID },
+        "Label_1",
+      ),
+    ).toEqual({ addLabelIds: ["INBOX"], removeLabelIds: ["Label_1"] });
+  });
+
+  test("trash and snooze don't use labels", () => {
+    expect(getGmailLabelChanges({ type: "trash" }, null)).toBeNull();
+    expect(getGmailLabelChanges({ type: "snooze" }, null)).toBeNull();
+  });
+});
+
+test("validateThreadAction rejects snoozing into the past", () => {
+  expect(() =>
+    validateThreadAction({
+      type: "snooze",
+      snoozeUntil: new Date(Date.now() - 1000),
+    }),
+  ).toThrow("Snooze needs a time in the future");
+});
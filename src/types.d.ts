@@ -74,6 +74,7 @@ interface EmailMessage {
   timestamp: Date;
   body: string;
   htmlBody?: string;
+  isBodyLoaded?: boolean; // False while body is Gmail's snippet, until opened
   attachments?: EmailAttachment[];
   isRead: boolean;
 }
@@ -93,6 +94,7 @@ interface OAuthContext {
   }>;
   googleRefreshToken: (refreshToken: string) => Promise<OAuthTokens>;
   googleRevokeToken: (token: string) => Promise<void>;
+  googleGrantFullAccess: (userEmail: string) => Promise<void>;
   outlookAuthenticate: () => Promise<{
     tokens: OAuthTokens;
     userInfo: GoogleUserInfo;
@@ -128,7 +130,8 @@ interface EmailContext {
     isHtml?: boolean,
   ) => Promise<void>;
   setupGmailPushNotifications: (userEmail: string) => Promise<void>;
-  setupOutlookWebhook: (userEmail: string, webhookUrl: string) => Promise<void>;
+  setupOutlookWebhook: (userEmail: string) => Promise<void>;
+  removeOutlookWebhook: (userEmail: string) => Promise<void>;
   getInboxEmailsFromDB: (
     userEmail: string,
     limit?: number,
@@ -145,7 +148,14 @@ interface EmailContext {
   onEmailError: (callback: (error: string) => void) => void;
   onNewEmailNotification: (
     callback: (data: { userEmail: string; newEmails: EmailThread[] }) => void,
-  ) => void;
+  ) => () => void;
+  onMailChanged: (
+    callback: (event: {
+      userEmail: string;
+      updatedThreadIds: string[];
+      deletedThreadIds: string[];
+    }) => void,
+  ) => () => void;
 }
 
 interface PlacePrediction {
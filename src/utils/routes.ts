@@ -10,6 +10,19 @@ declare module "@tanstack/react-router" {
 // Function to determine initial route based on authentication state
 function getInitialRoute(): string {
   try {
+    const storedAccounts = localStorage.getItem("authenticatedAccounts");
+    if (storedAccounts) {
+      const accounts = JSON.parse(storedAccounts);
+      // Validate the stored user data
+      if (
+        Array.isArray(accounts) &&
+        accounts.some((userData) => userData?.email && userData?.provider)
+      ) {
+        return "/emails";
+      }
+    }
+
+    // Single-account builds stored one user under this key
     const storedUser = localStorage.getItem("authenticatedUser");
     if (storedUser) {
       const userData = JSON.parse(storedUser);
@@ -20,6 +33,7 @@ function getInitialRoute(): string {
     }
   } catch (error) {
     console.error("Error checking initial auth state:", error);
+    localStorage.removeItem("authenticatedAccounts");
     localStorage.removeItem("authenticatedUser");
   }
   return "/";